@@ -0,0 +1,146 @@
+/**
+ * Conformance of the API client with the OpenAPI document generated by the server
+ * Every service method of the client is called against a recording fetch, and
+ * every request it makes must match a documented operation, so that a route renamed or
+ * removed on one side fails here.
+ */
+
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { ElizaClient } from '../client';
+// Imported from source, as a dependency on @elizaos/server would make the workspace cyclic
+import { createOpenApiDocument } from '../../../server/src/api/openapi/document';
+
+/** Value passed for every path parameter, replaced by `{}` in the recorded paths */
+const PARAM = 'param';
+
+/**
+ * Requests the client makes although the server has no such route. Remove an entry once
+ * the route exists on the server or the client method is dropped.
+ */
+const KNOWN_DIVERGENCES = new Set([
+  // Message completion and single message routes were never added to the messaging API
+  'POST /api/messaging/complete',
+  'GET /api/messaging/messages/{}',
+  'PATCH /api/messaging/messages/{}',
+  'POST /api/messaging/messages/search',
+  // Message servers can be created but not synced or deleted
+  'POST /api/messaging/message-servers/{}/sync-channels',
+  'DELETE /api/messaging/message-servers/{}',
+  // Speech is served through /speech/generate and /speech/conversation
+  'POST /api/audio/{}/speech',
+]);
+
+/** Service members that make no request of their own */
+const HELPERS = new Set([
+  'audio.requestBinary',
+  'audio.processAudioInput',
+  'audio.isBase64String',
+  'audio.isBuffer',
+  'system.buildUrl',
+  'system.getHeaders',
+  // Throws, as the server cannot delete a single log entry
+  'system.deleteLog',
+]);
+
+/** Arguments of the methods that validate theirs, by default path parameters */
+const ARGUMENTS: Record<string, unknown[]> = {
+  'messaging.getOrCreateDmChannel': [{ participantIds: [PARAM, PARAM] }],
+  'audio.speechConversation': [PARAM, { audio: new Blob(['audio']) }],
+  'audio.transcribe': [PARAM, { audio: new Blob(['audio']) }],
+  'media.uploadAgentMedia': [PARAM, { file: new Blob(['image']), filename: 'image.png' }],
+  'system.updateLocalEnvironment': [{ LOG_LEVEL: 'debug' }],
+  'sessions.sendMessage': [PARAM, { content: 'hello' }],
+  'sessions.sendMessageSync': [PARAM, { content: 'hello' }],
+};
+
+/**
+ * Calls every service method and records its requests as `METHOD path`, with path
+ * parameters left unnamed. Responses complete the jobs polled by the job helpers.
+ */
+async function collectClientRequests(): Promise<{ requests: Set<string>; silent: string[] }> {
+  const requests = new Set<string>();
+  const silent: string[] = [];
+  let calls = 0;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const path = new URL(String(input)).pathname
+      .split('/')
+      .map((segment) => (segment === PARAM ? '{}' : segment))
+      .join('/');
+    requests.add(`${init?.method ?? 'GET'} ${path}`);
+    calls++;
+    return Response.json({
+      jobId: PARAM,
+      status: 'completed',
+      result: { message: { content: 'hello' } },
+    });
+  }) as typeof fetch;
+
+  try {
+    const client = new ElizaClient({ baseUrl: 'http://localhost:3000' });
+    const services = Object.entries(client) as [
+      string,
+      Record<string, (...args: unknown[]) => Promise<unknown>>,
+    ][];
+    for (const [serviceName, service] of services) {
+      for (const name of Object.getOwnPropertyNames(Object.getPrototypeOf(service))) {
+        const method = `${serviceName}.${name}`;
+        if (name === 'constructor' || HELPERS.has(method)) {
+          continue;
+        }
+        const before = calls;
+        await service[name](...(ARGUMENTS[method] ?? [PARAM, PARAM, PARAM]));
+        if (calls === before) {
+          silent.push(method);
+        }
+      }
+    }
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+  return { requests, silent };
+}
+
+/** Documented operations as `METHOD path`, with path parameters left unnamed */
+function documentedOperations(): Set<string> {
+  const paths = createOpenApiDocument({ version: '0.0.0' }).paths as Record<string, object>;
+  return new Set(
+    Object.entries(paths).flatMap(([path, operations]) =>
+      Object.keys(operations).map(
+        (method) => `${method.toUpperCase()} ${path.replace(/\{[^}]+\}/g, '{}')}`
+      )
+    )
+  );
+}
+
+describe('API client conformance', () => {
+  const documented = documentedOperations();
+  let requests: Set<string>;
+  let silent: string[];
+
+  beforeAll(async () => {
+    ({ requests, silent } = await collectClientRequests());
+  });
+
+  it('should record the requests of every service method', () => {
+    expect(silent).toEqual([]);
+    expect(requests.size).toBeGreaterThan(80);
+    expect(requests.has('GET /api/agents/{}/runs/{}')).toBe(true);
+  });
+
+  it('should only make requests documented by the server', () => {
+    const undocumented = Array.from(requests).filter(
+      (operation) => !documented.has(operation) && !KNOWN_DIVERGENCES.has(operation)
+    );
+
+    expect(undocumented).toEqual([]);
+  });
+
+  it('should not list divergences that have been resolved', () => {
+    const resolved = Array.from(KNOWN_DIVERGENCES).filter(
+      (operation) => documented.has(operation) || !requests.has(operation)
+    );
+
+    expect(resolved).toEqual([]);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
 import { AgentsService } from '../../services/agents';
 import { ApiClientConfig } from '../../types/base';
+import { AgentImportParams } from '../../types/agents';
 import { UUID } from '@elizaos/core';
 import { BaseApiClient } from '../../lib/base-client';
 
@@ -372,6 +373,51 @@ describe('AgentsService', () => {
     });
   });
 
+  describe('exportAgent', () => {
+    it('should export an agent bundle with the requested secrets mode', async () => {
+      const mockBundle = { format: 'elizaos-agent-bundle', version: 1 };
+      agentsService.get.mockResolvedValue(mockBundle);
+
+      const result = await agentsService.exportAgent(TEST_AGENT_ID, {
+        secrets: 'encrypted',
+        tables: ['messages', 'facts'],
+      });
+
+      expect(agentsService.get).toHaveBeenCalledWith(`/api/agents/${TEST_AGENT_ID}/export`, {
+        params: { secrets: 'encrypted', tables: 'messages,facts' },
+      });
+      expect(result).toEqual(mockBundle);
+    });
+
+    it('should pass the memory page through', async () => {
+      agentsService.get.mockResolvedValue({ format: 'elizaos-agent-bundle', version: 1 });
+
+      await agentsService.exportAgent(TEST_AGENT_ID, { memoryOffset: 500, memoryLimit: 500 });
+
+      expect(agentsService.get).toHaveBeenCalledWith(`/api/agents/${TEST_AGENT_ID}/export`, {
+        params: { memoryOffset: 500, memoryLimit: 500 },
+      });
+    });
+  });
+
+  describe('importAgent', () => {
+    it('should import an agent bundle', async () => {
+      const mockResult = { agentId: TEST_AGENT_ID_2, mode: 'replace', remapped: true };
+      agentsService.post.mockResolvedValue(mockResult);
+      const params = {
+        bundle: { format: 'elizaos-agent-bundle' } as AgentImportParams['bundle'],
+        mode: 'replace' as const,
+        remapIds: true,
+        agentId: TEST_AGENT_ID_2,
+      };
+
+      const result = await agentsService.importAgent(params);
+
+      expect(agentsService.post).toHaveBeenCalledWith('/api/agents/import', params);
+      expect(result).toEqual(mockResult);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle network errors', async () => {
       agentsService.get.mockRejectedValue(new Error('Network error'));
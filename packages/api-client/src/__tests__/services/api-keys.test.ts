@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { ApiKeysService } from '../../services/api-keys';
+import { ApiClientConfig } from '../../types/base';
+import type { UUID } from '@elizaos/core';
+
+// Helper type to access protected methods in tests
+type MockableApiKeysService = ApiKeysService & {
+  get: ReturnType<typeof mock>;
+  post: ReturnType<typeof mock>;
+  delete: ReturnType<typeof mock>;
+};
+
+describe('ApiKeysService', () => {
+  let apiKeysService: MockableApiKeysService;
+  const mockConfig: ApiClientConfig = {
+    baseUrl: 'http://localhost:3000',
+    apiKey: 'test-key',
+  };
+  const keyId = '550e8400-e29b-41d4-a716-446655440000' as UUID;
+
+  beforeEach(() => {
+    apiKeysService = new ApiKeysService(mockConfig) as MockableApiKeysService;
+    apiKeysService.get = mock(() => Promise.resolve({ keys: [] }));
+    apiKeysService.post = mock(() => Promise.resolve({}));
+    apiKeysService.delete = mock(() => Promise.resolve({}));
+  });
+
+  it('should list keys', async () => {
+    const result = await apiKeysService.listApiKeys();
+
+    expect(apiKeysService.get).toHaveBeenCalledWith('/api/system/api-keys');
+    expect(result).toEqual({ keys: [] });
+  });
+
+  it('should create and revoke a key', async () => {
+    const params = { name: 'dashboard', scopes: ['agents:read' as const] };
+    await apiKeysService.createApiKey(params);
+    await apiKeysService.revokeApiKey(keyId);
+
+    expect(apiKeysService.post).toHaveBeenCalledWith('/api/system/api-keys', params);
+    expect(apiKeysService.delete).toHaveBeenCalledWith(`/api/system/api-keys/${keyId}`);
+  });
+
+  it('should get key usage with pagination', async () => {
+    await apiKeysService.getApiKeyUsage(keyId, { limit: 10, offset: 20 });
+
+    expect(apiKeysService.get).toHaveBeenCalledWith(`/api/system/api-keys/${keyId}/usage`, {
+      params: { limit: 10, offset: 20 },
+    });
+  });
+});
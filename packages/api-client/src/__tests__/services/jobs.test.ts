@@ -225,6 +225,31 @@ describe('JobsService', () => {
       });
       expect(result).toEqual(mockResponse);
     });
+
+    it('should join multiple statuses and pass agent, user and time filters', async () => {
+      const mockResponse = { jobs: [], total: 0, filtered: 0 };
+      jobsService.get.mockResolvedValue(mockResponse);
+
+      await jobsService.list({
+        agentId: 'agent-1' as UUID,
+        userId: 'user-1' as UUID,
+        status: [JobStatus.FAILED, JobStatus.TIMEOUT],
+        from: 1700000000000,
+        to: 1700003600000,
+        offset: 20,
+      });
+
+      expect(jobsService.get).toHaveBeenCalledWith('/api/messaging/jobs', {
+        params: {
+          agentId: 'agent-1',
+          userId: 'user-1',
+          status: 'failed,timeout',
+          from: 1700000000000,
+          to: 1700003600000,
+          offset: 20,
+        },
+      });
+    });
   });
 
   describe('health', () => {
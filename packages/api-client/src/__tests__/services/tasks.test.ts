@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { TasksService } from '../../services/tasks';
+import { ApiClientConfig } from '../../types/base';
+import type { UUID } from '@elizaos/core';
+
+// Helper type to access protected methods in tests
+type MockableTasksService = TasksService & {
+  get: ReturnType<typeof mock>;
+  post: ReturnType<typeof mock>;
+  patch: ReturnType<typeof mock>;
+  delete: ReturnType<typeof mock>;
+};
+
+describe('TasksService', () => {
+  let tasksService: MockableTasksService;
+  const mockConfig: ApiClientConfig = {
+    baseUrl: 'http://localhost:3000',
+    apiKey: 'test-key',
+  };
+  const agentId = '550e8400-e29b-41d4-a716-446655440000' as UUID;
+  const taskId = '550e8400-e29b-41d4-a716-446655440001' as UUID;
+
+  beforeEach(() => {
+    tasksService = new TasksService(mockConfig) as MockableTasksService;
+    tasksService.get = mock(() => Promise.resolve({}));
+    tasksService.post = mock(() => Promise.resolve({}));
+    tasksService.patch = mock(() => Promise.resolve({}));
+    tasksService.delete = mock(() => Promise.resolve({ success: true }));
+  });
+
+  it('should list tasks with filters', async () => {
+    await tasksService.listTasks(agentId, { status: 'pending,paused', tags: 'queue' });
+
+    expect(tasksService.get).toHaveBeenCalledWith(`/api/agents/${agentId}/tasks`, {
+      params: { status: 'pending,paused', tags: 'queue' },
+    });
+  });
+
+  it('should get a task', async () => {
+    await tasksService.getTask(agentId, taskId);
+
+    expect(tasksService.get).toHaveBeenCalledWith(`/api/agents/${agentId}/tasks/${taskId}`);
+  });
+
+  it('should create a task', async () => {
+    const params = {
+      name: 'DAILY_REPORT',
+      worldId: '550e8400-e29b-41d4-a716-446655440002' as UUID,
+      metadata: { cron: '0 9 * * *' },
+    };
+    await tasksService.createTask(agentId, params);
+
+    expect(tasksService.post).toHaveBeenCalledWith(`/api/agents/${agentId}/tasks`, params);
+  });
+
+  it('should update a task', async () => {
+    await tasksService.updateTask(agentId, taskId, { metadata: { cron: '0 10 * * *' } });
+
+    expect(tasksService.patch).toHaveBeenCalledWith(`/api/agents/${agentId}/tasks/${taskId}`, {
+      metadata: { cron: '0 10 * * *' },
+    });
+  });
+
+  it('should delete a task', async () => {
+    const result = await tasksService.deleteTask(agentId, taskId);
+
+    expect(tasksService.delete).toHaveBeenCalledWith(`/api/agents/${agentId}/tasks/${taskId}`);
+    expect(result).toEqual({ success: true });
+  });
+
+  it('should get execution history with pagination', async () => {
+    await tasksService.getExecutions(agentId, taskId, { limit: 20, offset: 40 });
+
+    expect(tasksService.get).toHaveBeenCalledWith(
+      `/api/agents/${agentId}/tasks/${taskId}/executions`,
+      { params: { limit: 20, offset: 40 } }
+    );
+  });
+
+  it('should run, pause and resume a task', async () => {
+    await tasksService.runTask(agentId, taskId);
+    await tasksService.pauseTask(agentId, taskId);
+    await tasksService.resumeTask(agentId, taskId);
+
+    expect(tasksService.post).toHaveBeenCalledWith(`/api/agents/${agentId}/tasks/${taskId}/run`);
+    expect(tasksService.post).toHaveBeenCalledWith(`/api/agents/${agentId}/tasks/${taskId}/pause`);
+    expect(tasksService.post).toHaveBeenCalledWith(`/api/agents/${agentId}/tasks/${taskId}/resume`);
+  });
+});
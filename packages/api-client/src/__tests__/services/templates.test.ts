@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { TemplatesService } from '../../services/templates';
+import { ApiClientConfig } from '../../types/base';
+import type { UUID } from '@elizaos/core';
+
+// Helper type to access protected methods in tests
+type MockableTemplatesService = TemplatesService & {
+  get: ReturnType<typeof mock>;
+  put: ReturnType<typeof mock>;
+  delete: ReturnType<typeof mock>;
+};
+
+describe('TemplatesService', () => {
+  let templatesService: MockableTemplatesService;
+  const mockConfig: ApiClientConfig = {
+    baseUrl: 'http://localhost:3000',
+    apiKey: 'test-key',
+  };
+  const agentId = '550e8400-e29b-41d4-a716-446655440000' as UUID;
+
+  beforeEach(() => {
+    templatesService = new TemplatesService(mockConfig) as MockableTemplatesService;
+    templatesService.get = mock(() => Promise.resolve({ templates: [] }));
+    templatesService.put = mock(() => Promise.resolve({}));
+    templatesService.delete = mock(() => Promise.resolve({}));
+  });
+
+  it('should list templates', async () => {
+    const result = await templatesService.listTemplates(agentId);
+
+    expect(templatesService.get).toHaveBeenCalledWith(`/api/agents/${agentId}/templates`);
+    expect(result).toEqual({ templates: [] });
+  });
+
+  it('should get a template', async () => {
+    await templatesService.getTemplate(agentId, 'replyTemplate');
+
+    expect(templatesService.get).toHaveBeenCalledWith(
+      `/api/agents/${agentId}/templates/replyTemplate`
+    );
+  });
+
+  it('should override and reset a template', async () => {
+    await templatesService.updateTemplate(agentId, 'replyTemplate', 'Reply as {{agentName}}');
+    await templatesService.resetTemplate(agentId, 'replyTemplate');
+
+    expect(templatesService.put).toHaveBeenCalledWith(
+      `/api/agents/${agentId}/templates/replyTemplate`,
+      { template: 'Reply as {{agentName}}' }
+    );
+    expect(templatesService.delete).toHaveBeenCalledWith(
+      `/api/agents/${agentId}/templates/replyTemplate`
+    );
+  });
+});
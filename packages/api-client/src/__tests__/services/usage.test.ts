@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { UsageService } from '../../services/usage';
+import { ApiClientConfig } from '../../types/base';
+import type { UUID } from '@elizaos/core';
+
+// Helper type to access protected methods in tests
+type MockableUsageService = UsageService & {
+  get: ReturnType<typeof mock>;
+};
+
+describe('UsageService', () => {
+  let usageService: MockableUsageService;
+  const mockConfig: ApiClientConfig = {
+    baseUrl: 'http://localhost:3000',
+    apiKey: 'test-key',
+  };
+  const agentId = '550e8400-e29b-41d4-a716-446655440000' as UUID;
+
+  beforeEach(() => {
+    usageService = new UsageService(mockConfig) as MockableUsageService;
+    usageService.get = mock(() => Promise.resolve({}));
+  });
+
+  it('should get agent usage', async () => {
+    const mockUsage = {
+      agentId,
+      totals: { key: agentId, calls: 2, totalTokens: 300, estimatedCost: 0.01 },
+      byDay: [],
+    };
+    usageService.get.mockResolvedValue(mockUsage);
+
+    const result = await usageService.getAgentUsage(agentId);
+
+    expect(usageService.get).toHaveBeenCalledWith(`/api/agents/${agentId}/usage`, {
+      params: undefined,
+    });
+    expect(result).toEqual(mockUsage);
+  });
+
+  it('should pass range and run filters', async () => {
+    const runId = '550e8400-e29b-41d4-a716-446655440001' as UUID;
+    await usageService.getAgentUsage(agentId, { from: '2024-01-01', runId, limit: 10 });
+
+    expect(usageService.get).toHaveBeenCalledWith(`/api/agents/${agentId}/usage`, {
+      params: { from: '2024-01-01', runId, limit: 10 },
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { WebhooksService } from '../../services/webhooks';
+import { ApiClientConfig } from '../../types/base';
+import type { UUID } from '@elizaos/core';
+
+// Helper type to access protected methods in tests
+type MockableWebhooksService = WebhooksService & {
+  get: ReturnType<typeof mock>;
+  post: ReturnType<typeof mock>;
+  delete: ReturnType<typeof mock>;
+};
+
+describe('WebhooksService', () => {
+  let webhooksService: MockableWebhooksService;
+  const mockConfig: ApiClientConfig = {
+    baseUrl: 'http://localhost:3000',
+    apiKey: 'test-key',
+  };
+  const webhookId = '550e8400-e29b-41d4-a716-446655440000' as UUID;
+  const deliveryId = '550e8400-e29b-41d4-a716-446655440001' as UUID;
+
+  beforeEach(() => {
+    webhooksService = new WebhooksService(mockConfig) as MockableWebhooksService;
+    webhooksService.get = mock(() => Promise.resolve({ webhooks: [] }));
+    webhooksService.post = mock(() => Promise.resolve({}));
+    webhooksService.delete = mock(() => Promise.resolve({}));
+  });
+
+  it('should list webhooks and subscribable events', async () => {
+    const result = await webhooksService.listWebhooks();
+    await webhooksService.listWebhookEvents();
+
+    expect(webhooksService.get).toHaveBeenCalledWith('/api/webhooks');
+    expect(webhooksService.get).toHaveBeenCalledWith('/api/webhooks/events');
+    expect(result).toEqual({ webhooks: [] });
+  });
+
+  it('should create and delete a webhook', async () => {
+    const params = { url: 'https://example.com/hooks', events: ['RUN_ENDED', 'new_message'] };
+    await webhooksService.createWebhook(params);
+    await webhooksService.deleteWebhook(webhookId);
+
+    expect(webhooksService.post).toHaveBeenCalledWith('/api/webhooks', params);
+    expect(webhooksService.delete).toHaveBeenCalledWith(`/api/webhooks/${webhookId}`);
+  });
+
+  it('should get deliveries with filters and redeliver one', async () => {
+    await webhooksService.getWebhookDeliveries(webhookId, { status: 'dead_letter', limit: 10 });
+    await webhooksService.redeliverWebhookDelivery(webhookId, deliveryId);
+
+    expect(webhooksService.get).toHaveBeenCalledWith(`/api/webhooks/${webhookId}/deliveries`, {
+      params: { status: 'dead_letter', limit: 10 },
+    });
+    expect(webhooksService.post).toHaveBeenCalledWith(
+      `/api/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`
+    );
+  });
+});
@@ -9,6 +9,11 @@ import { SystemService } from './services/system';
 import { SessionsService } from './services/sessions';
 import { RunsService } from './services/runs';
 import { JobsService } from './services/jobs';
+import { TasksService } from './services/tasks';
+import { UsageService } from './services/usage';
+import { TemplatesService } from './services/templates';
+import { ApiKeysService } from './services/api-keys';
+import { WebhooksService } from './services/webhooks';
 
 export class ElizaClient {
   public readonly agents: AgentsService;
@@ -21,6 +26,11 @@ export class ElizaClient {
   public readonly sessions: SessionsService;
   public readonly runs: RunsService;
   public readonly jobs: JobsService;
+  public readonly tasks: TasksService;
+  public readonly usage: UsageService;
+  public readonly templates: TemplatesService;
+  public readonly apiKeys: ApiKeysService;
+  public readonly webhooks: WebhooksService;
 
   constructor(config: ApiClientConfig) {
     // Initialize all services with the same config
@@ -34,6 +44,11 @@ export class ElizaClient {
     this.sessions = new SessionsService(config);
     this.runs = new RunsService(config);
     this.jobs = new JobsService(config);
+    this.tasks = new TasksService(config);
+    this.usage = new UsageService(config);
+    this.templates = new TemplatesService(config);
+    this.apiKeys = new ApiKeysService(config);
+    this.webhooks = new WebhooksService(config);
   }
 
   /**
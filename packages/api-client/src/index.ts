@@ -15,6 +15,11 @@ export * from './types/system';
 export * from './types/sessions';
 export * from './types/runs';
 export * from './types/jobs';
+export * from './types/tasks';
+export * from './types/usage';
+export * from './types/templates';
+export * from './types/api-keys';
+export * from './types/webhooks';
 
 // Services (for advanced usage)
 export { AgentsService } from './services/agents';
@@ -27,6 +32,11 @@ export { SystemService } from './services/system';
 export { SessionsService } from './services/sessions';
 export { RunsService } from './services/runs';
 export { JobsService } from './services/jobs';
+export { TasksService } from './services/tasks';
+export { UsageService } from './services/usage';
+export { TemplatesService } from './services/templates';
+export { ApiKeysService } from './services/api-keys';
+export { WebhooksService } from './services/webhooks';
 
 // Base client and error
 export { BaseApiClient, ApiError } from './lib/base-client';
@@ -2,7 +2,11 @@ import { UUID } from '@elizaos/core';
 import { BaseApiClient } from '../lib/base-client';
 import {
   Agent,
+  AgentBundle,
+  AgentBundleImportResult,
   AgentCreateParams,
+  AgentExportParams,
+  AgentImportParams,
   AgentLog,
   AgentLogsParams,
   AgentPanel,
@@ -61,6 +65,27 @@ export class AgentsService extends BaseApiClient {
     return this.post<{ status: string }>(`/api/agents/${agentId}/stop`);
   }
 
+  /**
+   * Export an agent with its data as a versioned bundle
+   */
+  async exportAgent(agentId: UUID, params?: AgentExportParams): Promise<AgentBundle> {
+    return this.get<AgentBundle>(`/api/agents/${agentId}/export`, {
+      params: {
+        secrets: params?.secrets,
+        tables: params?.tables?.join(','),
+        memoryOffset: params?.memoryOffset,
+        memoryLimit: params?.memoryLimit,
+      },
+    });
+  }
+
+  /**
+   * Import an agent bundle, creating or updating the agent and starting it
+   */
+  async importAgent(params: AgentImportParams): Promise<AgentBundleImportResult> {
+    return this.post<AgentBundleImportResult>('/api/agents/import', params);
+  }
+
   /**
    * Get all available worlds
    */
@@ -0,0 +1,52 @@
+import { UUID } from '@elizaos/core';
+import { BaseApiClient } from '../lib/base-client';
+import {
+  ApiKey,
+  ApiKeyList,
+  ApiKeyUsageList,
+  ApiKeyUsageParams,
+  CreateApiKeyParams,
+  CreateApiKeyResponse,
+} from '../types/api-keys';
+
+/**
+ * API Keys Service - Scoped API keys of the server and their audit log
+ *
+ * Managing keys requires the server token or a key with the `system` scope.
+ */
+export class ApiKeysService extends BaseApiClient {
+  /**
+   * List keys, including revoked and expired ones
+   */
+  async listApiKeys(): Promise<ApiKeyList> {
+    return this.get<ApiKeyList>('/api/system/api-keys');
+  }
+
+  /**
+   * Create a key; the returned key is not shown again
+   */
+  async createApiKey(params: CreateApiKeyParams): Promise<CreateApiKeyResponse> {
+    return this.post<CreateApiKeyResponse>('/api/system/api-keys', params);
+  }
+
+  /**
+   * Get a key
+   */
+  async getApiKey(keyId: UUID): Promise<ApiKey> {
+    return this.get<ApiKey>(`/api/system/api-keys/${keyId}`);
+  }
+
+  /**
+   * Revoke a key
+   */
+  async revokeApiKey(keyId: UUID): Promise<ApiKey> {
+    return this.delete<ApiKey>(`/api/system/api-keys/${keyId}`);
+  }
+
+  /**
+   * Get the requests made with a key, newest first
+   */
+  async getApiKeyUsage(keyId: UUID, params?: ApiKeyUsageParams): Promise<ApiKeyUsageList> {
+    return this.get<ApiKeyUsageList>(`/api/system/api-keys/${keyId}/usage`, { params });
+  }
+}
@@ -90,12 +90,26 @@ export class JobsService extends BaseApiClient {
    *   limit: 10
    * });
    *
+   * // Get an agent's failed or timed out jobs from the last hour
+   * const recentFailures = await client.jobs.list({
+   *   agentId: 'agent-uuid',
+   *   status: [JobStatus.FAILED, JobStatus.TIMEOUT],
+   *   from: Date.now() - 60 * 60 * 1000
+   * });
+   *
    * // Get all jobs (default limit: 50)
    * const allJobs = await client.jobs.list();
    * ```
    */
   async list(params?: ListJobsParams): Promise<JobListResponse> {
-    return this.get<JobListResponse>('/api/messaging/jobs', { params });
+    if (params && Array.isArray(params.status)) {
+      return this.get<JobListResponse>('/api/messaging/jobs', {
+        params: { ...params, status: params.status.join(',') },
+      });
+    }
+    return this.get<JobListResponse>('/api/messaging/jobs', {
+      params: params as Omit<ListJobsParams, 'status'> & { status?: JobStatus },
+    });
   }
 
   /**
@@ -0,0 +1,86 @@
+import { UUID } from '@elizaos/core';
+import { BaseApiClient } from '../lib/base-client';
+import {
+  CreateTaskParams,
+  ListTaskExecutionsParams,
+  ListTasksParams,
+  TaskExecutionListResponse,
+  TaskListResponse,
+  TaskResponse,
+  UpdateTaskParams,
+} from '../types/tasks';
+
+/**
+ * Tasks API Service - Manage scheduled agent tasks and inspect their execution history
+ */
+export class TasksService extends BaseApiClient {
+  /**
+   * List an agent's tasks
+   */
+  async listTasks(agentId: UUID, params?: ListTasksParams): Promise<TaskListResponse> {
+    return this.get<TaskListResponse>(`/api/agents/${agentId}/tasks`, { params });
+  }
+
+  /**
+   * Get a single task
+   */
+  async getTask(agentId: UUID, taskId: UUID): Promise<TaskResponse> {
+    return this.get<TaskResponse>(`/api/agents/${agentId}/tasks/${taskId}`);
+  }
+
+  /**
+   * Create a task for a registered task worker
+   */
+  async createTask(agentId: UUID, params: CreateTaskParams): Promise<TaskResponse> {
+    return this.post<TaskResponse>(`/api/agents/${agentId}/tasks`, params);
+  }
+
+  /**
+   * Update a task's description, tags or metadata
+   */
+  async updateTask(agentId: UUID, taskId: UUID, params: UpdateTaskParams): Promise<TaskResponse> {
+    return this.patch<TaskResponse>(`/api/agents/${agentId}/tasks/${taskId}`, params);
+  }
+
+  /**
+   * Delete a task and its execution history
+   */
+  async deleteTask(agentId: UUID, taskId: UUID): Promise<{ success: boolean }> {
+    return this.delete<{ success: boolean }>(`/api/agents/${agentId}/tasks/${taskId}`);
+  }
+
+  /**
+   * Get a task's execution history, newest first
+   */
+  async getExecutions(
+    agentId: UUID,
+    taskId: UUID,
+    params?: ListTaskExecutionsParams
+  ): Promise<TaskExecutionListResponse> {
+    return this.get<TaskExecutionListResponse>(
+      `/api/agents/${agentId}/tasks/${taskId}/executions`,
+      { params }
+    );
+  }
+
+  /**
+   * Run a task on the next scheduler tick
+   */
+  async runTask(agentId: UUID, taskId: UUID): Promise<TaskResponse> {
+    return this.post<TaskResponse>(`/api/agents/${agentId}/tasks/${taskId}/run`);
+  }
+
+  /**
+   * Pause a task so it is skipped until resumed
+   */
+  async pauseTask(agentId: UUID, taskId: UUID): Promise<TaskResponse> {
+    return this.post<TaskResponse>(`/api/agents/${agentId}/tasks/${taskId}/pause`);
+  }
+
+  /**
+   * Resume a paused or dead-lettered task
+   */
+  async resumeTask(agentId: UUID, taskId: UUID): Promise<TaskResponse> {
+    return this.post<TaskResponse>(`/api/agents/${agentId}/tasks/${taskId}/resume`);
+  }
+}
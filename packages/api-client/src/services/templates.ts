@@ -0,0 +1,51 @@
+import { UUID } from '@elizaos/core';
+import { BaseApiClient } from '../lib/base-client';
+import {
+  PromptTemplateDetail,
+  PromptTemplateList,
+  PromptTemplateUpdateResult,
+} from '../types/templates';
+
+/**
+ * Templates API Service - Prompt templates of an agent and their overrides
+ */
+export class TemplatesService extends BaseApiClient {
+  /**
+   * List the prompt templates used by core and the agent's plugins
+   */
+  async listTemplates(agentId: UUID): Promise<PromptTemplateList> {
+    return this.get<PromptTemplateList>(`/api/agents/${agentId}/templates`);
+  }
+
+  /**
+   * Get a prompt template with the diff of its override against the default
+   */
+  async getTemplate(agentId: UUID, name: string): Promise<PromptTemplateDetail> {
+    return this.get<PromptTemplateDetail>(
+      `/api/agents/${agentId}/templates/${encodeURIComponent(name)}`
+    );
+  }
+
+  /**
+   * Override a prompt template for the agent
+   */
+  async updateTemplate(
+    agentId: UUID,
+    name: string,
+    template: string
+  ): Promise<PromptTemplateUpdateResult> {
+    return this.put<PromptTemplateUpdateResult>(
+      `/api/agents/${agentId}/templates/${encodeURIComponent(name)}`,
+      { template }
+    );
+  }
+
+  /**
+   * Remove the agent's override of a prompt template, restoring the default
+   */
+  async resetTemplate(agentId: UUID, name: string): Promise<PromptTemplateDetail> {
+    return this.delete<PromptTemplateDetail>(
+      `/api/agents/${agentId}/templates/${encodeURIComponent(name)}`
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { UUID } from '@elizaos/core';
+import { BaseApiClient } from '../lib/base-client';
+import { AgentUsage, AgentUsageParams } from '../types/usage';
+
+/**
+ * Usage API Service - Token and estimated cost accounting from the model usage ledger
+ */
+export class UsageService extends BaseApiClient {
+  /**
+   * Get an agent's usage totals with rollups per day, provider, model and run
+   */
+  async getAgentUsage(agentId: UUID, params?: AgentUsageParams): Promise<AgentUsage> {
+    return this.get<AgentUsage>(`/api/agents/${agentId}/usage`, { params });
+  }
+}
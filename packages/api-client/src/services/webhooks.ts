@@ -0,0 +1,70 @@
+import { UUID } from '@elizaos/core';
+import { BaseApiClient } from '../lib/base-client';
+import {
+  CreateWebhookParams,
+  CreateWebhookResponse,
+  Webhook,
+  WebhookDeleteResponse,
+  WebhookDelivery,
+  WebhookDeliveryList,
+  WebhookDeliveryParams,
+  WebhookEventList,
+  WebhookList,
+} from '../types/webhooks';
+
+/**
+ * Webhooks Service - Outbound event subscriptions and their delivery log
+ *
+ * Deliveries carry an `X-Eliza-Signature: t=<timestamp>,v1=<signature>` header, the hex
+ * HMAC-SHA256 of `<timestamp>.<body>` with the webhook secret.
+ * Managing webhooks requires the server token or a key with the `system` scope.
+ */
+export class WebhooksService extends BaseApiClient {
+  /**
+   * List the events a webhook can subscribe to
+   */
+  async listWebhookEvents(): Promise<WebhookEventList> {
+    return this.get<WebhookEventList>('/api/webhooks/events');
+  }
+
+  async listWebhooks(): Promise<WebhookList> {
+    return this.get<WebhookList>('/api/webhooks');
+  }
+
+  /**
+   * Create a webhook; the returned secret is not shown again
+   */
+  async createWebhook(params: CreateWebhookParams): Promise<CreateWebhookResponse> {
+    return this.post<CreateWebhookResponse>('/api/webhooks', params);
+  }
+
+  async getWebhook(webhookId: UUID): Promise<Webhook> {
+    return this.get<Webhook>(`/api/webhooks/${webhookId}`);
+  }
+
+  /**
+   * Delete a webhook along with its delivery log
+   */
+  async deleteWebhook(webhookId: UUID): Promise<WebhookDeleteResponse> {
+    return this.delete<WebhookDeleteResponse>(`/api/webhooks/${webhookId}`);
+  }
+
+  /**
+   * Get the deliveries of a webhook, newest first
+   */
+  async getWebhookDeliveries(
+    webhookId: UUID,
+    params?: WebhookDeliveryParams
+  ): Promise<WebhookDeliveryList> {
+    return this.get<WebhookDeliveryList>(`/api/webhooks/${webhookId}/deliveries`, { params });
+  }
+
+  /**
+   * Send a delivery again from its first attempt, e.g. out of the dead-letter queue
+   */
+  async redeliverWebhookDelivery(webhookId: UUID, deliveryId: UUID): Promise<WebhookDelivery> {
+    return this.post<WebhookDelivery>(
+      `/api/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`
+    );
+  }
+}
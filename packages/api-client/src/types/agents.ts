@@ -1,8 +1,15 @@
-import { UUID, Agent } from '@elizaos/core';
+import {
+  UUID,
+  Agent,
+  AgentBundle,
+  AgentBundleImportMode,
+  AgentBundleSecretsMode,
+} from '@elizaos/core';
 import { PaginationParams } from './base';
 
 // Re-export Agent from core
 export type { Agent } from '@elizaos/core';
+export type { AgentBundle, AgentBundleImportResult } from '@elizaos/core';
 
 export interface AgentCreateParams {
   characterPath?: string;
@@ -64,3 +71,24 @@ export interface AgentLogsParams extends PaginationParams {
   to?: Date | string;
   search?: string;
 }
+
+export interface AgentExportParams {
+  /** How secrets are included in the bundle; `omit` by default */
+  secrets?: AgentBundleSecretsMode;
+  /** Memory tables to export; the server's defaults when omitted */
+  tables?: string[];
+  /** Memories of each table to skip, newest first */
+  memoryOffset?: number;
+  /** Memories to export per table; all when omitted */
+  memoryLimit?: number;
+}
+
+export interface AgentImportParams {
+  bundle: AgentBundle;
+  /** `merge` (default) keeps existing records; `replace` overwrites them */
+  mode?: AgentBundleImportMode;
+  /** Import as a new agent, deriving new IDs for everything in the bundle */
+  remapIds?: boolean;
+  /** ID of the new agent when remapping; generated when omitted */
+  agentId?: UUID;
+}
@@ -0,0 +1,59 @@
+import { UUID } from '@elizaos/core';
+
+/**
+ * Permissions an API key can carry
+ */
+export type ApiKeyScope = 'agents:read' | 'agents:write' | 'messaging' | 'memory:delete' | 'system';
+
+export interface ApiKey {
+  id: UUID;
+  name: string;
+  /** First characters of the key */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  /** Agents the key may act on; all agents when undefined */
+  agentIds?: UUID[];
+  /** Channels the key may act on; all channels when undefined */
+  channelIds?: UUID[];
+  createdAt: number;
+  expiresAt?: number;
+  revokedAt?: number;
+  lastUsedAt?: number;
+}
+
+export interface CreateApiKeyParams {
+  name: string;
+  scopes: ApiKeyScope[];
+  agentIds?: UUID[];
+  channelIds?: UUID[];
+  /** Expiry timestamp (ms); the key does not expire when undefined */
+  expiresAt?: number;
+}
+
+export interface CreateApiKeyResponse extends ApiKey {
+  /** The key, shown only once */
+  key: string;
+}
+
+export interface ApiKeyList {
+  keys: ApiKey[];
+}
+
+export interface ApiKeyUsage {
+  id: UUID;
+  keyId: UUID;
+  method: string;
+  path: string;
+  status: number;
+  ip?: string;
+  createdAt: number;
+}
+
+export interface ApiKeyUsageParams {
+  limit?: number;
+  offset?: number;
+}
+
+export interface ApiKeyUsageList {
+  usage: ApiKeyUsage[];
+}
@@ -146,8 +146,18 @@ export interface JobListResponse {
 export interface ListJobsParams {
   /** Maximum number of jobs to return */
   limit?: number;
-  /** Filter by job status */
-  status?: JobStatus;
+  /** Number of jobs to skip (for pagination) */
+  offset?: number;
+  /** Filter by job status (one or several) */
+  status?: JobStatus | JobStatus[];
+  /** Filter by target agent */
+  agentId?: UUID;
+  /** Filter by requesting user */
+  userId?: UUID;
+  /** Only jobs created at or after this timestamp (ms) */
+  from?: number;
+  /** Only jobs created at or before this timestamp (ms) */
+  to?: number;
 }
 
 /**
@@ -1,4 +1,4 @@
-import { UUID } from '@elizaos/core';
+import { UUID, PromptTemplateUsage } from '@elizaos/core';
 
 export type RunStatus = 'completed' | 'timeout' | 'error' | 'started';
 
@@ -19,6 +19,8 @@ export interface RunSummary {
   roomId?: UUID;
   entityId?: UUID;
   counts?: RunCounts;
+  /** Prompt templates used by the run, in run details */
+  templates?: PromptTemplateUsage[];
   metadata?: Record<string, unknown>;
 }
 
@@ -29,7 +31,8 @@ export type RunEventType =
   | 'ACTION_COMPLETED'
   | 'MODEL_USED'
   | 'EVALUATOR_COMPLETED'
-  | 'EMBEDDING_EVENT';
+  | 'EMBEDDING_EVENT'
+  | 'PROVIDERS_COMPOSED';
 
 export interface RunEvent {
   type: RunEventType;
@@ -0,0 +1,54 @@
+import { UUID, Task, TaskExecution, TaskMetadata } from '@elizaos/core';
+
+export type {
+  Task,
+  TaskExecution,
+  TaskMetadata,
+  TaskStatus,
+  TaskRetryPolicy,
+  TaskFailure,
+} from '@elizaos/core';
+
+export interface ListTasksParams {
+  roomId?: UUID;
+  /** Comma-separated tags; tasks must carry all of them */
+  tags?: string;
+  /** Comma-separated statuses */
+  status?: string;
+  name?: string;
+}
+
+export interface CreateTaskParams {
+  name: string;
+  description?: string;
+  tags?: string[];
+  metadata?: TaskMetadata;
+  /** Required unless roomId belongs to a world */
+  worldId?: UUID;
+  roomId?: UUID;
+  entityId?: UUID;
+}
+
+export interface UpdateTaskParams {
+  description?: string;
+  tags?: string[];
+  /** Merged into the existing metadata */
+  metadata?: TaskMetadata;
+}
+
+export interface ListTaskExecutionsParams {
+  limit?: number;
+  offset?: number;
+}
+
+export interface TaskResponse {
+  task: Task;
+}
+
+export interface TaskListResponse {
+  tasks: Task[];
+}
+
+export interface TaskExecutionListResponse {
+  executions: TaskExecution[];
+}
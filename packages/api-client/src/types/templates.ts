@@ -0,0 +1,22 @@
+import { PromptTemplateDiffLine, PromptTemplateInfo, PromptTemplateIssue } from '@elizaos/core';
+
+export type {
+  PromptTemplateDiffLine,
+  PromptTemplateInfo,
+  PromptTemplateIssue,
+  PromptTemplateUsage,
+} from '@elizaos/core';
+
+export interface PromptTemplateList {
+  templates: PromptTemplateInfo[];
+}
+
+export interface PromptTemplateDetail extends PromptTemplateInfo {
+  /** Line diff of the override against the default, empty when not overridden */
+  diff: PromptTemplateDiffLine[];
+}
+
+export interface PromptTemplateUpdateResult extends PromptTemplateDetail {
+  /** Validation warnings for the saved override */
+  issues: PromptTemplateIssue[];
+}
@@ -0,0 +1,28 @@
+import { UUID, ModelUsageRollup } from '@elizaos/core';
+
+export type { ModelUsageRollup } from '@elizaos/core';
+
+export interface AgentUsageParams {
+  /** Start of the range, as epoch ms or an ISO date */
+  from?: number | string;
+  /** End of the range, as epoch ms or an ISO date */
+  to?: number | string;
+  /** Restrict usage to a single run */
+  runId?: UUID;
+  /** Maximum number of runs in byRun, heaviest first */
+  limit?: number;
+}
+
+export interface AgentUsage {
+  agentId: UUID;
+  from: number | null;
+  to: number | null;
+  runId: UUID | null;
+  totals: ModelUsageRollup;
+  /** Keyed by UTC day, YYYY-MM-DD, oldest first */
+  byDay: ModelUsageRollup[];
+  byProvider: ModelUsageRollup[];
+  byModel: ModelUsageRollup[];
+  /** Keyed by run ID */
+  byRun: ModelUsageRollup[];
+}
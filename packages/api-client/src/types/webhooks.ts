@@ -0,0 +1,93 @@
+import { UUID } from '@elizaos/core';
+
+/**
+ * - `pending`: waiting for its first attempt or a retry
+ * - `delivered`: the endpoint answered with a 2xx status
+ * - `dead_letter`: every attempt failed; it is only sent again when redelivered
+ */
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead_letter';
+
+export interface Webhook {
+  id: UUID;
+  url: string;
+  description?: string;
+  /** Runtime event types (e.g. `RUN_ENDED`) and message bus events (e.g. `new_message`) */
+  events: string[];
+  /** Agents whose events are delivered; all agents when undefined */
+  agentIds?: UUID[];
+  /** Channels whose events are delivered; all channels when undefined */
+  channelIds?: UUID[];
+  enabled: boolean;
+  createdAt: number;
+}
+
+export interface CreateWebhookParams {
+  url: string;
+  events: string[];
+  agentIds?: UUID[];
+  channelIds?: UUID[];
+  description?: string;
+  /** Signing secret; one is generated when undefined */
+  secret?: string;
+}
+
+export interface CreateWebhookResponse extends Webhook {
+  /** Secret used to sign deliveries, shown only once */
+  secret: string;
+}
+
+export interface WebhookList {
+  webhooks: Webhook[];
+}
+
+export interface WebhookEventList {
+  /** Every event a webhook can subscribe to */
+  events: string[];
+  /** The message bus events among them */
+  messageBusEvents: string[];
+}
+
+/**
+ * Body POSTed to a webhook endpoint
+ */
+export interface WebhookPayload {
+  /** Delivery id, the same for every attempt of a delivery */
+  id: UUID;
+  event: string;
+  /** When the event happened (ms) */
+  timestamp: number;
+  agentId?: UUID;
+  channelId?: UUID;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDelivery {
+  id: UUID;
+  webhookId: UUID;
+  event: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** When the next attempt is due (ms), for pending deliveries */
+  nextAttemptAt?: number;
+  /** HTTP status of the last response */
+  responseStatus?: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WebhookDeliveryParams {
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface WebhookDeliveryList {
+  deliveries: WebhookDelivery[];
+}
+
+export interface WebhookDeleteResponse {
+  id: UUID;
+  deleted: boolean;
+}
@@ -0,0 +1,103 @@
+import { checkServer, handleError } from '@/src/utils';
+import { AgentsService } from '@elizaos/api-client';
+import { asUUID, UUID, validateAgentBundle, type AgentBundle } from '@elizaos/core';
+import type { OptionValues } from 'commander';
+import { readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { gunzipSync, gzipSync } from 'node:zlib';
+import { createApiClientConfig } from '../../shared';
+import { resolveAgentId } from '../utils';
+
+const SECRETS_MODES = ['omit', 'encrypted', 'plaintext'] as const;
+const IMPORT_MODES = ['merge', 'replace'] as const;
+
+/**
+ * Export command implementation - saves an agent with its data as a bundle file.
+ * Files ending in `.gz` are gzip compressed.
+ */
+export async function exportAgent(opts: OptionValues): Promise<void> {
+  try {
+    const secrets = opts.secrets ?? 'omit';
+    if (!SECRETS_MODES.includes(secrets)) {
+      throw new Error(`--secrets must be one of: ${SECRETS_MODES.join(', ')}`);
+    }
+
+    const resolvedAgentId = await resolveAgentId(opts.name, opts);
+    const agentsService = new AgentsService(createApiClientConfig(opts));
+
+    // API Endpoint: GET /agents/:agentId/export
+    let agentId: UUID;
+    try {
+      agentId = asUUID(resolvedAgentId);
+    } catch {
+      throw new Error(
+        `Invalid agent ID format: ${resolvedAgentId}. Please provide a valid UUID, agent name, or index.`
+      );
+    }
+
+    console.info(`Exporting agent ${resolvedAgentId}`);
+    const bundle = await agentsService.exportAgent(agentId, {
+      secrets,
+      tables: opts.tables ? String(opts.tables).split(',') : undefined,
+    });
+
+    const filename = String(opts.output ?? `${bundle.agent.name || 'agent'}.bundle.json`);
+    const filePath = path.resolve(process.cwd(), filename);
+    const json = JSON.stringify(bundle, null, 2);
+    writeFileSync(filePath, filePath.endsWith('.gz') ? gzipSync(json) : json);
+
+    const memoryCount = Object.values(bundle.memories).reduce((sum, list) => sum + list.length, 0);
+    console.log(`Exported agent ${bundle.agent.name} with ${memoryCount} memories to ${filePath}`);
+    if (secrets === 'plaintext') {
+      console.warn('The bundle contains unencrypted secrets; store it accordingly.');
+    }
+  } catch (error) {
+    await checkServer(opts);
+    handleError(error);
+  }
+}
+
+/**
+ * Import command implementation - creates or updates an agent from a bundle file
+ */
+export async function importAgent(opts: OptionValues): Promise<void> {
+  try {
+    const mode = opts.mode ?? 'merge';
+    if (!IMPORT_MODES.includes(mode)) {
+      throw new Error(`--mode must be one of: ${IMPORT_MODES.join(', ')}`);
+    }
+
+    const filePath = path.resolve(process.cwd(), String(opts.file));
+    let bundle: AgentBundle;
+    try {
+      const raw = readFileSync(filePath);
+      const data = filePath.endsWith('.gz') ? gunzipSync(raw) : raw;
+      bundle = validateAgentBundle(JSON.parse(data.toString('utf8')));
+    } catch (error) {
+      throw new Error(
+        `Failed to read agent bundle: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    // API Endpoint: POST /agents/import
+    const agentsService = new AgentsService(createApiClientConfig(opts));
+    console.info(`Importing agent ${bundle.agent.name} (${mode})`);
+    const result = await agentsService.importAgent({
+      bundle,
+      mode,
+      remapIds: !!opts.remapIds,
+      agentId: opts.agentId ? asUUID(opts.agentId) : undefined,
+    });
+
+    console.log(
+      `Imported agent ${bundle.agent.name} as ${result.agentId}: ${result.memories} memories, ` +
+        `${result.entities} entities, ${result.rooms} rooms, ${result.tasks} tasks`
+    );
+    if (bundle.secrets === 'omit') {
+      console.warn('The bundle has no secrets; set them with `elizaos agent set` if needed.');
+    }
+  } catch (error) {
+    await checkServer(opts);
+    handleError(error);
+  }
+}
@@ -1,2 +1,3 @@
 export * from './crud';
 export * from './lifecycle';
+export * from './bundle';
@@ -1,7 +1,9 @@
 import { Command } from 'commander';
 import {
   clearAgentMemories,
+  exportAgent,
   getAgent,
+  importAgent,
   removeAgent,
   setAgentConfig,
   startAgent,
@@ -127,3 +129,33 @@ agent
   .option('-p, --port <port>', 'Port to listen on', (val) => Number.parseInt(val))
   .option('--auth-token <token>', 'API authentication token')
   .action(clearAgentMemories);
+
+agent
+  .command('export')
+  .description('Export an agent with its memories, entities, rooms, tasks and cache')
+  .requiredOption('-n, --name <name>', 'agent id, name, or index number from list')
+  .option('-o, --output <file>', 'bundle file (defaults to {name}.bundle.json; .gz compresses)')
+  .option('--secrets <mode>', 'include secrets: omit, encrypted or plaintext', 'omit')
+  .option('--tables <tables>', 'comma separated memory tables to export')
+  .option('-r, --remote-url <url>', 'URL of the remote agent runtime')
+  .option('-p, --port <port>', 'Port to listen on', (val) => Number.parseInt(val))
+  .option('--auth-token <token>', 'API authentication token')
+  .action(exportAgent);
+
+agent
+  .command('import')
+  .description('Import an agent bundle, creating or updating the agent')
+  .requiredOption('-f, --file <path>', 'bundle file to import (.json or .json.gz)')
+  .option('--mode <mode>', 'merge keeps existing data, replace overwrites it', 'merge')
+  .option('--remap-ids', 'import as a new agent with new IDs')
+  .option('--agent-id <id>', 'ID of the new agent when remapping IDs')
+  .option('-r, --remote-url <url>', 'URL of the remote agent runtime')
+  .option('-p, --port <port>', 'Port to listen on', (val) => Number.parseInt(val))
+  .option('--auth-token <token>', 'API authentication token')
+  .addHelpText(
+    'after',
+    `
+Large bundles may exceed the server's request size limit; raise EXPRESS_MAX_PAYLOAD on the server.
+`
+  )
+  .action(importAgent);
@@ -0,0 +1,189 @@
+import { checkServer, handleError } from '@/src/utils';
+import { ApiKeysService, type ApiKey, type ApiKeyScope } from '@elizaos/api-client';
+import { asUUID, type UUID } from '@elizaos/core';
+import type { OptionValues } from 'commander';
+import { createApiClientConfig } from '../../shared';
+
+const API_KEY_SCOPES: ApiKeyScope[] = [
+  'agents:read',
+  'agents:write',
+  'messaging',
+  'memory:delete',
+  'system',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseList(value: unknown): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const items = String(value)
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function parseIds(value: unknown, option: string): UUID[] | undefined {
+  return parseList(value)?.map((id) => {
+    try {
+      return asUUID(id);
+    } catch {
+      throw new Error(`${option} contains an invalid UUID: ${id}`);
+    }
+  });
+}
+
+function parseKeyId(id: string): UUID {
+  try {
+    return asUUID(id);
+  } catch {
+    throw new Error(`Invalid API key ID format: ${id}`);
+  }
+}
+
+function formatTime(timestamp?: number): string {
+  return timestamp ? new Date(timestamp).toISOString() : '-';
+}
+
+function keyStatus(key: ApiKey): string {
+  if (key.revokedAt) {
+    return 'revoked';
+  }
+  if (key.expiresAt && key.expiresAt <= Date.now()) {
+    return 'expired';
+  }
+  return 'active';
+}
+
+/**
+ * Create command implementation - mints a scoped API key and prints it once
+ */
+export async function createApiKey(opts: OptionValues): Promise<void> {
+  try {
+    const scopes = parseList(opts.scopes) ?? [];
+    const invalid = scopes.filter((scope) => !API_KEY_SCOPES.includes(scope as ApiKeyScope));
+    if (scopes.length === 0 || invalid.length > 0) {
+      throw new Error(`--scopes must be a comma separated list of: ${API_KEY_SCOPES.join(', ')}`);
+    }
+
+    let expiresAt: number | undefined;
+    if (opts.expiresInDays !== undefined) {
+      const days = Number(opts.expiresInDays);
+      if (!Number.isFinite(days) || days <= 0) {
+        throw new Error('--expires-in-days must be a positive number');
+      }
+      expiresAt = Date.now() + days * DAY_MS;
+    }
+
+    const apiKeysService = new ApiKeysService(createApiClientConfig(opts));
+    // API Endpoint: POST /system/api-keys
+    const created = await apiKeysService.createApiKey({
+      name: String(opts.name),
+      scopes: scopes as ApiKeyScope[],
+      agentIds: parseIds(opts.agents, '--agents'),
+      channelIds: parseIds(opts.channels, '--channels'),
+      expiresAt,
+    });
+
+    if (opts.json) {
+      console.info(JSON.stringify(created, null, 2));
+      return;
+    }
+    console.log(`Created API key ${created.name} (${created.id})`);
+    console.log(`Scopes: ${created.scopes.join(', ')}`);
+    if (created.expiresAt) {
+      console.log(`Expires: ${formatTime(created.expiresAt)}`);
+    }
+    console.log(`\n${created.key}\n`);
+    console.warn('Store this key now; it cannot be shown again.');
+  } catch (error) {
+    await checkServer(opts);
+    handleError(error);
+  }
+}
+
+/**
+ * List command implementation - shows keys without the key itself
+ */
+export async function listApiKeys(opts: OptionValues): Promise<void> {
+  try {
+    const apiKeysService = new ApiKeysService(createApiClientConfig(opts));
+    // API Endpoint: GET /system/api-keys
+    const { keys } = await apiKeysService.listApiKeys();
+
+    if (opts.json) {
+      console.info(JSON.stringify(keys, null, 2));
+      return;
+    }
+    console.info('\nAPI keys:');
+    if (keys.length === 0) {
+      console.info('No API keys found');
+      return;
+    }
+    console.table(
+      keys.map((key) => ({
+        Name: key.name,
+        ID: key.id,
+        Prefix: key.prefix,
+        Scopes: key.scopes.join(', '),
+        Status: keyStatus(key),
+        Expires: formatTime(key.expiresAt),
+        'Last used': formatTime(key.lastUsedAt),
+      }))
+    );
+  } catch (error) {
+    await checkServer(opts);
+    handleError(error);
+  }
+}
+
+/**
+ * Revoke command implementation
+ */
+export async function revokeApiKey(id: string, opts: OptionValues): Promise<void> {
+  try {
+    const apiKeysService = new ApiKeysService(createApiClientConfig(opts));
+    // API Endpoint: DELETE /system/api-keys/:keyId
+    const key = await apiKeysService.revokeApiKey(parseKeyId(id));
+    console.log(`Revoked API key ${key.name} (${key.id})`);
+  } catch (error) {
+    await checkServer(opts);
+    handleError(error);
+  }
+}
+
+/**
+ * Usage command implementation - shows the audit log of a key, newest first
+ */
+export async function showApiKeyUsage(id: string, opts: OptionValues): Promise<void> {
+  try {
+    const apiKeysService = new ApiKeysService(createApiClientConfig(opts));
+    // API Endpoint: GET /system/api-keys/:keyId/usage
+    const { usage } = await apiKeysService.getApiKeyUsage(parseKeyId(id), {
+      limit: opts.limit,
+    });
+
+    if (opts.json) {
+      console.info(JSON.stringify(usage, null, 2));
+      return;
+    }
+    if (usage.length === 0) {
+      console.info('No requests recorded for this key');
+      return;
+    }
+    console.table(
+      usage.map((entry) => ({
+        Time: formatTime(entry.createdAt),
+        Method: entry.method,
+        Path: entry.path,
+        Status: entry.status,
+        IP: entry.ip ?? '-',
+      }))
+    );
+  } catch (error) {
+    await checkServer(opts);
+    handleError(error);
+  }
+}
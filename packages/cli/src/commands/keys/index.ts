@@ -0,0 +1,53 @@
+import { Command } from 'commander';
+import { createApiKey, listApiKeys, revokeApiKey, showApiKeyUsage } from './actions';
+
+export const keys = new Command()
+  .name('keys')
+  .description('Manage scoped API keys of a server (requires ELIZA_SERVER_AUTH_TOKEN)');
+
+keys
+  .command('create')
+  .description('Create an API key; the key is shown only once')
+  .requiredOption('-n, --name <name>', 'name of the key')
+  .requiredOption(
+    '-s, --scopes <scopes>',
+    'comma separated scopes: agents:read, agents:write, messaging, memory:delete, system'
+  )
+  .option('--agents <ids>', 'comma separated agent IDs the key is limited to')
+  .option('--channels <ids>', 'comma separated channel IDs the key is limited to')
+  .option('--expires-in-days <days>', 'days until the key expires')
+  .option('-j, --json', 'output as JSON')
+  .option('-r, --remote-url <url>', 'URL of the remote agent runtime')
+  .option('-p, --port <port>', 'Port to listen on', (val) => Number.parseInt(val))
+  .option('--auth-token <token>', 'API authentication token')
+  .action(createApiKey);
+
+keys
+  .command('list')
+  .alias('ls')
+  .description('List API keys')
+  .option('-j, --json', 'output as JSON')
+  .option('-r, --remote-url <url>', 'URL of the remote agent runtime')
+  .option('-p, --port <port>', 'Port to listen on', (val) => Number.parseInt(val))
+  .option('--auth-token <token>', 'API authentication token')
+  .action(listApiKeys);
+
+keys
+  .command('revoke')
+  .description('Revoke an API key')
+  .argument('<id>', 'ID of the key')
+  .option('-r, --remote-url <url>', 'URL of the remote agent runtime')
+  .option('-p, --port <port>', 'Port to listen on', (val) => Number.parseInt(val))
+  .option('--auth-token <token>', 'API authentication token')
+  .action(revokeApiKey);
+
+keys
+  .command('usage')
+  .description('Show the requests made with an API key')
+  .argument('<id>', 'ID of the key')
+  .option('-l, --limit <limit>', 'number of requests to show', (val) => Number.parseInt(val), 50)
+  .option('-j, --json', 'output as JSON')
+  .option('-r, --remote-url <url>', 'URL of the remote agent runtime')
+  .option('-p, --port <port>', 'Port to listen on', (val) => Number.parseInt(val))
+  .option('--auth-token <token>', 'API authentication token')
+  .action(showApiKeyUsage);
@@ -9,6 +9,7 @@ import { deploy } from '@/src/commands/deploy';
 import { containers } from '@/src/commands/containers';
 import { dev } from '@/src/commands/dev';
 import { env } from '@/src/commands/env';
+import { keys } from '@/src/commands/keys';
 import { login } from '@/src/commands/login';
 import { plugins } from '@/src/commands/plugins';
 import { publish } from '@/src/commands/publish';
@@ -162,6 +163,7 @@ async function main() {
     .addCommand(update)
     .addCommand(test)
     .addCommand(env)
+    .addCommand(keys)
     .addCommand(login)
     .addCommand(dev)
     .addCommand(publish)
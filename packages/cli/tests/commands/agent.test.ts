@@ -312,6 +312,22 @@ describe('ElizaOS Agent Commands', { timeout: TEST_TIMEOUTS.SUITE_TIMEOUT }, ()
     expect(fileContent).toContain('Ada');
   });
 
+  it('agent export writes a bundle that agent import accepts', async () => {
+    const bundleFile = join(testTmpDir, 'ada.bundle.json.gz');
+    const cliPath = join(__dirname, '../../src/index.ts');
+    bunExecSync(
+      `bun ${cliPath} agent export --remote-url ${testServerUrl} -n Ada --output ${bundleFile}`,
+      getPlatformOptions({ encoding: 'utf8' })
+    );
+    expect(existsSync(bundleFile)).toBe(true);
+
+    const result = bunExecSync(
+      `bun ${cliPath} agent import --remote-url ${testServerUrl} -f ${bundleFile} --remap-ids`,
+      getPlatformOptions({ encoding: 'utf8' })
+    );
+    expect(result).toContain('Imported agent Ada');
+  });
+
   it('agent start loads character from file', async () => {
     const charactersDir = join(__dirname, '../test-characters');
     // Use max.json since ada is already loaded by the server
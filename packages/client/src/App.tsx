@@ -8,6 +8,7 @@ import { ConnectionErrorBanner } from './components/connection-error-banner';
 import EnvSettings from './components/env-settings';
 import { AgentLogViewer } from './components/agent-log-viewer';
 import OnboardingTour from './components/onboarding-tour';
+import WebhooksPage from './components/webhooks-page';
 import { Toaster } from './components/ui/toaster';
 import { TooltipProvider } from './components/ui/tooltip';
 import { AuthProvider } from './context/AuthContext';
@@ -176,6 +177,19 @@ function AppContent() {
                   </div>
                 }
               />
+              <Route
+                path="/webhooks"
+                element={
+                  <div className="flex w-full justify-center">
+                    <div className="w-full md:max-w-5xl">
+                      <div className="flex items-center justify-between mb-4">
+                        <h2 className="text-2xl p-4 font-bold">Webhooks</h2>
+                      </div>
+                      <WebhooksPage />
+                    </div>
+                  </div>
+                }
+              />
               <Route
                 path="group/:channelId"
                 element={
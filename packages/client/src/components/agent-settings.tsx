@@ -12,6 +12,7 @@ import { useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import AvatarPanel from './avatar-panel';
 import PluginsPanel from './plugins-panel';
+import PromptTemplatesPanel from './prompt-templates-panel';
 import { SecretPanel, type SecretPanelRef } from './secret-panel';
 import { useDeleteAgent } from '@/hooks/use-delete-agent';
 
@@ -245,6 +246,10 @@ export default function AgentSettings({
               />
             ),
           },
+          {
+            name: 'Templates',
+            component: <PromptTemplatesPanel agentId={agentId} />,
+          },
           {
             name: 'Avatar',
             component: (
@@ -2,7 +2,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAgentPanels, type AgentPanel } from '@/hooks/use-query-hooks';
 import { useElizaAgent } from '@/hooks/use-eliza';
 import type { UUID } from '@elizaos/core';
-import { Columns3, Database, Eye, Code, InfoIcon, Loader2, Activity } from 'lucide-react';
+import { Columns3, Database, Eye, Code, InfoIcon, Loader2, Activity, Coins } from 'lucide-react';
 import { JSX, useMemo } from 'react';
 import { AgentActionViewer } from './agent-action-viewer';
 import { AgentLogViewer } from './agent-log-viewer';
@@ -11,6 +11,7 @@ import { Skeleton } from './ui/skeleton';
 import AgentSettings from '@/components/agent-settings';
 import { useAgentTabState } from '@/hooks/use-agent-tab-state';
 import AgentRunTimeline from '@/components/agent-runs/AgentRunTimeline';
+import AgentUsageView from '@/components/agent-usage/AgentUsageView';
 
 type AgentSidebarProps = {
   agentId: UUID | undefined;
@@ -18,7 +19,7 @@ type AgentSidebarProps = {
   channelId?: UUID;
 };
 
-type FixedTabValue = 'details' | 'timeline' | 'actions' | 'logs' | 'memories';
+type FixedTabValue = 'details' | 'timeline' | 'usage' | 'actions' | 'logs' | 'memories';
 type TabValue = FixedTabValue | string;
 
 export function AgentSidebar({ agentId, agentName, channelId }: AgentSidebarProps) {
@@ -37,6 +38,7 @@ export function AgentSidebar({ agentId, agentName, channelId }: AgentSidebarProp
     const fixedTabs: { value: FixedTabValue; label: string; icon: JSX.Element }[] = [
       { value: 'details', label: 'Details', icon: <InfoIcon className="h-4 w-4" /> },
       { value: 'timeline', label: 'Timeline', icon: <Activity className="h-4 w-4" /> },
+      { value: 'usage', label: 'Usage', icon: <Coins className="h-4 w-4" /> },
       { value: 'actions', label: 'Model Calls', icon: <Eye className="h-4 w-4" /> },
       { value: 'memories', label: 'Memories', icon: <Database className="h-4 w-4" /> },
       { value: 'logs', label: 'Logs', icon: <Code className="h-4 w-4" /> },
@@ -130,6 +132,20 @@ export function AgentSidebar({ agentId, agentName, channelId }: AgentSidebarProp
         )}
       </TabsContent>
 
+      <TabsContent
+        value="usage"
+        className="overflow-y-auto overflow-x-hidden flex-1 w-full max-w-full min-h-0 p-0"
+      >
+        {detailsTab === 'usage' && agentId && (
+          <div className="w-full max-w-full">
+            <AgentUsageView agentId={agentId} />
+          </div>
+        )}
+        {detailsTab === 'usage' && !agentId && (
+          <div className="p-4 text-muted-foreground">Select an agent to see token usage.</div>
+        )}
+      </TabsContent>
+
       <TabsContent
         value="actions"
         className="overflow-y-auto overflow-x-hidden flex-1 w-full max-w-full min-h-0"
@@ -0,0 +1,154 @@
+import { useAgentUsage } from '@/hooks/use-query-hooks';
+import type { UUID } from '@elizaos/core';
+import type { ModelUsageRollup } from '@elizaos/api-client';
+import React, { useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { TokensBadge } from '../agent-prism/TokensBadge';
+import { PriceBadge } from '../agent-prism/PriceBadge';
+
+type AgentUsageViewProps = {
+  agentId: UUID;
+};
+
+type UsageRange = '24h' | '7d' | '30d' | 'all';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGES: { value: UsageRange; label: string; durationMs?: number }[] = [
+  { value: '24h', label: '24h', durationMs: DAY_MS },
+  { value: '7d', label: '7 days', durationMs: 7 * DAY_MS },
+  { value: '30d', label: '30 days', durationMs: 30 * DAY_MS },
+  { value: 'all', label: 'All time' },
+];
+
+const formatCost = (cost: number) => Number(cost.toFixed(4));
+
+const UsageRows: React.FC<{ rows: ModelUsageRollup[]; emptyLabel: string }> = ({
+  rows,
+  emptyLabel,
+}) => {
+  if (rows.length === 0) {
+    return <div className="text-sm text-muted-foreground">{emptyLabel}</div>;
+  }
+
+  const maxTokens = Math.max(...rows.map((row) => row.totalTokens), 1);
+  return (
+    <div className="flex flex-col gap-2">
+      {rows.map((row) => (
+        <div key={row.key} className="flex flex-col gap-1">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate font-mono" title={row.key}>
+              {row.key}
+            </span>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <span className="text-xs text-muted-foreground">{row.calls} calls</span>
+              <TokensBadge tokensCount={row.totalTokens} />
+              <PriceBadge cost={formatCost(row.estimatedCost)} />
+            </div>
+          </div>
+          <div className="h-1 w-full rounded bg-muted">
+            <div
+              className="h-1 rounded bg-primary"
+              style={{ width: `${(row.totalTokens / maxTokens) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const AgentUsageView: React.FC<AgentUsageViewProps> = ({ agentId }) => {
+  const [range, setRange] = useState<UsageRange>('7d');
+
+  // Round to the minute so the query key stays stable between renders
+  const from = useMemo(() => {
+    const durationMs = RANGES.find((r) => r.value === range)?.durationMs;
+    return durationMs ? Math.floor((Date.now() - durationMs) / 60000) * 60000 : undefined;
+  }, [range]);
+
+  const usageQuery = useAgentUsage(agentId, { from });
+  const usage = usageQuery.data;
+
+  if (usageQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (usageQuery.error) {
+    return (
+      <div className="px-4 py-3 text-sm text-destructive">
+        Failed to load usage: {(usageQuery.error as Error).message}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4 p-4">
+      <div className="flex items-center gap-1">
+        {RANGES.map((option) => (
+          <Button
+            key={option.value}
+            size="sm"
+            variant={range === option.value ? 'default' : 'outline'}
+            onClick={() => setRange(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {usage && (
+        <>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm">Total</CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-wrap items-center gap-3 text-sm">
+              <span>{usage.totals.calls} model calls</span>
+              <span className="text-muted-foreground">
+                {usage.totals.promptTokens} prompt / {usage.totals.completionTokens} completion
+              </span>
+              <TokensBadge tokensCount={usage.totals.totalTokens} size="5" />
+              <PriceBadge cost={formatCost(usage.totals.estimatedCost)} size="5" />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm">By day (UTC)</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <UsageRows rows={usage.byDay} emptyLabel="No model calls in this range." />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm">By model</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <UsageRows rows={usage.byModel} emptyLabel="No model calls in this range." />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm">Top runs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <UsageRows rows={usage.byRun} emptyLabel="No runs in this range." />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AgentUsageView;
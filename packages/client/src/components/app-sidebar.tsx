@@ -38,7 +38,7 @@ import {
 import { useDeleteChannel } from '@/hooks/use-query-hooks';
 import clientLogger from '@/lib/logger'; // Added import
 import { useQueryClient } from '@tanstack/react-query'; // Import useQueryClient
-import { Book, Cog, LogIn, LogOut, Plus, TerminalIcon, Trash2, Users } from 'lucide-react'; // Added Hash for channels
+import { Book, Cog, LogIn, LogOut, Plus, TerminalIcon, Trash2, Users, Webhook } from 'lucide-react'; // Added Hash for channels
 import { useMemo, useState } from 'react';
 import { NavLink, useLocation, useNavigate } from 'react-router-dom'; // Added useNavigate
 import {
@@ -639,6 +639,7 @@ export function AppSidebar({
           <SidebarMenu>
             <FooterLink to="https://eliza.how/" Icon={Book} label="Documentation" />
             <FooterLink to="/logs" Icon={TerminalIcon} label="Logs" />
+            <FooterLink to="/webhooks" Icon={Webhook} label="Webhooks" />
             <FooterLink to="/settings" Icon={Cog} label="Settings" />
             <ConnectionStatus />
           </SidebarMenu>
@@ -0,0 +1,206 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { usePromptTemplates, useUpdatePromptTemplate } from '@/hooks/use-query-hooks';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import type {
+  PromptTemplateInfo,
+  PromptTemplateIssue,
+  PromptTemplateUpdateResult,
+} from '@elizaos/api-client';
+import { diffPromptTemplates, type UUID } from '@elizaos/core';
+import { Loader2 } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+
+interface PromptTemplatesPanelProps {
+  agentId: UUID;
+}
+
+const TemplateDiff = ({ before, after }: { before: string; after: string }) => {
+  const lines = useMemo(() => diffPromptTemplates(before, after), [before, after]);
+
+  if (lines.every((line) => line.type === 'unchanged')) {
+    return <div className="text-sm text-muted-foreground">Same as the default template.</div>;
+  }
+
+  return (
+    <pre className="max-h-80 overflow-auto rounded-md border text-xs font-mono">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={cn(
+            'px-2 whitespace-pre-wrap',
+            line.type === 'added' && 'bg-green-500/15',
+            line.type === 'removed' && 'bg-red-500/15 text-muted-foreground line-through'
+          )}
+        >
+          {line.type === 'added' && '+ '}
+          {line.type === 'removed' && '- '}
+          {line.type === 'unchanged' && '  '}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+};
+
+const TemplateEditor = ({ agentId, template }: { agentId: UUID; template: PromptTemplateInfo }) => {
+  const { toast } = useToast();
+  const updateTemplate = useUpdatePromptTemplate();
+  const [text, setText] = useState(template.override ?? template.defaultTemplate);
+  const [issues, setIssues] = useState<PromptTemplateIssue[]>([]);
+
+  useEffect(() => {
+    setText(template.override ?? template.defaultTemplate);
+    setIssues([]);
+  }, [template.name, template.override, template.defaultTemplate]);
+
+  const hasChanges = text !== (template.override ?? template.defaultTemplate);
+
+  const handleSave = () => {
+    updateTemplate.mutate(
+      { agentId, name: template.name, template: text },
+      {
+        onSuccess: (result) => {
+          setIssues((result as PromptTemplateUpdateResult).issues ?? []);
+          toast({ title: 'Template saved', description: `${template.name} is now overridden.` });
+        },
+      }
+    );
+  };
+
+  const handleReset = () => {
+    updateTemplate.mutate(
+      { agentId, name: template.name, template: null },
+      {
+        onSuccess: () => {
+          toast({ title: 'Template reset', description: `${template.name} uses the default.` });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-1">
+        <div className="flex items-center gap-2">
+          <h3 className="font-mono font-medium">{template.name}</h3>
+          <Badge variant="outline">{template.source}</Badge>
+          <Badge variant="secondary" className="font-mono" title="Version in use">
+            {template.version}
+          </Badge>
+        </div>
+        {template.description && (
+          <p className="text-sm text-muted-foreground">{template.description}</p>
+        )}
+      </div>
+
+      {template.variables.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {template.variables.map((variable) => (
+            <Badge key={variable} variant="outline" className="font-mono text-xs">
+              {`{{${variable}}}`}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {template.overridden && template.override === undefined ? (
+        <div className="text-sm text-muted-foreground">
+          This template is overridden by a function in the character file and cannot be edited here.
+        </div>
+      ) : (
+        <>
+          <Textarea
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            className="min-h-64 font-mono text-xs"
+          />
+
+          {issues.length > 0 && (
+            <ul className="text-sm text-yellow-600 list-disc pl-5">
+              {issues.map((issue) => (
+                <li key={issue.message}>{issue.message}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={!hasChanges || updateTemplate.isPending}>
+              {updateTemplate.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save override
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleReset}
+              disabled={!template.overridden || updateTemplate.isPending}
+            >
+              Reset to default
+            </Button>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <h4 className="text-sm font-medium">Changes from default</h4>
+            <TemplateDiff before={template.defaultTemplate} after={text} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Lists the prompt templates used by the agent and edits its overrides
+ */
+export default function PromptTemplatesPanel({ agentId }: PromptTemplatesPanelProps) {
+  const { data, isLoading, error } = usePromptTemplates(agentId);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const templates = data?.templates ?? [];
+  const template = templates.find((item) => item.name === selected) ?? templates[0];
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 text-sm text-destructive">
+        Failed to load templates. Templates are available while the agent is running.
+      </div>
+    );
+  }
+
+  if (!template) {
+    return <div className="p-4 text-sm text-muted-foreground">No templates registered.</div>;
+  }
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6">
+      <div className="flex flex-col gap-1 md:w-64 flex-shrink-0">
+        {templates.map((item) => (
+          <button
+            key={item.name}
+            type="button"
+            onClick={() => setSelected(item.name)}
+            className={cn(
+              'flex items-center justify-between gap-2 rounded-md px-3 py-2 text-left text-sm hover:bg-muted',
+              item.name === template.name && 'bg-muted'
+            )}
+          >
+            <span className="truncate font-mono">{item.name}</span>
+            {item.overridden && <Badge className="text-xs">Custom</Badge>}
+          </button>
+        ))}
+      </div>
+      <div className="flex-1 min-w-0">
+        <TemplateEditor agentId={agentId} template={template} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import ConfirmationDialog from '@/components/confirmation-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useConfirmation } from '@/hooks/use-confirmation';
+import {
+  useDeleteWebhook,
+  useRedeliverWebhookDelivery,
+  useWebhookDeliveries,
+  useWebhooks,
+} from '@/hooks/use-query-hooks';
+import { cn } from '@/lib/utils';
+import type { Webhook, WebhookDelivery, WebhookDeliveryStatus } from '@elizaos/api-client';
+import { ChevronDown, ChevronRight, Loader2, RotateCw, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+const STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  pending: 'Pending',
+  delivered: 'Delivered',
+  dead_letter: 'Dead letter',
+};
+
+const StatusBadge = ({ status }: { status: WebhookDeliveryStatus }) => (
+  <Badge
+    variant={
+      status === 'dead_letter' ? 'destructive' : status === 'pending' ? 'outline' : 'secondary'
+    }
+    className={cn('text-xs', status === 'delivered' && 'text-green-600')}
+  >
+    {STATUS_LABELS[status]}
+  </Badge>
+);
+
+const DeliveryRow = ({ delivery }: { delivery: WebhookDelivery }) => {
+  const redeliver = useRedeliverWebhookDelivery();
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="border-b last:border-b-0">
+      <div className="flex items-center gap-3 px-3 py-2 text-sm">
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="text-muted-foreground hover:text-foreground"
+          aria-label={expanded ? 'Hide payload' : 'Show payload'}
+        >
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </button>
+        <span className="font-mono w-56 truncate">{delivery.event}</span>
+        <StatusBadge status={delivery.status} />
+        <span className="text-muted-foreground w-24">
+          {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+        </span>
+        <span className="flex-1 truncate text-muted-foreground" title={delivery.lastError}>
+          {delivery.lastError ??
+            (delivery.responseStatus !== undefined ? `HTTP ${delivery.responseStatus}` : '')}
+        </span>
+        <span className="text-muted-foreground text-xs whitespace-nowrap">
+          {new Date(delivery.createdAt).toLocaleString()}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          title="Send again"
+          disabled={redeliver.isPending || delivery.status === 'pending'}
+          onClick={() =>
+            redeliver.mutate({ webhookId: delivery.webhookId, deliveryId: delivery.id })
+          }
+        >
+          {redeliver.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <RotateCw className="h-4 w-4" />
+          )}
+        </Button>
+      </div>
+      {expanded && (
+        <div className="px-10 pb-3 flex flex-col gap-1">
+          {delivery.status === 'pending' && delivery.nextAttemptAt !== undefined && (
+            <span className="text-xs text-muted-foreground">
+              Next attempt {new Date(delivery.nextAttemptAt).toLocaleString()}
+            </span>
+          )}
+          <pre className="max-h-64 overflow-auto rounded-md border bg-muted/40 p-2 text-xs font-mono">
+            {JSON.stringify(delivery.payload, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DeliveryLog = ({ webhook }: { webhook: Webhook }) => {
+  const [status, setStatus] = useState<WebhookDeliveryStatus | 'all'>('all');
+  const { data, isLoading, error } = useWebhookDeliveries(
+    webhook.id,
+    status === 'all' ? undefined : status
+  );
+  const deliveries = data?.deliveries ?? [];
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Delivery log</h3>
+        <Select
+          value={status}
+          onValueChange={(value) => setStatus(value as WebhookDeliveryStatus | 'all')}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All</SelectItem>
+            {(Object.keys(STATUS_LABELS) as WebhookDeliveryStatus[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {STATUS_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="border rounded-lg">
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="p-4 text-sm text-destructive">Failed to load deliveries.</div>
+        ) : deliveries.length === 0 ? (
+          <div className="p-4 text-sm text-muted-foreground">No deliveries yet.</div>
+        ) : (
+          deliveries.map((delivery) => <DeliveryRow key={delivery.id} delivery={delivery} />)
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Lists the server's webhook subscriptions and the delivery log of the selected one
+ */
+export default function WebhooksPage() {
+  const { data, isLoading, error } = useWebhooks();
+  const deleteWebhook = useDeleteWebhook();
+  const { confirm, isOpen, onOpenChange, onConfirm, options } = useConfirmation();
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const webhooks = data?.webhooks ?? [];
+  const webhook = webhooks.find((item) => item.id === selected) ?? webhooks[0];
+
+  const handleDelete = (target: Webhook) => {
+    confirm(
+      {
+        title: 'Delete Webhook',
+        description: `Stop sending events to ${target.url}? Its delivery log is deleted too.`,
+        confirmText: 'Delete',
+        variant: 'destructive',
+      },
+      () => deleteWebhook.mutate(target.id)
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="p-4 text-sm text-destructive">Failed to load webhooks.</div>;
+  }
+
+  if (!webhook) {
+    return (
+      <div className="p-4 text-sm text-muted-foreground">
+        No webhooks yet. Create one with <code className="font-mono">POST /api/webhooks</code>.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6 p-4">
+      <div className="flex flex-col gap-1 md:w-72 flex-shrink-0">
+        {webhooks.map((item) => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => setSelected(item.id)}
+            className={cn(
+              'flex flex-col gap-1 rounded-md px-3 py-2 text-left text-sm hover:bg-muted',
+              item.id === webhook.id && 'bg-muted'
+            )}
+          >
+            <span className="truncate font-mono">{item.url}</span>
+            {item.description && (
+              <span className="truncate text-xs text-muted-foreground">{item.description}</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 min-w-0 flex flex-col gap-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex flex-col gap-2 min-w-0">
+            <h3 className="font-mono font-medium break-all">{webhook.url}</h3>
+            <div className="flex flex-wrap gap-1">
+              {webhook.events.map((event) => (
+                <Badge key={event} variant="outline" className="font-mono text-xs">
+                  {event}
+                </Badge>
+              ))}
+            </div>
+            {(webhook.agentIds || webhook.channelIds) && (
+              <span className="text-xs text-muted-foreground">
+                {webhook.agentIds && `Agents: ${webhook.agentIds.join(', ')}`}
+                {webhook.agentIds && webhook.channelIds && ' · '}
+                {webhook.channelIds && `Channels: ${webhook.channelIds.join(', ')}`}
+              </span>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleDelete(webhook)}
+            disabled={deleteWebhook.isPending}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+        </div>
+
+        <DeliveryLog key={webhook.id} webhook={webhook} />
+      </div>
+
+      <ConfirmationDialog
+        open={isOpen}
+        onOpenChange={onOpenChange}
+        title={options?.title || ''}
+        description={options?.description || ''}
+        confirmText={options?.confirmText}
+        cancelText={options?.cancelText}
+        variant={options?.variant}
+        onConfirm={onConfirm}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { describe, test, expect, mock, beforeEach, afterEach } from 'bun:test';
+import { act, renderHook } from '@testing-library/react';
 import type { UUID } from '@elizaos/core';
+import { checkResumeResponse, parseSSEMessages, useSSEChat } from '../use-sse-chat';
 
 // Test the useSSEChat hook logic without React context dependencies
 // These tests verify the core behavior and API integration
@@ -82,50 +84,133 @@ describe('useSSEChat - Unit Tests', () => {
   });
 
   describe('SSE Event Parsing', () => {
-    test('should parse chunk event correctly', () => {
-      const data = '{"type":"chunk","text":"Hello"}';
-      const chunk = JSON.parse(data);
-
-      expect(chunk.type).toBe('chunk');
-      expect(chunk.text).toBe('Hello');
+    test('should parse event ids, names and data', () => {
+      const { messages, rest } = parseSSEMessages(
+        'id: 1\nevent: chunk\ndata: {"chunk":"Hello","index":0}\n\n' +
+          'id: 2\nevent: done\ndata: {"text":"Hello"}\n\n'
+      );
+
+      expect(rest).toBe('');
+      expect(messages).toEqual([
+        { id: 1, event: 'chunk', data: '{"chunk":"Hello","index":0}' },
+        { id: 2, event: 'done', data: '{"text":"Hello"}' },
+      ]);
     });
 
-    test('should parse complete event correctly', () => {
-      const data = '{"type":"complete","text":"Full response here"}';
-      const chunk = JSON.parse(data);
+    test('should keep an incomplete event for the next read', () => {
+      const first = parseSSEMessages(
+        'id: 1\nevent: chunk\ndata: {"chunk":"a"}\n\nid: 2\nevent: ch'
+      );
+      expect(first.messages).toHaveLength(1);
+      expect(first.rest).toBe('id: 2\nevent: ch');
 
-      expect(chunk.type).toBe('complete');
-      expect(chunk.text).toBe('Full response here');
+      const second = parseSSEMessages(`${first.rest}unk\ndata: {"chunk":"b"}\n\n`);
+      expect(second.messages).toEqual([{ id: 2, event: 'chunk', data: '{"chunk":"b"}' }]);
     });
 
-    test('should parse error event correctly', () => {
-      const data = '{"type":"error","error":"Something went wrong"}';
-      const chunk = JSON.parse(data);
+    test('should ignore comments and join multi-line data', () => {
+      const { messages } = parseSSEMessages(': keep-alive\n\ndata: line one\ndata: line two\n\n');
 
-      expect(chunk.type).toBe('error');
-      expect(chunk.error).toBe('Something went wrong');
+      expect(messages).toEqual([{ event: 'message', data: 'line one\nline two' }]);
     });
 
-    test('should recognize [DONE] marker', () => {
-      const data = '[DONE]';
-      expect(data).toBe('[DONE]');
-    });
+    test('should accumulate text from multiple chunk events', () => {
+      const { messages } = parseSSEMessages(
+        ['Hello ', 'world', '!']
+          .map(
+            (chunk, index) =>
+              `id: ${index + 1}\nevent: chunk\ndata: ${JSON.stringify({ chunk, index })}\n\n`
+          )
+          .join('')
+      );
+
+      const accumulatedText = messages
+        .filter((message) => message.event === 'chunk')
+        .map((message) => JSON.parse(message.data).chunk)
+        .join('');
 
-    test('should accumulate text from multiple chunks', () => {
-      const chunks = [
-        { type: 'chunk', text: 'Hello ' },
-        { type: 'chunk', text: 'world' },
-        { type: 'chunk', text: '!' },
-      ];
+      expect(accumulatedText).toBe('Hello world!');
+      expect(messages.at(-1)?.id).toBe(3);
+    });
+  });
 
-      let accumulatedText = '';
-      for (const chunk of chunks) {
-        if (chunk.type === 'chunk' && chunk.text) {
-          accumulatedText += chunk.text;
+  describe('SSE Stream Resumption', () => {
+    test('should resume a dropped stream after the last event received', async () => {
+      const apiKey = 'test-api-key';
+      localStorage.setItem(`eliza-api-key-${window.location.origin}`, apiKey);
+
+      const encoder = new TextEncoder();
+      let delivered = false;
+      // Delivers the first chunk, then drops like a lost connection
+      const droppedStream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (delivered) {
+            controller.error(new TypeError('network error'));
+            return;
+          }
+          delivered = true;
+          controller.enqueue(encoder.encode('id: 7\nevent: chunk\ndata: {"chunk":"Hel"}\n\n'));
+        },
+      });
+      const fetchMock = mock(async (url: string) => {
+        if (url.endsWith('/messages')) {
+          return new Response(droppedStream, {
+            headers: { 'Content-Type': 'text/event-stream', 'X-Stream-Id': 'stream-123' },
+          });
         }
-      }
+        return new Response('id: 8\nevent: done\ndata: {"text":"Hello"}\n\n', {
+          headers: { 'Content-Type': 'text/event-stream' },
+        });
+      });
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const onUpdateMessage = mock();
+      const { result } = renderHook(() =>
+        useSSEChat({
+          sessionId: 'session 123',
+          agentId: '00000000-0000-0000-0000-000000000001' as UUID,
+          serverId: '00000000-0000-0000-0000-000000000000' as UUID,
+          channelId: '00000000-0000-0000-0000-000000000002' as UUID,
+          onAddMessage: mock(),
+          onUpdateMessage,
+        })
+      );
+
+      await act(async () => {
+        await result.current.sendMessage('Hi!');
+      });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const [resumeUrl, resumeInit] = fetchMock.mock.calls[1] as unknown as [string, RequestInit];
+      expect(resumeUrl).toBe(
+        `${window.location.origin}/api/messaging/streams/stream-123?sessionId=session%20123`
+      );
+      expect(resumeInit.headers).toMatchObject({
+        Accept: 'text/event-stream',
+        'Last-Event-ID': '7',
+        Authorization: `Bearer ${apiKey}`,
+      });
+      expect(onUpdateMessage).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ text: 'Hello', isStreaming: false })
+      );
+    });
 
-      expect(accumulatedText).toBe('Hello world!');
+    test('should only read successful resume responses as the stream', () => {
+      const eventStream = new Response('id: 1\nevent: chunk\ndata: {}\n\n', {
+        headers: { 'Content-Type': 'text/event-stream' },
+      });
+      expect(checkResumeResponse(eventStream)).toBe(true);
+
+      // Server errors are retried
+      expect(checkResumeResponse(new Response('Bad gateway', { status: 502 }))).toBe(false);
+
+      expect(() => checkResumeResponse(new Response(null, { status: 404 }))).toThrow(
+        'Stream expired before it could be resumed'
+      );
+      expect(() =>
+        checkResumeResponse(new Response(null, { status: 401, statusText: 'Unauthorized' }))
+      ).toThrow('HTTP 401: Unauthorized');
     });
   });
 
@@ -30,7 +30,17 @@ import {
   mapApiMemoryToClient,
   type AgentLog,
 } from '@/lib/api-type-mappers';
-import type { ListRunsParams, RunDetail, RunSummary } from '@elizaos/api-client';
+import type {
+  AgentUsage,
+  AgentUsageParams,
+  ListRunsParams,
+  PromptTemplateList,
+  RunDetail,
+  RunSummary,
+  WebhookDeliveryList,
+  WebhookDeliveryStatus,
+  WebhookList,
+} from '@elizaos/api-client';
 import { getElizaClient } from '@/lib/api-client-config';
 
 // Helper to always get the current client instance (important after API key updates)
@@ -228,6 +238,174 @@ export function useAgentRunDetail(
   });
 }
 
+export function useAgentUsage(
+  agentId: UUID | undefined | null,
+  params?: AgentUsageParams,
+  options: Partial<UseQueryOptions<AgentUsage, Error, AgentUsage>> = {}
+) {
+  const network = useNetworkStatus();
+  const sanitizedParams = params
+    ? Object.fromEntries(Object.entries(params).filter(([_, value]) => value !== undefined))
+    : undefined;
+  const serializedParams = sanitizedParams ? JSON.stringify(sanitizedParams) : 'default';
+
+  return useQuery<AgentUsage>({
+    queryKey: ['agent', agentId, 'usage', serializedParams],
+    queryFn: async () => {
+      if (!agentId) {
+        throw new Error('Agent ID is required');
+      }
+      return getClient().usage.getAgentUsage(
+        agentId,
+        sanitizedParams as AgentUsageParams | undefined
+      );
+    },
+    enabled: Boolean(agentId),
+    staleTime: STALE_TIMES.FREQUENT,
+    refetchInterval: !network.isOffline && Boolean(agentId) ? STALE_TIMES.STANDARD : false,
+    refetchIntervalInBackground: false,
+    ...options,
+  });
+}
+
+export function usePromptTemplates(
+  agentId: UUID | undefined | null,
+  options: Partial<UseQueryOptions<PromptTemplateList, Error, PromptTemplateList>> = {}
+) {
+  return useQuery<PromptTemplateList>({
+    queryKey: ['agent', agentId, 'templates'],
+    queryFn: async () => {
+      if (!agentId) {
+        throw new Error('Agent ID is required');
+      }
+      return getClient().templates.listTemplates(agentId);
+    },
+    enabled: Boolean(agentId),
+    staleTime: STALE_TIMES.STANDARD,
+    ...options,
+  });
+}
+
+/**
+ * Saves or resets an agent's override of a prompt template. Passing `template: null`
+ * restores the default.
+ */
+export function useUpdatePromptTemplate() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({
+      agentId,
+      name,
+      template,
+    }: {
+      agentId: UUID;
+      name: string;
+      template: string | null;
+    }) => {
+      if (template === null) {
+        return getClient().templates.resetTemplate(agentId, name);
+      }
+      return getClient().templates.updateTemplate(agentId, name, template);
+    },
+    onSuccess: (_data, { agentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['agent', agentId, 'templates'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save template',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/**
+ * Fetches the server's webhook subscriptions
+ */
+export function useWebhooks(
+  options: Partial<UseQueryOptions<WebhookList, Error, WebhookList>> = {}
+) {
+  return useQuery<WebhookList>({
+    queryKey: ['webhooks'],
+    queryFn: () => getClient().webhooks.listWebhooks(),
+    staleTime: STALE_TIMES.STANDARD,
+    ...options,
+  });
+}
+
+/**
+ * Fetches the delivery log of a webhook, newest first, polling while it is shown
+ */
+export function useWebhookDeliveries(
+  webhookId: UUID | undefined | null,
+  status?: WebhookDeliveryStatus,
+  options: Partial<UseQueryOptions<WebhookDeliveryList, Error, WebhookDeliveryList>> = {}
+) {
+  return useQuery<WebhookDeliveryList>({
+    queryKey: ['webhooks', webhookId, 'deliveries', status ?? 'all'],
+    queryFn: async () => {
+      if (!webhookId) {
+        throw new Error('Webhook ID is required');
+      }
+      return getClient().webhooks.getWebhookDeliveries(webhookId, { status, limit: 100 });
+    },
+    enabled: Boolean(webhookId),
+    staleTime: STALE_TIMES.FREQUENT,
+    refetchInterval: STALE_TIMES.FREQUENT,
+    ...options,
+  });
+}
+
+/**
+ * Sends a webhook delivery again from its first attempt
+ */
+export function useRedeliverWebhookDelivery() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ webhookId, deliveryId }: { webhookId: UUID; deliveryId: UUID }) =>
+      getClient().webhooks.redeliverWebhookDelivery(webhookId, deliveryId),
+    onSuccess: (_data, { webhookId }) => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks', webhookId, 'deliveries'] });
+      toast({ title: 'Delivery queued', description: 'The event will be sent again shortly.' });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to redeliver',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/**
+ * Deletes a webhook along with its delivery log
+ */
+export function useDeleteWebhook() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (webhookId: UUID) => getClient().webhooks.deleteWebhook(webhookId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+      toast({ title: 'Webhook deleted' });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete webhook',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
 // Hook for starting an agent with optimistic updates
 /**
  * Custom hook to start an agent by calling the API with the provided agent ID.
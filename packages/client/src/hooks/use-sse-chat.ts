@@ -1,11 +1,97 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { UUID, Media } from '@elizaos/core';
+import type { UUID, Media, Content } from '@elizaos/core';
 import { createApiClientConfig } from '@/lib/api-client-config';
 import { getEntityId, randomUUID, getAttachmentType } from '@/lib/utils';
 import { USER_NAME } from '@/constants';
 import clientLogger from '@/lib/logger';
 import type { UiMessage } from '../types';
 
+/** Header carrying the id used to resume the stream */
+const STREAM_ID_HEADER = 'X-Stream-Id';
+
+/** Reconnection attempts after the stream drops, before giving up */
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+/** Delay before the first reconnection attempt, doubled on each further attempt */
+const RECONNECT_BASE_DELAY_MS = 1000;
+
+/**
+ * An event of the SSE stream
+ */
+export interface SSEMessage {
+  /** Event id, used as `Last-Event-ID` when resuming the stream */
+  id?: number;
+  event: string;
+  data: string;
+}
+
+/**
+ * Parses the complete events in an SSE buffer
+ * @returns The parsed events and the incomplete remainder of the buffer
+ */
+export function parseSSEMessages(buffer: string): { messages: SSEMessage[]; rest: string } {
+  const frames = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = frames.pop() ?? '';
+  const messages: SSEMessage[] = [];
+
+  for (const frame of frames) {
+    const message: SSEMessage = { event: 'message', data: '' };
+    const data: string[] = [];
+    for (const line of frame.split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator === 0) {
+        continue; // comment
+      }
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+      if (field === 'id') {
+        const id = Number(value);
+        if (Number.isInteger(id)) {
+          message.id = id;
+        }
+      } else if (field === 'event') {
+        message.event = value;
+      } else if (field === 'data') {
+        data.push(value);
+      }
+    }
+    if (data.length > 0) {
+      message.data = data.join('\n');
+      messages.push(message);
+    }
+  }
+
+  return { messages, rest };
+}
+
+/**
+ * Checks the response to a request resuming the stream
+ * @returns Whether the response carries the stream; false on server errors, worth retrying
+ * @throws When the stream expired or the request was rejected
+ */
+export function checkResumeResponse(response: Response): boolean {
+  if (response.ok) {
+    return true;
+  }
+  if (response.status === 404) {
+    throw new Error('Stream expired before it could be resumed');
+  }
+  if (response.status >= 500) {
+    return false;
+  }
+  throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+}
+
+function waitForReconnect(attempt: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1));
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    });
+  });
+}
+
 interface UseSSEChatOptions {
   sessionId: string | undefined;
   agentId: UUID | undefined;
@@ -17,7 +103,8 @@ interface UseSSEChatOptions {
 
 /**
  * SSE (Server-Sent Events) transport for chat.
- * Streams agent responses via SSE instead of WebSocket.
+ * Streams agent responses via SSE instead of WebSocket. When the connection drops
+ * before the reply is complete, the stream is resumed with `Last-Event-ID`.
  *
  * @internal Used by useElizaChat with transport: 'sse'
  */
@@ -43,7 +130,9 @@ export function useSSEChat({
 
   const sendMessage = useCallback(
     async (text: string, attachments?: Media[]) => {
-      if (!sessionId || !channelId || !agentId || !text.trim()) return;
+      if (!sessionId || !channelId || !agentId || !text.trim()) {
+        return;
+      }
 
       const tempId = randomUUID();
       setInputDisabled(true);
@@ -63,53 +152,59 @@ export function useSSEChat({
       };
       onAddMessage(userMessage);
 
+      let agentMessageId: string | undefined;
+      let accumulatedText = '';
+
       try {
         const config = createApiClientConfig();
         const baseUrl = config.baseUrl;
+        const authHeaders: Record<string, string> = config.apiKey
+          ? { Authorization: `Bearer ${config.apiKey}` }
+          : {};
 
         // Abort any previous stream
         abortControllerRef.current?.abort();
-        abortControllerRef.current = new AbortController();
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
 
         // Send message with SSE transport
-        const response = await fetch(`${baseUrl}/api/messaging/sessions/${sessionId}/messages`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Accept: 'text/event-stream',
-            ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
-          },
-          body: JSON.stringify({
-            content: text,
-            transport: 'sse',
-            attachments: attachments?.map((a) => ({
-              type: getAttachmentType(a.contentType),
-              url: a.url,
-              name: a.title,
-            })),
-          }),
-          signal: abortControllerRef.current.signal,
-        });
+        const initialResponse = await fetch(
+          `${baseUrl}/api/messaging/sessions/${sessionId}/messages`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              Accept: 'text/event-stream',
+              ...authHeaders,
+            },
+            body: JSON.stringify({
+              content: text,
+              transport: 'sse',
+              attachments: attachments?.map((a) => ({
+                type: getAttachmentType(a.contentType),
+                url: a.url,
+                name: a.title,
+              })),
+            }),
+            signal: abortController.signal,
+          }
+        );
 
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        if (!initialResponse.ok) {
+          throw new Error(`HTTP ${initialResponse.status}: ${initialResponse.statusText}`);
         }
 
         // Mark user message as sent
         onUpdateMessage(tempId, { isLoading: false });
 
-        // Handle SSE stream
-        const reader = response.body?.getReader();
-        if (!reader) {
-          throw new Error('No response body');
-        }
-
+        const streamId = initialResponse.headers.get(STREAM_ID_HEADER);
         setIsStreaming(true);
 
         // Create agent message placeholder
-        const agentMessageId = randomUUID();
-        const agentMessage: UiMessage = {
-          id: agentMessageId,
+        const messageId = randomUUID();
+        agentMessageId = messageId;
+        onAddMessage({
+          id: messageId,
           text: '',
           name: 'Agent',
           senderId: agentId,
@@ -119,87 +214,143 @@ export function useSSEChat({
           serverId,
           isStreaming: true,
           isLoading: true,
+        });
+
+        let lastEventId = 0;
+        let finished = false;
+
+        const handleMessage = (message: SSEMessage) => {
+          if (message.id !== undefined) {
+            lastEventId = message.id;
+          }
+          const data = JSON.parse(message.data);
+
+          switch (message.event) {
+            case 'chunk':
+              accumulatedText += data.chunk ?? '';
+              onUpdateMessage(messageId, { text: accumulatedText, isStreaming: true });
+              break;
+            case 'action': {
+              const content = data as Content;
+              if (content.text) {
+                accumulatedText = content.text;
+                onUpdateMessage(messageId, { text: accumulatedText, isStreaming: true });
+              }
+              break;
+            }
+            case 'done': {
+              const content = data as Content;
+              finished = true;
+              onUpdateMessage(messageId, {
+                text: content.text || accumulatedText,
+                thought: content.thought,
+                actions: content.actions,
+                isStreaming: false,
+                isLoading: false,
+              });
+              break;
+            }
+            case 'error':
+              finished = true;
+              throw new Error(data.error || 'Stream error');
+          }
         };
-        onAddMessage(agentMessage);
 
-        const decoder = new TextDecoder();
-        let buffer = '';
-        let accumulatedText = '';
+        // Returns when the server ends the stream or the connection drops
+        const readStream = async (streamResponse: Response) => {
+          const reader = streamResponse.body?.getReader();
+          if (!reader) {
+            throw new Error('No response body');
+          }
+          const decoder = new TextDecoder();
+          let buffer = '';
+
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+              break;
+            }
+
+            buffer += decoder.decode(value, { stream: true });
+            const { messages, rest } = parseSSEMessages(buffer);
+            buffer = rest;
+            for (const message of messages) {
+              handleMessage(message);
+            }
+          }
+        };
 
+        let response: Response | null = initialResponse;
+        let attempt = 0;
         while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-
-          // Process SSE events
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-              if (data === '[DONE]') {
-                onUpdateMessage(agentMessageId, {
-                  text: accumulatedText,
-                  isStreaming: false,
-                  isLoading: false,
-                });
-                setIsStreaming(false);
-                continue;
+          const lastEventIdBefore = lastEventId;
+          if (response) {
+            try {
+              await readStream(response);
+            } catch (streamError) {
+              if (finished || (streamError as Error).name === 'AbortError') {
+                throw streamError;
               }
+              clientLogger.warn('[useSSEChat] Stream interrupted', streamError);
+            }
+          }
+          if (finished) {
+            break;
+          }
 
-              try {
-                const chunk = JSON.parse(data);
-
-                if (chunk.type === 'chunk' && chunk.text) {
-                  accumulatedText += chunk.text;
-                  onUpdateMessage(agentMessageId, {
-                    text: accumulatedText,
-                    isStreaming: true,
-                  });
-                } else if (chunk.type === 'complete') {
-                  onUpdateMessage(agentMessageId, {
-                    text: chunk.text || accumulatedText,
-                    isStreaming: false,
-                    isLoading: false,
-                  });
-                  setIsStreaming(false);
-                } else if (chunk.type === 'error') {
-                  throw new Error(chunk.error || 'Stream error');
-                }
-              } catch (parseError) {
-                // Non-JSON data, treat as text chunk
-                clientLogger.debug('[useSSEChat] Non-JSON SSE data, treating as text chunk', {
-                  data,
-                  parseError,
-                });
-                accumulatedText += data;
-                onUpdateMessage(agentMessageId, {
-                  text: accumulatedText,
-                  isStreaming: true,
-                });
-              }
+          // Dropped before the reply completed: resume after the last event received
+          if (lastEventId > lastEventIdBefore) {
+            attempt = 0;
+          }
+          if (!streamId || attempt >= MAX_RECONNECT_ATTEMPTS) {
+            throw new Error('Stream disconnected before the response completed');
+          }
+          attempt++;
+          await waitForReconnect(attempt, abortController.signal);
+
+          clientLogger.info('[useSSEChat] Resuming stream', { streamId, lastEventId, attempt });
+          try {
+            // Only the session the message was sent in may resume its stream
+            const resumeUrl = `${baseUrl}/api/messaging/streams/${streamId}?sessionId=${encodeURIComponent(sessionId)}`;
+            response = await fetch(resumeUrl, {
+              headers: {
+                Accept: 'text/event-stream',
+                'Last-Event-ID': String(lastEventId),
+                ...authHeaders,
+              },
+              signal: abortController.signal,
+            });
+          } catch (resumeError) {
+            if ((resumeError as Error).name === 'AbortError') {
+              throw resumeError;
             }
+            clientLogger.warn('[useSSEChat] Failed to resume stream', resumeError);
+            response = null;
+            continue;
+          }
+          if (!checkResumeResponse(response)) {
+            clientLogger.warn('[useSSEChat] Failed to resume stream', `HTTP ${response.status}`);
+            response = null;
           }
         }
-
-        // Ensure final state
-        onUpdateMessage(agentMessageId, {
-          text: accumulatedText,
-          isStreaming: false,
-          isLoading: false,
-        });
       } catch (error) {
         if ((error as Error).name === 'AbortError') {
           return;
         }
 
         clientLogger.error('[useSSEChat] Error sending message:', error);
-        onUpdateMessage(tempId, {
-          isLoading: false,
-          text: `${text} (Failed to send)`,
-        });
+        if (agentMessageId) {
+          onUpdateMessage(agentMessageId, {
+            text: accumulatedText || `Error: ${(error as Error).message}`,
+            isStreaming: false,
+            isLoading: false,
+          });
+        } else {
+          onUpdateMessage(tempId, {
+            isLoading: false,
+            text: `${text} (Failed to send)`,
+          });
+        }
       } finally {
         setIsStreaming(false);
         setInputDisabled(false);
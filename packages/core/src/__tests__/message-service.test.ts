@@ -4,6 +4,7 @@ import type { IMessageService } from '../services/message-service';
 import type { IAgentRuntime } from '../types/runtime';
 import type { Memory, Content, UUID, HandlerCallback } from '../types';
 import { ChannelType, EventType, ModelType, Role } from '../index';
+import { CORE_PROMPT_TEMPLATES } from '../utils/prompt-templates';
 
 describe('DefaultMessageService', () => {
   let messageService: IMessageService;
@@ -109,6 +110,11 @@ describe('DefaultMessageService', () => {
       getActions: mock(() => []),
       startRun: mock(() => '123e4567-e89b-12d3-a456-426614174100' as UUID),
       endRun: mock((runId: UUID) => {}),
+      getPromptTemplate: mock(
+        (name: string) => CORE_PROMPT_TEMPLATES.find((template) => template.name === name)!.template
+      ),
+      getRunPromptTemplates: mock(() => []),
+      trackMessage: mock((handler: () => Promise<unknown>) => handler()),
       queueEmbeddingGeneration: mock(async () => {}),
       log: mock(async () => {}),
       getParticipantUserState: mock(async () => ({
@@ -825,6 +831,94 @@ describe('DefaultMessageService', () => {
     });
   });
 
+  describe('tool calling', () => {
+    const message: Memory = {
+      id: '123e4567-e89b-12d3-a456-426614174300' as UUID,
+      content: {
+        text: 'Send 5 USDC to alice',
+        source: 'client_chat',
+        channelType: ChannelType.DM,
+      } as Content,
+      entityId: '123e4567-e89b-12d3-a456-426614174005' as UUID,
+      roomId: '123e4567-e89b-12d3-a456-426614174002' as UUID,
+      agentId: '123e4567-e89b-12d3-a456-426614174001' as UUID,
+      createdAt: Date.now(),
+    };
+
+    const sendTokens = {
+      name: 'SEND_TOKENS',
+      description: 'Send tokens to a recipient',
+      parameters: {
+        recipient: { type: 'string', description: 'Recipient name', required: true },
+        amount: { type: 'number', description: 'Amount to send', required: true },
+      },
+      handler: async () => undefined,
+      validate: async () => true,
+    };
+
+    beforeEach(() => {
+      mockRuntime.composeState = mock(async () => ({
+        values: {},
+        data: {
+          providers: {
+            ACTIONS: {
+              data: {
+                actionsData: [{ ...sendTokens, name: 'REPLY', parameters: undefined }, sendTokens],
+              },
+            },
+          },
+        },
+        text: '',
+      })) as any;
+    });
+
+    it('should dispatch actions from native tool calls with their arguments', async () => {
+      mockRuntime.useModel = mock(async () => ({
+        text: 'Sending now.',
+        toolCalls: [
+          { id: 'call_1', name: 'SEND_TOKENS', arguments: { recipient: 'alice', amount: 5 } },
+          { id: 'call_2', name: 'UNKNOWN_TOOL', arguments: {} },
+        ],
+      })) as any;
+
+      const result = await messageService.handleMessage(
+        mockRuntime as IAgentRuntime,
+        message,
+        mockCallback,
+        { useToolCalling: true }
+      );
+
+      const [, params] = (mockRuntime.useModel as ReturnType<typeof mock>).mock.calls[0] as any[];
+      expect(params.tools.map((tool: { name: string }) => tool.name)).toEqual(['SEND_TOKENS']);
+      expect(params.tools[0].parameters.required).toEqual(['recipient', 'amount']);
+      expect(params.toolChoice).toBe('auto');
+
+      expect(result.mode).toBe('actions');
+      expect(result.responseContent?.actions).toEqual(['SEND_TOKENS']);
+      expect(result.responseContent?.actionParameters).toEqual([{ recipient: 'alice', amount: 5 }]);
+      expect(mockCallback).toHaveBeenCalledWith(
+        expect.objectContaining({ text: 'Sending now.', actions: ['REPLY'] })
+      );
+      expect(mockRuntime.processActions).toHaveBeenCalled();
+    });
+
+    it('should reply with the text when the model calls no tools', async () => {
+      mockRuntime.useModel = mock(async () => ({ text: 'Hi there!', toolCalls: [] })) as any;
+
+      const result = await messageService.handleMessage(
+        mockRuntime as IAgentRuntime,
+        message,
+        mockCallback,
+        { useToolCalling: true }
+      );
+
+      expect(result.mode).toBe('simple');
+      expect(result.responseContent?.actions).toEqual(['REPLY']);
+      expect(mockCallback).toHaveBeenCalledWith(expect.objectContaining({ text: 'Hi there!' }));
+      expect(mockRuntime.processActions).not.toHaveBeenCalled();
+    });
+  });
+
   describe('provider timeout', () => {
     it('should use default timeout of 1000ms when PROVIDERS_TOTAL_TIMEOUT_MS is not set', () => {
       const getSetting = mockRuntime.getSetting as ReturnType<typeof mock>;
@@ -0,0 +1,224 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { AgentRuntime } from '../runtime';
+import { ModelType, type ModelBudgetConfig } from '../types/model';
+import { EventType, type ModelBudgetEventPayload } from '../types/events';
+import type { Character, ModelUsageRollup } from '../types';
+import { stringToUuid } from '../utils';
+import {
+  ModelBudgetExceededError,
+  ModelBudgetTracker,
+  getBudgetPeriodStart,
+  parseModelBudgets,
+} from '../utils/model-budget';
+import { createMockAdapter } from './test-helpers';
+
+function createRuntime(budgets: ModelBudgetConfig, ledger: ModelUsageRollup[] = []) {
+  const character: Character = {
+    id: stringToUuid('test-budget'),
+    name: 'BudgetBot',
+    bio: 'A bot for testing model budgets',
+    settings: {
+      MODEL_BUDGETS: budgets,
+      MODEL_PRICING: JSON.stringify({ openrouter: { prompt: 1, completion: 2 } }),
+    },
+  };
+  const getModelUsageRollup = mock(async () => ledger);
+  const runtime = new AgentRuntime({
+    agentId: stringToUuid('test-budget-agent'),
+    character,
+    adapter: createMockAdapter({ getModelUsageRollup }),
+  });
+
+  // Handlers report their usage like model plugins do
+  for (const modelType of [ModelType.TEXT_LARGE, ModelType.TEXT_SMALL]) {
+    runtime.registerModel(
+      modelType,
+      async (rt) => {
+        await rt.emitEvent(EventType.MODEL_USED, {
+          provider: 'openrouter',
+          type: modelType,
+          prompt: 'prompt',
+          tokens: { prompt: 60, completion: 40, total: 100 },
+        });
+        return modelType;
+      },
+      'openrouter'
+    );
+  }
+
+  const budgetEvents: { event: string; payload: ModelBudgetEventPayload }[] = [];
+  for (const event of [EventType.MODEL_BUDGET_WARNING, EventType.MODEL_BUDGET_EXCEEDED]) {
+    runtime.registerEvent(event, async (payload: ModelBudgetEventPayload) => {
+      budgetEvents.push({ event, payload });
+    });
+  }
+
+  return { runtime, budgetEvents, getModelUsageRollup };
+}
+
+describe('parseModelBudgets', () => {
+  it('parses JSON and drops entries without valid limits', () => {
+    const budgets = parseModelBudgets(
+      JSON.stringify({
+        TEXT_LARGE: {
+          daily: { tokens: { soft: 1000, hard: 2000 }, cost: { hard: -1 } },
+          onHardLimit: 'reject',
+        },
+        TEXT_SMALL: { daily: { tokens: { hard: 'lots' } } },
+      })
+    );
+
+    expect(budgets).toEqual({
+      TEXT_LARGE: {
+        daily: { tokens: { soft: 1000, hard: 2000 } },
+        monthly: undefined,
+        onHardLimit: 'reject',
+      },
+    });
+    expect(parseModelBudgets('not json')).toEqual({});
+  });
+});
+
+describe('ModelBudgetTracker', () => {
+  const budget = { daily: { tokens: { soft: 50, hard: 100 } } };
+
+  it('seeds the first window from the ledger and resets on the next day', async () => {
+    const now = Date.UTC(2026, 9, 19, 12);
+    const loadUsage = mock(async () => [
+      {
+        key: 'TEXT_LARGE',
+        calls: 1,
+        promptTokens: 80,
+        completionTokens: 20,
+        totalTokens: 100,
+        estimatedCost: 0,
+      },
+    ]);
+    const tracker = new ModelBudgetTracker(loadUsage);
+
+    await tracker.sync(now);
+    expect(loadUsage).toHaveBeenCalledWith(getBudgetPeriodStart('daily', now));
+    expect(loadUsage).toHaveBeenCalledWith(Date.UTC(2026, 9, 1));
+    expect(tracker.getExceeded('TEXT_LARGE', budget)?.used).toBe(100);
+
+    await tracker.sync(now + 24 * 60 * 60 * 1000);
+    expect(tracker.getExceeded('TEXT_LARGE', budget)).toBeUndefined();
+    expect(loadUsage).toHaveBeenCalledTimes(2);
+  });
+
+  it('seeds the window again on the next sync when loading the ledger fails', async () => {
+    const now = Date.UTC(2026, 9, 19, 12);
+    const loadUsage = mock(async () => [
+      {
+        key: 'TEXT_LARGE',
+        calls: 1,
+        promptTokens: 80,
+        completionTokens: 20,
+        totalTokens: 100,
+        estimatedCost: 0,
+      },
+    ]);
+    loadUsage.mockRejectedValueOnce(new Error('database unavailable'));
+    const tracker = new ModelBudgetTracker(loadUsage);
+
+    await expect(tracker.sync(now)).rejects.toThrow('database unavailable');
+    await tracker.sync(now);
+
+    expect(tracker.getExceeded('TEXT_LARGE', budget)?.used).toBe(100);
+  });
+
+  it('reports each soft limit once per window', async () => {
+    const tracker = new ModelBudgetTracker(async () => []);
+    await tracker.sync();
+
+    tracker.record('TEXT_LARGE', { tokens: 60, cost: 0 });
+    expect(tracker.takeWarnings('TEXT_LARGE', budget)).toHaveLength(1);
+    tracker.record('TEXT_LARGE', { tokens: 10, cost: 0 });
+    expect(tracker.takeWarnings('TEXT_LARGE', budget)).toHaveLength(0);
+  });
+});
+
+describe('useModel budgets', () => {
+  it('emits a warning once the soft limit is crossed', async () => {
+    const { runtime, budgetEvents } = createRuntime({
+      TEXT_LARGE: { daily: { tokens: { soft: 150, hard: 1000 } } },
+    });
+
+    await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'one' });
+    expect(budgetEvents).toHaveLength(0);
+
+    await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'two' });
+    await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'three' });
+    expect(budgetEvents).toHaveLength(1);
+    expect(budgetEvents[0].event).toBe(EventType.MODEL_BUDGET_WARNING);
+    expect(budgetEvents[0].payload).toMatchObject({
+      type: ModelType.TEXT_LARGE,
+      period: 'daily',
+      metric: 'tokens',
+      used: 200,
+      limit: 150,
+    });
+  });
+
+  it('falls back to the cheaper model at the hard limit', async () => {
+    const { runtime, budgetEvents } = createRuntime({
+      TEXT_LARGE: { monthly: { tokens: { hard: 100 } } },
+    });
+
+    expect(await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'one' })).toBe(
+      ModelType.TEXT_LARGE
+    );
+    expect(await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'two' })).toBe(
+      ModelType.TEXT_SMALL
+    );
+    expect(budgetEvents[0].payload).toMatchObject({
+      action: 'fallback',
+      fallbackModel: ModelType.TEXT_SMALL,
+    });
+  });
+
+  it('rejects calls with a typed error when configured to', async () => {
+    const { runtime, budgetEvents } = createRuntime(
+      { TEXT_LARGE: { daily: { cost: { hard: 0.0001 } }, onHardLimit: 'reject' } },
+      [
+        {
+          key: ModelType.TEXT_LARGE,
+          calls: 3,
+          promptTokens: 900,
+          completionTokens: 100,
+          totalTokens: 1000,
+          estimatedCost: 0.5,
+        },
+      ]
+    );
+
+    const error = await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'one' }).catch((e) => e);
+    expect(ModelBudgetExceededError.isModelBudgetExceededError(error)).toBe(true);
+    expect(error).toMatchObject({
+      modelType: ModelType.TEXT_LARGE,
+      period: 'daily',
+      metric: 'cost',
+    });
+    expect(budgetEvents[0].payload.action).toBe('reject');
+  });
+
+  it('counts estimated spend from the price table', async () => {
+    const { runtime } = createRuntime({
+      TEXT_LARGE: { daily: { cost: { hard: 0.0002 } }, onHardLimit: 'reject' },
+    });
+
+    // 60 prompt tokens at $1/M plus 40 completion tokens at $2/M is $0.00014 per call
+    await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'one' });
+    await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'two' });
+    await expect(runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'three' })).rejects.toThrow(
+      ModelBudgetExceededError
+    );
+  });
+
+  it('leaves model types without a budget untouched', async () => {
+    const { runtime, getModelUsageRollup } = createRuntime({});
+
+    await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'one' });
+    expect(getModelUsageRollup).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { AgentRuntime } from '../runtime';
+import { ModelType } from '../types/model';
+import { EventType, type ModelEventPayload } from '../types/events';
+import type { Character } from '../types';
+import { stringToUuid } from '../utils';
+import { getModelCacheKey, normalizeModelParams } from '../utils/model-cache';
+import {
+  runWithStreamingContext,
+  setStreamingContextManager,
+  getStreamingContextManager,
+  type IContextManager,
+  type IStreamingContextManager,
+} from '../streaming-context';
+import {
+  AsyncLocalStorageContextManager,
+  createNodeStreamingContextManager,
+} from '../streaming-context.node';
+import {
+  getModelCallContextManager,
+  setModelCallContextManager,
+  type ModelCallContext,
+} from '../model-call-context';
+import { createMockAdapter } from './test-helpers';
+
+describe('model cache keys', () => {
+  it('ignore per-call options and key order', async () => {
+    const a = await getModelCacheKey(ModelType.OBJECT_SMALL, 'openai', {
+      prompt: 'extract',
+      temperature: 0,
+      user: 'Alice',
+      stream: false,
+    });
+    const b = await getModelCacheKey(ModelType.OBJECT_SMALL, 'openai', {
+      temperature: 0,
+      prompt: 'extract',
+    });
+    const c = await getModelCacheKey(ModelType.OBJECT_SMALL, 'anthropic', {
+      temperature: 0,
+      prompt: 'extract',
+    });
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+    expect(normalizeModelParams({ b: { y: 1, x: undefined }, a: 1 })).toEqual({
+      a: 1,
+      b: { y: 1 },
+    });
+  });
+});
+
+describe('useModel response cache', () => {
+  let runtime: AgentRuntime;
+  let store: Map<string, unknown>;
+  let handler: ReturnType<typeof mock>;
+  let modelEvents: ModelEventPayload[];
+  let originalManager: IStreamingContextManager;
+  let originalModelCallManager: IContextManager<ModelCallContext>;
+
+  beforeEach(() => {
+    originalManager = getStreamingContextManager();
+    originalModelCallManager = getModelCallContextManager();
+    setStreamingContextManager(createNodeStreamingContextManager());
+    setModelCallContextManager(new AsyncLocalStorageContextManager<ModelCallContext>());
+
+    store = new Map();
+    const character: Character = {
+      id: stringToUuid('test-cache'),
+      name: 'CacheBot',
+      bio: 'A bot for testing the model cache',
+      settings: { TEXT_SMALL_CACHE: true, TEXT_SMALL_CACHE_TTL_MS: 60_000 },
+    };
+    runtime = new AgentRuntime({
+      agentId: stringToUuid('test-cache-agent'),
+      character,
+      adapter: createMockAdapter({
+        getCache: mock(async (key: string) => store.get(key)) as any,
+        setCache: mock(async (key: string, value: unknown) => {
+          store.set(key, value);
+          return true;
+        }) as any,
+        deleteCache: mock(async (key: string) => store.delete(key)),
+      }),
+    });
+
+    handler = mock(async (rt: AgentRuntime, params: Record<string, unknown>) => {
+      await rt.emitEvent(EventType.MODEL_USED, {
+        provider: 'openai',
+        type: ModelType.TEXT_SMALL,
+        prompt: params.prompt,
+        tokens: { prompt: 10, completion: 5, total: 15 },
+      });
+      return `answer to ${params.prompt}`;
+    });
+    runtime.registerModel(ModelType.TEXT_SMALL, handler as any, 'openai');
+    runtime.registerModel(ModelType.TEXT_LARGE, handler as any, 'openai');
+
+    modelEvents = [];
+    runtime.registerEvent(EventType.MODEL_USED, async (payload: ModelEventPayload) => {
+      modelEvents.push(payload);
+    });
+  });
+
+  afterEach(() => {
+    setStreamingContextManager(originalManager);
+    setModelCallContextManager(originalModelCallManager);
+  });
+
+  it('answers repeated deterministic calls from the cache', async () => {
+    const params = { prompt: 'should I respond?', temperature: 0 };
+
+    expect(await runtime.useModel(ModelType.TEXT_SMALL, params)).toBe(
+      'answer to should I respond?'
+    );
+    expect(await runtime.useModel(ModelType.TEXT_SMALL, { ...params })).toBe(
+      'answer to should I respond?'
+    );
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(modelEvents.map((event) => event.cache)).toEqual([
+      { hit: false, hits: 0, misses: 1 },
+      { hit: true, hits: 1, misses: 1 },
+    ]);
+    expect(modelEvents[1].provider).toBe('openai');
+    expect(modelEvents[1].tokens).toBeUndefined();
+  });
+
+  it('ignores expired entries', async () => {
+    const params = { prompt: 'reflect', temperature: 0 };
+    await runtime.useModel(ModelType.TEXT_SMALL, params);
+
+    for (const [key, entry] of store) {
+      store.set(key, { ...(entry as object), expiresAt: Date.now() - 1 });
+    }
+    await runtime.useModel(ModelType.TEXT_SMALL, { ...params });
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(runtime.adapter.deleteCache).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips model types without caching and non-deterministic calls', async () => {
+    await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'hello', temperature: 0 });
+    await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'hello', temperature: 0 });
+    await runtime.useModel(ModelType.TEXT_SMALL, { prompt: 'hello', temperature: 0.7 });
+    await runtime.useModel(ModelType.TEXT_SMALL, { prompt: 'hello', temperature: 0.7 });
+
+    expect(handler).toHaveBeenCalledTimes(4);
+    expect(store.size).toBe(0);
+    expect(modelEvents.every((event) => event.cache === undefined)).toBe(true);
+  });
+
+  it('skips the cache while a streaming context is active', async () => {
+    const params = { prompt: 'stream me', temperature: 0 };
+    await runtime.useModel(ModelType.TEXT_SMALL, params);
+
+    await runWithStreamingContext({ onStreamChunk: async () => {} }, () =>
+      runtime.useModel(ModelType.TEXT_SMALL, { ...params })
+    );
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports the cache outcome of each call when calls overlap', async () => {
+    const delays: Record<string, number> = { slow: 30, fast: 0 };
+    handler.mockImplementation(async (rt: AgentRuntime, params: Record<string, unknown>) => {
+      await new Promise((resolve) => setTimeout(resolve, delays[params.prompt as string]));
+      await rt.emitEvent(EventType.MODEL_USED, {
+        provider: 'openai',
+        type: ModelType.TEXT_SMALL,
+        prompt: params.prompt,
+      });
+      return params.prompt;
+    });
+
+    await Promise.all([
+      runtime.useModel(ModelType.TEXT_SMALL, { prompt: 'slow', temperature: 0 }),
+      runtime.useModel(ModelType.TEXT_SMALL, { prompt: 'fast', temperature: 0 }),
+    ]);
+
+    expect(modelEvents.map((event) => event.prompt)).toEqual(['fast', 'slow']);
+    const misses = modelEvents.map((event) => event.cache?.misses).sort();
+    expect(misses).toEqual([1, 2]);
+    expect(modelEvents.every((event) => event.cache?.hit === false)).toBe(true);
+  });
+});
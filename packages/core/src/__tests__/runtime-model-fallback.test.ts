@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { AgentRuntime } from '../runtime';
+import { ModelType } from '../types/model';
+import { EventType, type ModelEventPayload } from '../types/events';
+import type { Character } from '../types';
+import { stringToUuid } from '../utils';
+import { CircuitBreaker, ModelUnavailableError } from '../utils/model-fallback';
+import {
+  getModelCallContextManager,
+  setModelCallContextManager,
+  type ModelCallContext,
+} from '../model-call-context';
+import type { IContextManager } from '../streaming-context';
+import { AsyncLocalStorageContextManager } from '../streaming-context.node';
+import { createMockAdapter } from './test-helpers';
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and probes once the reset timeout passes', () => {
+    const circuit = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 });
+
+    circuit.recordFailure(0);
+    expect(circuit.getState(0)).toBe('closed');
+    circuit.recordFailure(0);
+    expect(circuit.canAttempt(500)).toBe(false);
+
+    expect(circuit.canAttempt(1000)).toBe(true);
+    expect(circuit.getState(1000)).toBe('half_open');
+    expect(circuit.canAttempt(1000)).toBe(false);
+
+    circuit.recordFailure(1000);
+    expect(circuit.getState(1500)).toBe('open');
+    expect(circuit.canAttempt(2000)).toBe(true);
+    circuit.recordSuccess();
+    expect(circuit.getState(2000)).toBe('closed');
+  });
+});
+
+describe('useModel provider fallback', () => {
+  let runtime: AgentRuntime;
+  let modelEvents: ModelEventPayload[];
+  let originalManager: IContextManager<ModelCallContext>;
+
+  const character: Character = {
+    id: stringToUuid('test-fallback'),
+    name: 'FallbackBot',
+    bio: 'A bot for testing model fallbacks',
+    settings: { MODEL_CIRCUIT_FAILURE_THRESHOLD: 2, MODEL_TIMEOUT_MS: 50 },
+  };
+
+  const reportingHandler = (provider: string) =>
+    mock(async (rt: AgentRuntime) => {
+      await rt.emitEvent(EventType.MODEL_USED, {
+        provider,
+        type: ModelType.TEXT_LARGE,
+        prompt: 'prompt',
+      });
+      return provider;
+    });
+
+  beforeEach(() => {
+    originalManager = getModelCallContextManager();
+    setModelCallContextManager(new AsyncLocalStorageContextManager<ModelCallContext>());
+
+    runtime = new AgentRuntime({
+      agentId: stringToUuid('test-fallback-agent'),
+      character,
+      adapter: createMockAdapter(),
+    });
+    modelEvents = [];
+    runtime.registerEvent(EventType.MODEL_USED, async (payload: ModelEventPayload) => {
+      modelEvents.push(payload);
+    });
+  });
+
+  afterEach(() => {
+    setModelCallContextManager(originalManager);
+  });
+
+  it('tries the next provider and records the fallback on MODEL_USED', async () => {
+    runtime.registerModel(
+      ModelType.TEXT_LARGE,
+      async () => {
+        throw new Error('503 Service Unavailable');
+      },
+      'primary',
+      10
+    );
+    runtime.registerModel(ModelType.TEXT_LARGE, reportingHandler('secondary'), 'secondary', 0);
+
+    const result = await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'hello' });
+
+    expect(result).toBe('secondary');
+    expect(modelEvents).toHaveLength(1);
+    expect(modelEvents[0].provider).toBe('secondary');
+    expect(modelEvents[0].fallbacks).toEqual([
+      { provider: 'primary', reason: 'error', error: '503 Service Unavailable' },
+    ]);
+    expect(runtime.adapter.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({
+          provider: 'secondary',
+          fallbacks: [expect.objectContaining({ provider: 'primary' })],
+        }),
+      })
+    );
+  });
+
+  it('skips a provider whose circuit is open', async () => {
+    const primary = mock(async () => {
+      throw new Error('down');
+    });
+    runtime.registerModel(ModelType.TEXT_LARGE, primary, 'primary', 10);
+    runtime.registerModel(ModelType.TEXT_LARGE, reportingHandler('secondary'), 'secondary', 0);
+
+    await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'one' });
+    await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'two' });
+    await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'three' });
+
+    expect(primary).toHaveBeenCalledTimes(2);
+    expect(modelEvents[2].fallbacks).toEqual([{ provider: 'primary', reason: 'circuit_open' }]);
+  });
+
+  it('times out slow providers', async () => {
+    runtime.registerModel(
+      ModelType.TEXT_LARGE,
+      () => new Promise((resolve) => setTimeout(() => resolve('late'), 500)),
+      'slow',
+      10
+    );
+    runtime.registerModel(ModelType.TEXT_LARGE, reportingHandler('fast'), 'fast', 0);
+
+    expect(await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'hello' })).toBe('fast');
+    expect(modelEvents[0].fallbacks?.[0]).toMatchObject({ provider: 'slow', reason: 'timeout' });
+  });
+
+  it('throws ModelUnavailableError when every provider fails', async () => {
+    for (const provider of ['primary', 'secondary']) {
+      runtime.registerModel(
+        ModelType.TEXT_LARGE,
+        async () => {
+          throw new Error(`${provider} down`);
+        },
+        provider
+      );
+    }
+
+    const error = await runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'hello' }).catch((e) => e);
+    expect(ModelUnavailableError.isModelUnavailableError(error)).toBe(true);
+    expect(error.attempts.map((attempt: { provider: string }) => attempt.provider)).toEqual([
+      'primary',
+      'secondary',
+    ]);
+  });
+
+  it('keeps the original error for a single provider and does not fall back from a pinned one', async () => {
+    runtime.registerModel(
+      ModelType.TEXT_LARGE,
+      async () => {
+        throw new Error('pinned failure');
+      },
+      'pinned',
+      10
+    );
+    const other = reportingHandler('other');
+    runtime.registerModel(ModelType.TEXT_LARGE, other, 'other', 0);
+
+    await expect(
+      runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'hello' }, 'pinned')
+    ).rejects.toThrow('pinned failure');
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('records fallbacks on the event of the call that fell back when calls overlap', async () => {
+    runtime.registerModel(
+      ModelType.TEXT_LARGE,
+      async (rt: AgentRuntime, params: Record<string, unknown>) => {
+        if (params.prompt === 'flaky') {
+          throw new Error('flaky');
+        }
+        await rt.emitEvent(EventType.MODEL_USED, {
+          provider: 'primary',
+          type: ModelType.TEXT_LARGE,
+          prompt: params.prompt,
+        });
+        return 'primary';
+      },
+      'primary',
+      10
+    );
+    runtime.registerModel(
+      ModelType.TEXT_LARGE,
+      async (rt: AgentRuntime, params: Record<string, unknown>) => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        await rt.emitEvent(EventType.MODEL_USED, {
+          provider: 'secondary',
+          type: ModelType.TEXT_LARGE,
+          prompt: params.prompt,
+        });
+        return 'secondary';
+      },
+      'secondary',
+      0
+    );
+
+    await Promise.all([
+      runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'flaky' }),
+      runtime.useModel(ModelType.TEXT_LARGE, { prompt: 'steady' }),
+    ]);
+
+    const byPrompt = new Map(modelEvents.map((event) => [event.prompt, event]));
+    expect(byPrompt.get('flaky')?.fallbacks).toEqual([
+      { provider: 'primary', reason: 'error', error: 'flaky' },
+    ]);
+    expect(byPrompt.get('steady')?.provider).toBe('primary');
+    expect(byPrompt.get('steady')?.fallbacks).toBeUndefined();
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { AgentRuntime } from '../runtime';
+import {
+  getMessageHandlingContextManager,
+  setMessageHandlingContextManager,
+  type MessageHandlingContext,
+} from '../message-handling-context';
+import type { IContextManager } from '../streaming-context';
+import { AsyncLocalStorageContextManager } from '../streaming-context.node';
+import type { Action, Plugin, Provider, UUID } from '../types';
+import { Service } from '../types/service';
+import { IAgentRuntime } from '../types/runtime';
+import { AgentReloadError } from '../utils/agent-reload';
+import { v4 as uuidv4 } from 'uuid';
+
+let stoppedServices: string[] = [];
+
+class WeatherService extends Service {
+  static override readonly serviceType = 'weather';
+  readonly capabilityDescription = 'Mock weather service';
+
+  static async start(runtime: IAgentRuntime): Promise<WeatherService> {
+    return new WeatherService(runtime);
+  }
+
+  async stop(): Promise<void> {
+    stoppedServices.push('weather');
+  }
+}
+
+class BrokenService extends Service {
+  static override readonly serviceType = 'broken';
+  readonly capabilityDescription = 'Mock service that fails to start';
+
+  static async start(): Promise<BrokenService> {
+    throw new Error('no credentials');
+  }
+
+  async stop(): Promise<void> {}
+}
+
+const weatherAction: Action = {
+  name: 'GET_WEATHER',
+  description: 'Gets the weather',
+  similes: [],
+  examples: [],
+  validate: async () => true,
+  handler: async () => undefined,
+};
+
+const weatherProvider: Provider = {
+  name: 'WEATHER',
+  get: async () => ({ text: 'Sunny' }),
+};
+
+const weatherEvent = async () => {};
+
+const weatherPlugin: Plugin = {
+  name: 'weather',
+  description: 'Weather plugin',
+  actions: [weatherAction],
+  providers: [weatherProvider],
+  services: [WeatherService],
+  models: { TEXT_SMALL: async () => 'sunny' },
+  routes: [{ type: 'GET', path: '/forecast', handler: async () => {} }],
+  events: { MESSAGE_RECEIVED: [weatherEvent] },
+  templates: [{ name: 'forecastTemplate', template: 'Forecast for {{location}}' }],
+};
+
+const brokenPlugin: Plugin = {
+  name: 'broken',
+  description: 'Plugin whose service fails to start',
+  actions: [{ ...weatherAction, name: 'BROKEN' }],
+  services: [BrokenService],
+};
+
+describe('AgentRuntime reload', () => {
+  let runtime: AgentRuntime;
+  let originalManager: IContextManager<MessageHandlingContext>;
+
+  beforeEach(() => {
+    originalManager = getMessageHandlingContextManager();
+    setMessageHandlingContextManager(new AsyncLocalStorageContextManager<MessageHandlingContext>());
+    stoppedServices = [];
+    runtime = new AgentRuntime({
+      agentId: uuidv4() as UUID,
+      character: { name: 'Test Agent', bio: 'Before', plugins: [] },
+    });
+    // Resolve initPromise directly since these tests don't require DB setup
+    const resolver = (runtime as AgentRuntime & { initResolver?: (() => void) | undefined })
+      .initResolver;
+    if (resolver) {
+      resolver();
+    }
+  });
+
+  afterEach(() => {
+    setMessageHandlingContextManager(originalManager);
+  });
+
+  it('should register added plugins and apply the character', async () => {
+    const result = await runtime.reload({
+      character: { name: 'Test Agent', bio: 'After', plugins: ['weather'] },
+      addPlugins: [weatherPlugin],
+    });
+
+    expect(result).toEqual({ addedPlugins: ['weather'], removedPlugins: [] });
+    expect(runtime.character.bio).toBe('After');
+    expect(runtime.actions).toContain(weatherAction);
+    expect(runtime.hasService('weather')).toBe(true);
+    expect(runtime.routes.map((route) => route.path)).toEqual(['/weather/forecast']);
+  });
+
+  it('should keep character fields the new character does not set', async () => {
+    runtime.character.system = 'Be brief';
+
+    await runtime.reload({ character: { name: 'Test Agent', bio: 'After' } });
+
+    expect(runtime.character).toMatchObject({ bio: 'After', system: 'Be brief', plugins: [] });
+  });
+
+  it('should unregister removed plugins and stop their services', async () => {
+    await runtime.reload({ addPlugins: [weatherPlugin] });
+
+    const result = await runtime.reload({ removePlugins: ['weather'] });
+
+    expect(result).toEqual({ addedPlugins: [], removedPlugins: ['weather'] });
+    expect(stoppedServices).toEqual(['weather']);
+    expect(runtime.plugins).toHaveLength(0);
+    expect(runtime.actions).not.toContain(weatherAction);
+    expect(runtime.providers).not.toContain(weatherProvider);
+    expect(runtime.hasService('weather')).toBe(false);
+    expect(runtime.getModel('TEXT_SMALL')).toBeUndefined();
+    expect(runtime.routes).toHaveLength(0);
+    expect(runtime.getEvent('MESSAGE_RECEIVED')).toEqual([]);
+    expect(runtime.getPromptTemplates().map((template) => template.name)).not.toContain(
+      'forecastTemplate'
+    );
+  });
+
+  it('should keep the previous configuration when an added plugin fails', async () => {
+    await expect(
+      runtime.reload({
+        character: { name: 'Test Agent', bio: 'After', plugins: ['broken'] },
+        addPlugins: [brokenPlugin],
+      })
+    ).rejects.toThrow(AgentReloadError);
+
+    expect(runtime.character.bio).toBe('Before');
+    expect(runtime.character.plugins).toEqual([]);
+    expect(runtime.plugins).toHaveLength(0);
+    expect(runtime.actions).toHaveLength(0);
+  });
+
+  it('should wait for in-flight messages and hold back new ones', async () => {
+    const order: string[] = [];
+    let finishMessage!: () => void;
+    const inFlight = runtime.trackMessage(
+      () =>
+        new Promise<void>((resolve) => {
+          finishMessage = () => {
+            order.push('message');
+            resolve();
+          };
+        })
+    );
+
+    const reload = runtime
+      .reload({ character: { name: 'Test Agent', bio: 'After' } })
+      .then(() => order.push('reload'));
+    const next = runtime.trackMessage(async () => {
+      order.push(`next saw ${runtime.character.bio}`);
+    });
+
+    await Bun.sleep(10);
+    expect(order).toEqual([]);
+
+    finishMessage();
+    await Promise.all([inFlight, reload, next]);
+
+    expect(order).toEqual(['message', 'reload', 'next saw After']);
+  });
+
+  it('should give up when messages do not finish in time', async () => {
+    let finishMessage!: () => void;
+    const inFlight = runtime.trackMessage(
+      () => new Promise<void>((resolve) => (finishMessage = resolve))
+    );
+
+    await expect(
+      runtime.reload({ character: { name: 'Test Agent', bio: 'After' }, drainTimeoutMs: 10 })
+    ).rejects.toThrow(AgentReloadError);
+    expect(runtime.character.bio).toBe('Before');
+
+    finishMessage();
+    await inFlight;
+  });
+
+  it('should defer a reload requested by one of its own message handlers', async () => {
+    const result = await runtime.trackMessage(async () => {
+      const deferred = await runtime.reload({ character: { name: 'Test Agent', bio: 'After' } });
+      expect(runtime.character.bio).toBe('Before');
+      return deferred;
+    });
+
+    expect(result).toEqual({ addedPlugins: [], removedPlugins: [], deferred: true });
+    await Bun.sleep(10);
+    expect(runtime.character.bio).toBe('After');
+  });
+});
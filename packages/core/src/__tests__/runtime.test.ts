@@ -506,7 +506,82 @@ describe('AgentRuntime (Non-Instrumented Baseline)', () => {
       expect(state.text).toBe('p1_text');
     });
 
-    // Add tests for includeList, caching behavior
+    it('should report state cache metrics apart from service health', async () => {
+      runtime.registerProvider({ name: 'P1', get: mock().mockResolvedValue({ text: 'p1_text' }) });
+
+      const message = createMockMemory('test message', undefined, undefined, undefined, agentId);
+      await runtime.composeState(message);
+      await runtime.composeState(message, ['P1']);
+
+      expect(runtime.getStateCacheMetrics()).toMatchObject({ hits: 1, misses: 1, entries: 1 });
+      expect(runtime.getServiceHealth()).not.toHaveProperty('stateCache');
+    });
+
+    it('should reuse cached provider results within a room and sender', async () => {
+      const providerGet = mock().mockResolvedValue({ text: 'world_text' });
+      runtime.registerProvider({ name: 'WORLD', cacheTtlMs: 60_000, get: providerGet });
+
+      const roomId = stringToUuid(uuidv4());
+      const entityId = stringToUuid(uuidv4());
+      const first = createMockMemory('first', undefined, entityId, roomId, agentId);
+      const second = createMockMemory('second', undefined, entityId, roomId, agentId);
+      const otherSender = createMockMemory('other', undefined, undefined, roomId, agentId);
+      const otherRoom = createMockMemory('other', undefined, entityId, undefined, agentId);
+
+      await runtime.composeState(first);
+      const state = await runtime.composeState(second);
+      await runtime.composeState(otherSender);
+      await runtime.composeState(otherRoom);
+
+      expect(providerGet).toHaveBeenCalledTimes(3);
+      expect(state.text).toBe('world_text');
+    });
+
+    it('should only log provider timings when a provider ran', async () => {
+      runtime.registerProvider({
+        name: 'WORLD',
+        cacheTtlMs: 60_000,
+        get: mock().mockResolvedValue({ text: 'world_text' }),
+      });
+
+      const roomId = stringToUuid(uuidv4());
+      const entityId = stringToUuid(uuidv4());
+      await runtime.composeState(createMockMemory('first', undefined, entityId, roomId, agentId));
+      await runtime.composeState(createMockMemory('second', undefined, entityId, roomId, agentId));
+
+      const providerLogs = (mockDatabaseAdapter.log as ReturnType<typeof mock>).mock.calls.filter(
+        ([entry]) => entry.type === 'providers'
+      );
+      expect(providerLogs).toHaveLength(1);
+    });
+
+    it('should leave out providers that exceed their timeout', async () => {
+      const slowGet = mock(
+        () => new Promise((resolve) => setTimeout(() => resolve({ text: 'slow_text' }), 200))
+      );
+      const fastGet = mock().mockResolvedValue({ text: 'fast_text' });
+      runtime.registerProvider({ name: 'SLOW', timeoutMs: 10, get: slowGet });
+      runtime.registerProvider({ name: 'FAST', get: fastGet });
+
+      const message = createMockMemory('test message', undefined, undefined, undefined, agentId);
+      const state = await runtime.composeState(message);
+
+      expect(state.text).toBe('fast_text');
+      expect(mockDatabaseAdapter.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'providers',
+          body: expect.objectContaining({
+            messageId: message.id,
+            providers: expect.arrayContaining([
+              expect.objectContaining({ provider: 'SLOW', timedOut: true, cached: false }),
+              expect.objectContaining({ provider: 'FAST', timedOut: false }),
+            ]),
+          }),
+        })
+      );
+    });
+
+    // Add tests for includeList
   });
 
   describe('Model Usage', () => {
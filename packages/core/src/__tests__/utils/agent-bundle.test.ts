@@ -0,0 +1,258 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { createUniqueUuid } from '../../entities';
+import { decryptObjectValues, getSalt } from '../../settings';
+import type { Agent } from '../../types/agent';
+import type { Memory } from '../../types/memory';
+import type { UUID } from '../../types/primitives';
+import type { IAgentRuntime } from '../../types/runtime';
+import {
+  AGENT_BUNDLE_FORMAT,
+  AGENT_BUNDLE_VERSION,
+  AgentBundleError,
+  exportAgentBundle,
+  getAgentFromBundle,
+  importAgentBundle,
+  remapAgentBundle,
+  validateAgentBundle,
+  type AgentBundle,
+} from '../../utils/agent-bundle';
+
+const AGENT_ID = '00000000-0000-0000-0000-00000000000a' as UUID;
+const NEW_AGENT_ID = '00000000-0000-0000-0000-00000000000b' as UUID;
+const ROOM_ID = '00000000-0000-0000-0000-000000000001' as UUID;
+const USER_ID = '00000000-0000-0000-0000-000000000002' as UUID;
+const MESSAGE_ID = '00000000-0000-0000-0000-000000000003' as UUID;
+const REPLY_ID = '00000000-0000-0000-0000-000000000004' as UUID;
+
+function makeBundle(overrides: Partial<AgentBundle> = {}): AgentBundle {
+  return {
+    format: AGENT_BUNDLE_FORMAT,
+    version: AGENT_BUNDLE_VERSION,
+    exportedAt: 0,
+    secrets: 'omit',
+    agent: { id: AGENT_ID, name: 'Test', bio: [], createdAt: 0, updatedAt: 0 },
+    worlds: [],
+    rooms: [{ id: ROOM_ID, source: 'test', type: 'DM' as never, agentId: AGENT_ID }],
+    participants: [{ roomId: ROOM_ID, entityIds: [AGENT_ID, USER_ID] }],
+    entities: [{ id: USER_ID, names: ['user'], agentId: AGENT_ID, components: [] }],
+    relationships: [],
+    memories: {
+      messages: [
+        {
+          id: MESSAGE_ID,
+          entityId: USER_ID,
+          agentId: AGENT_ID,
+          roomId: ROOM_ID,
+          content: { text: 'hello' },
+          embedding: [0.1, 0.2],
+        },
+        {
+          id: REPLY_ID,
+          entityId: AGENT_ID,
+          agentId: AGENT_ID,
+          roomId: ROOM_ID,
+          content: { text: 'hi', inReplyTo: MESSAGE_ID },
+        },
+      ],
+    },
+    tasks: [],
+    cache: [{ key: `${ROOM_ID}:state`, value: { roomId: ROOM_ID } }],
+    ...overrides,
+  };
+}
+
+describe('agent bundle', () => {
+  describe('validateAgentBundle', () => {
+    it('accepts a bundle and rejects other input', () => {
+      const bundle = makeBundle();
+      expect(validateAgentBundle(JSON.parse(JSON.stringify(bundle)))).toEqual(bundle);
+
+      expect(() => validateAgentBundle({ agent: {} })).toThrow(AgentBundleError);
+      expect(() => validateAgentBundle({ ...bundle, version: AGENT_BUNDLE_VERSION + 1 })).toThrow(
+        'Unsupported agent bundle version'
+      );
+      expect(() => validateAgentBundle({ ...bundle, memories: { messages: {} } })).toThrow(
+        AgentBundleError
+      );
+    });
+  });
+
+  describe('remapAgentBundle', () => {
+    it('maps every ID of the bundle, including references and cache keys', () => {
+      const runtime = { agentId: NEW_AGENT_ID } as IAgentRuntime;
+      const remapped = remapAgentBundle(makeBundle(), runtime);
+      const newRoomId = createUniqueUuid(runtime, ROOM_ID);
+      const newMessageId = createUniqueUuid(runtime, MESSAGE_ID);
+
+      expect(remapped.agent.id).toBe(NEW_AGENT_ID);
+      expect(remapped.rooms[0].id).toBe(newRoomId);
+      expect(remapped.participants[0].entityIds).toEqual([
+        NEW_AGENT_ID,
+        createUniqueUuid(runtime, USER_ID),
+      ]);
+      const [message, reply] = remapped.memories.messages;
+      expect(message.id).toBe(newMessageId);
+      expect(message.embedding).toEqual([0.1, 0.2]);
+      expect(reply.entityId).toBe(NEW_AGENT_ID);
+      expect(reply.content.inReplyTo).toBe(newMessageId);
+      expect(remapped.cache).toEqual([{ key: `${newRoomId}:state`, value: { roomId: newRoomId } }]);
+    });
+  });
+
+  describe('getAgentFromBundle', () => {
+    it('encrypts plain text secrets and keeps existing secrets when they were omitted', () => {
+      const bundle = makeBundle({
+        secrets: 'plaintext',
+        agent: {
+          ...makeBundle().agent,
+          settings: { secrets: { API_KEY: 'secret' } },
+        } as Agent,
+      });
+      const encrypted = getAgentFromBundle(bundle, NEW_AGENT_ID);
+      expect(encrypted.id).toBe(NEW_AGENT_ID);
+      const secrets = encrypted.settings?.secrets as Record<string, string>;
+      expect(secrets.API_KEY).not.toBe('secret');
+      expect(decryptObjectValues(secrets, getSalt())).toEqual({ API_KEY: 'secret' });
+
+      const existing = { settings: { secrets: { API_KEY: 'stored' } } };
+      const kept = getAgentFromBundle(makeBundle(), AGENT_ID, existing);
+      expect(kept.settings?.secrets).toEqual({ API_KEY: 'stored' });
+    });
+  });
+
+  describe('export and import', () => {
+    function makeRuntime(agentId: UUID, memories: Memory[] = []) {
+      const stored = new Map<UUID, { memory: Memory; tableName: string }>();
+      for (const memory of memories) {
+        stored.set(memory.id as UUID, { memory, tableName: 'messages' });
+      }
+      const cache = new Map<string, unknown>();
+      return {
+        agentId,
+        stored,
+        cache,
+        logger: { info: mock() },
+        getAgent: mock(async () => ({
+          id: agentId,
+          name: 'Test',
+          bio: [],
+          settings: { secrets: { API_KEY: 'encrypted' } },
+        })),
+        getAllWorlds: mock(async () => []),
+        getRoomsForParticipant: mock(async () => [ROOM_ID]),
+        getRoomsByIds: mock(async (ids: UUID[]) =>
+          ids.includes(ROOM_ID) ? [{ id: ROOM_ID, source: 'test', type: 'DM' }] : []
+        ),
+        getRoomsByWorld: mock(async () => []),
+        getParticipantsForRoom: mock(async () => [agentId, USER_ID]),
+        getMemories: mock(
+          async ({
+            tableName,
+            count,
+            offset = 0,
+          }: {
+            tableName: string;
+            count?: number;
+            offset?: number;
+          }) =>
+            Array.from(stored.values())
+              .filter((entry) => entry.tableName === tableName)
+              .map((entry) => entry.memory)
+              .slice(offset, count === undefined ? undefined : offset + count)
+        ),
+        getEntitiesByIds: mock(async (ids: UUID[]) =>
+          ids.map((id) => ({ id, names: [id], agentId }))
+        ),
+        getComponents: mock(async () => []),
+        getRelationships: mock(async () => []),
+        getTasks: mock(async () => []),
+        getCacheEntries: mock(async () =>
+          Array.from(cache.entries()).map(([key, value]) => ({ key, value }))
+        ),
+        getMemoriesByIds: mock(async (ids: UUID[]) =>
+          ids.filter((id) => stored.has(id)).map((id) => stored.get(id)?.memory)
+        ),
+        createMemory: mock(async (memory: Memory, tableName: string) => {
+          stored.set(memory.id as UUID, { memory, tableName });
+          return memory.id;
+        }),
+        createRooms: mock(async () => []),
+        updateRoom: mock(async () => {}),
+        createEntities: mock(async () => true),
+        updateEntity: mock(async () => {}),
+        addParticipantsRoom: mock(async () => true),
+        getCache: mock(async (key: string) => cache.get(key)),
+        setCache: mock(async (key: string, value: unknown) => {
+          cache.set(key, value);
+          return true;
+        }),
+      };
+    }
+
+    it('exports memories and omits secrets by default', async () => {
+      const runtime = makeRuntime(AGENT_ID, makeBundle().memories.messages);
+
+      const bundle = await exportAgentBundle(runtime as unknown as IAgentRuntime, {
+        tables: ['messages'],
+      });
+
+      expect(bundle.secrets).toBe('omit');
+      expect(bundle.agent.settings?.secrets).toBeUndefined();
+      expect(bundle.rooms.map((room) => room.id)).toEqual([ROOM_ID]);
+      expect(bundle.participants).toEqual([{ roomId: ROOM_ID, entityIds: [AGENT_ID, USER_ID] }]);
+      expect(bundle.memories.messages).toHaveLength(2);
+      expect(bundle.entities.map((entity) => entity.id).sort()).toEqual([AGENT_ID, USER_ID].sort());
+    });
+
+    it('exports a page of the memories of each table', async () => {
+      const runtime = makeRuntime(AGENT_ID, makeBundle().memories.messages);
+
+      const bundle = await exportAgentBundle(runtime as unknown as IAgentRuntime, {
+        tables: ['messages'],
+        memoryOffset: 1,
+        memoryLimit: 1,
+      });
+
+      expect(bundle.memories.messages.map((memory) => memory.id)).toEqual([REPLY_ID]);
+      expect(runtime.getMemories).toHaveBeenCalledWith({
+        tableName: 'messages',
+        agentId: AGENT_ID,
+        unique: false,
+        end: bundle.exportedAt,
+        count: 1,
+        offset: 1,
+      });
+    });
+
+    it('refuses a bundle of another agent unless IDs are remapped', async () => {
+      const runtime = makeRuntime(NEW_AGENT_ID);
+
+      await expect(
+        importAgentBundle(runtime as unknown as IAgentRuntime, makeBundle())
+      ).rejects.toThrow(AgentBundleError);
+
+      const result = await importAgentBundle(runtime as unknown as IAgentRuntime, makeBundle(), {
+        remapIds: true,
+      });
+      expect(result).toMatchObject({
+        agentId: NEW_AGENT_ID,
+        remapped: true,
+        memories: 2,
+        cache: 1,
+      });
+      expect(runtime.stored.has(createUniqueUuid(runtime as never, MESSAGE_ID))).toBe(true);
+    });
+
+    it('keeps existing records in merge mode', async () => {
+      const bundle = makeBundle();
+      const runtime = makeRuntime(AGENT_ID, [bundle.memories.messages[0]]);
+      runtime.cache.set(`${ROOM_ID}:state`, 'current');
+
+      const result = await importAgentBundle(runtime as unknown as IAgentRuntime, bundle);
+
+      expect(result).toMatchObject({ mode: 'merge', rooms: 0, memories: 1, cache: 0 });
+      expect(runtime.cache.get(`${ROOM_ID}:state`)).toBe('current');
+      expect(runtime.updateRoom).not.toHaveBeenCalled();
+    });
+  });
+});
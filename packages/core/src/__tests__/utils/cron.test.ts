@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'bun:test';
+import { getNextCronTime, isValidCronExpression, parseCronExpression } from '../../utils/cron';
+
+const utc = (iso: string) => new Date(iso).getTime();
+
+describe('cron utils', () => {
+  it('parses lists, ranges, steps and names', () => {
+    const schedule = parseCronExpression('0,30 9-17/4 * jan-mar mon-fri');
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.restrictsDayOfMonth).toBe(false);
+    expect(schedule.restrictsDayOfWeek).toBe(true);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(isValidCronExpression('* * * *')).toBe(false);
+    expect(isValidCronExpression('60 * * * *')).toBe(false);
+    expect(isValidCronExpression('*/0 * * * *')).toBe(false);
+    expect(isValidCronExpression('a b c d e')).toBe(false);
+    expect(isValidCronExpression('@daily')).toBe(true);
+  });
+
+  it('finds the next minute strictly after the given time', () => {
+    expect(getNextCronTime('* * * * *', utc('2024-01-01T10:00:00Z'))).toBe(
+      utc('2024-01-01T10:01:00Z')
+    );
+    expect(getNextCronTime('*/15 * * * *', utc('2024-01-01T10:07:30Z'))).toBe(
+      utc('2024-01-01T10:15:00Z')
+    );
+  });
+
+  it('rolls over hours, days, months and years', () => {
+    expect(getNextCronTime('30 9 * * *', utc('2024-01-01T10:00:00Z'))).toBe(
+      utc('2024-01-02T09:30:00Z')
+    );
+    expect(getNextCronTime('@monthly', utc('2024-01-15T00:00:00Z'))).toBe(
+      utc('2024-02-01T00:00:00Z')
+    );
+    expect(getNextCronTime('0 0 1 1 *', utc('2024-06-01T00:00:00Z'))).toBe(
+      utc('2025-01-01T00:00:00Z')
+    );
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 13th of the month or any Friday; 2024-09-06 is a Friday
+    expect(getNextCronTime('0 0 13 * fri', utc('2024-09-01T00:00:00Z'))).toBe(
+      utc('2024-09-06T00:00:00Z')
+    );
+  });
+
+  it('handles leap days and impossible dates', () => {
+    expect(getNextCronTime('0 0 29 2 *', utc('2024-03-01T00:00:00Z'))).toBe(
+      utc('2028-02-29T00:00:00Z')
+    );
+    expect(getNextCronTime('0 0 30 2 *', utc('2024-01-01T00:00:00Z'))).toBeNull();
+  });
+});
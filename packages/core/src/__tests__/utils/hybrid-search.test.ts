@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'bun:test';
+import type { Memory, UUID } from '../../types';
+import {
+  fuseHybridSearchResults,
+  getHybridCandidateCount,
+  getLexicalSearchTerms,
+} from '../../utils/hybrid-search';
+
+const memory = (id: string, text: string, similarity?: number): Memory => ({
+  id: `00000000-0000-0000-0000-${id.padStart(12, '0')}` as UUID,
+  entityId: '00000000-0000-0000-0000-00000000000e' as UUID,
+  roomId: '00000000-0000-0000-0000-00000000000f' as UUID,
+  content: { text },
+  similarity,
+});
+
+describe('hybrid search', () => {
+  const vectorResults = [
+    memory('1', 'The user asked about their wallet balance', 0.91),
+    memory('2', 'We discussed token prices this morning', 0.85),
+  ];
+  const lexicalResults = [memory('3', 'Refund sent to wallet 0x7f3a9c for ticket ENG-4821', 0.42)];
+
+  it('extracts unstemmed lexical terms without stop words', () => {
+    expect(getLexicalSearchTerms('What is the status of ENG-4821?')).toEqual([
+      'what',
+      'status',
+      'eng',
+      '4821',
+    ]);
+  });
+
+  it('ranks an exact identifier match above closer embeddings with rrf', () => {
+    const results = fuseHybridSearchResults('ENG-4821', vectorResults, lexicalResults, 3);
+
+    expect(results[0].content.text).toContain('ENG-4821');
+    expect(results[0].similarity).toBe(0.42);
+    expect(results[0].lexicalScore).toBeGreaterThan(0);
+    expect(results[2].lexicalScore).toBe(0);
+    expect(results.every((result) => result.hybridScore !== undefined)).toBe(true);
+  });
+
+  it('honours weights in weighted fusion', () => {
+    const vectorOnly = fuseHybridSearchResults('ENG-4821', vectorResults, lexicalResults, 3, {
+      fusion: 'weighted',
+      vectorWeight: 1,
+      lexicalWeight: 0,
+    });
+    expect(vectorOnly.map((result) => result.similarity)).toEqual([0.91, 0.85, 0.42]);
+
+    const lexicalOnly = fuseHybridSearchResults('ENG-4821', vectorResults, lexicalResults, 1, {
+      fusion: 'weighted',
+      vectorWeight: 0,
+      lexicalWeight: 1,
+    });
+    expect(lexicalOnly[0].hybridScore).toBe(1);
+    expect(lexicalOnly[0].content.text).toContain('ENG-4821');
+  });
+
+  it('merges candidates found by both retrievers', () => {
+    const results = fuseHybridSearchResults(
+      'wallet',
+      vectorResults,
+      [{ ...vectorResults[0], similarity: undefined }],
+      10
+    );
+    expect(results).toHaveLength(2);
+    expect(results[0].similarity).toBe(0.91);
+  });
+
+  it('fetches more candidates than results', () => {
+    expect(getHybridCandidateCount(10)).toBe(40);
+    expect(getHybridCandidateCount(10, { candidateCount: 5 })).toBe(10);
+  });
+});
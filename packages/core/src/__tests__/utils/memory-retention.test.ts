@@ -0,0 +1,239 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { ChannelType } from '../../types/environment';
+import { MemoryType, type Memory } from '../../types/memory';
+import type { UUID } from '../../types/primitives';
+import type { IAgentRuntime } from '../../types/runtime';
+import {
+  parseMemoryRetentionRules,
+  pruneMemories,
+  selectExpiredMemories,
+} from '../../utils/memory-retention';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 31);
+
+function makeMemory(id: string, ageDays: number, extra: Partial<Memory> = {}): Memory {
+  return {
+    id: id as UUID,
+    entityId: 'entity' as UUID,
+    roomId: 'room' as UUID,
+    content: { text: id },
+    createdAt: NOW - ageDays * DAY,
+    metadata: { type: MemoryType.MESSAGE },
+    ...extra,
+  };
+}
+
+describe('memory retention', () => {
+  describe('parseMemoryRetentionRules', () => {
+    it('parses JSON and drops rules without a table or a limit', () => {
+      const rules = parseMemoryRetentionRules(
+        JSON.stringify([
+          { tableName: 'messages', maxAgeDays: 30, keepIfReferenced: true },
+          { tableName: 'facts' },
+          { maxCountPerRoom: 10 },
+          { tableName: 'facts', tag: 'ephemeral', maxCountPerRoom: '5' },
+        ])
+      );
+
+      expect(rules).toEqual([
+        { tableName: 'messages', maxAgeDays: 30, keepIfReferenced: true },
+        { tableName: 'facts', tag: 'ephemeral', maxCountPerRoom: 5 },
+      ]);
+    });
+
+    it('returns no rules for invalid config', () => {
+      expect(parseMemoryRetentionRules('not json')).toEqual([]);
+      expect(parseMemoryRetentionRules({ tableName: 'messages' })).toEqual([]);
+    });
+  });
+
+  describe('selectExpiredMemories', () => {
+    it('selects memories past the max age or beyond the max count', () => {
+      const memories = [makeMemory('a', 1), makeMemory('b', 2), makeMemory('c', 3)];
+
+      const byAge = selectExpiredMemories(
+        memories,
+        { tableName: 'messages', maxAgeDays: 2.5 },
+        NOW
+      );
+      expect(byAge.expired.map(({ memory, reason }) => [memory.id, reason])).toEqual([
+        ['c', 'max_age'],
+      ]);
+
+      const byCount = selectExpiredMemories(
+        memories,
+        { tableName: 'messages', maxCountPerRoom: 1 },
+        NOW
+      );
+      expect(byCount.expired.map(({ memory }) => memory.id)).toEqual(['b', 'c']);
+    });
+
+    it('only selects memories matching the memory type and tag', () => {
+      const memories = [
+        makeMemory('tagged', 10, { metadata: { type: MemoryType.CUSTOM, tags: ['temp'] } }),
+        makeMemory('untagged', 10, { metadata: { type: MemoryType.CUSTOM } }),
+        makeMemory('message', 10),
+      ];
+
+      const { expired } = selectExpiredMemories(
+        memories,
+        { tableName: 'memories', memoryType: MemoryType.CUSTOM, tag: 'temp', maxAgeDays: 1 },
+        NOW
+      );
+      expect(expired.map(({ memory }) => memory.id)).toEqual(['tagged']);
+    });
+
+    it('keeps referenced memories when asked to', () => {
+      const memories = [makeMemory('reply', 10, { content: { inReplyTo: 'question' as UUID } })];
+      memories.push(makeMemory('question', 11));
+      const referenced = new Set(['question' as UUID]);
+
+      const result = selectExpiredMemories(
+        memories,
+        { tableName: 'messages', maxAgeDays: 1, keepIfReferenced: true },
+        NOW,
+        referenced
+      );
+      expect(result.expired.map(({ memory }) => memory.id)).toEqual(['reply']);
+      expect(result.keptReferenced).toBe(1);
+    });
+  });
+
+  describe('pruneMemories', () => {
+    /** Memories by room, then by table, newest first */
+    function makeRuntime(memoriesByRoom: Record<string, Record<string, Memory[]>>) {
+      return {
+        agentId: 'agent' as UUID,
+        character: { name: 'Test', bio: [] },
+        getSetting: mock(() => null),
+        logger: { info: mock(), debug: mock() },
+        getRoomsForParticipant: mock(async () =>
+          Object.keys(memoriesByRoom).filter((id) => id !== 'agent')
+        ),
+        getRoomsByIds: mock(async (ids: UUID[]) =>
+          ids.map((id) => ({
+            id,
+            source: 'test',
+            type: id === 'dm' ? ChannelType.DM : ChannelType.GROUP,
+          }))
+        ),
+        getMemoryTableNames: mock(async (roomId: UUID) =>
+          Object.keys(memoriesByRoom[roomId] ?? {})
+        ),
+        getMemories: mock(
+          async ({
+            roomId,
+            tableName,
+            count,
+            offset = 0,
+          }: {
+            roomId: UUID;
+            tableName: string;
+            count?: number;
+            offset?: number;
+          }) => (memoriesByRoom[roomId]?.[tableName] ?? []).slice(offset, count && offset + count)
+        ),
+        deleteManyMemories: mock(async () => {}),
+      };
+    }
+
+    it('deletes the memories selected by the rules of matching rooms', async () => {
+      const runtime = makeRuntime({
+        dm: { messages: [makeMemory('dm-new', 1), makeMemory('dm-old', 40)] },
+        group: { messages: [makeMemory('group-old', 40)] },
+      });
+
+      const report = await pruneMemories(runtime as unknown as IAgentRuntime, {
+        now: NOW,
+        rules: [{ tableName: 'messages', roomType: ChannelType.DM, maxAgeDays: 30 }],
+      });
+
+      expect(report.scanned).toBe(2);
+      expect(report.pruned).toMatchObject([
+        { id: 'dm-old', roomId: 'dm', tableName: 'messages', rule: 0, reason: 'max_age' },
+      ]);
+      expect(runtime.deleteManyMemories).toHaveBeenCalledWith(['dm-old']);
+    });
+
+    it('reports without deleting in a dry run', async () => {
+      const runtime = makeRuntime({ group: { messages: [makeMemory('old', 40)] } });
+
+      const report = await pruneMemories(runtime as unknown as IAgentRuntime, {
+        now: NOW,
+        dryRun: true,
+        rules: [{ tableName: 'messages', maxAgeDays: 30 }],
+      });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.pruned.map((pruned) => pruned.id)).toEqual(['old']);
+      expect(runtime.deleteManyMemories).not.toHaveBeenCalled();
+    });
+
+    it('keeps memories referenced from tables the rules do not name', async () => {
+      const runtime = makeRuntime({
+        group: {
+          messages: [makeMemory('first', 40), makeMemory('other', 41)],
+          summaries: [
+            makeMemory('summary', 1, {
+              metadata: { type: MemoryType.CUSTOM, firstMessageId: 'first' as UUID },
+            }),
+          ],
+        },
+      });
+
+      const report = await pruneMemories(runtime as unknown as IAgentRuntime, {
+        now: NOW,
+        rules: [{ tableName: 'messages', maxAgeDays: 30, keepIfReferenced: true }],
+      });
+
+      expect(report.keptReferenced).toBe(1);
+      expect(report.pruned.map((pruned) => pruned.id)).toEqual(['other']);
+    });
+
+    it('applies rules without a room type to the knowledge of the agent', async () => {
+      const runtime = makeRuntime({
+        group: {},
+        agent: {
+          documents: [makeMemory('document', 40)],
+          knowledge: [
+            makeMemory('fragment', 40, {
+              metadata: { type: MemoryType.FRAGMENT, documentId: 'document' as UUID },
+            }),
+          ],
+        },
+      });
+
+      const report = await pruneMemories(runtime as unknown as IAgentRuntime, {
+        now: NOW,
+        rules: [
+          { tableName: 'documents', maxAgeDays: 30, keepIfReferenced: true },
+          { tableName: 'knowledge', roomType: ChannelType.GROUP, maxAgeDays: 30 },
+        ],
+      });
+
+      expect(report.keptReferenced).toBe(1);
+      expect(report.pruned).toEqual([]);
+    });
+
+    it('reads memories page by page and counts across pages', async () => {
+      const messages = Array.from({ length: 1200 }, (_, index) =>
+        makeMemory(`message-${index}`, index / 100)
+      );
+      const runtime = makeRuntime({ group: { messages } });
+
+      const report = await pruneMemories(runtime as unknown as IAgentRuntime, {
+        now: NOW,
+        rules: [{ tableName: 'messages', maxCountPerRoom: 1000 }],
+      });
+
+      expect(report.scanned).toBe(1200);
+      expect(report.pruned.map((pruned) => pruned.id)).toEqual(
+        messages.slice(1000).map((memory) => memory.id)
+      );
+      for (const [params] of runtime.getMemories.mock.calls) {
+        expect(params.count).toBe(500);
+      }
+    });
+  });
+});
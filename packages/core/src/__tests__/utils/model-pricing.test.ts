@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  estimateModelCost,
+  parseModelPriceTable,
+  resolveModelPrice,
+} from '../../utils/model-pricing';
+
+describe('model pricing utils', () => {
+  it('parses JSON price tables and drops invalid entries', () => {
+    const table = parseModelPriceTable(
+      JSON.stringify({
+        'OpenAI/GPT-4o': { prompt: 2.5, completion: 10 },
+        broken: { prompt: 'free' },
+        negative: { prompt: -1, completion: 1 },
+      })
+    );
+    expect(table).toEqual({ 'openai/gpt-4o': { prompt: 2.5, completion: 10 } });
+    expect(parseModelPriceTable('not json')).toEqual({});
+    expect(parseModelPriceTable(undefined)).toEqual({});
+  });
+
+  it('prefers provider/model over model over provider', () => {
+    const table = parseModelPriceTable({
+      'openai/gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+      'gpt-4o-mini': { prompt: 1, completion: 1 },
+      openai: { prompt: 5, completion: 5 },
+    });
+    expect(resolveModelPrice(table, 'OpenAI', 'gpt-4o-mini')).toEqual({
+      prompt: 0.15,
+      completion: 0.6,
+    });
+    expect(resolveModelPrice(table, 'openrouter', 'gpt-4o-mini')).toEqual({
+      prompt: 1,
+      completion: 1,
+    });
+    expect(resolveModelPrice(table, 'openai', 'unknown')).toEqual({ prompt: 5, completion: 5 });
+    expect(resolveModelPrice(table, 'anthropic')).toBeUndefined();
+  });
+
+  it('estimates cost per million tokens', () => {
+    expect(estimateModelCost({ prompt: 1000, completion: 500 }, { prompt: 2, completion: 8 })).toBe(
+      0.006
+    );
+    expect(estimateModelCost({ prompt: 1000, completion: 500 }, undefined)).toBeNull();
+  });
+});
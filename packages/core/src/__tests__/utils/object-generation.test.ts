@@ -0,0 +1,111 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { z } from 'zod';
+import { ModelType, type ObjectGenerationParams } from '../../types/model';
+import type { IAgentRuntime } from '../../types/runtime';
+import { generateObject, parseObjectResponse } from '../../utils/object-generation';
+
+function makeRuntime(...responses: unknown[]) {
+  const useModel = mock(async (_modelType: string, _params: ObjectGenerationParams) => {
+    const response = responses.shift();
+    if (response instanceof Error) {
+      throw response;
+    }
+    return response;
+  });
+  const runtime = {
+    agentId: 'agent',
+    useModel,
+    logger: { debug: mock(), warn: mock() },
+  } as unknown as IAgentRuntime;
+  return { runtime, useModel };
+}
+
+const personSchema = z.object({ name: z.string(), age: z.number().int() });
+
+describe('generateObject', () => {
+  it('passes the JSON Schema of a Zod schema to the model and returns the typed object', async () => {
+    const { runtime, useModel } = makeRuntime({ name: 'Ada', age: 36 });
+
+    const result = await generateObject(runtime, personSchema, 'Describe Ada', {
+      schemaName: 'person',
+    });
+
+    expect(result).toEqual({ success: true, object: { name: 'Ada', age: 36 }, attempts: 1 });
+    const [modelType, params] = useModel.mock.calls[0];
+    expect(modelType).toBe(ModelType.OBJECT_SMALL);
+    expect(params.schema).toMatchObject({ type: 'object', required: ['name', 'age'] });
+    expect(params.responseFormat).toEqual({
+      type: 'json_schema',
+      name: 'person',
+      schema: params.schema!,
+    });
+  });
+
+  it('validates JSON text responses against a JSON Schema', async () => {
+    const { runtime } = makeRuntime('```json\n{"items": ["a", "b"]}\n```');
+
+    const result = await generateObject<{ items: string[] }>(
+      runtime,
+      {
+        type: 'object',
+        properties: { items: { type: 'array', items: { type: 'string' } } },
+        required: ['items'],
+      },
+      'List items'
+    );
+
+    expect(result.success && result.object).toEqual({ items: ['a', 'b'] });
+  });
+
+  it('feeds validation errors back to the model to repair the response', async () => {
+    const { runtime, useModel } = makeRuntime(
+      { name: 'Ada', age: 'old' },
+      { name: 'Ada', age: 36 }
+    );
+
+    const result = await generateObject(runtime, personSchema, 'Describe Ada');
+
+    expect(result).toEqual({ success: true, object: { name: 'Ada', age: 36 }, attempts: 2 });
+    const repairPrompt = useModel.mock.calls[1][1].prompt;
+    expect(repairPrompt).toStartWith('Describe Ada');
+    expect(repairPrompt).toContain('"age": "old"');
+    expect(repairPrompt).toContain('- age: Invalid input: expected number, received string');
+  });
+
+  it('returns a structured failure once the repair attempts are exhausted', async () => {
+    const { runtime, useModel } = makeRuntime('not json', { name: 'Ada' });
+
+    const result = await generateObject(runtime, personSchema, 'Describe Ada', {
+      maxRepairAttempts: 1,
+    });
+
+    expect(useModel).toHaveBeenCalledTimes(2);
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toMatchObject({
+      reason: 'validation_error',
+      attempts: 2,
+      response: { name: 'Ada' },
+    });
+    expect(!result.success && result.error.issues[0]).toStartWith('age:');
+  });
+
+  it('reports model errors without retrying', async () => {
+    const { runtime, useModel } = makeRuntime(new Error('rate limited'));
+
+    const result = await generateObject(runtime, personSchema, 'Describe Ada');
+
+    expect(useModel).toHaveBeenCalledTimes(1);
+    expect(!result.success && result.error).toMatchObject({
+      reason: 'model_error',
+      message: 'rate limited',
+      attempts: 1,
+    });
+  });
+
+  it('parses fenced and plain JSON responses', () => {
+    expect(parseObjectResponse('{"a": 1}')).toEqual({ a: 1 });
+    expect(parseObjectResponse('```\n[1, 2]\n```')).toEqual([1, 2]);
+    expect(parseObjectResponse('nope')).toBeUndefined();
+    expect(parseObjectResponse({ a: 1 })).toEqual({ a: 1 });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'bun:test';
+import { AgentRuntime } from '../../runtime';
+import type { Character } from '../../types/agent';
+import {
+  diffPromptTemplates,
+  extractTemplateVariables,
+  getPromptTemplateVersion,
+  PromptTemplateError,
+  validatePromptTemplate,
+} from '../../utils/prompt-templates';
+
+const definition = {
+  name: 'greetingTemplate',
+  template: 'Greet {{senderName}} as {{agentName}}.\n{{{recentMessages}}}',
+};
+
+function createRuntime(templates?: Character['templates']) {
+  return new AgentRuntime({
+    character: { name: 'Templated', bio: 'Uses templates', templates } as Character,
+  });
+}
+
+describe('prompt templates', () => {
+  it('lists the state variables of a template', () => {
+    expect(extractTemplateVariables(definition.template)).toEqual([
+      'senderName',
+      'agentName',
+      'recentMessages',
+    ]);
+    expect(
+      extractTemplateVariables(
+        '{{#if actionNames}}{{actionNames}}{{/if}}{{#each items}}{{this.name}}{{/each}}'
+      )
+    ).toEqual(['actionNames', 'items']);
+  });
+
+  it('versions templates by content', () => {
+    const version = getPromptTemplateVersion(definition.template);
+    expect(version).toMatch(/^[0-9a-f]{12}$/);
+    expect(getPromptTemplateVersion(definition.template)).toBe(version);
+    expect(getPromptTemplateVersion(`${definition.template}!`)).not.toBe(version);
+  });
+
+  it('reports invalid syntax, unknown templates and unknown variables', () => {
+    expect(validatePromptTemplate('greetingTemplate', 'Hi {{#if x}}', definition)[0]).toMatchObject(
+      {
+        severity: 'error',
+      }
+    );
+    expect(validatePromptTemplate('otherTemplate', 'Hi')[0]).toMatchObject({
+      severity: 'warning',
+    });
+    expect(
+      validatePromptTemplate('greetingTemplate', 'Hi {{senderName}} {{mood}}', definition)
+    ).toEqual([
+      {
+        template: 'greetingTemplate',
+        severity: 'warning',
+        message: '{{mood}} is not used by the default template and may render empty',
+      },
+    ]);
+    expect(validatePromptTemplate('greetingTemplate', () => 'Hi', definition)).toEqual([]);
+  });
+
+  it('diffs templates by line', () => {
+    expect(diffPromptTemplates('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'unchanged', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'unchanged', text: 'c' },
+    ]);
+  });
+
+  it('resolves overrides and records the templates used by a run', () => {
+    const override = 'Say hi to {{senderName}}';
+    const runtime = createRuntime({ greetingTemplate: override });
+    runtime.registerPromptTemplate(definition, 'plugin-greeting');
+
+    const info = runtime.getPromptTemplates().find((template) => template.name === definition.name);
+    expect(info).toMatchObject({
+      source: 'plugin-greeting',
+      variables: ['senderName', 'agentName', 'recentMessages'],
+      override,
+      overridden: true,
+      version: getPromptTemplateVersion(override),
+      defaultVersion: getPromptTemplateVersion(definition.template),
+    });
+    expect(runtime.getPromptTemplates().map((template) => template.source)).toContain('core');
+
+    const runId = runtime.startRun();
+    expect(runtime.getPromptTemplate('greetingTemplate')).toBe(override);
+    runtime.getPromptTemplate('shouldRespondTemplate');
+    expect(runtime.getRunPromptTemplates(runId)).toEqual([
+      { name: 'greetingTemplate', version: getPromptTemplateVersion(override), overridden: true },
+      { name: 'shouldRespondTemplate', version: expect.any(String), overridden: false },
+    ]);
+    expect(() => runtime.getPromptTemplate('missingTemplate')).toThrow();
+  });
+
+  it('rejects overrides that cannot be rendered when the runtime initializes', async () => {
+    const runtime = createRuntime({ shouldRespondTemplate: '{{#if}}' });
+
+    const error = await runtime.initialize().catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(PromptTemplateError);
+    expect((error as PromptTemplateError).issues[0].template).toBe('shouldRespondTemplate');
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'bun:test';
+import type { State } from '../../types/state';
+import {
+  StateCache,
+  createDatabaseStateCacheBackend,
+  type StateCacheBackend,
+} from '../../utils/state-cache';
+
+function makeState(text: string): State {
+  return { values: {}, data: {}, text };
+}
+
+function makeStore() {
+  const entries = new Map<string, unknown>();
+  return {
+    entries,
+    async getCache<T>(key: string): Promise<T | undefined> {
+      return entries.get(key) as T | undefined;
+    },
+    async setCache<T>(key: string, value: T): Promise<boolean> {
+      entries.set(key, value);
+      return true;
+    },
+    async deleteCache(key: string): Promise<boolean> {
+      return entries.delete(key);
+    },
+  };
+}
+
+describe('StateCache', () => {
+  it('evicts the least recently used entry when over the entry limit', () => {
+    const cache = new StateCache({ maxEntries: 2 });
+    cache.set('a', makeState('a'));
+    cache.set('b', makeState('b'));
+    cache.get('a');
+    cache.set('c', makeState('c'));
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.has('c')).toBe(true);
+    expect(cache.getMetrics().evictions).toBe(1);
+  });
+
+  it('evicts entries to stay within the byte limit', () => {
+    const cache = new StateCache({ maxEntries: 0, maxBytes: 300 });
+    cache.set('a', makeState('x'.repeat(50)));
+    cache.set('b', makeState('y'.repeat(50)));
+
+    expect(cache.size).toBe(1);
+    expect(cache.has('b')).toBe(true);
+    expect(cache.getMetrics().bytes).toBeLessThanOrEqual(300);
+  });
+
+  it('expires entries after their TTL', async () => {
+    const cache = new StateCache({ ttlMs: 5 });
+    cache.set('a', makeState('a'));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+    expect(cache.getMetrics().expirations).toBe(1);
+  });
+
+  it('counts hits and misses', () => {
+    const cache = new StateCache();
+    cache.set('a', makeState('a'));
+    cache.get('a');
+    cache.get('a');
+    cache.get('missing');
+
+    expect(cache.getMetrics()).toMatchObject({ hits: 2, misses: 1, entries: 1 });
+  });
+
+  it('writes to the backend and fetches from it on local misses', async () => {
+    const store = makeStore();
+    const writer = new StateCache({ backend: createDatabaseStateCacheBackend(store) });
+    const reader = new StateCache({ backend: createDatabaseStateCacheBackend(store) });
+
+    writer.set('a', makeState('shared'));
+    await writer.flush();
+
+    expect(reader.get('a')).toBeUndefined();
+    expect((await reader.fetch('a'))?.text).toBe('shared');
+    expect(reader.getMetrics().backendHits).toBe(1);
+    expect(reader.get('a')?.text).toBe('shared');
+  });
+
+  it('reports backend failures without failing cache calls', async () => {
+    const errors: string[] = [];
+    const backend: StateCacheBackend = {
+      get: async () => {
+        throw new Error('unavailable');
+      },
+      set: async () => {
+        throw new Error('unavailable');
+      },
+      delete: async () => {},
+    };
+    const cache = new StateCache({
+      backend,
+      onBackendError: (_error, operation) => errors.push(operation),
+    });
+
+    cache.set('a', makeState('a'));
+    expect(await cache.fetch('missing')).toBeUndefined();
+    await cache.flush();
+
+    expect(errors.sort()).toEqual(['get', 'set']);
+  });
+
+  it('coalesces backend writes of an entry set several times', async () => {
+    const writes: string[] = [];
+    const backend: StateCacheBackend = {
+      get: async () => undefined,
+      set: async (_key, state) => {
+        writes.push(state.text);
+      },
+      delete: async () => {},
+    };
+    const cache = new StateCache({ backend, writeDelayMs: 5 });
+
+    cache.set('a', makeState('first'));
+    cache.set('a', makeState('second'));
+    cache.set('a', makeState('third'));
+    expect(writes).toEqual([]);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(writes).toEqual(['third']);
+  });
+
+  it('only writes shared keys to the backend', async () => {
+    const store = makeStore();
+    const cache = new StateCache({
+      backend: createDatabaseStateCacheBackend(store),
+      shareKey: (key) => !key.endsWith('_action_results'),
+    });
+
+    cache.set('a', makeState('a'));
+    cache.set('a_action_results', makeState('results'));
+    await cache.flush();
+
+    expect(Array.from(store.entries.keys())).toEqual(['state-cache:a']);
+    expect(cache.get('a_action_results')?.text).toBe('results');
+  });
+
+  it('can be used as a Map', () => {
+    const cache = new StateCache();
+    cache.set('a', makeState('a'));
+    cache.set('b', makeState('b'));
+    cache.get('a');
+
+    expect(cache).toBeInstanceOf(Map);
+    expect(Array.from(cache.keys())).toEqual(['b', 'a']);
+    expect(Array.from(cache.values(), (state) => state.text)).toEqual(['b', 'a']);
+    expect(Array.from(cache, ([key]) => key)).toEqual(['b', 'a']);
+    const visited: string[] = [];
+    cache.forEach((_state, key) => visited.push(key));
+    expect(visited).toEqual(['b', 'a']);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'bun:test';
+import type { Action } from '../../types/components';
+import { actionToTool, normalizeToolCallResult } from '../../utils/tool-calling';
+
+describe('tool calling', () => {
+  describe('actionToTool', () => {
+    it('builds an object schema from the action parameters', () => {
+      const action = {
+        name: 'SEND_TOKENS',
+        description: 'Send tokens to a recipient',
+        parameters: {
+          recipient: { type: 'string', description: 'Recipient address', required: true },
+          token: { type: 'string', description: 'Token symbol', enum: ['ETH', 'USDC'] },
+        },
+        handler: async () => undefined,
+        validate: async () => true,
+      } as Action;
+
+      expect(actionToTool(action)).toEqual({
+        name: 'SEND_TOKENS',
+        description: 'Send tokens to a recipient',
+        parameters: {
+          type: 'object',
+          properties: {
+            recipient: { type: 'string', description: 'Recipient address' },
+            token: { type: 'string', description: 'Token symbol', enum: ['ETH', 'USDC'] },
+          },
+          required: ['recipient'],
+        },
+      });
+    });
+
+    it('offers actions without parameters as tools without arguments', () => {
+      const tool = actionToTool({
+        name: 'FOLLOW_ROOM',
+        description: 'Follow the room',
+        handler: async () => undefined,
+        validate: async () => true,
+      });
+
+      expect(tool.parameters).toEqual({ type: 'object', properties: {}, required: [] });
+    });
+  });
+
+  describe('normalizeToolCallResult', () => {
+    it('treats plain text responses as text without tool calls', () => {
+      expect(normalizeToolCallResult('Hello')).toEqual({ text: 'Hello', toolCalls: [] });
+    });
+
+    it('normalizes SDK tool call shapes and parses JSON arguments', () => {
+      const result = normalizeToolCallResult({
+        text: '',
+        finishReason: 'tool_calls',
+        toolCalls: [
+          { toolCallId: 'a', toolName: 'SEND_TOKENS', input: { amount: 5 } },
+          { id: 'b', function: { name: 'FOLLOW_ROOM', arguments: '{"room":"general"}' } },
+          { id: 'c', name: 'MUTE_ROOM', arguments: 'not json' },
+          { id: 'd' },
+        ],
+      });
+
+      expect(result.finishReason).toBe('tool_calls');
+      expect(result.toolCalls).toEqual([
+        { id: 'a', name: 'SEND_TOKENS', arguments: { amount: 5 } },
+        { id: 'b', name: 'FOLLOW_ROOM', arguments: { room: 'general' } },
+        { id: 'c', name: 'MUTE_ROOM', arguments: {} },
+      ]);
+    });
+  });
+});
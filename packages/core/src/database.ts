@@ -302,9 +302,15 @@ export abstract class DatabaseAdapter<DB = unknown> implements IDatabaseAdapter
    * @param roomId The UUID of the room for which to count memories.
    * @param unique Specifies whether to count only unique memories.
    * @param tableName Optional table name to count memories from.
+   * @param start Optional time (ms); only memories created at or after it are counted.
    * @returns A Promise that resolves to the number of memories.
    */
-  abstract countMemories(roomId: UUID, unique?: boolean, tableName?: string): Promise<number>;
+  abstract countMemories(
+    roomId: UUID,
+    unique?: boolean,
+    tableName?: string,
+    start?: number
+  ): Promise<number>;
 
   /**
    * Retrieves a world by its ID.
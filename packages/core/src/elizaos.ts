@@ -4,6 +4,7 @@ import { setDefaultSecretsFromEnv } from './secrets';
 import { getSalt, encryptObjectValues } from './settings';
 import { resolvePlugins } from './plugin';
 import type {
+  AgentReloadResult,
   Character,
   IAgentRuntime,
   IElizaOS,
@@ -269,6 +270,51 @@ export class ElizaOS extends EventTarget implements IElizaOS {
     );
   }
 
+  /**
+   * Apply a changed character to a running agent without restarting it. Plugins added to
+   * or removed from `character.plugins` are registered or unregistered once the agent's
+   * in-flight messages are handled; on failure the agent keeps its previous configuration.
+   */
+  async reloadAgent(
+    agentId: UUID,
+    character: Character,
+    options?: { isTestMode?: boolean; drainTimeoutMs?: number }
+  ): Promise<AgentReloadResult> {
+    if (!this.editableMode) {
+      throw new Error('Editable mode not enabled');
+    }
+
+    const runtime = this.runtimes.get(agentId);
+    if (!runtime) {
+      throw new Error(`Agent ${agentId} not found`);
+    }
+
+    const isTestMode = options?.isTestMode || false;
+    const [previousPlugins, nextPlugins] = await Promise.all([
+      resolvePlugins(runtime.character.plugins ?? [], isTestMode),
+      resolvePlugins(character.plugins ?? [], isTestMode),
+    ]);
+    const nextPluginNames = new Set(nextPlugins.map((plugin) => plugin.name));
+
+    const result = await runtime.reload({
+      character,
+      addPlugins: nextPlugins,
+      // The database adapter stays for the lifetime of the runtime
+      removePlugins: previousPlugins
+        .filter((plugin) => !nextPluginNames.has(plugin.name) && !plugin.adapter)
+        .map((plugin) => plugin.name),
+      drainTimeoutMs: options?.drainTimeoutMs,
+    });
+
+    this.dispatchEvent(
+      new CustomEvent('agent:updated', {
+        detail: { agentId, updates: character, ...result },
+      })
+    );
+
+    return result;
+  }
+
   /**
    * Delete agents
    */
@@ -5,10 +5,20 @@
  * stubs or alternatives for Node.js-specific functionality.
  */
 
-// Configure Browser-specific streaming context manager (Stack-based)
+// Configure Browser-specific streaming, model call and message handling context managers (Stack-based)
 import { setStreamingContextManager } from './streaming-context';
-import { createBrowserStreamingContextManager } from './streaming-context.browser';
+import {
+  StackContextManager,
+  createBrowserStreamingContextManager,
+} from './streaming-context.browser';
+import { setModelCallContextManager, type ModelCallContext } from './model-call-context';
+import {
+  setMessageHandlingContextManager,
+  type MessageHandlingContext,
+} from './message-handling-context';
 setStreamingContextManager(createBrowserStreamingContextManager());
+setModelCallContextManager(new StackContextManager<ModelCallContext>());
+setMessageHandlingContextManager(new StackContextManager<MessageHandlingContext>());
 
 // Export everything from types (type-only, safe for browser)
 export * from './types';
@@ -22,6 +32,19 @@ export * from './schemas/character';
 // Export browser-compatible utilities
 export * from './utils/environment';
 export * from './utils/buffer';
+export * from './utils/cron';
+export * from './utils/model-pricing';
+export * from './utils/model-budget';
+export * from './utils/model-fallback';
+export * from './utils/model-cache';
+export * from './utils/hybrid-search';
+export * from './utils/tool-calling';
+export * from './utils/state-cache';
+export * from './utils/memory-retention';
+export * from './utils/agent-bundle';
+export * from './utils/object-generation';
+export * from './utils/prompt-templates';
+export * from './utils/agent-reload';
 
 // Export core modules (all browser-compatible after refactoring)
 export * from './actions';
@@ -5,10 +5,20 @@
  * This is the full API surface of the core package.
  */
 
-// Configure Node.js-specific streaming context manager (AsyncLocalStorage)
+// Configure Node.js-specific streaming, model call and message handling context managers (AsyncLocalStorage)
 import { setStreamingContextManager } from './streaming-context';
-import { createNodeStreamingContextManager } from './streaming-context.node';
+import {
+  AsyncLocalStorageContextManager,
+  createNodeStreamingContextManager,
+} from './streaming-context.node';
+import { setModelCallContextManager, type ModelCallContext } from './model-call-context';
+import {
+  setMessageHandlingContextManager,
+  type MessageHandlingContext,
+} from './message-handling-context';
 setStreamingContextManager(createNodeStreamingContextManager());
+setModelCallContextManager(new AsyncLocalStorageContextManager<ModelCallContext>());
+setMessageHandlingContextManager(new AsyncLocalStorageContextManager<MessageHandlingContext>());
 
 // Export everything from types
 export * from './types';
@@ -22,6 +32,19 @@ export * from './schemas/character';
 // Export browser-compatible utilities
 export * from './utils/environment';
 export * from './utils/buffer';
+export * from './utils/cron';
+export * from './utils/model-pricing';
+export * from './utils/model-budget';
+export * from './utils/model-fallback';
+export * from './utils/model-cache';
+export * from './utils/hybrid-search';
+export * from './utils/tool-calling';
+export * from './utils/state-cache';
+export * from './utils/memory-retention';
+export * from './utils/agent-bundle';
+export * from './utils/object-generation';
+export * from './utils/prompt-templates';
+export * from './utils/agent-reload';
 // Export streaming utilities
 export * from './utils/streaming';
 // Export Node-specific utilities
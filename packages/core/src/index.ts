@@ -24,6 +24,31 @@ export * from './utils/environment';
 // Export buffer utilities
 export * from './utils/buffer';
 
+// Export cron utilities
+export * from './utils/cron';
+
+// Export model pricing utilities
+export * from './utils/model-pricing';
+
+// Export model budget utilities
+export * from './utils/model-budget';
+
+// Export model provider fallback utilities
+export * from './utils/model-fallback';
+
+// Export model response cache utilities
+export * from './utils/model-cache';
+
+// Export hybrid memory search utilities
+export * from './utils/hybrid-search';
+export * from './utils/tool-calling';
+export * from './utils/state-cache';
+export * from './utils/memory-retention';
+export * from './utils/agent-bundle';
+export * from './utils/object-generation';
+export * from './utils/prompt-templates';
+export * from './utils/agent-reload';
+
 // Export streaming utilities
 export * from './utils/streaming';
 
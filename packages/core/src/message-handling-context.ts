@@ -0,0 +1,66 @@
+/**
+ * Context of the message handlers a call runs in.
+ *
+ * A reload waits for the agent's in-flight messages, so a reload requested from one of
+ * that agent's own handlers would wait for itself. The runtime checks this context to
+ * defer such reloads. Uses the same platform-specific context managers as the streaming
+ * context, configured by the entry points.
+ */
+import type { IContextManager } from './streaming-context';
+import type { UUID } from './types/primitives';
+
+export interface MessageHandlingContext {
+  /** Agents whose message handlers the call runs in, outermost first */
+  agentIds: UUID[];
+}
+
+/**
+ * Default no-op context manager used before the platform-specific manager is configured.
+ * Reloads are then never deferred.
+ */
+class NoopContextManager implements IContextManager<MessageHandlingContext> {
+  run<T>(_context: MessageHandlingContext | undefined, fn: () => T): T {
+    return fn();
+  }
+
+  active(): MessageHandlingContext | undefined {
+    return undefined;
+  }
+}
+
+let globalContextManager: IContextManager<MessageHandlingContext> = new NoopContextManager();
+
+/**
+ * Set the global message handling context manager.
+ * Called during initialization by platform-specific entry points.
+ */
+export function setMessageHandlingContextManager(
+  manager: IContextManager<MessageHandlingContext>
+): void {
+  globalContextManager = manager;
+}
+
+/**
+ * Get the global message handling context manager.
+ * Useful for testing.
+ */
+export function getMessageHandlingContextManager(): IContextManager<MessageHandlingContext> {
+  return globalContextManager;
+}
+
+/**
+ * Run a function with a message handling context, or outside any with `undefined`.
+ */
+export function runWithMessageHandlingContext<T>(
+  context: MessageHandlingContext | undefined,
+  fn: () => T
+): T {
+  return globalContextManager.run(context, fn);
+}
+
+/**
+ * Get the context of the message handlers being run, if any.
+ */
+export function getMessageHandlingContext(): MessageHandlingContext | undefined {
+  return globalContextManager.active();
+}
@@ -0,0 +1,63 @@
+/**
+ * Context of the useModel call a model handler is answering.
+ *
+ * Handlers emit MODEL_USED themselves, so the fields the runtime adds to that event
+ * (providers that failed before, cache outcome) travel with the call instead of being
+ * looked up by model type, which overlapping calls share. Uses the same platform-specific
+ * context managers as the streaming context, configured by the entry points.
+ */
+import type { IContextManager } from './streaming-context';
+import type { ModelEventPayload } from './types/events';
+
+export interface ModelCallContext {
+  /** Model type the call resolved to */
+  type: string;
+  /** Fields for the call's MODEL_USED event, cleared once the event is emitted */
+  eventFields?: Pick<ModelEventPayload, 'fallbacks' | 'cache'>;
+}
+
+/**
+ * Default no-op context manager used before the platform-specific manager is configured.
+ * The fields are then left off MODEL_USED events.
+ */
+class NoopContextManager implements IContextManager<ModelCallContext> {
+  run<T>(_context: ModelCallContext | undefined, fn: () => T): T {
+    return fn();
+  }
+
+  active(): ModelCallContext | undefined {
+    return undefined;
+  }
+}
+
+let globalContextManager: IContextManager<ModelCallContext> = new NoopContextManager();
+
+/**
+ * Set the global model call context manager.
+ * Called during initialization by platform-specific entry points.
+ */
+export function setModelCallContextManager(manager: IContextManager<ModelCallContext>): void {
+  globalContextManager = manager;
+}
+
+/**
+ * Get the global model call context manager.
+ * Useful for testing.
+ */
+export function getModelCallContextManager(): IContextManager<ModelCallContext> {
+  return globalContextManager;
+}
+
+/**
+ * Run a function, typically a model handler, with a model call context.
+ */
+export function runWithModelCallContext<T>(context: ModelCallContext, fn: () => T): T {
+  return globalContextManager.run(context, fn);
+}
+
+/**
+ * Get the context of the model call being answered, if any.
+ */
+export function getModelCallContext(): ModelCallContext | undefined {
+  return globalContextManager.active();
+}
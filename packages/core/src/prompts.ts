@@ -93,6 +93,21 @@ Respond using XML format like this:
 IMPORTANT: Your response must ONLY contain the <response></response> XML block above. Do not include any text, thinking, or reasoning before or after this XML block. Start your response immediately with <response> and end with </response>.
 </output>`;
 
+export const toolCallingTemplate = `<task>Respond to the conversation as the character {{agentName}}, calling tools to take actions.</task>
+
+<providers>
+{{providers}}
+</providers>
+
+<instructions>
+Each tool you can call is an action {{agentName}} can take. Tools are executed in the order you call them.
+- To simply respond, write the message for {{agentName}} to send, without calling any tools.
+- To take actions, call the matching tools with their arguments. You may also write a short message acknowledging what you are going to do.
+- If {{agentName}} should not respond at all, do not call any tools and leave the message empty.
+
+If {{agentName}} includes code in the message, wrap it in \`\`\` fenced code blocks. Do not include any thinking or reasoning in the message.
+</instructions>`;
+
 export const postCreationTemplate = `# Task: Create a post in the voice and style and perspective of {{agentName}} @{{twitterUserName}}.
 
 Example task outputs:
@@ -12,7 +12,52 @@ import { BufferUtils } from './utils/buffer';
 import { isPlainObject } from './utils/type-guards';
 import { decryptSecret, getSalt } from './index';
 import { ActionStreamFilter } from './utils/streaming';
+import {
+  DEFAULT_BUDGET_FALLBACKS,
+  MODEL_BUDGETS_SETTING,
+  ModelBudgetExceededError,
+  ModelBudgetTracker,
+  parseModelBudgets,
+  type ModelBudgetBreach,
+} from './utils/model-budget';
+import {
+  CircuitBreaker,
+  DEFAULT_CIRCUIT_FAILURE_THRESHOLD,
+  DEFAULT_CIRCUIT_RESET_MS,
+  MODEL_CIRCUIT_FAILURE_THRESHOLD_SETTING,
+  MODEL_CIRCUIT_RESET_SETTING,
+  MODEL_TIMEOUT_SETTING,
+  ModelTimeoutError,
+  ModelUnavailableError,
+  withModelTimeout,
+} from './utils/model-fallback';
+import {
+  DEFAULT_MODEL_CACHE_TTL_MS,
+  DEFAULT_MODEL_CACHE_TTL_SETTING,
+  MODEL_CACHE_SETTING_SUFFIX,
+  MODEL_CACHE_TTL_SETTING_SUFFIX,
+  getLiveModelCacheEntry,
+  getModelCacheKey,
+  isCacheableModelResponse,
+  isDeterministicModelCall,
+  type ModelCacheEntry,
+} from './utils/model-cache';
+import {
+  estimateModelCost,
+  MODEL_PRICING_SETTING,
+  parseModelPriceTable,
+  resolveModelPrice,
+} from './utils/model-pricing';
 import { getStreamingContext, runWithStreamingContext } from './streaming-context';
+import {
+  getModelCallContext,
+  runWithModelCallContext,
+  type ModelCallContext,
+} from './model-call-context';
+import {
+  getMessageHandlingContext,
+  runWithMessageHandlingContext,
+} from './message-handling-context';
 import { createLogger } from './logger';
 import { DefaultMessageService } from './services/default-message-service';
 import type { IMessageService } from './services/message-service';
@@ -25,9 +70,12 @@ import {
   type ControlMessage,
   type MemoryMetadata,
   type Character,
+  type AgentReloadOptions,
+  type AgentReloadResult,
   type Action,
   type Evaluator,
   type Provider,
+  type ProviderResult,
   type HandlerCallback,
   type HandlerOptions,
   type ActionContext,
@@ -40,6 +88,11 @@ import {
   type ModelParamsMap,
   type ModelResultMap,
   type ModelTypeName,
+  type ModelBudgetConfig,
+  type ModelEventPayload,
+  type ModelFallbackAttempt,
+  type ModelCacheStatus,
+  type HybridSearchOptions,
   type TextStreamResult,
   type Plugin,
   type RuntimeEventStorage,
@@ -54,6 +107,10 @@ import {
   type Participant,
   type Relationship,
   type Task,
+  type TaskExecution,
+  type ModelUsageRecord,
+  type ModelUsageGroupBy,
+  type ModelUsageRollup,
   type Memory,
   type ModelHandler,
   type RuntimeSettings,
@@ -62,18 +119,50 @@ import {
   type IElizaOS,
   type ActionResult,
   type GenerateTextParams,
+  type GenerateObjectOptions,
+  type GenerateObjectResult,
+  type ObjectSchema,
   type GenerateTextOptions,
   type GenerateTextResult,
   type EventPayload,
   type EventPayloadMap,
   type EventHandler,
+  type PromptTemplateDefinition,
+  type PromptTemplateInfo,
+  type PromptTemplateUsage,
+  type TemplateType,
 } from './types';
 
 import { BM25 } from './search';
+import { fuseHybridSearchResults } from './utils/hybrid-search';
+import { normalizeToolCallResult } from './utils/tool-calling';
+import { generateObject } from './utils/object-generation';
+import {
+  CORE_PROMPT_TEMPLATES,
+  CORE_PROMPT_TEMPLATE_SOURCE,
+  PromptTemplateError,
+  describePromptTemplate,
+  getPromptTemplateVersion,
+  validatePromptTemplates,
+} from './utils/prompt-templates';
+import {
+  AgentReloadError,
+  DEFAULT_RELOAD_DRAIN_TIMEOUT_MS,
+  replaceCharacter,
+} from './utils/agent-reload';
+import {
+  StateCache,
+  createDatabaseStateCacheBackend,
+  type StateCacheMetrics,
+  type StateCacheOptions,
+} from './utils/state-cache';
 import { stringToUuid } from './utils';
 
 const environmentSettings: RuntimeSettings = {};
 
+// Runs whose prompt templates are kept for getRunPromptTemplates
+const MAX_TRACKED_TEMPLATE_RUNS = 100;
+
 export class Semaphore {
   private permits: number;
   private waiting: Array<() => void> = [];
@@ -99,6 +188,16 @@ export class Semaphore {
   }
 }
 
+// Removes the given items from an array in place, comparing by reference
+function removeItems<T>(items: T[], removed: readonly T[] | undefined): void {
+  for (const item of removed ?? []) {
+    const index = items.indexOf(item);
+    if (index !== -1) {
+      items.splice(index, 1);
+    }
+  }
+}
+
 type ServiceResolver = (service: Service) => void;
 type ServiceRejecter = (reason: Error | string) => void;
 type ServicePromiseHandler = {
@@ -116,7 +215,7 @@ export class AgentRuntime implements IAgentRuntime {
   readonly providers: Provider[] = [];
   readonly plugins: Plugin[] = [];
   events: RuntimeEventStorage = {};
-  stateCache = new Map<string, State>();
+  stateCache: StateCache;
   readonly fetch = fetch;
   services = new Map<ServiceTypeName, Service[]>();
   private serviceTypes = new Map<ServiceTypeName, (typeof Service)[]>();
@@ -162,6 +261,24 @@ export class AgentRuntime implements IAgentRuntime {
     }>;
   };
   private maxWorkingMemoryEntries: number = 50; // Default value, can be overridden
+  private modelBudgetTracker = new ModelBudgetTracker((from) =>
+    this.getModelUsageRollup({ groupBy: 'modelType', from })
+  );
+  private modelCircuits = new Map<string, CircuitBreaker>(); // Per provider
+  private modelCacheStats = new Map<string, { hits: number; misses: number }>(); // Per model type
+  // Results of providers with a `cacheTtlMs`, keyed by provider name, room and sender
+  private providerResultCache = new Map<string, { result: ProviderResult; expiresAt: number }>();
+  private promptTemplates = new Map<
+    string,
+    { definition: PromptTemplateDefinition; source: string }
+  >();
+  // Templates resolved during recent runs, oldest first; runs are not always ended explicitly
+  private runPromptTemplates = new Map<UUID, Map<string, PromptTemplateUsage>>();
+  // Messages being handled, which a reload waits for, and the reload in progress, which
+  // new messages wait for
+  private activeMessages = 0;
+  private messagesDrained?: () => void;
+  private reloading?: Promise<unknown>;
   public messageService: IMessageService | null = null; // Lazily initialized
 
   constructor(opts: {
@@ -173,6 +290,8 @@ export class AgentRuntime implements IAgentRuntime {
     adapter?: IDatabaseAdapter;
     settings?: RuntimeSettings;
     allAvailablePlugins?: Plugin[];
+    /** Overrides the state cache limits and backend read from settings */
+    stateCache?: StateCacheOptions;
   }) {
     // Generate deterministic UUID from character name for backward compatibility
     // Falls back to random UUID only if no character name is provided
@@ -220,6 +339,49 @@ export class AgentRuntime implements IAgentRuntime {
     } else {
       this.maxWorkingMemoryEntries = getNumberEnv('MAX_WORKING_MEMORY_ENTRIES', 50) as number;
     }
+
+    this.stateCache = this.createStateCache(opts.stateCache);
+
+    for (const definition of CORE_PROMPT_TEMPLATES) {
+      this.registerPromptTemplate(definition, CORE_PROMPT_TEMPLATE_SOURCE);
+    }
+  }
+
+  /**
+   * Creates the state cache, bounded by the STATE_CACHE_MAX_ENTRIES, STATE_CACHE_MAX_BYTES
+   * and STATE_CACHE_TTL_MS settings. STATE_CACHE_SHARED shares it with the other runtimes
+   * of this agent through the database cache.
+   */
+  private createStateCache(options: StateCacheOptions = {}): StateCache {
+    const setting = (key: string) => (this.character ? this.getSetting(key) : this.settings[key]);
+    const numberSetting = (key: string): number | undefined => {
+      const value = setting(key);
+      if (value === null || value === undefined || value === '' || Number.isNaN(Number(value))) {
+        return undefined;
+      }
+      return Number(value);
+    };
+    const shared = String(setting('STATE_CACHE_SHARED')) === 'true';
+
+    return new StateCache({
+      maxEntries: numberSetting('STATE_CACHE_MAX_ENTRIES'),
+      maxBytes: numberSetting('STATE_CACHE_MAX_BYTES'),
+      ttlMs: numberSetting('STATE_CACHE_TTL_MS'),
+      backend: shared ? createDatabaseStateCacheBackend(this) : undefined,
+      // Only composed state is read back through `fetch`; action results stay local
+      shareKey: (key) => !key.endsWith('_action_results'),
+      onBackendError: (error, operation) =>
+        this.logger.warn(
+          {
+            src: 'agent',
+            agentId: this.agentId,
+            operation,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'State cache backend failed'
+        ),
+      ...options,
+    });
   }
 
   /**
@@ -318,6 +480,11 @@ export class AgentRuntime implements IAgentRuntime {
         this.registerProvider(provider);
       }
     }
+    if (plugin.templates) {
+      for (const definition of plugin.templates) {
+        this.registerPromptTemplate(definition, plugin.name);
+      }
+    }
     if (plugin.models) {
       for (const [modelType, handler] of Object.entries(plugin.models)) {
         this.registerModel(
@@ -393,6 +560,253 @@ export class AgentRuntime implements IAgentRuntime {
     }
   }
 
+  async unregisterPlugin(pluginName: string): Promise<void> {
+    const plugin = this.plugins.find((p) => p.name === pluginName);
+    if (!plugin) {
+      this.logger.warn(
+        { src: 'agent', agentId: this.agentId, plugin: pluginName },
+        'Plugin not registered, skipping'
+      );
+      return;
+    }
+    if (plugin.adapter) {
+      throw new Error(
+        `unregisterPlugin: ${pluginName} provides the database adapter and cannot be unregistered`
+      );
+    }
+
+    // Stop the services first, while the rest of the plugin is still available to them
+    for (const serviceDef of plugin.services ?? []) {
+      const serviceType = serviceDef.serviceType as ServiceTypeName;
+      const definitions = this.serviceTypes.get(serviceType) ?? [];
+      const instances = this.services.get(serviceType) ?? [];
+      // registerService pushes definitions and instances together, so their indexes match
+      const index = definitions.indexOf(serviceDef);
+      if (index !== -1) {
+        definitions.splice(index, 1);
+        const [service] = instances.splice(index, 1);
+        try {
+          await service?.stop();
+          this.logger.debug(
+            { src: 'agent', agentId: this.agentId, plugin: pluginName, serviceType },
+            'Service stopped'
+          );
+        } catch (error) {
+          this.logger.error(
+            {
+              src: 'agent',
+              agentId: this.agentId,
+              plugin: pluginName,
+              serviceType,
+              error: error instanceof Error ? error.message : String(error),
+            },
+            'Service failed to stop'
+          );
+        }
+      }
+      if (instances.length === 0) {
+        this.services.delete(serviceType);
+        this.serviceTypes.delete(serviceType);
+        this.servicePromises.delete(serviceType);
+        this.servicePromiseHandlers.delete(serviceType);
+        this.serviceRegistrationStatus.delete(serviceType);
+      }
+    }
+
+    removeItems(this.actions, plugin.actions);
+    removeItems(this.providers, plugin.providers);
+    removeItems(this.evaluators, plugin.evaluators);
+    for (const [modelKey, handlers] of this.models) {
+      const remaining = handlers.filter((handler) => handler.provider !== plugin.name);
+      if (remaining.length > 0) {
+        this.models.set(modelKey, remaining);
+      } else {
+        this.models.delete(modelKey);
+      }
+    }
+    const routePrefix = `/${plugin.name}/`;
+    this.routes = this.routes.filter((route) => !route.path.startsWith(routePrefix));
+    for (const [eventName, handlers] of Object.entries(plugin.events ?? {})) {
+      const registered = this.events[eventName];
+      if (registered) {
+        removeItems(registered, handlers as unknown as typeof registered);
+      }
+    }
+    for (const [name, { source }] of this.promptTemplates) {
+      if (source === plugin.name) {
+        this.promptTemplates.delete(name);
+      }
+    }
+
+    removeItems(this.plugins, [plugin]);
+    this.logger.debug(
+      { src: 'agent', agentId: this.agentId, plugin: pluginName },
+      'Plugin removed'
+    );
+  }
+
+  async reload(options: AgentReloadOptions): Promise<AgentReloadResult> {
+    // A handler of this agent waiting for the reload would keep it from draining, so the
+    // reload runs outside the handler once the handler has finished
+    if (getMessageHandlingContext()?.agentIds.includes(this.agentId)) {
+      this.logger.info(
+        { src: 'agent', agentId: this.agentId },
+        'Deferring reload requested while handling a message'
+      );
+      runWithMessageHandlingContext(undefined, () => this.reload(options)).catch((error) => {
+        this.logger.error(
+          {
+            src: 'agent',
+            agentId: this.agentId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Deferred reload failed'
+        );
+      });
+      return { addedPlugins: [], removedPlugins: [], deferred: true };
+    }
+
+    // Reloads run one at a time
+    while (this.reloading) {
+      await this.reloading.catch(() => undefined);
+    }
+    const reload = this.applyReload(options);
+    this.reloading = reload;
+    try {
+      return await reload;
+    } finally {
+      this.reloading = undefined;
+    }
+  }
+
+  async trackMessage<T>(handler: () => Promise<T>): Promise<T> {
+    const context = getMessageHandlingContext();
+    // A message handled from within another of this agent's handlers is part of it
+    if (!context?.agentIds.includes(this.agentId)) {
+      while (this.reloading) {
+        await this.reloading.catch(() => undefined);
+      }
+    }
+    this.activeMessages++;
+    try {
+      return await runWithMessageHandlingContext(
+        { agentIds: [...(context?.agentIds ?? []), this.agentId] },
+        handler
+      );
+    } finally {
+      this.activeMessages--;
+      if (this.activeMessages === 0) {
+        this.messagesDrained?.();
+      }
+    }
+  }
+
+  /**
+   * Waits until no message is being handled
+   *
+   * @throws AgentReloadError when messages are still being handled after the timeout
+   */
+  private async waitForMessages(timeoutMs: number): Promise<void> {
+    if (this.activeMessages === 0) {
+      return;
+    }
+    this.logger.info(
+      { src: 'agent', agentId: this.agentId, messages: this.activeMessages },
+      'Waiting for in-flight messages before reload'
+    );
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        this.messagesDrained = resolve;
+        timer = setTimeout(() => {
+          reject(
+            new AgentReloadError(
+              `Timed out after ${timeoutMs}ms waiting for ${this.activeMessages} in-flight message(s)`
+            )
+          );
+        }, timeoutMs);
+      });
+    } finally {
+      clearTimeout(timer);
+      this.messagesDrained = undefined;
+    }
+  }
+
+  private async applyReload(options: AgentReloadOptions): Promise<AgentReloadResult> {
+    await this.waitForMessages(options.drainTimeoutMs ?? DEFAULT_RELOAD_DRAIN_TIMEOUT_MS);
+
+    const isRegistered = (name: string) => this.plugins.some((p) => p.name === name);
+    const removed = (options.removePlugins ?? []).filter(isRegistered);
+    const added = (options.addPlugins ?? []).filter((plugin) => !isRegistered(plugin.name));
+    for (const name of removed) {
+      if (this.plugins.find((p) => p.name === name)?.adapter) {
+        throw new AgentReloadError(
+          `Plugin ${name} provides the database adapter and cannot be removed from a running agent`
+        );
+      }
+    }
+
+    // Everything that can fail happens before plugins are removed, and is rolled back
+    const previousCharacter = { ...this.character };
+    const registered: Plugin[] = [];
+    try {
+      if (options.character) {
+        Object.assign(this.character, options.character);
+      }
+      // Tables must exist before the plugins' services start
+      if (added.some((plugin) => plugin.schema)) {
+        await this.migratePlugins(added);
+      }
+      for (const plugin of added) {
+        registered.push(plugin);
+        await this.registerPlugin(plugin);
+        for (const service of plugin.services ?? []) {
+          await this.getServiceLoadPromise(service.serviceType as ServiceTypeName);
+        }
+      }
+      this.validatePromptTemplateOverrides(new Set(removed));
+    } catch (error) {
+      for (const plugin of registered.reverse()) {
+        await this.unregisterPlugin(plugin.name).catch((unregisterError) => {
+          this.logger.error(
+            {
+              src: 'agent',
+              agentId: this.agentId,
+              plugin: plugin.name,
+              error:
+                unregisterError instanceof Error
+                  ? unregisterError.message
+                  : String(unregisterError),
+            },
+            'Failed to roll back plugin'
+          );
+        });
+      }
+      replaceCharacter(this.character, previousCharacter);
+      if (error instanceof AgentReloadError) {
+        throw error;
+      }
+      throw new AgentReloadError(
+        `Failed to reload agent: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    for (const name of removed) {
+      await this.unregisterPlugin(name);
+    }
+
+    // Cached state and provider results may come from the previous configuration
+    this.stateCache.clear();
+    this.providerResultCache.clear();
+
+    const result = {
+      addedPlugins: added.map((plugin) => plugin.name),
+      removedPlugins: removed,
+    };
+    this.logger.info({ src: 'agent', agentId: this.agentId, ...result }, 'Agent reloaded');
+    return result;
+  }
+
   getAllServices(): Map<ServiceTypeName, Service[]> {
     return this.services;
   }
@@ -405,6 +819,8 @@ export class AgentRuntime implements IAgentRuntime {
         await service.stop();
       }
     }
+    // Write the state composed last to the shared backend while the adapter is still open
+    await this.stateCache.flush();
 
     this.elizaOS = undefined;
   }
@@ -423,6 +839,8 @@ export class AgentRuntime implements IAgentRuntime {
     }
     await Promise.all(pluginRegistrationPromises);
 
+    this.validatePromptTemplateOverrides();
+
     if (!this.adapter) {
       this.logger.error(
         { src: 'agent', agentId: this.agentId },
@@ -454,6 +872,11 @@ export class AgentRuntime implements IAgentRuntime {
 
     this.mergeAgentSettings(existingAgent);
 
+    // Overrides saved through the API, unless the character file sets the same template
+    if (existingAgent.templates && Object.keys(existingAgent.templates).length > 0) {
+      this.character.templates = { ...existingAgent.templates, ...this.character.templates };
+    }
+
     await Promise.all([
       this.ensureWorldExists({
         id: this.agentId,
@@ -569,6 +992,13 @@ export class AgentRuntime implements IAgentRuntime {
   }
 
   async runPluginMigrations(): Promise<void> {
+    await this.migratePlugins(this.plugins);
+  }
+
+  /**
+   * Runs the schema migrations of the given plugins
+   */
+  private async migratePlugins(plugins: Plugin[]): Promise<void> {
     if (!this.adapter) {
       this.logger.warn(
         { src: 'agent', agentId: this.agentId },
@@ -585,7 +1015,7 @@ export class AgentRuntime implements IAgentRuntime {
       return;
     }
 
-    const pluginsWithSchemas = this.plugins
+    const pluginsWithSchemas = plugins
       .filter((p) => p.schema)
       .map((p) => {
         const schema = p.schema || {};
@@ -744,6 +1174,92 @@ export class AgentRuntime implements IAgentRuntime {
     this.evaluators.push(evaluator);
   }
 
+  registerPromptTemplate(
+    definition: PromptTemplateDefinition,
+    source: string = CORE_PROMPT_TEMPLATE_SOURCE
+  ): void {
+    const existing = this.promptTemplates.get(definition.name);
+    if (existing) {
+      this.logger.warn(
+        {
+          src: 'agent',
+          agentId: this.agentId,
+          template: definition.name,
+          source,
+          registeredBy: existing.source,
+        },
+        'Prompt template already registered, skipping'
+      );
+      return;
+    }
+    this.promptTemplates.set(definition.name, { definition, source });
+  }
+
+  getPromptTemplates(): PromptTemplateInfo[] {
+    return Array.from(this.promptTemplates.values(), ({ definition, source }) =>
+      describePromptTemplate(definition, source, this.character.templates?.[definition.name])
+    );
+  }
+
+  getPromptTemplate(name: string): TemplateType {
+    const override = this.character.templates?.[name];
+    const template = override ?? this.promptTemplates.get(name)?.definition.template;
+    if (template === undefined) {
+      throw new Error(`Unknown prompt template: ${name}`);
+    }
+
+    if (this.currentRunId) {
+      let usages = this.runPromptTemplates.get(this.currentRunId);
+      if (!usages) {
+        usages = new Map();
+        this.runPromptTemplates.set(this.currentRunId, usages);
+        if (this.runPromptTemplates.size > MAX_TRACKED_TEMPLATE_RUNS) {
+          this.runPromptTemplates.delete(this.runPromptTemplates.keys().next().value!);
+        }
+      }
+      usages.set(name, {
+        name,
+        version: getPromptTemplateVersion(template),
+        overridden: override !== undefined,
+      });
+    }
+    return template;
+  }
+
+  getRunPromptTemplates(runId: UUID): PromptTemplateUsage[] {
+    return Array.from(this.runPromptTemplates.get(runId)?.values() ?? []);
+  }
+
+  /**
+   * Checks the character's template overrides against the registered templates, logging
+   * warnings and failing on overrides that cannot be rendered
+   *
+   * @param ignoredSources - Plugins whose templates are about to be unregistered
+   */
+  private validatePromptTemplateOverrides(ignoredSources: ReadonlySet<string> = new Set()): void {
+    const definitions = new Map(
+      Array.from(this.promptTemplates)
+        .filter(([, { source }]) => !ignoredSources.has(source))
+        .map(([name, { definition }]) => [name, definition])
+    );
+    const issues = validatePromptTemplates(this.character.templates, definitions);
+    for (const issue of issues.filter((issue) => issue.severity === 'warning')) {
+      this.logger.warn(
+        { src: 'agent', agentId: this.agentId, template: issue.template },
+        issue.message
+      );
+    }
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    if (errors.length > 0) {
+      throw new PromptTemplateError(
+        `Invalid prompt template overrides: ${errors
+          .map((issue) => `${issue.template}: ${issue.message}`)
+          .join('; ')}`,
+        errors
+      );
+    }
+  }
+
   // Helper functions for immutable action plan updates
   private updateActionPlan<T>(plan: T, updates: Partial<T>): T {
     return { ...plan, ...updates };
@@ -850,7 +1366,7 @@ export class AgentRuntime implements IAgentRuntime {
         'Available actions'
       );
 
-      for (const responseAction of actions) {
+      for (const [position, responseAction] of actions.entries()) {
         // Update current step in plan immutably
         if (actionPlan) {
           actionPlan = this.updateActionPlan(actionPlan, { currentStep: actionIndex + 1 });
@@ -868,6 +1384,12 @@ export class AgentRuntime implements IAgentRuntime {
           accumulatedState.data.actionResults = actionResults;
         }
 
+        // Parameters chosen by the model, e.g. tool call arguments, reach the handler
+        // the same way as in multi-step mode
+        if (response.content.actionParameters && accumulatedState.data) {
+          accumulatedState.data.actionParams = response.content.actionParameters[position] ?? {};
+        }
+
         this.logger.debug(
           { src: 'agent', agentId: this.agentId, action: responseAction },
           'Processing action'
@@ -1681,7 +2203,7 @@ export class AgentRuntime implements IAgentRuntime {
       text: '',
     } as State;
     const cachedState =
-      skipCache || !message.id ? emptyObj : (await this.stateCache.get(message.id)) || emptyObj;
+      skipCache || !message.id ? emptyObj : (await this.stateCache.fetch(message.id)) || emptyObj;
     const providerNames = new Set<string>();
     if (filterList && filterList.length > 0) {
       filterList.forEach((name) => providerNames.add(name));
@@ -1696,10 +2218,15 @@ export class AgentRuntime implements IAgentRuntime {
     const providersToGet = Array.from(
       new Set(this.providers.filter((p) => providerNames.has(p.name)))
     ).sort((a, b) => (a.position || 0) - (b.position || 0));
+    const composeStart = Date.now();
     const providerData = await Promise.all(
       providersToGet.map(async (provider) => {
         const start = Date.now();
-        const result = await provider.get(this as IAgentRuntime, message, cachedState);
+        const { result, cached, timedOut } = await this.getProviderResult(
+          provider,
+          message,
+          cachedState
+        );
         const duration = Date.now() - start;
 
         // only need to inform if it's taking a long time
@@ -1712,9 +2239,27 @@ export class AgentRuntime implements IAgentRuntime {
         return {
           ...result,
           providerName: provider.name,
+          timing: { provider: provider.name, durationMs: duration, cached, timedOut },
         };
       })
     );
+
+    // Record where the time went, so slow providers show up in the run timeline. States
+    // answered entirely from the provider cache are not logged, as composeState runs
+    // several times per message.
+    if (providerData.some(({ timing }) => !timing.cached)) {
+      this.adapter.log({
+        entityId: message.entityId,
+        roomId: message.roomId,
+        type: 'providers',
+        body: {
+          runId: this.getCurrentRunId(),
+          messageId: message.id,
+          durationMs: Date.now() - composeStart,
+          providers: providerData.map(({ timing }) => timing),
+        },
+      });
+    }
     const currentProviderResults: Record<
       string,
       { text?: string; values?: Record<string, unknown>; providerName: string }
@@ -1724,7 +2269,7 @@ export class AgentRuntime implements IAgentRuntime {
         { text?: string; values?: Record<string, unknown>; providerName: string }
       >) || {}),
     };
-    for (const freshResult of providerData) {
+    for (const { timing: _timing, ...freshResult } of providerData) {
       currentProviderResults[freshResult.providerName] = freshResult;
     }
     const orderedTexts: string[] = [];
@@ -1777,6 +2322,66 @@ export class AgentRuntime implements IAgentRuntime {
     return newState;
   }
 
+  /**
+   * Runs a provider, reusing its cached result for the message's room and sender while its
+   * `cacheTtlMs` lasts. A provider that exceeds its `timeoutMs` contributes an empty result.
+   */
+  private async getProviderResult(
+    provider: Provider,
+    message: Memory,
+    state: State
+  ): Promise<{ result: ProviderResult; cached: boolean; timedOut: boolean }> {
+    // The cache belongs to this runtime, so results are never shared between agents
+    const cacheKey = `${provider.name}:${message.roomId}:${message.entityId}`;
+    if (provider.cacheTtlMs && provider.cacheTtlMs > 0) {
+      const entry = this.providerResultCache.get(cacheKey);
+      if (entry && entry.expiresAt > Date.now()) {
+        return { result: entry.result, cached: true, timedOut: false };
+      }
+    }
+
+    const pending = provider.get(this as IAgentRuntime, message, state);
+    let result: ProviderResult;
+    if (provider.timeoutMs && provider.timeoutMs > 0) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), provider.timeoutMs);
+      });
+      const settled = await Promise.race([pending, timeout]).finally(() => clearTimeout(timer));
+      if (settled === null) {
+        this.logger.warn(
+          {
+            src: 'agent',
+            agentId: this.agentId,
+            provider: provider.name,
+            timeoutMs: provider.timeoutMs,
+          },
+          'Provider timed out'
+        );
+        // The late result is dropped, but its failure must not go unhandled
+        pending.catch(() => {});
+        return { result: {}, cached: false, timedOut: true };
+      }
+      result = settled;
+    } else {
+      result = await pending;
+    }
+
+    if (provider.cacheTtlMs && provider.cacheTtlMs > 0) {
+      const now = Date.now();
+      for (const [key, entry] of this.providerResultCache) {
+        if (entry.expiresAt <= now) {
+          this.providerResultCache.delete(key);
+        }
+      }
+      this.providerResultCache.set(cacheKey, {
+        result,
+        expiresAt: Date.now() + provider.cacheTtlMs,
+      });
+    }
+    return { result, cached: false, timedOut: false };
+  }
+
   getService<T extends Service = Service>(serviceName: ServiceTypeName | string): T | null {
     const serviceInstances = this.services.get(serviceName as ServiceTypeName);
     if (!serviceInstances || serviceInstances.length === 0) {
@@ -1888,6 +2493,13 @@ export class AgentRuntime implements IAgentRuntime {
     return health;
   }
 
+  /**
+   * Get the hit, miss and eviction counts and the size of the state cache
+   */
+  getStateCacheMetrics(): StateCacheMetrics {
+    return this.stateCache.getMetrics();
+  }
+
   async registerService(serviceDef: typeof Service): Promise<void> {
     const serviceType = serviceDef.serviceType as ServiceTypeName;
     const serviceName = serviceDef.name || 'Unknown';
@@ -2150,6 +2762,263 @@ export class AgentRuntime implements IAgentRuntime {
     return Object.keys(modelSettings).length > 0 ? modelSettings : null;
   }
 
+  private getModelBudgets(): ModelBudgetConfig {
+    // Budgets may be a nested object in character settings, which getSetting does not return
+    return parseModelBudgets(
+      this.getSetting(MODEL_BUDGETS_SETTING) ?? this.character.settings?.[MODEL_BUDGETS_SETTING]
+    );
+  }
+
+  private async emitModelBudgetEvent(
+    event: EventType.MODEL_BUDGET_WARNING | EventType.MODEL_BUDGET_EXCEEDED,
+    breach: ModelBudgetBreach,
+    extra: { action?: 'reject' | 'fallback'; fallbackModel?: ModelTypeName } = {}
+  ): Promise<void> {
+    const { modelType, ...rest } = breach;
+    await this.emitEvent(event, {
+      runtime: this,
+      source: 'runtime',
+      type: modelType,
+      ...rest,
+      ...extra,
+    });
+  }
+
+  /**
+   * Applies the model type's budget before a call.
+   * @returns The model type to call, which is the fallback model once a hard limit is reached
+   * @throws ModelBudgetExceededError when a hard limit is reached and there is no usable fallback
+   */
+  private async enforceModelBudget(modelKey: ModelTypeName): Promise<ModelTypeName> {
+    const budgets = this.getModelBudgets();
+    const budget = budgets[modelKey];
+    if (!budget) {
+      return modelKey;
+    }
+
+    await this.modelBudgetTracker.sync();
+    for (const warning of this.modelBudgetTracker.takeWarnings(modelKey, budget)) {
+      await this.emitModelBudgetEvent(EventType.MODEL_BUDGET_WARNING, warning);
+    }
+
+    const exceeded = this.modelBudgetTracker.getExceeded(modelKey, budget);
+    if (!exceeded) {
+      return modelKey;
+    }
+
+    const fallbackModel = budget.fallbackModel ?? DEFAULT_BUDGET_FALLBACKS[modelKey];
+    const fallbackBudget = fallbackModel ? budgets[fallbackModel] : undefined;
+    const canFallback =
+      budget.onHardLimit !== 'reject' &&
+      fallbackModel &&
+      fallbackModel !== modelKey &&
+      this.getModel(fallbackModel) &&
+      !(fallbackBudget && this.modelBudgetTracker.getExceeded(fallbackModel, fallbackBudget));
+
+    if (canFallback) {
+      this.logger.warn(
+        { src: 'agent', agentId: this.agentId, model: modelKey, fallbackModel, ...exceeded },
+        'Model budget exceeded, falling back'
+      );
+      await this.emitModelBudgetEvent(EventType.MODEL_BUDGET_EXCEEDED, exceeded, {
+        action: 'fallback',
+        fallbackModel,
+      });
+      return fallbackModel;
+    }
+
+    this.logger.warn(
+      { src: 'agent', agentId: this.agentId, model: modelKey, ...exceeded },
+      'Model budget exceeded, rejecting call'
+    );
+    await this.emitModelBudgetEvent(EventType.MODEL_BUDGET_EXCEEDED, exceeded, {
+      action: 'reject',
+    });
+    throw new ModelBudgetExceededError(exceeded);
+  }
+
+  /**
+   * Counts a reported model call against its budget and emits newly crossed soft limits
+   */
+  private async recordModelBudgetUsage(payload: ModelEventPayload): Promise<void> {
+    const budget = this.getModelBudgets()[payload.type];
+    if (!budget || !payload.tokens) {
+      return;
+    }
+
+    const price = resolveModelPrice(
+      parseModelPriceTable(this.getSetting(MODEL_PRICING_SETTING)),
+      payload.provider,
+      payload.model
+    );
+    this.modelBudgetTracker.record(payload.type, {
+      tokens: payload.tokens.total,
+      cost: estimateModelCost(payload.tokens, price) ?? 0,
+    });
+    for (const warning of this.modelBudgetTracker.takeWarnings(payload.type, budget)) {
+      await this.emitModelBudgetEvent(EventType.MODEL_BUDGET_WARNING, warning);
+    }
+  }
+
+  private getModelCircuit(provider: string): CircuitBreaker {
+    let circuit = this.modelCircuits.get(provider);
+    if (!circuit) {
+      circuit = new CircuitBreaker({
+        failureThreshold:
+          Number(this.getSetting(MODEL_CIRCUIT_FAILURE_THRESHOLD_SETTING)) ||
+          DEFAULT_CIRCUIT_FAILURE_THRESHOLD,
+        resetTimeoutMs:
+          Number(this.getSetting(MODEL_CIRCUIT_RESET_SETTING)) || DEFAULT_CIRCUIT_RESET_MS,
+      });
+      this.modelCircuits.set(provider, circuit);
+    }
+    return circuit;
+  }
+
+  /**
+   * Calls model handlers in priority order until one answers, skipping providers whose
+   * circuit is open. Each handler runs in its own model call context, which completes
+   * the MODEL_USED event it emits.
+   * @returns The response, the provider that answered, the providers tried before it and
+   * the context of the answering handler
+   * @throws The handler's own error when it was the only provider, ModelUnavailableError otherwise
+   */
+  private async callModelHandlers(
+    modelKey: ModelTypeName,
+    candidates: ModelHandler[],
+    params: Record<string, unknown>,
+    abortSignal?: AbortSignal,
+    eventFields: Pick<ModelEventPayload, 'cache'> = {}
+  ): Promise<{
+    response: unknown;
+    provider: string;
+    fallbacks: ModelFallbackAttempt[];
+    modelCall: ModelCallContext;
+  }> {
+    const timeoutMs = Number(this.getSetting(MODEL_TIMEOUT_SETTING)) || 0;
+    const fallbacks: ModelFallbackAttempt[] = [];
+    let lastError: unknown;
+
+    for (const candidate of candidates) {
+      const circuit = this.getModelCircuit(candidate.provider);
+      if (!circuit.canAttempt()) {
+        fallbacks.push({ provider: candidate.provider, reason: 'circuit_open' });
+        continue;
+      }
+
+      const modelCall: ModelCallContext = {
+        type: modelKey,
+        eventFields: {
+          ...eventFields,
+          ...(fallbacks.length > 0 ? { fallbacks: [...fallbacks] } : {}),
+        },
+      };
+      try {
+        const response = await withModelTimeout(
+          runWithModelCallContext(modelCall, () =>
+            candidate.handler(this as IAgentRuntime, params)
+          ),
+          timeoutMs,
+          candidate.provider
+        );
+        circuit.recordSuccess();
+        return { response, provider: candidate.provider, fallbacks, modelCall };
+      } catch (error) {
+        circuit.recordFailure();
+        modelCall.eventFields = undefined;
+        lastError = error;
+        const message = error instanceof Error ? error.message : String(error);
+        fallbacks.push({
+          provider: candidate.provider,
+          reason: ModelTimeoutError.isModelTimeoutError(error) ? 'timeout' : 'error',
+          error: message,
+        });
+        this.logger.warn(
+          {
+            src: 'agent',
+            agentId: this.agentId,
+            model: modelKey,
+            provider: candidate.provider,
+            error: message,
+          },
+          'Model handler failed'
+        );
+        if (abortSignal?.aborted) {
+          throw error;
+        }
+      }
+    }
+
+    if (lastError !== undefined && candidates.length === 1) {
+      throw lastError;
+    }
+    throw new ModelUnavailableError(modelKey, fallbacks);
+  }
+
+  /**
+   * Response cache TTL for a call, or null when the call must not be cached
+   */
+  private getModelCacheTtl(modelKey: ModelTypeName, params: unknown): number | null {
+    if (
+      !isPlainObject(params) ||
+      this.getSetting(`${modelKey}_${MODEL_CACHE_SETTING_SUFFIX}`) !== true ||
+      !isDeterministicModelCall(params)
+    ) {
+      return null;
+    }
+    return (
+      Number(this.getSetting(`${modelKey}_${MODEL_CACHE_TTL_SETTING_SUFFIX}`)) ||
+      Number(this.getSetting(DEFAULT_MODEL_CACHE_TTL_SETTING)) ||
+      DEFAULT_MODEL_CACHE_TTL_MS
+    );
+  }
+
+  private countModelCacheLookup(modelKey: ModelTypeName, hit: boolean): ModelCacheStatus {
+    const stats = this.modelCacheStats.get(modelKey) ?? { hits: 0, misses: 0 };
+    const updated = hit
+      ? { hits: stats.hits + 1, misses: stats.misses }
+      : { hits: stats.hits, misses: stats.misses + 1 };
+    this.modelCacheStats.set(modelKey, updated);
+    return { hit, ...updated };
+  }
+
+  // Cache failures only cost the cached answer, so they are logged and treated as misses
+  private async readModelCache(key: string): Promise<ModelCacheEntry | undefined> {
+    try {
+      const entry = await this.getCache<ModelCacheEntry>(key);
+      const live = getLiveModelCacheEntry(entry);
+      if (entry !== undefined && !live) {
+        await this.deleteCache(key);
+      }
+      return live;
+    } catch (error) {
+      this.logger.warn(
+        {
+          src: 'agent',
+          agentId: this.agentId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to read model response cache'
+      );
+      return undefined;
+    }
+  }
+
+  private async writeModelCache(key: string, entry: ModelCacheEntry): Promise<void> {
+    try {
+      await this.setCache(key, entry);
+    } catch (error) {
+      this.logger.warn(
+        {
+          src: 'agent',
+          agentId: this.agentId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to write model response cache'
+      );
+    }
+  }
+
   /**
    * Helper to log model calls to the database (used by both streaming and non-streaming paths)
    */
@@ -2160,7 +3029,8 @@ export class AgentRuntime implements IAgentRuntime {
     promptContent: string | null,
     elapsedTime: number,
     provider: string | undefined,
-    response: unknown
+    response: unknown,
+    extras: { fallbacks?: ModelFallbackAttempt[]; cached?: boolean } = {}
   ): void {
     // Log prompts to action context (except embeddings)
     if (modelKey !== ModelType.TEXT_EMBEDDING && promptContent) {
@@ -2190,6 +3060,8 @@ export class AgentRuntime implements IAgentRuntime {
         timestamp: Date.now(),
         executionTime: elapsedTime,
         provider: provider || this.models.get(modelKey)?.[0]?.provider || 'unknown',
+        ...(extras.fallbacks?.length ? { fallbacks: extras.fallbacks } : {}),
+        ...(extras.cached ? { cached: true } : {}),
         actionContext: this.currentActionContext
           ? {
               actionName: this.currentActionContext.actionName,
@@ -2210,7 +3082,9 @@ export class AgentRuntime implements IAgentRuntime {
     params: ModelParamsMap[T],
     provider?: string
   ): Promise<R> {
-    const modelKey = typeof modelType === 'string' ? modelType : ModelType[modelType];
+    const modelKey = await this.enforceModelBudget(
+      typeof modelType === 'string' ? modelType : ModelType[modelType]
+    );
     const paramsObj = params as Record<string, unknown> | null | undefined;
     const promptContent =
       (paramsObj && 'prompt' in paramsObj && typeof paramsObj.prompt === 'string'
@@ -2222,11 +3096,12 @@ export class AgentRuntime implements IAgentRuntime {
       (paramsObj && 'messages' in paramsObj && Array.isArray(paramsObj.messages)
         ? JSON.stringify(paramsObj.messages)
         : null);
-    const model = this.getModel(modelKey);
+    // A requested provider pins the call to that handler; otherwise every registered
+    // handler is a candidate, in priority order
     const modelWithProvider =
       provider && this.models.get(modelKey)?.find((m) => m.provider === provider);
-    const handler = modelWithProvider ? modelWithProvider.handler : model;
-    if (!handler) {
+    const candidates = modelWithProvider ? [modelWithProvider] : (this.models.get(modelKey) ?? []);
+    if (candidates.length === 0) {
       const errorMsg = `No handler found for delegate type: ${modelKey}`;
       throw new Error(errorMsg);
     }
@@ -2329,7 +3204,58 @@ export class AgentRuntime implements IAgentRuntime {
       delete (modelParams as any).onStreamChunk;
     }
 
-    const response = await handler(this as IAgentRuntime, modelParams as Record<string, unknown>);
+    // Calls made with tools return text and tool calls, whatever shape the handler answered in
+    const wantsToolCalls =
+      isPlainObject(modelParams) && Array.isArray((modelParams as GenerateTextParams).tools);
+
+    // Deterministic calls of model types with caching enabled may be answered from the cache
+    const cacheTtlMs =
+      streamingCtx || shouldStream ? null : this.getModelCacheTtl(modelKey, modelParams);
+    let cacheKey: string | undefined;
+    let cacheStatus: ModelCacheStatus | undefined;
+    if (cacheTtlMs !== null) {
+      cacheKey = await getModelCacheKey(
+        modelKey,
+        candidates[0].provider,
+        modelParams as Record<string, unknown>
+      );
+      const cached = await this.readModelCache(cacheKey);
+      cacheStatus = this.countModelCacheLookup(modelKey, cached !== undefined);
+      if (cached) {
+        await this.emitEvent(EventType.MODEL_USED, {
+          runtime: this,
+          source: 'runtime',
+          provider: cached.provider,
+          type: modelKey,
+          prompt: promptContent?.slice(0, 200) ?? '',
+          cache: cacheStatus,
+        });
+        this.logModelCall(
+          modelType,
+          modelKey,
+          params,
+          promptContent,
+          0,
+          cached.provider,
+          cached.value,
+          { cached: true }
+        );
+        return cached.value as R;
+      }
+    }
+
+    const {
+      response,
+      provider: answeredBy,
+      fallbacks,
+      modelCall,
+    } = await this.callModelHandlers(
+      modelKey,
+      candidates,
+      modelParams as Record<string, unknown>,
+      abortSignal,
+      cacheStatus ? { cache: cacheStatus } : {}
+    );
 
     // Stream: broadcast to callbacks if streaming
     if (
@@ -2340,16 +3266,19 @@ export class AgentRuntime implements IAgentRuntime {
       'textStream' in response
     ) {
       let fullText = '';
-      for await (const chunk of (response as TextStreamResult).textStream) {
-        if (abortSignal?.aborted) break;
-        fullText += chunk;
-        try {
-          if (paramsChunk) await paramsChunk(chunk, msgId);
-        } catch {}
-        try {
-          if (ctxChunk) await ctxChunk(chunk, msgId);
-        } catch {}
-      }
+      // Handlers may emit MODEL_USED once their stream is read to the end
+      await runWithModelCallContext(modelCall, async () => {
+        for await (const chunk of (response as TextStreamResult).textStream) {
+          if (abortSignal?.aborted) break;
+          fullText += chunk;
+          try {
+            if (paramsChunk) await paramsChunk(chunk, msgId);
+          } catch {}
+          try {
+            if (ctxChunk) await ctxChunk(chunk, msgId);
+          } catch {}
+        }
+      });
 
       // Signal stream end to allow context to reset state between useModel calls
       const ctxEnd = getStreamingContext()?.onStreamEnd;
@@ -2371,15 +3300,20 @@ export class AgentRuntime implements IAgentRuntime {
         'Model output (stream with callback complete)'
       );
 
+      modelCall.eventFields = undefined;
       this.logModelCall(
         modelType,
         modelKey,
         params,
         promptContent,
         elapsedTime,
-        provider,
-        fullText
+        answeredBy,
+        fullText,
+        { fallbacks }
       );
+      if (wantsToolCalls) {
+        return normalizeToolCallResult(fullText) as R;
+      }
       return fullText as R;
     }
 
@@ -2399,8 +3333,29 @@ export class AgentRuntime implements IAgentRuntime {
       'Model output'
     );
 
-    this.logModelCall(modelType, modelKey, params, promptContent, elapsedTime, provider, response);
-    return response as R;
+    modelCall.eventFields = undefined;
+    this.logModelCall(
+      modelType,
+      modelKey,
+      params,
+      promptContent,
+      elapsedTime,
+      answeredBy,
+      response,
+      { fallbacks }
+    );
+    let result: unknown = response;
+    if (wantsToolCalls) {
+      result = normalizeToolCallResult(response);
+    }
+    if (cacheKey && cacheTtlMs !== null && isCacheableModelResponse(result)) {
+      await this.writeModelCache(cacheKey, {
+        value: result,
+        provider: answeredBy,
+        expiresAt: Date.now() + cacheTtlMs,
+      });
+    }
+    return result as R;
   }
 
   /**
@@ -2471,6 +3426,18 @@ export class AgentRuntime implements IAgentRuntime {
     };
   }
 
+  /**
+   * Generates an object matching a JSON Schema or Zod schema, repairing invalid
+   * responses by sending the validation errors back to the model.
+   */
+  async generateObject<T = unknown>(
+    schema: ObjectSchema<T>,
+    prompt: string,
+    options?: GenerateObjectOptions
+  ): Promise<GenerateObjectResult<T>> {
+    return generateObject(this, schema, prompt, options);
+  }
+
   registerEvent<T extends keyof EventPayloadMap>(event: T, handler: EventHandler<T>): void;
   registerEvent<P extends EventPayload = EventPayload>(
     event: string,
@@ -2490,6 +3457,15 @@ export class AgentRuntime implements IAgentRuntime {
   async emitEvent(event: string | string[], params: unknown) {
     const events = Array.isArray(event) ? event : [event];
     for (const eventName of events) {
+      if (eventName === EventType.MODEL_USED && typeof params === 'object' && params !== null) {
+        const payload = params as ModelEventPayload;
+        const modelCall = getModelCallContext();
+        if (modelCall?.eventFields && modelCall.type === payload.type) {
+          params = { ...modelCall.eventFields, ...payload };
+          modelCall.eventFields = undefined;
+        }
+        await this.recordModelBudgetUsage(params as ModelEventPayload);
+      }
       const eventHandlers = this.events[eventName];
       if (!eventHandlers) {
         continue;
@@ -2615,6 +3591,7 @@ export class AgentRuntime implements IAgentRuntime {
         ...existingAgent, // Keep all DB-persisted data
         ...agent, // Override with character.json values
         settings: mergedSettings, // Use intelligently merged settings
+        templates: { ...existingAgent.templates, ...agent.templates }, // Keep API-edited overrides
         id: agent.id,
         updatedAt: Date.now(),
       };
@@ -2848,8 +3825,19 @@ export class AgentRuntime implements IAgentRuntime {
     worldId?: UUID;
     entityId?: UUID;
     tableName: string;
+    hybrid?: HybridSearchOptions;
+    includeShared?: boolean;
   }): Promise<Memory[]> {
     const memories = await this.adapter.searchMemories(params);
+    if (params.query && params.hybrid) {
+      // Adapters without hybrid support return plain vector results, which are still
+      // fused with BM25 here, though exact matches outside them cannot be recovered
+      if (memories.some((memory) => memory.hybridScore !== undefined)) {
+        return memories;
+      }
+      const count = params.count ?? memories.length;
+      return fuseHybridSearchResults(params.query, memories, [], count, params.hybrid);
+    }
     if (params.query) {
       const rerankedMemories = await this.rerankMemories(params.query, memories);
       return rerankedMemories;
@@ -2902,8 +3890,16 @@ export class AgentRuntime implements IAgentRuntime {
   async deleteAllMemories(roomId: UUID, tableName: string): Promise<void> {
     await this.adapter.deleteAllMemories(roomId, tableName);
   }
-  async countMemories(roomId: UUID, unique?: boolean, tableName?: string): Promise<number> {
-    return await this.adapter.countMemories(roomId, unique, tableName);
+  async countMemories(
+    roomId: UUID,
+    unique?: boolean,
+    tableName?: string,
+    start?: number
+  ): Promise<number> {
+    return await this.adapter.countMemories(roomId, unique, tableName, start);
+  }
+  async getMemoryTableNames(roomId: UUID): Promise<string[]> {
+    return (await this.adapter.getMemoryTableNames?.(roomId)) ?? [];
   }
   async getLogs(params: {
     entityId?: UUID;
@@ -3036,6 +4032,10 @@ export class AgentRuntime implements IAgentRuntime {
   async deleteCache(key: string): Promise<boolean> {
     return await this.adapter.deleteCache(key);
   }
+  async getCacheEntries(): Promise<Array<{ key: string; value: unknown }>> {
+    return (await this.adapter.getCacheEntries?.()) ?? [];
+  }
+
   async createTask(task: Task): Promise<UUID> {
     return await this.adapter.createTask(task);
   }
@@ -3054,6 +4054,47 @@ export class AgentRuntime implements IAgentRuntime {
   async deleteTask(id: UUID): Promise<void> {
     await this.adapter.deleteTask(id);
   }
+  async claimTask(id: UUID, owner: string, leaseMs: number): Promise<Task | null> {
+    // Adapters without lease support can only be shared by a single runtime
+    if (!this.adapter.claimTask) {
+      return await this.adapter.getTask(id);
+    }
+    return await this.adapter.claimTask(id, owner, leaseMs);
+  }
+  async createTaskExecution(execution: TaskExecution): Promise<void> {
+    await this.adapter.createTaskExecution?.(execution);
+  }
+  async getTaskExecutions(params: {
+    taskId?: UUID;
+    limit?: number;
+    offset?: number;
+  }): Promise<TaskExecution[]> {
+    return (await this.adapter.getTaskExecutions?.(params)) ?? [];
+  }
+  async deleteTaskExecutions(params: { taskId?: UUID; before?: number }): Promise<number> {
+    return (await this.adapter.deleteTaskExecutions?.(params)) ?? 0;
+  }
+  async createModelUsage(record: ModelUsageRecord): Promise<void> {
+    await this.adapter.createModelUsage?.(record);
+  }
+  async getModelUsage(params: {
+    runId?: UUID;
+    from?: number;
+    to?: number;
+    limit?: number;
+    offset?: number;
+  }): Promise<ModelUsageRecord[]> {
+    return (await this.adapter.getModelUsage?.(params)) ?? [];
+  }
+  async getModelUsageRollup(params: {
+    groupBy: ModelUsageGroupBy;
+    runId?: UUID;
+    from?: number;
+    to?: number;
+    limit?: number;
+  }): Promise<ModelUsageRollup[]> {
+    return (await this.adapter.getModelUsageRollup?.(params)) ?? [];
+  }
   on(event: string, callback: (data: unknown) => void): void {
     if (!this.eventHandlers.has(event)) {
       this.eventHandlers.set(event, []);
@@ -3,7 +3,7 @@ import type { IAgentRuntime } from '../types/runtime';
 import type { Memory } from '../types/memory';
 import type { Content, UUID, Media, MentionContext } from '../types/primitives';
 import type { State } from '../types/state';
-import type { HandlerCallback } from '../types/components';
+import type { Action, HandlerCallback } from '../types/components';
 import type { Room } from '../types/environment';
 import {
   type IMessageService,
@@ -19,12 +19,7 @@ import {
   asUUID,
   createUniqueUuid,
   composePromptFromState,
-  imageDescriptionTemplate,
-  messageHandlerTemplate,
-  shouldRespondTemplate,
   type RunEventPayload,
-  multiStepDecisionTemplate,
-  multiStepSummaryTemplate,
   parseKeyValueXml,
   parseBooleanFromText,
   truncateToCompleteSentence,
@@ -36,6 +31,7 @@ import {
   XmlTagExtractor,
   createStreamingContext,
 } from '../utils/streaming';
+import { actionToTool } from '../utils/tool-calling';
 import { runWithStreamingContext, getStreamingContext } from '../streaming-context';
 
 /**
@@ -55,6 +51,7 @@ type ResolvedMessageOptions = {
   timeoutDuration: number;
   useMultiStep: boolean;
   maxMultiStepIterations: number;
+  useToolCalling: boolean;
   onStreamChunk?: (chunk: string, messageId?: UUID) => Promise<void>;
 };
 
@@ -114,13 +111,25 @@ const latestResponseIds = new Map<string, Map<string, string>>();
  */
 export class DefaultMessageService implements IMessageService {
   /**
-   * Main message handling entry point
+   * Main message handling entry point. Messages wait for a reload of the agent in
+   * progress, and reloads wait for the message.
    */
   async handleMessage(
     runtime: IAgentRuntime,
     message: Memory,
     callback?: HandlerCallback,
     options?: MessageProcessingOptions
+  ): Promise<MessageProcessingResult> {
+    return runtime.trackMessage(() =>
+      this.handleTrackedMessage(runtime, message, callback, options)
+    );
+  }
+
+  private async handleTrackedMessage(
+    runtime: IAgentRuntime,
+    message: Memory,
+    callback?: HandlerCallback,
+    options?: MessageProcessingOptions
   ): Promise<MessageProcessingResult> {
     const opts = {
       maxRetries: options?.maxRetries ?? 3,
@@ -131,6 +140,9 @@ export class DefaultMessageService implements IMessageService {
       maxMultiStepIterations:
         options?.maxMultiStepIterations ??
         parseInt(String(runtime.getSetting('MAX_MULTISTEP_ITERATIONS') || '6')),
+      useToolCalling:
+        options?.useToolCalling ??
+        parseBooleanFromText(String(runtime.getSetting('USE_TOOL_CALLING') || '')),
       onStreamChunk: options?.onStreamChunk,
     };
 
@@ -211,11 +223,12 @@ export class DefaultMessageService implements IMessageService {
 
       // Single-shot mode: use top-level streaming context with single extractor
       const streamingContext =
-        opts.onStreamChunk && !useMultiStep
+        opts.onStreamChunk && !useMultiStep && !opts.useToolCalling
           ? createStreamingContext(new ResponseStreamExtractor(), opts.onStreamChunk, responseId)
           : undefined;
       // Multi-step mode: streaming is handled per-phase in runMultiStepCore
       // (action execution and summary generation each get their own streaming context)
+      // Tool calling mode: planning is not streamed, actions stream via processActions
 
       const processingPromise = runWithStreamingContext(streamingContext, () =>
         this.processMessage(runtime, message, callback, responseId, runId, startTime, opts)
@@ -382,7 +395,7 @@ export class DefaultMessageService implements IMessageService {
         // Need LLM evaluation for ambiguous case
         const shouldRespondPrompt = composePromptFromState({
           state,
-          template: runtime.character.templates?.shouldRespondTemplate || shouldRespondTemplate,
+          template: runtime.getPromptTemplate('shouldRespondTemplate'),
         });
 
         runtime.logger.debug(
@@ -419,9 +432,14 @@ export class DefaultMessageService implements IMessageService {
       let mode: StrategyMode = 'none';
 
       if (shouldRespondToMessage) {
-        const result = opts.useMultiStep
-          ? await this.runMultiStepCore(runtime, message, state, callback, opts, responseId)
-          : await this.runSingleShotCore(runtime, message, state, opts, responseId);
+        let result: StrategyResult;
+        if (opts.useMultiStep) {
+          result = await this.runMultiStepCore(runtime, message, state, callback, opts, responseId);
+        } else if (opts.useToolCalling) {
+          result = await this.runToolCallingCore(runtime, message, state, responseId);
+        } else {
+          result = await this.runSingleShotCore(runtime, message, state, opts, responseId);
+        }
 
         responseContent = result.responseContent;
         responseMessages = result.responseMessages;
@@ -465,6 +483,16 @@ export class DefaultMessageService implements IMessageService {
               await callback(responseContent);
             }
           } else if (mode === 'actions') {
+            // Tool calling responses may acknowledge the request before their actions run
+            if (opts.useToolCalling && !opts.useMultiStep && responseContent.text && callback) {
+              await callback({
+                text: responseContent.text,
+                actions: ['REPLY'],
+                simple: true,
+                inReplyTo: responseContent.inReplyTo,
+                responseId,
+              });
+            }
             // Pass onStreamChunk to processActions so each action can manage its own streaming context
             await runtime.processActions(
               message,
@@ -653,6 +681,7 @@ export class DefaultMessageService implements IMessageService {
         status: 'completed',
         endTime: Date.now(),
         duration: Date.now() - startTime,
+        templates: runtime.getRunPromptTemplates(runId),
       } as RunEventPayload);
 
       return {
@@ -681,6 +710,7 @@ export class DefaultMessageService implements IMessageService {
         endTime: Date.now(),
         duration: Date.now() - startTime,
         error: errorMessage,
+        templates: runtime.getRunPromptTemplates(runId),
       } as RunEventPayload);
       throw error;
     }
@@ -809,7 +839,10 @@ export class DefaultMessageService implements IMessageService {
         }
 
         const response = await runtime.useModel(ModelType.IMAGE_DESCRIPTION, {
-          prompt: imageDescriptionTemplate,
+          prompt: composePromptFromState({
+            state: { values: {}, data: {}, text: '' },
+            template: runtime.getPromptTemplate('imageDescriptionTemplate'),
+          }),
           imageUrl,
         });
 
@@ -932,7 +965,7 @@ export class DefaultMessageService implements IMessageService {
 
     const prompt = composePromptFromState({
       state,
-      template: runtime.character.templates?.messageHandlerTemplate || messageHandlerTemplate,
+      template: runtime.getPromptTemplate('messageHandlerTemplate'),
     });
 
     let responseContent: Content | null = null;
@@ -1191,6 +1224,110 @@ Wrap your continuation in <text></text> tags.`;
     };
   }
 
+  /**
+   * Tool calling strategy: one LLM call with the available actions offered as native tools.
+   * Tool calls become the actions to run, with their arguments as action parameters.
+   */
+  private async runToolCallingCore(
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State,
+    responseId: UUID
+  ): Promise<StrategyResult> {
+    state = await runtime.composeState(message, ['ACTIONS']);
+
+    // Replying and ignoring are expressed by the text of the response instead of tools
+    const builtInActions = ['REPLY', 'IGNORE', 'NONE'];
+    const providersData = state.data?.providers as
+      | { ACTIONS?: { data?: { actionsData?: Action[] } } }
+      | undefined;
+    const actions = (providersData?.ACTIONS?.data?.actionsData ?? []).filter(
+      (action) => !builtInActions.includes(action.name.toUpperCase())
+    );
+    const tools = actions.map(actionToTool);
+
+    const prompt = composePromptFromState({
+      state,
+      template: runtime.getPromptTemplate('toolCallingTemplate'),
+    });
+
+    const response = await runtime.useModel(ModelType.TEXT_LARGE, {
+      prompt,
+      tools,
+      toolChoice: tools.length > 0 ? 'auto' : 'none',
+      stream: false,
+    });
+
+    const actionNames = new Set(actions.map((action) => action.name));
+    const toolCalls = response.toolCalls.filter((call) => {
+      if (!actionNames.has(call.name)) {
+        runtime.logger.warn(
+          { src: 'service:message', agentId: runtime.agentId, tool: call.name },
+          'Model called an unknown tool, skipping'
+        );
+        return false;
+      }
+      return true;
+    });
+    const text = response.text.trim();
+
+    runtime.logger.debug(
+      {
+        src: 'service:message',
+        toolCalls: toolCalls.map((call) => call.name),
+        hasText: !!text,
+        finishReason: response.finishReason,
+      },
+      'Tool calling response received'
+    );
+
+    let responseContent: Content;
+    let mode: StrategyMode;
+    if (toolCalls.length > 0) {
+      responseContent = {
+        thought: `Calling tools: ${toolCalls.map((call) => call.name).join(', ')}`,
+        actions: toolCalls.map((call) => call.name),
+        actionParameters: toolCalls.map((call) => call.arguments),
+        providers: [],
+        text,
+        simple: false,
+      };
+      mode = 'actions';
+    } else if (text) {
+      responseContent = {
+        thought: 'Responding without tool calls',
+        actions: ['REPLY'],
+        providers: [],
+        text,
+        simple: true,
+      };
+      mode = 'simple';
+    } else {
+      responseContent = {
+        thought: 'No response or tool calls from the model',
+        actions: ['IGNORE'],
+        providers: [],
+        text: '',
+        simple: false,
+      };
+      mode = 'actions';
+    }
+    responseContent.responseId = responseId;
+
+    const responseMessages: Memory[] = [
+      {
+        id: responseId,
+        entityId: runtime.agentId,
+        agentId: runtime.agentId,
+        content: responseContent,
+        roomId: message.roomId,
+        createdAt: Date.now(),
+      },
+    ];
+
+    return { responseContent, responseMessages, state, mode };
+  }
+
   /**
    * Multi-step strategy: iterative action execution with final summary
    */
@@ -1235,8 +1372,7 @@ Wrap your continuation in <text></text> tags.`;
 
       const prompt = composePromptFromState({
         state: accumulatedState,
-        template:
-          runtime.character.templates?.multiStepDecisionTemplate || multiStepDecisionTemplate,
+        template: runtime.getPromptTemplate('multiStepDecisionTemplate'),
       });
 
       // Retry logic for parsing failures with bounds checking
@@ -1702,7 +1838,7 @@ Wrap your continuation in <text></text> tags.`;
     ])) as MultiStepState;
     const summaryPrompt = composePromptFromState({
       state: accumulatedState,
-      template: runtime.character.templates?.multiStepSummaryTemplate || multiStepSummaryTemplate,
+      template: runtime.getPromptTemplate('multiStepSummaryTemplate'),
     });
 
     // Retry logic for summary parsing failures with bounds checking
@@ -1971,6 +2107,7 @@ Wrap your continuation in <text></text> tags.`;
       status: status as 'completed' | 'timeout',
       endTime: Date.now(),
       duration: Date.now() - startTime,
+      templates: runtime.getRunPromptTemplates(runId),
     } as RunEventPayload);
   }
 
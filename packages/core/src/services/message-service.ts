@@ -34,6 +34,13 @@ export interface MessageProcessingOptions {
    */
   maxMultiStepIterations?: number;
 
+  /**
+   * Whether to plan actions with native tool calling instead of XML output.
+   * Actions are offered to the model as tools; ignored when multi-step is enabled.
+   * @default false
+   */
+  useToolCalling?: boolean;
+
   /**
    * Called for each chunk of streaming text as it's generated.
    * Streaming is enabled by default for all TEXT_* model types.
@@ -8,17 +8,21 @@
  * Inspired by OpenTelemetry's StackContextManager for browser environments.
  * @see https://opentelemetry.io/docs/languages/js/context/
  */
-import type { StreamingContext, IStreamingContextManager } from './streaming-context';
+import type {
+  StreamingContext,
+  IContextManager,
+  IStreamingContextManager,
+} from './streaming-context';
 
 /**
  * Stack-based context manager for browser environments.
  * Safe because browser typically has 1 runtime per request.
  * Supports nested contexts via stack push/pop.
  */
-export class StackContextManager implements IStreamingContextManager {
-  private stack: Array<StreamingContext | undefined> = [];
+export class StackContextManager<C = StreamingContext> implements IContextManager<C> {
+  private stack: Array<C | undefined> = [];
 
-  run<T>(context: StreamingContext | undefined, fn: () => T): T {
+  run<T>(context: C | undefined, fn: () => T): T {
     this.stack.push(context);
     try {
       return fn();
@@ -27,7 +31,7 @@ export class StackContextManager implements IStreamingContextManager {
     }
   }
 
-  active(): StreamingContext | undefined {
+  active(): C | undefined {
     return this.stack.length > 0 ? this.stack[this.stack.length - 1] : undefined;
   }
 }
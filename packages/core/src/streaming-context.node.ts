@@ -7,20 +7,24 @@
  * @see https://nodejs.org/api/async_context.html
  */
 import { AsyncLocalStorage } from 'async_hooks';
-import type { StreamingContext, IStreamingContextManager } from './streaming-context';
+import type {
+  StreamingContext,
+  IContextManager,
+  IStreamingContextManager,
+} from './streaming-context';
 
 /**
  * AsyncLocalStorage-based context manager for Node.js.
  * Provides proper async context isolation across parallel async operations.
  */
-export class AsyncLocalStorageContextManager implements IStreamingContextManager {
-  private storage = new AsyncLocalStorage<StreamingContext | undefined>();
+export class AsyncLocalStorageContextManager<C = StreamingContext> implements IContextManager<C> {
+  private storage = new AsyncLocalStorage<C | undefined>();
 
-  run<T>(context: StreamingContext | undefined, fn: () => T): T {
+  run<T>(context: C | undefined, fn: () => T): T {
     return this.storage.run(context, fn);
   }
 
-  active(): StreamingContext | undefined {
+  active(): C | undefined {
     return this.storage.getStore();
   }
 }
@@ -41,23 +41,28 @@ export interface StreamingContext {
 }
 
 /**
- * Interface for streaming context managers.
+ * Interface for context managers.
  * Different implementations exist for Node.js (AsyncLocalStorage) and Browser (Stack).
  */
-export interface IStreamingContextManager {
+export interface IContextManager<C> {
   /**
-   * Run a function with a streaming context.
+   * Run a function with a context.
    * The context will be available to all nested async calls via `active()`.
    */
-  run<T>(context: StreamingContext | undefined, fn: () => T): T;
+  run<T>(context: C | undefined, fn: () => T): T;
 
   /**
-   * Get the currently active streaming context.
+   * Get the currently active context.
    * Returns undefined if no context is active.
    */
-  active(): StreamingContext | undefined;
+  active(): C | undefined;
 }
 
+/**
+ * Interface for streaming context managers.
+ */
+export type IStreamingContextManager = IContextManager<StreamingContext>;
+
 /**
  * Default no-op context manager used before platform-specific manager is configured.
  * Always returns undefined - streaming will not be automatic.
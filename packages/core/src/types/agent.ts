@@ -17,6 +17,55 @@ export type TemplateType =
   | string
   | ((options: { state: State | { [key: string]: string } }) => string);
 
+/**
+ * A prompt template registered by core or a plugin, which characters can override
+ * through `Character.templates`
+ */
+export interface PromptTemplateDefinition {
+  /** Key of the template in `Character.templates` */
+  name: string;
+  /** Default template text */
+  template: string;
+  description?: string;
+}
+
+/**
+ * A registered prompt template with the agent's override, as listed by the runtime
+ */
+export interface PromptTemplateInfo {
+  name: string;
+  description?: string;
+  /** `core` or the name of the plugin that registered the template */
+  source: string;
+  /** Variables the default template reads from state, e.g. `recentMessages` */
+  variables: string[];
+  defaultTemplate: string;
+  defaultVersion: string;
+  /** Override text, or undefined when the template is not overridden or is a function */
+  override?: string;
+  overridden: boolean;
+  /** Version of the template in use */
+  version: string;
+}
+
+/**
+ * A prompt template used during a run
+ */
+export interface PromptTemplateUsage {
+  name: string;
+  version: string;
+  overridden: boolean;
+}
+
+/**
+ * A problem found while validating a template override
+ */
+export interface PromptTemplateIssue {
+  template: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
 /**
  * Configuration for an agent's character, defining its personality, knowledge, and capabilities.
  * This is a central piece of an agent's definition, used by the `AgentRuntime` to initialize and operate the agent.
@@ -40,6 +40,23 @@ export type Validator = (
   state?: State
 ) => Promise<boolean>;
 
+/**
+ * A parameter of an action, described with JSON schema keywords
+ */
+export interface ActionParameter {
+  /** JSON schema type, e.g. 'string', 'number', 'boolean', 'array' or 'object' */
+  type: string;
+  description: string;
+  /** Whether the model must supply the parameter */
+  required?: boolean;
+  /** Allowed values */
+  enum?: Array<string | number>;
+  /** Schema of array items */
+  items?: Record<string, unknown>;
+  /** Schemas of object properties */
+  properties?: Record<string, unknown>;
+}
+
 /**
  * Represents an action the agent can perform
  */
@@ -62,6 +79,13 @@ export interface Action {
   /** Validation function */
   validate: Validator;
 
+  /**
+   * Parameters the action accepts, keyed by name. Offered to the model as the action's
+   * tool argument schema in tool calling mode, and listed in the multi-step planner prompt.
+   * The handler receives the values in `state.data.actionParams`.
+   */
+  parameters?: Record<string, ActionParameter>;
+
   /** Allow extensions and custom options */
   [key: string]: unknown;
 }
@@ -140,6 +164,15 @@ export interface Provider {
    */
   private?: boolean;
 
+  /**
+   * How long a result stays cached, in milliseconds. Cached results are reused for later
+   * messages from the same sender in the same room instead of calling `get` again.
+   */
+  cacheTtlMs?: number;
+
+  /** Maximum time `get` may take, in milliseconds, before the provider is left out of the state */
+  timeoutMs?: number;
+
   /** Data retrieval function */
   get: (runtime: IAgentRuntime, message: Memory, state: State) => Promise<ProviderResult>;
 }
@@ -1,8 +1,9 @@
 import type { Agent } from './agent';
 import type { Component, Entity, Participant, Relationship, Room, World } from './environment';
-import type { Memory, MemoryMetadata } from './memory';
+import type { HybridSearchOptions, Memory, MemoryMetadata } from './memory';
+import type { ModelFallbackAttempt } from './model';
 import type { Metadata, UUID } from './primitives';
-import type { Task } from './task';
+import type { Task, TaskExecution } from './task';
 
 /**
  * Base log body type with common properties
@@ -71,6 +72,10 @@ export interface ModelLogBody extends BaseLogBody {
   timestamp?: number;
   executionTime?: number;
   provider?: string;
+  /** Providers that failed or were skipped before `provider` answered */
+  fallbacks?: ModelFallbackAttempt[];
+  /** Whether the response came from the model response cache */
+  cached?: boolean;
   actionContext?: {
     actionName: string;
     actionId: UUID;
@@ -87,6 +92,27 @@ export interface EmbeddingLogBody extends BaseLogBody {
   duration?: number;
 }
 
+/**
+ * Time a provider took while composing state
+ */
+export interface ProviderTiming {
+  provider: string;
+  durationMs: number;
+  /** Whether the result was reused from the provider's cache */
+  cached: boolean;
+  /** Whether the provider exceeded its timeout and was left out */
+  timedOut: boolean;
+}
+
+/**
+ * Log body for provider logs, one per composed state
+ */
+export interface ProviderLogBody extends BaseLogBody {
+  messageId?: UUID;
+  durationMs?: number;
+  providers?: ProviderTiming[];
+}
+
 /**
  * Union type for all possible log body types
  */
@@ -95,7 +121,8 @@ export type LogBody =
   | ActionLogBody
   | EvaluatorLogBody
   | ModelLogBody
-  | EmbeddingLogBody;
+  | EmbeddingLogBody
+  | ProviderLogBody;
 
 /**
  * Represents a log entry
@@ -148,6 +175,40 @@ export interface AgentRunSummaryResult {
   hasMore: boolean;
 }
 
+/**
+ * A single model call recorded in the usage ledger
+ */
+export interface ModelUsageRecord {
+  id?: UUID;
+  runId?: UUID;
+  roomId?: UUID;
+  provider: string;
+  modelType: string;
+  /** Provider model name, when the emitting plugin reports it */
+  model?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Estimated cost in USD, or null when no price is configured for the model */
+  estimatedCost: number | null;
+  createdAt: number;
+}
+
+export type ModelUsageGroupBy = 'agent' | 'run' | 'day' | 'provider' | 'model' | 'modelType';
+
+/**
+ * Aggregated usage for one group of ledger records
+ */
+export interface ModelUsageRollup {
+  /** Group key: agent id, run id, UTC day (YYYY-MM-DD), provider or model name */
+  key: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+}
+
 /**
  * Interface for database operations
  */
@@ -304,6 +365,11 @@ export interface IDatabaseAdapter {
     entityId?: UUID;
   }): Promise<AgentRunSummaryResult>;
 
+  /**
+   * Searches memories by embedding similarity. With `hybrid` set and a `query`, adapters
+   * that support it also rank the query text lexically and fuse both rankings.
+   * With `includeShared`, memories other agents stored with the `shared` scope match too.
+   */
   searchMemories(params: {
     embedding: number[];
     match_threshold?: number;
@@ -314,6 +380,8 @@ export interface IDatabaseAdapter {
     roomId?: UUID;
     worldId?: UUID;
     entityId?: UUID;
+    hybrid?: HybridSearchOptions;
+    includeShared?: boolean;
   }): Promise<Memory[]>;
 
   createMemory(memory: Memory, tableName: string, unique?: boolean): Promise<UUID>;
@@ -326,7 +394,16 @@ export interface IDatabaseAdapter {
 
   deleteAllMemories(roomId: UUID, tableName: string): Promise<void>;
 
-  countMemories(roomId: UUID, unique?: boolean, tableName?: string): Promise<number>;
+  /** Counts the memories of a room, only those created at or after `start` (ms) when given */
+  countMemories(
+    roomId: UUID,
+    unique?: boolean,
+    tableName?: string,
+    start?: number
+  ): Promise<number>;
+
+  /** Lists the tables holding memories of a room, used to find memories referenced across tables */
+  getMemoryTableNames?(roomId: UUID): Promise<string[]>;
 
   createWorld(world: World): Promise<UUID>;
 
@@ -411,6 +488,8 @@ export interface IDatabaseAdapter {
   getCache<T>(key: string): Promise<T | undefined>;
   setCache<T>(key: string, value: T): Promise<boolean>;
   deleteCache(key: string): Promise<boolean>;
+  /** Lists every cache entry of the agent, used to export it */
+  getCacheEntries?(): Promise<Array<{ key: string; value: unknown }>>;
 
   // Only task instance methods - definitions are in-memory
   createTask(task: Task): Promise<UUID>;
@@ -419,6 +498,68 @@ export interface IDatabaseAdapter {
   getTasksByName(name: string): Promise<Task[]>;
   updateTask(id: UUID, task: Partial<Task>): Promise<void>;
   deleteTask(id: UUID): Promise<void>;
+  /**
+   * Atomically acquires the execution lease for a task.
+   * Succeeds when `owner` already holds the lease, or when the lease is free or expired and the
+   * task is due (`nextRunAt` unset or past), so two runtimes sharing a database never execute
+   * the same task concurrently nor rerun an occurrence another runtime has completed.
+   * @param id The task to claim
+   * @param owner Identifier of the claiming runtime
+   * @param leaseMs How long the lease is held before other runtimes may take over
+   * @returns The claimed task, or null if another owner holds a live lease, the task is not
+   * due or it is gone
+   */
+  claimTask?(id: UUID, owner: string, leaseMs: number): Promise<Task | null>;
+
+  /** Records one execution of a task in its history. */
+  createTaskExecution?(execution: TaskExecution): Promise<void>;
+
+  /**
+   * Retrieves task execution history, newest first.
+   * @param params Optional task filter and pagination
+   */
+  getTaskExecutions?(params: {
+    taskId?: UUID;
+    limit?: number;
+    offset?: number;
+  }): Promise<TaskExecution[]>;
+
+  /**
+   * Deletes task execution history.
+   * @param params Restrict deletion to one task and/or executions started before a timestamp (ms)
+   * @returns The number of deleted records
+   */
+  deleteTaskExecutions?(params: { taskId?: UUID; before?: number }): Promise<number>;
+
+  /**
+   * Record a model call in the usage ledger
+   * @param record The usage record
+   */
+  createModelUsage?(record: ModelUsageRecord): Promise<void>;
+
+  /**
+   * Get usage ledger records, newest first
+   * @param params Optional run and time range filter with pagination
+   */
+  getModelUsage?(params: {
+    runId?: UUID;
+    from?: number;
+    to?: number;
+    limit?: number;
+    offset?: number;
+  }): Promise<ModelUsageRecord[]>;
+
+  /**
+   * Aggregate the usage ledger
+   * @param params Grouping plus optional run and time range filter
+   */
+  getModelUsageRollup?(params: {
+    groupBy: ModelUsageGroupBy;
+    runId?: UUID;
+    from?: number;
+    to?: number;
+    limit?: number;
+  }): Promise<ModelUsageRollup[]>;
 
   getMemoriesByWorldId(params: {
     worldId: UUID;
@@ -1,8 +1,15 @@
+import type { PromptTemplateUsage } from './agent';
 import type { HandlerCallback } from './components';
 import type { Entity, Room, World } from './environment';
 import type { Memory } from './memory';
 import type { ControlMessage } from './messaging';
-import type { ModelTypeName } from './model';
+import type {
+  ModelBudgetMetric,
+  ModelBudgetPeriod,
+  ModelCacheStatus,
+  ModelFallbackAttempt,
+  ModelTypeName,
+} from './model';
 import type { Content, UUID } from './primitives';
 import type { IAgentRuntime } from './runtime';
 
@@ -56,6 +63,8 @@ export enum EventType {
 
   // Model events
   MODEL_USED = 'MODEL_USED',
+  MODEL_BUDGET_WARNING = 'MODEL_BUDGET_WARNING',
+  MODEL_BUDGET_EXCEEDED = 'MODEL_BUDGET_EXCEEDED',
 
   // Embedding events
   EMBEDDING_GENERATION_REQUESTED = 'EMBEDDING_GENERATION_REQUESTED',
@@ -148,6 +157,8 @@ export interface RunEventPayload extends EventPayload {
   endTime?: number;
   duration?: number;
   error?: string;
+  /** Prompt templates used by the run, set when it ends */
+  templates?: PromptTemplateUsage[];
 }
 
 /**
@@ -177,12 +188,36 @@ export interface EvaluatorEventPayload extends EventPayload {
 export interface ModelEventPayload extends EventPayload {
   provider: string;
   type: ModelTypeName;
+  /** Provider model name, e.g. `gpt-4o-mini`, used to look up pricing */
+  model?: string;
+  /** Run the model call belongs to; defaults to the runtime's current run */
+  runId?: UUID;
   prompt: string;
   tokens?: {
     prompt: number;
     completion: number;
     total: number;
   };
+  /** Providers that failed or were skipped before this one answered, set by the runtime */
+  fallbacks?: ModelFallbackAttempt[];
+  /** Response cache outcome when caching is enabled for the model type, set by the runtime */
+  cache?: ModelCacheStatus;
+}
+
+/**
+ * Payload for model budget events. WARNING fires once per window when a soft
+ * limit is crossed; EXCEEDED fires on every call blocked or rerouted by a hard limit.
+ */
+export interface ModelBudgetEventPayload extends EventPayload {
+  type: ModelTypeName;
+  period: ModelBudgetPeriod;
+  metric: ModelBudgetMetric;
+  used: number;
+  limit: number;
+  /** Action taken at the hard limit */
+  action?: 'reject' | 'fallback';
+  /** Model type the call was routed to when falling back */
+  fallbackModel?: ModelTypeName;
 }
 
 /**
@@ -232,6 +267,8 @@ export interface EventPayloadMap {
   [EventType.EVALUATOR_STARTED]: EvaluatorEventPayload;
   [EventType.EVALUATOR_COMPLETED]: EvaluatorEventPayload;
   [EventType.MODEL_USED]: ModelEventPayload;
+  [EventType.MODEL_BUDGET_WARNING]: ModelBudgetEventPayload;
+  [EventType.MODEL_BUDGET_EXCEEDED]: ModelBudgetEventPayload;
   [EventType.EMBEDDING_GENERATION_REQUESTED]: EmbeddingGenerationPayload;
   [EventType.EMBEDDING_GENERATION_COMPLETED]: EmbeddingGenerationPayload;
   [EventType.EMBEDDING_GENERATION_FAILED]: EmbeddingGenerationPayload;
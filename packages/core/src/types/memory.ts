@@ -1,3 +1,4 @@
+import type { ChannelType } from './environment';
 import type { Content, UUID } from './primitives';
 
 /**
@@ -52,6 +53,12 @@ export interface BaseMetadata {
 
 export interface DocumentMetadata extends BaseMetadata {
   type: MemoryType.DOCUMENT;
+  /** Path of the file the document was read from, if any */
+  path?: string;
+  /** SHA-256 of the document text, used to skip re-ingesting unchanged documents */
+  contentHash?: string;
+  /** Number of fragments the document was split into */
+  fragmentCount?: number;
 }
 
 export interface FragmentMetadata extends BaseMetadata {
@@ -113,6 +120,12 @@ export interface Memory {
   /** Embedding similarity score (set when retrieved via search) */
   similarity?: number;
 
+  /** BM25 lexical score (set when retrieved via hybrid search) */
+  lexicalScore?: number;
+
+  /** Fused lexical and vector score that orders hybrid search results */
+  hybridScore?: number;
+
   /** Metadata for the memory */
   metadata?: MemoryMetadata;
 }
@@ -126,3 +139,71 @@ export interface MessageMemory extends Memory {
     text: string; // Message memories must have text content
   };
 }
+
+/**
+ * Options for hybrid memory search, which combines BM25 lexical ranking of the
+ * query text with embedding similarity so that exact identifiers are not missed.
+ */
+export interface HybridSearchOptions {
+  /**
+   * How the two rankings are combined: `rrf` sums weighted reciprocal ranks,
+   * `weighted` sums weighted scores normalized to 0..1. Defaults to `rrf`.
+   */
+  fusion?: 'rrf' | 'weighted';
+  /** Weight of embedding similarity. Defaults to 0.5 */
+  vectorWeight?: number;
+  /** Weight of the BM25 score. Defaults to 0.5 */
+  lexicalWeight?: number;
+  /** Rank constant for reciprocal-rank fusion. Defaults to 60 */
+  rrfK?: number;
+  /** Candidates taken from each retriever before fusion. Defaults to four times the result count */
+  candidateCount?: number;
+}
+
+/**
+ * Retention rule for stored memories. A rule applies to the memories of `tableName`
+ * that match all of its other selectors, and is enforced per room.
+ */
+export interface MemoryRetentionRule {
+  /** Table the rule applies to, e.g. `messages` or `facts` */
+  tableName: string;
+  /** Only memories whose metadata has this type */
+  memoryType?: MemoryTypeAlias;
+  /** Only memories of rooms of this type */
+  roomType?: ChannelType | string;
+  /** Only memories whose metadata tags include this tag */
+  tag?: string;
+  /** Memories older than this many days are removed */
+  maxAgeDays?: number;
+  /** Only the newest memories up to this count are kept in each room */
+  maxCountPerRoom?: number;
+  /** Keeps memories that other memories of the room reply to or were derived from */
+  keepIfReferenced?: boolean;
+}
+
+/**
+ * A memory removed, or to be removed in a dry run, by a retention rule
+ */
+export interface PrunedMemory {
+  id: UUID;
+  tableName: string;
+  roomId: UUID;
+  createdAt?: number;
+  /** Index of the rule in the retention config */
+  rule: number;
+  reason: 'max_age' | 'max_count';
+}
+
+/**
+ * Outcome of one retention pass
+ */
+export interface MemoryPruneReport {
+  dryRun: boolean;
+  startedAt: number;
+  durationMs: number;
+  /** Memories examined across all rules and rooms */
+  scanned: number;
+  /** Memories kept only because another memory references them */
+  keptReferenced: number;
+  pruned: PrunedMemory[];
+}
@@ -1,3 +1,4 @@
+import type { ZodType } from 'zod';
 import type { IAgentRuntime } from './runtime';
 
 export type ModelTypeName = (typeof ModelType)[keyof typeof ModelType] | string;
@@ -221,8 +222,15 @@ export type GenerateTextParams = {
    */
   user?: string | null;
   /** Optional. Response format specification. Forces the model to return a specific format (e.g., JSON).
-   * Common formats: 'json_object' (OpenAI), 'text'. Plugin implementations should map this to provider-specific formats. */
-  responseFormat?: { type: 'json_object' | 'text' } | string;
+   * Common formats: 'json_object' (OpenAI), 'text', or a JSON schema as passed to object models.
+   * Plugin implementations should map this to provider-specific formats. */
+  responseFormat?: { type: 'json_object' | 'text' } | ObjectResponseFormat | string;
+  /** Optional. Tools the model may call. When set, the call returns a `GenerateTextWithToolsResult`
+   * instead of a string. Plugin implementations should map these to their provider's native
+   * tool/function calling API and return the calls in `toolCalls`. */
+  tools?: ToolDefinition[];
+  /** Optional. Whether and which tools the model must call. Defaults to `auto`. */
+  toolChoice?: ToolChoice;
   /**
    * Enable or disable streaming mode.
    * - `true`: Force streaming (requires onStreamChunk or context)
@@ -245,6 +253,51 @@ export type GenerateTextParams = {
   onStreamChunk?: (chunk: string, messageId?: string) => void | Promise<void>;
 };
 
+/**
+ * A tool offered to the model for native tool/function calling
+ */
+export interface ToolDefinition {
+  /** Tool name, as returned in `ToolCall.name` */
+  name: string;
+  description: string;
+  /** JSON schema of the tool's arguments, an object schema */
+  parameters: JSONSchema;
+}
+
+/**
+ * How the model may use the offered tools:
+ * - `auto`: the model decides whether to call tools
+ * - `required`: the model must call at least one tool
+ * - `none`: the model must not call tools
+ * - `{ name }`: the model must call the named tool
+ */
+export type ToolChoice = 'auto' | 'required' | 'none' | { name: string };
+
+/**
+ * A tool call made by the model
+ */
+export interface ToolCall {
+  /** Provider-assigned ID of the call */
+  id: string;
+  /** Name of the called tool */
+  name: string;
+  /** Arguments for the call, parsed from the model's JSON */
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Result of a text generation call made with `tools`
+ */
+export interface GenerateTextWithToolsResult {
+  /** Text generated alongside or instead of tool calls; empty when the model only called tools */
+  text: string;
+  /** Tool calls in the order the model made them */
+  toolCalls: ToolCall[];
+  /** Provider finish reason, e.g. 'stop' or 'tool_calls' */
+  finishReason?: string;
+  usage?: TokenUsage;
+}
+
 /**
  * Token usage information from a model response.
  * Provides metrics about token consumption for billing and monitoring.
@@ -464,8 +517,67 @@ export interface ObjectGenerationParams {
   temperature?: number;
   /** Sequences that should stop generation */
   stopSequences?: string[];
+  /**
+   * Structured output format derived from `schema`. Plugin implementations whose provider
+   * supports schema constrained output should pass it on; others can ignore it.
+   */
+  responseFormat?: ObjectResponseFormat;
+}
+
+/**
+ * Schema constrained output format for object generation
+ */
+export interface ObjectResponseFormat {
+  type: 'json_schema';
+  /** Name of the schema, required by some providers */
+  name: string;
+  schema: JSONSchema;
+}
+
+/**
+ * Schema of a generated object: a JSON Schema or a Zod schema
+ */
+export type ObjectSchema<T = unknown> = JSONSchema | ZodType<T>;
+
+/**
+ * Options for `runtime.generateObject`
+ */
+export interface GenerateObjectOptions {
+  /** Model type to use. Defaults to OBJECT_SMALL. */
+  modelType?: typeof ModelType.OBJECT_SMALL | typeof ModelType.OBJECT_LARGE;
+  /** Name passed to providers with the schema. Defaults to `response`. */
+  schemaName?: string;
+  /** Attempts to repair an invalid response by sending the errors back to the model. Defaults to 2. */
+  maxRepairAttempts?: number;
+  temperature?: number;
+  stopSequences?: string[];
+}
+
+/**
+ * Why `runtime.generateObject` failed:
+ * - `invalid_schema`: the schema cannot be used for validation
+ * - `model_error`: the model call threw
+ * - `parse_error`: the last response was not JSON
+ * - `validation_error`: the last response did not match the schema
+ */
+export interface GenerateObjectFailure {
+  reason: 'invalid_schema' | 'model_error' | 'parse_error' | 'validation_error';
+  message: string;
+  /** Validation issues of the last response, as `path: message` */
+  issues: string[];
+  /** Number of model calls made */
+  attempts: number;
+  /** The last response of the model */
+  response?: unknown;
 }
 
+/**
+ * Result of `runtime.generateObject`
+ */
+export type GenerateObjectResult<T> =
+  | { success: true; object: T; attempts: number }
+  | { success: false; error: GenerateObjectFailure };
+
 /**
  * Map of model types to their parameter types
  */
@@ -496,6 +608,7 @@ export interface ModelParamsMap {
  * the actual return type depends on the parameters and is handled by overloads:
  * - `{ prompt }`: Returns `string` (this default)
  * - `{ prompt, stream: true }`: Returns `TextStreamResult` (via overload)
+ * - `{ prompt, tools }`: Returns `GenerateTextWithToolsResult` (via overload)
  *
  * The overloads in IAgentRuntime.useModel() provide the correct type inference.
  */
@@ -530,10 +643,11 @@ export type StreamableModelType =
   | typeof ModelType.TEXT_COMPLETION;
 
 /**
- * Result type for plugin model handlers - includes TextStreamResult for streamable models
+ * Result type for plugin model handlers - includes TextStreamResult for streamable models,
+ * and GenerateTextWithToolsResult for calls made with `tools`
  */
 export type PluginModelResult<K extends keyof ModelResultMap> = K extends StreamableModelType
-  ? ModelResultMap[K] | TextStreamResult
+  ? ModelResultMap[K] | TextStreamResult | GenerateTextWithToolsResult
   : ModelResultMap[K];
 
 /**
@@ -571,3 +685,65 @@ export interface ModelHandler<TParams = Record<string, unknown>, TResult = unkno
 
   registrationOrder?: number;
 }
+
+/**
+ * Soft and hard ceilings for one budget metric. Crossing `soft` emits a
+ * `MODEL_BUDGET_WARNING` event; reaching `hard` blocks or reroutes further calls.
+ */
+export interface ModelBudgetLimit {
+  soft?: number;
+  hard?: number;
+}
+
+/**
+ * Limits for a single budget window. `cost` is in USD, estimated from the
+ * `MODEL_PRICING` table, so calls to unpriced models only count towards `tokens`.
+ */
+export interface ModelBudgetWindow {
+  tokens?: ModelBudgetLimit;
+  cost?: ModelBudgetLimit;
+}
+
+export type ModelBudgetPeriod = 'daily' | 'monthly';
+
+export type ModelBudgetMetric = keyof ModelBudgetWindow;
+
+/**
+ * Budget for one model type. Windows reset at the start of each UTC day or month.
+ */
+export interface ModelBudget {
+  daily?: ModelBudgetWindow;
+  monthly?: ModelBudgetWindow;
+  /**
+   * What to do once a hard limit is reached: `reject` throws a
+   * `ModelBudgetExceededError`, `fallback` routes the call to `fallbackModel`.
+   * Defaults to `fallback` when a fallback model is available, `reject` otherwise.
+   */
+  onHardLimit?: 'reject' | 'fallback';
+  /** Model type to use once the hard limit is reached, e.g. TEXT_SMALL for TEXT_LARGE */
+  fallbackModel?: ModelTypeName;
+}
+
+/**
+ * Per model type budgets, read from the `MODEL_BUDGETS` character setting
+ */
+export type ModelBudgetConfig = Partial<Record<ModelTypeName, ModelBudget>>;
+
+/**
+ * A model handler that was skipped or failed before another provider answered
+ */
+export interface ModelFallbackAttempt {
+  provider: string;
+  /** Why the provider did not answer: it threw, timed out, or its circuit was open */
+  reason: 'error' | 'timeout' | 'circuit_open';
+  error?: string;
+}
+
+/**
+ * Response cache outcome of a model call, with the runtime's running counters for its model type
+ */
+export interface ModelCacheStatus {
+  hit: boolean;
+  hits: number;
+  misses: number;
+}
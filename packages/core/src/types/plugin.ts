@@ -1,4 +1,4 @@
-import type { Character } from './agent';
+import type { Character, PromptTemplateDefinition } from './agent';
 import type { Action, Evaluator, Provider } from './components';
 import type { IDatabaseAdapter } from './database';
 import type { EventHandler, EventPayloadMap } from './events';
@@ -80,6 +80,8 @@ export interface Plugin {
   actions?: Action[];
   providers?: Provider[];
   evaluators?: Evaluator[];
+  /** Prompt templates the plugin uses, overridable through `Character.templates` */
+  templates?: PromptTemplateDefinition[];
   adapter?: IDatabaseAdapter;
   models?: {
     [K in keyof ModelParamsMap]?: (
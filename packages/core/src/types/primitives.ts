@@ -30,6 +30,9 @@ export interface Content {
   /** Optional actions to be performed */
   actions?: string[];
 
+  /** Optional parameters for each of `actions`, by position, e.g. from native tool calls */
+  actionParameters?: Array<Record<string, unknown> | undefined>;
+
   /** Optional providers to use for context generation */
   providers?: string[];
 
@@ -1,4 +1,10 @@
-import type { Character } from './agent';
+import type {
+  Character,
+  PromptTemplateDefinition,
+  PromptTemplateInfo,
+  PromptTemplateUsage,
+  TemplateType,
+} from './agent';
 import type { Action, Evaluator, Provider, ActionResult } from './components';
 import { HandlerCallback } from './components';
 import type { IDatabaseAdapter } from './database';
@@ -12,10 +18,15 @@ import type {
   ModelParamsMap,
   ModelResultMap,
   ModelTypeName,
+  GenerateObjectOptions,
+  GenerateObjectResult,
   GenerateTextOptions,
   GenerateTextResult,
   GenerateTextParams,
+  GenerateTextWithToolsResult,
+  ObjectSchema,
   TextGenerationModelType,
+  ToolDefinition,
 } from './model';
 import type { Plugin, RuntimeEventStorage, Route } from './plugin';
 import type { Content, UUID } from './primitives';
@@ -23,6 +34,34 @@ import type { Service, ServiceTypeName } from './service';
 import type { State } from './state';
 import type { TaskWorker } from './task';
 import type { EventPayloadMap, EventHandler, EventPayload } from './events';
+import type { StateCacheMetrics } from '../utils/state-cache';
+
+/**
+ * Changes applied to a running agent by `IAgentRuntime.reload`
+ */
+export interface AgentReloadOptions {
+  /** The new character, merged onto the current one; fields it does not set are kept */
+  character?: Character;
+  /** Resolved plugins to register; plugins already registered are skipped */
+  addPlugins?: Plugin[];
+  /** Names of registered plugins to unregister */
+  removePlugins?: string[];
+  /** How long to wait for in-flight messages, 30 seconds by default */
+  drainTimeoutMs?: number;
+}
+
+/**
+ * The plugins a reload registered and unregistered
+ */
+export interface AgentReloadResult {
+  addedPlugins: string[];
+  removedPlugins: string[];
+  /**
+   * Set when the reload was requested from one of the agent's own message handlers. It is
+   * then applied once they finish, and the plugin lists are empty.
+   */
+  deferred?: boolean;
+}
 
 /**
  * Represents the core runtime environment for an agent.
@@ -51,6 +90,25 @@ export interface IAgentRuntime extends IDatabaseAdapter {
   // Methods
   registerPlugin(plugin: Plugin): Promise<void>;
 
+  /**
+   * Unregisters a plugin's actions, providers, evaluators, models, routes, events and
+   * prompt templates, and stops its services
+   */
+  unregisterPlugin(pluginName: string): Promise<void>;
+
+  /**
+   * Applies character and plugin changes to the running agent. Waits for in-flight
+   * messages and holds back new ones until the changes are applied or rolled back.
+   * Requested from one of the agent's own message handlers, the reload is deferred.
+   */
+  reload(options: AgentReloadOptions): Promise<AgentReloadResult>;
+
+  /**
+   * Runs a message handler, waiting for a reload in progress before it starts and
+   * holding back reloads until it finishes
+   */
+  trackMessage<T>(handler: () => Promise<T>): Promise<T>;
+
   initialize(options?: { skipMigrations?: boolean }): Promise<void>;
 
   getConnection(): Promise<unknown>;
@@ -80,6 +138,11 @@ export interface IAgentRuntime extends IDatabaseAdapter {
 
   getConversationLength(): number;
 
+  /**
+   * Hit, miss and eviction counts and the current size of the state cache
+   */
+  getStateCacheMetrics(): StateCacheMetrics;
+
   processActions(
     message: Memory,
     responses: Memory[],
@@ -104,6 +167,24 @@ export interface IAgentRuntime extends IDatabaseAdapter {
 
   registerEvaluator(evaluator: Evaluator): void;
 
+  /**
+   * Registers a prompt template so it is listed, versioned and validated against
+   * character overrides
+   */
+  registerPromptTemplate(definition: PromptTemplateDefinition, source?: string): void;
+
+  /** Lists the registered prompt templates with the character's overrides */
+  getPromptTemplates(): PromptTemplateInfo[];
+
+  /**
+   * Resolves a prompt template, preferring the character's override, and records its
+   * version for the current run
+   */
+  getPromptTemplate(name: string): TemplateType;
+
+  /** Lists the prompt templates used by a run */
+  getRunPromptTemplates(runId: UUID): PromptTemplateUsage[];
+
   ensureConnections(entities: Entity[], rooms: Room[], source: string, world: World): Promise<void>;
   ensureConnection({
     entityId,
@@ -157,16 +238,26 @@ export interface IAgentRuntime extends IDatabaseAdapter {
    * ```typescript
    * // Simple usage - streaming happens automatically if context is active
    * const text = await runtime.useModel(ModelType.TEXT_LARGE, { prompt: "Hello" });
+   *
+   * // Native tool calling - returns text and tool calls
+   * const { text, toolCalls } = await runtime.useModel(ModelType.TEXT_LARGE, { prompt, tools });
    * ```
    */
-  // Overload 1: Text generation → string (auto-streams via context)
+  // Overload 1: Text generation with tools → text and tool calls
+  useModel(
+    modelType: TextGenerationModelType,
+    params: GenerateTextParams & { tools: ToolDefinition[] },
+    provider?: string
+  ): Promise<GenerateTextWithToolsResult>;
+
+  // Overload 2: Text generation → string (auto-streams via context)
   useModel(
     modelType: TextGenerationModelType,
     params: GenerateTextParams,
     provider?: string
   ): Promise<string>;
 
-  // Overload 2: Generic fallback for other model types
+  // Overload 3: Generic fallback for other model types
   useModel<T extends keyof ModelParamsMap, R = ModelResultMap[T]>(
     modelType: T,
     params: ModelParamsMap[T],
@@ -175,6 +266,16 @@ export interface IAgentRuntime extends IDatabaseAdapter {
 
   generateText(input: string, options?: GenerateTextOptions): Promise<GenerateTextResult>;
 
+  /**
+   * Generates an object matching a JSON Schema or Zod schema with an OBJECT model,
+   * repairing invalid responses by sending the validation errors back to the model
+   */
+  generateObject<T = unknown>(
+    schema: ObjectSchema<T>,
+    prompt: string,
+    options?: GenerateObjectOptions
+  ): Promise<GenerateObjectResult<T>>;
+
   registerModel(
     modelType: ModelTypeName | string,
     handler: (runtime: IAgentRuntime, params: Record<string, unknown>) => Promise<unknown>,
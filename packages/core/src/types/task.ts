@@ -28,15 +28,57 @@ export interface TaskWorker {
   validate?: (runtime: IAgentRuntime, message: Memory, state: State) => Promise<boolean>;
 }
 
+/**
+ * Lifecycle state of a persisted task.
+ * - `pending`: waiting for its next scheduled run
+ * - `running`: claimed by a runtime that holds the lease
+ * - `paused`: suspended by an operator and skipped until resumed
+ * - `dead_letter`: exhausted its retry attempts and will not run again until reset
+ */
+export type TaskStatus = 'pending' | 'running' | 'paused' | 'dead_letter';
+
+/**
+ * Controls how a failed task execution is retried.
+ * The delay before attempt `n + 1` is `backoffMs * backoffMultiplier^(n - 1)`, capped at `maxBackoffMs`.
+ */
+export type TaskRetryPolicy = {
+  /** Maximum number of consecutive attempts before the task is dead-lettered. Defaults to 3. */
+  maxAttempts?: number;
+  /** Delay in milliseconds before the first retry. Defaults to 1000. */
+  backoffMs?: number;
+  /** Factor applied to the delay after each failed attempt. Defaults to 2. */
+  backoffMultiplier?: number;
+  /** Upper bound for the retry delay in milliseconds. Defaults to 5 minutes. */
+  maxBackoffMs?: number;
+};
+
+/**
+ * Record of the most recent failed execution of a task.
+ */
+export type TaskFailure = {
+  /** The error message raised by the task worker. */
+  message: string;
+  /** The attempt number that failed, starting at 1. */
+  attempt: number;
+  /** Timestamp in milliseconds of the failure. */
+  failedAt: number;
+};
+
 /**
  * Defines metadata associated with a `Task`.
- * This can include scheduling information like `updateInterval` or UI-related details
- * for presenting task options to a user.
+ * This can include scheduling information like `updateInterval`, `cron` or `runAt`, the retry policy,
+ * or UI-related details for presenting task options to a user.
  * The `[key: string]: unknown;` allows for additional, unspecified metadata fields.
  */
 export type TaskMetadata = {
   /** Optional. If the task is recurring, this specifies the interval in milliseconds between updates or executions. */
   updateInterval?: number;
+  /** Optional. A five-field cron expression (evaluated in UTC) for recurring tasks, e.g. `0 9 * * 1-5`. */
+  cron?: string;
+  /** Optional. Timestamp in milliseconds before which a one-shot task must not run. */
+  runAt?: number;
+  /** Optional. Retry and dead-letter behaviour when the task worker throws. */
+  retry?: TaskRetryPolicy;
   /** Optional. Describes options or parameters that can be configured for this task, often for UI presentation. */
   options?: {
     name: string;
@@ -69,4 +111,44 @@ export interface Task {
   worldId?: UUID;
   entityId?: UUID;
   tags: string[];
+  /** Optional. Scheduling state of the task. Defaults to `pending`. */
+  status?: TaskStatus;
+  /** Optional. Timestamp in milliseconds when the task is next due, set for cron tasks and pending retries. */
+  nextRunAt?: number | null;
+  /** Optional. Number of consecutive failed attempts since the last successful run. */
+  attempts?: number;
+  /** Optional. Details of the most recent failure, kept after the task recovers. */
+  lastError?: TaskFailure | null;
+  /** Optional. Identifier of the runtime currently holding the execution lease. */
+  leaseOwner?: string | null;
+  /** Optional. Timestamp in milliseconds when the current execution lease expires. */
+  leaseExpiresAt?: number | null;
+}
+
+/**
+ * Outcome of a single task execution.
+ */
+export type TaskExecutionStatus = 'succeeded' | 'failed';
+
+/**
+ * History record of one execution of a task, written by the task service after the worker returns.
+ * Records outlive the task itself, so one-shot tasks keep their history after they are deleted.
+ */
+export interface TaskExecution {
+  /** Optional. Unique identifier of the execution. Generated if not provided. */
+  id?: UUID;
+  /** The task that was executed. */
+  taskId: UUID;
+  /** The task name at the time of execution. */
+  taskName: string;
+  /** Whether the worker completed or threw. */
+  status: TaskExecutionStatus;
+  /** The attempt number of this execution, starting at 1 and reset after a success. */
+  attempt: number;
+  /** Timestamp in milliseconds when the worker started. */
+  startedAt: number;
+  /** Timestamp in milliseconds when the worker finished. */
+  endedAt: number;
+  /** The error message if the execution failed. */
+  error?: string;
 }
@@ -0,0 +1,603 @@
+/**
+ * Versioned export and import of everything an agent owns.
+ *
+ * A bundle holds the agent row, its worlds and rooms with their participants, the
+ * entities it knows with their components and relationships, its memories (with
+ * embeddings) per table, its tasks and its cache entries. Secrets are never copied
+ * implicitly: a bundle either omits them, carries them encrypted with the source
+ * SECRET_SALT, or carries them in plain text to be encrypted with the target salt.
+ *
+ * On import, IDs can be remapped for a new agent with `createUniqueUuid`, so a bundle
+ * can be imported next to the agent it was exported from.
+ */
+
+import { createUniqueUuid } from '../entities';
+import {
+  decryptObjectValues,
+  encryptObjectValues,
+  getSalt,
+  saltWorldSettings,
+  unsaltWorldSettings,
+} from '../settings';
+import type { Agent } from '../types/agent';
+import type { Entity, Relationship, Room, World } from '../types/environment';
+import type { Memory } from '../types/memory';
+import type { UUID } from '../types/primitives';
+import type { IAgentRuntime } from '../types/runtime';
+import type { WorldSettings } from '../types/settings';
+import type { Task } from '../types/task';
+
+export const AGENT_BUNDLE_FORMAT = 'elizaos-agent-bundle';
+export const AGENT_BUNDLE_VERSION = 1;
+
+// Memories read per query while exporting
+const MEMORY_PAGE_SIZE = 500;
+
+/** Memory tables exported when none are given */
+export const DEFAULT_AGENT_BUNDLE_TABLES = [
+  'messages',
+  'memories',
+  'facts',
+  'documents',
+  'knowledge',
+  'summaries',
+  'messages_archive',
+];
+
+/**
+ * How secrets of the agent row and of world settings are stored in a bundle:
+ * - `omit`: left out; importing in merge mode keeps the secrets of the existing agent
+ * - `encrypted`: as stored, only readable by a server with the same SECRET_SALT
+ * - `plaintext`: decrypted, and encrypted again with the salt of the importing server
+ */
+export type AgentBundleSecretsMode = 'omit' | 'encrypted' | 'plaintext';
+
+/**
+ * How an import treats data the target agent already has:
+ * - `merge`: existing records are kept, only missing ones are added
+ * - `replace`: the agent's memories, tasks and cache are cleared first, and records
+ *   present in both are overwritten by the bundle
+ */
+export type AgentBundleImportMode = 'merge' | 'replace';
+
+export interface AgentBundle {
+  format: typeof AGENT_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  secrets: AgentBundleSecretsMode;
+  agent: Agent;
+  worlds: World[];
+  rooms: Room[];
+  participants: Array<{ roomId: UUID; entityIds: UUID[] }>;
+  /** Entities with their components */
+  entities: Entity[];
+  relationships: Relationship[];
+  /** Memories by table name */
+  memories: Record<string, Memory[]>;
+  tasks: Task[];
+  cache: Array<{ key: string; value: unknown }>;
+}
+
+export interface AgentBundleImportResult {
+  agentId: UUID;
+  mode: AgentBundleImportMode;
+  remapped: boolean;
+  worlds: number;
+  rooms: number;
+  entities: number;
+  components: number;
+  relationships: number;
+  memories: number;
+  tasks: number;
+  cache: number;
+}
+
+/**
+ * Thrown when a bundle is malformed or of an unsupported version
+ */
+export class AgentBundleError extends Error {
+  readonly code = 'INVALID_AGENT_BUNDLE';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentBundleError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks the shape and version of a bundle, e.g. one parsed from a file
+ *
+ * @throws AgentBundleError when the bundle cannot be imported
+ */
+export function validateAgentBundle(value: unknown): AgentBundle {
+  if (!isRecord(value) || value.format !== AGENT_BUNDLE_FORMAT) {
+    throw new AgentBundleError('Not an agent bundle');
+  }
+  if (typeof value.version !== 'number' || value.version > AGENT_BUNDLE_VERSION) {
+    throw new AgentBundleError(`Unsupported agent bundle version: ${String(value.version)}`);
+  }
+  if (!['omit', 'encrypted', 'plaintext'].includes(value.secrets as string)) {
+    throw new AgentBundleError(`Unknown secrets mode: ${String(value.secrets)}`);
+  }
+  if (!isRecord(value.agent) || typeof value.agent.id !== 'string' || !value.agent.name) {
+    throw new AgentBundleError('Bundle has no agent');
+  }
+  for (const key of ['worlds', 'rooms', 'participants', 'entities', 'relationships', 'tasks']) {
+    if (!Array.isArray(value[key])) {
+      throw new AgentBundleError(`Bundle field ${key} must be an array`);
+    }
+  }
+  if (!isRecord(value.memories) || !Object.values(value.memories).every(Array.isArray)) {
+    throw new AgentBundleError('Bundle field memories must map table names to arrays');
+  }
+  if (!Array.isArray(value.cache)) {
+    throw new AgentBundleError('Bundle field cache must be an array');
+  }
+  return value as unknown as AgentBundle;
+}
+
+function mapSecretValues(
+  agent: Agent,
+  map: (secrets: Record<string, unknown>) => Record<string, unknown> | undefined
+): Agent {
+  const copy = JSON.parse(JSON.stringify(agent)) as Agent;
+  if (copy.settings?.secrets && typeof copy.settings.secrets === 'object') {
+    const secrets = map(copy.settings.secrets as Record<string, unknown>);
+    if (secrets) {
+      copy.settings.secrets = secrets as typeof copy.settings.secrets;
+    } else {
+      delete copy.settings.secrets;
+    }
+  }
+  if (copy.secrets && typeof copy.secrets === 'object') {
+    const secrets = map(copy.secrets);
+    if (secrets) {
+      copy.secrets = secrets as typeof copy.secrets;
+    } else {
+      delete copy.secrets;
+    }
+  }
+  return copy;
+}
+
+function mapWorldSettings(world: World, map: (settings: WorldSettings) => WorldSettings): World {
+  const settings = world.metadata?.settings as WorldSettings | undefined;
+  if (!settings) {
+    return world;
+  }
+  return { ...world, metadata: { ...world.metadata, settings: map(settings) } };
+}
+
+function omitSecretSettings(settings: WorldSettings): WorldSettings {
+  const result: WorldSettings = {};
+  for (const [key, setting] of Object.entries(settings)) {
+    result[key] = setting.secret ? { ...setting, value: null } : setting;
+  }
+  return result;
+}
+
+async function getRoomsOfAgent(runtime: IAgentRuntime, worlds: World[]): Promise<Room[]> {
+  const rooms = new Map<UUID, Room>();
+  const participantRoomIds = await runtime.getRoomsForParticipant(runtime.agentId);
+  if (participantRoomIds.length > 0) {
+    for (const room of (await runtime.getRoomsByIds(participantRoomIds)) ?? []) {
+      rooms.set(room.id, room);
+    }
+  }
+  for (const world of worlds) {
+    for (const room of await runtime.getRoomsByWorld(world.id)) {
+      rooms.set(room.id, room);
+    }
+  }
+  return Array.from(rooms.values());
+}
+
+/**
+ * Reads up to `limit` memories of a table, newest first, page by page. Memories created
+ * after `end` are left out so that pages do not shift while they are read.
+ */
+async function getMemoriesInPages(
+  runtime: IAgentRuntime,
+  params: { tableName: string; end: number; offset: number; limit?: number }
+): Promise<Memory[]> {
+  const memories: Memory[] = [];
+  const limit = params.limit ?? Infinity;
+  while (memories.length < limit) {
+    const count = Math.min(MEMORY_PAGE_SIZE, limit - memories.length);
+    const page = await runtime.getMemories({
+      tableName: params.tableName,
+      agentId: runtime.agentId,
+      unique: false,
+      end: params.end,
+      count,
+      offset: params.offset + memories.length,
+    });
+    memories.push(...page);
+    if (page.length < count) {
+      break;
+    }
+  }
+  return memories;
+}
+
+/**
+ * Collects everything the agent owns into a bundle.
+ *
+ * @param options.secrets - How secrets are stored, `omit` by default
+ * @param options.tables - Memory tables to export, `DEFAULT_AGENT_BUNDLE_TABLES` by default
+ * @param options.memoryOffset - Memories of each table to skip, newest first
+ * @param options.memoryLimit - Memories to export per table, all by default. Large agents
+ *   can be exported a page at a time and each page imported in `merge` mode.
+ */
+export async function exportAgentBundle(
+  runtime: IAgentRuntime,
+  options: {
+    secrets?: AgentBundleSecretsMode;
+    tables?: string[];
+    memoryOffset?: number;
+    memoryLimit?: number;
+  } = {}
+): Promise<AgentBundle> {
+  const exportedAt = Date.now();
+  const secretsMode = options.secrets ?? 'omit';
+  const agentRow = await runtime.getAgent(runtime.agentId);
+  if (!agentRow) {
+    throw new Error(`Agent ${runtime.agentId} not found`);
+  }
+
+  const salt = getSalt();
+  let agent = agentRow;
+  let worlds = await runtime.getAllWorlds();
+  if (secretsMode === 'omit') {
+    agent = mapSecretValues(agent, () => undefined);
+    worlds = worlds.map((world) => mapWorldSettings(world, omitSecretSettings));
+  } else if (secretsMode === 'plaintext') {
+    agent = mapSecretValues(agent, (secrets) => decryptObjectValues(secrets, salt));
+    worlds = worlds.map((world) =>
+      mapWorldSettings(world, (settings) => unsaltWorldSettings(settings, salt))
+    );
+  }
+
+  const rooms = await getRoomsOfAgent(runtime, worlds);
+  const participants: AgentBundle['participants'] = [];
+  const entityIds = new Set<UUID>([runtime.agentId]);
+  for (const room of rooms) {
+    const roomEntityIds = await runtime.getParticipantsForRoom(room.id);
+    participants.push({ roomId: room.id, entityIds: roomEntityIds });
+    roomEntityIds.forEach((id) => entityIds.add(id));
+  }
+
+  const memories: AgentBundle['memories'] = {};
+  for (const tableName of options.tables ?? DEFAULT_AGENT_BUNDLE_TABLES) {
+    memories[tableName] = await getMemoriesInPages(runtime, {
+      tableName,
+      end: exportedAt,
+      offset: options.memoryOffset ?? 0,
+      limit: options.memoryLimit,
+    });
+    memories[tableName].forEach((memory) => entityIds.add(memory.entityId));
+  }
+
+  const entities: Entity[] = [];
+  const relationships = new Map<UUID, Relationship>();
+  for (const entity of (await runtime.getEntitiesByIds(Array.from(entityIds))) ?? []) {
+    if (!entity.id) {
+      continue;
+    }
+    entities.push({ ...entity, components: await runtime.getComponents(entity.id) });
+    for (const relationship of await runtime.getRelationships({ entityId: entity.id })) {
+      relationships.set(relationship.id, relationship);
+    }
+  }
+
+  const tasks = (await runtime.getTasks({})).map((task) => ({
+    ...task,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+  }));
+
+  const bundle: AgentBundle = {
+    format: AGENT_BUNDLE_FORMAT,
+    version: AGENT_BUNDLE_VERSION,
+    exportedAt,
+    secrets: secretsMode,
+    agent,
+    worlds,
+    rooms,
+    participants,
+    entities,
+    relationships: Array.from(relationships.values()),
+    memories,
+    tasks,
+    cache: (await runtime.getCacheEntries?.()) ?? [],
+  };
+
+  runtime.logger.info(
+    {
+      src: 'agent',
+      agentId: runtime.agentId,
+      secrets: secretsMode,
+      rooms: rooms.length,
+      entities: entities.length,
+      memories: Object.values(memories).reduce((sum, list) => sum + list.length, 0),
+    },
+    'Exported agent bundle'
+  );
+  return bundle;
+}
+
+function collectBundleIds(bundle: AgentBundle): Set<string> {
+  const ids = new Set<string>([bundle.agent.id as string]);
+  const add = (id: unknown) => {
+    if (typeof id === 'string' && id) {
+      ids.add(id);
+    }
+  };
+  bundle.worlds.forEach((world) => add(world.id));
+  bundle.rooms.forEach((room) => add(room.id));
+  for (const entity of bundle.entities) {
+    add(entity.id);
+    entity.components?.forEach((component) => add(component.id));
+  }
+  bundle.relationships.forEach((relationship) => add(relationship.id));
+  Object.values(bundle.memories)
+    .flat()
+    .forEach((memory) => add(memory.id));
+  bundle.tasks.forEach((task) => add(task.id));
+  return ids;
+}
+
+function replaceIds(value: unknown, idMap: Map<string, string>): unknown {
+  if (typeof value === 'string') {
+    return idMap.get(value) ?? value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceIds(item, idMap));
+  }
+  if (isRecord(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[idMap.get(key) ?? key] = replaceIds(item, idMap);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Rewrites a bundle for the agent of `runtime`. The source agent ID becomes the runtime's
+ * agent ID and every other ID of the bundle becomes `createUniqueUuid(runtime, id)`,
+ * wherever it appears, including metadata references and cache keys.
+ */
+export function remapAgentBundle(bundle: AgentBundle, runtime: IAgentRuntime): AgentBundle {
+  const idMap = new Map<string, string>();
+  for (const id of collectBundleIds(bundle)) {
+    idMap.set(id, id === bundle.agent.id ? runtime.agentId : createUniqueUuid(runtime, id));
+  }
+
+  const { cache, ...rest } = bundle;
+  const remapped = replaceIds(rest, idMap) as Omit<AgentBundle, 'cache'>;
+  return {
+    ...remapped,
+    cache: cache.map(({ key, value }) => ({
+      key: Array.from(idMap).reduce((result, [from, to]) => result.split(from).join(to), key),
+      value: replaceIds(value, idMap),
+    })),
+  };
+}
+
+/**
+ * Builds the agent row to store for an imported bundle, with secrets encrypted for this
+ * server. Bundles without secrets keep those of `existing`, the current row of the agent.
+ */
+export function getAgentFromBundle(
+  bundle: AgentBundle,
+  agentId: UUID,
+  existing?: Partial<Agent> | null
+): Agent {
+  const salt = getSalt();
+  let agent: Agent = { ...bundle.agent, id: agentId };
+  if (bundle.secrets === 'plaintext') {
+    agent = mapSecretValues(agent, (secrets) => encryptObjectValues(secrets, salt));
+  } else if (bundle.secrets === 'omit' && existing) {
+    agent = { ...agent, secrets: existing.secrets };
+    if (existing.settings?.secrets) {
+      agent.settings = { ...agent.settings, secrets: existing.settings.secrets };
+    }
+  }
+  const { status: _status, ...row } = agent;
+  return row as Agent;
+}
+
+/**
+ * Imports a bundle into the agent of `runtime`. The agent row itself is written by the
+ * caller (see `getAgentFromBundle`), since the runtime has to exist first.
+ *
+ * @param options.mode - `merge` (default) or `replace`
+ * @param options.remapIds - Remap all IDs to the runtime's agent; required when the
+ *   runtime's agent ID differs from the bundle's
+ */
+export async function importAgentBundle(
+  runtime: IAgentRuntime,
+  source: AgentBundle,
+  options: { mode?: AgentBundleImportMode; remapIds?: boolean } = {}
+): Promise<AgentBundleImportResult> {
+  const mode = options.mode ?? 'merge';
+  const remapped = options.remapIds ?? false;
+  if (!remapped && source.agent.id !== runtime.agentId) {
+    throw new AgentBundleError(
+      `Bundle belongs to agent ${source.agent.id}; remap IDs to import it into ${runtime.agentId}`
+    );
+  }
+  const bundle = remapped ? remapAgentBundle(source, runtime) : source;
+  const replace = mode === 'replace';
+  const result: AgentBundleImportResult = {
+    agentId: runtime.agentId,
+    mode,
+    remapped,
+    worlds: 0,
+    rooms: 0,
+    entities: 0,
+    components: 0,
+    relationships: 0,
+    memories: 0,
+    tasks: 0,
+    cache: 0,
+  };
+
+  if (replace) {
+    for (const tableName of Object.keys(bundle.memories)) {
+      const existing = await runtime.getMemories({
+        tableName,
+        agentId: runtime.agentId,
+        unique: false,
+      });
+      const ids = existing.map((memory) => memory.id).filter((id): id is UUID => !!id);
+      if (ids.length > 0) {
+        await runtime.deleteManyMemories(ids);
+      }
+    }
+    for (const task of await runtime.getTasks({})) {
+      if (task.id) {
+        await runtime.deleteTask(task.id);
+      }
+    }
+    for (const { key } of (await runtime.getCacheEntries?.()) ?? []) {
+      await runtime.deleteCache(key);
+    }
+  }
+
+  const salt = getSalt();
+  for (const bundled of bundle.worlds) {
+    let world = { ...bundled, agentId: runtime.agentId };
+    if (bundle.secrets === 'plaintext') {
+      world = mapWorldSettings(world, (settings) => saltWorldSettings(settings, salt));
+    }
+    const existing = await runtime.getWorld(world.id);
+    if (!existing) {
+      await runtime.createWorld(world);
+    } else if (replace) {
+      await runtime.updateWorld(world);
+    } else {
+      continue;
+    }
+    result.worlds++;
+  }
+
+  const existingRoomIds = new Set(
+    ((await runtime.getRoomsByIds(bundle.rooms.map((room) => room.id))) ?? []).map(
+      (room) => room.id
+    )
+  );
+  for (const bundled of bundle.rooms) {
+    const room = { ...bundled, agentId: runtime.agentId };
+    if (!existingRoomIds.has(room.id)) {
+      await runtime.createRooms([room]);
+    } else if (replace) {
+      await runtime.updateRoom(room);
+    } else {
+      continue;
+    }
+    result.rooms++;
+  }
+
+  const entityIds = bundle.entities.map((entity) => entity.id).filter((id): id is UUID => !!id);
+  const existingEntityIds = new Set(
+    ((await runtime.getEntitiesByIds(entityIds)) ?? []).map((entity) => entity.id)
+  );
+  for (const { components = [], ...bundled } of bundle.entities) {
+    if (!bundled.id) {
+      continue;
+    }
+    const entity = { ...bundled, agentId: runtime.agentId };
+    if (!existingEntityIds.has(entity.id)) {
+      await runtime.createEntities([entity]);
+      result.entities++;
+    } else if (replace) {
+      await runtime.updateEntity(entity);
+      result.entities++;
+    }
+
+    const existingComponentIds = new Set(
+      (await runtime.getComponents(entity.id as UUID)).map((component) => component.id)
+    );
+    for (const component of components) {
+      const row = { ...component, agentId: runtime.agentId };
+      if (!existingComponentIds.has(row.id)) {
+        await runtime.createComponent(row);
+      } else if (replace) {
+        await runtime.updateComponent(row);
+      } else {
+        continue;
+      }
+      result.components++;
+    }
+  }
+
+  for (const { roomId, entityIds: roomEntityIds } of bundle.participants) {
+    if (roomEntityIds.length > 0) {
+      await runtime.addParticipantsRoom(roomEntityIds, roomId);
+    }
+  }
+
+  for (const relationship of bundle.relationships) {
+    const existing = await runtime.getRelationship({
+      sourceEntityId: relationship.sourceEntityId,
+      targetEntityId: relationship.targetEntityId,
+    });
+    if (!existing) {
+      await runtime.createRelationship({
+        sourceEntityId: relationship.sourceEntityId,
+        targetEntityId: relationship.targetEntityId,
+        tags: relationship.tags,
+        metadata: relationship.metadata,
+      });
+    } else if (replace) {
+      await runtime.updateRelationship({
+        ...existing,
+        tags: relationship.tags,
+        metadata: relationship.metadata,
+      });
+    } else {
+      continue;
+    }
+    result.relationships++;
+  }
+
+  for (const [tableName, memories] of Object.entries(bundle.memories)) {
+    const ids = memories.map((memory) => memory.id).filter((id): id is UUID => !!id);
+    const existingIds = new Set(
+      ids.length > 0 ? (await runtime.getMemoriesByIds(ids)).map((memory) => memory.id) : []
+    );
+    for (const memory of memories) {
+      if (memory.id && existingIds.has(memory.id)) {
+        continue;
+      }
+      await runtime.createMemory({ ...memory, agentId: runtime.agentId }, tableName);
+      result.memories++;
+    }
+  }
+
+  for (const task of bundle.tasks) {
+    if (task.id && (await runtime.getTask(task.id))) {
+      continue;
+    }
+    await runtime.createTask(task);
+    result.tasks++;
+  }
+
+  for (const { key, value } of bundle.cache) {
+    if (!replace && (await runtime.getCache(key)) !== undefined) {
+      continue;
+    }
+    await runtime.setCache(key, value);
+    result.cache++;
+  }
+
+  runtime.logger.info({ src: 'agent', ...result }, 'Imported agent bundle');
+  return result;
+}
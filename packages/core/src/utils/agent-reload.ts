@@ -0,0 +1,39 @@
+/**
+ * Helpers for reloading a running agent with a changed character and plugin list.
+ *
+ * A reload waits for the messages the agent is handling to finish, holds back new ones,
+ * and applies the changes so that the agent either runs the new configuration or keeps
+ * the previous one.
+ */
+
+import type { Character } from '../types/agent';
+
+/** How long a reload waits for in-flight messages before giving up */
+export const DEFAULT_RELOAD_DRAIN_TIMEOUT_MS = 30_000;
+
+/**
+ * Thrown when a reload cannot be applied. The agent keeps its previous configuration.
+ */
+export class AgentReloadError extends Error {
+  readonly code = 'AGENT_RELOAD_FAILED';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentReloadError';
+  }
+}
+
+/**
+ * Replaces the fields of a character in place, so code holding a reference to the
+ * character sees the new one. Fields missing from `source` are removed. Used to restore
+ * the previous character when a reload fails.
+ */
+export function replaceCharacter(target: Character, source: Character): void {
+  const fields = target as unknown as Record<string, unknown>;
+  for (const key of Object.keys(fields)) {
+    if (!(key in source)) {
+      delete fields[key];
+    }
+  }
+  Object.assign(target, source);
+}
@@ -0,0 +1,195 @@
+/**
+ * Minimal cron expression support for task scheduling.
+ *
+ * Supports the standard five fields (minute, hour, day of month, month, day of week)
+ * with `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/10`, `0-30/5`), month and weekday
+ * names (`jan`, `mon`) and the `@hourly`, `@daily`, `@weekly`, `@monthly` and `@yearly`
+ * macros. Expressions are evaluated in UTC.
+ */
+
+/**
+ * A parsed cron expression: the set of allowed values for each field
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** True when the day-of-month field is not `*` */
+  restrictsDayOfMonth: boolean;
+  /** True when the day-of-week field is not `*` */
+  restrictsDayOfWeek: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Five years covers every valid combination, including 29 February on a given weekday
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(value: string, min: number, names?: string[]): number {
+  const nameIndex = names?.indexOf(value.toLowerCase()) ?? -1;
+  if (nameIndex !== -1) {
+    return nameIndex + min;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid cron value "${value}"`);
+  }
+  return Number(value);
+}
+
+function parseField(field: string, min: number, max: number, names?: string[]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, min, names);
+      end = parseValue(to, min, names);
+    } else {
+      start = parseValue(rangePart, min, names);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron field "${part}" is out of range ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a cron expression.
+ * @param expression - A five-field cron expression or macro such as `@daily`
+ * @returns The parsed schedule
+ * @throws Error if the expression is invalid
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = CRON_MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    restrictsDayOfMonth: dayOfMonth !== '*',
+    restrictsDayOfWeek: dayOfWeek !== '*',
+  };
+}
+
+/**
+ * Checks whether a cron expression is valid.
+ * @param expression - The cron expression to check
+ * @returns True if the expression can be parsed
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonthMatches = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeekMatches = schedule.daysOfWeek.has(date.getUTCDay());
+  // Standard cron semantics: when both day fields are restricted, either may match
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+/**
+ * Computes the next time a cron expression fires strictly after the given time.
+ * @param expression - A cron expression or an already parsed schedule
+ * @param after - Timestamp in milliseconds to search from (defaults to now)
+ * @returns The next matching timestamp in milliseconds, or null if none exists
+ */
+export function getNextCronTime(
+  expression: string | CronSchedule,
+  after: number = Date.now()
+): number | null {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after + MAX_SEARCH_MS;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date.getTime();
+  }
+
+  return null;
+}
@@ -0,0 +1,125 @@
+/**
+ * Hybrid memory search: fuses BM25 lexical ranking with embedding similarity.
+ *
+ * Vector search alone misses exact identifiers such as wallet addresses or ticket
+ * numbers, while BM25 alone misses paraphrases. Adapters fetch candidates from both
+ * retrievers and pass them to `fuseHybridSearchResults`, which scores the union with
+ * BM25 and combines the two rankings.
+ */
+
+import { BM25 } from '../search';
+import type { HybridSearchOptions, Memory } from '../types/memory';
+
+export const DEFAULT_HYBRID_SEARCH_OPTIONS: Required<Omit<HybridSearchOptions, 'candidateCount'>> =
+  {
+    fusion: 'rrf',
+    vectorWeight: 0.5,
+    lexicalWeight: 0.5,
+    rrfK: 60,
+  };
+
+const CANDIDATE_MULTIPLIER = 4;
+
+/**
+ * Number of candidates to fetch from each retriever for a hybrid search
+ */
+export function getHybridCandidateCount(count: number, options: HybridSearchOptions = {}): number {
+  return Math.max(options.candidateCount ?? count * CANDIDATE_MULTIPLIER, count);
+}
+
+/**
+ * Splits a query into the unstemmed terms used to find lexical candidates, using the
+ * same text cleaning and stop words as BM25 scoring.
+ */
+export function getLexicalSearchTerms(query: string): string[] {
+  const { tokenizer } = new BM25();
+  const terms = tokenizer
+    .cleanText(query)
+    .split(' ')
+    .filter((term) => term && tokenizer.isValidToken(term));
+  return Array.from(new Set(terms));
+}
+
+/**
+ * Fuses vector and lexical candidates into one ranking.
+ * @param query - The search text, scored against each candidate's `content.text`
+ * @param vectorResults - Candidates from embedding search, with `similarity` set
+ * @param lexicalResults - Candidates from lexical search; `similarity` is used when set
+ * @param count - Number of results to return
+ * @param options - Fusion method and weights
+ * @returns Memories ordered by `hybridScore`, each reporting `similarity` and `lexicalScore`
+ */
+export function fuseHybridSearchResults(
+  query: string,
+  vectorResults: Memory[],
+  lexicalResults: Memory[],
+  count: number,
+  options: HybridSearchOptions = {}
+): Memory[] {
+  const { fusion, vectorWeight, lexicalWeight, rrfK } = {
+    ...DEFAULT_HYBRID_SEARCH_OPTIONS,
+    ...options,
+  };
+
+  const candidates = new Map<string, Memory>();
+  for (const memory of [...vectorResults, ...lexicalResults]) {
+    const key = memory.id ?? `${candidates.size}`;
+    const existing = candidates.get(key);
+    candidates.set(key, {
+      ...memory,
+      similarity: existing?.similarity ?? memory.similarity,
+    });
+  }
+  const memories = Array.from(candidates.values());
+  if (memories.length === 0) {
+    return [];
+  }
+
+  const bm25 = new BM25(memories.map((memory) => ({ text: memory.content.text ?? '' })));
+  const lexicalScores = new Array<number>(memories.length).fill(0);
+  for (const result of bm25.search(query, memories.length)) {
+    lexicalScores[result.index] = result.score;
+  }
+  const vectorScores = memories.map((memory) => memory.similarity ?? 0);
+
+  let hybridScores: number[];
+  if (fusion === 'weighted') {
+    const maxLexical = Math.max(...lexicalScores);
+    hybridScores = memories.map(
+      (_, i) =>
+        vectorWeight * Math.min(Math.max(vectorScores[i], 0), 1) +
+        lexicalWeight * (maxLexical > 0 ? lexicalScores[i] / maxLexical : 0)
+    );
+  } else {
+    // Only candidates a retriever actually matched get a rank from it
+    const ranks = (scores: number[]) => {
+      const rank = new Map<number, number>();
+      scores
+        .map((score, index) => ({ score, index }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .forEach(({ index }, position) => rank.set(index, position + 1));
+      return rank;
+    };
+    const vectorRanks = ranks(vectorScores);
+    const lexicalRanks = ranks(lexicalScores);
+    hybridScores = memories.map((_, i) => {
+      const vectorRank = vectorRanks.get(i);
+      const lexicalRank = lexicalRanks.get(i);
+      return (
+        (vectorRank ? vectorWeight / (rrfK + vectorRank) : 0) +
+        (lexicalRank ? lexicalWeight / (rrfK + lexicalRank) : 0)
+      );
+    });
+  }
+
+  return memories
+    .map((memory, i) => ({
+      ...memory,
+      similarity: vectorScores[i],
+      lexicalScore: lexicalScores[i],
+      hybridScore: hybridScores[i],
+    }))
+    .sort((a, b) => b.hybridScore - a.hybridScore)
+    .slice(0, count);
+}
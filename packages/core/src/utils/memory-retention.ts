@@ -0,0 +1,312 @@
+/**
+ * Declarative retention for stored memories.
+ *
+ * Rules are read from the `MEMORY_RETENTION` character setting, an array of
+ * `MemoryRetentionRule` (or its JSON). Each rule selects memories by table, memory type,
+ * room type and tag, and removes those past its `maxAgeDays` or beyond its
+ * `maxCountPerRoom`, optionally keeping memories that others reference.
+ */
+
+import type { Room } from '../types/environment';
+import type { Memory, MemoryPruneReport, MemoryRetentionRule, PrunedMemory } from '../types/memory';
+import type { UUID } from '../types/primitives';
+import type { IAgentRuntime } from '../types/runtime';
+
+/** Character setting holding the retention rules, as an array or JSON string */
+export const MEMORY_RETENTION_SETTING = 'MEMORY_RETENTION';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Memories read per query while scanning a room */
+const MEMORY_PAGE_SIZE = 500;
+
+function positiveNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Parses retention rules, dropping rules without a table or without any limit
+ */
+export function parseMemoryRetentionRules(value: unknown): MemoryRetentionRule[] {
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const rules: MemoryRetentionRule[] = [];
+  for (const entry of raw) {
+    if (typeof entry !== 'object' || entry === null) {
+      continue;
+    }
+    const { tableName, memoryType, roomType, tag, keepIfReferenced } = entry as Record<
+      string,
+      unknown
+    >;
+    const maxAgeDays = positiveNumber((entry as Record<string, unknown>).maxAgeDays);
+    const maxCountPerRoom = positiveNumber((entry as Record<string, unknown>).maxCountPerRoom);
+    if (typeof tableName !== 'string' || !tableName || (!maxAgeDays && !maxCountPerRoom)) {
+      continue;
+    }
+    const rule: MemoryRetentionRule = { tableName };
+    if (typeof memoryType === 'string' && memoryType) {
+      rule.memoryType = memoryType;
+    }
+    if (typeof roomType === 'string' && roomType) {
+      rule.roomType = roomType;
+    }
+    if (typeof tag === 'string' && tag) {
+      rule.tag = tag;
+    }
+    if (maxAgeDays) {
+      rule.maxAgeDays = maxAgeDays;
+    }
+    if (maxCountPerRoom) {
+      rule.maxCountPerRoom = Math.floor(maxCountPerRoom);
+    }
+    if (keepIfReferenced === true) {
+      rule.keepIfReferenced = true;
+    }
+    rules.push(rule);
+  }
+  return rules;
+}
+
+/**
+ * Reads the retention rules of an agent. Rules may be a nested array in character
+ * settings, which getSetting does not return.
+ */
+export function getMemoryRetentionRules(runtime: IAgentRuntime): MemoryRetentionRule[] {
+  return parseMemoryRetentionRules(
+    runtime.getSetting(MEMORY_RETENTION_SETTING) ??
+      runtime.character.settings?.[MEMORY_RETENTION_SETTING]
+  );
+}
+
+/**
+ * IDs of the memories that a memory points to: the message it replies to, the document
+ * a fragment belongs to, and the messages a summary or archive copy was made from
+ */
+function getReferencedIds(memory: Memory): UUID[] {
+  const metadata = (memory.metadata ?? {}) as Record<string, unknown>;
+  return [
+    memory.content?.inReplyTo,
+    metadata.documentId,
+    metadata.firstMessageId,
+    metadata.lastMessageId,
+    metadata.archivedFrom,
+  ].filter((id): id is UUID => typeof id === 'string' && !!id);
+}
+
+function matchesRule(memory: Memory, rule: MemoryRetentionRule): boolean {
+  if (rule.memoryType && memory.metadata?.type !== rule.memoryType) {
+    return false;
+  }
+  if (rule.tag && !memory.metadata?.tags?.includes(rule.tag)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Selects the memories of one room that a rule removes.
+ *
+ * @param memories - Memories of the rule's table in the room, newest first
+ * @param referencedIds - IDs referenced by any memory of the room
+ * @param newer - Memories matching the rule in newer pages, counted against its max count
+ */
+export function selectExpiredMemories(
+  memories: Memory[],
+  rule: MemoryRetentionRule,
+  now: number,
+  referencedIds: Set<UUID> = new Set(),
+  newer = 0
+): {
+  expired: Array<{ memory: Memory; reason: PrunedMemory['reason'] }>;
+  keptReferenced: number;
+  matched: number;
+} {
+  const candidates = memories.filter((memory) => memory.id && matchesRule(memory, rule));
+  const cutoff = rule.maxAgeDays ? now - rule.maxAgeDays * DAY_MS : undefined;
+  const expired: Array<{ memory: Memory; reason: PrunedMemory['reason'] }> = [];
+  let keptReferenced = 0;
+
+  candidates.forEach((memory, index) => {
+    let reason: PrunedMemory['reason'] | undefined;
+    if (cutoff !== undefined && (memory.createdAt ?? now) < cutoff) {
+      reason = 'max_age';
+    } else if (rule.maxCountPerRoom && newer + index >= rule.maxCountPerRoom) {
+      reason = 'max_count';
+    }
+    if (!reason) {
+      return;
+    }
+    if (rule.keepIfReferenced && referencedIds.has(memory.id as UUID)) {
+      keptReferenced++;
+      return;
+    }
+    expired.push({ memory, reason });
+  });
+
+  return { expired, keptReferenced, matched: candidates.length };
+}
+
+/**
+ * Reads the memories of a table in a room page by page, newest first. Memories created
+ * after `end` are left out so that pages do not shift while they are read.
+ */
+async function forEachMemoryPage(
+  runtime: IAgentRuntime,
+  params: { tableName: string; roomId: UUID; end: number },
+  visit: (memories: Memory[]) => void
+): Promise<void> {
+  for (let offset = 0; ; offset += MEMORY_PAGE_SIZE) {
+    const memories = await runtime.getMemories({
+      ...params,
+      unique: false,
+      count: MEMORY_PAGE_SIZE,
+      offset,
+    });
+    if (memories.length > 0) {
+      visit(memories.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0)));
+    }
+    if (memories.length < MEMORY_PAGE_SIZE) {
+      return;
+    }
+  }
+}
+
+/**
+ * Applies the agent's retention rules to the rooms it takes part in and to its own room,
+ * which holds its knowledge. References are collected from every memory table of a room,
+ * so a summary keeps the messages it was made from whichever tables the rules name. In a
+ * dry run, the report lists what would be removed and nothing is deleted.
+ */
+export async function pruneMemories(
+  runtime: IAgentRuntime,
+  options: { dryRun?: boolean; rules?: MemoryRetentionRule[]; now?: number } = {}
+): Promise<MemoryPruneReport> {
+  const startedAt = Date.now();
+  const now = options.now ?? startedAt;
+  const dryRun = options.dryRun ?? false;
+  const rules = options.rules ?? getMemoryRetentionRules(runtime);
+  const report: MemoryPruneReport = {
+    dryRun,
+    startedAt,
+    durationMs: 0,
+    scanned: 0,
+    keptReferenced: 0,
+    pruned: [],
+  };
+  if (rules.length === 0) {
+    return report;
+  }
+
+  const roomIds = await runtime.getRoomsForParticipant(runtime.agentId);
+  const rooms: Array<{ id: UUID; type?: Room['type'] }> =
+    roomIds.length > 0 ? ((await runtime.getRoomsByIds(roomIds)) ?? []) : [];
+  if (!rooms.some((room) => room.id === runtime.agentId)) {
+    // Knowledge is stored in a room named after the agent, which may not exist as a room
+    rooms.push({ id: runtime.agentId });
+  }
+  const prunedIds = new Set<UUID>();
+
+  for (const room of rooms) {
+    const roomRules = rules
+      .map((rule, index) => ({ rule, index }))
+      .filter(({ rule }) => !rule.roomType || rule.roomType === room.type);
+    if (roomRules.length === 0) {
+      continue;
+    }
+
+    const referencedIds = new Set<UUID>();
+    if (roomRules.some(({ rule }) => rule.keepIfReferenced)) {
+      const tableNames = new Set([
+        ...roomRules.map(({ rule }) => rule.tableName),
+        ...((await runtime.getMemoryTableNames?.(room.id)) ?? []),
+      ]);
+      for (const tableName of tableNames) {
+        await forEachMemoryPage(runtime, { tableName, roomId: room.id, end: startedAt }, (page) => {
+          for (const memory of page) {
+            for (const id of getReferencedIds(memory)) {
+              referencedIds.add(id);
+            }
+          }
+        });
+      }
+    }
+
+    for (const { rule, index } of roomRules) {
+      let newer = 0;
+      await forEachMemoryPage(
+        runtime,
+        { tableName: rule.tableName, roomId: room.id, end: startedAt },
+        (page) => {
+          report.scanned += page.length;
+          const { expired, keptReferenced, matched } = selectExpiredMemories(
+            page,
+            rule,
+            now,
+            referencedIds,
+            newer
+          );
+          newer += matched;
+          report.keptReferenced += keptReferenced;
+          for (const { memory, reason } of expired) {
+            if (prunedIds.has(memory.id as UUID)) {
+              continue;
+            }
+            prunedIds.add(memory.id as UUID);
+            report.pruned.push({
+              id: memory.id as UUID,
+              tableName: rule.tableName,
+              roomId: room.id,
+              createdAt: memory.createdAt,
+              rule: index,
+              reason,
+            });
+          }
+        }
+      );
+    }
+  }
+
+  if (!dryRun && prunedIds.size > 0) {
+    await runtime.deleteManyMemories(Array.from(prunedIds));
+  }
+  report.durationMs = Date.now() - startedAt;
+
+  const countsByTable: Record<string, number> = {};
+  for (const pruned of report.pruned) {
+    countsByTable[pruned.tableName] = (countsByTable[pruned.tableName] ?? 0) + 1;
+  }
+  runtime.logger.info(
+    {
+      src: 'agent',
+      agentId: runtime.agentId,
+      dryRun,
+      scanned: report.scanned,
+      pruned: report.pruned.length,
+      keptReferenced: report.keptReferenced,
+      byTable: countsByTable,
+    },
+    dryRun ? 'Memory retention dry run' : 'Pruned memories'
+  );
+  if (report.pruned.length > 0) {
+    runtime.logger.debug(
+      { src: 'agent', agentId: runtime.agentId, dryRun, pruned: report.pruned },
+      'Memories selected by retention rules'
+    );
+  }
+  return report;
+}
@@ -0,0 +1,285 @@
+/**
+ * Per model type token and spend budgets.
+ *
+ * Budgets are read from the `MODEL_BUDGETS` character setting and counted per UTC
+ * day and month. Counters are seeded from the model usage ledger when a window
+ * starts, then kept current from `MODEL_USED` events.
+ */
+
+import type { ModelUsageRollup } from '../types/database';
+import {
+  ModelType,
+  type ModelBudget,
+  type ModelBudgetConfig,
+  type ModelBudgetMetric,
+  type ModelBudgetPeriod,
+  type ModelTypeName,
+} from '../types/model';
+
+/** Character setting holding the budget config, as an object or JSON string */
+export const MODEL_BUDGETS_SETTING = 'MODEL_BUDGETS';
+
+/**
+ * Cheaper model types used at the hard limit when a budget sets no `fallbackModel`
+ */
+export const DEFAULT_BUDGET_FALLBACKS: Readonly<Record<string, ModelTypeName>> = {
+  [ModelType.TEXT_LARGE]: ModelType.TEXT_SMALL,
+  [ModelType.TEXT_REASONING_LARGE]: ModelType.TEXT_REASONING_SMALL,
+  [ModelType.OBJECT_LARGE]: ModelType.OBJECT_SMALL,
+};
+
+const BUDGET_PERIODS: ModelBudgetPeriod[] = ['daily', 'monthly'];
+const BUDGET_METRICS: ModelBudgetMetric[] = ['tokens', 'cost'];
+
+/**
+ * A budget limit that usage has reached
+ */
+export interface ModelBudgetBreach {
+  modelType: ModelTypeName;
+  period: ModelBudgetPeriod;
+  metric: ModelBudgetMetric;
+  used: number;
+  limit: number;
+}
+
+/**
+ * Thrown by `useModel` when a hard budget limit is reached and the call cannot
+ * fall back to a cheaper model
+ */
+export class ModelBudgetExceededError extends Error {
+  readonly code = 'MODEL_BUDGET_EXCEEDED';
+  readonly modelType: ModelTypeName;
+  readonly period: ModelBudgetPeriod;
+  readonly metric: ModelBudgetMetric;
+  readonly used: number;
+  readonly limit: number;
+
+  constructor(breach: ModelBudgetBreach) {
+    super(
+      `${breach.period} ${breach.metric} budget exceeded for ${breach.modelType}: ${breach.used} of ${breach.limit}`
+    );
+    this.name = 'ModelBudgetExceededError';
+    this.modelType = breach.modelType;
+    this.period = breach.period;
+    this.metric = breach.metric;
+    this.used = breach.used;
+    this.limit = breach.limit;
+  }
+
+  /** Check if an error is a ModelBudgetExceededError */
+  static isModelBudgetExceededError(error: unknown): error is ModelBudgetExceededError {
+    return error instanceof ModelBudgetExceededError;
+  }
+}
+
+function isLimitValue(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function parseWindow(value: unknown): ModelBudget['daily'] {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+  const window: NonNullable<ModelBudget['daily']> = {};
+  for (const metric of BUDGET_METRICS) {
+    const limit = (value as Record<string, unknown>)[metric];
+    if (typeof limit !== 'object' || limit === null) {
+      continue;
+    }
+    const { soft, hard } = limit as Record<string, unknown>;
+    if (isLimitValue(soft) || isLimitValue(hard)) {
+      window[metric] = {
+        ...(isLimitValue(soft) ? { soft } : {}),
+        ...(isLimitValue(hard) ? { hard } : {}),
+      };
+    }
+  }
+  return Object.keys(window).length > 0 ? window : undefined;
+}
+
+/**
+ * Parses a budget config from a setting value.
+ * @param value - A JSON string or an object keyed by model type
+ * @returns The budgets that define at least one valid limit
+ */
+export function parseModelBudgets(value: unknown): ModelBudgetConfig {
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return {};
+  }
+
+  const config: ModelBudgetConfig = {};
+  for (const [modelType, entry] of Object.entries(raw)) {
+    if (typeof entry !== 'object' || entry === null) {
+      continue;
+    }
+    const { onHardLimit, fallbackModel } = entry as Record<string, unknown>;
+    const budget: ModelBudget = {
+      daily: parseWindow((entry as Record<string, unknown>).daily),
+      monthly: parseWindow((entry as Record<string, unknown>).monthly),
+    };
+    if (!budget.daily && !budget.monthly) {
+      continue;
+    }
+    if (onHardLimit === 'reject' || onHardLimit === 'fallback') {
+      budget.onHardLimit = onHardLimit;
+    }
+    if (typeof fallbackModel === 'string' && fallbackModel) {
+      budget.fallbackModel = fallbackModel;
+    }
+    config[modelType] = budget;
+  }
+  return config;
+}
+
+/**
+ * Start of the UTC budget window containing a timestamp
+ */
+export function getBudgetPeriodStart(period: ModelBudgetPeriod, now: number): number {
+  const date = new Date(now);
+  return period === 'daily'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+function getPeriodKey(period: ModelBudgetPeriod, now: number): string {
+  const iso = new Date(now).toISOString();
+  return period === 'daily' ? iso.slice(0, 10) : iso.slice(0, 7);
+}
+
+type Usage = Record<ModelBudgetMetric, number>;
+
+type PeriodState = {
+  key: string;
+  usage: Map<string, Usage>;
+  seeding: Promise<void>;
+};
+
+/**
+ * Tracks usage per model type for the current UTC day and month.
+ */
+export class ModelBudgetTracker {
+  private periods = new Map<ModelBudgetPeriod, PeriodState>();
+  private warned = new Set<string>();
+
+  /**
+   * @param loadUsage - Loads ledger usage grouped by model type since a timestamp
+   */
+  constructor(private readonly loadUsage: (from: number) => Promise<ModelUsageRollup[]>) {}
+
+  /**
+   * Starts new windows that have begun since the last call and waits until their
+   * counters are seeded from the ledger.
+   */
+  async sync(now = Date.now()): Promise<void> {
+    await Promise.all(BUDGET_PERIODS.map((period) => this.getPeriod(period, now).seeding));
+  }
+
+  /**
+   * Adds a completed model call to the current windows.
+   */
+  record(modelType: ModelTypeName, usage: Usage, now = Date.now()): void {
+    for (const period of BUDGET_PERIODS) {
+      // Before the first sync the call is already in the ledger, so seeding counts it
+      if (!this.periods.has(period)) {
+        continue;
+      }
+      const state = this.getPeriod(period, now);
+      const current = state.usage.get(modelType) ?? { tokens: 0, cost: 0 };
+      state.usage.set(modelType, {
+        tokens: current.tokens + usage.tokens,
+        cost: current.cost + usage.cost,
+      });
+    }
+  }
+
+  /**
+   * Returns the first hard limit the model type has reached, if any.
+   */
+  getExceeded(modelType: ModelTypeName, budget: ModelBudget): ModelBudgetBreach | undefined {
+    return this.getBreaches(modelType, budget, 'hard')[0];
+  }
+
+  /**
+   * Returns soft limits reached since the last call. Each limit is reported once
+   * per window.
+   */
+  takeWarnings(modelType: ModelTypeName, budget: ModelBudget): ModelBudgetBreach[] {
+    return this.getBreaches(modelType, budget, 'soft').filter((breach) => {
+      const key = `${this.periods.get(breach.period)?.key}:${modelType}:${breach.metric}`;
+      if (this.warned.has(key)) {
+        return false;
+      }
+      this.warned.add(key);
+      return true;
+    });
+  }
+
+  private getBreaches(
+    modelType: ModelTypeName,
+    budget: ModelBudget,
+    threshold: 'soft' | 'hard'
+  ): ModelBudgetBreach[] {
+    const breaches: ModelBudgetBreach[] = [];
+    for (const period of BUDGET_PERIODS) {
+      const usage = this.periods.get(period)?.usage.get(modelType);
+      for (const metric of BUDGET_METRICS) {
+        const limit = budget[period]?.[metric]?.[threshold];
+        const used = usage?.[metric] ?? 0;
+        if (limit !== undefined && used >= limit) {
+          breaches.push({ modelType, period, metric, used, limit });
+        }
+      }
+    }
+    return breaches;
+  }
+
+  private getPeriod(period: ModelBudgetPeriod, now: number): PeriodState {
+    const key = getPeriodKey(period, now);
+    const existing = this.periods.get(period);
+    if (existing?.key === key) {
+      return existing;
+    }
+    if (existing) {
+      for (const warning of this.warned) {
+        if (warning.startsWith(`${existing.key}:`)) {
+          this.warned.delete(warning);
+        }
+      }
+    }
+
+    // The first window is seeded from the ledger so restarts keep their spend.
+    // Later windows start empty, since they began while this tracker was counting.
+    // A window whose seeding fails is dropped so the next call seeds it again.
+    const usage = new Map<string, Usage>();
+    const state: PeriodState = { key, usage, seeding: Promise.resolve() };
+    if (!existing) {
+      state.seeding = this.loadUsage(getBudgetPeriodStart(period, now)).then(
+        (rows) => {
+          for (const row of rows) {
+            const counted = usage.get(row.key) ?? { tokens: 0, cost: 0 };
+            usage.set(row.key, {
+              tokens: counted.tokens + row.totalTokens,
+              cost: counted.cost + row.estimatedCost,
+            });
+          }
+        },
+        (error) => {
+          if (this.periods.get(period) === state) {
+            this.periods.delete(period);
+          }
+          throw error;
+        }
+      );
+    }
+    this.periods.set(period, state);
+    return state;
+  }
+}
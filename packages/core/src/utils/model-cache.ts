@@ -0,0 +1,117 @@
+/**
+ * Response cache for deterministic model calls.
+ *
+ * Caching is opt-in per model type through character settings:
+ * - `<MODEL_TYPE>_CACHE`: `true` to cache calls of that type, e.g. `OBJECT_SMALL_CACHE`
+ * - `<MODEL_TYPE>_CACHE_TTL_MS`: entry lifetime for that type
+ * - `DEFAULT_CACHE_TTL_MS`: entry lifetime for types without their own TTL
+ *
+ * Only calls with `temperature: 0` or no temperature are cached, and never while
+ * streaming. Entries are stored through the adapter's `getCache`/`setCache`, wrapped
+ * with their expiry time.
+ */
+
+import { createHashAsync } from './crypto-compat';
+import { isPlainObject } from './type-guards';
+import type { ModelTypeName } from '../types/model';
+
+export const MODEL_CACHE_SETTING_SUFFIX = 'CACHE';
+export const MODEL_CACHE_TTL_SETTING_SUFFIX = 'CACHE_TTL_MS';
+export const DEFAULT_MODEL_CACHE_TTL_SETTING = 'DEFAULT_CACHE_TTL_MS';
+export const DEFAULT_MODEL_CACHE_TTL_MS = 60 * 60 * 1000;
+
+const CACHE_KEY_PREFIX = 'model-cache';
+
+// Per-call plumbing and caller identity that does not change the model's answer
+const IGNORED_PARAMS = new Set(['stream', 'onStreamChunk', 'user']);
+
+/**
+ * A cached model response
+ */
+export interface ModelCacheEntry<T = unknown> {
+  value: T;
+  /** Provider that produced the response */
+  provider: string;
+  expiresAt: number;
+}
+
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter((key) => value[key] !== undefined && typeof value[key] !== 'function')
+        .sort()
+        .map((key) => [key, normalize(value[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Normalizes model params for cache keys: per-call options are dropped and object
+ * keys sorted, so equivalent calls serialize identically.
+ */
+export function normalizeModelParams(params: Record<string, unknown>): Record<string, unknown> {
+  return normalize(
+    Object.fromEntries(Object.entries(params).filter(([key]) => !IGNORED_PARAMS.has(key)))
+  ) as Record<string, unknown>;
+}
+
+/**
+ * Whether a call is expected to return the same response for the same input
+ */
+export function isDeterministicModelCall(params: Record<string, unknown>): boolean {
+  return params.temperature === undefined || params.temperature === 0;
+}
+
+/**
+ * Builds the cache key for a model call from its model type, provider and a hash of
+ * its normalized params, which include the prompt.
+ */
+export async function getModelCacheKey(
+  modelType: ModelTypeName,
+  provider: string,
+  params: Record<string, unknown>
+): Promise<string> {
+  const digest = await createHashAsync('sha256', JSON.stringify(normalizeModelParams(params)));
+  const hash = Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${CACHE_KEY_PREFIX}:${modelType}:${provider}:${hash}`;
+}
+
+/**
+ * Whether a model response can be stored and returned later as-is. Streams and
+ * other non-JSON values cannot.
+ */
+export function isCacheableModelResponse(response: unknown): boolean {
+  if (response === null || response === undefined) {
+    return false;
+  }
+  if (['string', 'number', 'boolean'].includes(typeof response)) {
+    return true;
+  }
+  if (Array.isArray(response)) {
+    return response.every(isCacheableModelResponse);
+  }
+  return isPlainObject(response) && !('textStream' in response);
+}
+
+/**
+ * Reads a cache entry, ignoring malformed and expired ones
+ */
+export function getLiveModelCacheEntry(
+  entry: unknown,
+  now = Date.now()
+): ModelCacheEntry | undefined {
+  if (
+    !isPlainObject(entry) ||
+    !('value' in entry) ||
+    typeof entry.expiresAt !== 'number' ||
+    typeof entry.provider !== 'string'
+  ) {
+    return undefined;
+  }
+  return entry.expiresAt > now ? (entry as unknown as ModelCacheEntry) : undefined;
+}
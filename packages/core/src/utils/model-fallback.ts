@@ -0,0 +1,151 @@
+/**
+ * Provider fallback support for `useModel`.
+ *
+ * Handlers registered for a model type are tried in priority order. Each provider
+ * has a circuit breaker: after `MODEL_CIRCUIT_FAILURE_THRESHOLD` consecutive
+ * failures it opens and the provider is skipped for `MODEL_CIRCUIT_RESET_MS`, then
+ * a single probe call is let through (half-open) to decide whether it closes again.
+ */
+
+import type { ModelFallbackAttempt, ModelTypeName } from '../types/model';
+
+/** Runtime setting with the per-handler timeout in milliseconds; unset or 0 disables it */
+export const MODEL_TIMEOUT_SETTING = 'MODEL_TIMEOUT_MS';
+/** Runtime setting with the consecutive failures that open a provider's circuit */
+export const MODEL_CIRCUIT_FAILURE_THRESHOLD_SETTING = 'MODEL_CIRCUIT_FAILURE_THRESHOLD';
+/** Runtime setting with how long an open circuit skips its provider, in milliseconds */
+export const MODEL_CIRCUIT_RESET_SETTING = 'MODEL_CIRCUIT_RESET_MS';
+
+export const DEFAULT_CIRCUIT_FAILURE_THRESHOLD = 3;
+export const DEFAULT_CIRCUIT_RESET_MS = 30_000;
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+/**
+ * Thrown when a model handler does not settle within the configured timeout
+ */
+export class ModelTimeoutError extends Error {
+  readonly code = 'MODEL_TIMEOUT';
+  readonly provider: string;
+  readonly timeoutMs: number;
+
+  constructor(provider: string, timeoutMs: number) {
+    super(`Model provider ${provider} timed out after ${timeoutMs}ms`);
+    this.name = 'ModelTimeoutError';
+    this.provider = provider;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /** Check if an error is a ModelTimeoutError */
+  static isModelTimeoutError(error: unknown): error is ModelTimeoutError {
+    return error instanceof ModelTimeoutError;
+  }
+}
+
+/**
+ * Thrown by `useModel` when no registered provider could answer a call
+ */
+export class ModelUnavailableError extends Error {
+  readonly code = 'MODEL_UNAVAILABLE';
+  readonly modelType: ModelTypeName;
+  readonly attempts: ModelFallbackAttempt[];
+
+  constructor(modelType: ModelTypeName, attempts: ModelFallbackAttempt[]) {
+    const summary = attempts
+      .map((attempt) => `${attempt.provider} (${attempt.error ?? attempt.reason})`)
+      .join(', ');
+    super(`No model provider available for ${modelType}: ${summary}`);
+    this.name = 'ModelUnavailableError';
+    this.modelType = modelType;
+    this.attempts = attempts;
+  }
+
+  /** Check if an error is a ModelUnavailableError */
+  static isModelUnavailableError(error: unknown): error is ModelUnavailableError {
+    return error instanceof ModelUnavailableError;
+  }
+}
+
+/**
+ * Consecutive failure circuit breaker for one model provider
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private current: CircuitState = 'closed';
+  private probing = false;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  /**
+   * Current state, moving an open circuit to half-open once its reset timeout has passed
+   */
+  getState(now = Date.now()): CircuitState {
+    if (this.current === 'open' && now - this.openedAt >= this.options.resetTimeoutMs) {
+      this.current = 'half_open';
+      this.probing = false;
+    }
+    return this.current;
+  }
+
+  /**
+   * Whether a call may go to the provider. A half-open circuit lets one probe through
+   * at a time.
+   */
+  canAttempt(now = Date.now()): boolean {
+    const state = this.getState(now);
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'half_open' && !this.probing) {
+      this.probing = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.current = 'closed';
+    this.probing = false;
+  }
+
+  recordFailure(now = Date.now()): void {
+    this.failures += 1;
+    this.probing = false;
+    if (this.current === 'half_open' || this.failures >= this.options.failureThreshold) {
+      this.current = 'open';
+      this.openedAt = now;
+    }
+  }
+}
+
+/**
+ * Races a handler call against a timeout.
+ * @param promise - The pending handler call
+ * @param timeoutMs - Timeout in milliseconds; 0 or less waits indefinitely
+ * @param provider - Provider name for the timeout error
+ */
+export async function withModelTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  provider: string
+): Promise<T> {
+  if (timeoutMs <= 0) {
+    return promise;
+  }
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ModelTimeoutError(provider, timeoutMs)), timeoutMs);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Price table support for the model usage ledger.
+ *
+ * Prices are in USD per million tokens. Table keys are matched from most to least
+ * specific: `<provider>/<model>`, `<model>`, then `<provider>` as a catch-all.
+ * Keys are case-insensitive.
+ */
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+/** Runtime setting holding a JSON price table */
+export const MODEL_PRICING_SETTING = 'MODEL_PRICING';
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { prompt, completion } = value as Record<string, unknown>;
+  return (
+    typeof prompt === 'number' && typeof completion === 'number' && prompt >= 0 && completion >= 0
+  );
+}
+
+/**
+ * Parses a price table from a setting value.
+ * @param value - A JSON string or an object mapping keys to prices
+ * @returns The valid entries, with lowercased keys; invalid entries are dropped
+ */
+export function parseModelPriceTable(value: unknown): ModelPriceTable {
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return {};
+  }
+
+  const table: ModelPriceTable = {};
+  for (const [key, price] of Object.entries(raw)) {
+    if (isModelPrice(price)) {
+      table[key.toLowerCase()] = { prompt: price.prompt, completion: price.completion };
+    }
+  }
+  return table;
+}
+
+/**
+ * Finds the price for a model call.
+ * @param table - The price table
+ * @param provider - The model provider, e.g. `openai`
+ * @param model - The provider model name, if known
+ * @returns The most specific matching price, or undefined
+ */
+export function resolveModelPrice(
+  table: ModelPriceTable,
+  provider: string,
+  model?: string
+): ModelPrice | undefined {
+  const providerKey = provider.toLowerCase();
+  const modelKey = model?.toLowerCase();
+  return (
+    (modelKey && (table[`${providerKey}/${modelKey}`] ?? table[modelKey])) || table[providerKey]
+  );
+}
+
+/**
+ * Estimates the cost of a model call.
+ * @param tokens - Prompt and completion token counts
+ * @param price - The model price, if known
+ * @returns The cost in USD, or null when the price is unknown
+ */
+export function estimateModelCost(
+  tokens: { prompt: number; completion: number },
+  price: ModelPrice | undefined
+): number | null {
+  if (!price) {
+    return null;
+  }
+  return (
+    (tokens.prompt * price.prompt + tokens.completion * price.completion) / TOKENS_PER_PRICE_UNIT
+  );
+}
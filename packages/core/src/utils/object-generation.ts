@@ -0,0 +1,198 @@
+/**
+ * Schema validated object generation.
+ *
+ * `generateObject` sends the JSON Schema of the expected object to an OBJECT model, both
+ * as `schema` and as a `json_schema` response format for providers that constrain their
+ * output. Responses are parsed and validated; invalid ones are sent back to the model with
+ * the validation errors, up to `maxRepairAttempts` times, and the caller gets either the
+ * typed object or a structured failure.
+ */
+
+import { z, type ZodType } from 'zod';
+import type {
+  GenerateObjectFailure,
+  GenerateObjectOptions,
+  GenerateObjectResult,
+  JSONSchema,
+  ObjectSchema,
+} from '../types/model';
+import { ModelType } from '../types/model';
+import type { IAgentRuntime } from '../types/runtime';
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+const repairTemplate = `# Previous Response
+{{response}}
+
+# Errors
+{{errors}}
+
+The previous response does not match the required schema. Respond again with only the corrected JSON.`;
+
+function isZodSchema(schema: ObjectSchema): schema is ZodType {
+  return typeof (schema as ZodType).safeParse === 'function';
+}
+
+/**
+ * Resolves a JSON Schema or Zod schema to the JSON Schema sent to the model and the Zod
+ * schema used for validation
+ *
+ * @throws when a JSON Schema uses features that cannot be validated
+ */
+export function resolveObjectSchema<T>(schema: ObjectSchema<T>): {
+  jsonSchema: JSONSchema;
+  validator: ZodType<T>;
+} {
+  if (isZodSchema(schema)) {
+    const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema) as JSONSchema;
+    return { jsonSchema: jsonSchema as JSONSchema, validator: schema as ZodType<T> };
+  }
+  return {
+    jsonSchema: schema,
+    validator: z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0]) as ZodType<T>,
+  };
+}
+
+/**
+ * Reads the object from a model response. Handlers return parsed objects or JSON text,
+ * possibly in a code block.
+ *
+ * @returns the parsed value, or undefined when the text is not JSON
+ */
+export function parseObjectResponse(response: unknown): unknown {
+  if (typeof response !== 'string') {
+    return response;
+  }
+  const fenced = response.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/);
+  const text = (fenced ? fenced[1] : response).trim();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    return `${path}: ${issue.message}`;
+  });
+}
+
+function formatResponse(response: unknown): string {
+  if (typeof response === 'string') {
+    return response;
+  }
+  return JSON.stringify(response, null, 2);
+}
+
+/**
+ * Generates an object matching `schema`, repairing invalid responses by sending the
+ * validation errors back to the model
+ */
+export async function generateObject<T>(
+  runtime: IAgentRuntime,
+  schema: ObjectSchema<T>,
+  prompt: string,
+  options: GenerateObjectOptions = {}
+): Promise<GenerateObjectResult<T>> {
+  const modelType = options.modelType ?? ModelType.OBJECT_SMALL;
+  const maxRepairAttempts = Math.max(0, options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS);
+
+  let jsonSchema: JSONSchema;
+  let validator: ZodType<T>;
+  try {
+    ({ jsonSchema, validator } = resolveObjectSchema(schema));
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        reason: 'invalid_schema',
+        message: error instanceof Error ? error.message : String(error),
+        issues: [],
+        attempts: 0,
+      },
+    };
+  }
+
+  let failure: GenerateObjectFailure | undefined;
+  let attemptPrompt = prompt;
+  for (let attempt = 1; attempt <= maxRepairAttempts + 1; attempt++) {
+    let response: unknown;
+    try {
+      response = await runtime.useModel(modelType, {
+        prompt: attemptPrompt,
+        schema: jsonSchema,
+        output: jsonSchema.type === 'array' ? 'array' : 'object',
+        responseFormat: {
+          type: 'json_schema',
+          name: options.schemaName ?? 'response',
+          schema: jsonSchema,
+        },
+        temperature: options.temperature,
+        stopSequences: options.stopSequences,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          reason: 'model_error',
+          message: error instanceof Error ? error.message : String(error),
+          issues: [],
+          attempts: attempt,
+        },
+      };
+    }
+
+    const parsed = parseObjectResponse(response);
+    if (parsed === undefined) {
+      failure = {
+        reason: 'parse_error',
+        message: 'Response is not valid JSON',
+        issues: ['(root): response is not valid JSON'],
+        attempts: attempt,
+        response,
+      };
+    } else {
+      const result = validator.safeParse(parsed);
+      if (result.success) {
+        return { success: true, object: result.data, attempts: attempt };
+      }
+      failure = {
+        reason: 'validation_error',
+        message: 'Response does not match the schema',
+        issues: formatIssues(result.error),
+        attempts: attempt,
+        response: parsed,
+      };
+    }
+
+    runtime.logger.debug(
+      {
+        src: 'agent',
+        agentId: runtime.agentId,
+        modelType,
+        attempt,
+        reason: failure.reason,
+        issues: failure.issues,
+      },
+      'Generated object is invalid'
+    );
+    const errors = failure.issues.map((issue) => `- ${issue}`).join('\n');
+    attemptPrompt = `${prompt}\n\n${repairTemplate
+      .replace('{{response}}', () => formatResponse(response))
+      .replace('{{errors}}', () => errors)}`;
+  }
+
+  runtime.logger.warn(
+    {
+      src: 'agent',
+      agentId: runtime.agentId,
+      modelType,
+      attempts: failure?.attempts,
+      reason: failure?.reason,
+    },
+    'Object generation failed'
+  );
+  return { success: false, error: failure as GenerateObjectFailure };
+}
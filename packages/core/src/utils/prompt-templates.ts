@@ -0,0 +1,284 @@
+/**
+ * Prompt template registry helpers.
+ *
+ * Core and plugins register the templates they render with `composePromptFromState`;
+ * characters override them by name through `Character.templates`. Each template has a
+ * version, a short hash of its text, so runs can record which template produced them.
+ */
+
+import Handlebars from 'handlebars';
+import {
+  imageDescriptionTemplate,
+  messageHandlerTemplate,
+  multiStepDecisionTemplate,
+  multiStepSummaryTemplate,
+  postCreationTemplate,
+  shouldRespondTemplate,
+  toolCallingTemplate,
+} from '../prompts';
+import type {
+  PromptTemplateDefinition,
+  PromptTemplateInfo,
+  PromptTemplateIssue,
+  TemplateType,
+} from '../types/agent';
+import { createHash } from './crypto-compat';
+
+export const CORE_PROMPT_TEMPLATE_SOURCE = 'core';
+
+/**
+ * Templates rendered by core
+ */
+export const CORE_PROMPT_TEMPLATES: PromptTemplateDefinition[] = [
+  {
+    name: 'shouldRespondTemplate',
+    template: shouldRespondTemplate,
+    description: 'Decides whether the agent responds to, ignores or stops a conversation',
+  },
+  {
+    name: 'messageHandlerTemplate',
+    template: messageHandlerTemplate,
+    description: 'Generates the reply and actions for a message',
+  },
+  {
+    name: 'toolCallingTemplate',
+    template: toolCallingTemplate,
+    description: 'Generates the reply for a message with native tool calls',
+  },
+  {
+    name: 'multiStepDecisionTemplate',
+    template: multiStepDecisionTemplate,
+    description: 'Picks the next action in multi-step mode',
+  },
+  {
+    name: 'multiStepSummaryTemplate',
+    template: multiStepSummaryTemplate,
+    description: 'Summarizes the results of a multi-step run into the final reply',
+  },
+  {
+    name: 'postCreationTemplate',
+    template: postCreationTemplate,
+    description: 'Writes a social media post',
+  },
+  {
+    name: 'imageDescriptionTemplate',
+    template: imageDescriptionTemplate,
+    description: 'Describes an image attachment',
+  },
+];
+
+/**
+ * Error thrown when character template overrides cannot be used
+ */
+export class PromptTemplateError extends Error {
+  readonly code = 'INVALID_PROMPT_TEMPLATE';
+
+  constructor(
+    message: string,
+    readonly issues: PromptTemplateIssue[]
+  ) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+type HandlebarsNode = hbs.AST.Node & {
+  path?: hbs.AST.PathExpression | hbs.AST.Literal;
+  params?: hbs.AST.Expression[];
+  program?: hbs.AST.Program;
+  inverse?: hbs.AST.Program;
+};
+
+// Block helpers that change the context, so paths inside them are not state variables
+const CONTEXT_HELPERS = new Set(['each', 'with']);
+
+function collectPath(expression: hbs.AST.Expression | undefined, variables: Set<string>): void {
+  if (expression?.type !== 'PathExpression') {
+    return;
+  }
+  const path = expression as hbs.AST.PathExpression;
+  if (path.data || path.depth > 0 || path.parts.length === 0) {
+    return;
+  }
+  variables.add(path.parts[0]);
+}
+
+function collectVariables(program: hbs.AST.Program | undefined, variables: Set<string>): void {
+  for (const node of (program?.body ?? []) as HandlebarsNode[]) {
+    if (node.type !== 'MustacheStatement' && node.type !== 'BlockStatement') {
+      continue;
+    }
+    const params = node.params ?? [];
+    if (params.length === 0) {
+      collectPath(node.path as hbs.AST.Expression, variables);
+    }
+    for (const param of params) {
+      collectPath(param, variables);
+    }
+    const helper = (node.path as hbs.AST.PathExpression | undefined)?.original;
+    if (node.type === 'BlockStatement' && !CONTEXT_HELPERS.has(String(helper))) {
+      collectVariables(node.program, variables);
+      collectVariables(node.inverse, variables);
+    }
+  }
+}
+
+/**
+ * Lists the state variables a template reads, in order of first use
+ *
+ * @throws when the template is not valid Handlebars
+ */
+export function extractTemplateVariables(template: string): string[] {
+  const variables = new Set<string>();
+  collectVariables(Handlebars.parse(template), variables);
+  return [...variables];
+}
+
+/**
+ * Version of a template: the first 12 hex characters of the SHA-256 of its text, or of its
+ * source for function templates
+ */
+export function getPromptTemplateVersion(template: TemplateType): string {
+  const text = typeof template === 'function' ? template.toString() : template;
+  const digest = createHash('sha256').update(text).digest();
+  return Array.from(digest.slice(0, 6), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Checks a character's override of a template. Function overrides cannot be inspected and
+ * are accepted as is.
+ *
+ * @param definition - The registered template, or undefined when none uses this name
+ */
+export function validatePromptTemplate(
+  name: string,
+  template: unknown,
+  definition?: PromptTemplateDefinition
+): PromptTemplateIssue[] {
+  if (typeof template === 'function') {
+    return [];
+  }
+  if (typeof template !== 'string' || template.trim() === '') {
+    return [{ template: name, severity: 'error', message: 'Template must be a non-empty string' }];
+  }
+
+  let variables: string[];
+  try {
+    variables = extractTemplateVariables(template);
+  } catch (error) {
+    return [
+      {
+        template: name,
+        severity: 'error',
+        message: `Invalid template syntax: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    ];
+  }
+
+  if (!definition) {
+    return [
+      {
+        template: name,
+        severity: 'warning',
+        message: 'No template with this name is used by core or a loaded plugin',
+      },
+    ];
+  }
+
+  const known = new Set(extractTemplateVariables(definition.template));
+  return variables
+    .filter((variable) => !known.has(variable))
+    .map((variable) => ({
+      template: name,
+      severity: 'warning' as const,
+      message: `{{${variable}}} is not used by the default template and may render empty`,
+    }));
+}
+
+/**
+ * Checks all of a character's template overrides against the registered templates
+ */
+export function validatePromptTemplates(
+  templates: Record<string, unknown> | undefined,
+  definitions: ReadonlyMap<string, PromptTemplateDefinition>
+): PromptTemplateIssue[] {
+  return Object.entries(templates ?? {}).flatMap(([name, template]) =>
+    validatePromptTemplate(name, template, definitions.get(name))
+  );
+}
+
+/**
+ * Describes a registered template together with the character's override
+ */
+export function describePromptTemplate(
+  definition: PromptTemplateDefinition,
+  source: string,
+  override?: TemplateType
+): PromptTemplateInfo {
+  let variables: string[] = [];
+  try {
+    variables = extractTemplateVariables(definition.template);
+  } catch {
+    // Plugin templates are not validated on registration; list them without variables
+  }
+  const defaultVersion = getPromptTemplateVersion(definition.template);
+  return {
+    name: definition.name,
+    description: definition.description,
+    source,
+    variables,
+    defaultTemplate: definition.template,
+    defaultVersion,
+    override: typeof override === 'string' ? override : undefined,
+    overridden: override !== undefined,
+    version: override !== undefined ? getPromptTemplateVersion(override) : defaultVersion,
+  };
+}
+
+/**
+ * A line of a template diff
+ */
+export interface PromptTemplateDiffLine {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line diff between two templates, based on their longest common subsequence of lines
+ */
+export function diffPromptTemplates(before: string, after: string): PromptTemplateDiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: PromptTemplateDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  for (; i < a.length; i++) {
+    lines.push({ type: 'removed', text: a[i] });
+  }
+  for (; j < b.length; j++) {
+    lines.push({ type: 'added', text: b[j] });
+  }
+  return lines;
+}
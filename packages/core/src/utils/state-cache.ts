@@ -0,0 +1,292 @@
+/**
+ * Bounded cache of composed state.
+ *
+ * The runtime caches the state composed for each message, and the action results of
+ * each message, so later steps of the same run can reuse them. Entries are evicted
+ * least recently used first once the cache holds more than `maxEntries` entries or
+ * `maxBytes` of (estimated) JSON, and expire `ttlMs` after they were written.
+ *
+ * An optional backend, e.g. the database cache, is consulted by `fetch` on local misses,
+ * so multiple runtimes of one agent can share composed state. Writes to it are coalesced:
+ * a state set several times within `writeDelayMs`, as composeState does for each message,
+ * is written once. Backends store JSON copies, so functions and class instances in state
+ * do not survive the round trip.
+ *
+ * The cache is a `Map`, so code using `runtime.stateCache` as one keeps working.
+ */
+
+import type { State } from '../types/state';
+
+export const DEFAULT_STATE_CACHE_MAX_ENTRIES = 1000;
+export const DEFAULT_STATE_CACHE_TTL_MS = 30 * 60 * 1000;
+export const DEFAULT_STATE_CACHE_WRITE_DELAY_MS = 1000;
+
+/**
+ * Shared storage behind the local cache
+ */
+export interface StateCacheBackend {
+  get(key: string): Promise<State | undefined>;
+  set(key: string, state: State, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface StateCacheOptions {
+  /** Maximum number of entries; 0 for no limit */
+  maxEntries?: number;
+  /** Maximum estimated size of all entries in bytes; 0 for no limit */
+  maxBytes?: number;
+  /** Lifetime of an entry after it was written; 0 for no expiry */
+  ttlMs?: number;
+  backend?: StateCacheBackend;
+  /** Whether an entry is written to the backend; all entries by default */
+  shareKey?: (key: string) => boolean;
+  /** Delay over which writes to the backend are coalesced; 0 to write on every `set` */
+  writeDelayMs?: number;
+  /** Called when the backend fails; backend failures never fail cache calls */
+  onBackendError?: (error: unknown, operation: 'get' | 'set' | 'delete') => void;
+}
+
+export interface StateCacheMetrics {
+  hits: number;
+  misses: number;
+  /** Entries removed to stay within the entry or byte limit */
+  evictions: number;
+  /** Entries removed because their TTL passed */
+  expirations: number;
+  /** Local misses answered by the backend */
+  backendHits: number;
+  entries: number;
+  bytes: number;
+}
+
+interface StateCacheEntryInfo {
+  expiresAt: number;
+  bytes: number;
+}
+
+/**
+ * Rough size of a state in bytes: its JSON length, as UTF-16. States that cannot be
+ * serialized count as empty.
+ */
+function estimateBytes(state: State): number {
+  try {
+    return (JSON.stringify(state)?.length ?? 0) * 2;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * LRU and TTL bounded state cache. Iteration goes from least to most recently used and
+ * may include expired entries until they are read or evicted.
+ */
+export class StateCache extends Map<string, State> {
+  private readonly entryInfo = new Map<string, StateCacheEntryInfo>();
+  private readonly pendingWrites = new Map<string, State>();
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly ttlMs: number;
+  private readonly writeDelayMs: number;
+  private readonly backend?: StateCacheBackend;
+  private readonly shareKey: (key: string) => boolean;
+  private readonly onBackendError?: StateCacheOptions['onBackendError'];
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private totalBytes = 0;
+  private metrics = { hits: 0, misses: 0, evictions: 0, expirations: 0, backendHits: 0 };
+
+  constructor(options: StateCacheOptions = {}) {
+    super();
+    this.maxEntries = options.maxEntries ?? DEFAULT_STATE_CACHE_MAX_ENTRIES;
+    this.maxBytes = options.maxBytes ?? 0;
+    this.ttlMs = options.ttlMs ?? DEFAULT_STATE_CACHE_TTL_MS;
+    this.writeDelayMs = options.writeDelayMs ?? DEFAULT_STATE_CACHE_WRITE_DELAY_MS;
+    this.backend = options.backend;
+    this.shareKey = options.shareKey ?? (() => true);
+    this.onBackendError = options.onBackendError;
+  }
+
+  /**
+   * Reads an entry from the local cache, marking it most recently used
+   */
+  get(key: string): State | undefined {
+    const state = this.getLiveState(key);
+    if (!state) {
+      this.metrics.misses++;
+      return undefined;
+    }
+    this.metrics.hits++;
+    // Re-insert to move the entry to the most recently used end
+    super.delete(key);
+    super.set(key, state);
+    return state;
+  }
+
+  /**
+   * Reads an entry, falling back to the backend on a local miss
+   */
+  async fetch(key: string): Promise<State | undefined> {
+    const local = this.get(key);
+    if (local || !this.backend) {
+      return local;
+    }
+    try {
+      const shared = await this.backend.get(key);
+      if (shared) {
+        this.metrics.backendHits++;
+        this.store(key, shared);
+      }
+      return shared;
+    } catch (error) {
+      this.onBackendError?.(error, 'get');
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes an entry locally, and to the backend once the write delay has passed
+   */
+  set(key: string, state: State): this {
+    this.store(key, state);
+    if (this.backend && this.shareKey(key)) {
+      this.pendingWrites.set(key, state);
+      if (this.writeDelayMs > 0) {
+        this.flushTimer ??= setTimeout(() => void this.flush(), this.writeDelayMs);
+        // Pending writes must not keep the process alive
+        (this.flushTimer as { unref?: () => void }).unref?.();
+      } else {
+        void this.flush();
+      }
+    }
+    return this;
+  }
+
+  has(key: string): boolean {
+    return this.getLiveState(key) !== undefined;
+  }
+
+  delete(key: string): boolean {
+    if (this.backend && this.shareKey(key)) {
+      this.pendingWrites.delete(key);
+      this.backend.delete(key).catch((error) => this.onBackendError?.(error, 'delete'));
+    }
+    return this.remove(key);
+  }
+
+  /**
+   * Empties the local cache and drops pending writes; shared entries expire by their TTL
+   */
+  clear(): void {
+    super.clear();
+    this.entryInfo.clear();
+    this.pendingWrites.clear();
+    this.totalBytes = 0;
+  }
+
+  /**
+   * Writes the pending entries to the backend
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    const writes = Array.from(this.pendingWrites);
+    this.pendingWrites.clear();
+    await Promise.all(
+      writes.map(([key, state]) =>
+        this.backend
+          ?.set(key, state, this.ttlMs)
+          .catch((error) => this.onBackendError?.(error, 'set'))
+      )
+    );
+  }
+
+  getMetrics(): StateCacheMetrics {
+    return { ...this.metrics, entries: this.size, bytes: this.totalBytes };
+  }
+
+  private getLiveState(key: string): State | undefined {
+    const info = this.entryInfo.get(key);
+    if (info && info.expiresAt <= Date.now()) {
+      this.remove(key);
+      this.metrics.expirations++;
+      return undefined;
+    }
+    return super.get(key);
+  }
+
+  private store(key: string, state: State): void {
+    this.remove(key);
+    const bytes = this.maxBytes > 0 ? estimateBytes(state) : 0;
+    const expiresAt = this.ttlMs > 0 ? Date.now() + this.ttlMs : Number.POSITIVE_INFINITY;
+    super.set(key, state);
+    this.entryInfo.set(key, { expiresAt, bytes });
+    this.totalBytes += bytes;
+    this.evict();
+  }
+
+  private remove(key: string): boolean {
+    const info = this.entryInfo.get(key);
+    if (!info) {
+      return false;
+    }
+    super.delete(key);
+    this.entryInfo.delete(key);
+    this.totalBytes -= info.bytes;
+    return true;
+  }
+
+  /**
+   * Evicts least recently used entries until the cache is within its limits. The newest
+   * entry is kept even if it alone exceeds the byte limit.
+   */
+  private evict(): void {
+    const overLimit = () =>
+      (this.maxEntries > 0 && this.size > this.maxEntries) ||
+      (this.maxBytes > 0 && this.totalBytes > this.maxBytes);
+    while (this.size > 1 && overLimit()) {
+      const oldest = super.keys().next().value as string;
+      this.remove(oldest);
+      this.metrics.evictions++;
+    }
+  }
+}
+
+/**
+ * Key-value storage with the shape of the database adapter's cache methods
+ */
+interface CacheStore {
+  getCache<T>(key: string): Promise<T | undefined>;
+  setCache<T>(key: string, value: T): Promise<boolean>;
+  deleteCache(key: string): Promise<boolean>;
+}
+
+const BACKEND_KEY_PREFIX = 'state-cache';
+
+/**
+ * Backend storing state in the database cache, which all runtimes of an agent share
+ */
+export function createDatabaseStateCacheBackend(store: CacheStore): StateCacheBackend {
+  return {
+    async get(key) {
+      const entry = await store.getCache<{ state: State; expiresAt: number | null }>(
+        `${BACKEND_KEY_PREFIX}:${key}`
+      );
+      if (!entry?.state) {
+        return undefined;
+      }
+      if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+        await store.deleteCache(`${BACKEND_KEY_PREFIX}:${key}`);
+        return undefined;
+      }
+      return entry.state;
+    },
+    async set(key, state, ttlMs) {
+      await store.setCache(`${BACKEND_KEY_PREFIX}:${key}`, {
+        state,
+        expiresAt: ttlMs > 0 ? Date.now() + ttlMs : null,
+      });
+    },
+    async delete(key) {
+      await store.deleteCache(`${BACKEND_KEY_PREFIX}:${key}`);
+    },
+  };
+}
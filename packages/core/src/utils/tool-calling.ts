@@ -0,0 +1,105 @@
+/**
+ * Native tool calling: maps actions to tool definitions and normalizes the tool call
+ * results returned by model plugins.
+ *
+ * Model handlers receive `tools` in `GenerateTextParams` and map them to their provider's
+ * tool calling API. Handlers that predate tool calling return plain text, and SDKs differ
+ * in how they name call fields, so `useModel` passes every response of a call made with
+ * `tools` through `normalizeToolCallResult`.
+ */
+
+import type { Action, ActionParameter } from '../types/components';
+import type {
+  GenerateTextWithToolsResult,
+  JSONSchema,
+  ToolCall,
+  ToolDefinition,
+} from '../types/model';
+
+/**
+ * Builds the tool definition of an action; its declared parameters become the
+ * properties of the tool's argument schema
+ */
+export function actionToTool(action: Action): ToolDefinition {
+  const properties: Record<string, JSONSchema> = {};
+  const required: string[] = [];
+  for (const [name, parameter] of Object.entries(action.parameters ?? {})) {
+    const { required: isRequired, ...schema } = parameter as ActionParameter;
+    properties[name] = schema as JSONSchema;
+    if (isRequired) {
+      required.push(name);
+    }
+  }
+  return {
+    name: action.name,
+    description: action.description,
+    parameters: { type: 'object', properties, required },
+  };
+}
+
+/**
+ * Parses tool call arguments, which providers return either as an object or as a JSON string
+ */
+function parseToolArguments(value: unknown): Record<string, unknown> {
+  if (typeof value === 'string') {
+    if (!value.trim()) {
+      return {};
+    }
+    try {
+      return parseToolArguments(JSON.parse(value));
+    } catch {
+      return {};
+    }
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+  return {};
+}
+
+/**
+ * Normalizes a single tool call. Accepts the `ToolCall` shape as well as common SDK shapes:
+ * `{ toolCallId, toolName, input | args }` and `{ id, function: { name, arguments } }`.
+ */
+function normalizeToolCall(raw: unknown, index: number): ToolCall | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+  const call = raw as Record<string, unknown>;
+  const fn = (call.function ?? {}) as Record<string, unknown>;
+  const name = call.name ?? call.toolName ?? fn.name;
+  if (typeof name !== 'string' || !name) {
+    return null;
+  }
+  const id = call.id ?? call.toolCallId;
+  return {
+    id: typeof id === 'string' && id ? id : `call_${index}`,
+    name,
+    arguments: parseToolArguments(call.arguments ?? call.input ?? call.args ?? fn.arguments),
+  };
+}
+
+/**
+ * Normalizes the response of a model call made with `tools` to a `GenerateTextWithToolsResult`.
+ * A plain string response is text without tool calls.
+ */
+export function normalizeToolCallResult(response: unknown): GenerateTextWithToolsResult {
+  if (typeof response === 'string') {
+    return { text: response, toolCalls: [] };
+  }
+  if (!response || typeof response !== 'object') {
+    return { text: '', toolCalls: [] };
+  }
+  const result = response as Record<string, unknown>;
+  const rawCalls = result.toolCalls ?? result.tool_calls;
+  const toolCalls = (Array.isArray(rawCalls) ? rawCalls : [])
+    .map(normalizeToolCall)
+    .filter((call): call is ToolCall => call !== null);
+  const finishReason = result.finishReason ?? result.finish_reason;
+  return {
+    text: typeof result.text === 'string' ? result.text : '',
+    toolCalls,
+    ...(typeof finishReason === 'string' ? { finishReason } : {}),
+    ...(result.usage ? { usage: result.usage as GenerateTextWithToolsResult['usage'] } : {}),
+  };
+}
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { MemoryType, ServiceType, type Memory, type UUID } from '@elizaos/core';
+import {
+  DOCUMENTS_TABLE,
+  KNOWLEDGE_TABLE,
+  KnowledgeService,
+  KNOWLEDGE_SERVICE_TYPE,
+} from '../services/knowledge';
+import { knowledgeProvider } from '../providers/knowledge';
+import { createMockRuntime, createMockMemory, type MockRuntime } from './test-utils';
+
+describe('KnowledgeService', () => {
+  let directory: string;
+  let mockRuntime: MockRuntime;
+  let memories: Map<UUID, Memory & { tableName: string }>;
+
+  const fragmentsOf = () =>
+    [...memories.values()].filter((memory) => memory.tableName === KNOWLEDGE_TABLE);
+  const documentsOf = () =>
+    [...memories.values()].filter((memory) => memory.tableName === DOCUMENTS_TABLE);
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'knowledge-'));
+    memories = new Map();
+
+    mockRuntime = createMockRuntime({
+      getSetting: mock(
+        (key: string) =>
+          ({ KNOWLEDGE_PATH: directory, KNOWLEDGE_CHUNK_SIZE: 20, KNOWLEDGE_CHUNK_OVERLAP: 4 })[key]
+      ),
+      getMemoryById: mock(async (id: UUID) => memories.get(id) ?? null),
+      getMemories: mock(async (params: { tableName: string; count: number; offset: number }) =>
+        [...memories.values()]
+          .filter((memory) => memory.tableName === params.tableName)
+          .slice(params.offset, params.offset + params.count)
+      ),
+      createMemory: mock(async (memory: Memory, tableName: string) => {
+        memories.set(memory.id as UUID, { ...memory, tableName });
+        return memory.id;
+      }),
+      updateMemory: mock(async (memory: Memory) => {
+        const existing = memories.get(memory.id as UUID)!;
+        memories.set(memory.id as UUID, { ...existing, ...memory });
+        return true;
+      }),
+      deleteManyMemories: mock(async (ids: UUID[]) => {
+        for (const id of ids) {
+          memories.delete(id);
+        }
+      }),
+      queueEmbeddingGeneration: mock(async () => {}),
+    } as any);
+    mockRuntime.character.knowledge = [{ directory: 'docs', shared: true }, 'Eliza likes tea.'];
+
+    mkdirSync(path.join(directory, 'docs', 'nested'), { recursive: true });
+    writeFileSync(path.join(directory, 'docs', 'guide.md'), 'word '.repeat(200));
+    writeFileSync(path.join(directory, 'docs', 'nested', 'config.json'), '{"port":3000}');
+    writeFileSync(path.join(directory, 'docs', 'image.png'), 'not text');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('ingests text entries and supported files into overlapping, embedded fragments', async () => {
+    const service = (await KnowledgeService.start(mockRuntime as any)) as KnowledgeService;
+    const result = await service.ingestion;
+
+    expect(result).toEqual({ ingested: 3, unchanged: 0, skipped: 0, failed: 0, removed: 0 });
+
+    const documents = documentsOf();
+    expect(documents).toHaveLength(3);
+    const guide = documents.find((d) => (d.metadata as any).path?.endsWith('guide.md'))!;
+    expect(guide.metadata).toMatchObject({ type: MemoryType.DOCUMENT, scope: 'shared' });
+    expect((guide.metadata as any).fragmentCount).toBeGreaterThan(1);
+
+    const guideFragments = fragmentsOf().filter((f) => (f.metadata as any).documentId === guide.id);
+    expect(guideFragments.map((f) => (f.metadata as any).position)).toEqual(
+      guideFragments.map((_, i) => i)
+    );
+    expect(mockRuntime.queueEmbeddingGeneration).toHaveBeenCalledTimes(fragmentsOf().length);
+  });
+
+  it('re-ingests only documents whose content changed', async () => {
+    const service = (await KnowledgeService.start(mockRuntime as any)) as KnowledgeService;
+    await service.ingestion;
+    const fragmentCount = fragmentsOf().length;
+
+    expect(await service.ingestCharacterKnowledge()).toMatchObject({ ingested: 0, unchanged: 3 });
+
+    writeFileSync(path.join(directory, 'docs', 'guide.md'), 'Short guide.');
+    expect(await service.ingestCharacterKnowledge()).toMatchObject({ ingested: 1, unchanged: 2 });
+    expect(fragmentsOf().length).toBeLessThan(fragmentCount);
+    expect(fragmentsOf().some((f) => f.content.text === 'Short guide.')).toBe(true);
+  });
+
+  it('reads PDFs through the PDF service and skips them without one', async () => {
+    writeFileSync(path.join(directory, 'docs', 'paper.pdf'), '%PDF-1.4');
+    const service = (await KnowledgeService.start(mockRuntime as any)) as KnowledgeService;
+    expect(await service.ingestion).toMatchObject({ ingested: 3, skipped: 1 });
+
+    const extractText = mock(async () => ({ text: 'Extracted PDF text', pageCount: 1 }));
+    mockRuntime.getService = mock((type: string) =>
+      type === ServiceType.PDF ? { extractText } : null
+    ) as any;
+    expect(await service.ingestCharacterKnowledge()).toMatchObject({ ingested: 1, unchanged: 3 });
+    expect(extractText).toHaveBeenCalled();
+  });
+
+  it('ingests a document again when its fragments were not all stored', async () => {
+    mockRuntime.character.knowledge = ['Eliza likes tea. '.repeat(10)];
+    const createMemory = mockRuntime.createMemory as ReturnType<typeof mock>;
+    const store = createMemory.getMockImplementation()!;
+    createMemory.mockImplementationOnce(store).mockImplementationOnce(async () => {
+      throw new Error('embedding queue unavailable');
+    });
+
+    const service = (await KnowledgeService.start(mockRuntime as any)) as KnowledgeService;
+    expect(await service.ingestion).toMatchObject({ ingested: 0, failed: 1 });
+    expect(documentsOf()).toHaveLength(0);
+
+    expect(await service.ingestCharacterKnowledge()).toMatchObject({ ingested: 1, failed: 0 });
+    const [document] = documentsOf();
+    expect(fragmentsOf()).toHaveLength((document.metadata as any).fragmentCount);
+  });
+
+  it('logs a failed ingestion instead of leaving it unhandled', async () => {
+    (mockRuntime.getMemories as ReturnType<typeof mock>).mockImplementation(async () => {
+      throw new Error('database unavailable');
+    });
+
+    const service = (await KnowledgeService.start(mockRuntime as any)) as KnowledgeService;
+    expect(await service.ingestion).toMatchObject({ ingested: 0, removed: 0 });
+    expect(mockRuntime.logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ error: 'database unavailable' }),
+      'Knowledge ingestion failed'
+    );
+  });
+
+  it('removes the documents and fragments of deleted files', async () => {
+    const service = (await KnowledgeService.start(mockRuntime as any)) as KnowledgeService;
+    await service.ingestion;
+    const guide = documentsOf().find((d) => (d.metadata as any).path?.endsWith('guide.md'))!;
+
+    unlinkSync(path.join(directory, 'docs', 'guide.md'));
+    expect(await service.ingestCharacterKnowledge()).toMatchObject({ unchanged: 2, removed: 1 });
+    expect(memories.has(guide.id as UUID)).toBe(false);
+    expect(fragmentsOf().some((f) => (f.metadata as any).documentId === guide.id)).toBe(false);
+    expect(documentsOf()).toHaveLength(2);
+  });
+
+  it('keeps the documents of a directory that cannot be read', async () => {
+    const service = (await KnowledgeService.start(mockRuntime as any)) as KnowledgeService;
+    await service.ingestion;
+
+    rmSync(path.join(directory, 'docs'), { recursive: true });
+    expect(await service.ingestCharacterKnowledge()).toMatchObject({ unchanged: 1, removed: 0 });
+    expect(documentsOf()).toHaveLength(3);
+  });
+
+  it('searches shared knowledge of other agents without repeating fragments', async () => {
+    const searchMemories = mock(async () => [
+      createMockMemory({ content: { text: 'Port is 3000' } }),
+      createMockMemory({ content: { text: 'Port is 3000' } }),
+      createMockMemory({ content: { text: 'Eliza likes tea.' } }),
+    ]);
+    mockRuntime.character.knowledge = [];
+    mockRuntime.useModel = mock(async () => [0.1, 0.2]) as any;
+    mockRuntime.searchMemories = searchMemories as any;
+    const service = (await KnowledgeService.start(mockRuntime as any)) as KnowledgeService;
+
+    const fragments = await service.searchKnowledge('Which port?', 3);
+    expect(searchMemories).toHaveBeenCalledWith(
+      expect.objectContaining({ tableName: KNOWLEDGE_TABLE, includeShared: true })
+    );
+    expect(fragments.map((fragment) => fragment.content.text)).toEqual([
+      'Port is 3000',
+      'Eliza likes tea.',
+    ]);
+  });
+});
+
+describe('Knowledge Provider', () => {
+  it('injects the top-k knowledge fragments into state', async () => {
+    const searchKnowledge = mock(async () => [
+      createMockMemory({ content: { text: 'Port is 3000' } }),
+      createMockMemory({ content: { text: 'Eliza likes tea.' } }),
+    ]);
+    const mockRuntime = createMockRuntime({
+      getService: mock((type: string) =>
+        type === KNOWLEDGE_SERVICE_TYPE ? { searchKnowledge } : null
+      ),
+      getSetting: mock((key: string) => (key === 'KNOWLEDGE_TOP_K' ? '2' : null)),
+    } as any);
+    mockRuntime.character.knowledge = ['Eliza likes tea.'];
+
+    const result = await knowledgeProvider.get(
+      mockRuntime as any,
+      createMockMemory({ content: { text: 'Which port?' } }) as Memory,
+      {} as any
+    );
+
+    expect(searchKnowledge).toHaveBeenCalledWith('Which port?', 2);
+    expect(result.values?.knowledge).toBe('Port is 3000\n\nEliza likes tea.');
+    expect(result.text).toContain('# Knowledge');
+  });
+});
@@ -222,6 +222,63 @@ describe('Message Event Handlers', () => {
   });
 });
 
+describe('Model Usage Event Handler', () => {
+  const handleModelUsed = bootstrapPlugin.events![EventType.MODEL_USED]![0];
+
+  it('should record token usage with an estimated cost', async () => {
+    const mockRuntime = createMockRuntime({
+      getSetting: mock().mockReturnValue(
+        JSON.stringify({ 'openai/gpt-4o-mini': { prompt: 0.15, completion: 0.6 } })
+      ),
+      createModelUsage: mock().mockResolvedValue(undefined),
+    });
+
+    await handleModelUsed({
+      runtime: mockRuntime as unknown as IAgentRuntime,
+      source: 'openai',
+      provider: 'openai',
+      type: 'TEXT_SMALL',
+      model: 'gpt-4o-mini',
+      prompt: 'Hello',
+      tokens: { prompt: 1000, completion: 1000, total: 2000 },
+    });
+
+    expect(mockRuntime.createModelUsage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        runId: 'test-run-id',
+        provider: 'openai',
+        modelType: 'TEXT_SMALL',
+        model: 'gpt-4o-mini',
+        promptTokens: 1000,
+        completionTokens: 1000,
+        totalTokens: 2000,
+        estimatedCost: expect.closeTo(0.00075, 8),
+      })
+    );
+  });
+
+  it('should record a null cost for unpriced models and skip calls without tokens', async () => {
+    const mockRuntime = createMockRuntime({
+      createModelUsage: mock().mockResolvedValue(undefined),
+    });
+    const payload = {
+      runtime: mockRuntime as unknown as IAgentRuntime,
+      source: 'local-ai',
+      provider: 'local-ai',
+      type: 'TEXT_LARGE',
+      prompt: 'Hello',
+    };
+
+    await handleModelUsed(payload);
+    expect(mockRuntime.createModelUsage).not.toHaveBeenCalled();
+
+    await handleModelUsed({ ...payload, tokens: { prompt: 10, completion: 5, total: 15 } });
+    expect(mockRuntime.createModelUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ totalTokens: 15, estimatedCost: null })
+    );
+  });
+});
+
 describe('Plugin Module Structure', () => {
   it('should export all required plugin components', () => {
     // Check that the plugin exports all required components
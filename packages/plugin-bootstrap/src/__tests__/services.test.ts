@@ -254,6 +254,199 @@ describe('TaskService', () => {
     //   })
     // );
   });
+
+  describe('scheduling, retries and leases', () => {
+    const workerExecute = mock().mockResolvedValue(undefined);
+
+    beforeEach(() => {
+      workerExecute.mockReset();
+      workerExecute.mockResolvedValue(undefined);
+      mockRuntime.getTaskWorker = mock().mockReturnValue({
+        name: 'SCHEDULED_TASK',
+        execute: workerExecute,
+      }) as any;
+    });
+
+    const scheduledTask = (overrides: Record<string, any> = {}) => ({
+      id: 'scheduled-task',
+      name: 'SCHEDULED_TASK',
+      description: 'A scheduled task',
+      tags: ['queue'],
+      metadata: {},
+      ...overrides,
+    });
+
+    it('should not run one-shot tasks before runAt', async () => {
+      mockRuntime.getTasks = mock().mockResolvedValue([
+        scheduledTask({ metadata: { runAt: Date.now() + 60000 } }),
+      ]);
+
+      await (taskService as any).checkTasks();
+
+      expect(workerExecute).not.toHaveBeenCalled();
+    });
+
+    it('should run one-shot tasks once runAt has passed', async () => {
+      mockRuntime.getTasks = mock().mockResolvedValue([
+        scheduledTask({ metadata: { runAt: Date.now() - 1000 } }),
+      ]);
+
+      await (taskService as any).checkTasks();
+
+      expect(workerExecute).toHaveBeenCalled();
+      expect(mockRuntime.deleteTask).toHaveBeenCalledWith('scheduled-task');
+    });
+
+    it('should schedule the first occurrence of a cron task instead of running it', async () => {
+      mockRuntime.getTasks = mock().mockResolvedValue([
+        scheduledTask({ metadata: { cron: '0 * * * *' } }),
+      ]);
+
+      await (taskService as any).checkTasks();
+
+      expect(workerExecute).not.toHaveBeenCalled();
+      const [, update] = mockRuntime.updateTask.mock.calls[0];
+      expect(update.nextRunAt).toBeGreaterThan(Date.now());
+      expect(new Date(update.nextRunAt).getUTCMinutes()).toBe(0);
+    });
+
+    it('should run due cron tasks and schedule the next occurrence', async () => {
+      mockRuntime.getTasks = mock().mockResolvedValue([
+        scheduledTask({ metadata: { cron: '0 * * * *' }, nextRunAt: Date.now() - 1000 }),
+      ]);
+
+      await (taskService as any).checkTasks();
+
+      expect(workerExecute).toHaveBeenCalled();
+      expect(mockRuntime.deleteTask).not.toHaveBeenCalled();
+      expect(mockRuntime.updateTask).toHaveBeenCalledWith(
+        'scheduled-task',
+        expect.objectContaining({
+          status: 'pending',
+          attempts: 0,
+          nextRunAt: expect.any(Number),
+          leaseOwner: null,
+        })
+      );
+    });
+
+    it('should schedule the first run of a repeating task instead of running it', async () => {
+      const updatedAt = Date.now() - 1000;
+      mockRuntime.getTasks = mock().mockResolvedValue([
+        scheduledTask({
+          tags: ['queue', 'repeat'],
+          updatedAt,
+          metadata: { updateInterval: 60000 },
+        }),
+      ]);
+
+      await (taskService as any).checkTasks();
+
+      expect(workerExecute).not.toHaveBeenCalled();
+      expect(mockRuntime.updateTask).toHaveBeenCalledWith('scheduled-task', {
+        nextRunAt: updatedAt + 60000,
+      });
+    });
+
+    it('should schedule repeating tasks for their next interval after running', async () => {
+      const before = Date.now();
+      await (taskService as any).executeTask(
+        scheduledTask({ tags: ['queue', 'repeat'], metadata: { updateInterval: 60000 } })
+      );
+
+      expect(workerExecute).toHaveBeenCalled();
+      expect(mockRuntime.deleteTask).not.toHaveBeenCalled();
+      const [, update] = mockRuntime.updateTask.mock.calls.find(
+        ([, values]) => values.status === 'pending'
+      )!;
+      expect(update.nextRunAt).toBeGreaterThanOrEqual(before + 60000);
+      expect(update.nextRunAt).toBeLessThan(before + 61000);
+    });
+
+    it('should retry failed tasks with exponential backoff', async () => {
+      workerExecute.mockRejectedValue(new Error('Temporary failure'));
+      spyOn(mockRuntime.logger, 'error').mockImplementation(() => {});
+
+      const before = Date.now();
+      await (taskService as any).executeTask(
+        scheduledTask({ attempts: 1, metadata: { retry: { maxAttempts: 5, backoffMs: 1000 } } })
+      );
+
+      expect(mockRuntime.deleteTask).not.toHaveBeenCalled();
+      const [, update] = mockRuntime.updateTask.mock.calls[0];
+      expect(update.status).toBe('pending');
+      expect(update.attempts).toBe(2);
+      expect(update.lastError).toMatchObject({ message: 'Temporary failure', attempt: 2 });
+      // Second attempt waits backoffMs * 2
+      expect(update.nextRunAt).toBeGreaterThanOrEqual(before + 2000);
+      expect(update.nextRunAt).toBeLessThan(before + 3000);
+    });
+
+    it('should dead-letter tasks that exhaust their retries', async () => {
+      workerExecute.mockRejectedValue(new Error('Permanent failure'));
+      spyOn(mockRuntime.logger, 'error').mockImplementation(() => {});
+
+      await (taskService as any).executeTask(scheduledTask({ attempts: 2 }));
+
+      expect(mockRuntime.updateTask).toHaveBeenCalledWith(
+        'scheduled-task',
+        expect.objectContaining({ status: 'dead_letter', attempts: 3, nextRunAt: null })
+      );
+    });
+
+    it('should skip dead-lettered tasks', async () => {
+      mockRuntime.getTasks = mock().mockResolvedValue([scheduledTask({ status: 'dead_letter' })]);
+
+      await (taskService as any).checkTasks();
+
+      expect(workerExecute).not.toHaveBeenCalled();
+    });
+
+    it('should not execute tasks leased by another runtime', async () => {
+      (mockRuntime as any).claimTask = mock().mockResolvedValue(null);
+
+      await (taskService as any).executeTask(scheduledTask());
+
+      expect((mockRuntime as any).claimTask).toHaveBeenCalledWith(
+        'scheduled-task',
+        expect.any(String),
+        expect.any(Number)
+      );
+      expect(workerExecute).not.toHaveBeenCalled();
+      expect(mockRuntime.deleteTask).not.toHaveBeenCalled();
+    });
+
+    it('should skip paused tasks', async () => {
+      mockRuntime.getTasks = mock().mockResolvedValue([scheduledTask({ status: 'paused' })]);
+
+      await (taskService as any).checkTasks();
+
+      expect(workerExecute).not.toHaveBeenCalled();
+    });
+
+    it('should record execution history for successful and failed runs', async () => {
+      (mockRuntime as any).createTaskExecution = mock().mockResolvedValue(undefined);
+
+      await (taskService as any).executeTask(scheduledTask());
+      workerExecute.mockRejectedValue(new Error('Temporary failure'));
+      spyOn(mockRuntime.logger, 'error').mockImplementation(() => {});
+      await (taskService as any).executeTask(scheduledTask({ attempts: 1 }));
+
+      const calls = (mockRuntime as any).createTaskExecution.mock.calls;
+      expect(calls[0][0]).toMatchObject({
+        taskId: 'scheduled-task',
+        taskName: 'SCHEDULED_TASK',
+        status: 'succeeded',
+        attempt: 1,
+      });
+      expect(calls[1][0]).toMatchObject({
+        status: 'failed',
+        attempt: 2,
+        error: 'Temporary failure',
+      });
+      expect(calls[1][0].endedAt).toBeGreaterThanOrEqual(calls[1][0].startedAt);
+    });
+  });
 });
 
 describe('Service Registry', () => {
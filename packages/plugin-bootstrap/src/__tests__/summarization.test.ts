@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { MemoryType, type Memory, type UUID } from '@elizaos/core';
+import {
+  ARCHIVED_MESSAGES_TABLE,
+  SUMMARIES_TABLE,
+  SummarizationService,
+  SUMMARIZATION_SERVICE_TYPE,
+} from '../services/summarization';
+import { summarizationEvaluator } from '../evaluators/summarization';
+import { recentMessagesProvider } from '../providers/recentMessages';
+import { createMockRuntime, createMockMemory, type MockRuntime } from './test-utils';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('SummarizationService', () => {
+  let mockRuntime: MockRuntime;
+  let memories: Map<UUID, Memory & { tableName: string }>;
+  let settings: Record<string, number | string>;
+  let roomId: UUID;
+
+  const tableOf = (tableName: string) =>
+    [...memories.values()].filter((memory) => memory.tableName === tableName);
+
+  const addMessages = (count: number, startTime: number) => {
+    for (let i = 0; i < count; i++) {
+      const message = createMockMemory({
+        id: crypto.randomUUID() as UUID,
+        roomId,
+        content: { text: `message ${memories.size}` },
+        createdAt: startTime + i,
+      }) as Memory;
+      memories.set(message.id as UUID, { ...message, tableName: 'messages' });
+    }
+  };
+
+  beforeEach(() => {
+    memories = new Map();
+    settings = { SUMMARY_WINDOW_SIZE: 4, SUMMARY_FANOUT: 2 };
+    roomId = crypto.randomUUID() as UUID;
+
+    mockRuntime = createMockRuntime({
+      getSetting: mock((key: string) => settings[key]),
+      getConversationLength: mock(() => 2),
+      getMemories: mock(
+        async (params: {
+          tableName: string;
+          roomId: UUID;
+          start?: number;
+          end?: number;
+          count?: number;
+          offset?: number;
+        }) => {
+          const offset = params.offset ?? 0;
+          return tableOf(params.tableName)
+            .filter(
+              (memory) =>
+                memory.roomId === params.roomId &&
+                (!params.start || (memory.createdAt ?? 0) >= params.start) &&
+                (!params.end || (memory.createdAt ?? 0) <= params.end)
+            )
+            .sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0))
+            .slice(offset, params.count === undefined ? undefined : offset + params.count);
+        }
+      ),
+      countMemories: mock(
+        async (memoryRoomId: UUID, _unique: boolean, tableName: string, start?: number) =>
+          tableOf(tableName).filter(
+            (memory) =>
+              memory.roomId === memoryRoomId && (!start || (memory.createdAt ?? 0) >= start)
+          ).length
+      ),
+      createMemory: mock(async (memory: Memory, tableName: string) => {
+        memories.set(memory.id as UUID, { ...memory, tableName });
+        return memory.id;
+      }),
+      deleteManyMemories: mock(async (ids: UUID[]) => {
+        for (const id of ids) {
+          memories.delete(id);
+        }
+      }),
+      useModel: mock(async () => `summary ${tableOf(SUMMARIES_TABLE).length + 1}`),
+    } as any);
+  });
+
+  it('summarizes complete windows of messages older than the conversation window', async () => {
+    const service = (await SummarizationService.start(mockRuntime as any)) as SummarizationService;
+    addMessages(11, Date.now() - 1000);
+
+    expect(await service.countUnsummarizedMessages(roomId)).toBe(9);
+    expect(await service.summarizeRoom(roomId)).toBe(3);
+
+    const levelOne = tableOf(SUMMARIES_TABLE).filter((s) => (s.metadata as any).level === 1);
+    expect(levelOne).toHaveLength(2);
+    expect(levelOne[0].metadata).toMatchObject({
+      type: MemoryType.CUSTOM,
+      source: 'summarization',
+      messageCount: 4,
+    });
+    // One message is left over; it waits for a complete window
+    expect(await service.countUnsummarizedMessages(roomId)).toBe(1);
+  });
+
+  it('serves the highest level summary of each part of the conversation', async () => {
+    const service = (await SummarizationService.start(mockRuntime as any)) as SummarizationService;
+    addMessages(14, Date.now() - 1000);
+
+    await service.summarizeRoom(roomId);
+    let served = await service.getSummaries(roomId);
+    expect(served.map((summary) => (summary.metadata as any).level)).toEqual([2, 1]);
+    expect((served[0].metadata as any).messageCount).toBe(8);
+
+    // A fourth window completes a second level 2 summary, and the two roll up into level 3
+    addMessages(4, Date.now() - 100);
+    await service.summarizeRoom(roomId);
+    served = await service.getSummaries(roomId);
+    expect(served.map((summary) => (summary.metadata as any).level)).toEqual([3]);
+    expect((served[0].metadata as any).messageCount).toBe(16);
+  });
+
+  it('summarizes at most SUMMARY_MAX_WINDOWS_PER_RUN windows per run, oldest first', async () => {
+    settings.SUMMARY_MAX_WINDOWS_PER_RUN = 2;
+    const service = (await SummarizationService.start(mockRuntime as any)) as SummarizationService;
+    const startTime = Date.now() - 1000;
+    addMessages(14, startTime);
+
+    await service.summarizeRoom(roomId);
+    let levelOne = tableOf(SUMMARIES_TABLE).filter((s) => (s.metadata as any).level === 1);
+    expect(levelOne.map((summary) => (summary.metadata as any).startTime)).toEqual([
+      startTime,
+      startTime + 4,
+    ]);
+    expect(await service.countUnsummarizedMessages(roomId)).toBe(4);
+
+    await service.summarizeRoom(roomId);
+    levelOne = tableOf(SUMMARIES_TABLE).filter((s) => (s.metadata as any).level === 1);
+    expect(levelOne).toHaveLength(3);
+    expect(await service.countUnsummarizedMessages(roomId)).toBe(0);
+  });
+
+  it('archives expired messages page by page', async () => {
+    settings.MESSAGE_RETENTION_DAYS = 1;
+    settings.SUMMARY_WINDOW_SIZE = 300;
+    settings.SUMMARY_MAX_WINDOWS_PER_RUN = 2;
+    const service = (await SummarizationService.start(mockRuntime as any)) as SummarizationService;
+    addMessages(602, Date.now() - 3 * DAY);
+
+    await service.summarizeRoom(roomId);
+
+    expect(tableOf('messages')).toHaveLength(2);
+    expect(tableOf(ARCHIVED_MESSAGES_TABLE)).toHaveLength(600);
+    expect(mockRuntime.deleteManyMemories).toHaveBeenCalledTimes(2);
+  });
+
+  it('archives summarized messages past the retention threshold', async () => {
+    settings.MESSAGE_RETENTION_DAYS = 1;
+    const service = (await SummarizationService.start(mockRuntime as any)) as SummarizationService;
+    addMessages(6, Date.now() - 3 * DAY);
+
+    await service.summarizeRoom(roomId);
+
+    expect(tableOf('messages')).toHaveLength(2);
+    expect(tableOf(ARCHIVED_MESSAGES_TABLE)).toHaveLength(4);
+  });
+
+  it('deletes expired messages when the retention mode is delete', async () => {
+    settings.MESSAGE_RETENTION_DAYS = 1;
+    settings.MESSAGE_RETENTION_MODE = 'delete';
+    const service = (await SummarizationService.start(mockRuntime as any)) as SummarizationService;
+    addMessages(6, Date.now() - 3 * DAY);
+
+    await service.summarizeRoom(roomId);
+
+    expect(tableOf('messages')).toHaveLength(2);
+    expect(tableOf(ARCHIVED_MESSAGES_TABLE)).toHaveLength(0);
+  });
+
+  it('runs from the evaluator and serves summaries in RECENT_MESSAGES', async () => {
+    const service = (await SummarizationService.start(mockRuntime as any)) as SummarizationService;
+    mockRuntime.getService = mock((type: string) =>
+      type === SUMMARIZATION_SERVICE_TYPE ? service : null
+    ) as any;
+    addMessages(6, Date.now() - 1000);
+    const message = createMockMemory({ roomId, content: { text: 'hello' } }) as Memory;
+
+    expect(await summarizationEvaluator.validate(mockRuntime as any, message)).toBe(true);
+    await summarizationEvaluator.handler(mockRuntime as any, message);
+    expect(await summarizationEvaluator.validate(mockRuntime as any, message)).toBe(false);
+
+    const result = await recentMessagesProvider.get(mockRuntime as any, message, {} as any);
+    expect(result.values?.conversationSummary).toContain('summary 1');
+    expect(result.text).toContain('# Earlier in this Conversation');
+  });
+});
@@ -15,7 +15,9 @@ import {
   Service,
   State,
   UUID,
+  CORE_PROMPT_TEMPLATES,
 } from '@elizaos/core';
+import { bootstrapPlugin } from '../index';
 
 /**
  * Creates a comprehensive mock of the IAgentRuntime interface with sensible defaults
@@ -56,6 +58,9 @@ export function createMockRuntime(overrides: Partial<MockRuntime> = {}): MockRun
 
     // Core methods
     registerPlugin: mock().mockResolvedValue(undefined),
+    unregisterPlugin: mock().mockResolvedValue(undefined),
+    reload: mock().mockResolvedValue({ addedPlugins: [], removedPlugins: [] }),
+    trackMessage: mock().mockImplementation((handler: () => Promise<unknown>) => handler()),
     initialize: mock().mockResolvedValue(undefined),
     getKnowledge: mock().mockResolvedValue([]),
     addKnowledge: mock().mockResolvedValue(undefined),
@@ -71,6 +76,15 @@ export function createMockRuntime(overrides: Partial<MockRuntime> = {}): MockRun
     registerProvider: mock(),
     registerAction: mock(),
     registerEvaluator: mock(),
+    getPromptTemplate: mock().mockImplementation(function (this: MockRuntime, name: string) {
+      return (
+        this.character.templates?.[name] ??
+        [...CORE_PROMPT_TEMPLATES, ...(bootstrapPlugin.templates ?? [])].find(
+          (definition) => definition.name === name
+        )?.template
+      );
+    }),
+    getRunPromptTemplates: mock().mockReturnValue([]),
     ensureConnection: mock().mockResolvedValue(undefined),
     ensureParticipantInRoom: mock().mockResolvedValue(undefined),
     ensureWorldExists: mock().mockResolvedValue(undefined),
@@ -206,6 +220,7 @@ export function createMockRuntime(overrides: Partial<MockRuntime> = {}): MockRun
     getTasks: mock().mockResolvedValue([]),
     getTasksByName: mock().mockResolvedValue([]),
     createTask: mock().mockResolvedValue({ id: 'task-id' }),
+    updateTask: mock().mockResolvedValue(undefined),
     updateTasks: mock().mockResolvedValue([]),
     deleteTasks: mock().mockResolvedValue([]),
     deleteTask: mock().mockResolvedValue(true),
@@ -455,6 +470,7 @@ export type MockRuntime = Partial<IAgentRuntime & IDatabaseAdapter> & {
   getTasks: ReturnType<typeof mock>;
   getTasksByName: ReturnType<typeof mock>;
   createTask: ReturnType<typeof mock>;
+  updateTask: ReturnType<typeof mock>;
   updateTasks: ReturnType<typeof mock>;
   deleteTasks: ReturnType<typeof mock>;
   deleteTask: ReturnType<typeof mock>;
@@ -20,7 +20,7 @@ import { v4 } from 'uuid';
  *
  * @type {string}
  */
-const imageGenerationTemplate = `# Task: Generate an image prompt based on the user's request.
+export const imageGenerationTemplate = `# Task: Generate an image prompt based on the user's request.
   {{providers}}
   # Instructions:
   Based on the user's message in the conversation, write a clear, concise, and visually descriptive prompt for image generation. Focus only on what the user wants to see, extract the key visual elements from the request, and formulate a detailed prompt suitable for image generation.
@@ -63,7 +63,7 @@ export const generateImageAction = {
 
       const prompt = composePromptFromState({
         state,
-        template: runtime.character.templates?.imageGenerationTemplate || imageGenerationTemplate,
+        template: runtime.getPromptTemplate('imageGenerationTemplate'),
       });
 
       const promptResponse = await runtime.useModel(ModelType.TEXT_LARGE, {
@@ -1,10 +1,10 @@
-export { generateImageAction } from './imageGeneration';
+export { generateImageAction, imageGenerationTemplate } from './imageGeneration';
 export { choiceAction } from './choice';
 export { followRoomAction } from './followRoom';
 export { ignoreAction } from './ignore';
 export { muteRoomAction } from './muteRoom';
 export { noneAction } from './none';
-export { replyAction } from './reply';
+export { replyAction, replyTemplate } from './reply';
 export { updateRoleAction } from './roles';
 export { sendMessageAction } from './sendMessage';
 export { updateSettingsAction } from './settings';
@@ -23,7 +23,7 @@ import {
  *
  * @type {string}
  */
-const replyTemplate = `# Task: Generate dialog for the character {{agentName}}.
+export const replyTemplate = `# Task: Generate dialog for the character {{agentName}}.
 
 {{providers}}
 
@@ -104,7 +104,7 @@ export const replyAction = {
 
     const prompt = composePromptFromState({
       state,
-      template: runtime.character.templates?.replyTemplate || replyTemplate,
+      template: runtime.getPromptTemplate('replyTemplate'),
     });
 
     try {
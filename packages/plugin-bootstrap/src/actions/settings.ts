@@ -386,57 +386,43 @@ async function extractSettingValues(
     `;
 
   try {
-    // Use runtime.useModel directly with strong typing
-    const result = await runtime.useModel<typeof ModelType.OBJECT_LARGE, SettingUpdate[]>(
-      ModelType.OBJECT_LARGE,
+    const result = await runtime.generateObject<{ settings: SettingUpdate[] }>(
       {
-        prompt: basePrompt,
-        output: 'array',
-        schema: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              key: { type: 'string' },
-              value: { type: 'string' },
+        type: 'object',
+        properties: {
+          settings: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                key: { type: 'string' },
+                value: { type: 'string' },
+              },
+              required: ['key', 'value'],
             },
-            required: ['key', 'value'],
           },
         },
-      }
+        required: ['settings'],
+      },
+      basePrompt,
+      { modelType: ModelType.OBJECT_LARGE, schemaName: 'setting_updates' }
     );
 
-    // Validate the extracted settings
-    if (!result) {
+    if (!result.success) {
+      logger.warn(
+        {
+          src: 'plugin:bootstrap:action:settings',
+          agentId: runtime.agentId,
+          reason: result.error.reason,
+          issues: result.error.issues,
+        },
+        'Could not extract settings'
+      );
       return [];
     }
 
-    function extractValidSettings(obj: unknown, worldSettings: WorldSettings) {
-      const extracted: SettingUpdate[] = [];
-
-      function traverse(node: unknown): void {
-        if (Array.isArray(node)) {
-          for (const item of node) {
-            traverse(item);
-          }
-        } else if (typeof node === 'object' && node !== null) {
-          for (const [key, value] of Object.entries(node)) {
-            if (worldSettings[key] && typeof value !== 'object') {
-              extracted.push({ key, value });
-            } else {
-              traverse(value);
-            }
-          }
-        }
-      }
-
-      traverse(obj);
-      return extracted;
-    }
-
-    const extractedSettings = extractValidSettings(result, worldSettings);
-
-    return extractedSettings;
+    // Only keep settings this world defines
+    return result.object.settings.filter((update) => !!worldSettings[update.key]);
   } catch (error) {
     console.error('Error extracting settings:', error);
     return [];
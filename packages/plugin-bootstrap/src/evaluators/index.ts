@@ -1 +1,2 @@
-export { reflectionEvaluator } from './reflection';
+export { reflectionEvaluator, reflectionTemplate } from './reflection';
+export { summarizationEvaluator } from './summarization';
@@ -82,7 +82,7 @@ z.object({
  *
  * @type {string}
  */
-const reflectionTemplate = `# Task: Generate Agent Reflection, Extract Facts and Relationships
+export const reflectionTemplate = `# Task: Generate Agent Reflection, Extract Facts and Relationships
 
 {{providers}}
 
@@ -218,7 +218,7 @@ async function handler(runtime: IAgentRuntime, message: Memory, state?: State) {
       existingRelationships: JSON.stringify(existingRelationships),
       senderId: message.entityId,
     },
-    template: runtime.character.templates?.reflectionTemplate || reflectionTemplate,
+    template: runtime.getPromptTemplate('reflectionTemplate'),
   });
 
   // Use the model without schema validation
@@ -0,0 +1,40 @@
+import { type Evaluator, type IAgentRuntime, type Memory } from '@elizaos/core';
+import { SUMMARIZATION_SERVICE_TYPE, type SummarizationService } from '../services/summarization';
+
+/**
+ * Summarizes the older messages of a room once a full window of them has fallen out
+ * of the conversation window. Runs whether or not the agent responded.
+ */
+export const summarizationEvaluator: Evaluator = {
+  name: 'SUMMARIZE_CONVERSATION',
+  similes: ['COMPACT_CONVERSATION', 'CONVERSATION_SUMMARY'],
+  description: 'Summarize older conversation history that no longer fits in the recent messages.',
+  alwaysRun: true,
+  validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+    const service = runtime.getService<SummarizationService>(SUMMARIZATION_SERVICE_TYPE);
+    if (!service) {
+      return false;
+    }
+    return (await service.countUnsummarizedMessages(message.roomId)) >= service.windowSize;
+  },
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const service = runtime.getService<SummarizationService>(SUMMARIZATION_SERVICE_TYPE);
+    if (!service) {
+      return;
+    }
+    try {
+      await service.summarizeRoom(message.roomId);
+    } catch (error) {
+      runtime.logger.error(
+        {
+          src: 'plugin:bootstrap:evaluator:summarization',
+          agentId: runtime.agentId,
+          roomId: message.roomId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to summarize conversation'
+      );
+    }
+  },
+  examples: [],
+};
@@ -10,19 +10,21 @@ import {
   type EvaluatorEventPayload,
   EventType,
   type IAgentRuntime,
-  imageDescriptionTemplate,
   type InvokePayload,
   logger,
   type Media,
   type Memory,
   type MentionContext,
-  messageHandlerTemplate,
   type MessagePayload,
+  type ModelEventPayload,
   ModelType,
+  MODEL_PRICING_SETTING,
+  estimateModelCost,
   parseKeyValueXml,
+  parseModelPriceTable,
   type Plugin,
   PluginEvents,
-  postCreationTemplate,
+  resolveModelPrice,
   Role,
   type Room,
   type RunEventPayload,
@@ -38,6 +40,9 @@ import * as providers from './providers/index.ts';
 
 import { TaskService } from './services/task.ts';
 import { EmbeddingGenerationService } from './services/embedding.ts';
+import { KnowledgeService } from './services/knowledge.ts';
+import { SummarizationService } from './services/summarization.ts';
+import { MemoryRetentionService } from './services/memory-retention.ts';
 
 /** Shape of image description XML response */
 interface ImageDescriptionXml {
@@ -208,7 +213,10 @@ export async function processAttachments(
 
         try {
           const response = await runtime.useModel(ModelType.IMAGE_DESCRIPTION, {
-            prompt: imageDescriptionTemplate,
+            prompt: composePromptFromState({
+              state: { values: {}, data: {}, text: '' },
+              template: runtime.getPromptTemplate('imageDescriptionTemplate'),
+            }),
             imageUrl,
           });
 
@@ -548,7 +556,7 @@ const postGeneratedHandler = async ({
 
   const prompt = composePromptFromState({
     state,
-    template: runtime.character.templates?.messageHandlerTemplate || messageHandlerTemplate,
+    template: runtime.getPromptTemplate('messageHandlerTemplate'),
   });
 
   let responseContent: Content | null = null;
@@ -593,7 +601,7 @@ const postGeneratedHandler = async ({
   // Generate prompt for tweet content
   const postPrompt = composePromptFromState({
     state,
-    template: runtime.character.templates?.postCreationTemplate || postCreationTemplate,
+    template: runtime.getPromptTemplate('postCreationTemplate'),
   });
 
   // Use TEXT_LARGE model as we expect structured XML text, not a JSON object
@@ -1301,6 +1309,7 @@ const events: PluginEvents = {
             duration: payload.duration,
             error: payload.error,
             source: payload.source || 'unknown',
+            templates: payload.templates,
           },
         });
         logger.debug(
@@ -1362,6 +1371,45 @@ const events: PluginEvents = {
     },
   ],
 
+  [EventType.MODEL_USED]: [
+    async (payload: ModelEventPayload) => {
+      // Calls without token counts have nothing to account for
+      if (!payload.tokens) {
+        return;
+      }
+
+      const { runtime, tokens } = payload;
+      try {
+        const price = resolveModelPrice(
+          parseModelPriceTable(runtime.getSetting(MODEL_PRICING_SETTING)),
+          payload.provider,
+          payload.model
+        );
+        await runtime.createModelUsage?.({
+          runId: payload.runId ?? runtime.getCurrentRunId(),
+          provider: payload.provider,
+          modelType: payload.type,
+          model: payload.model,
+          promptTokens: tokens.prompt,
+          completionTokens: tokens.completion,
+          totalTokens: tokens.total,
+          estimatedCost: estimateModelCost(tokens, price),
+          createdAt: Date.now(),
+        });
+      } catch (error) {
+        logger.error(
+          {
+            src: 'plugin:bootstrap',
+            agentId: runtime.agentId,
+            provider: payload.provider,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Failed to record model usage'
+        );
+      }
+    },
+  ],
+
   [EventType.CONTROL_MESSAGE]: [
     async (payload: ControlMessagePayload) => {
       if (!payload.message) {
@@ -1395,7 +1443,24 @@ export const bootstrapPlugin: Plugin = {
     actions.generateImageAction,
   ],
   events,
-  evaluators: [evaluators.reflectionEvaluator],
+  evaluators: [evaluators.reflectionEvaluator, evaluators.summarizationEvaluator],
+  templates: [
+    {
+      name: 'replyTemplate',
+      template: actions.replyTemplate,
+      description: 'Generates the text of the REPLY action',
+    },
+    {
+      name: 'imageGenerationTemplate',
+      template: actions.imageGenerationTemplate,
+      description: 'Writes the image prompt of the GENERATE_IMAGE action',
+    },
+    {
+      name: 'reflectionTemplate',
+      template: evaluators.reflectionTemplate,
+      description: 'Extracts facts and relationships after a conversation turn',
+    },
+  ],
   providers: [
     providers.evaluatorsProvider,
     providers.anxietyProvider,
@@ -1404,6 +1469,7 @@ export const bootstrapPlugin: Plugin = {
     providers.relationshipsProvider,
     providers.choiceProvider,
     providers.factsProvider,
+    providers.knowledgeProvider,
     providers.roleProvider,
     providers.settingsProvider,
     // there is given no reason for this - odi
@@ -1416,7 +1482,13 @@ export const bootstrapPlugin: Plugin = {
     providers.recentMessagesProvider,
     providers.worldProvider,
   ],
-  services: [TaskService, EmbeddingGenerationService],
+  services: [
+    TaskService,
+    EmbeddingGenerationService,
+    KnowledgeService,
+    SummarizationService,
+    MemoryRetentionService,
+  ],
 };
 
 export default bootstrapPlugin;
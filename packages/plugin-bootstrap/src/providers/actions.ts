@@ -1,15 +1,13 @@
-import type { Action, IAgentRuntime, Memory, Provider, State } from '@elizaos/core';
+import type {
+  Action,
+  ActionParameter,
+  IAgentRuntime,
+  Memory,
+  Provider,
+  State,
+} from '@elizaos/core';
 import { addHeader, composeActionExamples, formatActionNames, formatActions } from '@elizaos/core';
 
-/**
- * Interface for action parameter definition
- */
-interface ActionParameter {
-  type: string;
-  description: string;
-  required?: boolean;
-}
-
 /**
  * Formats actions with their parameter schemas for multi-step workflows.
  * This provides the LLM with detailed information about what parameters each action accepts.
@@ -18,6 +18,8 @@ import { addHeader, ChannelType } from '@elizaos/core';
 export const characterProvider: Provider = {
   name: 'CHARACTER',
   description: 'Character information',
+  // The character only changes on reload, which clears the cache
+  cacheTtlMs: 60_000,
   get: async (runtime: IAgentRuntime, message: Memory, state: State) => {
     const character = runtime.character;
 
@@ -0,0 +1,48 @@
+import { addHeader, type IAgentRuntime, type Memory, type Provider } from '@elizaos/core';
+import { KNOWLEDGE_SERVICE_TYPE, type KnowledgeService } from '../services/knowledge';
+import { getNumberSetting } from '../settings';
+
+const DEFAULT_TOP_K = 5;
+
+/**
+ * Provides the knowledge fragments most relevant to the current message.
+ * The number of fragments is set by the KNOWLEDGE_TOP_K setting.
+ */
+export const knowledgeProvider: Provider = {
+  name: 'KNOWLEDGE',
+  description: "Relevant fragments of the agent's knowledge base",
+  get: async (runtime: IAgentRuntime, message: Memory) => {
+    const service = runtime.getService<KnowledgeService>(KNOWLEDGE_SERVICE_TYPE);
+    const query = message.content.text ?? '';
+    if (!service || !runtime.character.knowledge?.length || !query.trim()) {
+      return { values: { knowledge: '' }, data: { knowledge: [] }, text: '' };
+    }
+
+    try {
+      const fragments = await service.searchKnowledge(
+        query,
+        getNumberSetting(runtime, 'KNOWLEDGE_TOP_K', DEFAULT_TOP_K)
+      );
+      const knowledge = fragments
+        .map((fragment) => fragment.content.text)
+        .filter(Boolean)
+        .join('\n\n');
+
+      return {
+        values: { knowledge },
+        data: { knowledge: fragments },
+        text: knowledge ? addHeader('# Knowledge', knowledge) : '',
+      };
+    } catch (error) {
+      runtime.logger.error(
+        {
+          src: 'plugin:bootstrap:provider:knowledge',
+          agentId: runtime.agentId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Error in knowledgeProvider'
+      );
+      return { values: { knowledge: '' }, data: { knowledge: [] }, text: '' };
+    }
+  },
+};
@@ -12,6 +12,7 @@ import {
   type UUID,
   logger,
 } from '@elizaos/core';
+import { SUMMARIZATION_SERVICE_TYPE, type SummarizationService } from '../services/summarization';
 
 // Move getRecentInteractions outside the provider
 /**
@@ -70,19 +71,31 @@ export const recentMessagesProvider: Provider = {
       const conversationLength = runtime.getConversationLength();
 
       // Parallelize initial data fetching operations including recentInteractions
-      const [entitiesData, room, recentMessagesData, recentInteractionsData] = await Promise.all([
-        getEntityDetails({ runtime, roomId }),
-        runtime.getRoom(roomId),
-        runtime.getMemories({
-          tableName: 'messages',
-          roomId,
-          count: conversationLength,
-          unique: false,
-        }),
-        message.entityId !== runtime.agentId
-          ? getRecentInteractions(runtime, message.entityId, runtime.agentId, roomId)
-          : Promise.resolve([]),
-      ]);
+      const summarizationService = runtime.getService<SummarizationService>(
+        SUMMARIZATION_SERVICE_TYPE
+      );
+
+      const [entitiesData, room, recentMessagesData, recentInteractionsData, summaries] =
+        await Promise.all([
+          getEntityDetails({ runtime, roomId }),
+          runtime.getRoom(roomId),
+          runtime.getMemories({
+            tableName: 'messages',
+            roomId,
+            count: conversationLength,
+            unique: false,
+          }),
+          message.entityId !== runtime.agentId
+            ? getRecentInteractions(runtime, message.entityId, runtime.agentId, roomId)
+            : Promise.resolve([]),
+          summarizationService ? summarizationService.getSummaries(roomId) : Promise.resolve([]),
+        ]);
+
+      // Older history, rolled up into summaries, precedes the raw recent messages
+      const summaryTexts = summaries.map((summary) => summary.content.text).filter(Boolean);
+      const conversationSummary = summaryTexts.length
+        ? addHeader('# Earlier in this Conversation', summaryTexts.join('\n\n'))
+        : '';
 
       // Separate action results from regular messages
       const actionResultMessages = recentMessagesData.filter(
@@ -191,8 +204,10 @@ export const recentMessagesProvider: Provider = {
             recentMessages: dialogueMessages,
             recentInteractions: [],
             actionResults: actionResultMessages,
+            summaries,
           },
           values: {
+            conversationSummary,
             recentPosts: '',
             recentMessages: '',
             recentMessageInteractions: '',
@@ -345,9 +360,11 @@ export const recentMessagesProvider: Provider = {
         recentMessages: dialogueMessages,
         recentInteractions: recentInteractionsData,
         actionResults: actionResultMessages,
+        summaries,
       };
 
       const values = {
+        conversationSummary,
         recentPosts,
         recentMessages,
         recentMessageInteractions,
@@ -359,6 +376,7 @@ export const recentMessagesProvider: Provider = {
 
       // Combine all text sections
       const text = [
+        conversationSummary,
         isPostFormat ? recentPosts : recentMessages,
         actionResultsText, // Include action results in the text output
         // Only add received message and focus headers if there are messages or a current message to process
@@ -27,6 +27,7 @@ import {
 export const roleProvider: Provider = {
   name: 'ROLES',
   description: 'Roles in the server, default are OWNER, ADMIN and MEMBER (as well as NONE)',
+  cacheTtlMs: 30_000,
   get: async (runtime: IAgentRuntime, message: Memory, state: State): Promise<ProviderResult> => {
     const room = state.data.room ?? (await runtime.getRoom(message.roomId));
     if (!room) {
@@ -141,6 +141,8 @@ function generateStatusMessage(
 export const settingsProvider: Provider = {
   name: 'SETTINGS',
   description: 'Current settings for the server',
+  // Short, as onboarding updates settings from one message to the next
+  cacheTtlMs: 10_000,
   get: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<ProviderResult> => {
     try {
       // Parallelize the initial database operations to improve performance
@@ -15,6 +15,7 @@ export const worldProvider: Provider = {
   name: 'WORLD',
   description: 'World and environment information',
   dynamic: true,
+  cacheTtlMs: 30_000,
 
   get: async (runtime: IAgentRuntime, message: Memory) => {
     try {
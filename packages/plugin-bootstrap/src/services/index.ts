@@ -1,2 +1,5 @@
 // Export all service types from this file
 export * from './task';
+export * from './knowledge';
+export * from './summarization';
+export * from './memory-retention';
@@ -0,0 +1,454 @@
+import {
+  createUniqueUuid,
+  type DirectoryItem,
+  type DocumentMetadata,
+  type FragmentMetadata,
+  type IAgentRuntime,
+  type Memory,
+  MemoryType,
+  ModelType,
+  Service,
+  ServiceType,
+  splitChunks,
+  type UUID,
+} from '@elizaos/core';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getNumberSetting } from '../settings';
+
+export const KNOWLEDGE_SERVICE_TYPE = 'knowledge';
+
+/** Table of the ingested documents, holding their full text and content hash */
+export const DOCUMENTS_TABLE = 'documents';
+/** Table of the embedded document fragments that are searched */
+export const KNOWLEDGE_TABLE = 'knowledge';
+
+const DEFAULT_CHUNK_SIZE = 512;
+const DEFAULT_CHUNK_OVERLAP = 64;
+/** Documents read per page when looking for those of removed knowledge */
+const DOCUMENT_PAGE_SIZE = 100;
+
+const TEXT_EXTENSIONS = ['.md', '.markdown', '.txt', '.json'];
+const PDF_EXTENSION = '.pdf';
+
+/**
+ * The part of `IPdfService` (from @elizaos/service-interfaces) used to read PDF files
+ */
+interface PdfTextExtractor extends Service {
+  extractText(pdf: string | Buffer): Promise<{ text: string }>;
+}
+
+/**
+ * A document to ingest: a file, or a text entry of `Character.knowledge`
+ */
+interface KnowledgeSource {
+  /** Stable key the document ID is derived from: the file path, or a hash of the text */
+  key: string;
+  shared: boolean;
+  path?: string;
+  text?: string;
+}
+
+export type KnowledgeIngestionStatus = 'ingested' | 'unchanged' | 'skipped';
+
+export interface KnowledgeIngestionResult {
+  ingested: number;
+  unchanged: number;
+  skipped: number;
+  failed: number;
+  /** Documents removed because the character no longer lists them */
+  removed: number;
+}
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function emptyIngestionResult(): KnowledgeIngestionResult {
+  return { ingested: 0, unchanged: 0, skipped: 0, failed: 0, removed: 0 };
+}
+
+function isDirectoryItem(item: unknown): item is DirectoryItem {
+  return typeof item === 'object' && item !== null && 'directory' in item;
+}
+
+/**
+ * Ingests `Character.knowledge` into searchable memories.
+ *
+ * Each file or text entry becomes a document memory, split into overlapping fragments
+ * that are embedded through the embedding queue. Documents keep the hash of their text,
+ * so restarting the agent only re-ingests files that changed, and documents of deleted
+ * files are removed. Knowledge marked `shared` is also searched by the other agents
+ * using the same database.
+ */
+export class KnowledgeService extends Service {
+  static serviceType = KNOWLEDGE_SERVICE_TYPE;
+  capabilityDescription = 'Ingests character knowledge into searchable memory fragments';
+
+  /** Resolves when the character's knowledge has been ingested */
+  ingestion: Promise<KnowledgeIngestionResult> = Promise.resolve(emptyIngestionResult());
+
+  static async start(runtime: IAgentRuntime): Promise<Service> {
+    const service = new KnowledgeService(runtime);
+    if (runtime.character.knowledge?.length) {
+      // Ingestion can take a while for large knowledge bases, so it does not block startup
+      service.ingestion = service.ingestCharacterKnowledge().catch((error) => {
+        runtime.logger.error(
+          {
+            src: 'plugin:bootstrap:service:knowledge',
+            agentId: runtime.agentId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Knowledge ingestion failed'
+        );
+        return emptyIngestionResult();
+      });
+    }
+    return service;
+  }
+
+  async stop(): Promise<void> {}
+
+  /**
+   * Ingests every entry of `Character.knowledge` and removes the documents of entries
+   * that are gone. Relative paths are resolved against the KNOWLEDGE_PATH setting, or the
+   * working directory.
+   */
+  async ingestCharacterKnowledge(): Promise<KnowledgeIngestionResult> {
+    const result = emptyIngestionResult();
+    const { sources, complete } = await this.resolveSources();
+
+    for (const source of sources) {
+      try {
+        const status = await this.ingestSource(source);
+        result[status]++;
+      } catch (error) {
+        result.failed++;
+        this.runtime.logger.error(
+          {
+            src: 'plugin:bootstrap:service:knowledge',
+            agentId: this.runtime.agentId,
+            path: source.path,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Failed to ingest knowledge'
+        );
+      }
+    }
+
+    // A directory that could not be read would otherwise lose all its documents
+    if (complete) {
+      result.removed = await this.removeStaleDocuments(sources);
+    }
+
+    this.runtime.logger.info(
+      { src: 'plugin:bootstrap:service:knowledge', agentId: this.runtime.agentId, ...result },
+      'Knowledge ingestion complete'
+    );
+    return result;
+  }
+
+  /**
+   * Ingests a text document, replacing the fragments of an earlier version.
+   * Documents whose text did not change since they were last ingested are skipped. The
+   * content hash is written once every fragment is stored, so a document whose ingestion
+   * did not finish is ingested again.
+   */
+  async addKnowledge(params: {
+    key: string;
+    text: string;
+    shared?: boolean;
+    path?: string;
+  }): Promise<'ingested' | 'unchanged'> {
+    const documentId = this.getDocumentId(params.key);
+    const contentHash = hashText(params.text);
+    const existing = await this.runtime.getMemoryById(documentId);
+    const existingMetadata = existing?.metadata as DocumentMetadata | undefined;
+    if (existingMetadata?.contentHash === contentHash) {
+      return 'unchanged';
+    }
+
+    const chunkSize = getNumberSetting(this.runtime, 'KNOWLEDGE_CHUNK_SIZE', DEFAULT_CHUNK_SIZE);
+    const chunkOverlap = getNumberSetting(
+      this.runtime,
+      'KNOWLEDGE_CHUNK_OVERLAP',
+      DEFAULT_CHUNK_OVERLAP
+    );
+    const chunks = (await splitChunks(params.text, chunkSize, chunkOverlap)).filter((chunk) =>
+      chunk.trim()
+    );
+    const scope = params.shared ? 'shared' : 'private';
+
+    const metadata: DocumentMetadata = {
+      type: MemoryType.DOCUMENT,
+      source: 'knowledge',
+      scope,
+      timestamp: Date.now(),
+      path: params.path,
+      contentHash,
+      fragmentCount: chunks.length,
+    };
+
+    // Fragments of the earlier version, or of an ingestion that did not finish
+    const staleFragmentIds = this.getFragmentIds(
+      documentId,
+      Math.max(existingMetadata?.fragmentCount ?? 0, chunks.length)
+    );
+    if (staleFragmentIds.length > 0) {
+      await this.runtime.deleteManyMemories(staleFragmentIds);
+    }
+
+    for (const [position, chunk] of chunks.entries()) {
+      const fragmentMetadata: FragmentMetadata = {
+        type: MemoryType.FRAGMENT,
+        source: 'knowledge',
+        scope,
+        timestamp: Date.now(),
+        documentId,
+        position,
+      };
+      const fragment: Memory = {
+        id: this.getFragmentId(documentId, position),
+        entityId: this.runtime.agentId,
+        agentId: this.runtime.agentId,
+        roomId: this.runtime.agentId,
+        worldId: this.runtime.agentId,
+        content: { text: chunk },
+        metadata: fragmentMetadata,
+      };
+      await this.runtime.createMemory(fragment, KNOWLEDGE_TABLE);
+      await this.runtime.queueEmbeddingGeneration(fragment, 'low');
+    }
+
+    if (existing) {
+      await this.runtime.updateMemory({ id: documentId, content: { text: params.text }, metadata });
+    } else {
+      await this.runtime.createMemory(
+        {
+          id: documentId,
+          entityId: this.runtime.agentId,
+          agentId: this.runtime.agentId,
+          roomId: this.runtime.agentId,
+          worldId: this.runtime.agentId,
+          content: { text: params.text },
+          metadata,
+        },
+        DOCUMENTS_TABLE
+      );
+    }
+
+    this.runtime.logger.debug(
+      {
+        src: 'plugin:bootstrap:service:knowledge',
+        agentId: this.runtime.agentId,
+        documentId,
+        fragments: chunks.length,
+        updated: !!existing,
+      },
+      'Ingested knowledge document'
+    );
+    return 'ingested';
+  }
+
+  /**
+   * Finds the knowledge fragments most relevant to a query, among the agent's own and
+   * the shared knowledge of other agents
+   */
+  async searchKnowledge(query: string, count = 5): Promise<Memory[]> {
+    if (!query.trim()) {
+      return [];
+    }
+    const embedding = await this.runtime.useModel(ModelType.TEXT_EMBEDDING, { text: query });
+    const fragments = await this.runtime.searchMemories({
+      tableName: KNOWLEDGE_TABLE,
+      embedding,
+      query,
+      count,
+      includeShared: true,
+    });
+    // Agents sharing the same file each store their own copy of its fragments
+    const seen = new Set<string>();
+    return fragments.filter((fragment) => {
+      const text = fragment.content.text ?? '';
+      if (seen.has(text)) {
+        return false;
+      }
+      seen.add(text);
+      return true;
+    });
+  }
+
+  private getDocumentId(key: string): UUID {
+    return createUniqueUuid(this.runtime, `knowledge:${key}`);
+  }
+
+  private getFragmentId(documentId: UUID, position: number): UUID {
+    return createUniqueUuid(this.runtime, `${documentId}:fragment:${position}`);
+  }
+
+  private getFragmentIds(documentId: UUID, count: number): UUID[] {
+    return Array.from({ length: count }, (_, position) => this.getFragmentId(documentId, position));
+  }
+
+  /**
+   * Deletes the knowledge documents, and their fragments, that no longer match a source
+   * @returns the number of documents deleted
+   */
+  private async removeStaleDocuments(sources: KnowledgeSource[]): Promise<number> {
+    const current = new Set(sources.map((source) => this.getDocumentId(source.key)));
+    const staleIds: UUID[] = [];
+    let removed = 0;
+
+    // Stale IDs are collected first, as deleting while paging would shift the pages
+    for (let offset = 0; ; offset += DOCUMENT_PAGE_SIZE) {
+      const documents = await this.runtime.getMemories({
+        tableName: DOCUMENTS_TABLE,
+        agentId: this.runtime.agentId,
+        roomId: this.runtime.agentId,
+        count: DOCUMENT_PAGE_SIZE,
+        offset,
+      });
+      for (const document of documents) {
+        const metadata = document.metadata as DocumentMetadata | undefined;
+        if (!document.id || metadata?.source !== 'knowledge' || current.has(document.id)) {
+          continue;
+        }
+        staleIds.push(
+          document.id,
+          ...this.getFragmentIds(document.id, metadata.fragmentCount ?? 0)
+        );
+        removed++;
+      }
+      if (documents.length < DOCUMENT_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    if (staleIds.length > 0) {
+      await this.runtime.deleteManyMemories(staleIds);
+    }
+    return removed;
+  }
+
+  private async ingestSource(source: KnowledgeSource): Promise<KnowledgeIngestionStatus> {
+    const text = source.text ?? (source.path ? await this.readFile(source.path) : null);
+    if (!text?.trim()) {
+      return 'skipped';
+    }
+    return this.addKnowledge({ key: source.key, text, shared: source.shared, path: source.path });
+  }
+
+  /**
+   * Expands `Character.knowledge` into documents: text entries, files and the
+   * supported files of directories
+   * @returns the sources, and whether every directory could be read
+   */
+  private async resolveSources(): Promise<{ sources: KnowledgeSource[]; complete: boolean }> {
+    const basePath = String(this.runtime.getSetting('KNOWLEDGE_PATH') || process.cwd());
+    const sources: KnowledgeSource[] = [];
+    let complete = true;
+
+    for (const item of this.runtime.character.knowledge ?? []) {
+      if (typeof item === 'string') {
+        sources.push({ key: `text:${hashText(item)}`, text: item, shared: false });
+      } else if (isDirectoryItem(item)) {
+        const directory = path.resolve(basePath, item.directory);
+        const files = await this.listFiles(directory);
+        if (!files) {
+          complete = false;
+          continue;
+        }
+        for (const file of files) {
+          sources.push({ key: file, path: file, shared: !!item.shared });
+        }
+      } else if (item?.path) {
+        const file = path.resolve(basePath, item.path);
+        sources.push({ key: file, path: file, shared: !!item.shared });
+      }
+    }
+
+    return { sources, complete };
+  }
+
+  /**
+   * Lists the supported files of a directory and its subdirectories
+   * @returns null when a directory cannot be read
+   */
+  private async listFiles(directory: string): Promise<string[] | null> {
+    let entries: Array<{ name: string; isDirectory(): boolean; isFile(): boolean }>;
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      this.runtime.logger.warn(
+        {
+          src: 'plugin:bootstrap:service:knowledge',
+          agentId: this.runtime.agentId,
+          directory,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Cannot read knowledge directory'
+      );
+      return null;
+    }
+
+    const files: string[] = [];
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        const nested = await this.listFiles(entryPath);
+        if (!nested) {
+          return null;
+        }
+        files.push(...nested);
+      } else if (entry.isFile() && this.isSupportedFile(entryPath)) {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  }
+
+  private isSupportedFile(file: string): boolean {
+    const extension = path.extname(file).toLowerCase();
+    return TEXT_EXTENSIONS.includes(extension) || extension === PDF_EXTENSION;
+  }
+
+  /**
+   * Reads the text of a knowledge file. PDFs are read through the PDF service and
+   * are skipped when none is registered.
+   */
+  private async readFile(file: string): Promise<string | null> {
+    const extension = path.extname(file).toLowerCase();
+
+    if (extension === PDF_EXTENSION) {
+      const pdfService = this.runtime.getService<PdfTextExtractor>(ServiceType.PDF);
+      if (!pdfService) {
+        this.runtime.logger.warn(
+          { src: 'plugin:bootstrap:service:knowledge', agentId: this.runtime.agentId, file },
+          'No PDF service registered, skipping PDF knowledge'
+        );
+        return null;
+      }
+      const { text } = await pdfService.extractText(await fs.readFile(file));
+      return text;
+    }
+
+    if (!TEXT_EXTENSIONS.includes(extension)) {
+      this.runtime.logger.warn(
+        { src: 'plugin:bootstrap:service:knowledge', agentId: this.runtime.agentId, file },
+        'Unsupported knowledge file type, skipping'
+      );
+      return null;
+    }
+
+    const text = await fs.readFile(file, 'utf8');
+    if (extension === '.json') {
+      try {
+        return JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        return text;
+      }
+    }
+    return text;
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  getMemoryRetentionRules,
+  type IAgentRuntime,
+  type MemoryPruneReport,
+  pruneMemories,
+  Service,
+} from '@elizaos/core';
+import { getNumberSetting } from '../settings';
+
+export const MEMORY_RETENTION_SERVICE_TYPE = 'memory_retention';
+
+/** Name of the repeating task that enforces the retention rules */
+export const MEMORY_RETENTION_TASK = 'MEMORY_RETENTION';
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Schedules enforcement of the MEMORY_RETENTION rules.
+ *
+ * When the character has retention rules, a repeating task prunes memories every
+ * MEMORY_RETENTION_INTERVAL_MS (an hour by default). With MEMORY_RETENTION_DRY_RUN set,
+ * the task only reports what it would remove.
+ */
+export class MemoryRetentionService extends Service {
+  static serviceType = MEMORY_RETENTION_SERVICE_TYPE;
+  capabilityDescription = 'Prunes stored memories according to retention rules';
+
+  /** Report of the most recent scheduled run */
+  lastReport: MemoryPruneReport | null = null;
+
+  static async start(runtime: IAgentRuntime): Promise<Service> {
+    const service = new MemoryRetentionService(runtime);
+    await service.schedule();
+    return service;
+  }
+
+  async stop(): Promise<void> {}
+
+  /**
+   * Applies the retention rules now
+   */
+  async prune(options: { dryRun?: boolean } = {}): Promise<MemoryPruneReport> {
+    return pruneMemories(this.runtime, options);
+  }
+
+  private async schedule(): Promise<void> {
+    this.runtime.registerTaskWorker({
+      name: MEMORY_RETENTION_TASK,
+      execute: async (runtime) => {
+        this.lastReport = await this.prune({
+          dryRun: String(runtime.getSetting('MEMORY_RETENTION_DRY_RUN')) === 'true',
+        });
+      },
+    });
+
+    if (getMemoryRetentionRules(this.runtime).length === 0) {
+      return;
+    }
+    const tasks = await this.runtime.getTasksByName(MEMORY_RETENTION_TASK);
+    if (tasks.length > 0) {
+      return;
+    }
+
+    await this.runtime.createTask({
+      name: MEMORY_RETENTION_TASK,
+      description: 'Prune memories according to the retention rules',
+      metadata: {
+        updatedAt: Date.now(),
+        updateInterval: getNumberSetting(
+          this.runtime,
+          'MEMORY_RETENTION_INTERVAL_MS',
+          DEFAULT_INTERVAL_MS
+        ),
+      },
+      tags: ['queue', 'repeat'],
+    });
+  }
+}
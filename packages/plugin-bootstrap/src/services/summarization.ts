@@ -0,0 +1,408 @@
+import {
+  composePrompt,
+  createUniqueUuid,
+  type CustomMetadata,
+  formatMessages,
+  getEntityDetails,
+  type IAgentRuntime,
+  type Memory,
+  MemoryType,
+  ModelType,
+  Service,
+  type UUID,
+} from '@elizaos/core';
+import { getNumberSetting } from '../settings';
+
+export const SUMMARIZATION_SERVICE_TYPE = 'conversation_summarization';
+
+/** Table of the conversation summaries */
+export const SUMMARIES_TABLE = 'summaries';
+/** Table raw messages are moved to when they pass the retention threshold */
+export const ARCHIVED_MESSAGES_TABLE = 'messages_archive';
+
+const DEFAULT_WINDOW_SIZE = 20;
+const DEFAULT_FANOUT = 4;
+const DEFAULT_MAX_WINDOWS_PER_RUN = 5;
+const MESSAGE_PAGE_SIZE = 500;
+
+const summarizeMessagesTemplate = `# Task: Summarize part of a conversation for {{agentName}}.
+
+Write a concise summary of the messages below, in the third person. Keep names, decisions, open questions, commitments and facts the participants shared; leave out greetings and small talk.
+
+# Messages
+{{messages}}
+
+Respond with the summary text only.`;
+
+const combineSummariesTemplate = `# Task: Combine consecutive conversation summaries for {{agentName}}.
+
+The summaries below cover consecutive parts of one conversation, oldest first. Merge them into a single concise summary, in the third person, that keeps the names, decisions, open questions, commitments and facts that still matter.
+
+# Summaries
+{{summaries}}
+
+Respond with the summary text only.`;
+
+/**
+ * Metadata of a summary memory. `startTime` and `endTime` are the creation times of the
+ * first and last message the summary covers. Level 1 summaries cover raw messages;
+ * level n + 1 summaries combine `SUMMARY_FANOUT` consecutive level n summaries.
+ */
+export interface SummaryMetadata extends CustomMetadata {
+  type: MemoryType.CUSTOM;
+  source: 'summarization';
+  level: number;
+  startTime: number;
+  endTime: number;
+  messageCount: number;
+  firstMessageId?: UUID;
+  lastMessageId?: UUID;
+}
+
+function getSummaryMetadata(memory: Memory): SummaryMetadata | null {
+  const metadata = memory.metadata as SummaryMetadata | undefined;
+  if (metadata?.source !== 'summarization' || typeof metadata.level !== 'number') {
+    return null;
+  }
+  return metadata;
+}
+
+/**
+ * Rolls older conversation history up into summaries.
+ *
+ * Messages older than the conversation window served by RECENT_MESSAGES are summarized in
+ * windows of SUMMARY_WINDOW_SIZE messages. Every SUMMARY_FANOUT summaries of one level are
+ * combined into a summary of the next level, so old history takes less and less room. A run
+ * summarizes at most SUMMARY_MAX_WINDOWS_PER_RUN windows, oldest first, so a long backlog is
+ * worked off over several runs. Raw messages older than MESSAGE_RETENTION_DAYS that a summary
+ * covers are archived, or deleted when MESSAGE_RETENTION_MODE is `delete`.
+ */
+export class SummarizationService extends Service {
+  static serviceType = SUMMARIZATION_SERVICE_TYPE;
+  capabilityDescription = 'Summarizes older conversation history into layered summaries';
+
+  private summarizing = new Map<UUID, Promise<number>>();
+
+  static async start(runtime: IAgentRuntime): Promise<Service> {
+    return new SummarizationService(runtime);
+  }
+
+  async stop(): Promise<void> {}
+
+  get windowSize(): number {
+    return getNumberSetting(this.runtime, 'SUMMARY_WINDOW_SIZE', DEFAULT_WINDOW_SIZE);
+  }
+
+  /**
+   * Counts the messages of a room that are out of the conversation window but not summarized yet
+   */
+  async countUnsummarizedMessages(roomId: UUID): Promise<number> {
+    const start = await this.getUnsummarizedStart(roomId);
+    const count = await this.runtime.countMemories(roomId, false, 'messages', start);
+    return Math.max(0, count - this.runtime.getConversationLength());
+  }
+
+  /**
+   * Summarizes the complete message windows of a room that fell out of the conversation
+   * window, then rolls summaries up and applies message retention. Concurrent calls for
+   * one room share a single run.
+   *
+   * @returns the number of summaries created
+   */
+  async summarizeRoom(roomId: UUID): Promise<number> {
+    const running = this.summarizing.get(roomId);
+    if (running) {
+      return running;
+    }
+    const run = this.runSummarization(roomId).finally(() => this.summarizing.delete(roomId));
+    this.summarizing.set(roomId, run);
+    return run;
+  }
+
+  /**
+   * Returns the summaries to serve for a room, oldest first: the highest level summary of
+   * each part of the conversation, so older parts are covered by coarser summaries
+   */
+  async getSummaries(roomId: UUID): Promise<Memory[]> {
+    const summaries = await this.getAllSummaries(roomId);
+    return summaries.filter((summary) => !this.isCoveredByHigherLevel(summary, summaries));
+  }
+
+  private async runSummarization(roomId: UUID): Promise<number> {
+    let created = 0;
+    const windowSize = this.windowSize;
+    const maxWindows = Math.max(
+      1,
+      getNumberSetting(this.runtime, 'SUMMARY_MAX_WINDOWS_PER_RUN', DEFAULT_MAX_WINDOWS_PER_RUN)
+    );
+    const messages = await this.getUnsummarizedMessages(roomId, maxWindows * windowSize);
+
+    for (let i = 0; i + windowSize <= messages.length; i += windowSize) {
+      await this.summarizeMessages(roomId, messages.slice(i, i + windowSize));
+      created++;
+    }
+    if (created > 0) {
+      created += await this.rollUpSummaries(roomId);
+    }
+
+    await this.applyRetention(roomId);
+    return created;
+  }
+
+  /**
+   * Creation time of the oldest message not covered by a level 1 summary
+   */
+  private async getUnsummarizedStart(roomId: UUID): Promise<number | undefined> {
+    const summaries = await this.getAllSummaries(roomId);
+    const summarizedUntil = Math.max(
+      0,
+      ...summaries
+        .map(getSummaryMetadata)
+        .filter((metadata) => metadata?.level === 1)
+        .map((metadata) => metadata?.endTime ?? 0)
+    );
+    return summarizedUntil > 0 ? summarizedUntil + 1 : undefined;
+  }
+
+  /**
+   * The oldest messages of a room, up to `limit` and oldest first, that are newer than the
+   * latest level 1 summary and older than the conversation window
+   */
+  private async getUnsummarizedMessages(roomId: UUID, limit: number): Promise<Memory[]> {
+    // Messages are read newest first, at offsets past the conversation window. Messages sent
+    // from now on are left out, so that they cannot push the oldest ones out of reach.
+    const end = Date.now();
+    const start = await this.getUnsummarizedStart(roomId);
+    const total = await this.runtime.countMemories(roomId, false, 'messages', start);
+    const conversationLength = this.runtime.getConversationLength();
+    const outOfWindow = total - conversationLength;
+    const count = Math.min(outOfWindow, limit);
+    if (count <= 0) {
+      return [];
+    }
+
+    const messages: Memory[] = [];
+    for (let offset = outOfWindow - count; offset < outOfWindow; offset += MESSAGE_PAGE_SIZE) {
+      const pageSize = Math.min(MESSAGE_PAGE_SIZE, outOfWindow - offset);
+      const page = await this.runtime.getMemories({
+        tableName: 'messages',
+        roomId,
+        start,
+        end,
+        unique: false,
+        count: pageSize,
+        offset: conversationLength + offset,
+      });
+      messages.push(...page);
+      if (page.length < pageSize) {
+        break;
+      }
+    }
+
+    return messages
+      .filter((message) => message.content?.type !== 'action_result')
+      .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0));
+  }
+
+  private async getAllSummaries(roomId: UUID): Promise<Memory[]> {
+    const memories = await this.runtime.getMemories({
+      tableName: SUMMARIES_TABLE,
+      roomId,
+      unique: false,
+    });
+    return memories
+      .filter((memory) => getSummaryMetadata(memory) !== null)
+      .sort(
+        (a, b) => (getSummaryMetadata(a)?.startTime ?? 0) - (getSummaryMetadata(b)?.startTime ?? 0)
+      );
+  }
+
+  private isCoveredByHigherLevel(summary: Memory, summaries: Memory[]): boolean {
+    const metadata = getSummaryMetadata(summary);
+    if (!metadata) {
+      return false;
+    }
+    return summaries.some((other) => {
+      const otherMetadata = getSummaryMetadata(other);
+      return (
+        !!otherMetadata &&
+        otherMetadata.level > metadata.level &&
+        otherMetadata.startTime <= metadata.startTime &&
+        otherMetadata.endTime >= metadata.endTime
+      );
+    });
+  }
+
+  private async summarizeMessages(roomId: UUID, messages: Memory[]): Promise<void> {
+    const entities = await getEntityDetails({ runtime: this.runtime, roomId });
+    // formatMessages expects newest first
+    const formatted = formatMessages({ messages: [...messages].reverse(), entities });
+    const text = await this.generateSummary(summarizeMessagesTemplate, { messages: formatted });
+
+    const first = messages[0];
+    const last = messages[messages.length - 1];
+    await this.createSummary(roomId, text, {
+      type: MemoryType.CUSTOM,
+      source: 'summarization',
+      level: 1,
+      startTime: first.createdAt ?? 0,
+      endTime: last.createdAt ?? 0,
+      messageCount: messages.length,
+      firstMessageId: first.id,
+      lastMessageId: last.id,
+    });
+  }
+
+  /**
+   * Combines the oldest SUMMARY_FANOUT uncovered summaries of a level into one of the
+   * next level, until no level has that many left
+   *
+   * @returns the number of summaries created
+   */
+  private async rollUpSummaries(roomId: UUID): Promise<number> {
+    const fanout = Math.max(2, getNumberSetting(this.runtime, 'SUMMARY_FANOUT', DEFAULT_FANOUT));
+    let created = 0;
+
+    for (;;) {
+      const summaries = await this.getSummaries(roomId);
+      const byLevel = new Map<number, Memory[]>();
+      for (const summary of summaries) {
+        const level = getSummaryMetadata(summary)?.level ?? 1;
+        byLevel.set(level, [...(byLevel.get(level) ?? []), summary]);
+      }
+
+      const [level, group] =
+        Array.from(byLevel.entries()).find(([, members]) => members.length >= fanout) ?? [];
+      if (level === undefined || !group) {
+        return created;
+      }
+
+      const children = group.slice(0, fanout);
+      const childMetadata = children.map((child) => getSummaryMetadata(child) as SummaryMetadata);
+      const text = await this.generateSummary(combineSummariesTemplate, {
+        summaries: children.map((child) => child.content.text ?? '').join('\n\n'),
+      });
+      await this.createSummary(roomId, text, {
+        type: MemoryType.CUSTOM,
+        source: 'summarization',
+        level: level + 1,
+        startTime: childMetadata[0].startTime,
+        endTime: childMetadata[childMetadata.length - 1].endTime,
+        messageCount: childMetadata.reduce((sum, metadata) => sum + metadata.messageCount, 0),
+        firstMessageId: childMetadata[0].firstMessageId,
+        lastMessageId: childMetadata[childMetadata.length - 1].lastMessageId,
+      });
+      created++;
+    }
+  }
+
+  private async generateSummary(
+    template: string,
+    values: { messages?: string; summaries?: string }
+  ): Promise<string> {
+    const prompt = composePrompt({
+      state: { agentName: this.runtime.character.name, ...values },
+      template,
+    });
+    const response = await this.runtime.useModel(ModelType.TEXT_SMALL, { prompt });
+    return String(response).trim();
+  }
+
+  private async createSummary(roomId: UUID, text: string, metadata: SummaryMetadata) {
+    const room = await this.runtime.getRoom(roomId);
+    await this.runtime.createMemory(
+      {
+        id: createUniqueUuid(
+          this.runtime,
+          `summary:${roomId}:${metadata.level}:${metadata.startTime}:${metadata.endTime}`
+        ),
+        entityId: this.runtime.agentId,
+        agentId: this.runtime.agentId,
+        roomId,
+        worldId: room?.worldId,
+        content: { text },
+        metadata: { ...metadata, timestamp: Date.now() },
+      },
+      SUMMARIES_TABLE
+    );
+    this.runtime.logger.debug(
+      {
+        src: 'plugin:bootstrap:service:summarization',
+        agentId: this.runtime.agentId,
+        roomId,
+        level: metadata.level,
+        messageCount: metadata.messageCount,
+      },
+      'Created conversation summary'
+    );
+  }
+
+  /**
+   * Archives or deletes summarized messages older than MESSAGE_RETENTION_DAYS.
+   * Messages are kept when the setting is unset or zero.
+   */
+  private async applyRetention(roomId: UUID): Promise<void> {
+    const retentionDays = getNumberSetting(this.runtime, 'MESSAGE_RETENTION_DAYS', 0);
+    if (retentionDays <= 0) {
+      return;
+    }
+
+    const summaries = await this.getAllSummaries(roomId);
+    const summarizedUntil = Math.max(
+      0,
+      ...summaries.map((summary) => getSummaryMetadata(summary)?.endTime ?? 0)
+    );
+    const cutoff = Math.min(Date.now() - retentionDays * 24 * 60 * 60 * 1000, summarizedUntil);
+    if (cutoff <= 0) {
+      return;
+    }
+
+    // Each page is removed before the next is read, so the next page starts at the top again
+    const mode = String(this.runtime.getSetting('MESSAGE_RETENTION_MODE') || 'archive');
+    let removed = 0;
+    for (;;) {
+      const expired = await this.runtime.getMemories({
+        tableName: 'messages',
+        roomId,
+        end: cutoff,
+        unique: false,
+        count: MESSAGE_PAGE_SIZE,
+      });
+      if (mode !== 'delete') {
+        for (const message of expired) {
+          await this.runtime.createMemory(
+            {
+              ...message,
+              id: createUniqueUuid(this.runtime, `archive:${message.id}`),
+              metadata: { ...message.metadata, archivedFrom: message.id } as CustomMetadata,
+            },
+            ARCHIVED_MESSAGES_TABLE
+          );
+        }
+      }
+      if (expired.length > 0) {
+        await this.runtime.deleteManyMemories(
+          expired.map((message) => message.id).filter((id): id is UUID => !!id)
+        );
+      }
+      removed += expired.length;
+      if (expired.length < MESSAGE_PAGE_SIZE) {
+        break;
+      }
+    }
+    if (removed === 0) {
+      return;
+    }
+
+    this.runtime.logger.info(
+      {
+        src: 'plugin:bootstrap:service:summarization',
+        agentId: this.runtime.agentId,
+        roomId,
+        count: removed,
+        mode,
+      },
+      mode === 'delete' ? 'Deleted expired messages' : 'Archived expired messages'
+    );
+  }
+}
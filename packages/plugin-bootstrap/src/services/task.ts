@@ -1,14 +1,26 @@
 // registered to runtime through plugin
 
 import {
+  getNextCronTime,
   Service,
   ServiceType,
   type IAgentRuntime,
   type Memory,
   type State,
   type Task,
+  type TaskRetryPolicy,
 } from '@elizaos/core';
 
+/**
+ * Retry policy applied when a task does not define `metadata.retry`.
+ */
+const DEFAULT_RETRY_POLICY: Required<TaskRetryPolicy> = {
+  maxAttempts: 3,
+  backoffMs: 1000,
+  backoffMultiplier: 2,
+  maxBackoffMs: 5 * 60 * 1000,
+};
+
 /**
  * TaskService class representing a service that schedules and executes tasks.
  * @extends Service
@@ -22,6 +34,10 @@ import {
  * @method startTimer - Private method to start the timer for checking tasks
  * @method validateTasks - Private method to validate tasks
  * @method checkTasks - Private method to check tasks and execute them
+ * @method isTaskDue - Private method to decide whether a task should run now
+ * @method claimTask - Private method to acquire the execution lease for a task
+ * @method recordExecution - Private method to append to a task's execution history
+ * @method recordFailure - Private method to schedule a retry or dead-letter a failed task
  * @method executeTask - Private method to execute a task
  * @static
  * @method stop - Static method to stop the TaskService
@@ -34,6 +50,12 @@ import {
 export class TaskService extends Service {
   private timer: NodeJS.Timeout | null = null;
   private readonly TICK_INTERVAL = 1000; // Check every second
+  private readonly LEASE_DURATION = 5 * 60 * 1000; // Lease renewed every half period while running
+  private readonly leaseOwner = crypto.randomUUID();
+  private executing = new Set<string>();
+  private readonly HISTORY_RETENTION = 7 * 24 * 60 * 60 * 1000; // Keep a week of execution history
+  private readonly HISTORY_PRUNE_INTERVAL = 60 * 60 * 1000; // Prune history hourly
+  private lastHistoryPrune = 0;
   static serviceType = ServiceType.TASK;
   capabilityDescription = 'The agent is able to schedule and execute tasks';
 
@@ -194,7 +216,7 @@ export class TaskService extends Service {
   }
 
   /**
-   * Asynchronous method that checks tasks with "queue" tag, validates and sorts them, then executes them based on interval and tags.
+   * Asynchronous method that checks tasks with "queue" tag, validates them, then executes the ones that are due.
    *
    * @returns {Promise<void>} Promise that resolves once all tasks are checked and executed
    */
@@ -214,64 +236,31 @@ export class TaskService extends Service {
 
       const now = Date.now();
 
+      if (now - this.lastHistoryPrune >= this.HISTORY_PRUNE_INTERVAL) {
+        this.lastHistoryPrune = now;
+        await this.pruneExecutionHistory(now);
+      }
+
       for (const task of tasks) {
-        // First check task.updatedAt (for newer task format)
-        // Then fall back to task.metadata.updatedAt (for older tasks)
-        // Finally default to 0 if neither exists
-        let taskStartTime: number;
-
-        // if tags does not contain "repeat", execute immediately
-        if (!task.tags?.includes('repeat')) {
-          // does not contain repeat
-          await this.executeTask(task);
+        if (
+          !task.id ||
+          this.executing.has(task.id) ||
+          task.status === 'paused' ||
+          task.status === 'dead_letter'
+        ) {
           continue;
         }
 
-        if (typeof task.updatedAt === 'number') {
-          taskStartTime = task.updatedAt;
-        } else if (task.metadata?.updatedAt && typeof task.metadata.updatedAt === 'number') {
-          taskStartTime = task.metadata.updatedAt;
-        } else if (task.updatedAt) {
-          taskStartTime = new Date(task.updatedAt).getTime();
-        } else {
-          taskStartTime = 0; // Default to immediate execution if no timestamp found
-        }
-
-        // Get updateInterval from metadata
-        const updateIntervalMs = task.metadata?.updateInterval ?? 0; // update immediately
-
-        // if tags does not contain "repeat", execute immediately
-        if (!task.tags?.includes('repeat')) {
-          await this.executeTask(task);
+        // Another runtime holds a live lease on this task
+        if (
+          task.leaseOwner &&
+          task.leaseOwner !== this.leaseOwner &&
+          (task.leaseExpiresAt ?? 0) > now
+        ) {
           continue;
         }
 
-        if (task.metadata?.updatedAt === task.metadata?.createdAt) {
-          if (task.tags?.includes('immediate')) {
-            this.runtime.logger.debug(
-              {
-                src: 'plugin:bootstrap:service:task',
-                agentId: this.runtime.agentId,
-                taskName: task.name,
-              },
-              'Immediately running task'
-            );
-            await this.executeTask(task);
-            continue;
-          }
-        }
-
-        // Check if enough time has passed since last update
-        if (now - taskStartTime >= updateIntervalMs) {
-          this.runtime.logger.debug(
-            {
-              src: 'plugin:bootstrap:service:task',
-              agentId: this.runtime.agentId,
-              taskName: task.name,
-              intervalMs: updateIntervalMs,
-            },
-            'Executing task - interval elapsed'
-          );
+        if (await this.isTaskDue(task, now)) {
           await this.executeTask(task);
         }
       }
@@ -287,38 +276,324 @@ export class TaskService extends Service {
     }
   }
 
+  /**
+   * Determines whether a task should run now.
+   * A pending retry, cron occurrence or repeat (`nextRunAt`) takes precedence, then
+   * `metadata.runAt`. Repeating tasks seen for the first time are scheduled by the
+   * `repeat`/`updateInterval` rules rather than run, as only scheduled repeating tasks
+   * can be claimed.
+   *
+   * @param {Task} task - The task to check.
+   * @param {number} now - The current time in milliseconds.
+   * @returns {Promise<boolean>} True if the task is due.
+   */
+  private async isTaskDue(task: Task, now: number): Promise<boolean> {
+    if (typeof task.nextRunAt === 'number') {
+      return now >= task.nextRunAt;
+    }
+
+    const cron = task.metadata?.cron;
+    if (cron) {
+      // First sighting of a cron task: schedule its next occurrence rather than running immediately
+      await this.scheduleNextCronRun(task, now);
+      return false;
+    }
+
+    const runAt = task.metadata?.runAt;
+    if (typeof runAt === 'number' && now < runAt) {
+      return false;
+    }
+
+    // if tags does not contain "repeat", execute immediately
+    if (!task.tags?.includes('repeat')) {
+      return true;
+    }
+
+    // First check task.updatedAt (for newer task format)
+    // Then fall back to task.metadata.updatedAt (for older tasks)
+    // Finally default to 0 if neither exists
+    let taskStartTime: number;
+    if (typeof task.updatedAt === 'number') {
+      taskStartTime = task.updatedAt;
+    } else if (task.metadata?.updatedAt && typeof task.metadata.updatedAt === 'number') {
+      taskStartTime = task.metadata.updatedAt;
+    } else if (task.updatedAt) {
+      taskStartTime = new Date(task.updatedAt).getTime();
+    } else {
+      taskStartTime = 0; // Default to immediate execution if no timestamp found
+    }
+
+    // Get updateInterval from metadata
+    const updateIntervalMs = task.metadata?.updateInterval ?? 0; // update immediately
+
+    // First run once enough time has passed since the last update, or right away for
+    // new tasks tagged `immediate`
+    const isNewImmediateTask =
+      task.metadata?.updatedAt === task.metadata?.createdAt && task.tags?.includes('immediate');
+    const nextRunAt = isNewImmediateTask ? now : Math.max(taskStartTime + updateIntervalMs, now);
+    this.runtime.logger.debug(
+      {
+        src: 'plugin:bootstrap:service:task',
+        agentId: this.runtime.agentId,
+        taskName: task.name,
+        intervalMs: updateIntervalMs,
+        nextRunAt,
+      },
+      'Scheduling repeating task'
+    );
+    if (task.id) {
+      await this.runtime.updateTask(task.id, { nextRunAt });
+    }
+    return false;
+  }
+
+  /**
+   * Persists the next occurrence of a cron task. Tasks with an invalid expression are dead-lettered.
+   *
+   * @param {Task} task - The cron task.
+   * @param {number} after - Time in milliseconds to compute the next occurrence from.
+   */
+  private async scheduleNextCronRun(task: Task, after: number) {
+    if (!task.id || !task.metadata?.cron) {
+      return;
+    }
+
+    let nextRunAt: number | null;
+    try {
+      nextRunAt = getNextCronTime(task.metadata.cron, after);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.runtime.logger.error(
+        {
+          src: 'plugin:bootstrap:service:task',
+          agentId: this.runtime.agentId,
+          taskId: task.id,
+          cron: task.metadata.cron,
+          error: message,
+        },
+        'Invalid cron expression, moving task to dead-letter'
+      );
+      await this.runtime.updateTask(task.id, {
+        status: 'dead_letter',
+        nextRunAt: null,
+        lastError: { message, attempt: task.attempts ?? 0, failedAt: after },
+      });
+      return;
+    }
+
+    await this.runtime.updateTask(task.id, { nextRunAt });
+  }
+
+  /**
+   * Acquires the execution lease for a task so that only one runtime sharing the database runs it.
+   * Runtimes without lease support execute the task as given.
+   *
+   * @param {Task} task - The task to claim.
+   * @returns {Promise<Task | null>} The claimed task, or null if another runtime holds the lease.
+   */
+  private async claimTask(task: Task): Promise<Task | null> {
+    if (!task.id || !this.runtime.claimTask) {
+      return task;
+    }
+    return await this.runtime.claimTask(task.id, this.leaseOwner, this.LEASE_DURATION);
+  }
+
+  /**
+   * Appends an entry to the task's execution history. History is best-effort and never
+   * affects scheduling, so failures to write it are only logged.
+   *
+   * @param {Task} task - The task that was executed.
+   * @param {number} startedAt - Timestamp in milliseconds when the worker started.
+   * @param {unknown} [error] - The error thrown by the worker, if it failed.
+   */
+  private async recordExecution(task: Task, startedAt: number, error?: unknown) {
+    if (!task.id || !this.runtime.createTaskExecution) {
+      return;
+    }
+
+    try {
+      await this.runtime.createTaskExecution({
+        taskId: task.id,
+        taskName: task.name,
+        status: error === undefined ? 'succeeded' : 'failed',
+        attempt: (task.attempts ?? 0) + 1,
+        startedAt,
+        endedAt: Date.now(),
+        error:
+          error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+      });
+    } catch (historyError) {
+      this.runtime.logger.warn(
+        {
+          src: 'plugin:bootstrap:service:task',
+          agentId: this.runtime.agentId,
+          taskId: task.id,
+          error: historyError instanceof Error ? historyError.message : String(historyError),
+        },
+        'Failed to record task execution'
+      );
+    }
+  }
+
+  /**
+   * Deletes execution history older than the retention period.
+   *
+   * @param {number} now - The current time in milliseconds.
+   */
+  private async pruneExecutionHistory(now: number) {
+    if (!this.runtime.deleteTaskExecutions) {
+      return;
+    }
+
+    try {
+      const deleted = await this.runtime.deleteTaskExecutions({
+        before: now - this.HISTORY_RETENTION,
+      });
+      if (deleted > 0) {
+        this.runtime.logger.debug(
+          { src: 'plugin:bootstrap:service:task', agentId: this.runtime.agentId, deleted },
+          'Pruned task execution history'
+        );
+      }
+    } catch (error) {
+      this.runtime.logger.warn(
+        {
+          src: 'plugin:bootstrap:service:task',
+          agentId: this.runtime.agentId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to prune task execution history'
+      );
+    }
+  }
+
+  /**
+   * Records a failed execution. The task is retried with exponential backoff until its
+   * retry policy is exhausted, after which it is moved to the dead-letter state.
+   *
+   * @param {Task} task - The task that failed.
+   * @param {unknown} error - The error thrown by the task worker.
+   */
+  private async recordFailure(task: Task, error: unknown) {
+    if (!task.id) {
+      return;
+    }
+
+    const policy = { ...DEFAULT_RETRY_POLICY, ...task.metadata?.retry };
+    const now = Date.now();
+    const attempts = (task.attempts ?? 0) + 1;
+    const lastError = {
+      message: error instanceof Error ? error.message : String(error),
+      attempt: attempts,
+      failedAt: now,
+    };
+
+    if (attempts >= policy.maxAttempts) {
+      await this.runtime.updateTask(task.id, {
+        status: 'dead_letter',
+        attempts,
+        lastError,
+        nextRunAt: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      });
+      this.runtime.logger.warn(
+        {
+          src: 'plugin:bootstrap:service:task',
+          agentId: this.runtime.agentId,
+          taskName: task.name,
+          taskId: task.id,
+          attempts,
+        },
+        'Task exhausted its retries and was moved to dead-letter'
+      );
+      return;
+    }
+
+    const delayMs = Math.min(
+      policy.backoffMs * Math.pow(policy.backoffMultiplier, attempts - 1),
+      policy.maxBackoffMs
+    );
+    await this.runtime.updateTask(task.id, {
+      status: 'pending',
+      attempts,
+      lastError,
+      nextRunAt: now + delayMs,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    });
+    this.runtime.logger.debug(
+      {
+        src: 'plugin:bootstrap:service:task',
+        agentId: this.runtime.agentId,
+        taskName: task.name,
+        taskId: task.id,
+        attempts,
+        delayMs,
+      },
+      'Scheduled task retry'
+    );
+  }
+
   /**
    * Executes a given task asynchronously.
    *
    * @param {Task} task - The task to be executed.
    */
   private async executeTask(task: Task) {
+    if (!task || !task.id) {
+      this.runtime.logger.debug(
+        { src: 'plugin:bootstrap:service:task', agentId: this.runtime.agentId },
+        'Task not found'
+      );
+      return;
+    }
+
+    const taskId = task.id;
+    if (this.executing.has(taskId)) {
+      return;
+    }
+    this.executing.add(taskId);
+    let leaseTimer: NodeJS.Timeout | null = null;
+
     try {
-      if (!task || !task.id) {
+      const worker = this.runtime.getTaskWorker(task.name);
+      if (!worker) {
         this.runtime.logger.debug(
-          { src: 'plugin:bootstrap:service:task', agentId: this.runtime.agentId },
-          'Task not found'
+          {
+            src: 'plugin:bootstrap:service:task',
+            agentId: this.runtime.agentId,
+            taskName: task.name,
+          },
+          'No worker found for task type'
         );
         return;
       }
 
-      const worker = this.runtime.getTaskWorker(task.name);
-      if (!worker) {
+      const claimed = await this.claimTask(task);
+      if (!claimed) {
         this.runtime.logger.debug(
           {
             src: 'plugin:bootstrap:service:task',
             agentId: this.runtime.agentId,
             taskName: task.name,
+            taskId,
           },
-          'No worker found for task type'
+          'Task is leased by another runtime, skipping'
         );
         return;
       }
+      task = { ...task, ...claimed };
+
+      // Keep the lease alive while long-running workers execute
+      leaseTimer = setInterval(() => {
+        this.claimTask(task).catch(() => {});
+      }, this.LEASE_DURATION / 2) as NodeJS.Timeout;
 
       // Handle repeating vs non-repeating tasks
       if (task.tags?.includes('repeat')) {
         // For repeating tasks, update the updatedAt timestamp
-        await this.runtime.updateTask(task.id, {
+        await this.runtime.updateTask(taskId, {
           metadata: {
             ...task.metadata,
             updatedAt: Date.now(),
@@ -329,7 +604,7 @@ export class TaskService extends Service {
             src: 'plugin:bootstrap:service:task',
             agentId: this.runtime.agentId,
             taskName: task.name,
-            taskId: task.id,
+            taskId,
           },
           'Updated repeating task with new timestamp'
         );
@@ -340,23 +615,51 @@ export class TaskService extends Service {
           src: 'plugin:bootstrap:service:task',
           agentId: this.runtime.agentId,
           taskName: task.name,
-          taskId: task.id,
+          taskId,
         },
         'Executing task'
       );
-      await worker.execute(this.runtime, task.metadata || {}, task);
-      //this.runtime.logger.debug('task.tags are', task.tags);
 
-      // Handle repeating vs non-repeating tasks
-      if (!task.tags?.includes('repeat')) {
+      const startedAt = Date.now();
+      try {
+        await worker.execute(this.runtime, task.metadata || {}, task);
+      } catch (error) {
+        this.runtime.logger.error(
+          {
+            src: 'plugin:bootstrap:service:task',
+            agentId: this.runtime.agentId,
+            taskId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Error executing task'
+        );
+        await this.recordExecution(task, startedAt, error);
+        await this.recordFailure(task, error);
+        return;
+      }
+      await this.recordExecution(task, startedAt);
+
+      if (task.tags?.includes('repeat') || task.metadata?.cron) {
+        // Recurring tasks go back to pending, scheduled for their next occurrence or interval
+        // so that a runtime acting on a stale read cannot claim them again right away
+        await this.runtime.updateTask(taskId, {
+          status: 'pending',
+          attempts: 0,
+          nextRunAt: task.metadata?.cron
+            ? getNextCronTime(task.metadata.cron)
+            : Date.now() + (task.metadata?.updateInterval ?? 0),
+          leaseOwner: null,
+          leaseExpiresAt: null,
+        });
+      } else {
         // For non-repeating tasks, delete the task after execution
-        await this.runtime.deleteTask(task.id);
+        await this.runtime.deleteTask(taskId);
         this.runtime.logger.debug(
           {
             src: 'plugin:bootstrap:service:task',
             agentId: this.runtime.agentId,
             taskName: task.name,
-            taskId: task.id,
+            taskId,
           },
           'Deleted non-repeating task after execution'
         );
@@ -366,11 +669,16 @@ export class TaskService extends Service {
         {
           src: 'plugin:bootstrap:service:task',
           agentId: this.runtime.agentId,
-          taskId: task.id,
+          taskId,
           error: error instanceof Error ? error.message : String(error),
         },
         'Error executing task'
       );
+    } finally {
+      if (leaseTimer) {
+        clearInterval(leaseTimer);
+      }
+      this.executing.delete(taskId);
     }
   }
 
@@ -0,0 +1,9 @@
+import type { IAgentRuntime } from '@elizaos/core';
+
+/**
+ * Reads a positive number setting, falling back when it is unset or not a positive number
+ */
+export function getNumberSetting(runtime: IAgentRuntime, key: string, fallback: number): number {
+  const value = Number(runtime.getSetting(key));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
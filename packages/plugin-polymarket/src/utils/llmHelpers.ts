@@ -1,5 +1,6 @@
 import {
   type IAgentRuntime,
+  type ObjectSchema,
   type State,
   ModelType,
   composePromptFromState,
@@ -13,14 +14,16 @@ import {
  * @param template - The prompt template to use
  * @param actionName - Name of the action for logging
  * @param timeoutMs - Timeout in milliseconds (default: 30000)
- * @returns Promise resolving to the LLM response
+ * @param schema - Schema the parameters must match (default: any JSON object)
+ * @returns Promise resolving to the validated LLM response
  */
 export async function callLLMWithTimeout<T = any>(
   runtime: IAgentRuntime,
   state: State | undefined,
   template: string,
   actionName: string,
-  timeoutMs: number = 30000
+  timeoutMs: number = 30000,
+  schema: ObjectSchema<T> = { type: 'object' }
 ): Promise<T> {
   logger.info(`[${actionName}] Starting LLM parameter extraction...`);
 
@@ -32,17 +35,25 @@ export async function callLLMWithTimeout<T = any>(
     );
   });
 
-  const llmPromise = runtime.useModel(ModelType.OBJECT_LARGE, {
-    prompt: composePromptFromState({
+  const llmPromise = runtime.generateObject(
+    schema,
+    composePromptFromState({
       state,
       template,
     }),
-  });
+    { modelType: ModelType.OBJECT_LARGE }
+  );
 
-  const result = (await Promise.race([llmPromise, timeoutPromise])) as T;
+  const result = await Promise.race([llmPromise, timeoutPromise]);
+  if (result.success === false) {
+    const { error } = result;
+    throw new Error(
+      `LLM parameter extraction failed (${error.reason}): ${error.issues.join('; ') || error.message}`
+    );
+  }
 
   logger.info(`[${actionName}] LLM parameter extraction completed`);
-  logger.debug(`[${actionName}] Parsed LLM parameters:`, result);
+  logger.debug(`[${actionName}] Parsed LLM parameters: ${JSON.stringify(result.object)}`);
 
-  return result;
+  return result.object;
 }
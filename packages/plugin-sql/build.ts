@@ -57,6 +57,7 @@ async function buildAll() {
         '@electric-sql/pglite',
         '@electric-sql/pglite/vector',
         '@electric-sql/pglite/contrib/fuzzystrmatch',
+        '@electric-sql/pglite/contrib/pg_trgm',
         'drizzle-orm',
         'drizzle-orm/pglite',
       ],
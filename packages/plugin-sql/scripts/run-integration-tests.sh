@@ -107,6 +107,18 @@ BATCH7=(
     "src/__tests__/integration/schema-factory.test.ts"
 )
 
+BATCH8=(
+    "src/__tests__/integration/job.test.ts"
+    "src/__tests__/integration/notification.test.ts"
+    "src/__tests__/integration/usage.test.ts"
+)
+
+BATCH9=(
+    "src/__tests__/integration/api-key.test.ts"
+    "src/__tests__/integration/session.test.ts"
+    "src/__tests__/integration/webhook.test.ts"
+)
+
 # PostgreSQL-specific tests
 BATCH_POSTGRES=(
     "src/__tests__/integration/postgres/pglite-adapter.test.ts"
@@ -178,6 +190,8 @@ run_batch "Infrastructure Tests" "${BATCH4[@]}" || OVERALL_SUCCESS=false
 run_batch "Integration Tests" "${BATCH5[@]}" || OVERALL_SUCCESS=false
 run_batch "Method Tests" "${BATCH6[@]}" || OVERALL_SUCCESS=false
 run_batch "Utility Tests" "${BATCH7[@]}" || OVERALL_SUCCESS=false
+run_batch "Server Store Tests" "${BATCH8[@]}" || OVERALL_SUCCESS=false
+run_batch "Access Store Tests" "${BATCH9[@]}" || OVERALL_SUCCESS=false
 
 # PostgreSQL tests (if requested or POSTGRES_URL set)
 if [ "$USE_POSTGRES" = true ]; then
@@ -0,0 +1,104 @@
+import type { UUID } from '@elizaos/core';
+import { v4 as uuidv4 } from 'uuid';
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'bun:test';
+import { PgDatabaseAdapter } from '../../pg/adapter';
+import { PgliteDatabaseAdapter } from '../../pglite/adapter';
+import { apiKeyTable, apiKeyUsageTable } from '../../schema';
+import { createIsolatedTestDatabase } from '../test-helpers';
+
+describe('API Key Integration Tests', () => {
+  let adapter: PgliteDatabaseAdapter | PgDatabaseAdapter;
+  let cleanup: () => Promise<void>;
+
+  const createApiKey = (overrides: Record<string, unknown> = {}) =>
+    adapter.createApiKey({
+      id: uuidv4() as UUID,
+      name: 'chat widget',
+      prefix: 'eliza_abc123',
+      keyHash: uuidv4(),
+      scopes: ['messaging'],
+      createdAt: new Date(),
+      ...overrides,
+    });
+
+  beforeAll(async () => {
+    const setup = await createIsolatedTestDatabase('api-key-tests');
+    adapter = setup.adapter;
+    cleanup = setup.cleanup;
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+  });
+
+  beforeEach(async () => {
+    await adapter.getDatabase().delete(apiKeyUsageTable);
+    await adapter.getDatabase().delete(apiKeyTable);
+  });
+
+  it('should create a key and find it by hash', async () => {
+    const agentId = uuidv4() as UUID;
+    const key = await createApiKey({ agentIds: [agentId] });
+
+    const found = await adapter.getApiKeyByHash(key.keyHash);
+    expect(found?.id).toBe(key.id);
+    expect(found?.scopes).toEqual(['messaging']);
+    expect(found?.agentIds).toEqual([agentId]);
+    expect(found?.channelIds).toBeUndefined();
+    expect(await adapter.getApiKeyByHash('missing')).toBeNull();
+  });
+
+  it('should revoke a key once', async () => {
+    const key = await createApiKey();
+
+    expect(await adapter.revokeApiKey(key.id)).toBe(true);
+    expect(await adapter.revokeApiKey(key.id)).toBe(false);
+    expect((await adapter.getApiKey(key.id))?.revokedAt).toBeInstanceOf(Date);
+    expect(await adapter.getApiKeys()).toHaveLength(1);
+  });
+
+  it('should log usage and update the last use of the key', async () => {
+    const key = await createApiKey();
+    const other = await createApiKey({ keyHash: uuidv4() });
+    const usedAt = new Date();
+
+    await adapter.logApiKeyUsage({
+      keyId: key.id,
+      method: 'POST',
+      path: '/api/messaging/submit',
+      status: 201,
+      ip: '127.0.0.1',
+      createdAt: usedAt,
+    });
+    await adapter.logApiKeyUsage({
+      keyId: other.id,
+      method: 'GET',
+      path: '/api/agents',
+      status: 403,
+      createdAt: usedAt,
+    });
+
+    const usage = await adapter.getApiKeyUsage({ keyId: key.id });
+    expect(usage).toHaveLength(1);
+    expect(usage[0]).toMatchObject({ method: 'POST', status: 201, ip: '127.0.0.1' });
+    expect((await adapter.getApiKey(key.id))?.lastUsedAt?.getTime()).toBe(usedAt.getTime());
+    expect(await adapter.getApiKeyUsage()).toHaveLength(2);
+  });
+
+  it('should only move lastUsedAt forward once it is a minute old', async () => {
+    const key = await createApiKey({ keyHash: uuidv4() });
+    const firstUse = new Date(Date.now() - 5 * 60 * 1000);
+    const usage = { keyId: key.id, method: 'GET', path: '/api/agents', status: 200 };
+
+    await adapter.logApiKeyUsage({ ...usage, createdAt: firstUse });
+    await adapter.logApiKeyUsage({ ...usage, createdAt: new Date(firstUse.getTime() + 1000) });
+    expect((await adapter.getApiKey(key.id))?.lastUsedAt?.getTime()).toBe(firstUse.getTime());
+
+    const laterUse = new Date(firstUse.getTime() + 2 * 60 * 1000);
+    await adapter.logApiKeyUsage({ ...usage, createdAt: laterUse });
+    expect((await adapter.getApiKey(key.id))?.lastUsedAt?.getTime()).toBe(laterUse.getTime());
+    expect(await adapter.getApiKeyUsage({ keyId: key.id })).toHaveLength(3);
+  });
+});
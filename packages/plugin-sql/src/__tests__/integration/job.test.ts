@@ -0,0 +1,173 @@
+import type { UUID } from '@elizaos/core';
+import { v4 as uuidv4 } from 'uuid';
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'bun:test';
+import { PgDatabaseAdapter } from '../../pg/adapter';
+import { PgliteDatabaseAdapter } from '../../pglite/adapter';
+import { jobTable } from '../../schema';
+import { createIsolatedTestDatabase } from '../test-helpers';
+
+describe('Job Integration Tests', () => {
+  let adapter: PgliteDatabaseAdapter | PgDatabaseAdapter;
+  let cleanup: () => Promise<void>;
+  let testAgentId: UUID;
+  const userId = uuidv4() as UUID;
+
+  const createJob = (overrides: Record<string, unknown> = {}) => {
+    const now = Date.now();
+    return adapter.createJob({
+      id: uuidv4(),
+      agentId: testAgentId,
+      userId,
+      channelId: uuidv4() as UUID,
+      content: 'What is the weather?',
+      status: 'processing',
+      metadata: { source: 'test' },
+      createdAt: new Date(now),
+      expiresAt: new Date(now + 30000),
+      ...overrides,
+    });
+  };
+
+  beforeAll(async () => {
+    const setup = await createIsolatedTestDatabase('job-tests');
+    adapter = setup.adapter;
+    cleanup = setup.cleanup;
+    testAgentId = setup.testAgentId;
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+  });
+
+  describe('Job Tests', () => {
+    beforeEach(async () => {
+      await adapter.getDatabase().delete(jobTable);
+    });
+
+    it('should create and retrieve a job', async () => {
+      const job = await createJob();
+
+      const retrieved = await adapter.getJob(job.id);
+      expect(retrieved).not.toBeNull();
+      expect(retrieved?.agentId).toBe(testAgentId);
+      expect(retrieved?.status).toBe('processing');
+      expect(retrieved?.metadata).toEqual({ source: 'test' });
+      expect(retrieved?.expiresAt.getTime()).toBe(job.expiresAt.getTime());
+    });
+
+    it('should return null for a missing job', async () => {
+      expect(await adapter.getJob('missing-job')).toBeNull();
+    });
+
+    it('should update job status and result', async () => {
+      const job = await createJob();
+      const responseId = uuidv4() as UUID;
+
+      await adapter.updateJob(job.id, {
+        status: 'completed',
+        agentResponseId: responseId,
+        result: { message: { content: 'Sunny' }, processingTimeMs: 42 },
+      });
+
+      const retrieved = await adapter.getJob(job.id);
+      expect(retrieved?.status).toBe('completed');
+      expect(retrieved?.agentResponseId).toBe(responseId);
+      expect(retrieved?.result).toEqual({ message: { content: 'Sunny' }, processingTimeMs: 42 });
+    });
+
+    it('should filter jobs by agent, user, status and time range', async () => {
+      const otherAgentId = uuidv4() as UUID;
+      const now = Date.now();
+      await createJob({ status: 'completed', createdAt: new Date(now - 60000) });
+      await createJob({ status: 'failed', createdAt: new Date(now - 30000) });
+      await createJob({ status: 'processing' });
+      await createJob({ agentId: otherAgentId });
+
+      expect(await adapter.getJobs({ agentId: testAgentId })).toHaveLength(3);
+      expect(await adapter.getJobs({ agentId: otherAgentId })).toHaveLength(1);
+      expect(await adapter.getJobs({ userId })).toHaveLength(4);
+      expect(await adapter.getJobs({ status: ['completed', 'failed'] })).toHaveLength(2);
+      expect(await adapter.getJobs({ status: 'processing' })).toHaveLength(2);
+      expect(await adapter.getJobs({ from: new Date(now - 45000) })).toHaveLength(3);
+      expect(await adapter.getJobs({ to: new Date(now - 45000) })).toHaveLength(1);
+      expect(await adapter.countJobs({ agentId: testAgentId, status: 'processing' })).toBe(1);
+    });
+
+    it('should return newest jobs first with pagination', async () => {
+      const now = Date.now();
+      for (let i = 0; i < 5; i++) {
+        await createJob({ content: `job ${i}`, createdAt: new Date(now + i * 1000) });
+      }
+
+      const firstPage = await adapter.getJobs({ limit: 2 });
+      expect(firstPage.map((job) => job.content)).toEqual(['job 4', 'job 3']);
+
+      const secondPage = await adapter.getJobs({ limit: 2, offset: 2 });
+      expect(secondPage.map((job) => job.content)).toEqual(['job 2', 'job 1']);
+    });
+
+    it('should delete only expired jobs in the given statuses', async () => {
+      const now = Date.now();
+      const expiredCompleted = await createJob({
+        status: 'completed',
+        expiresAt: new Date(now - 60000),
+      });
+      const expiredProcessing = await createJob({ expiresAt: new Date(now - 60000) });
+      const freshCompleted = await createJob({ status: 'completed' });
+
+      const deleted = await adapter.deleteExpiredJobs(['completed', 'failed'], new Date(now));
+
+      expect(deleted).toBe(1);
+      expect(await adapter.getJob(expiredCompleted.id)).toBeNull();
+      expect(await adapter.getJob(expiredProcessing.id)).not.toBeNull();
+      expect(await adapter.getJob(freshCompleted.id)).not.toBeNull();
+    });
+
+    it('should only let a server claim jobs that are unowned, its own or whose lease expired', async () => {
+      const now = Date.now();
+      const unowned = await createJob();
+      const leased = await createJob({
+        ownerId: 'server-a',
+        leaseExpiresAt: new Date(now + 60000),
+      });
+      const abandoned = await createJob({
+        ownerId: 'server-a',
+        leaseExpiresAt: new Date(now - 60000),
+      });
+      const lease = new Date(now + 180000);
+
+      expect(await adapter.claimJob(unowned.id, 'server-b', lease)).toBe(true);
+      expect(await adapter.claimJob(leased.id, 'server-b', lease)).toBe(false);
+      expect(await adapter.claimJob(leased.id, 'server-a', lease)).toBe(true);
+      expect(await adapter.claimJob(abandoned.id, 'server-b', lease)).toBe(true);
+
+      const claimed = await adapter.getJob(abandoned.id);
+      expect(claimed?.ownerId).toBe('server-b');
+      expect(claimed?.leaseExpiresAt?.getTime()).toBe(lease.getTime());
+    });
+
+    it('should renew the leases of the active jobs of a server', async () => {
+      const now = Date.now();
+      const expiring = new Date(now + 1000);
+      const active = await createJob({ ownerId: 'server-a', leaseExpiresAt: expiring });
+      const finished = await createJob({
+        status: 'completed',
+        ownerId: 'server-a',
+        leaseExpiresAt: expiring,
+      });
+      const otherServer = await createJob({ ownerId: 'server-b', leaseExpiresAt: expiring });
+      const renewed = new Date(now + 180000);
+
+      expect(await adapter.renewJobLeases('server-a', ['pending', 'processing'], renewed)).toBe(1);
+      expect((await adapter.getJob(active.id))?.leaseExpiresAt?.getTime()).toBe(renewed.getTime());
+      expect((await adapter.getJob(finished.id))?.leaseExpiresAt?.getTime()).toBe(
+        expiring.getTime()
+      );
+      expect((await adapter.getJob(otherServer.id))?.leaseExpiresAt?.getTime()).toBe(
+        expiring.getTime()
+      );
+    });
+  });
+});
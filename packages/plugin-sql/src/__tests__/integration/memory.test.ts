@@ -1,4 +1,5 @@
 import {
+  type Agent,
   ChannelType,
   Content,
   MemoryType,
@@ -346,6 +347,18 @@ describe('Memory Integration Tests', () => {
       expect(memories.length).toBe(2);
     });
 
+    it('should retrieve the world of memories', async () => {
+      await adapter.createMemory(
+        { ...createTestMemory({ text: 'in world' }), worldId: testWorldId },
+        'messages'
+      );
+      const memories = await adapter.getMemories({
+        roomId: testRoomId,
+        tableName: 'messages',
+      });
+      expect(memories[0].worldId).toBe(testWorldId);
+    });
+
     it('should count memories in a room', async () => {
       await adapter.createMemory(createTestMemory({ text: 'mem1' }), 'memories');
       await adapter.createMemory(createTestMemory({ text: 'mem2' }), 'memories');
@@ -353,6 +366,29 @@ describe('Memory Integration Tests', () => {
       expect(count).toBe(2);
     });
 
+    it('should only count memories created at or after a start time', async () => {
+      const now = Date.now();
+      await adapter.createMemory(
+        { ...createTestMemory({ text: 'old' }), createdAt: now - 60000 },
+        'memories'
+      );
+      await adapter.createMemory(
+        { ...createTestMemory({ text: 'new' }), createdAt: now },
+        'memories'
+      );
+
+      expect(await adapter.countMemories(testRoomId, false, 'memories', now - 1000)).toBe(1);
+    });
+
+    it('should list the tables holding memories of a room', async () => {
+      await adapter.createMemory(createTestMemory({ text: 'mem1' }), 'messages');
+      await adapter.createMemory(createTestMemory({ text: 'mem2' }), 'messages');
+      await adapter.createMemory(createTestMemory({ text: 'summary' }), 'summaries');
+      const tableNames = await adapter.getMemoryTableNames(testRoomId);
+      expect(tableNames.sort()).toEqual(['messages', 'summaries']);
+      expect(await adapter.getMemoryTableNames(v4() as UUID)).toEqual([]);
+    });
+
     it('should retrieve memories by ID list', async () => {
       // Create test memories and collect their IDs
       const memoryIds: UUID[] = [];
@@ -593,6 +629,63 @@ describe('Memory Integration Tests', () => {
       expect(results[0].id).toBe(memory1.id as UUID);
       expect(results[0].similarity).toBeGreaterThan(0.99);
     });
+
+    it('should rank exact identifier matches first in hybrid search', async () => {
+      const queryEmbedding = Array.from({ length: 384 }, (_, i) => (i % 2 === 0 ? 1 : 0));
+      const closeEmbedding = queryEmbedding.map((value, i) => (i === 1 ? 0.2 : value));
+      const farEmbedding = queryEmbedding.map((value, i) => (i < 64 ? 1 - value : value));
+
+      const paraphrase = createTestMemory(
+        { text: 'The customer asked about a missing payment' },
+        closeEmbedding
+      );
+      const ticket = createTestMemory(
+        { text: 'Refund issued for ticket ENG-4821 yesterday' },
+        farEmbedding
+      );
+      await adapter.createMemory(paraphrase, 'hybrid');
+      await adapter.createMemory(ticket, 'hybrid');
+
+      const results = await adapter.searchMemories({
+        tableName: 'hybrid',
+        embedding: queryEmbedding,
+        query: 'ENG-4821',
+        hybrid: {},
+        roomId: testRoomId,
+        count: 2,
+      });
+
+      expect(results.map((memory) => memory.id)).toEqual([ticket.id, paraphrase.id]);
+      expect(results[0].lexicalScore).toBeGreaterThan(0);
+      expect(results[0].similarity).toBeDefined();
+      expect(results[1].lexicalScore).toBe(0);
+    });
+
+    it('should include shared memories of other agents only when asked', async () => {
+      const otherAgentId = v4() as UUID;
+      await adapter.createAgent({ id: otherAgentId, name: 'Other Agent', bio: '' } as Agent);
+      const embedding = Array.from({ length: 384 }, (_, i) => (i % 3 === 0 ? 1 : 0));
+      const memoryOf = (agentId: UUID, text: string, scope: 'shared' | 'private') => ({
+        ...createTestMemory({ text }, embedding),
+        agentId,
+        metadata: { type: MemoryType.CUSTOM, source: 'test', scope } as MemoryMetadata,
+      });
+
+      const own = memoryOf(testAgentId, 'own fragment', 'private');
+      const shared = memoryOf(otherAgentId, 'shared fragment', 'shared');
+      const hidden = memoryOf(otherAgentId, 'private fragment', 'private');
+      for (const memory of [own, shared, hidden]) {
+        await adapter.createMemory(memory, 'shared_search');
+      }
+
+      const search = (includeShared?: boolean) =>
+        adapter.searchMemories({ tableName: 'shared_search', embedding, count: 10, includeShared });
+
+      expect((await search()).map((memory) => memory.id)).toEqual([own.id]);
+      expect((await search(true)).map((memory) => memory.id).sort()).toEqual(
+        [own.id, shared.id].sort()
+      );
+    });
   });
 
   describe('Document and Fragment Operations', () => {
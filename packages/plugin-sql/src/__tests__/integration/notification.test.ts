@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { PgDatabaseAdapter } from '../../pg/adapter';
+import { PgliteDatabaseAdapter } from '../../pglite/adapter';
+import { createIsolatedTestDatabase } from '../test-helpers';
+
+const waitFor = async (predicate: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('Notification Client Integration Tests', () => {
+  let adapter: PgliteDatabaseAdapter | PgDatabaseAdapter;
+  let cleanup: () => Promise<void>;
+
+  beforeAll(async () => {
+    const setup = await createIsolatedTestDatabase('notification-tests');
+    adapter = setup.adapter;
+    cleanup = setup.cleanup;
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+  });
+
+  it('should deliver notifications to listeners on the same channel', async () => {
+    const client = adapter.getNotificationClient();
+    expect(client).not.toBeNull();
+
+    const received: string[] = [];
+    const unlisten = await client!.listen('test_bus', (payload) => {
+      received.push(payload);
+    });
+
+    await client!.notify('test_bus', 'hello');
+    await client!.notify('other_bus', 'ignored');
+    await waitFor(() => received.length > 0);
+
+    expect(received).toEqual(['hello']);
+
+    await unlisten();
+    await client!.notify('test_bus', 'after unlisten');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(received).toEqual(['hello']);
+  });
+
+  it('should reject invalid channel names', async () => {
+    const client = adapter.getNotificationClient();
+
+    await expect(client!.notify('bad channel; DROP TABLE jobs', 'x')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,117 @@
+import type { UUID } from '@elizaos/core';
+import { v4 as uuidv4 } from 'uuid';
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'bun:test';
+import { PgDatabaseAdapter } from '../../pg/adapter';
+import { PgliteDatabaseAdapter } from '../../pglite/adapter';
+import { sessionTable } from '../../schema';
+import { createIsolatedTestDatabase } from '../test-helpers';
+
+describe('Messaging Session Integration Tests', () => {
+  let adapter: PgliteDatabaseAdapter | PgDatabaseAdapter;
+  let cleanup: () => Promise<void>;
+  const agentId = uuidv4() as UUID;
+
+  const createSession = (overrides: Record<string, unknown> = {}) => {
+    const now = new Date();
+    return adapter.createSession({
+      id: uuidv4(),
+      agentId,
+      channelId: uuidv4() as UUID,
+      userId: uuidv4() as UUID,
+      metadata: { platform: 'widget' },
+      timeoutConfig: { timeoutMinutes: 30, autoRenew: true },
+      renewalCount: 0,
+      version: 0,
+      createdAt: now,
+      lastActivity: now,
+      expiresAt: new Date(now.getTime() + 30 * 60 * 1000),
+      ...overrides,
+    });
+  };
+
+  beforeAll(async () => {
+    const setup = await createIsolatedTestDatabase('session-tests');
+    adapter = setup.adapter;
+    cleanup = setup.cleanup;
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+  });
+
+  beforeEach(async () => {
+    await adapter.getDatabase().delete(sessionTable);
+  });
+
+  it('should create, update and delete a session', async () => {
+    const session = await createSession();
+
+    const found = await adapter.getSession(session.id);
+    expect(found?.metadata).toEqual({ platform: 'widget' });
+    expect(found?.timeoutConfig).toEqual({ timeoutMinutes: 30, autoRenew: true });
+    expect(found?.warningSentAt).toBeUndefined();
+
+    const expiresAt = new Date(session.expiresAt.getTime() + 60_000);
+    const warningSentAt = new Date();
+    expect(
+      await adapter.updateSession(session.id, { renewalCount: 1, expiresAt, warningSentAt })
+    ).toBe(true);
+    let updated = await adapter.getSession(session.id);
+    expect(updated?.renewalCount).toBe(1);
+    expect(updated?.expiresAt.getTime()).toBe(expiresAt.getTime());
+    expect(updated?.warningSentAt?.getTime()).toBe(warningSentAt.getTime());
+
+    await adapter.updateSession(session.id, { warningSentAt: undefined });
+    updated = await adapter.getSession(session.id);
+    expect(updated?.warningSentAt).toBeUndefined();
+
+    expect(await adapter.deleteSession(session.id)).toBe(true);
+    expect(await adapter.getSession(session.id)).toBeNull();
+    expect(await adapter.updateSession(session.id, { renewalCount: 2 })).toBe(false);
+    expect(await adapter.deleteSession(session.id)).toBe(false);
+  });
+
+  it('should list active sessions and delete expired ones', async () => {
+    const now = new Date();
+    const active = await createSession();
+    const expired = await createSession({ expiresAt: new Date(now.getTime() - 1000) });
+    await createSession({ agentId: uuidv4() as UUID });
+
+    expect(await adapter.getSessions()).toHaveLength(3);
+    const activeSessions = await adapter.getSessions({ agentId, activeAt: now });
+    expect(activeSessions.map((session) => session.id)).toEqual([active.id]);
+
+    expect(await adapter.deleteExpiredSessions(now)).toBe(1);
+    expect(await adapter.getSession(expired.id)).toBeNull();
+    expect(await adapter.getSessions()).toHaveLength(2);
+  });
+
+  it('should filter and count sessions by agent, channel and warning', async () => {
+    const now = new Date();
+    const warned = await createSession({ warningSentAt: now });
+    const unwarned = await createSession();
+    await createSession({ expiresAt: new Date(now.getTime() - 1000) });
+
+    const unwarnedSessions = await adapter.getSessions({ activeAt: now, unwarned: true });
+    expect(unwarnedSessions.map((session) => session.id)).toEqual([unwarned.id]);
+    expect(await adapter.countSessions({ agentIds: [agentId] })).toBe(3);
+    expect(await adapter.countSessions({ agentIds: [agentId], activeAt: now })).toBe(2);
+    expect(await adapter.countSessions({ channelIds: [warned.channelId] })).toBe(1);
+    expect(await adapter.countSessions({ agentIds: [uuidv4() as UUID] })).toBe(0);
+  });
+
+  it('should only update a session at the expected version', async () => {
+    const session = await createSession();
+
+    expect(await adapter.updateSession(session.id, { renewalCount: 1 }, 0)).toBe(true);
+    // Another replica read the session before the first update
+    expect(await adapter.updateSession(session.id, { renewalCount: 5 }, 0)).toBe(false);
+
+    const updated = await adapter.getSession(session.id);
+    expect(updated?.renewalCount).toBe(1);
+    expect(updated?.version).toBe(1);
+    expect(await adapter.updateSession(session.id, { renewalCount: 2 }, 1)).toBe(true);
+  });
+});
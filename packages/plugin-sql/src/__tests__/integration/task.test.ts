@@ -10,7 +10,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'bun:test';
 import { PgDatabaseAdapter } from '../../pg/adapter';
 import { PgliteDatabaseAdapter } from '../../pglite/adapter';
-import { taskTable } from '../../schema';
+import { taskExecutionTable, taskTable } from '../../schema';
 import { createIsolatedTestDatabase } from '../test-helpers';
 
 describe('Task Integration Tests', () => {
@@ -195,5 +195,249 @@ describe('Task Integration Tests', () => {
       expect(filteredTasks.length).toBe(1);
       expect(filteredTasks[0].id).toBe(task1.id as UUID);
     });
+
+    it('should default scheduling state and persist updates to it', async () => {
+      const taskId = uuidv4() as UUID;
+      await adapter.createTask({
+        id: taskId,
+        roomId: testRoomId,
+        worldId: testWorldId,
+        name: 'Scheduled Task',
+        description: 'Runs on a cron schedule',
+        tags: ['queue'],
+        metadata: { cron: '*/5 * * * *' },
+      });
+
+      let retrieved = await adapter.getTask(taskId);
+      expect(retrieved?.status).toBe('pending');
+      expect(retrieved?.attempts).toBe(0);
+      expect(retrieved?.nextRunAt).toBeNull();
+      expect(retrieved?.lastError).toBeNull();
+
+      const nextRunAt = Date.now() + 60000;
+      const lastError = { message: 'boom', attempt: 3, failedAt: Date.now() };
+      await adapter.updateTask(taskId, {
+        status: 'dead_letter',
+        attempts: 3,
+        nextRunAt,
+        lastError,
+      });
+
+      retrieved = await adapter.getTask(taskId);
+      expect(retrieved?.status).toBe('dead_letter');
+      expect(retrieved?.attempts).toBe(3);
+      expect(retrieved?.nextRunAt).toBe(nextRunAt);
+      expect(retrieved?.lastError).toEqual(lastError);
+
+      await adapter.updateTask(taskId, { nextRunAt: null });
+      retrieved = await adapter.getTask(taskId);
+      expect(retrieved?.nextRunAt).toBeNull();
+    });
+
+    it('should grant a task lease to only one owner at a time', async () => {
+      const taskId = uuidv4() as UUID;
+      await adapter.createTask({
+        id: taskId,
+        roomId: testRoomId,
+        worldId: testWorldId,
+        name: 'Leased Task',
+        description: 'Claimed by a single runtime',
+        tags: ['queue'],
+        metadata: {},
+      });
+
+      const [first, second] = await Promise.all([
+        adapter.claimTask(taskId, 'runtime-a', 60000),
+        adapter.claimTask(taskId, 'runtime-b', 60000),
+      ]);
+      const winner = first ? 'runtime-a' : 'runtime-b';
+      expect([first, second].filter(Boolean)).toHaveLength(1);
+      expect((first ?? second)?.status).toBe('running');
+      expect((first ?? second)?.leaseOwner).toBe(winner);
+
+      // The holder can renew its own lease
+      expect(await adapter.claimTask(taskId, winner, 60000)).not.toBeNull();
+
+      // Releasing the lease lets another owner claim it
+      await adapter.updateTask(taskId, {
+        status: 'pending',
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      });
+      expect(await adapter.claimTask(taskId, 'runtime-c', 60000)).not.toBeNull();
+    });
+
+    it('should let another owner take over an expired lease', async () => {
+      const taskId = uuidv4() as UUID;
+      await adapter.createTask({
+        id: taskId,
+        roomId: testRoomId,
+        worldId: testWorldId,
+        name: 'Abandoned Task',
+        description: 'Its runtime crashed',
+        tags: ['queue'],
+        metadata: {},
+      });
+
+      await adapter.claimTask(taskId, 'runtime-a', 60000);
+      expect(await adapter.claimTask(taskId, 'runtime-b', 60000)).toBeNull();
+
+      await adapter.updateTask(taskId, { leaseExpiresAt: Date.now() - 1000 });
+      const claimed = await adapter.claimTask(taskId, 'runtime-b', 60000);
+      expect(claimed?.leaseOwner).toBe('runtime-b');
+    });
+
+    it('should report a task whose lease expired as no longer running', async () => {
+      const taskId = uuidv4() as UUID;
+      await adapter.createTask({
+        id: taskId,
+        roomId: testRoomId,
+        worldId: testWorldId,
+        name: 'Crashed Task',
+        description: 'Its runtime died mid-execution',
+        tags: ['queue'],
+        metadata: {},
+      });
+
+      await adapter.claimTask(taskId, 'runtime-a', 60000);
+      expect((await adapter.getTask(taskId))?.status).toBe('running');
+
+      await adapter.updateTask(taskId, { leaseExpiresAt: Date.now() - 1000 });
+      expect((await adapter.getTask(taskId))?.status).toBe('pending');
+    });
+
+    it('should not claim a task rescheduled after the caller read it', async () => {
+      const taskId = uuidv4() as UUID;
+      await adapter.createTask({
+        id: taskId,
+        roomId: testRoomId,
+        worldId: testWorldId,
+        name: 'Cron Task',
+        description: 'Runs every hour',
+        tags: ['queue'],
+        metadata: {},
+        nextRunAt: Date.now() - 1000,
+      });
+
+      // Another runtime ran the due occurrence and scheduled the next one
+      await adapter.claimTask(taskId, 'runtime-a', 60000);
+      await adapter.updateTask(taskId, {
+        status: 'pending',
+        nextRunAt: Date.now() + 60 * 60 * 1000,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      });
+
+      expect(await adapter.claimTask(taskId, 'runtime-b', 60000)).toBeNull();
+    });
+
+    it('should only claim repeating tasks once they are scheduled', async () => {
+      const taskId = uuidv4() as UUID;
+      await adapter.createTask({
+        id: taskId,
+        roomId: testRoomId,
+        worldId: testWorldId,
+        name: 'Repeating Task',
+        description: 'Runs every minute',
+        tags: ['queue', 'repeat'],
+        metadata: { updateInterval: 60000 },
+      });
+
+      expect(await adapter.claimTask(taskId, 'runtime-a', 60000)).toBeNull();
+
+      await adapter.updateTask(taskId, { nextRunAt: Date.now() - 1000 });
+      expect(await adapter.claimTask(taskId, 'runtime-a', 60000)).not.toBeNull();
+    });
+
+    it('should not claim dead-lettered tasks', async () => {
+      const taskId = uuidv4() as UUID;
+      await adapter.createTask({
+        id: taskId,
+        roomId: testRoomId,
+        worldId: testWorldId,
+        name: 'Dead Task',
+        description: 'Exhausted its retries',
+        tags: ['queue'],
+        metadata: {},
+        status: 'dead_letter',
+      });
+
+      expect(await adapter.claimTask(taskId, 'runtime-a', 60000)).toBeNull();
+    });
+
+    it('should not claim paused tasks', async () => {
+      const taskId = uuidv4() as UUID;
+      await adapter.createTask({
+        id: taskId,
+        roomId: testRoomId,
+        worldId: testWorldId,
+        name: 'Paused Task',
+        description: 'Paused by an operator',
+        tags: ['queue'],
+        metadata: {},
+        status: 'paused',
+      });
+
+      expect(await adapter.claimTask(taskId, 'runtime-a', 60000)).toBeNull();
+    });
+  });
+
+  describe('Task Execution Tests', () => {
+    beforeEach(async () => {
+      await adapter.getDatabase().delete(taskExecutionTable);
+    });
+
+    it('should record executions and return them newest first', async () => {
+      const taskId = uuidv4() as UUID;
+      await adapter.createTaskExecution({
+        taskId,
+        taskName: 'Report',
+        status: 'failed',
+        attempt: 1,
+        startedAt: 1000,
+        endedAt: 1500,
+        error: 'boom',
+      });
+      await adapter.createTaskExecution({
+        taskId,
+        taskName: 'Report',
+        status: 'succeeded',
+        attempt: 2,
+        startedAt: 2000,
+        endedAt: 2100,
+      });
+
+      const executions = await adapter.getTaskExecutions({ taskId });
+      expect(executions.map((execution) => execution.status)).toEqual(['succeeded', 'failed']);
+      expect(executions[1].error).toBe('boom');
+      expect(executions[0].error).toBeUndefined();
+
+      const page = await adapter.getTaskExecutions({ taskId, limit: 1, offset: 1 });
+      expect(page).toHaveLength(1);
+      expect(page[0].attempt).toBe(1);
+    });
+
+    it('should delete executions by task and age', async () => {
+      const taskA = uuidv4() as UUID;
+      const taskB = uuidv4() as UUID;
+      for (const [taskId, startedAt] of [
+        [taskA, 1000],
+        [taskA, 5000],
+        [taskB, 1000],
+      ] as const) {
+        await adapter.createTaskExecution({
+          taskId,
+          taskName: 'Report',
+          status: 'succeeded',
+          attempt: 1,
+          startedAt,
+          endedAt: startedAt + 100,
+        });
+      }
+
+      expect(await adapter.deleteTaskExecutions({ before: 2000 })).toBe(2);
+      expect(await adapter.deleteTaskExecutions({ taskId: taskA })).toBe(1);
+      expect(await adapter.getTaskExecutions({})).toHaveLength(0);
+    });
   });
 });
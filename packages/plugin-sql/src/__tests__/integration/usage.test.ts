@@ -0,0 +1,116 @@
+import { type ModelUsageRecord, type UUID } from '@elizaos/core';
+import { v4 as uuidv4 } from 'uuid';
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'bun:test';
+import { PgDatabaseAdapter } from '../../pg/adapter';
+import { PgliteDatabaseAdapter } from '../../pglite/adapter';
+import { modelUsageTable } from '../../schema';
+import { createIsolatedTestDatabase } from '../test-helpers';
+
+describe('Model Usage Integration Tests', () => {
+  let adapter: PgliteDatabaseAdapter | PgDatabaseAdapter;
+  let cleanup: () => Promise<void>;
+  let testAgentId: UUID;
+
+  const day1 = Date.UTC(2024, 0, 1, 12);
+  const day2 = Date.UTC(2024, 0, 2, 12);
+  const runA = uuidv4() as UUID;
+  const runB = uuidv4() as UUID;
+
+  const record = (overrides: Partial<ModelUsageRecord>): ModelUsageRecord => ({
+    provider: 'openai',
+    modelType: 'TEXT_LARGE',
+    model: 'gpt-4o',
+    promptTokens: 100,
+    completionTokens: 50,
+    totalTokens: 150,
+    estimatedCost: 0.001,
+    createdAt: day1,
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    const setup = await createIsolatedTestDatabase('usage-tests');
+    adapter = setup.adapter;
+    cleanup = setup.cleanup;
+    testAgentId = setup.testAgentId;
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+  });
+
+  beforeEach(async () => {
+    await adapter.getDatabase().delete(modelUsageTable);
+    await adapter.createModelUsage(record({ runId: runA }));
+    await adapter.createModelUsage(record({ runId: runA, createdAt: day1 + 1000 }));
+    await adapter.createModelUsage(
+      record({
+        runId: runB,
+        provider: 'anthropic',
+        model: 'claude-3-5-sonnet',
+        promptTokens: 1000,
+        completionTokens: 500,
+        totalTokens: 1500,
+        estimatedCost: 0.01,
+        createdAt: day2,
+      })
+    );
+    await adapter.createModelUsage(
+      record({ model: undefined, modelType: 'TEXT_EMBEDDING', estimatedCost: null })
+    );
+  });
+
+  it('should return ledger records newest first', async () => {
+    const records = await adapter.getModelUsage({});
+    expect(records).toHaveLength(4);
+    expect(records[0].provider).toBe('anthropic');
+    expect(records[0].createdAt).toBe(day2);
+
+    const runRecords = await adapter.getModelUsage({ runId: runA });
+    expect(runRecords).toHaveLength(2);
+    expect(runRecords.every((r) => r.runId === runA)).toBe(true);
+  });
+
+  it('should roll up usage for the agent', async () => {
+    const [totals] = await adapter.getModelUsageRollup({ groupBy: 'agent' });
+    expect(totals).toEqual({
+      key: testAgentId,
+      calls: 4,
+      promptTokens: 1300,
+      completionTokens: 650,
+      totalTokens: 1950,
+      estimatedCost: expect.closeTo(0.012, 6),
+    });
+  });
+
+  it('should roll up usage per day in chronological order', async () => {
+    const byDay = await adapter.getModelUsageRollup({ groupBy: 'day' });
+    expect(byDay.map((row) => [row.key, row.calls])).toEqual([
+      ['2024-01-01', 3],
+      ['2024-01-02', 1],
+    ]);
+  });
+
+  it('should roll up usage per run, skipping calls outside a run', async () => {
+    const byRun = await adapter.getModelUsageRollup({ groupBy: 'run' });
+    expect(byRun.map((row) => [row.key, row.totalTokens])).toEqual([
+      [runB, 1500],
+      [runA, 300],
+    ]);
+  });
+
+  it('should roll up usage per model and filter by time range', async () => {
+    const byModel = await adapter.getModelUsageRollup({ groupBy: 'model', to: day1 + 5000 });
+    expect(byModel.map((row) => [row.key, row.calls])).toEqual([
+      ['gpt-4o', 2],
+      ['TEXT_EMBEDDING', 1],
+    ]);
+  });
+
+  it('should roll up usage per model type since a timestamp', async () => {
+    const byModelType = await adapter.getModelUsageRollup({ groupBy: 'modelType', from: day2 });
+    expect(byModelType.map((row) => [row.key, row.totalTokens])).toEqual([['TEXT_LARGE', 1500]]);
+  });
+});
@@ -0,0 +1,144 @@
+import type { UUID } from '@elizaos/core';
+import { v4 as uuidv4 } from 'uuid';
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'bun:test';
+import { PgDatabaseAdapter } from '../../pg/adapter';
+import { PgliteDatabaseAdapter } from '../../pglite/adapter';
+import { webhookDeliveryTable, webhookTable } from '../../schema';
+import { createIsolatedTestDatabase } from '../test-helpers';
+
+describe('Webhook Integration Tests', () => {
+  let adapter: PgliteDatabaseAdapter | PgDatabaseAdapter;
+  let cleanup: () => Promise<void>;
+
+  const createWebhook = () =>
+    adapter.createWebhook({
+      id: uuidv4() as UUID,
+      url: 'https://example.com/hooks',
+      secret: 'whsec_test',
+      events: ['MESSAGE_SENT', 'new_message'],
+      enabled: true,
+      createdAt: new Date(),
+    });
+
+  const queueDelivery = (webhookId: UUID, overrides: Record<string, unknown> = {}) => {
+    const id = uuidv4() as UUID;
+    return adapter
+      .createWebhookDelivery({
+        id,
+        webhookId,
+        event: 'MESSAGE_SENT',
+        payload: { text: 'hello' },
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date(Date.now() - 1000),
+        createdAt: new Date(),
+        ...overrides,
+      })
+      .then(() => id);
+  };
+
+  beforeAll(async () => {
+    const setup = await createIsolatedTestDatabase('webhook-tests');
+    adapter = setup.adapter;
+    cleanup = setup.cleanup;
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+  });
+
+  beforeEach(async () => {
+    await adapter.getDatabase().delete(webhookDeliveryTable);
+    await adapter.getDatabase().delete(webhookTable);
+  });
+
+  it('should create, list and delete webhooks with their deliveries', async () => {
+    const webhook = await createWebhook();
+
+    const found = await adapter.getWebhook(webhook.id);
+    expect(found?.events).toEqual(['MESSAGE_SENT', 'new_message']);
+    expect(found?.agentIds).toBeUndefined();
+    expect(await adapter.getWebhooks()).toHaveLength(1);
+
+    const deliveryId = await queueDelivery(webhook.id);
+    expect(await adapter.deleteWebhook(webhook.id)).toBe(true);
+    expect(await adapter.getWebhook(webhook.id)).toBeNull();
+    expect(await adapter.getWebhookDelivery(deliveryId)).toBeNull();
+    expect(await adapter.deleteWebhook(webhook.id)).toBe(false);
+  });
+
+  it('should queue each delivery only once', async () => {
+    const webhook = await createWebhook();
+    const delivery = {
+      id: uuidv4() as UUID,
+      webhookId: webhook.id,
+      event: 'new_message',
+      payload: {},
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      createdAt: new Date(),
+    };
+
+    expect(await adapter.createWebhookDelivery(delivery)).toBe(true);
+    expect(await adapter.createWebhookDelivery(delivery)).toBe(false);
+    expect(await adapter.getWebhookDeliveries({ webhookId: webhook.id })).toHaveLength(1);
+  });
+
+  it('should claim due deliveries once and update them', async () => {
+    const webhook = await createWebhook();
+    const dueId = await queueDelivery(webhook.id);
+    await queueDelivery(webhook.id, { nextAttemptAt: new Date(Date.now() + 60_000) });
+    await queueDelivery(webhook.id, { status: 'dead_letter', nextAttemptAt: undefined });
+
+    const now = new Date();
+    const leaseUntil = new Date(now.getTime() + 30_000);
+    const claimed = await adapter.claimWebhookDeliveries(now, leaseUntil, 10);
+    expect(claimed.map((delivery) => delivery.id)).toEqual([dueId]);
+    expect(claimed[0].nextAttemptAt?.getTime()).toBe(leaseUntil.getTime());
+    expect(await adapter.claimWebhookDeliveries(now, leaseUntil, 10)).toHaveLength(0);
+
+    await adapter.updateWebhookDelivery(dueId, {
+      status: 'delivered',
+      attempts: 1,
+      responseStatus: 200,
+      nextAttemptAt: undefined,
+    });
+    const delivered = await adapter.getWebhookDelivery(dueId);
+    expect(delivered?.status).toBe('delivered');
+    expect(delivered?.nextAttemptAt).toBeUndefined();
+    expect(await adapter.getWebhookDeliveries({ status: 'dead_letter' })).toHaveLength(1);
+
+    expect(await adapter.deleteWebhookDeliveries(['delivered'], new Date(Date.now() + 1000))).toBe(
+      1
+    );
+    expect(await adapter.getWebhookDelivery(dueId)).toBeNull();
+  });
+
+  it('should only requeue deliveries that are no longer pending', async () => {
+    const webhook = await createWebhook();
+    const leasedId = await queueDelivery(webhook.id, {
+      nextAttemptAt: new Date(Date.now() + 60_000),
+    });
+    const deadId = await queueDelivery(webhook.id, {
+      status: 'dead_letter',
+      attempts: 8,
+      nextAttemptAt: undefined,
+    });
+    await adapter.updateWebhookDelivery(deadId, { lastError: 'HTTP 500', responseStatus: 500 });
+
+    const now = new Date();
+    expect(await adapter.requeueWebhookDelivery(leasedId, now)).toBeNull();
+    expect((await adapter.getWebhookDelivery(leasedId))?.nextAttemptAt?.getTime()).toBeGreaterThan(
+      now.getTime()
+    );
+
+    const requeued = await adapter.requeueWebhookDelivery(deadId, now);
+    expect(requeued).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(requeued?.nextAttemptAt?.getTime()).toBe(now.getTime());
+    expect(requeued?.lastError).toBeUndefined();
+    expect(await adapter.requeueWebhookDelivery(deadId, now)).toBeNull();
+  });
+});
@@ -3,6 +3,7 @@ import { sql } from 'drizzle-orm';
 import { drizzle } from 'drizzle-orm/pglite';
 import { PGlite } from '@electric-sql/pglite';
 import { vector } from '@electric-sql/pglite/vector';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
 import {
   pgTable,
   text,
@@ -31,7 +32,7 @@ describe('Production Migration Scenarios', () => {
   let introspector: DatabaseIntrospector;
 
   beforeEach(async () => {
-    pgClient = new PGlite({ extensions: { vector } });
+    pgClient = new PGlite({ extensions: { vector, pg_trgm } });
     db = drizzle(pgClient);
     migrator = new RuntimeMigrator(db);
     introspector = new DatabaseIntrospector(db);
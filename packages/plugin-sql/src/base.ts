@@ -3,6 +3,10 @@ import {
   type Component,
   DatabaseAdapter,
   type Entity,
+  fuseHybridSearchResults,
+  getHybridCandidateCount,
+  getLexicalSearchTerms,
+  type HybridSearchOptions,
   type Log,
   logger,
   type Memory,
@@ -12,6 +16,10 @@ import {
   type Relationship,
   type Room,
   type Task,
+  type TaskExecution,
+  type ModelUsageRecord,
+  type ModelUsageGroupBy,
+  type ModelUsageRollup,
   type UUID,
   type World,
   type AgentRunSummaryResult,
@@ -21,7 +29,7 @@ import type { DatabaseMigrationService } from './migration-service';
 import { and, eq, inArray, sql } from 'drizzle-orm';
 import { DIMENSION_MAP, type EmbeddingDimensionColumn } from './schema/embedding';
 import { embeddingTable, logTable, memoryTable, participantTable, roomTable } from './schema/index';
-import type { DrizzleDatabase } from './types';
+import type { DrizzleDatabase, NotificationClient } from './types';
 import { sanitizeJsonObject } from './utils';
 import {
   AgentStore,
@@ -36,6 +44,24 @@ import {
   TaskStore,
   LogStore,
   MessagingStore,
+  JobStore,
+  SessionStore,
+  ApiKeyStore,
+  type ApiKeyRecord,
+  type ApiKeyUsageQueryParams,
+  type ApiKeyUsageRecord,
+  WebhookStore,
+  type WebhookDeliveryQueryParams,
+  type WebhookDeliveryRecord,
+  type WebhookDeliveryUpdate,
+  type WebhookRecord,
+  UsageStore,
+  type JobQueryParams,
+  type JobRecord,
+  type JobUpdate,
+  type SessionQueryParams,
+  type SessionRecord,
+  type SessionUpdate,
   type StoreContext,
 } from './stores';
 
@@ -85,6 +111,11 @@ export abstract class BaseDrizzleAdapter extends DatabaseAdapter<any> {
   protected taskStore!: TaskStore;
   protected logStore!: LogStore;
   protected messagingStore!: MessagingStore;
+  protected jobStore!: JobStore;
+  protected sessionStore!: SessionStore;
+  protected apiKeyStore!: ApiKeyStore;
+  protected webhookStore!: WebhookStore;
+  protected usageStore!: UsageStore;
 
   protected abstract withDatabase<T>(operation: () => Promise<T>): Promise<T>;
 
@@ -149,6 +180,14 @@ export abstract class BaseDrizzleAdapter extends DatabaseAdapter<any> {
     return this.db;
   }
 
+  /**
+   * Get a LISTEN/NOTIFY client that reuses this adapter's connection.
+   * Returns null when the underlying driver does not support notifications.
+   */
+  public getNotificationClient(): NotificationClient | null {
+    return null;
+  }
+
   protected agentId: UUID;
 
   /**
@@ -186,6 +225,11 @@ export abstract class BaseDrizzleAdapter extends DatabaseAdapter<any> {
     this.taskStore = new TaskStore(ctx);
     this.logStore = new LogStore(ctx);
     this.messagingStore = new MessagingStore(ctx);
+    this.jobStore = new JobStore(ctx);
+    this.sessionStore = new SessionStore(ctx);
+    this.apiKeyStore = new ApiKeyStore(ctx);
+    this.webhookStore = new WebhookStore(ctx);
+    this.usageStore = new UsageStore(ctx);
   }
 
   /**
@@ -661,6 +705,7 @@ export abstract class BaseDrizzleAdapter extends DatabaseAdapter<any> {
    * @param {UUID} [params.roomId] - Optional room ID to filter by.
    * @param {UUID} [params.worldId] - Optional world ID to filter by.
    * @param {UUID} [params.entityId] - Optional entity ID to filter by.
+   * @param {HybridSearchOptions} [params.hybrid] - Fuse BM25 ranking of the query with similarity.
    * @returns {Promise<Memory[]>} A Promise that resolves to an array of memories.
    */
   async searchMemories(params: {
@@ -673,7 +718,12 @@ export abstract class BaseDrizzleAdapter extends DatabaseAdapter<any> {
     roomId?: UUID;
     worldId?: UUID;
     entityId?: UUID;
+    hybrid?: HybridSearchOptions;
+    includeShared?: boolean;
   }): Promise<Memory[]> {
+    if (params.hybrid && params.query) {
+      return this.searchMemoriesHybrid({ ...params, query: params.query, hybrid: params.hybrid });
+    }
     return await this.searchMemoriesByEmbedding(params.embedding, {
       match_threshold: params.match_threshold,
       count: params.count,
@@ -683,6 +733,37 @@ export abstract class BaseDrizzleAdapter extends DatabaseAdapter<any> {
       entityId: params.entityId,
       unique: params.unique,
       tableName: params.tableName,
+      includeShared: params.includeShared,
+    });
+  }
+
+  /**
+   * Hybrid search: takes candidates from both embedding similarity and a text match on
+   * the query terms, then fuses their BM25 and vector rankings.
+   */
+  private async searchMemoriesHybrid(params: {
+    tableName: string;
+    embedding: number[];
+    query: string;
+    hybrid: HybridSearchOptions;
+    match_threshold?: number;
+    count?: number;
+    unique?: boolean;
+    roomId?: UUID;
+    worldId?: UUID;
+    entityId?: UUID;
+    includeShared?: boolean;
+  }): Promise<Memory[]> {
+    const { embedding, query, hybrid, match_threshold, ...scope } = params;
+    const count = params.count ?? 10;
+    const candidates = { ...scope, count: getHybridCandidateCount(count, hybrid) };
+
+    return this.withDatabase(async () => {
+      const [vectorResults, lexicalResults] = await Promise.all([
+        this.memoryStore.searchByEmbedding(embedding, { ...candidates, match_threshold }),
+        this.memoryStore.searchByText(getLexicalSearchTerms(query), embedding, candidates),
+      ]);
+      return fuseHybridSearchResults(query, vectorResults, lexicalResults, count, hybrid);
     });
   }
 
@@ -697,6 +778,7 @@ export abstract class BaseDrizzleAdapter extends DatabaseAdapter<any> {
    * @param {UUID} [params.entityId] - Optional entity ID to filter by.
    * @param {boolean} [params.unique] - Whether to retrieve unique memories only.
    * @param {string} [params.tableName] - The name of the table to search for memories in.
+   * @param {boolean} [params.includeShared] - Whether to include shared memories of other agents.
    * @returns {Promise<Memory[]>} A Promise that resolves to an array of memories.
    */
   async searchMemoriesByEmbedding(
@@ -709,6 +791,7 @@ export abstract class BaseDrizzleAdapter extends DatabaseAdapter<any> {
       entityId?: UUID;
       unique?: boolean;
       tableName: string;
+      includeShared?: boolean;
     }
   ): Promise<Memory[]> {
     return this.withDatabase(() => this.memoryStore.searchByEmbedding(embedding, params));
@@ -771,10 +854,25 @@ export abstract class BaseDrizzleAdapter extends DatabaseAdapter<any> {
    * @param {UUID} roomId - The ID of the room to count memories in.
    * @param {boolean} [unique] - Whether to count unique memories only.
    * @param {string} [tableName] - The name of the table to count memories in.
+   * @param {number} [start] - Only count memories created at or after this time (ms).
    * @returns {Promise<number>} A Promise that resolves to the number of memories.
    */
-  async countMemories(roomId: UUID, unique = true, tableName = ''): Promise<number> {
-    return this.withDatabase(() => this.memoryStore.count(roomId, unique, tableName));
+  async countMemories(
+    roomId: UUID,
+    unique = true,
+    tableName = '',
+    start?: number
+  ): Promise<number> {
+    return this.withDatabase(() => this.memoryStore.count(roomId, unique, tableName, start));
+  }
+
+  /**
+   * Asynchronously lists the tables holding memories of a room.
+   * @param {UUID} roomId - The ID of the room to list the tables of.
+   * @returns {Promise<string[]>} A Promise that resolves to the table names.
+   */
+  async getMemoryTableNames(roomId: UUID): Promise<string[]> {
+    return this.withDatabase(() => this.memoryStore.getTableNames(roomId));
   }
 
   /**
@@ -1014,6 +1112,14 @@ export abstract class BaseDrizzleAdapter extends DatabaseAdapter<any> {
     return this.withDatabase(() => this.cacheStore.delete(key));
   }
 
+  /**
+   * Asynchronously retrieves every cache entry of the agent.
+   * @returns {Promise<Array<{ key: string; value: unknown }>>} A Promise that resolves to the cache entries.
+   */
+  async getCacheEntries(): Promise<Array<{ key: string; value: unknown }>> {
+    return this.withDatabase(() => this.cacheStore.getAll());
+  }
+
   /**
    * Asynchronously creates a new world in the database based on the provided parameters.
    * @param {World} world - The world object to create.
@@ -1063,6 +1169,50 @@ export abstract class BaseDrizzleAdapter extends DatabaseAdapter<any> {
     return this.withDatabase(() => this.taskStore.delete(id));
   }
 
+  async claimTask(id: UUID, owner: string, leaseMs: number): Promise<Task | null> {
+    return this.withDatabase(() => this.taskStore.claim(id, owner, leaseMs));
+  }
+
+  async createTaskExecution(execution: TaskExecution): Promise<void> {
+    return this.withDatabase(() => this.taskStore.createExecution(execution));
+  }
+
+  async getTaskExecutions(params: {
+    taskId?: UUID;
+    limit?: number;
+    offset?: number;
+  }): Promise<TaskExecution[]> {
+    return this.withDatabase(() => this.taskStore.getExecutions(params));
+  }
+
+  async deleteTaskExecutions(params: { taskId?: UUID; before?: number }): Promise<number> {
+    return this.withDatabase(() => this.taskStore.deleteExecutions(params));
+  }
+
+  async createModelUsage(record: ModelUsageRecord): Promise<void> {
+    return this.withDatabase(() => this.usageStore.create(record));
+  }
+
+  async getModelUsage(params: {
+    runId?: UUID;
+    from?: number;
+    to?: number;
+    limit?: number;
+    offset?: number;
+  }): Promise<ModelUsageRecord[]> {
+    return this.withDatabase(() => this.usageStore.getMany(params));
+  }
+
+  async getModelUsageRollup(params: {
+    groupBy: ModelUsageGroupBy;
+    runId?: UUID;
+    from?: number;
+    to?: number;
+    limit?: number;
+  }): Promise<ModelUsageRollup[]> {
+    return this.withDatabase(() => this.usageStore.getRollup(params));
+  }
+
   async getMemoriesByWorldId(params: {
     worldId: UUID;
     count?: number;
@@ -1270,6 +1420,146 @@ export abstract class BaseDrizzleAdapter extends DatabaseAdapter<any> {
   async deleteMessage(messageId: UUID) {
     return this.messagingStore.deleteMessage(messageId);
   }
+
+  // Job Operations - delegated to JobStore
+
+  async createJob(data: Omit<JobRecord, 'updatedAt'>) {
+    return this.jobStore.create(data);
+  }
+
+  async getJob(id: string) {
+    return this.jobStore.get(id);
+  }
+
+  async updateJob(id: string, patch: JobUpdate) {
+    return this.jobStore.update(id, patch);
+  }
+
+  async claimJob(id: string, ownerId: string, leaseExpiresAt: Date) {
+    return this.jobStore.claim(id, ownerId, leaseExpiresAt);
+  }
+
+  async renewJobLeases(ownerId: string, statuses: string[], leaseExpiresAt: Date) {
+    return this.jobStore.renewLeases(ownerId, statuses, leaseExpiresAt);
+  }
+
+  async getJobs(params?: JobQueryParams) {
+    return this.jobStore.getAll(params);
+  }
+
+  async countJobs(params?: JobQueryParams) {
+    return this.jobStore.count(params);
+  }
+
+  async deleteExpiredJobs(statuses: string[], before: Date) {
+    return this.jobStore.deleteExpired(statuses, before);
+  }
+
+  // Messaging Session Operations - delegated to SessionStore
+
+  async createSession(data: SessionRecord) {
+    return this.sessionStore.create(data);
+  }
+
+  async getSession(id: string) {
+    return this.sessionStore.get(id);
+  }
+
+  async updateSession(id: string, patch: SessionUpdate, expectedVersion?: number) {
+    return this.sessionStore.update(id, patch, expectedVersion);
+  }
+
+  async deleteSession(id: string) {
+    return this.sessionStore.delete(id);
+  }
+
+  async getSessions(params?: SessionQueryParams) {
+    return this.sessionStore.getAll(params);
+  }
+
+  async countSessions(params?: SessionQueryParams) {
+    return this.sessionStore.count(params);
+  }
+
+  async deleteExpiredSessions(before: Date) {
+    return this.sessionStore.deleteExpired(before);
+  }
+
+  // API Key Operations - delegated to ApiKeyStore
+
+  async createApiKey(data: ApiKeyRecord) {
+    return this.apiKeyStore.create(data);
+  }
+
+  async getApiKey(id: UUID) {
+    return this.apiKeyStore.get(id);
+  }
+
+  async getApiKeyByHash(keyHash: string) {
+    return this.apiKeyStore.getByHash(keyHash);
+  }
+
+  async getApiKeys() {
+    return this.apiKeyStore.getAll();
+  }
+
+  async revokeApiKey(id: UUID) {
+    return this.apiKeyStore.revoke(id);
+  }
+
+  async logApiKeyUsage(usage: Omit<ApiKeyUsageRecord, 'id'>) {
+    return this.apiKeyStore.logUsage(usage);
+  }
+
+  async getApiKeyUsage(params?: ApiKeyUsageQueryParams) {
+    return this.apiKeyStore.getUsage(params);
+  }
+
+  // Webhook Operations - delegated to WebhookStore
+
+  async createWebhook(data: WebhookRecord) {
+    return this.webhookStore.create(data);
+  }
+
+  async getWebhook(id: UUID) {
+    return this.webhookStore.get(id);
+  }
+
+  async getWebhooks() {
+    return this.webhookStore.getAll();
+  }
+
+  async deleteWebhook(id: UUID) {
+    return this.webhookStore.delete(id);
+  }
+
+  async createWebhookDelivery(data: Omit<WebhookDeliveryRecord, 'updatedAt'>) {
+    return this.webhookStore.createDelivery(data);
+  }
+
+  async getWebhookDelivery(id: UUID) {
+    return this.webhookStore.getDelivery(id);
+  }
+
+  async updateWebhookDelivery(id: UUID, patch: WebhookDeliveryUpdate) {
+    return this.webhookStore.updateDelivery(id, patch);
+  }
+
+  async getWebhookDeliveries(params?: WebhookDeliveryQueryParams) {
+    return this.webhookStore.getDeliveries(params);
+  }
+
+  async claimWebhookDeliveries(now: Date, leaseUntil: Date, limit: number) {
+    return this.webhookStore.claimDueDeliveries(now, leaseUntil, limit);
+  }
+
+  async requeueWebhookDelivery(id: UUID, now: Date) {
+    return this.webhookStore.requeueDelivery(id, now);
+  }
+
+  async deleteWebhookDeliveries(statuses: string[], before: Date) {
+    return this.webhookStore.deleteDeliveries(statuses, before);
+  }
 }
 
 // Import tables at the end to avoid circular dependencies
@@ -186,6 +186,8 @@ export const plugin: Plugin = {
 export default plugin;
 
 export { DatabaseMigrationService } from './migration-service';
+export type { NotificationClient } from './types';
+export type { JobRecord, JobQueryParams, JobUpdate } from './stores/job.store';
 export {
   installRLSFunctions,
   getOrCreateRlsServer,
@@ -184,6 +184,8 @@ export default plugin;
 
 // Export additional utilities that may be needed by consumers
 export { DatabaseMigrationService } from './migration-service';
+export type { NotificationClient } from './types';
+export type { JobRecord, JobQueryParams, JobUpdate } from './stores/job.store';
 export {
   installRLSFunctions,
   getOrCreateRlsServer,
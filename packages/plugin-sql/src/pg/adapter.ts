@@ -1,6 +1,7 @@
 import { type UUID, logger, type Agent, type Entity, type Memory } from '@elizaos/core';
 import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
 import { BaseDrizzleAdapter } from '../base';
+import type { NotificationClient } from '../types';
 import { DIMENSION_MAP, type EmbeddingDimensionColumn } from '../schema/embedding';
 import type { PostgresConnectionManager } from './manager';
 
@@ -27,6 +28,13 @@ export class PgDatabaseAdapter extends BaseDrizzleAdapter {
     return this.manager;
   }
 
+  /**
+   * Get a LISTEN/NOTIFY client that reuses this adapter's connection manager.
+   */
+  public getNotificationClient(): NotificationClient {
+    return this.manager.createNotificationClient();
+  }
+
   /**
    * Execute a callback with full isolation context (Server RLS + Entity RLS).
    */
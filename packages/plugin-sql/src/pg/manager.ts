@@ -1,7 +1,11 @@
 import { drizzle, type NodePgDatabase } from 'drizzle-orm/node-postgres';
-import { Pool, type PoolClient, type PoolConfig } from 'pg';
+import { Pool, type Notification, type PoolClient, type PoolConfig } from 'pg';
 import { sql } from 'drizzle-orm';
 import { logger, type UUID, validateUuid } from '@elizaos/core';
+import { assertNotificationChannel, type NotificationClient } from '../types';
+
+const NOTIFICATION_RECONNECT_MIN_DELAY_MS = 1000;
+const NOTIFICATION_RECONNECT_MAX_DELAY_MS = 30000;
 
 export class PostgresConnectionManager {
   private pool: Pool;
@@ -111,6 +115,125 @@ export class PostgresConnectionManager {
     });
   }
 
+  /**
+   * Create a LISTEN/NOTIFY client on this pool.
+   * Each listen() holds a dedicated pool connection until it is unsubscribed,
+   * since notifications are delivered per session. When that connection fails it is
+   * discarded and a new one is checked out and re-issues LISTEN, with backoff.
+   * Notifications sent while reconnecting are lost.
+   */
+  public createNotificationClient(): NotificationClient {
+    return {
+      listen: async (channel, onNotification) => {
+        assertNotificationChannel(channel);
+        let client: PoolClient | null = null;
+        let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+        let reconnectDelayMs = NOTIFICATION_RECONNECT_MIN_DELAY_MS;
+        let stopped = false;
+
+        const handler = (message: Notification) => {
+          if (message.channel === channel) {
+            onNotification(message.payload ?? '');
+          }
+        };
+
+        const connect = async (): Promise<void> => {
+          const nextClient = await this.pool.connect();
+          nextClient.on('notification', handler);
+          nextClient.on('error', onError);
+          try {
+            await nextClient.query(`LISTEN ${channel}`);
+          } catch (error) {
+            nextClient.off('notification', handler);
+            nextClient.off('error', onError);
+            nextClient.release(true);
+            throw error;
+          }
+          client = nextClient;
+        };
+
+        const scheduleReconnect = (): void => {
+          if (stopped || this._closed) {
+            return;
+          }
+          reconnectTimer = setTimeout(async () => {
+            reconnectTimer = null;
+            if (stopped || this._closed) {
+              return;
+            }
+            try {
+              await connect();
+              reconnectDelayMs = NOTIFICATION_RECONNECT_MIN_DELAY_MS;
+              logger.info({ src: 'plugin:sql', channel }, 'Notification listener reconnected');
+              if (stopped) {
+                await unlisten();
+              }
+            } catch (error) {
+              logger.warn(
+                {
+                  src: 'plugin:sql',
+                  channel,
+                  error: error instanceof Error ? error.message : String(error),
+                },
+                'Failed to reconnect notification listener'
+              );
+              reconnectDelayMs = Math.min(
+                reconnectDelayMs * 2,
+                NOTIFICATION_RECONNECT_MAX_DELAY_MS
+              );
+              scheduleReconnect();
+            }
+          }, reconnectDelayMs);
+        };
+
+        // A checked-out client is not watched by the pool, so a dropped LISTEN connection
+        // would otherwise crash the process or silently stop delivering notifications
+        const onError = (error: Error): void => {
+          const failedClient = client;
+          if (!failedClient) {
+            return;
+          }
+          client = null;
+          failedClient.off('notification', handler);
+          failedClient.off('error', onError);
+          failedClient.release(error);
+          logger.warn(
+            { src: 'plugin:sql', channel, error: error?.message || String(error) },
+            'Notification listener connection lost, reconnecting'
+          );
+          scheduleReconnect();
+        };
+
+        const unlisten = async (): Promise<void> => {
+          stopped = true;
+          if (reconnectTimer) {
+            clearTimeout(reconnectTimer);
+            reconnectTimer = null;
+          }
+          const activeClient = client;
+          if (!activeClient) {
+            return;
+          }
+          client = null;
+          try {
+            await activeClient.query(`UNLISTEN ${channel}`);
+          } finally {
+            activeClient.off('notification', handler);
+            activeClient.off('error', onError);
+            activeClient.release();
+          }
+        };
+
+        await connect();
+        return unlisten;
+      },
+      notify: async (channel, payload) => {
+        assertNotificationChannel(channel);
+        await this.pool.query('SELECT pg_notify($1, $2)', [channel, payload]);
+      },
+    };
+  }
+
   /**
    * Closes the connection pool.
    * After calling close(), the manager is unusable and isClosed() returns true.
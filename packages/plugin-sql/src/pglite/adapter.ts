@@ -1,6 +1,7 @@
 import { type UUID, logger, type Agent, type Entity, type Memory } from '@elizaos/core';
 import { drizzle, type PgliteDatabase } from 'drizzle-orm/pglite';
 import { BaseDrizzleAdapter } from '../base';
+import type { NotificationClient } from '../types';
 import { DIMENSION_MAP, type EmbeddingDimensionColumn } from '../schema/embedding';
 import type { PGliteClientManager } from './manager';
 
@@ -39,6 +40,13 @@ export class PgliteDatabaseAdapter extends BaseDrizzleAdapter {
     this.initStores();
   }
 
+  /**
+   * Get a LISTEN/NOTIFY client that reuses this adapter's connection manager.
+   */
+  public getNotificationClient(): NotificationClient {
+    return this.manager.createNotificationClient();
+  }
+
   /**
    * Execute a callback with isolation context.
    * PGLite: No RLS support, execute callback directly.
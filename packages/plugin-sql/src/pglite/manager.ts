@@ -1,7 +1,12 @@
 import { PGlite, type PGliteOptions } from '@electric-sql/pglite';
 import { fuzzystrmatch } from '@electric-sql/pglite/contrib/fuzzystrmatch';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
 import { vector } from '@electric-sql/pglite/vector';
-import type { IDatabaseClientManager } from '../types';
+import {
+  assertNotificationChannel,
+  type IDatabaseClientManager,
+  type NotificationClient,
+} from '../types';
 
 /**
  * Class representing a database client manager for PGlite.
@@ -22,6 +27,7 @@ export class PGliteClientManager implements IDatabaseClientManager<PGlite> {
       extensions: {
         vector,
         fuzzystrmatch,
+        pg_trgm,
       },
     });
     this.setupShutdownHandlers();
@@ -31,6 +37,23 @@ export class PGliteClientManager implements IDatabaseClientManager<PGlite> {
     return this.client;
   }
 
+  /**
+   * Create a LISTEN/NOTIFY client on the embedded PGlite instance.
+   * Notifications only reach listeners within the same process.
+   */
+  public createNotificationClient(): NotificationClient {
+    return {
+      listen: async (channel, onNotification) => {
+        assertNotificationChannel(channel);
+        return this.client.listen(channel, onNotification);
+      },
+      notify: async (channel, payload) => {
+        assertNotificationChannel(channel);
+        await this.client.query('SELECT pg_notify($1, $2)', [channel, payload]);
+      },
+    };
+  }
+
   public isShuttingDown(): boolean {
     return this.shuttingDown;
   }
@@ -388,8 +388,8 @@ export class RuntimeMigrator {
       // Install required extensions
       // pgcrypto is only needed for real PostgreSQL (PGLite uses native gen_random_uuid)
       const extensions = isRealPostgres
-        ? ['vector', 'fuzzystrmatch', 'pgcrypto']
-        : ['vector', 'fuzzystrmatch'];
+        ? ['vector', 'fuzzystrmatch', 'pg_trgm', 'pgcrypto']
+        : ['vector', 'fuzzystrmatch', 'pg_trgm'];
       await this.extensionManager.installRequiredExtensions(extensions);
 
       // Generate current snapshot from schema
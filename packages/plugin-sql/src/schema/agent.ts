@@ -1,4 +1,4 @@
-import type { MessageExample } from '@elizaos/core';
+import type { MessageExample, TemplateType } from '@elizaos/core';
 import { sql } from 'drizzle-orm';
 import { boolean, jsonb, pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core';
 
@@ -65,4 +65,9 @@ export const agentTable = pgTable('agents', {
     }>()
     .default(sql`'{}'::jsonb`)
     .notNull(),
+  // Prompt template overrides, by template name. Function templates are not stored.
+  templates: jsonb('templates')
+    .$type<{ [key: string]: TemplateType }>()
+    .default(sql`'{}'::jsonb`)
+    .notNull(),
 });
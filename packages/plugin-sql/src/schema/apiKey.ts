@@ -0,0 +1,49 @@
+import { index, integer, jsonb, pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Represents a table schema for the server's API keys. Only a hash of each key is
+ * stored; the key itself is shown once when it is created. Keys are central
+ * (server-level) records, so ids are stored as text like the other central tables.
+ */
+export const apiKeyTable = pgTable(
+  'api_keys',
+  {
+    id: text('id').primaryKey(), // UUID stored as text
+    name: text('name').notNull(),
+    /** First characters of the key, to tell keys apart without storing them */
+    prefix: text('prefix').notNull(),
+    keyHash: text('key_hash').notNull().unique(),
+    scopes: jsonb('scopes').$type<string[]>().notNull(),
+    /** Agents the key may act on; null allows all agents */
+    agentIds: jsonb('agent_ids').$type<string[]>(),
+    /** Channels the key may act on; null allows all channels */
+    channelIds: jsonb('channel_ids').$type<string[]>(),
+    createdAt: timestamp('created_at', { mode: 'date' })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    expiresAt: timestamp('expires_at', { mode: 'date' }),
+    revokedAt: timestamp('revoked_at', { mode: 'date' }),
+    lastUsedAt: timestamp('last_used_at', { mode: 'date' }),
+  },
+  (table) => [index('idx_api_keys_created_at').on(table.createdAt)]
+);
+
+/**
+ * Audit log of requests made with API keys
+ */
+export const apiKeyUsageTable = pgTable(
+  'api_key_usage',
+  {
+    id: text('id').primaryKey(), // UUID stored as text
+    keyId: text('key_id').notNull(),
+    method: text('method').notNull(),
+    path: text('path').notNull(),
+    status: integer('status').notNull(),
+    ip: text('ip'),
+    createdAt: timestamp('created_at', { mode: 'date' })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => [index('idx_api_key_usage_key_created').on(table.keyId, table.createdAt)]
+);
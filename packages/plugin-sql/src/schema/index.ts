@@ -10,7 +10,8 @@ export { participantTable } from './participant';
 export { relationshipTable } from './relationship';
 export { roomTable } from './room';
 export { worldTable } from './world';
-export { taskTable } from './tasks';
+export { taskTable, taskExecutionTable } from './tasks';
+export { modelUsageTable } from './usage';
 
 // Central database tables
 export { messageServerTable } from './messageServer';
@@ -18,3 +19,7 @@ export { channelTable } from './channel';
 export { messageTable } from './message';
 export { channelParticipantsTable } from './channelParticipant';
 export { messageServerAgentsTable } from './messageServerAgent';
+export { jobTable } from './job';
+export { sessionTable } from './session';
+export { apiKeyTable, apiKeyUsageTable } from './apiKey';
+export { webhookTable, webhookDeliveryTable } from './webhook';
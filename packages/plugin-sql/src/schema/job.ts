@@ -0,0 +1,40 @@
+import { index, jsonb, pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import type { Metadata } from '@elizaos/core';
+
+/**
+ * Represents a table schema for one-off messaging jobs submitted through the jobs API.
+ * Jobs are central (server-level) records, so ids are stored as text like the other
+ * central messaging tables.
+ */
+export const jobTable = pgTable(
+  'jobs',
+  {
+    id: text('id').primaryKey(), // UUID stored as text
+    agentId: text('agent_id').notNull(),
+    userId: text('user_id').notNull(),
+    channelId: text('channel_id').notNull(),
+    content: text('content').notNull(),
+    status: text('status').notNull(),
+    userMessageId: text('user_message_id'),
+    agentResponseId: text('agent_response_id'),
+    result: jsonb('result').$type<Record<string, unknown>>(),
+    error: text('error'),
+    metadata: jsonb('metadata').$type<Metadata>(),
+    createdAt: timestamp('created_at', { mode: 'date' })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    expiresAt: timestamp('expires_at', { mode: 'date' }).notNull(),
+    // Server instance that is running the job, and until when its claim holds
+    ownerId: text('owner_id'),
+    leaseExpiresAt: timestamp('lease_expires_at', { mode: 'date' }),
+  },
+  (table) => [
+    index('idx_jobs_agent_status').on(table.agentId, table.status),
+    index('idx_jobs_user').on(table.userId),
+    index('idx_jobs_created_at').on(table.createdAt),
+  ]
+);
@@ -76,6 +76,7 @@ export const memoryTable = pgTable(
     // }).onDelete('set null'),
     index('idx_memories_metadata_type').on(sql`((metadata->>'type'))`),
     index('idx_memories_document_id').on(sql`((metadata->>'documentId'))`),
+    index('idx_memories_text_trgm').using('gin', sql`((content->>'text')) gin_trgm_ops`),
     index('idx_fragments_order').on(
       sql`((metadata->>'documentId'))`,
       sql`((metadata->>'position'))`
@@ -0,0 +1,35 @@
+import { index, integer, jsonb, pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Represents a table schema for REST messaging sessions. Sessions are central
+ * (server-level) records shared by every server replica, so ids are stored as text
+ * like the other central messaging tables.
+ */
+export const sessionTable = pgTable(
+  'messaging_sessions',
+  {
+    id: text('id').primaryKey(), // UUID stored as text
+    agentId: text('agent_id').notNull(),
+    channelId: text('channel_id').notNull(),
+    userId: text('user_id').notNull(),
+    metadata: jsonb('metadata')
+      .$type<Record<string, unknown>>()
+      .default(sql`'{}'::jsonb`)
+      .notNull(),
+    timeoutConfig: jsonb('timeout_config').$type<Record<string, unknown>>().notNull(),
+    renewalCount: integer('renewal_count').default(0).notNull(),
+    warningSentAt: timestamp('warning_sent_at', { mode: 'date' }),
+    // Incremented by every update, so concurrent updates from replicas can be detected
+    version: integer('version').default(0).notNull(),
+    createdAt: timestamp('created_at', { mode: 'date' })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    lastActivity: timestamp('last_activity', { mode: 'date' }).notNull(),
+    expiresAt: timestamp('expires_at', { mode: 'date' }).notNull(),
+  },
+  (table) => [
+    index('idx_messaging_sessions_expires_at').on(table.expiresAt),
+    index('idx_messaging_sessions_agent').on(table.agentId),
+  ]
+);
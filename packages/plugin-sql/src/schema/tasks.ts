@@ -1,6 +1,6 @@
-import { jsonb, pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core';
+import { index, integer, jsonb, pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
-import type { Metadata } from '@elizaos/core';
+import type { Metadata, TaskFailure } from '@elizaos/core';
 import { agentTable } from './agent';
 
 /**
@@ -8,22 +8,56 @@ import { agentTable } from './agent';
  *
  * @type {PgTable}
  */
-export const taskTable = pgTable('tasks', {
-  id: uuid('id').primaryKey().defaultRandom(),
-  name: text('name').notNull(),
-  description: text('description'),
-  roomId: uuid('room_id'),
-  worldId: uuid('world_id'),
-  entityId: uuid('entity_id'),
-  agentId: uuid('agent_id')
-    .notNull()
-    .references(() => agentTable.id, { onDelete: 'cascade' }),
-  tags: text('tags')
-    .array()
-    .default(sql`'{}'::text[]`),
-  metadata: jsonb('metadata')
-    .$type<Metadata>()
-    .default(sql`'{}'::jsonb`),
-  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
-  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
-});
+export const taskTable = pgTable(
+  'tasks',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    name: text('name').notNull(),
+    description: text('description'),
+    roomId: uuid('room_id'),
+    worldId: uuid('world_id'),
+    entityId: uuid('entity_id'),
+    agentId: uuid('agent_id')
+      .notNull()
+      .references(() => agentTable.id, { onDelete: 'cascade' }),
+    tags: text('tags')
+      .array()
+      .default(sql`'{}'::text[]`),
+    metadata: jsonb('metadata')
+      .$type<Metadata>()
+      .default(sql`'{}'::jsonb`),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+    status: text('status').default('pending').notNull(),
+    nextRunAt: timestamp('next_run_at', { withTimezone: true }),
+    attempts: integer('attempts').default(0).notNull(),
+    lastError: jsonb('last_error').$type<TaskFailure>(),
+    leaseOwner: text('lease_owner'),
+    leaseExpiresAt: timestamp('lease_expires_at', { withTimezone: true }),
+  },
+  (table) => [index('idx_tasks_agent_status').on(table.agentId, table.status)]
+);
+
+/**
+ * Represents a table schema for the execution history of tasks.
+ * Rows are not tied to the task row so that history survives one-shot tasks being deleted.
+ */
+export const taskExecutionTable = pgTable(
+  'task_executions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    agentId: uuid('agent_id')
+      .notNull()
+      .references(() => agentTable.id, { onDelete: 'cascade' }),
+    taskId: uuid('task_id').notNull(),
+    taskName: text('task_name').notNull(),
+    status: text('status').notNull(),
+    attempt: integer('attempt').default(1).notNull(),
+    startedAt: timestamp('started_at', { withTimezone: true }).notNull(),
+    endedAt: timestamp('ended_at', { withTimezone: true }).notNull(),
+    error: text('error'),
+  },
+  (table) => [
+    index('idx_task_executions_task_started').on(table.agentId, table.taskId, table.startedAt),
+  ]
+);
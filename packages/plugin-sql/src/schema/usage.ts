@@ -0,0 +1,41 @@
+import {
+  doublePrecision,
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { agentTable } from './agent';
+
+/**
+ * Represents the model usage ledger: one row per model call with token counts
+ * and the cost estimated from the configured price table.
+ */
+export const modelUsageTable = pgTable(
+  'model_usage',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    agentId: uuid('agent_id')
+      .notNull()
+      .references(() => agentTable.id, { onDelete: 'cascade' }),
+    runId: uuid('run_id'),
+    roomId: uuid('room_id'),
+    provider: text('provider').notNull(),
+    modelType: text('model_type').notNull(),
+    model: text('model'),
+    promptTokens: integer('prompt_tokens').default(0).notNull(),
+    completionTokens: integer('completion_tokens').default(0).notNull(),
+    totalTokens: integer('total_tokens').default(0).notNull(),
+    estimatedCost: doublePrecision('estimated_cost'),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .default(sql`now()`)
+      .notNull(),
+  },
+  (table) => [
+    index('idx_model_usage_agent_created').on(table.agentId, table.createdAt),
+    index('idx_model_usage_run').on(table.runId),
+  ]
+);
@@ -0,0 +1,58 @@
+import { boolean, index, integer, jsonb, pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Represents a table schema for outbound webhook subscriptions. The secret is kept
+ * as is since it signs every delivery. Webhooks are central (server-level) records,
+ * so ids are stored as text like the other central tables.
+ */
+export const webhookTable = pgTable(
+  'webhooks',
+  {
+    id: text('id').primaryKey(), // UUID stored as text
+    url: text('url').notNull(),
+    description: text('description'),
+    secret: text('secret').notNull(),
+    /** Runtime event types and message bus events the webhook receives */
+    events: jsonb('events').$type<string[]>().notNull(),
+    /** Agents whose events are delivered; null delivers events of all agents */
+    agentIds: jsonb('agent_ids').$type<string[]>(),
+    /** Channels whose events are delivered; null delivers events of all channels */
+    channelIds: jsonb('channel_ids').$type<string[]>(),
+    enabled: boolean('enabled').default(true).notNull(),
+    createdAt: timestamp('created_at', { mode: 'date' })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => [index('idx_webhooks_created_at').on(table.createdAt)]
+);
+
+/**
+ * Deliveries of events to webhooks, kept as the delivery log and retry queue.
+ * Deliveries that exhausted their attempts stay with the `dead_letter` status.
+ */
+export const webhookDeliveryTable = pgTable(
+  'webhook_deliveries',
+  {
+    id: text('id').primaryKey(), // UUID stored as text
+    webhookId: text('webhook_id').notNull(),
+    event: text('event').notNull(),
+    payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+    status: text('status').notNull(),
+    attempts: integer('attempts').default(0).notNull(),
+    /** When the next attempt is due; null once delivered or dead-lettered */
+    nextAttemptAt: timestamp('next_attempt_at', { mode: 'date' }),
+    responseStatus: integer('response_status'),
+    lastError: text('last_error'),
+    createdAt: timestamp('created_at', { mode: 'date' })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => [
+    index('idx_webhook_deliveries_webhook_created').on(table.webhookId, table.createdAt),
+    index('idx_webhook_deliveries_status_next').on(table.status, table.nextAttemptAt),
+  ]
+);
@@ -0,0 +1,170 @@
+import type { UUID } from '@elizaos/core';
+import { and, desc, eq, isNull, lt, or } from 'drizzle-orm';
+import { v4 } from 'uuid';
+import { apiKeyTable, apiKeyUsageTable } from '../schema/index';
+import type { DrizzleDatabase } from '../types';
+import type { Store, StoreContext } from './types';
+
+/** A key's last use is only rewritten once it is older than this */
+const LAST_USED_AT_RESOLUTION_MS = 60 * 1000;
+
+// Type definitions for persisted API keys and their audit log
+export type ApiKeyRecord = {
+  id: UUID;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  agentIds?: UUID[];
+  channelIds?: UUID[];
+  createdAt: Date;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  lastUsedAt?: Date;
+};
+
+export type ApiKeyUsageRecord = {
+  id: UUID;
+  keyId: UUID;
+  method: string;
+  path: string;
+  status: number;
+  ip?: string;
+  createdAt: Date;
+};
+
+export type ApiKeyUsageQueryParams = {
+  keyId?: UUID;
+  limit?: number;
+  offset?: number;
+};
+
+type ApiKeyRow = typeof apiKeyTable.$inferSelect;
+type ApiKeyUsageRow = typeof apiKeyUsageTable.$inferSelect;
+
+function rowToApiKey(r: ApiKeyRow): ApiKeyRecord {
+  return {
+    id: r.id as UUID,
+    name: r.name,
+    prefix: r.prefix,
+    keyHash: r.keyHash,
+    scopes: r.scopes,
+    agentIds: (r.agentIds as UUID[] | null) || undefined,
+    channelIds: (r.channelIds as UUID[] | null) || undefined,
+    createdAt: r.createdAt,
+    expiresAt: r.expiresAt || undefined,
+    revokedAt: r.revokedAt || undefined,
+    lastUsedAt: r.lastUsedAt || undefined,
+  };
+}
+
+function rowToApiKeyUsage(r: ApiKeyUsageRow): ApiKeyUsageRecord {
+  return {
+    id: r.id as UUID,
+    keyId: r.keyId as UUID,
+    method: r.method,
+    path: r.path,
+    status: r.status,
+    ip: r.ip || undefined,
+    createdAt: r.createdAt,
+  };
+}
+
+export class ApiKeyStore implements Store {
+  constructor(public readonly ctx: StoreContext) {}
+
+  private get db(): DrizzleDatabase {
+    return this.ctx.getDb();
+  }
+
+  async create(data: ApiKeyRecord): Promise<ApiKeyRecord> {
+    return this.ctx.withRetry(async () => {
+      await this.db.insert(apiKeyTable).values({
+        ...data,
+        agentIds: data.agentIds ?? null,
+        channelIds: data.channelIds ?? null,
+      });
+      return data;
+    }, 'ApiKeyStore.create');
+  }
+
+  async get(id: UUID): Promise<ApiKeyRecord | null> {
+    return this.ctx.withRetry(async () => {
+      const rows = await this.db.select().from(apiKeyTable).where(eq(apiKeyTable.id, id)).limit(1);
+      return rows.length > 0 ? rowToApiKey(rows[0]) : null;
+    }, 'ApiKeyStore.get');
+  }
+
+  async getByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    return this.ctx.withRetry(async () => {
+      const rows = await this.db
+        .select()
+        .from(apiKeyTable)
+        .where(eq(apiKeyTable.keyHash, keyHash))
+        .limit(1);
+      return rows.length > 0 ? rowToApiKey(rows[0]) : null;
+    }, 'ApiKeyStore.getByHash');
+  }
+
+  async getAll(): Promise<ApiKeyRecord[]> {
+    return this.ctx.withRetry(async () => {
+      const rows = await this.db.select().from(apiKeyTable).orderBy(desc(apiKeyTable.createdAt));
+      return rows.map(rowToApiKey);
+    }, 'ApiKeyStore.getAll');
+  }
+
+  /**
+   * Revoke a key. Revoked keys stay listed so their audit log keeps its context.
+   * @returns false when the key does not exist or was already revoked
+   */
+  async revoke(id: UUID, revokedAt: Date = new Date()): Promise<boolean> {
+    return this.ctx.withRetry(async () => {
+      const existing = await this.get(id);
+      if (!existing || existing.revokedAt) {
+        return false;
+      }
+      await this.db.update(apiKeyTable).set({ revokedAt }).where(eq(apiKeyTable.id, id));
+      return true;
+    }, 'ApiKeyStore.revoke');
+  }
+
+  /**
+   * Record a request made with a key and update the key's last use, at most once per
+   * LAST_USED_AT_RESOLUTION_MS so busy keys do not rewrite their row on every request
+   */
+  async logUsage(usage: Omit<ApiKeyUsageRecord, 'id'>): Promise<void> {
+    return this.ctx.withRetry(async () => {
+      await this.db.transaction(async (tx) => {
+        await tx.insert(apiKeyUsageTable).values({ ...usage, id: v4() });
+        await tx
+          .update(apiKeyTable)
+          .set({ lastUsedAt: usage.createdAt })
+          .where(
+            and(
+              eq(apiKeyTable.id, usage.keyId),
+              or(
+                isNull(apiKeyTable.lastUsedAt),
+                lt(
+                  apiKeyTable.lastUsedAt,
+                  new Date(usage.createdAt.getTime() - LAST_USED_AT_RESOLUTION_MS)
+                )
+              )
+            )
+          );
+      });
+    }, 'ApiKeyStore.logUsage');
+  }
+
+  async getUsage(params: ApiKeyUsageQueryParams = {}): Promise<ApiKeyUsageRecord[]> {
+    return this.ctx.withRetry(async () => {
+      const rows = await this.db
+        .select()
+        .from(apiKeyUsageTable)
+        .where(params.keyId ? eq(apiKeyUsageTable.keyId, params.keyId) : undefined)
+        .orderBy(desc(apiKeyUsageTable.createdAt))
+        .limit(params.limit ?? 100)
+        .offset(params.offset ?? 0);
+      return rows.map(rowToApiKeyUsage);
+    }, 'ApiKeyStore.getUsage');
+  }
+}
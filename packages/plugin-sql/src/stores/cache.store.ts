@@ -71,6 +71,16 @@ export class CacheStore implements Store {
     }, 'CacheStore.set');
   }
 
+  async getAll(): Promise<Array<{ key: string; value: unknown }>> {
+    return this.ctx.withRetry(async () => {
+      const result = await this.db
+        .select({ key: cacheTable.key, value: cacheTable.value })
+        .from(cacheTable)
+        .where(eq(cacheTable.agentId, this.ctx.agentId));
+      return result.map((row) => ({ key: row.key, value: row.value }));
+    }, 'CacheStore.getAll');
+  }
+
   async delete(key: string): Promise<boolean> {
     return this.ctx.withRetry(async () => {
       try {
@@ -11,3 +11,8 @@ export * from './world.store';
 export * from './task.store';
 export * from './log.store';
 export * from './messaging.store';
+export * from './job.store';
+export * from './session.store';
+export * from './usage.store';
+export * from './api-key.store';
+export * from './webhook.store';
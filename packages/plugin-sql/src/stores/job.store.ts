@@ -0,0 +1,224 @@
+import type { Metadata, UUID } from '@elizaos/core';
+import { and, count, desc, eq, gte, inArray, isNull, lt, lte, or, type SQL } from 'drizzle-orm';
+import { jobTable } from '../schema/index';
+import type { DrizzleDatabase } from '../types';
+import type { Store, StoreContext } from './types';
+
+// Type definitions for persisted jobs
+export type JobRecord = {
+  id: string;
+  agentId: UUID;
+  userId: UUID;
+  channelId: UUID;
+  content: string;
+  status: string;
+  userMessageId?: UUID;
+  agentResponseId?: UUID;
+  result?: Record<string, unknown>;
+  error?: string;
+  metadata?: Metadata;
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+  /** Server instance currently running the job */
+  ownerId?: string;
+  /** The owner must renew its lease before this time or other servers may take the job over */
+  leaseExpiresAt?: Date;
+};
+
+export type JobQueryParams = {
+  agentId?: UUID;
+  /** Only jobs sent to one of these agents */
+  agentIds?: UUID[];
+  /** Only jobs in one of these channels */
+  channelIds?: UUID[];
+  userId?: UUID;
+  status?: string | string[];
+  /** Only jobs created at or after this time */
+  from?: Date;
+  /** Only jobs created at or before this time */
+  to?: Date;
+  limit?: number;
+  offset?: number;
+};
+
+export type JobUpdate = Partial<
+  Pick<JobRecord, 'status' | 'userMessageId' | 'agentResponseId' | 'result' | 'error' | 'metadata'>
+>;
+
+type JobRow = typeof jobTable.$inferSelect;
+
+function rowToJob(r: JobRow): JobRecord {
+  return {
+    id: r.id,
+    agentId: r.agentId as UUID,
+    userId: r.userId as UUID,
+    channelId: r.channelId as UUID,
+    content: r.content,
+    status: r.status,
+    userMessageId: (r.userMessageId as UUID | null) || undefined,
+    agentResponseId: (r.agentResponseId as UUID | null) || undefined,
+    result: r.result || undefined,
+    error: r.error || undefined,
+    metadata: r.metadata || undefined,
+    createdAt: r.createdAt,
+    updatedAt: r.updatedAt,
+    expiresAt: r.expiresAt,
+    ownerId: r.ownerId || undefined,
+    leaseExpiresAt: r.leaseExpiresAt || undefined,
+  };
+}
+
+export class JobStore implements Store {
+  constructor(public readonly ctx: StoreContext) {}
+
+  private get db(): DrizzleDatabase {
+    return this.ctx.getDb();
+  }
+
+  private buildConditions(params: JobQueryParams): SQL<unknown>[] {
+    const conditions: SQL<unknown>[] = [];
+    if (params.agentId) {
+      conditions.push(eq(jobTable.agentId, params.agentId));
+    }
+    if (params.agentIds) {
+      conditions.push(inArray(jobTable.agentId, params.agentIds));
+    }
+    if (params.channelIds) {
+      conditions.push(inArray(jobTable.channelId, params.channelIds));
+    }
+    if (params.userId) {
+      conditions.push(eq(jobTable.userId, params.userId));
+    }
+    if (Array.isArray(params.status)) {
+      if (params.status.length > 0) {
+        conditions.push(inArray(jobTable.status, params.status));
+      }
+    } else if (params.status) {
+      conditions.push(eq(jobTable.status, params.status));
+    }
+    if (params.from) {
+      conditions.push(gte(jobTable.createdAt, params.from));
+    }
+    if (params.to) {
+      conditions.push(lte(jobTable.createdAt, params.to));
+    }
+    return conditions;
+  }
+
+  async create(data: Omit<JobRecord, 'updatedAt'>): Promise<JobRecord> {
+    return this.ctx.withRetry(async () => {
+      const jobToInsert = {
+        ...data,
+        updatedAt: new Date(),
+      };
+
+      await this.db.insert(jobTable).values(jobToInsert);
+      return jobToInsert;
+    }, 'JobStore.create');
+  }
+
+  async get(id: string): Promise<JobRecord | null> {
+    return this.ctx.withRetry(async () => {
+      const rows = await this.db.select().from(jobTable).where(eq(jobTable.id, id)).limit(1);
+      if (!rows || rows.length === 0) {
+        return null;
+      }
+      return rowToJob(rows[0]);
+    }, 'JobStore.get');
+  }
+
+  async update(id: string, patch: JobUpdate): Promise<void> {
+    return this.ctx.withRetry(async () => {
+      await this.db
+        .update(jobTable)
+        .set({ ...patch, updatedAt: new Date() })
+        .where(eq(jobTable.id, id));
+    }, 'JobStore.update');
+  }
+
+  /**
+   * Take ownership of a job if it is unowned, already owned by the given server
+   * or its owner's lease has expired.
+   * @returns Whether the job is now owned by the given server
+   */
+  async claim(id: string, ownerId: string, leaseExpiresAt: Date): Promise<boolean> {
+    return this.ctx.withRetry(async () => {
+      const claimed = await this.db
+        .update(jobTable)
+        .set({ ownerId, leaseExpiresAt, updatedAt: new Date() })
+        .where(
+          and(
+            eq(jobTable.id, id),
+            or(
+              isNull(jobTable.ownerId),
+              eq(jobTable.ownerId, ownerId),
+              isNull(jobTable.leaseExpiresAt),
+              lte(jobTable.leaseExpiresAt, new Date())
+            )
+          )
+        )
+        .returning();
+
+      return claimed.length > 0;
+    }, 'JobStore.claim');
+  }
+
+  /**
+   * Extend the lease of every job in the given statuses owned by the given server.
+   * @returns The number of renewed jobs
+   */
+  async renewLeases(ownerId: string, statuses: string[], leaseExpiresAt: Date): Promise<number> {
+    return this.ctx.withRetry(async () => {
+      const renewed = await this.db
+        .update(jobTable)
+        .set({ leaseExpiresAt })
+        .where(and(eq(jobTable.ownerId, ownerId), inArray(jobTable.status, statuses)))
+        .returning();
+
+      return renewed.length;
+    }, 'JobStore.renewLeases');
+  }
+
+  async getAll(params: JobQueryParams = {}): Promise<JobRecord[]> {
+    return this.ctx.withRetry(async () => {
+      const conditions = this.buildConditions(params);
+      const rows = await this.db
+        .select()
+        .from(jobTable)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(jobTable.createdAt))
+        .limit(params.limit ?? 50)
+        .offset(params.offset ?? 0);
+
+      return rows.map(rowToJob);
+    }, 'JobStore.getAll');
+  }
+
+  async count(params: JobQueryParams = {}): Promise<number> {
+    return this.ctx.withRetry(async () => {
+      const conditions = this.buildConditions(params);
+      const result = await this.db
+        .select({ count: count() })
+        .from(jobTable)
+        .where(conditions.length > 0 ? and(...conditions) : undefined);
+
+      return Number(result[0]?.count ?? 0);
+    }, 'JobStore.count');
+  }
+
+  /**
+   * Delete jobs in the given statuses whose expiry is older than the cutoff.
+   * @returns The number of deleted jobs
+   */
+  async deleteExpired(statuses: string[], before: Date): Promise<number> {
+    return this.ctx.withRetry(async () => {
+      const deleted = await this.db
+        .delete(jobTable)
+        .where(and(inArray(jobTable.status, statuses), lt(jobTable.expiresAt, before)))
+        .returning();
+
+      return deleted.length;
+    }, 'JobStore.deleteExpired');
+  }
+}
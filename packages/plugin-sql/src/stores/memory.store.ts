@@ -1,10 +1,16 @@
 import { logger, type Memory, type MemoryMetadata, type UUID } from '@elizaos/core';
-import { and, cosineDistance, desc, eq, gte, inArray, lte, sql } from 'drizzle-orm';
+import { and, cosineDistance, desc, eq, gte, inArray, lte, or, sql, type SQL } from 'drizzle-orm';
 import { v4 } from 'uuid';
 import { embeddingTable, memoryTable } from '../schema/index';
 import type { DrizzleDatabase } from '../types';
 import type { Store, StoreContext } from './types';
 
+/** Shortest term the trigram index on memory text can serve */
+const MIN_TEXT_SEARCH_TERM_LENGTH = 3;
+
+/** Most text matches ranked by one text search, newest first */
+const TEXT_SEARCH_SCAN_LIMIT = 1000;
+
 export class MemoryStore implements Store {
   constructor(public readonly ctx: StoreContext) {}
 
@@ -51,6 +57,7 @@ export class MemoryStore implements Store {
             entityId: memoryTable.entityId,
             agentId: memoryTable.agentId,
             roomId: memoryTable.roomId,
+            worldId: memoryTable.worldId,
             unique: memoryTable.unique,
             metadata: memoryTable.metadata,
           },
@@ -83,6 +90,7 @@ export class MemoryStore implements Store {
         entityId: row.memory.entityId as UUID,
         agentId: row.memory.agentId as UUID,
         roomId: row.memory.roomId as UUID,
+        worldId: row.memory.worldId as UUID | undefined,
         unique: row.memory.unique,
         metadata: row.memory.metadata as MemoryMetadata,
         embedding: row.embedding ? Array.from(row.embedding) : undefined,
@@ -221,6 +229,7 @@ export class MemoryStore implements Store {
       entityId?: UUID;
       unique?: boolean;
       tableName: string;
+      includeShared?: boolean;
     }
   ): Promise<Memory[]> {
     return this.ctx.withRetry(async () => {
@@ -233,7 +242,7 @@ export class MemoryStore implements Store {
 
       const conditions = [
         eq(memoryTable.type, params.tableName),
-        eq(memoryTable.agentId, this.ctx.agentId),
+        this.getSearchOwnerCondition(params.includeShared),
       ];
 
       if (params.unique) conditions.push(eq(memoryTable.unique, true));
@@ -274,6 +283,90 @@ export class MemoryStore implements Store {
     }, 'MemoryStore.searchByEmbedding');
   }
 
+  /**
+   * Finds memories whose text contains any of the given terms, most matched terms
+   * first. Used as the lexical candidate set for hybrid search.
+   *
+   * Terms shorter than a trigram are skipped, as the trigram index on the text cannot
+   * serve them, and only the newest matches are ranked to bound the work on large tables.
+   */
+  async searchByText(
+    terms: string[],
+    embedding: number[],
+    params: {
+      count: number;
+      roomId?: UUID;
+      worldId?: UUID;
+      entityId?: UUID;
+      unique?: boolean;
+      tableName: string;
+      includeShared?: boolean;
+    }
+  ): Promise<Memory[]> {
+    const indexedTerms = terms.filter((term) => term.length >= MIN_TEXT_SEARCH_TERM_LENGTH);
+    if (indexedTerms.length === 0) {
+      return [];
+    }
+
+    return this.ctx.withRetry(async () => {
+      const cleanVector = embedding.map((n) => (Number.isFinite(n) ? Number(n.toFixed(6)) : 0));
+      const embeddingColumn = embeddingTable[this.ctx.getEmbeddingDimension()];
+      const similarity = sql<number | null>`1 - (${cosineDistance(embeddingColumn, cleanVector)})`;
+
+      const text = sql`${memoryTable.content}->>'text'`;
+      // Escape LIKE wildcards so identifiers are matched literally
+      const patterns = indexedTerms.map((term) => `%${term.replace(/[\\%_]/g, '\\$&')}%`);
+      const matchedTerms = sql<number>`(${sql.join(
+        patterns.map((pattern) => sql`(${text} ilike ${pattern})::int`),
+        sql` + `
+      )})`;
+
+      const conditions = [
+        eq(memoryTable.type, params.tableName),
+        this.getSearchOwnerCondition(params.includeShared),
+        or(...patterns.map((pattern) => sql`${text} ilike ${pattern}`)) as SQL,
+      ];
+      if (params.unique) conditions.push(eq(memoryTable.unique, true));
+      if (params.roomId) conditions.push(eq(memoryTable.roomId, params.roomId));
+      if (params.worldId) conditions.push(eq(memoryTable.worldId, params.worldId));
+      if (params.entityId) conditions.push(eq(memoryTable.entityId, params.entityId));
+
+      const matches = this.db
+        .select({ id: memoryTable.id })
+        .from(memoryTable)
+        .where(and(...conditions))
+        .orderBy(desc(memoryTable.createdAt))
+        .limit(Math.max(params.count, TEXT_SEARCH_SCAN_LIMIT))
+        .as('matches');
+
+      const results = await this.db
+        .select({ memory: memoryTable, similarity, embedding: embeddingColumn })
+        .from(memoryTable)
+        .innerJoin(matches, eq(memoryTable.id, matches.id))
+        .leftJoin(embeddingTable, eq(memoryTable.id, embeddingTable.memoryId))
+        .orderBy(desc(matchedTerms), desc(memoryTable.createdAt))
+        .limit(params.count);
+
+      return results.map((row) => ({
+        id: row.memory.id as UUID,
+        type: row.memory.type,
+        createdAt: row.memory.createdAt.getTime(),
+        content:
+          typeof row.memory.content === 'string'
+            ? JSON.parse(row.memory.content)
+            : row.memory.content,
+        entityId: row.memory.entityId as UUID,
+        agentId: row.memory.agentId as UUID,
+        roomId: row.memory.roomId as UUID,
+        worldId: row.memory.worldId as UUID | undefined,
+        unique: row.memory.unique,
+        metadata: row.memory.metadata as MemoryMetadata,
+        embedding: row.embedding ?? undefined,
+        similarity: row.similarity ?? undefined,
+      }));
+    }, 'MemoryStore.searchByText');
+  }
+
   async create(memory: Memory & { metadata?: MemoryMetadata }, tableName: string): Promise<UUID> {
     const memoryId = memory.id ?? (v4() as UUID);
 
@@ -434,12 +527,15 @@ export class MemoryStore implements Store {
     }, 'MemoryStore.deleteAllByRoom');
   }
 
-  async count(roomId: UUID, unique = true, tableName = ''): Promise<number> {
+  async count(roomId: UUID, unique = true, tableName = '', start?: number): Promise<number> {
     if (!tableName) throw new Error('tableName is required');
 
     return this.ctx.withRetry(async () => {
       const conditions = [eq(memoryTable.roomId, roomId), eq(memoryTable.type, tableName)];
       if (unique) conditions.push(eq(memoryTable.unique, true));
+      if (start) {
+        conditions.push(gte(memoryTable.createdAt, new Date(start)));
+      }
 
       const result = await this.db
         .select({ count: sql<number>`count(*)` })
@@ -450,6 +546,17 @@ export class MemoryStore implements Store {
     }, 'MemoryStore.count');
   }
 
+  async getTableNames(roomId: UUID): Promise<string[]> {
+    return this.ctx.withRetry(async () => {
+      const rows = await this.db
+        .selectDistinct({ type: memoryTable.type })
+        .from(memoryTable)
+        .where(eq(memoryTable.roomId, roomId));
+
+      return rows.map((row) => row.type);
+    }, 'MemoryStore.getTableNames');
+  }
+
   private async upsertEmbedding(
     tx: DrizzleDatabase,
     memoryId: UUID,
@@ -477,6 +584,17 @@ export class MemoryStore implements Store {
     }
   }
 
+  /**
+   * Searches match the agent's memories and, with `includeShared`, the memories other
+   * agents stored with the shared scope
+   */
+  private getSearchOwnerCondition(includeShared?: boolean): SQL {
+    const own = eq(memoryTable.agentId, this.ctx.agentId);
+    return includeShared
+      ? (or(own, sql`${memoryTable.metadata}->>'scope' = 'shared'`) as SQL)
+      : own;
+  }
+
   private async deleteFragments(tx: DrizzleDatabase, documentId: UUID): Promise<void> {
     const fragments = await tx
       .select({ id: memoryTable.id })
@@ -0,0 +1,187 @@
+import type { UUID } from '@elizaos/core';
+import { and, asc, count, eq, gt, inArray, isNull, lte, sql, type SQL } from 'drizzle-orm';
+import { sessionTable } from '../schema/index';
+import type { DrizzleDatabase } from '../types';
+import type { Store, StoreContext } from './types';
+
+// Type definitions for persisted messaging sessions
+export type SessionRecord = {
+  id: string;
+  agentId: UUID;
+  channelId: UUID;
+  userId: UUID;
+  metadata: Record<string, unknown>;
+  timeoutConfig: Record<string, unknown>;
+  renewalCount: number;
+  /** When the expiration warning was sent, undefined when not yet sent */
+  warningSentAt?: Date;
+  /** Incremented by every update */
+  version: number;
+  createdAt: Date;
+  lastActivity: Date;
+  expiresAt: Date;
+};
+
+export type SessionQueryParams = {
+  agentId?: UUID;
+  /** Only sessions with one of these agents */
+  agentIds?: UUID[];
+  /** Only sessions in one of these channels */
+  channelIds?: UUID[];
+  /** Only sessions expiring after this time */
+  activeAt?: Date;
+  /** Only sessions whose expiration warning has not been sent */
+  unwarned?: boolean;
+};
+
+export type SessionUpdate = Partial<
+  Pick<
+    SessionRecord,
+    'metadata' | 'timeoutConfig' | 'renewalCount' | 'warningSentAt' | 'lastActivity' | 'expiresAt'
+  >
+>;
+
+type SessionRow = typeof sessionTable.$inferSelect;
+
+function rowToSession(r: SessionRow): SessionRecord {
+  return {
+    id: r.id,
+    agentId: r.agentId as UUID,
+    channelId: r.channelId as UUID,
+    userId: r.userId as UUID,
+    metadata: r.metadata,
+    timeoutConfig: r.timeoutConfig,
+    renewalCount: r.renewalCount,
+    warningSentAt: r.warningSentAt || undefined,
+    version: r.version,
+    createdAt: r.createdAt,
+    lastActivity: r.lastActivity,
+    expiresAt: r.expiresAt,
+  };
+}
+
+export class SessionStore implements Store {
+  constructor(public readonly ctx: StoreContext) {}
+
+  private get db(): DrizzleDatabase {
+    return this.ctx.getDb();
+  }
+
+  private buildConditions(params: SessionQueryParams): SQL<unknown>[] {
+    const conditions: SQL<unknown>[] = [];
+    if (params.agentId) {
+      conditions.push(eq(sessionTable.agentId, params.agentId));
+    }
+    if (params.agentIds) {
+      conditions.push(inArray(sessionTable.agentId, params.agentIds));
+    }
+    if (params.channelIds) {
+      conditions.push(inArray(sessionTable.channelId, params.channelIds));
+    }
+    if (params.activeAt) {
+      conditions.push(gt(sessionTable.expiresAt, params.activeAt));
+    }
+    if (params.unwarned) {
+      conditions.push(isNull(sessionTable.warningSentAt));
+    }
+    return conditions;
+  }
+
+  async create(data: SessionRecord): Promise<SessionRecord> {
+    return this.ctx.withRetry(async () => {
+      await this.db.insert(sessionTable).values(data);
+      return data;
+    }, 'SessionStore.create');
+  }
+
+  async get(id: string): Promise<SessionRecord | null> {
+    return this.ctx.withRetry(async () => {
+      const rows = await this.db
+        .select()
+        .from(sessionTable)
+        .where(eq(sessionTable.id, id))
+        .limit(1);
+      if (!rows || rows.length === 0) {
+        return null;
+      }
+      return rowToSession(rows[0]);
+    }, 'SessionStore.get');
+  }
+
+  /**
+   * Update a session. `warningSentAt: undefined` clears the warning. With an expected
+   * version, the session is only updated if no other update happened since it was read.
+   * @returns Whether the session was updated, false when it does not exist or its
+   * version differs
+   */
+  async update(id: string, patch: SessionUpdate, expectedVersion?: number): Promise<boolean> {
+    return this.ctx.withRetry(async () => {
+      const conditions = [eq(sessionTable.id, id)];
+      if (expectedVersion !== undefined) {
+        conditions.push(eq(sessionTable.version, expectedVersion));
+      }
+      const updated = await this.db
+        .update(sessionTable)
+        .set({
+          ...patch,
+          ...('warningSentAt' in patch && { warningSentAt: patch.warningSentAt ?? null }),
+          version: sql`${sessionTable.version} + 1`,
+        })
+        .where(and(...conditions))
+        .returning();
+
+      return updated.length > 0;
+    }, 'SessionStore.update');
+  }
+
+  /**
+   * @returns Whether the session existed
+   */
+  async delete(id: string): Promise<boolean> {
+    return this.ctx.withRetry(async () => {
+      const deleted = await this.db.delete(sessionTable).where(eq(sessionTable.id, id)).returning();
+
+      return deleted.length > 0;
+    }, 'SessionStore.delete');
+  }
+
+  async getAll(params: SessionQueryParams = {}): Promise<SessionRecord[]> {
+    return this.ctx.withRetry(async () => {
+      const conditions = this.buildConditions(params);
+      const rows = await this.db
+        .select()
+        .from(sessionTable)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(asc(sessionTable.createdAt));
+
+      return rows.map(rowToSession);
+    }, 'SessionStore.getAll');
+  }
+
+  async count(params: SessionQueryParams = {}): Promise<number> {
+    return this.ctx.withRetry(async () => {
+      const conditions = this.buildConditions(params);
+      const result = await this.db
+        .select({ count: count() })
+        .from(sessionTable)
+        .where(conditions.length > 0 ? and(...conditions) : undefined);
+
+      return Number(result[0]?.count ?? 0);
+    }, 'SessionStore.count');
+  }
+
+  /**
+   * Delete sessions that expired at or before the cutoff.
+   * @returns The number of deleted sessions
+   */
+  async deleteExpired(before: Date): Promise<number> {
+    return this.ctx.withRetry(async () => {
+      const deleted = await this.db
+        .delete(sessionTable)
+        .where(lte(sessionTable.expiresAt, before))
+        .returning();
+
+      return deleted.length;
+    }, 'SessionStore.deleteExpired');
+  }
+}
@@ -1,9 +1,45 @@
-import { type Task, TaskMetadata, type UUID } from '@elizaos/core';
-import { and, eq, sql } from 'drizzle-orm';
-import { taskTable } from '../schema/index';
+import {
+  type Task,
+  type TaskExecution,
+  type TaskExecutionStatus,
+  TaskMetadata,
+  type TaskStatus,
+  type UUID,
+} from '@elizaos/core';
+import { and, desc, eq, isNull, lt, lte, notInArray, or, sql, type SQL } from 'drizzle-orm';
+import { taskExecutionTable, taskTable } from '../schema/index';
 import type { DrizzleDatabase } from '../types';
 import type { Store, StoreContext } from './types';
 
+type TaskRow = typeof taskTable.$inferSelect;
+
+/**
+ * A task whose runtime died mid-execution keeps its `running` status, so once the lease
+ * has expired the task is reported as pending again.
+ */
+function rowToTask(row: TaskRow): Task {
+  const leaseExpired = !row.leaseExpiresAt || row.leaseExpiresAt.getTime() <= Date.now();
+  return {
+    id: row.id as UUID,
+    name: row.name,
+    description: row.description ?? '',
+    roomId: row.roomId as UUID,
+    worldId: row.worldId as UUID,
+    tags: row.tags || [],
+    metadata: (row.metadata || {}) as TaskMetadata,
+    status: (row.status === 'running' && leaseExpired ? 'pending' : row.status) as TaskStatus,
+    nextRunAt: row.nextRunAt ? row.nextRunAt.getTime() : null,
+    attempts: row.attempts,
+    lastError: row.lastError ?? null,
+    leaseOwner: row.leaseOwner,
+    leaseExpiresAt: row.leaseExpiresAt ? row.leaseExpiresAt.getTime() : null,
+  };
+}
+
+function toDate(value: number | null | undefined): Date | null {
+  return value === null || value === undefined ? null : new Date(value);
+}
+
 export class TaskStore implements Store {
   constructor(public readonly ctx: StoreContext) {}
 
@@ -29,6 +65,10 @@ export class TaskStore implements Store {
         createdAt: now,
         updatedAt: now,
         agentId: this.ctx.agentId as UUID,
+        status: task.status ?? 'pending',
+        nextRunAt: toDate(task.nextRunAt),
+        attempts: task.attempts ?? 0,
+        lastError: task.lastError ?? null,
       };
 
       const result = await this.db.insert(taskTable).values(values).returning();
@@ -56,15 +96,7 @@ export class TaskStore implements Store {
           )
         );
 
-      return result.map((row) => ({
-        id: row.id as UUID,
-        name: row.name,
-        description: row.description ?? '',
-        roomId: row.roomId as UUID,
-        worldId: row.worldId as UUID,
-        tags: row.tags || [],
-        metadata: row.metadata as TaskMetadata,
-      }));
+      return result.map(rowToTask);
     }, 'TaskStore.getAll');
   }
 
@@ -75,15 +107,7 @@ export class TaskStore implements Store {
         .from(taskTable)
         .where(and(eq(taskTable.name, name), eq(taskTable.agentId, this.ctx.agentId)));
 
-      return result.map((row) => ({
-        id: row.id as UUID,
-        name: row.name,
-        description: row.description ?? '',
-        roomId: row.roomId as UUID,
-        worldId: row.worldId as UUID,
-        tags: row.tags || [],
-        metadata: (row.metadata || {}) as TaskMetadata,
-      }));
+      return result.map(rowToTask);
     }, 'TaskStore.getByName');
   }
 
@@ -97,28 +121,36 @@ export class TaskStore implements Store {
 
       if (result.length === 0) return null;
 
-      const row = result[0];
-      return {
-        id: row.id as UUID,
-        name: row.name,
-        description: row.description ?? '',
-        roomId: row.roomId as UUID,
-        worldId: row.worldId as UUID,
-        tags: row.tags || [],
-        metadata: (row.metadata || {}) as TaskMetadata,
-      };
+      return rowToTask(result[0]);
     }, 'TaskStore.get');
   }
 
   async update(id: UUID, task: Partial<Task>): Promise<void> {
     return this.ctx.withRetry(async () => {
-      const updateValues: Partial<Task> = {};
+      const updateValues: Partial<
+        Pick<
+          Task,
+          | 'name'
+          | 'description'
+          | 'roomId'
+          | 'worldId'
+          | 'tags'
+          | 'status'
+          | 'attempts'
+          | 'lastError'
+          | 'leaseOwner'
+        >
+      > = {};
 
       if (task.name !== undefined) updateValues.name = task.name;
       if (task.description !== undefined) updateValues.description = task.description;
       if (task.roomId !== undefined) updateValues.roomId = task.roomId;
       if (task.worldId !== undefined) updateValues.worldId = task.worldId;
       if (task.tags !== undefined) updateValues.tags = task.tags;
+      if (task.status !== undefined) updateValues.status = task.status;
+      if (task.attempts !== undefined) updateValues.attempts = task.attempts;
+      if (task.lastError !== undefined) updateValues.lastError = task.lastError;
+      if (task.leaseOwner !== undefined) updateValues.leaseOwner = task.leaseOwner;
 
       interface TaskUpdateValues extends Partial<typeof taskTable.$inferInsert> {
         updatedAt?: Date;
@@ -131,6 +163,12 @@ export class TaskStore implements Store {
       if (task.metadata !== undefined) {
         dbUpdateValues.metadata = task.metadata;
       }
+      if (task.nextRunAt !== undefined) {
+        dbUpdateValues.nextRunAt = toDate(task.nextRunAt);
+      }
+      if (task.leaseExpiresAt !== undefined) {
+        dbUpdateValues.leaseExpiresAt = toDate(task.leaseExpiresAt);
+      }
 
       await this.db
         .update(taskTable)
@@ -146,4 +184,112 @@ export class TaskStore implements Store {
         .where(and(eq(taskTable.id, id), eq(taskTable.agentId, this.ctx.agentId)));
     }, 'TaskStore.delete');
   }
+
+  /**
+   * Take the execution lease on a task if it is free, expired or already ours.
+   * Paused and dead-lettered tasks cannot be claimed, and a free lease is only taken while
+   * the task is due, so a runtime acting on a stale read cannot rerun a task another
+   * runtime has just completed and rescheduled. Repeating tasks are only due once
+   * scheduled: they are rescheduled after every run, so an unscheduled one is not due.
+   * The check and the update happen in a single statement so concurrent claims cannot both win.
+   */
+  async claim(id: UUID, owner: string, leaseMs: number): Promise<Task | null> {
+    return this.ctx.withRetry(async () => {
+      const now = new Date();
+      const result = await this.db
+        .update(taskTable)
+        .set({
+          status: 'running',
+          leaseOwner: owner,
+          leaseExpiresAt: new Date(now.getTime() + leaseMs),
+        })
+        .where(
+          and(
+            eq(taskTable.id, id),
+            eq(taskTable.agentId, this.ctx.agentId),
+            notInArray(taskTable.status, ['paused', 'dead_letter']),
+            or(
+              eq(taskTable.leaseOwner, owner),
+              and(
+                or(isNull(taskTable.leaseExpiresAt), lt(taskTable.leaseExpiresAt, now)),
+                or(
+                  lte(taskTable.nextRunAt, now),
+                  and(
+                    isNull(taskTable.nextRunAt),
+                    sql`NOT coalesce(${taskTable.tags} @> ARRAY['repeat']::text[], false)`
+                  )
+                )
+              )
+            )
+          )
+        )
+        .returning();
+
+      return result.length > 0 ? rowToTask(result[0]) : null;
+    }, 'TaskStore.claim');
+  }
+
+  async createExecution(execution: TaskExecution): Promise<void> {
+    return this.ctx.withRetry(async () => {
+      await this.db.insert(taskExecutionTable).values({
+        ...(execution.id ? { id: execution.id } : {}),
+        agentId: this.ctx.agentId,
+        taskId: execution.taskId,
+        taskName: execution.taskName,
+        status: execution.status,
+        attempt: execution.attempt,
+        startedAt: new Date(execution.startedAt),
+        endedAt: new Date(execution.endedAt),
+        error: execution.error ?? null,
+      });
+    }, 'TaskStore.createExecution');
+  }
+
+  async getExecutions(
+    params: { taskId?: UUID; limit?: number; offset?: number } = {}
+  ): Promise<TaskExecution[]> {
+    return this.ctx.withRetry(async () => {
+      const rows = await this.db
+        .select()
+        .from(taskExecutionTable)
+        .where(
+          and(
+            eq(taskExecutionTable.agentId, this.ctx.agentId),
+            ...(params.taskId ? [eq(taskExecutionTable.taskId, params.taskId)] : [])
+          )
+        )
+        .orderBy(desc(taskExecutionTable.startedAt))
+        .limit(params.limit ?? 50)
+        .offset(params.offset ?? 0);
+
+      return rows.map((row) => ({
+        id: row.id as UUID,
+        taskId: row.taskId as UUID,
+        taskName: row.taskName,
+        status: row.status as TaskExecutionStatus,
+        attempt: row.attempt,
+        startedAt: row.startedAt.getTime(),
+        endedAt: row.endedAt.getTime(),
+        error: row.error ?? undefined,
+      }));
+    }, 'TaskStore.getExecutions');
+  }
+
+  async deleteExecutions(params: { taskId?: UUID; before?: number } = {}): Promise<number> {
+    return this.ctx.withRetry(async () => {
+      const conditions: SQL<unknown>[] = [eq(taskExecutionTable.agentId, this.ctx.agentId)];
+      if (params.taskId) {
+        conditions.push(eq(taskExecutionTable.taskId, params.taskId));
+      }
+      if (params.before !== undefined) {
+        conditions.push(lt(taskExecutionTable.startedAt, new Date(params.before)));
+      }
+      const deleted = await this.db
+        .delete(taskExecutionTable)
+        .where(and(...conditions))
+        .returning();
+
+      return deleted.length;
+    }, 'TaskStore.deleteExecutions');
+  }
 }
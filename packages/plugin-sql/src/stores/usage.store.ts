@@ -0,0 +1,126 @@
+import type { ModelUsageGroupBy, ModelUsageRecord, ModelUsageRollup, UUID } from '@elizaos/core';
+import { and, asc, desc, eq, gte, isNotNull, lte, sql, type SQL } from 'drizzle-orm';
+import { modelUsageTable } from '../schema/index';
+import type { DrizzleDatabase } from '../types';
+import type { Store, StoreContext } from './types';
+
+type UsageFilter = { runId?: UUID; from?: number; to?: number };
+
+const GROUP_KEYS: Record<ModelUsageGroupBy, SQL<string>> = {
+  agent: sql<string>`${modelUsageTable.agentId}::text`,
+  run: sql<string>`${modelUsageTable.runId}::text`,
+  day: sql<string>`to_char(${modelUsageTable.createdAt} at time zone 'UTC', 'YYYY-MM-DD')`,
+  provider: sql<string>`${modelUsageTable.provider}`,
+  model: sql<string>`coalesce(${modelUsageTable.model}, ${modelUsageTable.modelType})`,
+  modelType: sql<string>`${modelUsageTable.modelType}`,
+};
+
+export class UsageStore implements Store {
+  constructor(public readonly ctx: StoreContext) {}
+
+  private get db(): DrizzleDatabase {
+    return this.ctx.getDb();
+  }
+
+  private conditions(params: UsageFilter): SQL[] {
+    const conditions: SQL[] = [eq(modelUsageTable.agentId, this.ctx.agentId)];
+    if (params.runId) {
+      conditions.push(eq(modelUsageTable.runId, params.runId));
+    }
+    if (params.from !== undefined) {
+      conditions.push(gte(modelUsageTable.createdAt, new Date(params.from)));
+    }
+    if (params.to !== undefined) {
+      conditions.push(lte(modelUsageTable.createdAt, new Date(params.to)));
+    }
+    return conditions;
+  }
+
+  async create(record: ModelUsageRecord): Promise<void> {
+    return this.ctx.withRetry(async () => {
+      await this.db.insert(modelUsageTable).values({
+        ...(record.id ? { id: record.id } : {}),
+        agentId: this.ctx.agentId,
+        runId: record.runId ?? null,
+        roomId: record.roomId ?? null,
+        provider: record.provider,
+        modelType: record.modelType,
+        model: record.model ?? null,
+        promptTokens: record.promptTokens,
+        completionTokens: record.completionTokens,
+        totalTokens: record.totalTokens,
+        estimatedCost: record.estimatedCost,
+        createdAt: new Date(record.createdAt),
+      });
+    }, 'UsageStore.create');
+  }
+
+  async getMany(
+    params: UsageFilter & { limit?: number; offset?: number } = {}
+  ): Promise<ModelUsageRecord[]> {
+    return this.ctx.withRetry(async () => {
+      const rows = await this.db
+        .select()
+        .from(modelUsageTable)
+        .where(and(...this.conditions(params)))
+        .orderBy(desc(modelUsageTable.createdAt))
+        .limit(params.limit ?? 100)
+        .offset(params.offset ?? 0);
+
+      return rows.map((row) => ({
+        id: row.id as UUID,
+        runId: (row.runId as UUID) ?? undefined,
+        roomId: (row.roomId as UUID) ?? undefined,
+        provider: row.provider,
+        modelType: row.modelType,
+        model: row.model ?? undefined,
+        promptTokens: row.promptTokens,
+        completionTokens: row.completionTokens,
+        totalTokens: row.totalTokens,
+        estimatedCost: row.estimatedCost,
+        createdAt: row.createdAt.getTime(),
+      }));
+    }, 'UsageStore.getMany');
+  }
+
+  async getRollup(
+    params: UsageFilter & { groupBy: ModelUsageGroupBy; limit?: number }
+  ): Promise<ModelUsageRollup[]> {
+    return this.ctx.withRetry(async () => {
+      const key = GROUP_KEYS[params.groupBy];
+      const conditions = this.conditions(params);
+      if (params.groupBy === 'run') {
+        // Model calls made outside a run are only counted in the other rollups
+        conditions.push(isNotNull(modelUsageTable.runId));
+      }
+
+      const totalTokens = sql`coalesce(sum(${modelUsageTable.totalTokens}), 0)`;
+      const query = this.db
+        .select({
+          key,
+          calls: sql<string>`count(*)`,
+          promptTokens: sql<string>`coalesce(sum(${modelUsageTable.promptTokens}), 0)`,
+          completionTokens: sql<string>`coalesce(sum(${modelUsageTable.completionTokens}), 0)`,
+          totalTokens: sql<string>`${totalTokens}`,
+          estimatedCost: sql<string>`coalesce(sum(${modelUsageTable.estimatedCost}), 0)`,
+        })
+        .from(modelUsageTable)
+        .where(and(...conditions))
+        .groupBy(key)
+        // Days read chronologically; everything else by heaviest usage first
+        .orderBy(params.groupBy === 'day' ? asc(key) : desc(totalTokens));
+
+      const rows = params.limit ? await query.limit(params.limit) : await query;
+
+      // Aggregates come back as strings for bigint and numeric results
+      return rows.map((row) => ({
+        key: row.key,
+        calls: Number(row.calls),
+        promptTokens: Number(row.promptTokens),
+        completionTokens: Number(row.completionTokens),
+        totalTokens: Number(row.totalTokens),
+        estimatedCost: Number(row.estimatedCost),
+      }));
+    }, 'UsageStore.getRollup');
+  }
+}
@@ -0,0 +1,276 @@
+import type { UUID } from '@elizaos/core';
+import { and, asc, desc, eq, inArray, lt, lte, ne, type SQL } from 'drizzle-orm';
+import { webhookDeliveryTable, webhookTable } from '../schema/index';
+import type { DrizzleDatabase } from '../types';
+import type { Store, StoreContext } from './types';
+
+// Type definitions for persisted webhooks and their deliveries
+export type WebhookRecord = {
+  id: UUID;
+  url: string;
+  description?: string;
+  secret: string;
+  events: string[];
+  agentIds?: UUID[];
+  channelIds?: UUID[];
+  enabled: boolean;
+  createdAt: Date;
+};
+
+export type WebhookDeliveryRecord = {
+  id: UUID;
+  webhookId: UUID;
+  event: string;
+  payload: Record<string, unknown>;
+  status: string;
+  attempts: number;
+  nextAttemptAt?: Date;
+  responseStatus?: number;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type WebhookDeliveryQueryParams = {
+  webhookId?: UUID;
+  status?: string;
+  limit?: number;
+  offset?: number;
+};
+
+export type WebhookDeliveryUpdate = Partial<
+  Pick<
+    WebhookDeliveryRecord,
+    'status' | 'attempts' | 'nextAttemptAt' | 'responseStatus' | 'lastError'
+  >
+>;
+
+type WebhookRow = typeof webhookTable.$inferSelect;
+type WebhookDeliveryRow = typeof webhookDeliveryTable.$inferSelect;
+
+function rowToWebhook(r: WebhookRow): WebhookRecord {
+  return {
+    id: r.id as UUID,
+    url: r.url,
+    description: r.description || undefined,
+    secret: r.secret,
+    events: r.events,
+    agentIds: (r.agentIds as UUID[] | null) || undefined,
+    channelIds: (r.channelIds as UUID[] | null) || undefined,
+    enabled: r.enabled,
+    createdAt: r.createdAt,
+  };
+}
+
+function rowToDelivery(r: WebhookDeliveryRow): WebhookDeliveryRecord {
+  return {
+    id: r.id as UUID,
+    webhookId: r.webhookId as UUID,
+    event: r.event,
+    payload: r.payload,
+    status: r.status,
+    attempts: r.attempts,
+    nextAttemptAt: r.nextAttemptAt || undefined,
+    responseStatus: r.responseStatus ?? undefined,
+    lastError: r.lastError || undefined,
+    createdAt: r.createdAt,
+    updatedAt: r.updatedAt,
+  };
+}
+
+export class WebhookStore implements Store {
+  constructor(public readonly ctx: StoreContext) {}
+
+  private get db(): DrizzleDatabase {
+    return this.ctx.getDb();
+  }
+
+  async create(data: WebhookRecord): Promise<WebhookRecord> {
+    return this.ctx.withRetry(async () => {
+      await this.db.insert(webhookTable).values({
+        ...data,
+        description: data.description ?? null,
+        agentIds: data.agentIds ?? null,
+        channelIds: data.channelIds ?? null,
+      });
+      return data;
+    }, 'WebhookStore.create');
+  }
+
+  async get(id: UUID): Promise<WebhookRecord | null> {
+    return this.ctx.withRetry(async () => {
+      const rows = await this.db
+        .select()
+        .from(webhookTable)
+        .where(eq(webhookTable.id, id))
+        .limit(1);
+      return rows.length > 0 ? rowToWebhook(rows[0]) : null;
+    }, 'WebhookStore.get');
+  }
+
+  async getAll(): Promise<WebhookRecord[]> {
+    return this.ctx.withRetry(async () => {
+      const rows = await this.db.select().from(webhookTable).orderBy(desc(webhookTable.createdAt));
+      return rows.map(rowToWebhook);
+    }, 'WebhookStore.getAll');
+  }
+
+  /**
+   * Delete a webhook along with its delivery log
+   * @returns Whether the webhook existed
+   */
+  async delete(id: UUID): Promise<boolean> {
+    return this.ctx.withRetry(async () => {
+      return this.db.transaction(async (tx) => {
+        await tx.delete(webhookDeliveryTable).where(eq(webhookDeliveryTable.webhookId, id));
+        const deleted = await tx.delete(webhookTable).where(eq(webhookTable.id, id)).returning();
+        return deleted.length > 0;
+      });
+    }, 'WebhookStore.delete');
+  }
+
+  /**
+   * Queue a delivery. Deliveries are identified by id, so queueing the same delivery
+   * twice (e.g. from two server replicas seeing the same event) is a no-op.
+   * @returns Whether the delivery was queued
+   */
+  async createDelivery(data: Omit<WebhookDeliveryRecord, 'updatedAt'>): Promise<boolean> {
+    return this.ctx.withRetry(async () => {
+      const inserted = await this.db
+        .insert(webhookDeliveryTable)
+        .values({ ...data, updatedAt: data.createdAt })
+        .onConflictDoNothing({ target: webhookDeliveryTable.id })
+        .returning();
+      return inserted.length > 0;
+    }, 'WebhookStore.createDelivery');
+  }
+
+  async getDelivery(id: UUID): Promise<WebhookDeliveryRecord | null> {
+    return this.ctx.withRetry(async () => {
+      const rows = await this.db
+        .select()
+        .from(webhookDeliveryTable)
+        .where(eq(webhookDeliveryTable.id, id))
+        .limit(1);
+      return rows.length > 0 ? rowToDelivery(rows[0]) : null;
+    }, 'WebhookStore.getDelivery');
+  }
+
+  /**
+   * Update a delivery. `undefined` values of the nullable fields clear them.
+   */
+  async updateDelivery(id: UUID, patch: WebhookDeliveryUpdate): Promise<void> {
+    return this.ctx.withRetry(async () => {
+      const values: Record<string, unknown> = { updatedAt: new Date() };
+      for (const [key, value] of Object.entries(patch)) {
+        values[key] = value ?? null;
+      }
+      await this.db.update(webhookDeliveryTable).set(values).where(eq(webhookDeliveryTable.id, id));
+    }, 'WebhookStore.updateDelivery');
+  }
+
+  async getDeliveries(params: WebhookDeliveryQueryParams = {}): Promise<WebhookDeliveryRecord[]> {
+    return this.ctx.withRetry(async () => {
+      const conditions: SQL<unknown>[] = [];
+      if (params.webhookId) {
+        conditions.push(eq(webhookDeliveryTable.webhookId, params.webhookId));
+      }
+      if (params.status) {
+        conditions.push(eq(webhookDeliveryTable.status, params.status));
+      }
+      const rows = await this.db
+        .select()
+        .from(webhookDeliveryTable)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(webhookDeliveryTable.createdAt))
+        .limit(params.limit ?? 50)
+        .offset(params.offset ?? 0);
+      return rows.map(rowToDelivery);
+    }, 'WebhookStore.getDeliveries');
+  }
+
+  /**
+   * Claim pending deliveries that are due by pushing their next attempt to `leaseUntil`,
+   * so that other server replicas do not attempt them at the same time. A claimed
+   * delivery that is not updated before the lease ends is attempted again.
+   */
+  async claimDueDeliveries(
+    now: Date,
+    leaseUntil: Date,
+    limit: number
+  ): Promise<WebhookDeliveryRecord[]> {
+    return this.ctx.withRetry(async () => {
+      const due = and(
+        eq(webhookDeliveryTable.status, 'pending'),
+        lte(webhookDeliveryTable.nextAttemptAt, now)
+      );
+      const candidates = await this.db
+        .select({ id: webhookDeliveryTable.id })
+        .from(webhookDeliveryTable)
+        .where(due)
+        .orderBy(asc(webhookDeliveryTable.nextAttemptAt))
+        .limit(limit);
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      const claimed = await this.db
+        .update(webhookDeliveryTable)
+        .set({ nextAttemptAt: leaseUntil })
+        .where(
+          and(
+            inArray(
+              webhookDeliveryTable.id,
+              candidates.map((row: { id: string }) => row.id)
+            ),
+            due
+          )
+        )
+        .returning();
+      return claimed.map(rowToDelivery);
+    }, 'WebhookStore.claimDueDeliveries');
+  }
+
+  /**
+   * Reset a delivered or dead-lettered delivery to be attempted again from its first
+   * attempt. Pending deliveries are left alone: one whose next attempt lies ahead may be
+   * leased by a replica that is sending it right now.
+   * @returns The requeued delivery, or null when it does not exist or is still pending
+   */
+  async requeueDelivery(id: UUID, now: Date): Promise<WebhookDeliveryRecord | null> {
+    return this.ctx.withRetry(async () => {
+      const requeued = await this.db
+        .update(webhookDeliveryTable)
+        .set({
+          status: 'pending',
+          attempts: 0,
+          nextAttemptAt: now,
+          responseStatus: null,
+          lastError: null,
+          updatedAt: now,
+        })
+        .where(and(eq(webhookDeliveryTable.id, id), ne(webhookDeliveryTable.status, 'pending')))
+        .returning();
+      return requeued.length > 0 ? rowToDelivery(requeued[0]) : null;
+    }, 'WebhookStore.requeueDelivery');
+  }
+
+  /**
+   * Delete deliveries in the given statuses created before the cutoff.
+   * @returns The number of deleted deliveries
+   */
+  async deleteDeliveries(statuses: string[], before: Date): Promise<number> {
+    return this.ctx.withRetry(async () => {
+      const deleted = await this.db
+        .delete(webhookDeliveryTable)
+        .where(
+          and(
+            inArray(webhookDeliveryTable.status, statuses),
+            lt(webhookDeliveryTable.createdAt, before)
+          )
+        )
+        .returning();
+      return deleted.length;
+    }, 'WebhookStore.deleteDeliveries');
+  }
+}
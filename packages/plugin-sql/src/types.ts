@@ -17,6 +17,30 @@ export interface IDatabaseClientManager<T> {
   close(): Promise<void>;
 }
 
+/**
+ * Minimal LISTEN/NOTIFY client over an adapter's existing database connection.
+ * Used for cross-process signalling (e.g. the server message bus).
+ */
+export interface NotificationClient {
+  /**
+   * Start listening on a channel.
+   * @returns A function that stops listening and releases any dedicated connection
+   */
+  listen(channel: string, onNotification: (payload: string) => void): Promise<() => Promise<void>>;
+  /** Send a notification to every listener on the channel */
+  notify(channel: string, payload: string): Promise<void>;
+}
+
+/**
+ * Validate a LISTEN/NOTIFY channel name. Channel names are interpolated as identifiers,
+ * so only plain lowercase identifiers are accepted.
+ */
+export function assertNotificationChannel(channel: string): void {
+  if (!/^[a-z_][a-z0-9_]{0,62}$/.test(channel)) {
+    throw new Error(`Invalid notification channel name: ${channel}`);
+  }
+}
+
 /**
  * Extract typed Drizzle database from adapter.
  * Use this instead of casting `adapter.db` everywhere.
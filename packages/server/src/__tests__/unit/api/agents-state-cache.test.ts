@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import express from 'express';
+import type { ElizaOS, IAgentRuntime, UUID } from '@elizaos/core';
+import { createAgentStateCacheRouter } from '../../../api/agents/state-cache';
+
+// Helper to simulate requests without real HTTP server
+async function simulateRequest(
+  app: express.Application,
+  method: string,
+  path: string,
+  body?: unknown,
+  query?: Record<string, string>
+): Promise<{ status: number; body: any }> {
+  return new Promise((resolve) => {
+    let responseStatus = 200;
+    let responseBody: any = null;
+    let responseSent = false;
+
+    const req: any = {
+      method: method.toUpperCase(),
+      url: path,
+      path,
+      originalUrl: path,
+      body: body || {},
+      query: query || {},
+      params: {},
+      headers: {},
+      get: () => '',
+    };
+
+    const res: any = {
+      status(code: number) {
+        if (!responseSent) {
+          responseStatus = code;
+        }
+        return this;
+      },
+      json(data: any) {
+        if (!responseSent) {
+          responseSent = true;
+          responseBody = data;
+          resolve({ status: responseStatus, body: data });
+        }
+        return this;
+      },
+      send(data: any) {
+        if (!responseSent) {
+          responseSent = true;
+          responseBody = data;
+          resolve({ status: responseStatus, body: data });
+        }
+        return this;
+      },
+      setHeader: () => {},
+      set: () => {},
+      end() {
+        if (!responseSent) {
+          responseSent = true;
+          resolve({ status: responseStatus, body: responseBody });
+        }
+      },
+    };
+
+    const next = (err?: Error) => {
+      if (!responseSent) {
+        responseStatus = err ? 500 : 404;
+        responseBody = { error: err?.message || 'Not found' };
+        resolve({ status: responseStatus, body: responseBody });
+      }
+    };
+
+    try {
+      app(req, res, next as any);
+    } catch (error) {
+      if (!responseSent) {
+        resolve({ status: 500, body: { error: error instanceof Error ? error.message : 'Error' } });
+      }
+    }
+  });
+}
+
+describe('Agent State Cache API', () => {
+  const agentId = '00000000-0000-0000-0000-000000000001' as UUID;
+  const metrics = {
+    hits: 12,
+    misses: 3,
+    evictions: 2,
+    expirations: 1,
+    backendHits: 0,
+    entries: 40,
+    bytes: 8192,
+  };
+
+  let app: express.Application;
+
+  beforeEach(() => {
+    const runtime = {
+      agentId,
+      getStateCacheMetrics: () => metrics,
+    } as unknown as IAgentRuntime;
+
+    const elizaOS = {
+      getAgent: (id: UUID) => (id === agentId ? runtime : undefined),
+    } as unknown as ElizaOS;
+
+    app = express();
+    app.use(createAgentStateCacheRouter(elizaOS));
+  });
+
+  it('returns the state cache metrics of the agent', async () => {
+    const res = await simulateRequest(app, 'GET', `/${agentId}/state-cache`);
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ agentId, stateCache: metrics });
+  });
+
+  it('rejects an invalid agent ID', async () => {
+    const res = await simulateRequest(app, 'GET', '/not-a-uuid/state-cache');
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 404 for an agent that is not running', async () => {
+    const res = await simulateRequest(
+      app,
+      'GET',
+      '/00000000-0000-0000-0000-000000000002/state-cache'
+    );
+    expect(res.status).toBe(404);
+  });
+});
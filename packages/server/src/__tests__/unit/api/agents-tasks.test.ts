@@ -0,0 +1,310 @@
+import { describe, it, expect, beforeEach, jest } from 'bun:test';
+import express from 'express';
+import type { ElizaOS, IAgentRuntime, Task, TaskExecution, UUID } from '@elizaos/core';
+import { createAgentTasksRouter } from '../../../api/agents/tasks';
+
+// Helper to simulate requests without real HTTP server
+async function simulateRequest(
+  app: express.Application,
+  method: string,
+  path: string,
+  body?: unknown,
+  query?: Record<string, string>
+): Promise<{ status: number; body: any }> {
+  return new Promise((resolve) => {
+    let responseStatus = 200;
+    let responseBody: any = null;
+    let responseSent = false;
+
+    const req: any = {
+      method: method.toUpperCase(),
+      url: path,
+      path,
+      originalUrl: path,
+      body: body || {},
+      query: query || {},
+      params: {},
+      headers: {},
+      get: () => '',
+    };
+
+    const res: any = {
+      status(code: number) {
+        if (!responseSent) {
+          responseStatus = code;
+        }
+        return this;
+      },
+      json(data: any) {
+        if (!responseSent) {
+          responseSent = true;
+          responseBody = data;
+          resolve({ status: responseStatus, body: data });
+        }
+        return this;
+      },
+      send(data: any) {
+        if (!responseSent) {
+          responseSent = true;
+          responseBody = data;
+          resolve({ status: responseStatus, body: data });
+        }
+        return this;
+      },
+      setHeader: () => {},
+      set: () => {},
+      end() {
+        if (!responseSent) {
+          responseSent = true;
+          resolve({ status: responseStatus, body: responseBody });
+        }
+      },
+    };
+
+    const next = (err?: Error) => {
+      if (!responseSent) {
+        responseStatus = err ? 500 : 404;
+        responseBody = { error: err?.message || 'Not found' };
+        resolve({ status: responseStatus, body: responseBody });
+      }
+    };
+
+    try {
+      app(req, res, next as any);
+    } catch (error) {
+      if (!responseSent) {
+        resolve({ status: 500, body: { error: error instanceof Error ? error.message : 'Error' } });
+      }
+    }
+  });
+}
+
+describe('Agent Tasks API', () => {
+  const agentId = '00000000-0000-0000-0000-000000000001' as UUID;
+  const roomId = '00000000-0000-0000-0000-000000000002' as UUID;
+  const worldId = '00000000-0000-0000-0000-000000000003' as UUID;
+  const taskId = '00000000-0000-0000-0000-00000000abcd' as UUID;
+
+  let app: express.Application;
+  let tasks: Map<UUID, Task>;
+  let runtime: IAgentRuntime;
+
+  beforeEach(() => {
+    tasks = new Map([
+      [
+        taskId,
+        {
+          id: taskId,
+          name: 'REPORT',
+          description: 'Daily report',
+          tags: ['queue', 'repeat'],
+          metadata: { cron: '0 9 * * *' },
+          roomId,
+          worldId,
+          status: 'pending',
+          attempts: 0,
+        },
+      ],
+    ]);
+
+    const executions: TaskExecution[] = [
+      {
+        id: '00000000-0000-0000-0000-00000000e001' as UUID,
+        taskId,
+        taskName: 'REPORT',
+        status: 'failed',
+        attempt: 1,
+        startedAt: 1000,
+        endedAt: 1500,
+        error: 'boom',
+      },
+    ];
+
+    runtime = {
+      agentId,
+      getTasks: jest.fn(async () => Array.from(tasks.values())),
+      getTask: jest.fn(async (id: UUID) => tasks.get(id) ?? null),
+      createTask: jest.fn(async (task: Task) => {
+        const id = '00000000-0000-0000-0000-00000000beef' as UUID;
+        tasks.set(id, { ...task, id, status: 'pending' });
+        return id;
+      }),
+      updateTask: jest.fn(async (id: UUID, update: Partial<Task>) => {
+        tasks.set(id, { ...tasks.get(id)!, ...update });
+      }),
+      deleteTask: jest.fn(async (id: UUID) => {
+        tasks.delete(id);
+      }),
+      getTaskWorker: jest.fn((name: string) => (name === 'REPORT' ? { name } : undefined)),
+      getRoom: jest.fn(async (id: UUID) => (id === roomId ? { id, worldId } : null)),
+      getTaskExecutions: jest.fn(async () => executions),
+      deleteTaskExecutions: jest.fn(async () => executions.length),
+    } as unknown as IAgentRuntime;
+
+    const elizaOS = {
+      getAgent: (id: UUID) => (id === agentId ? runtime : undefined),
+    } as unknown as ElizaOS;
+
+    app = express();
+    app.use(createAgentTasksRouter(elizaOS));
+  });
+
+  it('lists tasks filtered by tags and status', async () => {
+    const res = await simulateRequest(app, 'GET', `/${agentId}/tasks`, undefined, {
+      status: 'pending',
+      tags: 'queue,repeat',
+    });
+    expect(res.status).toBe(200);
+    expect(res.body.data.tasks).toHaveLength(1);
+    expect(runtime.getTasks).toHaveBeenCalledWith({ roomId: undefined, tags: ['queue', 'repeat'] });
+
+    const paused = await simulateRequest(app, 'GET', `/${agentId}/tasks`, undefined, {
+      status: 'paused',
+    });
+    expect(paused.body.data.tasks).toHaveLength(0);
+  });
+
+  it('returns 404 for unknown agents and tasks', async () => {
+    const unknownAgent = await simulateRequest(
+      app,
+      'GET',
+      '/00000000-0000-0000-0000-000000000099/tasks'
+    );
+    expect(unknownAgent.status).toBe(404);
+
+    const unknownTask = await simulateRequest(
+      app,
+      'GET',
+      `/${agentId}/tasks/00000000-0000-0000-0000-000000000099`
+    );
+    expect(unknownTask.status).toBe(404);
+    expect(unknownTask.body.error.code).toBe('NOT_FOUND');
+  });
+
+  it('creates a task, deriving the world from the room', async () => {
+    const res = await simulateRequest(app, 'POST', `/${agentId}/tasks`, {
+      name: 'REPORT',
+      roomId,
+      metadata: { runAt: 5000 },
+    });
+    expect(res.status).toBe(201);
+    expect(res.body.data.task.worldId).toBe(worldId);
+    expect(res.body.data.task.tags).toEqual(['queue']);
+  });
+
+  it('rejects tasks without a worker or with an invalid schedule', async () => {
+    const noWorker = await simulateRequest(app, 'POST', `/${agentId}/tasks`, {
+      name: 'UNKNOWN',
+      worldId,
+    });
+    expect(noWorker.status).toBe(400);
+
+    const badCron = await simulateRequest(app, 'POST', `/${agentId}/tasks`, {
+      name: 'REPORT',
+      worldId,
+      metadata: { cron: 'every day' },
+    });
+    expect(badCron.status).toBe(400);
+    expect(badCron.body.error.message).toContain('cron');
+    expect(runtime.createTask).not.toHaveBeenCalled();
+  });
+
+  it('clears the next run when the schedule changes', async () => {
+    const res = await simulateRequest(app, 'PATCH', `/${agentId}/tasks/${taskId}`, {
+      metadata: { cron: '0 10 * * *' },
+    });
+    expect(res.status).toBe(200);
+    expect(runtime.updateTask).toHaveBeenCalledWith(taskId, {
+      metadata: { cron: '0 10 * * *' },
+      nextRunAt: null,
+    });
+  });
+
+  it('keeps the next run when the schedule is untouched', async () => {
+    await simulateRequest(app, 'PATCH', `/${agentId}/tasks/${taskId}`, {
+      metadata: { owner: 'ops' },
+    });
+    expect(runtime.updateTask).toHaveBeenCalledWith(taskId, {
+      metadata: { cron: '0 9 * * *', owner: 'ops' },
+    });
+  });
+
+  it('deletes a task together with its history', async () => {
+    const res = await simulateRequest(app, 'DELETE', `/${agentId}/tasks/${taskId}`);
+    expect(res.status).toBe(204);
+    expect(runtime.deleteTask).toHaveBeenCalledWith(taskId);
+    expect(runtime.deleteTaskExecutions).toHaveBeenCalledWith({ taskId });
+  });
+
+  it('returns execution history with a bounded limit', async () => {
+    const res = await simulateRequest(
+      app,
+      'GET',
+      `/${agentId}/tasks/${taskId}/executions`,
+      undefined,
+      {
+        limit: '10000',
+      }
+    );
+    expect(res.status).toBe(200);
+    expect(res.body.data.executions[0].error).toBe('boom');
+    expect(runtime.getTaskExecutions).toHaveBeenCalledWith({ taskId, limit: 500, offset: 0 });
+  });
+
+  it('runs a dead-lettered task with a fresh set of attempts', async () => {
+    tasks.set(taskId, { ...tasks.get(taskId)!, status: 'dead_letter', attempts: 3 });
+
+    const res = await simulateRequest(app, 'POST', `/${agentId}/tasks/${taskId}/run`);
+    expect(res.status).toBe(202);
+    expect(res.body.data.task.status).toBe('pending');
+    expect(res.body.data.task.attempts).toBe(0);
+    expect(res.body.data.task.nextRunAt).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('pauses and resumes a task', async () => {
+    const paused = await simulateRequest(app, 'POST', `/${agentId}/tasks/${taskId}/pause`);
+    expect(paused.status).toBe(200);
+    expect(paused.body.data.task.status).toBe('paused');
+
+    const run = await simulateRequest(app, 'POST', `/${agentId}/tasks/${taskId}/run`);
+    expect(run.status).toBe(409);
+
+    const resumed = await simulateRequest(app, 'POST', `/${agentId}/tasks/${taskId}/resume`);
+    expect(resumed.status).toBe(200);
+    expect(resumed.body.data.task.status).toBe('pending');
+    expect(resumed.body.data.task.nextRunAt).toBeNull();
+  });
+
+  it('refuses to pause or run a running task', async () => {
+    tasks.set(taskId, {
+      ...tasks.get(taskId)!,
+      status: 'running',
+      leaseOwner: 'runtime-a',
+      leaseExpiresAt: Date.now() + 60000,
+    });
+
+    const paused = await simulateRequest(app, 'POST', `/${agentId}/tasks/${taskId}/pause`);
+    expect(paused.status).toBe(409);
+    const run = await simulateRequest(app, 'POST', `/${agentId}/tasks/${taskId}/run`);
+    expect(run.status).toBe(409);
+    expect(runtime.updateTask).not.toHaveBeenCalled();
+  });
+
+  it('treats a running task whose lease expired as stopped', async () => {
+    tasks.set(taskId, {
+      ...tasks.get(taskId)!,
+      status: 'running',
+      leaseOwner: 'crashed-runtime',
+      leaseExpiresAt: Date.now() - 1000,
+    });
+
+    const run = await simulateRequest(app, 'POST', `/${agentId}/tasks/${taskId}/run`);
+    expect(run.status).toBe(202);
+    expect(run.body.data.task.status).toBe('pending');
+
+    tasks.set(taskId, { ...tasks.get(taskId)!, status: 'running' });
+    const paused = await simulateRequest(app, 'POST', `/${agentId}/tasks/${taskId}/pause`);
+    expect(paused.status).toBe(200);
+    expect(paused.body.data.task.status).toBe('paused');
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, jest } from 'bun:test';
+import express from 'express';
+import type { ElizaOS, IAgentRuntime, ModelUsageGroupBy, UUID } from '@elizaos/core';
+import { createAgentUsageRouter } from '../../../api/agents/usage';
+
+// Helper to simulate requests without real HTTP server
+async function simulateRequest(
+  app: express.Application,
+  method: string,
+  path: string,
+  body?: unknown,
+  query?: Record<string, string>
+): Promise<{ status: number; body: any }> {
+  return new Promise((resolve) => {
+    let responseStatus = 200;
+    let responseBody: any = null;
+    let responseSent = false;
+
+    const req: any = {
+      method: method.toUpperCase(),
+      url: path,
+      path,
+      originalUrl: path,
+      body: body || {},
+      query: query || {},
+      params: {},
+      headers: {},
+      get: () => '',
+    };
+
+    const res: any = {
+      status(code: number) {
+        if (!responseSent) {
+          responseStatus = code;
+        }
+        return this;
+      },
+      json(data: any) {
+        if (!responseSent) {
+          responseSent = true;
+          responseBody = data;
+          resolve({ status: responseStatus, body: data });
+        }
+        return this;
+      },
+      send(data: any) {
+        if (!responseSent) {
+          responseSent = true;
+          responseBody = data;
+          resolve({ status: responseStatus, body: data });
+        }
+        return this;
+      },
+      setHeader: () => {},
+      set: () => {},
+      end() {
+        if (!responseSent) {
+          responseSent = true;
+          resolve({ status: responseStatus, body: responseBody });
+        }
+      },
+    };
+
+    const next = (err?: Error) => {
+      if (!responseSent) {
+        responseStatus = err ? 500 : 404;
+        responseBody = { error: err?.message || 'Not found' };
+        resolve({ status: responseStatus, body: responseBody });
+      }
+    };
+
+    try {
+      app(req, res, next as any);
+    } catch (error) {
+      if (!responseSent) {
+        resolve({ status: 500, body: { error: error instanceof Error ? error.message : 'Error' } });
+      }
+    }
+  });
+}
+
+describe('Agent Usage API', () => {
+  const agentId = '00000000-0000-0000-0000-000000000001' as UUID;
+  const runId = '00000000-0000-0000-0000-00000000abcd' as UUID;
+
+  let app: express.Application;
+  let runtime: IAgentRuntime;
+
+  const rollup = (key: string, totalTokens: number, estimatedCost: number) => ({
+    key,
+    calls: 1,
+    promptTokens: totalTokens / 2,
+    completionTokens: totalTokens / 2,
+    totalTokens,
+    estimatedCost,
+  });
+
+  beforeEach(() => {
+    runtime = {
+      agentId,
+      getModelUsageRollup: jest.fn(async ({ groupBy }: { groupBy: ModelUsageGroupBy }) => {
+        switch (groupBy) {
+          case 'agent':
+            return [rollup(agentId, 300, 0.02)];
+          case 'day':
+            return [rollup('2024-01-01', 100, 0.01), rollup('2024-01-02', 200, 0.01)];
+          case 'run':
+            return [rollup(runId, 300, 0.02)];
+          default:
+            return [rollup('openai', 300, 0.02)];
+        }
+      }),
+    } as unknown as IAgentRuntime;
+
+    const elizaOS = {
+      getAgent: (id: UUID) => (id === agentId ? runtime : undefined),
+    } as unknown as ElizaOS;
+
+    app = express();
+    app.use(createAgentUsageRouter(elizaOS));
+  });
+
+  it('returns totals and rollups per day, provider, model and run', async () => {
+    const res = await simulateRequest(app, 'GET', `/${agentId}/usage`);
+    expect(res.status).toBe(200);
+    expect(res.body.data.totals.totalTokens).toBe(300);
+    expect(res.body.data.byDay.map((row: { key: string }) => row.key)).toEqual([
+      '2024-01-01',
+      '2024-01-02',
+    ]);
+    expect(res.body.data.byRun[0].key).toBe(runId);
+    expect(res.body.data.byProvider[0].key).toBe('openai');
+    expect(res.body.data.byModel).toHaveLength(1);
+  });
+
+  it('passes the time range, run and limit to every rollup', async () => {
+    await simulateRequest(app, 'GET', `/${agentId}/usage`, undefined, {
+      from: '2024-01-01T00:00:00Z',
+      to: '1704240000000',
+      runId,
+      limit: '5',
+    });
+    expect(runtime.getModelUsageRollup).toHaveBeenCalledWith({
+      runId,
+      from: Date.UTC(2024, 0, 1),
+      to: 1704240000000,
+      groupBy: 'run',
+      limit: 5,
+    });
+    expect(runtime.getModelUsageRollup).toHaveBeenCalledWith({
+      runId,
+      from: Date.UTC(2024, 0, 1),
+      to: 1704240000000,
+      groupBy: 'day',
+    });
+  });
+
+  it('returns zero totals when nothing has been recorded', async () => {
+    (runtime.getModelUsageRollup as jest.Mock).mockResolvedValue([]);
+
+    const res = await simulateRequest(app, 'GET', `/${agentId}/usage`);
+    expect(res.body.data.totals).toEqual({
+      key: agentId,
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      estimatedCost: 0,
+    });
+  });
+
+  it('rejects invalid ids and time ranges', async () => {
+    expect((await simulateRequest(app, 'GET', '/not-a-uuid/usage')).status).toBe(400);
+    expect(
+      (await simulateRequest(app, 'GET', '/00000000-0000-0000-0000-000000000099/usage')).status
+    ).toBe(404);
+    expect(
+      (await simulateRequest(app, 'GET', `/${agentId}/usage`, undefined, { from: 'yesterday' }))
+        .status
+    ).toBe(400);
+  });
+});
@@ -17,6 +17,7 @@ type HandleMessageFn = (
   options?: {
     onStreamChunk?: (chunk: string, messageId: UUID) => Promise<void>;
     onResponse?: (content: unknown) => Promise<void>;
+    onComplete?: () => Promise<void>;
     onError?: (error: Error) => Promise<void>;
   }
 ) => Promise<{ processing?: { responseContent?: { text: string } } }>;
@@ -165,6 +166,9 @@ async function simulateRequest(
       flushHeaders() {
         return this;
       },
+      on() {
+        return this;
+      },
       write(data: string) {
         if (!responseSent && responseHeaders['Content-Type'] === 'text/event-stream') {
           responseBody = ((responseBody as string) || '') + data;
@@ -297,10 +301,14 @@ describe('Channels API - Transport Parameter', () => {
         async (
           _agentId: unknown,
           _message: unknown,
-          options?: { onResponse?: (content: unknown) => Promise<void> }
+          options?: {
+            onResponse?: (content: unknown) => Promise<void>;
+            onComplete?: () => Promise<void>;
+          }
         ) => {
           if (options?.onResponse) {
             await options.onResponse({ text: 'Streamed response' });
+            await options.onComplete?.();
           }
           return { processing: { responseContent: { text: 'Streamed response' } } };
         }
@@ -329,10 +337,14 @@ describe('Channels API - Transport Parameter', () => {
             async (
               _agentId: unknown,
               _message: unknown,
-              options?: { onResponse?: (content: unknown) => Promise<void> }
+              options?: {
+                onResponse?: (content: unknown) => Promise<void>;
+                onComplete?: () => Promise<void>;
+              }
             ) => {
               if (options?.onResponse) {
                 await options.onResponse({ text: 'Response' });
+                await options.onComplete?.();
               }
               return { processing: { responseContent: { text: 'Response' } } };
             }
@@ -417,10 +429,14 @@ describe('Channels API - Transport Parameter', () => {
         async (
           _agentId: unknown,
           _message: unknown,
-          options?: { onResponse?: (content: unknown) => Promise<void> }
+          options?: {
+            onResponse?: (content: unknown) => Promise<void>;
+            onComplete?: () => Promise<void>;
+          }
         ) => {
           if (options?.onResponse) {
             await options.onResponse({ text: 'Streamed response' });
+            await options.onComplete?.();
           }
           return { processing: { responseContent: { text: 'Streamed response' } } };
         }
@@ -1,7 +1,9 @@
 import { describe, expect, it, beforeEach, mock } from 'bun:test';
-import type { Agent, Character, UUID } from '@elizaos/core';
+import type { Agent, Character, ElizaOS, UUID } from '@elizaos/core';
 import { stringToUuid } from '@elizaos/core';
 import { v4 as uuidv4 } from 'uuid';
+import { createAgentCrudRouter } from '../../../api/agents/crud';
+import type { AgentServer } from '../../../index';
 import { jsonToCharacter } from '../../../services/loader';
 
 /**
@@ -203,3 +205,35 @@ describe('Agent Operations - UUID Independence', () => {
     expect(allAgents).toHaveLength(1);
   });
 });
+
+describe('Agent listing', () => {
+  it('should only list the agents of a restricted API key', async () => {
+    const allowedId = stringToUuid('allowed-agent');
+    const otherId = stringToUuid('other-agent');
+    const serverInstance = {
+      database: {
+        getAgents: async () => [
+          { id: allowedId, name: 'Allowed', bio: [] },
+          { id: otherId, name: 'Other', bio: [] },
+        ],
+      },
+    } as unknown as AgentServer;
+    const router = createAgentCrudRouter(
+      { getAgents: () => [] } as unknown as ElizaOS,
+      serverInstance
+    );
+
+    const body = await new Promise<any>((resolve) => {
+      const req: any = {
+        method: 'GET',
+        url: '/',
+        headers: {},
+        apiKey: { agentIds: [allowedId] },
+      };
+      const res: any = { status: () => res, json: resolve };
+      router(req, res, () => resolve(undefined));
+    });
+
+    expect(body.data.agents.map((agent: { id: UUID }) => agent.id)).toEqual([allowedId]);
+  });
+});
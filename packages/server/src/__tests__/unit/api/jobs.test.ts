@@ -5,17 +5,25 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from 'bun:test';
 import express from 'express';
 import { createJobsRouter, type JobsRouter } from '../../../api/messaging/jobs';
-import type { IAgentRuntime, UUID, ElizaOS } from '@elizaos/core';
+import { ElizaOS, type IAgentRuntime, type UUID } from '@elizaos/core';
 import type { AgentServer } from '../../../index';
-import { JobStatus, JobValidation, type JobDetailsResponse } from '../../../types/jobs';
+import type { ApiKeyAuthRequest } from '../../../middleware';
+import type { ApiKey } from '../../../types/api-keys';
+import {
+  JobStatus,
+  JobValidation,
+  type Job,
+  type JobDetailsResponse,
+  type JobQuery,
+} from '../../../types/jobs';
 import internalMessageBus from '../../../services/message-bus';
 
 // Mock dependencies
 const mockAgents = new Map<UUID, IAgentRuntime>();
-const mockElizaOS = {
+const mockElizaOS = Object.assign(new EventTarget(), {
   getAgent: jest.fn((id: UUID) => mockAgents.get(id)),
   getAgents: jest.fn(() => Array.from(mockAgents.values())),
-} as Partial<ElizaOS> as ElizaOS;
+}) as Partial<ElizaOS> as ElizaOS;
 
 const mockServerInstance = {
   createChannel: jest.fn().mockResolvedValue({
@@ -174,7 +182,7 @@ describe('Jobs API', () => {
     // Create Express app and router
     app = express();
     app.use(express.json());
-    router = createJobsRouter(mockElizaOS, mockServerInstance);
+    router = createJobsRouter(mockElizaOS, mockServerInstance, { enabled: false });
     app.use('/api/messaging', router);
   });
 
@@ -556,6 +564,34 @@ describe('Jobs API', () => {
       }
       const body = res.body as JobsListResponse;
       expect(body.jobs.length).toBeLessThanOrEqual(3);
+      expect(body.total).toBe(5);
+    });
+    it('should only list and show jobs of the agents of a restricted API key', async () => {
+      const agentId = '123e4567-e89b-12d3-a456-426614174000';
+      const userId = '456e7890-e89b-12d3-a456-426614174000';
+      mockAgents.set(agentId as UUID, createMockAgent(agentId));
+      const createRes = await simulateRequest(app, 'POST', '/api/messaging/jobs', {
+        agentId,
+        userId,
+        content: 'Test',
+      });
+      const { jobId } = createRes.body as { jobId: string };
+
+      // Requests made with a key restricted to another agent
+      const keyedApp = express();
+      keyedApp.use((req, _res, next) => {
+        (req as ApiKeyAuthRequest).apiKey = {
+          agentIds: ['00000000-0000-0000-0000-000000000002' as UUID],
+        } as ApiKey;
+        next();
+      });
+      keyedApp.use('/api/messaging', router);
+
+      const listRes = await simulateRequest(keyedApp, 'GET', '/api/messaging/jobs');
+      expect(listRes.body).toMatchObject({ jobs: [], total: 0 });
+
+      const getRes = await simulateRequest(keyedApp, 'GET', `/api/messaging/jobs/${jobId}`);
+      expect(getRes.status).toBe(404);
     });
   });
 
@@ -589,4 +625,336 @@ describe('Jobs API', () => {
       }
     });
   });
+
+  describe('Job Persistence', () => {
+    const agentId = '123e4567-e89b-12d3-a456-426614174000' as UUID;
+    const userId = '456e7890-e89b-12d3-a456-426614174000' as UUID;
+    let storedJobs: Map<string, Job>;
+    let persistentServer: AgentServer;
+    let persistentApp: express.Application;
+    let persistentRouter: JobsRouter;
+
+    function createPersistentRouter(instanceId?: string): void {
+      persistentApp = express();
+      persistentApp.use(express.json());
+      persistentRouter = createJobsRouter(mockElizaOS, persistentServer, {
+        enabled: true,
+        cleanupAfterMs: 1000,
+        instanceId,
+      });
+      persistentApp.use('/api/messaging', persistentRouter);
+    }
+
+    function storedJob(overrides: Partial<Job>): Job {
+      const now = Date.now();
+      return {
+        id: crypto.randomUUID(),
+        agentId,
+        userId,
+        channelId: crypto.randomUUID() as UUID,
+        content: 'Persisted prompt',
+        status: JobStatus.PROCESSING,
+        createdAt: now - 1000,
+        expiresAt: now + 60000,
+        metadata: {},
+        ...overrides,
+      };
+    }
+
+    beforeEach(() => {
+      storedJobs = new Map();
+      persistentServer = {
+        ...mockServerInstance,
+        createJob: jest.fn(async (job: Job) => {
+          storedJobs.set(job.id, { ...job });
+        }),
+        updateJob: jest.fn(async (job: Job) => {
+          storedJobs.set(job.id, { ...job });
+        }),
+        getJob: jest.fn(async (jobId: string) => storedJobs.get(jobId) ?? null),
+        claimJob: jest.fn(async (jobId: string, ownerId: string, leaseExpiresAt: number) => {
+          const job = storedJobs.get(jobId);
+          if (
+            !job ||
+            (job.ownerId &&
+              job.ownerId !== ownerId &&
+              job.leaseExpiresAt !== undefined &&
+              job.leaseExpiresAt > Date.now())
+          ) {
+            return false;
+          }
+          storedJobs.set(jobId, { ...job, ownerId, leaseExpiresAt });
+          return true;
+        }),
+        renewJobLeases: jest.fn().mockResolvedValue(0),
+        getJobs: jest.fn(async (query?: JobQuery) => {
+          const statuses = query?.status
+            ? Array.isArray(query.status)
+              ? query.status
+              : [query.status]
+            : undefined;
+          return Array.from(storedJobs.values()).filter(
+            (job) => !statuses || statuses.includes(job.status)
+          );
+        }),
+        countJobs: jest.fn(async () => storedJobs.size),
+        deleteExpiredJobs: jest.fn().mockResolvedValue(0),
+        getMessagesForChannel: jest.fn().mockResolvedValue([]),
+      } as Partial<AgentServer> as AgentServer;
+      mockAgents.set(agentId, createMockAgent(agentId));
+    });
+
+    afterEach(() => {
+      persistentRouter?.cleanup();
+    });
+
+    it('should write created jobs through to the database', async () => {
+      createPersistentRouter();
+      await persistentRouter.recovery;
+
+      const res = await simulateRequest(persistentApp, 'POST', '/api/messaging/jobs', {
+        agentId,
+        userId,
+        content: 'Persist me',
+      });
+
+      expect(res.status).toBe(201);
+      const jobId = (res.body as Record<string, unknown>).jobId as string;
+      expect(persistentServer.createJob).toHaveBeenCalled();
+      expect(persistentServer.updateJob).toHaveBeenCalled();
+      expect(storedJobs.get(jobId)?.status).toBe(JobStatus.PROCESSING);
+      expect(storedJobs.get(jobId)?.userMessageId).toBe('msg-123' as UUID);
+    });
+
+    it('should return 500 when the job cannot be persisted', async () => {
+      persistentServer.createJob = jest.fn().mockRejectedValue(new Error('db down'));
+      createPersistentRouter();
+      await persistentRouter.recovery;
+
+      const res = await simulateRequest(persistentApp, 'POST', '/api/messaging/jobs', {
+        agentId,
+        userId,
+        content: 'Persist me',
+      });
+
+      expect(res.status).toBe(500);
+      expect(persistentServer.createChannel).not.toHaveBeenCalled();
+    });
+
+    it('should load jobs that are no longer in memory from the database', async () => {
+      const job = storedJob({
+        status: JobStatus.COMPLETED,
+        userMessageId: 'msg-1' as UUID,
+      });
+      storedJobs.set(job.id, job);
+      createPersistentRouter();
+      await persistentRouter.recovery;
+
+      const res = await simulateRequest(persistentApp, 'GET', `/api/messaging/jobs/${job.id}`);
+
+      expect(res.status).toBe(200);
+      const body = res.body as JobDetailsResponse;
+      expect(body.jobId).toBe(job.id);
+      expect(body.status).toBe(JobStatus.COMPLETED);
+    });
+
+    it('should pass list filters through to the database query', async () => {
+      createPersistentRouter();
+      await persistentRouter.recovery;
+
+      const res = await simulateRequest(persistentApp, 'GET', '/api/messaging/jobs', undefined, {
+        agentId,
+        userId,
+        status: 'completed,failed',
+        from: '1700000000000',
+        to: '2030-01-01T00:00:00.000Z',
+        limit: '10',
+        offset: '5',
+      });
+
+      expect(res.status).toBe(200);
+      const getJobs = persistentServer.getJobs as jest.Mock;
+      const query = getJobs.mock.calls[getJobs.mock.calls.length - 1][0] as JobQuery;
+      expect(persistentServer.countJobs).toHaveBeenCalledWith(query);
+      expect(query).toEqual({
+        agentId,
+        userId,
+        status: [JobStatus.COMPLETED, JobStatus.FAILED],
+        from: 1700000000000,
+        to: Date.parse('2030-01-01T00:00:00.000Z'),
+        limit: 10,
+        offset: 5,
+      });
+    });
+
+    it('should reject invalid list filters', async () => {
+      createPersistentRouter();
+      await persistentRouter.recovery;
+
+      let res = await simulateRequest(persistentApp, 'GET', '/api/messaging/jobs', undefined, {
+        agentId: 'not-a-uuid',
+      });
+      expect(res.status).toBe(400);
+
+      res = await simulateRequest(persistentApp, 'GET', '/api/messaging/jobs', undefined, {
+        from: 'yesterday',
+      });
+      expect(res.status).toBe(400);
+    });
+
+    it('should mark interrupted jobs as failed on restart', async () => {
+      const pending = storedJob({ status: JobStatus.PENDING });
+      const expired = storedJob({
+        userMessageId: 'msg-1' as UUID,
+        expiresAt: Date.now() - 1000,
+      });
+      storedJobs.set(pending.id, pending);
+      storedJobs.set(expired.id, expired);
+
+      createPersistentRouter();
+      await persistentRouter.recovery;
+
+      expect(storedJobs.get(pending.id)?.status).toBe(JobStatus.FAILED);
+      expect(storedJobs.get(pending.id)?.error).toBe('Job interrupted by server restart');
+      expect(storedJobs.get(expired.id)?.status).toBe(JobStatus.FAILED);
+    });
+
+    it('should leave jobs leased by other running instances alone on restart', async () => {
+      const pending = storedJob({
+        status: JobStatus.PENDING,
+        ownerId: 'other-instance',
+        leaseExpiresAt: Date.now() + 60000,
+      });
+      const processing = storedJob({
+        userMessageId: 'msg-1' as UUID,
+        ownerId: 'other-instance',
+        leaseExpiresAt: Date.now() + 60000,
+      });
+      storedJobs.set(pending.id, pending);
+      storedJobs.set(processing.id, processing);
+
+      createPersistentRouter();
+      await persistentRouter.recovery;
+
+      expect(storedJobs.get(pending.id)?.status).toBe(JobStatus.PENDING);
+      expect(storedJobs.get(processing.id)?.status).toBe(JobStatus.PROCESSING);
+      expect(storedJobs.get(processing.id)?.ownerId).toBe('other-instance');
+      expect(persistentServer.getMessagesForChannel).not.toHaveBeenCalled();
+    });
+
+    it('should take over jobs whose lease has expired and jobs it owned before restarting', async () => {
+      const abandoned = storedJob({
+        status: JobStatus.PENDING,
+        ownerId: 'crashed-instance',
+        leaseExpiresAt: Date.now() - 1000,
+      });
+      const own = storedJob({
+        userMessageId: 'msg-1' as UUID,
+        ownerId: 'this-instance',
+        leaseExpiresAt: Date.now() + 60000,
+      });
+      storedJobs.set(abandoned.id, abandoned);
+      storedJobs.set(own.id, own);
+
+      createPersistentRouter('this-instance');
+      await persistentRouter.recovery;
+
+      expect(storedJobs.get(abandoned.id)?.status).toBe(JobStatus.FAILED);
+      expect(storedJobs.get(abandoned.id)?.ownerId).toBe('this-instance');
+      expect(storedJobs.get(own.id)?.status).toBe(JobStatus.PROCESSING);
+      expect(persistentServer.getMessagesForChannel).toHaveBeenCalledWith(own.channelId, 20);
+    });
+
+    it('should lease created jobs to the instance running them', async () => {
+      createPersistentRouter('this-instance');
+      await persistentRouter.recovery;
+
+      const res = await simulateRequest(persistentApp, 'POST', '/api/messaging/jobs', {
+        agentId,
+        userId,
+        content: 'Persist me',
+      });
+
+      const stored = storedJobs.get((res.body as Record<string, unknown>).jobId as string);
+      expect(stored?.ownerId).toBe('this-instance');
+      expect(stored?.leaseExpiresAt).toBeGreaterThan(Date.now());
+    });
+
+    it('should resume processing jobs and complete them when the agent replies', async () => {
+      const job = storedJob({ userMessageId: 'msg-1' as UUID });
+      storedJobs.set(job.id, job);
+
+      createPersistentRouter();
+      await persistentRouter.recovery;
+
+      internalMessageBus.emit('new_message', {
+        id: 'reply-1' as UUID,
+        channel_id: job.channelId,
+        message_server_id: '00000000-0000-0000-0000-000000000000' as UUID,
+        author_id: agentId,
+        content: 'Here is your answer',
+        created_at: Date.now(),
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(storedJobs.get(job.id)?.status).toBe(JobStatus.COMPLETED);
+      expect(storedJobs.get(job.id)?.result?.message.content).toBe('Here is your answer');
+    });
+
+    it('should complete resumed jobs from a reply stored before the restart', async () => {
+      const job = storedJob({ userMessageId: 'msg-1' as UUID });
+      storedJobs.set(job.id, job);
+      persistentServer.getMessagesForChannel = jest.fn().mockResolvedValue([
+        {
+          id: 'reply-1',
+          channelId: job.channelId,
+          authorId: agentId,
+          content: 'Answered before restart',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+
+      createPersistentRouter();
+      await persistentRouter.recovery;
+
+      expect(storedJobs.get(job.id)?.status).toBe(JobStatus.COMPLETED);
+      expect(storedJobs.get(job.id)?.agentResponseId).toBe('reply-1' as UUID);
+    });
+
+    it('should resume jobs of agents that start after the router is created', async () => {
+      // Real startup order: the API is mounted before any agent has started
+      const elizaOS = new ElizaOS();
+      const job = storedJob({ userMessageId: 'msg-1' as UUID });
+      storedJobs.set(job.id, job);
+      persistentRouter = createJobsRouter(elizaOS, persistentServer, {
+        enabled: true,
+        cleanupAfterMs: 1000,
+      });
+      await persistentRouter.recovery;
+
+      expect(storedJobs.get(job.id)?.status).toBe(JobStatus.PROCESSING);
+      expect(persistentServer.getMessagesForChannel).not.toHaveBeenCalled();
+
+      persistentServer.getMessagesForChannel = jest.fn().mockResolvedValue([
+        {
+          id: 'reply-1',
+          channelId: job.channelId,
+          authorId: agentId,
+          content: 'Answered while the agent was down',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+      elizaOS.registerAgent({
+        ...createMockAgent(agentId),
+        initialize: async () => {},
+      } as IAgentRuntime);
+      await elizaOS.startAgents([agentId]);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(storedJobs.get(job.id)?.status).toBe(JobStatus.COMPLETED);
+      expect(storedJobs.get(job.id)?.agentResponseId).toBe('reply-1' as UUID);
+    });
+  });
 });
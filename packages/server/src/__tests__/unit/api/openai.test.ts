@@ -0,0 +1,362 @@
+import { describe, it, expect, beforeEach, jest } from 'bun:test';
+import express from 'express';
+import type { Content, ElizaOS, IAgentRuntime, UUID } from '@elizaos/core';
+import { createChatCompletionsRouter } from '../../../api/openai/chat';
+import { createModelsRouter } from '../../../api/openai/models';
+import type { AgentServer } from '../../../index';
+import type { ApiKey } from '../../../types/api-keys';
+
+// Helper to simulate requests without real HTTP server; collects SSE writes in `events`
+async function simulateRequest(
+  app: express.Application,
+  method: string,
+  path: string,
+  body?: unknown,
+  apiKey?: Partial<ApiKey>
+): Promise<{ status: number; body: any; events: any[] }> {
+  return new Promise((resolve) => {
+    let responseStatus = 200;
+    let responseBody: any = null;
+    let responseSent = false;
+    const events: any[] = [];
+
+    const req: any = {
+      method: method.toUpperCase(),
+      url: path,
+      path,
+      originalUrl: path,
+      body: body || {},
+      query: {},
+      params: {},
+      headers: {},
+      get: () => '',
+      apiKey,
+    };
+
+    const res: any = {
+      writableEnded: false,
+      status(code: number) {
+        if (!responseSent) {
+          responseStatus = code;
+        }
+        return this;
+      },
+      json(data: any) {
+        if (!responseSent) {
+          responseSent = true;
+          responseBody = data;
+          resolve({ status: responseStatus, body: data, events });
+        }
+        return this;
+      },
+      write(data: string) {
+        const payload = data.replace(/^data: /, '').trim();
+        events.push(payload === '[DONE]' ? payload : JSON.parse(payload));
+        return true;
+      },
+      setHeader: () => {},
+      set: () => {},
+      flushHeaders: () => {},
+      end() {
+        this.writableEnded = true;
+        if (!responseSent) {
+          responseSent = true;
+          resolve({ status: responseStatus, body: responseBody, events });
+        }
+      },
+    };
+
+    const next = (err?: Error) => {
+      if (!responseSent) {
+        responseStatus = err ? 500 : 404;
+        responseBody = { error: err?.message || 'Not found' };
+        resolve({ status: responseStatus, body: responseBody, events });
+      }
+    };
+
+    try {
+      app(req, res, next as any);
+    } catch (error) {
+      if (!responseSent) {
+        resolve({
+          status: 500,
+          body: { error: error instanceof Error ? error.message : 'Error' },
+          events,
+        });
+      }
+    }
+  });
+}
+
+describe('OpenAI-compatible API', () => {
+  const agentId = '00000000-0000-0000-0000-000000000001' as UUID;
+  const runId = '00000000-0000-0000-0000-00000000abcd' as UUID;
+
+  let app: express.Application;
+  let runtime: IAgentRuntime;
+  let elizaOS: ElizaOS;
+  let serverInstance: AgentServer;
+  let channels: Set<string>;
+  let handledMessages: any[];
+
+  beforeEach(() => {
+    channels = new Set();
+    handledMessages = [];
+
+    runtime = {
+      agentId,
+      character: { name: 'Eliza' },
+      ensureConnection: jest.fn(async () => {}),
+      createMemory: jest.fn(async () => 'memory-id'),
+      getLogs: jest.fn(async () =>
+        handledMessages.map((message) => ({
+          type: 'run_event',
+          body: { runId, messageId: message.id },
+        }))
+      ),
+      getModelUsage: jest.fn(async () => [
+        { promptTokens: 120, completionTokens: 30 },
+        { promptTokens: 80, completionTokens: 10 },
+      ]),
+    } as unknown as IAgentRuntime;
+
+    elizaOS = {
+      getAgent: (id: UUID) => (id === agentId ? runtime : undefined),
+      getAgents: () => [runtime],
+      handleMessage: jest.fn(async (_agentId: UUID, message: any, options?: any) => {
+        handledMessages.push(message);
+        if (!options?.onResponse) {
+          return {
+            messageId: message.id,
+            userMessage: message,
+            processing: { responseContent: { text: 'Hello there!' } },
+          };
+        }
+        await options.onStreamChunk?.('Hello ');
+        await options.onStreamChunk?.('there!');
+        await options.onResponse({ text: 'Hello there!' } as Content);
+        await options.onResponse({ text: 'Action result' } as Content);
+        await options.onComplete?.();
+        return { messageId: message.id, userMessage: message };
+      }),
+    } as unknown as ElizaOS;
+
+    serverInstance = {
+      messageServerId: '00000000-0000-0000-0000-000000000000',
+      getChannelDetails: jest.fn(async (id: UUID) => (channels.has(id) ? { id } : null)),
+      createChannel: jest.fn(async (data: { id: UUID }) => {
+        channels.add(data.id);
+        return data;
+      }),
+      addParticipantsToChannel: jest.fn(async () => {}),
+      createMessage: jest.fn(async (data: object) => ({
+        ...data,
+        id: crypto.randomUUID(),
+      })),
+    } as unknown as AgentServer;
+
+    app = express();
+    app.use(createChatCompletionsRouter(elizaOS, serverInstance));
+    app.use(createModelsRouter(elizaOS));
+  });
+
+  it('lists agents as models', async () => {
+    const res = await simulateRequest(app, 'GET', '/models');
+
+    expect(res.status).toBe(200);
+    expect(res.body.object).toBe('list');
+    expect(res.body.data).toEqual([
+      { id: 'Eliza', object: 'model', created: 0, owned_by: 'elizaos', agent_id: agentId },
+    ]);
+  });
+
+  it('returns a chat completion with usage from the run ledger', async () => {
+    const res = await simulateRequest(app, 'POST', '/chat/completions', {
+      model: 'eliza',
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: [{ type: 'text', text: 'Hi!' }] },
+      ],
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.object).toBe('chat.completion');
+    expect(res.body.model).toBe('Eliza');
+    expect(res.body.choices[0]).toEqual({
+      index: 0,
+      message: { role: 'assistant', content: 'Hello there!' },
+      finish_reason: 'stop',
+    });
+    expect(res.body.usage).toEqual({
+      prompt_tokens: 200,
+      completion_tokens: 40,
+      total_tokens: 240,
+    });
+    expect(runtime.getModelUsage).toHaveBeenCalledWith({ runId });
+    expect(handledMessages[0].content.text).toBe('Instructions from the client:\nBe brief\n\nHi!');
+    expect((serverInstance.createMessage as jest.Mock).mock.calls[0][0].content).toBe('Hi!');
+  });
+
+  it('passes system and developer messages to the agent without seeding them', async () => {
+    await simulateRequest(app, 'POST', '/chat/completions', {
+      model: 'Eliza',
+      messages: [
+        { role: 'system', content: 'Answer in French.' },
+        { role: 'user', content: 'Hi!' },
+        { role: 'assistant', content: 'Bonjour !' },
+        { role: 'developer', content: [{ type: 'text', text: 'Keep it short.' }] },
+        { role: 'user', content: 'How are you?' },
+      ],
+    });
+
+    expect(handledMessages[0].content.text).toBe(
+      'Instructions from the client:\nAnswer in French.\n\nKeep it short.\n\nHow are you?'
+    );
+    const seeded = (runtime.createMemory as jest.Mock).mock.calls.map(
+      ([memory]) => memory.content.text
+    );
+    expect(seeded).toEqual(['Hi!', 'Bonjour !']);
+  });
+
+  it('maps requests repeating the same history onto the same channel', async () => {
+    const request = {
+      model: agentId,
+      user: 'alice',
+      messages: [
+        { role: 'user', content: 'Hi!' },
+        { role: 'assistant', content: 'Hello there!' },
+        { role: 'user', content: 'How are you?' },
+      ],
+    };
+    await simulateRequest(app, 'POST', '/chat/completions', request);
+    await simulateRequest(app, 'POST', '/chat/completions', request);
+
+    expect(handledMessages[1].roomId).toBe(handledMessages[0].roomId);
+    expect(serverInstance.createChannel).toHaveBeenCalledTimes(1);
+    // History is only replayed into a new channel
+    expect(runtime.createMemory).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses the history the client sent rather than what the channel stored', async () => {
+    await simulateRequest(app, 'POST', '/chat/completions', {
+      model: agentId,
+      user: 'alice',
+      messages: [{ role: 'user', content: 'Hi!' }],
+    });
+    await simulateRequest(app, 'POST', '/chat/completions', {
+      model: agentId,
+      user: 'alice',
+      messages: [
+        { role: 'user', content: 'Hi!' },
+        { role: 'assistant', content: 'Edited by the client' },
+        { role: 'user', content: 'How are you?' },
+      ],
+    });
+
+    expect(handledMessages[1].roomId).not.toBe(handledMessages[0].roomId);
+    const seeded = (runtime.createMemory as jest.Mock).mock.calls.map(
+      ([memory]) => memory.content.text
+    );
+    expect(seeded).toEqual(['Hi!', 'Edited by the client']);
+  });
+
+  it('keeps conversations of different API keys apart', async () => {
+    const request = {
+      model: agentId,
+      user: 'alice',
+      messages: [{ role: 'user', content: 'Hi!' }],
+    };
+    await simulateRequest(app, 'POST', '/chat/completions', request, {
+      id: '00000000-0000-0000-0000-00000000000a',
+    });
+    await simulateRequest(app, 'POST', '/chat/completions', request, {
+      id: '00000000-0000-0000-0000-00000000000b',
+    });
+
+    expect(handledMessages[1].roomId).not.toBe(handledMessages[0].roomId);
+    expect(handledMessages[1].entityId).not.toBe(handledMessages[0].entityId);
+  });
+
+  it('stores earlier turns when a conversation starts mid-history', async () => {
+    await simulateRequest(app, 'POST', '/chat/completions', {
+      model: 'Eliza',
+      messages: [
+        { role: 'user', content: 'Remember the code ENG-4821' },
+        { role: 'assistant', content: 'Noted.' },
+        { role: 'user', content: 'What was the code?' },
+      ],
+    });
+
+    expect(runtime.createMemory).toHaveBeenCalledTimes(2);
+    const [userTurn, agentTurn] = (runtime.createMemory as jest.Mock).mock.calls.map(
+      ([memory]) => memory
+    );
+    expect(userTurn.content.text).toBe('Remember the code ENG-4821');
+    expect(agentTurn.entityId).toBe(agentId);
+    expect(agentTurn.createdAt).toBeGreaterThan(userTurn.createdAt);
+  });
+
+  it('streams chunks and responses as SSE ending with [DONE]', async () => {
+    const res = await simulateRequest(app, 'POST', '/chat/completions', {
+      model: 'Eliza',
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: [{ role: 'user', content: 'Hi!' }],
+    });
+
+    const chunks = res.events.slice(0, -1);
+    expect(res.events[res.events.length - 1]).toBe('[DONE]');
+    expect(chunks[0].choices[0].delta).toEqual({ role: 'assistant', content: '' });
+    expect(chunks.map((chunk) => chunk.choices[0].delta.content ?? '').join('')).toBe(
+      'Hello there!\n\nAction result'
+    );
+
+    const last = chunks[chunks.length - 1];
+    expect(last.choices[0].finish_reason).toBe('stop');
+    expect(last.usage.total_tokens).toBe(240);
+    expect(chunks.slice(0, -1).every((chunk) => chunk.usage === null)).toBe(true);
+  });
+
+  it('rejects unknown agents and invalid messages in OpenAI error format', async () => {
+    const unknown = await simulateRequest(app, 'POST', '/chat/completions', {
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Hi!' }],
+    });
+    expect(unknown.status).toBe(404);
+    expect(unknown.body.error).toMatchObject({ code: 'model_not_found', param: 'model' });
+
+    const invalid = await simulateRequest(app, 'POST', '/chat/completions', {
+      model: 'Eliza',
+      messages: [{ role: 'assistant', content: 'Hi!' }],
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.type).toBe('invalid_request_error');
+    expect(elizaOS.handleMessage).not.toHaveBeenCalled();
+  });
+
+  it('hides agents from API keys restricted to other agents', async () => {
+    const apiKey = { agentIds: ['00000000-0000-0000-0000-000000000002' as UUID] };
+
+    const models = await simulateRequest(app, 'GET', '/models', undefined, apiKey);
+    expect(models.body.data).toEqual([]);
+
+    const model = await simulateRequest(app, 'GET', '/models/Eliza', undefined, apiKey);
+    expect(model.status).toBe(404);
+
+    const completion = await simulateRequest(
+      app,
+      'POST',
+      '/chat/completions',
+      { model: 'Eliza', messages: [{ role: 'user', content: 'Hi!' }] },
+      apiKey
+    );
+    expect(completion.status).toBe(404);
+    expect(completion.body.error.code).toBe('model_not_found');
+    expect(elizaOS.handleMessage).not.toHaveBeenCalled();
+
+    const allowed = await simulateRequest(app, 'GET', '/models', undefined, {
+      agentIds: [agentId],
+    });
+    expect(allowed.body.data).toHaveLength(1);
+  });
+});
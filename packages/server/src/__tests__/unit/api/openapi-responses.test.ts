@@ -0,0 +1,323 @@
+/**
+ * Tests that responses of the routers match the schemas of the generated OpenAPI document
+ * Requests go through the real routers, with runtimes and server methods returning values
+ * of the types the document mirrors, so that a schema drifting from the types or from a
+ * handler fails here.
+ */
+
+import { describe, it, expect, beforeEach, jest } from 'bun:test';
+import express from 'express';
+import { z } from 'zod';
+import type { ElizaOS, IAgentRuntime, Task, TaskExecution, UUID } from '@elizaos/core';
+import { createAgentTasksRouter } from '../../../api/agents/tasks';
+import { createAgentUsageRouter } from '../../../api/agents/usage';
+import { createWebhooksRouter } from '../../../api/webhooks/webhooks';
+import { createOpenApiDocument } from '../../../api/openapi';
+import type { AgentServer } from '../../../index';
+import type { Webhook, WebhookDelivery } from '../../../types/webhooks';
+
+// Helper to simulate requests without real HTTP server
+async function simulateRequest(
+  app: express.Application,
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<{ status: number; body: any }> {
+  return new Promise((resolve) => {
+    let responseStatus = 200;
+    let responseSent = false;
+
+    const send = (data?: unknown) => {
+      if (!responseSent) {
+        responseSent = true;
+        // Serialize as on the wire, e.g. dates to strings
+        resolve({
+          status: responseStatus,
+          body: data === undefined ? undefined : JSON.parse(JSON.stringify(data)),
+        });
+      }
+    };
+
+    const req: any = {
+      method: method.toUpperCase(),
+      url: path,
+      path,
+      originalUrl: path,
+      body: body || {},
+      query: {},
+      params: {},
+      headers: {},
+      get: () => '',
+    };
+
+    const res: any = {
+      status(code: number) {
+        if (!responseSent) {
+          responseStatus = code;
+        }
+        return this;
+      },
+      json(data: unknown) {
+        send(data);
+        return this;
+      },
+      send(data: unknown) {
+        send(data);
+        return this;
+      },
+      setHeader: () => {},
+      set: () => {},
+      end: () => send(),
+    };
+
+    const next = (err?: Error) => {
+      if (!responseSent) {
+        responseStatus = err ? 500 : 404;
+        send({ error: err?.message || 'Not found' });
+      }
+    };
+
+    app(req, res, next as any);
+  });
+}
+
+const document = createOpenApiDocument({ version: '0.0.0' });
+const paths = document.paths as Record<string, Record<string, any>>;
+const schemas = (document.components as { schemas: Record<string, unknown> }).schemas;
+
+/**
+ * Expects a response to match the schema documented for its status, or the error schema
+ */
+function expectDocumentedResponse(
+  method: string,
+  path: string,
+  response: { status: number; body: unknown }
+): void {
+  const operation = paths[path]?.[method];
+  expect(operation).toBeDefined();
+
+  const documented = operation.responses[response.status] ?? operation.responses.default;
+  const schema = documented.content?.['application/json']?.schema;
+  if (!schema) {
+    expect(response.body).toBeUndefined();
+    return;
+  }
+
+  // fromJSONSchema only resolves references to `$defs`
+  const resolvable = JSON.parse(
+    JSON.stringify({ ...schema, $defs: schemas }).replaceAll('#/components/schemas/', '#/$defs/')
+  );
+  const result = z.fromJSONSchema(resolvable).safeParse(response.body);
+  expect(result.error?.issues ?? []).toEqual([]);
+}
+
+describe('OpenAPI response schemas', () => {
+  // Schema `uuid` formats are validated as RFC 9562 UUIDs
+  const agentId = '6f1c2a4e-8d3b-4c5a-9e7f-0a1b2c3d4e01' as UUID;
+  const worldId = '6f1c2a4e-8d3b-4c5a-9e7f-0a1b2c3d4e03' as UUID;
+  const taskId = '6f1c2a4e-8d3b-4c5a-9e7f-0a1b2c3d4e04' as UUID;
+  const webhookId = '6f1c2a4e-8d3b-4c5a-9e7f-0a1b2c3d4e05' as UUID;
+  const deliveryId = '6f1c2a4e-8d3b-4c5a-9e7f-0a1b2c3d4e06' as UUID;
+  const unknownId = '6f1c2a4e-8d3b-4c5a-9e7f-0a1b2c3d4e99' as UUID;
+
+  let app: express.Application;
+
+  beforeEach(() => {
+    const task: Task = {
+      id: taskId,
+      name: 'REPORT',
+      description: 'Daily report',
+      tags: ['queue', 'repeat'],
+      metadata: { cron: '0 9 * * *', updatedAt: 1000 },
+      worldId,
+      status: 'pending',
+      attempts: 1,
+      lastError: { message: 'boom', attempt: 1, failedAt: 1500 },
+      nextRunAt: 5000,
+    };
+    const execution: TaskExecution = {
+      id: '6f1c2a4e-8d3b-4c5a-9e7f-0a1b2c3d4e07' as UUID,
+      taskId,
+      taskName: 'REPORT',
+      status: 'failed',
+      attempt: 1,
+      startedAt: 1000,
+      endedAt: 1500,
+      error: 'boom',
+    };
+    const tasks = new Map<UUID, Task>([[taskId, task]]);
+
+    const runtime = {
+      agentId,
+      getTasks: jest.fn(async () => Array.from(tasks.values())),
+      getTask: jest.fn(async (id: UUID) => tasks.get(id) ?? null),
+      createTask: jest.fn(async (created: Task) => {
+        const id = '6f1c2a4e-8d3b-4c5a-9e7f-0a1b2c3d4e08' as UUID;
+        tasks.set(id, { ...created, id, status: 'pending' });
+        return id;
+      }),
+      updateTask: jest.fn(async (id: UUID, update: Partial<Task>) => {
+        tasks.set(id, { ...tasks.get(id)!, ...update });
+      }),
+      deleteTask: jest.fn(async () => {}),
+      getTaskWorker: jest.fn((name: string) => (name === 'REPORT' ? { name } : undefined)),
+      getTaskExecutions: jest.fn(async () => [execution]),
+      deleteTaskExecutions: jest.fn(async () => 1),
+      getModelUsageRollup: jest.fn(async () => [
+        {
+          key: 'openai',
+          calls: 2,
+          promptTokens: 100,
+          completionTokens: 50,
+          totalTokens: 150,
+          estimatedCost: 0.01,
+        },
+      ]),
+    } as unknown as IAgentRuntime;
+
+    const elizaOS = {
+      getAgent: (id: UUID) => (id === agentId ? runtime : undefined),
+    } as unknown as ElizaOS;
+
+    const webhook: Webhook = {
+      id: webhookId,
+      url: 'https://hooks.example.com/eliza',
+      description: 'Ops alerts',
+      events: ['task:dead_letter'],
+      agentIds: [agentId],
+      enabled: true,
+      createdAt: 1000,
+    };
+    const delivery: WebhookDelivery = {
+      id: deliveryId,
+      webhookId,
+      event: 'task:dead_letter',
+      payload: {
+        id: deliveryId,
+        event: 'task:dead_letter',
+        timestamp: 1000,
+        agentId,
+        data: { taskId },
+      },
+      status: 'dead_letter',
+      attempts: 5,
+      responseStatus: 500,
+      lastError: 'HTTP 500',
+      createdAt: 1000,
+      updatedAt: 2000,
+    };
+
+    const serverInstance = {
+      listWebhooks: jest.fn(async () => [webhook]),
+      getWebhook: jest.fn(async (id: UUID) => (id === webhookId ? webhook : null)),
+      deleteWebhook: jest.fn(async (id: UUID) => id === webhookId),
+      getWebhookDeliveries: jest.fn(async () => [delivery]),
+      getWebhookDelivery: jest.fn(async (id: UUID) => (id === deliveryId ? delivery : null)),
+      redeliverWebhookDelivery: jest.fn(async () => ({
+        delivery: { ...delivery, status: 'pending', attempts: 0, nextAttemptAt: 3000 },
+        requeued: true,
+      })),
+    } as unknown as AgentServer;
+
+    app = express();
+    app.use('/api/agents', createAgentTasksRouter(elizaOS));
+    app.use('/api/agents', createAgentUsageRouter(elizaOS));
+    app.use('/api/webhooks', createWebhooksRouter(serverInstance));
+  });
+
+  it('should match the documented task responses', async () => {
+    const requests: [string, string, string, unknown?][] = [
+      ['get', '/api/agents/{agentId}/tasks', `/api/agents/${agentId}/tasks`],
+      ['get', '/api/agents/{agentId}/tasks/{taskId}', `/api/agents/${agentId}/tasks/${taskId}`],
+      [
+        'post',
+        '/api/agents/{agentId}/tasks',
+        `/api/agents/${agentId}/tasks`,
+        { name: 'REPORT', worldId, metadata: { runAt: 5000 } },
+      ],
+      [
+        'patch',
+        '/api/agents/{agentId}/tasks/{taskId}',
+        `/api/agents/${agentId}/tasks/${taskId}`,
+        { description: 'Weekly report' },
+      ],
+      [
+        'get',
+        '/api/agents/{agentId}/tasks/{taskId}/executions',
+        `/api/agents/${agentId}/tasks/${taskId}/executions`,
+      ],
+      [
+        'post',
+        '/api/agents/{agentId}/tasks/{taskId}/pause',
+        `/api/agents/${agentId}/tasks/${taskId}/pause`,
+      ],
+      [
+        'post',
+        '/api/agents/{agentId}/tasks/{taskId}/resume',
+        `/api/agents/${agentId}/tasks/${taskId}/resume`,
+      ],
+      [
+        'post',
+        '/api/agents/{agentId}/tasks/{taskId}/run',
+        `/api/agents/${agentId}/tasks/${taskId}/run`,
+      ],
+      ['delete', '/api/agents/{agentId}/tasks/{taskId}', `/api/agents/${agentId}/tasks/${taskId}`],
+    ];
+
+    for (const [method, path, url, body] of requests) {
+      const response = await simulateRequest(app, method, url, body);
+      expect(response.status).toBeLessThan(300);
+      expectDocumentedResponse(method, path, response);
+    }
+  });
+
+  it('should match the documented usage response', async () => {
+    const response = await simulateRequest(app, 'GET', `/api/agents/${agentId}/usage`);
+    expect(response.status).toBe(200);
+    expectDocumentedResponse('get', '/api/agents/{agentId}/usage', response);
+  });
+
+  it('should match the documented webhook responses', async () => {
+    const requests: [string, string, string][] = [
+      ['get', '/api/webhooks/events', '/api/webhooks/events'],
+      ['get', '/api/webhooks', '/api/webhooks'],
+      ['get', '/api/webhooks/{webhookId}', `/api/webhooks/${webhookId}`],
+      ['get', '/api/webhooks/{webhookId}/deliveries', `/api/webhooks/${webhookId}/deliveries`],
+      [
+        'post',
+        '/api/webhooks/{webhookId}/deliveries/{deliveryId}/redeliver',
+        `/api/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`,
+      ],
+      ['delete', '/api/webhooks/{webhookId}', `/api/webhooks/${webhookId}`],
+    ];
+
+    for (const [method, path, url] of requests) {
+      const response = await simulateRequest(app, method, url);
+      expect(response.status).toBe(200);
+      expectDocumentedResponse(method, path, response);
+    }
+  });
+
+  it('should match the documented error response', async () => {
+    const unknownTask = await simulateRequest(
+      app,
+      'GET',
+      `/api/agents/${agentId}/tasks/${unknownId}`
+    );
+    expect(unknownTask.status).toBe(404);
+    expectDocumentedResponse('get', '/api/agents/{agentId}/tasks/{taskId}', unknownTask);
+
+    const unknownWebhook = await simulateRequest(app, 'GET', `/api/webhooks/${unknownId}`);
+    expect(unknownWebhook.status).toBe(404);
+    expectDocumentedResponse('get', '/api/webhooks/{webhookId}', unknownWebhook);
+  });
+
+  it('should reject a response that does not match', () => {
+    expect(() =>
+      expectDocumentedResponse('get', '/api/webhooks/{webhookId}', {
+        status: 200,
+        body: { success: true, data: { id: webhookId, url: 42 } },
+      })
+    ).toThrow();
+  });
+});
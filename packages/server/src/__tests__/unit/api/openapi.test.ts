@@ -0,0 +1,220 @@
+/**
+ * Tests for the generated OpenAPI document
+ * Checks that the documented operations match the routes of the mounted routers, and
+ * that plugin routes are included
+ */
+
+import { describe, it, expect, afterAll } from 'bun:test';
+import type { ElizaOS, Route } from '@elizaos/core';
+import type express from 'express';
+import { createApiRouter, openaiRouter } from '../../../api';
+import {
+  apiOperations,
+  createOpenApiDocument,
+  openapiRouter,
+  toOpenApiPath,
+} from '../../../api/openapi';
+import type { AgentServer } from '../../../index';
+
+interface RouterLayer {
+  route?: { path: string; methods: Record<string, boolean> };
+  handle?: { stack?: RouterLayer[]; cleanup?: () => void };
+  path?: string;
+  match: (path: string) => boolean;
+}
+
+const elizaOS = Object.assign(new EventTarget(), {
+  getAgents: () => [],
+  getAgent: () => undefined,
+}) as unknown as ElizaOS;
+const serverInstance = { getJobs: async () => [] } as unknown as AgentServer;
+
+/** Routers as mounted by the server */
+const mounts: [string, express.Router][] = [
+  ['/api', createApiRouter(elizaOS, serverInstance)],
+  ['/v1', openaiRouter(elizaOS, serverInstance)],
+];
+
+const normalize = (path: string) => path.replace(/:[A-Za-z0-9_]+/g, ':');
+
+/**
+ * Finds the route layers serving a method and an Express path, walking mounted routers.
+ * Routes shadowed by an earlier parametrized route are still found, as the route path
+ * must match the documented path exactly.
+ */
+function findRoutes(stack: RouterLayer[], method: string, path: string): RouterLayer[] {
+  const found: RouterLayer[] = [];
+  for (const layer of stack) {
+    if (!layer.match(path)) {
+      continue;
+    }
+    if (layer.route) {
+      if (layer.route.methods[method] && normalize(layer.route.path) === normalize(path)) {
+        found.push(layer);
+      }
+    } else if (layer.handle?.stack) {
+      const rest = path.slice(layer.path?.length ?? 0) || '/';
+      found.push(
+        ...findRoutes(layer.handle.stack, method, rest.startsWith('/') ? rest : `/${rest}`)
+      );
+    }
+  }
+  return found;
+}
+
+function collectRoutes(stack: RouterLayer[]): RouterLayer[] {
+  return stack.flatMap((layer) =>
+    layer.route ? [layer] : layer.handle?.stack ? collectRoutes(layer.handle.stack) : []
+  );
+}
+
+function stackOf(router: express.Router): RouterLayer[] {
+  return (router as unknown as { stack: RouterLayer[] }).stack;
+}
+
+afterAll(() => {
+  // Stop the cleanup timers of the sessions and jobs routers
+  const stop = (stack: RouterLayer[]) => {
+    for (const layer of stack) {
+      layer.handle?.cleanup?.();
+      if (layer.handle?.stack) {
+        stop(layer.handle.stack);
+      }
+    }
+  };
+  mounts.forEach(([, router]) => stop(stackOf(router)));
+});
+
+describe('OpenAPI operations', () => {
+  it('should only document routes the server serves', () => {
+    const undocumented = apiOperations
+      .filter((operation) => {
+        const mount = mounts.find(([prefix]) => operation.path.startsWith(`${prefix}/`));
+        return (
+          !mount ||
+          findRoutes(stackOf(mount[1]), operation.method, operation.path.slice(mount[0].length))
+            .length === 0
+        );
+      })
+      .map((operation) => `${operation.method.toUpperCase()} ${operation.path}`);
+
+    expect(undocumented).toEqual([]);
+  });
+
+  it('should document every route the server serves', () => {
+    const documented = new Set<RouterLayer>();
+    const methods = new Map<RouterLayer, Set<string>>();
+    for (const operation of apiOperations) {
+      const mount = mounts.find(([prefix]) => operation.path.startsWith(`${prefix}/`));
+      if (!mount) {
+        continue;
+      }
+      const path = operation.path.slice(mount[0].length);
+      for (const layer of findRoutes(stackOf(mount[1]), operation.method, path)) {
+        documented.add(layer);
+        methods.set(layer, (methods.get(layer) ?? new Set()).add(operation.method));
+      }
+    }
+
+    const missing = mounts.flatMap(([prefix, router]) =>
+      collectRoutes(stackOf(router)).flatMap((layer) =>
+        Object.keys(layer.route!.methods)
+          .filter((method) => !methods.get(layer)?.has(method))
+          .map((method) => `${method.toUpperCase()} ${prefix}...${layer.route!.path}`)
+      )
+    );
+
+    expect(missing).toEqual([]);
+    expect(documented.size).toBeGreaterThan(100);
+  });
+
+  it('should have unique operations and operation ids', () => {
+    const keys = apiOperations.map((operation) => `${operation.method} ${operation.path}`);
+    expect(new Set(keys).size).toBe(keys.length);
+
+    const document = createOpenApiDocument({ version: '1.0.0' });
+    const operationIds = Object.values(document.paths as Record<string, object>).flatMap(
+      (operations) => Object.values(operations).map((operation) => operation.operationId)
+    );
+    expect(new Set(operationIds).size).toBe(operationIds.length);
+  });
+
+  it('should only reference defined schemas', () => {
+    const document = createOpenApiDocument({ version: '1.0.0' });
+    const schemas = (document.components as { schemas: Record<string, unknown> }).schemas;
+    const refs = JSON.stringify(document).match(/#\/components\/schemas\/[A-Za-z]+/g) ?? [];
+
+    const undefinedRefs = refs
+      .map((ref) => ref.split('/').pop()!)
+      .filter((name) => !(name in schemas));
+    expect(undefinedRefs).toEqual([]);
+  });
+});
+
+describe('OpenAPI document', () => {
+  it('should convert Express paths', () => {
+    expect(toOpenApiPath('/api/agents/:agentId/tasks/:taskId')).toBe(
+      '/api/agents/{agentId}/tasks/{taskId}'
+    );
+    expect(toOpenApiPath('/api/my-plugin/assets/*')).toBe('/api/my-plugin/assets/{path}');
+  });
+
+  it('should describe path parameters and response envelopes', () => {
+    const document = createOpenApiDocument({ version: '1.2.3' });
+    const paths = document.paths as Record<string, Record<string, any>>;
+    const getTask = paths['/api/agents/{agentId}/tasks/{taskId}'].get;
+
+    expect(document.openapi).toBe('3.1.0');
+    expect((document.info as { version: string }).version).toBe('1.2.3');
+    expect(getTask.parameters.map((parameter: { name: string }) => parameter.name)).toEqual([
+      'agentId',
+      'taskId',
+    ]);
+    expect(getTask.responses['200'].content['application/json'].schema.properties.data).toEqual({
+      type: 'object',
+      properties: { task: { $ref: '#/components/schemas/Task' } },
+      required: ['task'],
+    });
+
+    const ping = paths['/api/server/ping'].get;
+    expect(ping.responses['200'].content['application/json'].schema.properties.pong).toEqual({
+      type: 'boolean',
+    });
+  });
+
+  it('should include plugin routes under /api', () => {
+    const pluginRoutes: Route[] = [
+      { type: 'GET', path: '/my-plugin/status', name: 'Status', handler: async () => {} },
+      { type: 'POST', path: '/my-plugin/files', isMultipart: true, handler: async () => {} },
+      { type: 'GET', path: '/my-plugin/status', handler: async () => {} },
+      { type: 'STATIC', path: '/my-plugin/public', filePath: './public' },
+    ];
+    const document = createOpenApiDocument({ version: '1.0.0', pluginRoutes });
+    const paths = document.paths as Record<string, Record<string, any>>;
+
+    expect(paths['/api/my-plugin/status'].get.summary).toBe('Status');
+    expect(paths['/api/my-plugin/status'].get.tags).toEqual(['plugins']);
+    expect(paths['/api/my-plugin/status'].get.parameters[0].name).toBe('agentId');
+    expect(
+      paths['/api/my-plugin/files'].post.requestBody.content['multipart/form-data']
+    ).toBeDefined();
+    expect(paths['/api/my-plugin/public']).toBeUndefined();
+  });
+
+  it('should serve the document with the routes of running agents', async () => {
+    const runtime = {
+      routes: [{ type: 'GET', path: '/my-plugin/status', handler: async () => {} }],
+    };
+    const router = openapiRouter({ getAgents: () => [runtime] } as unknown as ElizaOS);
+
+    const body = await new Promise<any>((resolve) => {
+      const req: any = { method: 'GET', url: '/openapi.json', headers: {} };
+      const res: any = { json: resolve };
+      router(req, res, () => resolve(undefined));
+    });
+
+    expect(body.openapi).toBe('3.1.0');
+    expect(body.paths['/api/my-plugin/status'].get).toBeDefined();
+    expect(body.paths['/api/openapi.json'].get).toBeDefined();
+  });
+});
@@ -83,6 +83,10 @@ describe('SSE Events', () => {
       expect(SSE_EVENTS.CHUNK).toBe('chunk');
     });
 
+    it('should have action event for agent responses', () => {
+      expect(SSE_EVENTS.ACTION).toBe('action');
+    });
+
     it('should have done event for completion', () => {
       expect(SSE_EVENTS.DONE).toBe('done');
     });
@@ -91,9 +95,9 @@ describe('SSE Events', () => {
       expect(SSE_EVENTS.ERROR).toBe('error');
     });
 
-    it('should have all four required events', () => {
+    it('should have all five required events', () => {
       const events = Object.values(SSE_EVENTS);
-      expect(events).toHaveLength(4);
+      expect(events).toHaveLength(5);
     });
   });
 });
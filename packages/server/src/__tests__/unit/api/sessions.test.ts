@@ -7,7 +7,9 @@ import express from 'express';
 import { createSessionsRouter, type SessionRouter } from '../../../api/messaging/sessions';
 import type { IAgentRuntime, UUID, ElizaOS } from '@elizaos/core';
 import type { AgentServer } from '../../../index';
-import type { SimplifiedMessage } from '../../../types/sessions';
+import type { ApiKeyAuthRequest } from '../../../middleware';
+import type { ApiKey } from '../../../types/api-keys';
+import type { Session, SessionQuery, SimplifiedMessage } from '../../../types/sessions';
 
 // Mock dependencies
 const mockAgents = new Map<UUID, IAgentRuntime>();
@@ -134,6 +136,15 @@ async function simulateRequest(
         this.headers[name] = value;
         return this;
       },
+      flushHeaders() {
+        return this;
+      },
+      write() {
+        return true;
+      },
+      on() {
+        return this;
+      },
       end() {
         if (!responseSent) {
           responseSent = true;
@@ -202,7 +213,7 @@ describe('Sessions API', () => {
     // Create Express app and router
     app = express();
     app.use(express.json());
-    router = createSessionsRouter(mockElizaOS, mockServerInstance);
+    router = createSessionsRouter(mockElizaOS, mockServerInstance, { enabled: false });
     app.use('/api/messaging', router);
   });
 
@@ -1137,6 +1148,7 @@ describe('Sessions API', () => {
         if (options?.onResponse) {
           options.onResponse({ text: 'Hello world' });
         }
+        options?.onComplete?.();
         return Promise.resolve({});
       });
       (mockElizaOS as any).handleMessage = mockHandleMessage;
@@ -1472,3 +1484,309 @@ describe('Sessions API', () => {
     });
   });
 });
+
+describe('Sessions API with persistence', () => {
+  const agentId = '123e4567-e89b-12d3-a456-426614174000';
+  const userId = '456e7890-e89b-12d3-a456-426614174000';
+  let storedSessions: Map<string, Session>;
+  let routers: SessionRouter[];
+
+  // Each app stands for a server replica sharing the same database
+  const createReplica = (): express.Application => {
+    const router = createSessionsRouter(mockElizaOS, mockServerInstance, { enabled: true });
+    routers.push(router);
+    const app = express();
+    app.use(express.json());
+    app.use('/api/messaging', router);
+    return app;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAgents.clear();
+    mockAgents.set(agentId as UUID, createMockAgent(agentId));
+    routers = [];
+    storedSessions = new Map();
+
+    // Stored copies, so replicas only see what was saved
+    const copy = (session: Session): Session => structuredClone(session);
+    Object.assign(mockServerInstance, {
+      createChannel: jest.fn().mockResolvedValue({}),
+      addParticipantsToChannel: jest.fn().mockResolvedValue(undefined),
+      createSession: jest.fn(async (session: Session) => {
+        storedSessions.set(session.id, copy(session));
+      }),
+      getSession: jest.fn(async (sessionId: string) => {
+        const session = storedSessions.get(sessionId);
+        return session ? copy(session) : null;
+      }),
+      // Saves only over the version the session was read at, as the database does
+      updateSession: jest.fn(async (session: Session) => {
+        if (storedSessions.get(session.id)?.version !== session.version) {
+          return false;
+        }
+        storedSessions.set(session.id, { ...copy(session), version: session.version + 1 });
+        return true;
+      }),
+      deleteSession: jest.fn(async (sessionId: string) => storedSessions.delete(sessionId)),
+      getSessions: jest.fn(async (query?: SessionQuery) =>
+        Array.from(storedSessions.values())
+          .filter(
+            (session) =>
+              query?.activeAt === undefined || session.expiresAt.getTime() > query.activeAt
+          )
+          .map(copy)
+      ),
+      countSessions: jest.fn(async () => storedSessions.size),
+      deleteExpiredSessions: jest.fn(async () => 0),
+    });
+  });
+
+  afterEach(() => {
+    routers.forEach((router) => router.cleanup());
+  });
+
+  it('should serve a session created on one replica from another', async () => {
+    const first = createReplica();
+    const second = createReplica();
+
+    const createRes = await simulateRequest(first, 'POST', '/api/messaging/sessions', {
+      agentId,
+      userId,
+    });
+    expect(createRes.status).toBe(201);
+    const { sessionId } = createRes.body;
+    expect(mockServerInstance.createSession).toHaveBeenCalledTimes(1);
+
+    const infoRes = await simulateRequest(second, 'GET', `/api/messaging/sessions/${sessionId}`);
+    expect(infoRes.status).toBe(200);
+    expect(infoRes.body.sessionId).toBe(sessionId);
+    expect(infoRes.body.channelId).toBe(createRes.body.channelId);
+  });
+
+  it('should persist renewals made on any replica', async () => {
+    const first = createReplica();
+    const second = createReplica();
+
+    const createRes = await simulateRequest(first, 'POST', '/api/messaging/sessions', {
+      agentId,
+      userId,
+    });
+    const { sessionId } = createRes.body;
+
+    const renewRes = await simulateRequest(
+      second,
+      'POST',
+      `/api/messaging/sessions/${sessionId}/renew`
+    );
+    expect(renewRes.status).toBe(200);
+    expect(renewRes.body.renewalCount).toBe(1);
+
+    const infoRes = await simulateRequest(first, 'GET', `/api/messaging/sessions/${sessionId}`);
+    expect(infoRes.body.renewalCount).toBe(1);
+    expect(storedSessions.get(sessionId)?.renewalCount).toBe(1);
+  });
+
+  it('should keep renewals made concurrently on other replicas', async () => {
+    const first = createReplica();
+    const second = createReplica();
+
+    const createRes = await simulateRequest(first, 'POST', '/api/messaging/sessions', {
+      agentId,
+      userId,
+    });
+    const { sessionId } = createRes.body;
+
+    // The other replica renews the session between this replica's read and save
+    const updateSession = mockServerInstance.updateSession;
+    mockServerInstance.updateSession = jest.fn(async (session: Session) => {
+      mockServerInstance.updateSession = updateSession;
+      const stored = storedSessions.get(sessionId)!;
+      storedSessions.set(sessionId, {
+        ...stored,
+        renewalCount: stored.renewalCount + 1,
+        version: stored.version + 1,
+      });
+      return updateSession.call(mockServerInstance, session);
+    });
+
+    const renewRes = await simulateRequest(
+      second,
+      'POST',
+      `/api/messaging/sessions/${sessionId}/renew`
+    );
+    expect(renewRes.status).toBe(200);
+    expect(renewRes.body.renewalCount).toBe(2);
+    expect(storedSessions.get(sessionId)?.renewalCount).toBe(2);
+    expect(storedSessions.get(sessionId)?.version).toBe(2);
+  });
+
+  it('should report a conflict when the session keeps changing', async () => {
+    const app = createReplica();
+
+    const createRes = await simulateRequest(app, 'POST', '/api/messaging/sessions', {
+      agentId,
+      userId,
+    });
+    const { sessionId } = createRes.body;
+    mockServerInstance.updateSession = jest.fn().mockResolvedValue(false);
+
+    const heartbeatRes = await simulateRequest(
+      app,
+      'POST',
+      `/api/messaging/sessions/${sessionId}/heartbeat`
+    );
+    expect(heartbeatRes.status).toBe(409);
+    expect(mockServerInstance.updateSession).toHaveBeenCalledTimes(3);
+  });
+
+  it('should list only active sessions and count all of them', async () => {
+    const app = createReplica();
+
+    const createRes = await simulateRequest(app, 'POST', '/api/messaging/sessions', {
+      agentId,
+      userId,
+    });
+    await simulateRequest(app, 'POST', '/api/messaging/sessions', { agentId, userId });
+    storedSessions.get(createRes.body.sessionId)!.expiresAt = new Date(Date.now() - 1000);
+
+    const listRes = await simulateRequest(app, 'GET', '/api/messaging/sessions');
+    expect(listRes.status).toBe(200);
+    expect(listRes.body.sessions).toHaveLength(1);
+    expect(listRes.body.stats).toEqual({
+      totalSessions: 2,
+      activeSessions: 1,
+      expiredSessions: 1,
+    });
+    expect(mockServerInstance.getSessions).toHaveBeenCalledWith(
+      expect.objectContaining({ activeAt: expect.any(Number) })
+    );
+  });
+
+  it('should mark sessions about to expire when sweeping', async () => {
+    // Captures the sweep instead of waiting for its interval
+    const setIntervalSpy = jest.spyOn(globalThis, 'setInterval');
+    const app = createReplica();
+    const sweep = setIntervalSpy.mock.calls[0][0] as () => void;
+    setIntervalSpy.mockRestore();
+
+    const createRes = await simulateRequest(app, 'POST', '/api/messaging/sessions', {
+      agentId,
+      userId,
+    });
+    const { sessionId } = createRes.body;
+    storedSessions.get(sessionId)!.expiresAt = new Date(Date.now() + 60 * 1000);
+
+    sweep();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(mockServerInstance.deleteExpiredSessions).toHaveBeenCalledTimes(1);
+    expect(mockServerInstance.getSessions).toHaveBeenCalledWith(
+      expect.objectContaining({ unwarned: true })
+    );
+    expect(storedSessions.get(sessionId)?.warningState?.sent).toBe(true);
+    expect(storedSessions.get(sessionId)?.version).toBe(1);
+  });
+
+  it('should delete expired sessions on lookup', async () => {
+    const app = createReplica();
+
+    const createRes = await simulateRequest(app, 'POST', '/api/messaging/sessions', {
+      agentId,
+      userId,
+    });
+    const { sessionId } = createRes.body;
+    storedSessions.get(sessionId)!.expiresAt = new Date(Date.now() - 1000);
+
+    const infoRes = await simulateRequest(app, 'GET', `/api/messaging/sessions/${sessionId}`);
+    expect(infoRes.status).toBe(410);
+    expect(storedSessions.has(sessionId)).toBe(false);
+  });
+
+  it('should report sessions deleted by another replica as not found', async () => {
+    const first = createReplica();
+    const second = createReplica();
+
+    const createRes = await simulateRequest(first, 'POST', '/api/messaging/sessions', {
+      agentId,
+      userId,
+    });
+    const { sessionId } = createRes.body;
+
+    const deleteRes = await simulateRequest(
+      second,
+      'DELETE',
+      `/api/messaging/sessions/${sessionId}`
+    );
+    expect(deleteRes.status).toBe(200);
+
+    const heartbeatRes = await simulateRequest(
+      first,
+      'POST',
+      `/api/messaging/sessions/${sessionId}/heartbeat`
+    );
+    expect(heartbeatRes.status).toBe(404);
+  });
+});
+
+describe('Sessions API with restricted API keys', () => {
+  const agentId = '123e4567-e89b-12d3-a456-426614174000';
+  const userId = '456e7890-e89b-12d3-a456-426614174000';
+  let app: express.Application;
+  let router: SessionRouter;
+  let apiKey: Partial<ApiKey> | undefined;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAgents.clear();
+    mockAgents.set(agentId as UUID, createMockAgent(agentId));
+    mockServerInstance.createChannel = jest.fn().mockResolvedValue({});
+    mockServerInstance.addParticipantsToChannel = jest.fn().mockResolvedValue(undefined);
+    apiKey = undefined;
+
+    router = createSessionsRouter(mockElizaOS, mockServerInstance, { enabled: false });
+    app = express();
+    app.use(express.json());
+    // Stands for the API key middleware
+    app.use((req, _res, next) => {
+      (req as ApiKeyAuthRequest).apiKey = apiKey as ApiKey;
+      next();
+    });
+    app.use('/api/messaging', router);
+  });
+
+  afterEach(() => {
+    router.cleanup();
+  });
+
+  it('should hide sessions of other agents', async () => {
+    const createRes = await simulateRequest(app, 'POST', '/api/messaging/sessions', {
+      agentId,
+      userId,
+    });
+    const { sessionId } = createRes.body;
+    apiKey = { agentIds: ['00000000-0000-0000-0000-000000000002' as UUID] };
+
+    const infoRes = await simulateRequest(app, 'GET', `/api/messaging/sessions/${sessionId}`);
+    expect(infoRes.status).toBe(404);
+
+    const messageRes = await simulateRequest(
+      app,
+      'POST',
+      `/api/messaging/sessions/${sessionId}/messages`,
+      { content: 'Hello' }
+    );
+    expect(messageRes.status).toBe(404);
+    expect(mockServerInstance.createMessage).not.toHaveBeenCalled();
+
+    const deleteRes = await simulateRequest(app, 'DELETE', `/api/messaging/sessions/${sessionId}`);
+    expect(deleteRes.status).toBe(404);
+
+    const listRes = await simulateRequest(app, 'GET', '/api/messaging/sessions');
+    expect(listRes.body.sessions).toEqual([]);
+
+    apiKey = { agentIds: [agentId as UUID] };
+    const allowedRes = await simulateRequest(app, 'GET', `/api/messaging/sessions/${sessionId}`);
+    expect(allowedRes.status).toBe(200);
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Tests for resumable SSE message streams
+ * Tests event ids, the replay buffer, the SSE transport and resuming a stream
+ * with Last-Event-ID
+ */
+
+import { describe, it, expect } from 'bun:test';
+import express from 'express';
+import type { ElizaOS, UUID } from '@elizaos/core';
+import { createStreamsRouter } from '../../../api/messaging/streams';
+import {
+  handleTransport,
+  SSE_EVENTS,
+  SSE_STREAM_ID_HEADER,
+} from '../../../api/shared/response-handlers';
+import {
+  SSEReplayBuffer,
+  sseReplayBuffer,
+  type SSEStreamOwner,
+} from '../../../api/shared/sse-replay-buffer';
+import type { ApiKey } from '../../../types/api-keys';
+
+const AGENT_ID = '11111111-1111-4111-8111-111111111111' as UUID;
+const ROOM_ID = '22222222-2222-4222-8222-222222222222' as UUID;
+const USER_ID = '44444444-4444-4444-8444-444444444444' as UUID;
+const SESSION_ID = 'session-1';
+const KEY_ID = '55555555-5555-4555-8555-555555555555' as UUID;
+
+/** Owner of a stream of a session message, sent without an API key */
+const OWNER: SSEStreamOwner = {
+  agentId: AGENT_ID,
+  channelId: ROOM_ID,
+  entityId: USER_ID,
+  sessionId: SESSION_ID,
+};
+
+interface ParsedEvent {
+  id: number;
+  event: string;
+  data: any;
+}
+
+/**
+ * Response stand-in recording the headers and SSE events written to it
+ */
+function createFakeResponse() {
+  const headers: Record<string, string> = {};
+  const closeListeners: (() => void)[] = [];
+  let body = '';
+  let status = 200;
+  let jsonBody: any;
+  let resolveEnded: () => void;
+  const ended = new Promise<void>((resolve) => (resolveEnded = resolve));
+
+  const res: any = {
+    setHeader: (name: string, value: string) => {
+      headers[name] = value;
+    },
+    flushHeaders: () => {},
+    write: (chunk: string) => {
+      body += chunk;
+      return true;
+    },
+    end: () => resolveEnded(),
+    on: (event: string, listener: () => void) => {
+      if (event === 'close') {
+        closeListeners.push(listener);
+      }
+      return res;
+    },
+    status(code: number) {
+      status = code;
+      return res;
+    },
+    json(data: any) {
+      jsonBody = data;
+      resolveEnded();
+      return res;
+    },
+  };
+
+  return {
+    res,
+    headers,
+    ended,
+    close: () => closeListeners.forEach((listener) => listener()),
+    get status() {
+      return status;
+    },
+    get json() {
+      return jsonBody;
+    },
+    events: (): ParsedEvent[] =>
+      body
+        .split('\n\n')
+        .filter(Boolean)
+        .map((frame) => {
+          const fields = Object.fromEntries(
+            frame.split('\n').map((line) => {
+              const separator = line.indexOf(': ');
+              return [line.slice(0, separator), line.slice(separator + 2)];
+            })
+          );
+          return { id: Number(fields.id), event: fields.event, data: JSON.parse(fields.data) };
+        }),
+  };
+}
+
+function requestStream(
+  router: express.Router,
+  streamId: string,
+  headers: Record<string, string> = {},
+  apiKey?: Partial<ApiKey>,
+  query: Record<string, string> = { sessionId: SESSION_ID }
+) {
+  const fake = createFakeResponse();
+  const req: any = {
+    apiKey,
+    method: 'GET',
+    url: `/streams/${streamId}`,
+    originalUrl: `/streams/${streamId}`,
+    query,
+    params: {},
+    headers,
+    get: (name: string) => headers[name],
+  };
+  router(req, fake.res, () => {});
+  return fake;
+}
+
+/**
+ * ElizaOS stand-in whose handleMessage streams a reply in two chunks, and lets
+ * the test decide when the reply completes
+ */
+function createFakeElizaOS() {
+  let complete: () => Promise<void> = async () => {};
+  const elizaOS = {
+    handleMessage: async (_agentId: UUID, _message: unknown, options: any) => {
+      await options.onStreamChunk('Hello', 'reply-1');
+      await options.onStreamChunk(' there', 'reply-1');
+      await options.onResponse({ text: 'Hello there', actions: ['REPLY'] });
+      complete = () => options.onComplete();
+      return { messageId: 'message-1' };
+    },
+  } as unknown as ElizaOS;
+  return { elizaOS, complete: () => complete() };
+}
+
+describe('SSEReplayBuffer', () => {
+  it('should assign increasing event ids and replay events after the last one', () => {
+    const buffer = new SSEReplayBuffer();
+    const stream = buffer.create(OWNER);
+
+    expect(stream.append('chunk', { chunk: 'a' }).id).toBe(1);
+    expect(stream.append('chunk', { chunk: 'b' }).id).toBe(2);
+    expect(stream.append('done', {}).id).toBe(3);
+
+    expect(stream.eventsAfter(1).map((event) => event.id)).toEqual([2, 3]);
+    expect(stream.eventsAfter().map((event) => event.id)).toEqual([1, 2, 3]);
+    expect(buffer.get(stream.id)).toBe(stream);
+  });
+
+  it('should notify subscribers until the stream finishes', () => {
+    const stream = new SSEReplayBuffer().create(OWNER);
+    const received: number[] = [];
+    let finished = 0;
+    const unsubscribe = stream.subscribe(
+      (event) => received.push(event.id),
+      () => finished++
+    );
+
+    stream.append('chunk', {});
+    stream.finish();
+    stream.finish();
+    stream.append('late', {});
+    unsubscribe();
+
+    expect(received).toEqual([1]);
+    expect(finished).toBe(1);
+    expect(stream.finished).toBe(true);
+  });
+
+  it('should expire finished streams after the ttl', async () => {
+    const buffer = new SSEReplayBuffer(5);
+    const finished = buffer.create(OWNER);
+    const running = buffer.create(OWNER);
+    finished.finish();
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(buffer.get(finished.id)).toBeUndefined();
+    expect(buffer.get(running.id)).toBe(running);
+  });
+});
+
+describe('SSE transport', () => {
+  it('should give every event an id and buffer the stream for resuming', async () => {
+    const { elizaOS, complete } = createFakeElizaOS();
+    const fake = createFakeResponse();
+
+    await handleTransport({
+      res: fake.res,
+      transport: 'sse',
+      elizaOS,
+      agentId: AGENT_ID,
+      messageMemory: { entityId: AGENT_ID, roomId: ROOM_ID, content: { text: 'Hi' } },
+      userMessage: { id: 'user-1', content: 'Hi' },
+      channelId: ROOM_ID,
+      sessionId: SESSION_ID,
+      apiKeyId: KEY_ID,
+    });
+    await complete();
+    await fake.ended;
+
+    expect(fake.headers['Content-Type']).toBe('text/event-stream');
+    expect(fake.events()).toEqual([
+      { id: 1, event: SSE_EVENTS.USER_MESSAGE, data: { id: 'user-1', content: 'Hi' } },
+      { id: 2, event: SSE_EVENTS.CHUNK, data: { messageId: 'reply-1', chunk: 'Hello', index: 0 } },
+      { id: 3, event: SSE_EVENTS.CHUNK, data: { messageId: 'reply-1', chunk: ' there', index: 1 } },
+      { id: 4, event: SSE_EVENTS.ACTION, data: { text: 'Hello there', actions: ['REPLY'] } },
+      { id: 5, event: SSE_EVENTS.DONE, data: { text: 'Hello there', actions: ['REPLY'] } },
+    ]);
+
+    const stream = sseReplayBuffer.get(fake.headers[SSE_STREAM_ID_HEADER] as UUID);
+    expect(stream?.finished).toBe(true);
+    expect(stream?.owner).toEqual({
+      agentId: AGENT_ID,
+      channelId: ROOM_ID,
+      entityId: AGENT_ID,
+      sessionId: SESSION_ID,
+      apiKeyId: KEY_ID,
+    });
+  });
+
+  it('should send an error event when handling the message fails', async () => {
+    const elizaOS = {
+      handleMessage: async () => {
+        throw new Error('Agent not found');
+      },
+    } as unknown as ElizaOS;
+    const fake = createFakeResponse();
+
+    await handleTransport({
+      res: fake.res,
+      transport: 'sse',
+      elizaOS,
+      agentId: AGENT_ID,
+      messageMemory: { entityId: AGENT_ID, roomId: ROOM_ID, content: { text: 'Hi' } },
+      userMessage: {},
+    });
+    await fake.ended;
+
+    expect(fake.events().at(-1)).toEqual({
+      id: 2,
+      event: SSE_EVENTS.ERROR,
+      data: { error: 'Agent not found' },
+    });
+  });
+});
+
+describe('Streams API', () => {
+  it('should replay missed events and follow the stream until it ends', async () => {
+    const buffer = new SSEReplayBuffer();
+    const router = createStreamsRouter(buffer);
+    const stream = buffer.create(OWNER);
+    stream.append('chunk', { chunk: 'a' });
+    stream.append('chunk', { chunk: 'b' });
+
+    const fake = requestStream(router, stream.id, { 'Last-Event-ID': '1' });
+    stream.append('done', { text: 'ab' });
+    stream.finish();
+    await fake.ended;
+
+    expect(fake.events()).toEqual([
+      { id: 2, event: 'chunk', data: { chunk: 'b' } },
+      { id: 3, event: 'done', data: { text: 'ab' } },
+    ]);
+    expect(fake.headers[SSE_STREAM_ID_HEADER]).toBe(stream.id);
+  });
+
+  it('should stop following the stream when the client disconnects', () => {
+    const buffer = new SSEReplayBuffer();
+    const router = createStreamsRouter(buffer);
+    const stream = buffer.create(OWNER);
+
+    const fake = requestStream(router, stream.id);
+    fake.close();
+    stream.append('chunk', { chunk: 'lost' });
+
+    expect(fake.events()).toEqual([]);
+  });
+
+  it('should return 404 for unknown streams', async () => {
+    const router = createStreamsRouter(new SSEReplayBuffer());
+    const fake = requestStream(router, crypto.randomUUID());
+    await fake.ended;
+
+    expect(fake.status).toBe(404);
+    expect(fake.json.error.code).toBe('STREAM_NOT_FOUND');
+  });
+
+  it('should hide streams of other agents from restricted API keys', async () => {
+    const buffer = new SSEReplayBuffer();
+    const router = createStreamsRouter(buffer);
+    const stream = buffer.create({ ...OWNER, apiKeyId: KEY_ID });
+    stream.append('chunk', { chunk: 'secret' });
+
+    const otherAgent = { id: KEY_ID, agentIds: ['33333333-3333-4333-8333-333333333333' as UUID] };
+    const denied = requestStream(router, stream.id, {}, otherAgent);
+    await denied.ended;
+
+    expect(denied.status).toBe(404);
+    expect(denied.events()).toEqual([]);
+
+    const allowed = requestStream(router, stream.id, {}, { id: KEY_ID, agentIds: [AGENT_ID] });
+    expect(allowed.events()).toEqual([{ id: 1, event: 'chunk', data: { chunk: 'secret' } }]);
+  });
+
+  it('should only let the sender of the message resume its stream', async () => {
+    const buffer = new SSEReplayBuffer();
+    const router = createStreamsRouter(buffer);
+    const sessionStream = buffer.create({ ...OWNER, apiKeyId: KEY_ID });
+    const channelStream = buffer.create({
+      agentId: AGENT_ID,
+      channelId: ROOM_ID,
+      entityId: USER_ID,
+    });
+    sessionStream.append('chunk', { chunk: 'secret' });
+    channelStream.append('chunk', { chunk: 'secret' });
+
+    const otherKey = { id: '66666666-6666-4666-8666-666666666666' as UUID };
+    const denied = [
+      requestStream(router, sessionStream.id, {}, otherKey),
+      requestStream(router, sessionStream.id),
+      requestStream(router, sessionStream.id, {}, { id: KEY_ID }, { sessionId: 'session-2' }),
+      requestStream(router, sessionStream.id, {}, { id: KEY_ID }, {}),
+      requestStream(router, channelStream.id, {}, undefined, { entityId: AGENT_ID }),
+      requestStream(router, channelStream.id, {}, undefined, { sessionId: SESSION_ID }),
+    ];
+    await Promise.all(denied.map((fake) => fake.ended));
+
+    expect(denied.map((fake) => fake.status)).toEqual([404, 404, 404, 404, 404, 404]);
+
+    const fromSession = requestStream(router, sessionStream.id, {}, { id: KEY_ID });
+    const fromChannel = requestStream(router, channelStream.id, {}, undefined, {
+      entityId: USER_ID,
+    });
+    expect(fromSession.events()).toHaveLength(1);
+    expect(fromChannel.events()).toHaveLength(1);
+  });
+
+  it('should reject invalid Last-Event-ID values', async () => {
+    const buffer = new SSEReplayBuffer();
+    const router = createStreamsRouter(buffer);
+    const stream = buffer.create(OWNER);
+    const fake = requestStream(router, stream.id, { 'Last-Event-ID': 'abc' });
+    await fake.ended;
+
+    expect(fake.status).toBe(400);
+    expect(fake.json.error.code).toBe('INVALID_REQUEST');
+  });
+});
@@ -93,6 +93,24 @@ describe('API Key Auth Middleware', () => {
       expect(loggerWarnSpy).not.toHaveBeenCalled();
     });
 
+    it('should allow requests with valid API key as bearer token', () => {
+      mockRequest.headers = { authorization: `Bearer ${validToken}` };
+
+      apiKeyAuthMiddleware(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+
+    it('should reject requests with incorrect bearer token', () => {
+      mockRequest.headers = { authorization: 'Bearer wrong-key' };
+
+      apiKeyAuthMiddleware(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+    });
+
     it('should reject requests without API key', () => {
       // No x-api-key header
 
@@ -0,0 +1,330 @@
+/**
+ * Unit tests for the scoped API key middleware in api-key.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from 'bun:test';
+import { EventEmitter } from 'node:events';
+import { type Request, type Response, type NextFunction } from 'express';
+import { createApiKeyAuthMiddleware, type ApiKeyProvider } from '../../../middleware';
+import type { ApiKey } from '../../../types/api-keys';
+import {
+  canAccessTarget,
+  getRequiredScope,
+  isRouteCheckedPath,
+  isUntargetedRoute,
+} from '../../../utils/api-keys';
+
+const AGENT_ID = '11111111-1111-1111-1111-111111111111';
+const OTHER_AGENT_ID = '22222222-2222-2222-2222-222222222222';
+const CHANNEL_ID = '44444444-4444-4444-4444-444444444444';
+const OTHER_CHANNEL_ID = '55555555-5555-5555-5555-555555555555';
+const ROOT_TOKEN = 'root-token';
+const MANAGED_KEY = 'eliza_managed-key';
+
+function createKey(overrides: Partial<ApiKey> = {}): ApiKey {
+  return {
+    id: '33333333-3333-3333-3333-333333333333',
+    name: 'dashboard',
+    prefix: 'eliza_manag',
+    scopes: ['agents:read'],
+    createdAt: Date.now(),
+    ...overrides,
+  } as ApiKey;
+}
+
+describe('Scoped API Key Auth Middleware', () => {
+  const originalEnv = process.env;
+  let key: ApiKey | null;
+  let provider: ApiKeyProvider;
+  let mockResponse: Response & EventEmitter;
+  let mockNext: NextFunction;
+
+  const createRequest = (
+    method: string,
+    path: string,
+    headers: Record<string, string> = {},
+    body: Record<string, unknown> = {}
+  ) =>
+    ({
+      method,
+      baseUrl: '/api',
+      path,
+      headers,
+      body,
+      query: {},
+      ip: '127.0.0.1',
+    }) as unknown as Request;
+
+  const run = async (req: Request) => {
+    await createApiKeyAuthMiddleware(provider)(req, mockResponse, mockNext);
+    return req as Request & { apiKey?: ApiKey; isServerAuthenticated?: boolean };
+  };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ELIZA_SERVER_AUTH_TOKEN: ROOT_TOKEN };
+    key = createKey();
+    provider = {
+      findApiKey: jest.fn(async (value: string) => (value === MANAGED_KEY ? key : null)),
+      recordApiKeyUsage: jest.fn(async () => {}),
+      getChannelParticipants: jest.fn(async (channelId: string) =>
+        channelId === CHANNEL_ID ? [AGENT_ID] : [OTHER_AGENT_ID]
+      ) as ApiKeyProvider['getChannelParticipants'],
+    };
+    mockResponse = Object.assign(new EventEmitter(), {
+      statusCode: 200,
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    }) as unknown as Response & EventEmitter;
+    mockNext = jest.fn();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should skip checks when ELIZA_SERVER_AUTH_TOKEN is not set', async () => {
+    delete process.env.ELIZA_SERVER_AUTH_TOKEN;
+
+    await run(createRequest('DELETE', `/agents/${AGENT_ID}`));
+
+    expect(mockNext).toHaveBeenCalled();
+    expect(provider.findApiKey).not.toHaveBeenCalled();
+  });
+
+  it('should give the server token full access without a lookup', async () => {
+    const req = await run(createRequest('POST', '/system/api-keys', { 'x-api-key': ROOT_TOKEN }));
+
+    expect(mockNext).toHaveBeenCalled();
+    expect(req.isServerAuthenticated).toBe(true);
+    expect(req.apiKey).toBeUndefined();
+    expect(provider.findApiKey).not.toHaveBeenCalled();
+  });
+
+  it('should accept a managed key with the required scope', async () => {
+    const req = await run(
+      createRequest('GET', `/agents/${AGENT_ID}`, { authorization: `Bearer ${MANAGED_KEY}` })
+    );
+
+    expect(mockNext).toHaveBeenCalled();
+    expect(req.apiKey?.id).toBe(key!.id);
+  });
+
+  it('should check the scope of mixed-case paths and trailing slashes', async () => {
+    key = createKey({ scopes: ['agents:read', 'agents:write'] });
+
+    await run(createRequest('POST', '/SYSTEM/environment/local', { 'x-api-key': MANAGED_KEY }));
+    await run(
+      createRequest('POST', `/memory/${AGENT_ID}/memories/prune/`, { 'x-api-key': MANAGED_KEY })
+    );
+
+    expect(mockNext).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenNthCalledWith(1, 403);
+    expect(mockResponse.status).toHaveBeenNthCalledWith(2, 403);
+  });
+
+  it('should reject unknown, revoked and expired keys', async () => {
+    await run(createRequest('GET', '/agents', { 'x-api-key': 'eliza_unknown' }));
+    key = createKey({ revokedAt: Date.now() });
+    await run(createRequest('GET', '/agents', { 'x-api-key': MANAGED_KEY }));
+    key = createKey({ expiresAt: Date.now() - 1000 });
+    await run(createRequest('GET', '/agents', { 'x-api-key': MANAGED_KEY }));
+
+    expect(mockNext).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenCalledTimes(3);
+    expect((mockResponse.status as jest.Mock).mock.calls.every(([code]) => code === 401)).toBe(
+      true
+    );
+  });
+
+  it('should reject requests outside the key scopes', async () => {
+    await run(createRequest('DELETE', `/agents/${AGENT_ID}`, { 'x-api-key': MANAGED_KEY }));
+
+    expect(mockNext).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenCalledWith(403);
+    expect(mockResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({ error: 'Insufficient scope' })
+    );
+  });
+
+  it('should require the system scope to export agent secrets', async () => {
+    const exportRequest = (secrets?: string) =>
+      Object.assign(
+        createRequest('GET', `/agents/${AGENT_ID}/export`, { 'x-api-key': MANAGED_KEY }),
+        { query: secrets ? { secrets } : {} }
+      );
+
+    await run(exportRequest());
+    await run(exportRequest('omit'));
+    expect(mockNext).toHaveBeenCalledTimes(2);
+
+    await run(exportRequest('plaintext'));
+    await run(exportRequest('encrypted'));
+    expect(mockNext).toHaveBeenCalledTimes(2);
+    expect(mockResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'This API key does not have the system scope' })
+    );
+
+    key = createKey({ scopes: ['agents:read', 'system'] });
+    await run(exportRequest('plaintext'));
+    expect(mockNext).toHaveBeenCalledTimes(3);
+  });
+
+  it('should restrict keys to their agents', async () => {
+    key = createKey({ agentIds: [AGENT_ID] as ApiKey['agentIds'] });
+
+    await run(createRequest('GET', `/agents/${AGENT_ID}`, { 'x-api-key': MANAGED_KEY }));
+    expect(mockNext).toHaveBeenCalledTimes(1);
+
+    await run(createRequest('GET', `/agents/${OTHER_AGENT_ID}`, { 'x-api-key': MANAGED_KEY }));
+    expect(mockNext).toHaveBeenCalledTimes(1);
+    expect(mockResponse.status).toHaveBeenCalledWith(403);
+  });
+
+  it('should deny restricted keys requests whose agent cannot be resolved', async () => {
+    key = createKey({
+      scopes: ['messaging'],
+      agentIds: [AGENT_ID] as ApiKey['agentIds'],
+    });
+
+    await run(createRequest('GET', '/messaging/message-servers', { 'x-api-key': MANAGED_KEY }));
+
+    expect(mockNext).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenCalledWith(403);
+  });
+
+  it('should resolve the agent of a channel from its participants', async () => {
+    key = createKey({
+      scopes: ['messaging'],
+      agentIds: [AGENT_ID] as ApiKey['agentIds'],
+    });
+    const headers = { 'x-api-key': MANAGED_KEY };
+
+    await run(createRequest('POST', `/messaging/channels/${CHANNEL_ID}/messages`, headers));
+    expect(mockNext).toHaveBeenCalledTimes(1);
+
+    await run(createRequest('POST', `/messaging/channels/${OTHER_CHANNEL_ID}/messages`, headers));
+    // Naming an allowed agent does not give access to a channel it is not part of
+    await run(
+      createRequest('POST', `/messaging/channels/${OTHER_CHANNEL_ID}/messages`, headers, {
+        agentId: AGENT_ID,
+      })
+    );
+    expect(mockNext).toHaveBeenCalledTimes(1);
+    expect(mockResponse.status).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave listings and routes checking what they load to the routes', async () => {
+    key = createKey({
+      scopes: ['agents:read', 'messaging'],
+      channelIds: [CHANNEL_ID] as ApiKey['channelIds'],
+    });
+    const headers = { 'x-api-key': MANAGED_KEY };
+
+    await run(createRequest('GET', '/agents', headers));
+    await run(createRequest('GET', '/messaging/jobs', headers));
+    await run(createRequest('GET', '/messaging/sessions/session-1/messages', headers));
+    await run(createRequest('GET', `/messaging/streams/${CHANNEL_ID}`, headers));
+    await run({
+      ...createRequest('POST', '/chat/completions', headers, { model: 'Eliza' }),
+      baseUrl: '/v1',
+    } as Request);
+
+    expect(mockNext).toHaveBeenCalledTimes(5);
+    expect(provider.getChannelParticipants).not.toHaveBeenCalled();
+  });
+
+  it('should record usage of managed keys when the response finishes', async () => {
+    await run(createRequest('GET', `/agents/${AGENT_ID}`, { 'x-api-key': MANAGED_KEY }));
+    mockResponse.emit('finish');
+
+    expect(provider.recordApiKeyUsage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        keyId: key!.id,
+        method: 'GET',
+        path: `/api/agents/${AGENT_ID}`,
+        status: 200,
+      })
+    );
+  });
+
+  it('should return 500 when the key lookup fails', async () => {
+    provider.findApiKey = jest.fn(async () => {
+      throw new Error('database unavailable');
+    });
+
+    await run(createRequest('GET', '/agents', { 'x-api-key': MANAGED_KEY }));
+
+    expect(mockNext).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenCalledWith(500);
+  });
+});
+
+describe('getRequiredScope', () => {
+  it('should map routes to scopes', () => {
+    expect(getRequiredScope('GET', '/api/agents')).toBe('agents:read');
+    expect(getRequiredScope('POST', '/api/agents')).toBe('agents:write');
+    expect(getRequiredScope('POST', '/api/messaging/submit')).toBe('messaging');
+    expect(getRequiredScope('POST', '/v1/chat/completions')).toBe('messaging');
+    expect(getRequiredScope('DELETE', `/api/memory/${AGENT_ID}/memories`)).toBe('memory:delete');
+    expect(getRequiredScope('GET', `/api/memory/${AGENT_ID}/memories`)).toBe('agents:read');
+    expect(getRequiredScope('GET', '/api/system/api-keys')).toBe('system');
+    expect(getRequiredScope('POST', '/api/webhooks')).toBe('system');
+    expect(getRequiredScope('GET', '/api/system/version')).toBe('agents:read');
+    expect(getRequiredScope('GET', `/api/agents/${AGENT_ID}/export`)).toBe('agents:read');
+    expect(
+      getRequiredScope('GET', `/api/agents/${AGENT_ID}/export`, { secrets: 'encrypted' })
+    ).toBe('system');
+  });
+
+  it('should map mixed-case paths and trailing slashes as Express routes them', () => {
+    expect(getRequiredScope('POST', '/api/SYSTEM/environment/local')).toBe('system');
+    expect(getRequiredScope('GET', '/api/Webhooks')).toBe('system');
+    expect(getRequiredScope('GET', '/api/webhooks/')).toBe('system');
+    expect(
+      getRequiredScope('GET', `/api/agents/${AGENT_ID}/EXPORT`, { secrets: 'plaintext' })
+    ).toBe('system');
+    expect(
+      getRequiredScope('GET', `/api/agents/${AGENT_ID}/export/`, { secrets: 'plaintext' })
+    ).toBe('system');
+    expect(getRequiredScope('POST', `/api/memory/${AGENT_ID}/memories/prune/`)).toBe(
+      'memory:delete'
+    );
+    expect(getRequiredScope('POST', `/api/memory/${AGENT_ID}/Memories/Prune`)).toBe(
+      'memory:delete'
+    );
+    expect(getRequiredScope('GET', '/api/System/Version/')).toBe('agents:read');
+  });
+});
+
+describe('API key targets', () => {
+  it('should tell routes that check the key themselves', () => {
+    expect(isRouteCheckedPath('/api/messaging/sessions/abc')).toBe(true);
+    expect(isRouteCheckedPath('/api/messaging/sessions/abc/messages')).toBe(true);
+    expect(isRouteCheckedPath(`/api/messaging/streams/${AGENT_ID}`)).toBe(true);
+    expect(isRouteCheckedPath('/api/messaging/jobs/job-1')).toBe(true);
+    expect(isRouteCheckedPath('/v1/chat/completions')).toBe(true);
+    expect(isRouteCheckedPath('/api/messaging/sessions')).toBe(false);
+    expect(isRouteCheckedPath('/api/messaging/sessions/health')).toBe(false);
+    expect(isRouteCheckedPath('/api/messaging/jobs/health')).toBe(false);
+    expect(isRouteCheckedPath(`/api/agents/${AGENT_ID}`)).toBe(false);
+  });
+
+  it('should tell routes acting on no agent or channel', () => {
+    expect(isUntargetedRoute('GET', '/api/agents')).toBe(true);
+    expect(isUntargetedRoute('POST', '/api/agents')).toBe(false);
+    expect(isUntargetedRoute('GET', '/api/agents/worlds')).toBe(false);
+  });
+
+  it('should deny restricted keys targets missing their agent or channel', () => {
+    const agentKey = { agentIds: [AGENT_ID] as ApiKey['agentIds'] };
+    const channelKey = { channelIds: [CHANNEL_ID] as ApiKey['channelIds'] };
+
+    expect(canAccessTarget(undefined, {})).toBe(true);
+    expect(canAccessTarget({}, {})).toBe(true);
+    expect(canAccessTarget(agentKey, { agentId: AGENT_ID })).toBe(true);
+    expect(canAccessTarget(agentKey, { agentId: OTHER_AGENT_ID })).toBe(false);
+    expect(canAccessTarget(agentKey, { channelId: CHANNEL_ID })).toBe(false);
+    expect(canAccessTarget(channelKey, { agentId: AGENT_ID, channelId: CHANNEL_ID })).toBe(true);
+    expect(canAccessTarget(channelKey, { agentId: AGENT_ID })).toBe(false);
+  });
+});
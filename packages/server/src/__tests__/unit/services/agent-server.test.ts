@@ -3,7 +3,7 @@
  * Tests constructor, properties, and method existence without complex mocks
  */
 
-import { describe, it, expect, afterEach } from 'bun:test';
+import { describe, it, expect, afterEach, jest } from 'bun:test';
 import { AgentServer } from '../../../index';
 
 describe('AgentServer', () => {
@@ -59,4 +59,30 @@ describe('AgentServer', () => {
       expect(typeof server[method]).toBe('function');
     }
   });
+
+  it('should cache API key lookups until a key is revoked', async () => {
+    server = new AgentServer();
+    const getApiKeyByHash = jest.fn(async () => ({
+      id: '33333333-3333-3333-3333-333333333333',
+      name: 'dashboard',
+      prefix: 'eliza_manag',
+      keyHash: 'hash',
+      scopes: ['agents:read'],
+      createdAt: new Date(),
+    }));
+    server.database = {
+      getApiKeyByHash,
+      revokeApiKey: jest.fn(async () => true),
+    } as unknown as AgentServer['database'];
+
+    await server.findApiKey('eliza_key');
+    await server.findApiKey('eliza_key');
+    await server.findApiKey('eliza_unknown');
+    await server.findApiKey('eliza_unknown');
+    expect(getApiKeyByHash).toHaveBeenCalledTimes(2);
+
+    await server.revokeApiKey('33333333-3333-3333-3333-333333333333');
+    await server.findApiKey('eliza_key');
+    expect(getApiKeyByHash).toHaveBeenCalledTimes(3);
+  });
 });
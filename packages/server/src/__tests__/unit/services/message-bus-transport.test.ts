@@ -0,0 +1,166 @@
+/**
+ * Unit tests for message bus transports
+ * Tests that events are relayed between bus instances without echoing back to the sender
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { InternalMessageBus } from '../../../services/message-bus';
+import {
+  InMemoryMessageBusTransport,
+  type MessageBusEnvelopeHandler,
+} from '../../../services/message-bus-transport';
+import {
+  PostgresMessageBusTransport,
+  type NotificationClient,
+} from '../../../services/postgres-message-bus-transport';
+
+/**
+ * Stand-in for the plugin-sql notification client: delivers every notification
+ * to all listeners on the same channel, like Postgres does across connections.
+ */
+function createFakeNotificationClient() {
+  const listeners = new Map<string, Set<(payload: string) => void>>();
+  const sent: string[] = [];
+
+  const client: NotificationClient = {
+    listen: async (channel, onNotification) => {
+      if (!listeners.has(channel)) {
+        listeners.set(channel, new Set());
+      }
+      listeners.get(channel)!.add(onNotification);
+      return async () => {
+        listeners.get(channel)?.delete(onNotification);
+      };
+    },
+    notify: async (channel, payload) => {
+      sent.push(payload);
+      for (const listener of listeners.get(channel) ?? []) {
+        listener(payload);
+      }
+    },
+  };
+
+  return { client, sent, listeners };
+}
+
+describe('Message Bus Transports', () => {
+  describe('InMemoryMessageBusTransport', () => {
+    it('should relay events between buses sharing peers', async () => {
+      const peers = new Set<MessageBusEnvelopeHandler>();
+      const busA = new InternalMessageBus(new InMemoryMessageBusTransport(peers));
+      const busB = new InternalMessageBus(new InMemoryMessageBusTransport(peers));
+
+      const receivedA: unknown[] = [];
+      const receivedB: unknown[] = [];
+      busA.on('new_message', (data) => {
+        receivedA.push(data);
+      });
+      busB.on('new_message', (data) => {
+        receivedB.push(data);
+      });
+
+      const message = { id: 'msg-1', content: 'hello' } as any;
+      expect(busA.emit('new_message', message)).toBe(true);
+
+      // Delivered once locally and once to the peer, never echoed back
+      expect(receivedA).toEqual([message]);
+      expect(receivedB).toEqual([message]);
+    });
+
+    it('should keep the default bus process-local', () => {
+      const busA = new InternalMessageBus();
+      const busB = new InternalMessageBus();
+
+      let receivedB = 0;
+      busB.on('message_deleted', () => {
+        receivedB++;
+      });
+
+      busA.emit('message_deleted', { messageId: 'msg-1' } as any);
+      expect(receivedB).toBe(0);
+    });
+
+    it('should stop relaying after the transport is replaced', async () => {
+      const peers = new Set<MessageBusEnvelopeHandler>();
+      const busA = new InternalMessageBus(new InMemoryMessageBusTransport(peers));
+      const busB = new InternalMessageBus(new InMemoryMessageBusTransport(peers));
+
+      let receivedB = 0;
+      busB.on('channel_cleared', () => {
+        receivedB++;
+      });
+
+      await busB.setTransport(null);
+      busA.emit('channel_cleared', { channelId: 'channel-1' } as any);
+
+      expect(receivedB).toBe(0);
+      expect(busB.getTransport().name).toBe('memory');
+    });
+  });
+
+  describe('PostgresMessageBusTransport', () => {
+    it('should relay events between buses through notifications', async () => {
+      const { client } = createFakeNotificationClient();
+      const busA = new InternalMessageBus();
+      const busB = new InternalMessageBus();
+      await busA.setTransport(new PostgresMessageBusTransport(client));
+      await busB.setTransport(new PostgresMessageBusTransport(client));
+
+      const receivedA: unknown[] = [];
+      const receivedB: unknown[] = [];
+      busA.on('new_message', (data) => {
+        receivedA.push(data);
+      });
+      busB.on('new_message', (data) => {
+        receivedB.push(data);
+      });
+
+      const message = { id: 'msg-1', content: 'hello', metadata: { nested: [1, 2] } } as any;
+      busA.emit('new_message', message);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(receivedA).toEqual([message]);
+      expect(receivedB).toEqual([message]);
+    });
+
+    it('should split large envelopes into chunks and reassemble them', async () => {
+      const { client, sent } = createFakeNotificationClient();
+      const received: string[] = [];
+      const sender = new PostgresMessageBusTransport(client, { chunkSize: 100 });
+      const receiver = new PostgresMessageBusTransport(client, { chunkSize: 100 });
+      await receiver.start((envelope) => {
+        received.push((envelope.data as { content: string }).content);
+      });
+
+      const content = 'x'.repeat(450) + '😀'.repeat(50);
+      await sender.publish({ origin: 'node-a', event: 'new_message', data: { content } });
+
+      expect(sent.length).toBeGreaterThan(1);
+      expect(received).toEqual([content]);
+    });
+
+    it('should ignore malformed notifications', async () => {
+      const { client } = createFakeNotificationClient();
+      const received: unknown[] = [];
+      const transport = new PostgresMessageBusTransport(client);
+      await transport.start((envelope) => {
+        received.push(envelope);
+      });
+
+      await client.notify('eliza_message_bus', 'not a bus payload');
+      await client.notify('eliza_message_bus', 'abc:0:1:{broken json');
+
+      expect(received).toHaveLength(0);
+    });
+
+    it('should stop listening when stopped', async () => {
+      const { client, listeners } = createFakeNotificationClient();
+      const transport = new PostgresMessageBusTransport(client, { channel: 'custom_bus' });
+      await transport.start(() => {});
+      expect(listeners.get('custom_bus')?.size).toBe(1);
+
+      await transport.stop();
+      expect(listeners.get('custom_bus')?.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,505 @@
+/**
+ * Unit tests for the webhook dispatcher
+ * Tests event filtering, delivery signatures, retries into the dead-letter queue,
+ * queueing message bus events once across server replicas and the URL checks
+ */
+
+import { describe, it, expect, afterEach, jest } from 'bun:test';
+import { createHmac } from 'node:crypto';
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { EventType, type IAgentRuntime, type UUID } from '@elizaos/core';
+import type { AgentServer } from '../../../index';
+import internalMessageBus from '../../../services/message-bus';
+import {
+  WebhookDispatcher,
+  getWebhookRetryDelay,
+  type WebhookDispatcherOptions,
+} from '../../../services/webhooks';
+import type { WebhookDeliveryRecord, WebhookRecord } from '../../../types/webhooks';
+import { checkWebhookUrl, isPrivateAddress, sendWebhookRequest } from '../../../utils/webhooks';
+
+const AGENT_ID = '11111111-1111-4111-8111-111111111111' as UUID;
+const OTHER_AGENT_ID = '22222222-2222-4222-8222-222222222222' as UUID;
+const CHANNEL_ID = '33333333-3333-4333-8333-333333333333' as UUID;
+const ROOM_ID = '44444444-4444-4444-8444-444444444444' as UUID;
+const SECRET = 'whsec_test-secret-value';
+
+/**
+ * In-memory stand-in for the webhook operations of the database adapter
+ */
+function createFakeDatabase() {
+  const webhooks = new Map<UUID, WebhookRecord>();
+  const deliveries = new Map<UUID, WebhookDeliveryRecord>();
+
+  const database = {
+    getWebhooks: async () => Array.from(webhooks.values()),
+    getWebhook: async (id: UUID) => webhooks.get(id) ?? null,
+    createWebhookDelivery: async (data: Omit<WebhookDeliveryRecord, 'updatedAt'>) => {
+      if (deliveries.has(data.id)) {
+        return false;
+      }
+      deliveries.set(data.id, { ...data, updatedAt: data.createdAt });
+      return true;
+    },
+    getWebhookDelivery: async (id: UUID) => {
+      const delivery = deliveries.get(id);
+      return delivery ? { ...delivery } : null;
+    },
+    updateWebhookDelivery: async (id: UUID, patch: Partial<WebhookDeliveryRecord>) => {
+      const delivery = deliveries.get(id);
+      if (delivery) {
+        deliveries.set(id, { ...delivery, ...patch, updatedAt: new Date() });
+      }
+    },
+    claimWebhookDeliveries: async (now: Date, leaseUntil: Date, limit: number) => {
+      const due = Array.from(deliveries.values())
+        .filter(
+          (delivery) =>
+            delivery.status === 'pending' &&
+            delivery.nextAttemptAt !== undefined &&
+            delivery.nextAttemptAt <= now
+        )
+        .slice(0, limit);
+      for (const delivery of due) {
+        delivery.nextAttemptAt = leaseUntil;
+      }
+      return due.map((delivery) => ({ ...delivery }));
+    },
+    requeueWebhookDelivery: async (id: UUID, now: Date) => {
+      const delivery = deliveries.get(id);
+      if (!delivery || delivery.status === 'pending') {
+        return null;
+      }
+      const requeued: WebhookDeliveryRecord = {
+        ...delivery,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        responseStatus: undefined,
+        lastError: undefined,
+        updatedAt: now,
+      };
+      deliveries.set(id, requeued);
+      return { ...requeued };
+    },
+    deleteWebhookDeliveries: async () => 0,
+  };
+
+  const addWebhook = (overrides: Partial<WebhookRecord> = {}): WebhookRecord => {
+    const webhook: WebhookRecord = {
+      id: crypto.randomUUID() as UUID,
+      url: 'https://example.com/hooks',
+      secret: SECRET,
+      events: [EventType.RUN_ENDED],
+      enabled: true,
+      createdAt: new Date(),
+      ...overrides,
+    };
+    webhooks.set(webhook.id, webhook);
+    return webhook;
+  };
+
+  return {
+    server: { database } as unknown as Pick<AgentServer, 'database'>,
+    deliveries,
+    addWebhook,
+  };
+}
+
+function createFakeFetch(status = 200) {
+  const requests: { url: string; init: RequestInit; address?: string }[] = [];
+  const fetch = async (url: string, init: RequestInit, address?: string) => {
+    requests.push({ url, init, address });
+    return new Response(null, { status });
+  };
+  return { fetch, requests, setStatus: (next: number) => (status = next) };
+}
+
+// Resolution is stubbed so that tests do not depend on DNS
+function createDispatcher(
+  server: Pick<AgentServer, 'database'>,
+  options: Partial<WebhookDispatcherOptions> = {}
+) {
+  return new WebhookDispatcher(server, { resolveUrl: async () => ({ error: null }), ...options });
+}
+
+function createRuntime(agentId: UUID = AGENT_ID) {
+  const events = new Map<string, ((payload: unknown) => Promise<void>)[]>();
+  return {
+    agentId,
+    events,
+    registerEvent: (event: string, handler: (payload: unknown) => Promise<void>) => {
+      events.set(event, [...(events.get(event) ?? []), handler]);
+    },
+    getRoom: jest.fn(async (roomId: UUID) =>
+      roomId === ROOM_ID ? { id: ROOM_ID, channelId: CHANNEL_ID } : null
+    ),
+  };
+}
+
+type FakeRuntime = ReturnType<typeof createRuntime>;
+
+/** Registers the plugin on the payload's runtime, as agents do on start, and emits the event */
+async function emitRuntimeEvent(
+  dispatcher: WebhookDispatcher,
+  event: EventType,
+  payload: Record<string, unknown> & { runtime: FakeRuntime }
+) {
+  await dispatcher.plugin.init?.({}, payload.runtime as unknown as IAgentRuntime);
+  for (const handler of payload.runtime.events.get(event) ?? []) {
+    await handler(payload);
+  }
+  await flush();
+}
+
+// Lets the deliveries queued in the background reach the fake database
+async function flush() {
+  for (let i = 0; i < 10; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
+
+describe('WebhookDispatcher', () => {
+  const dispatchers: WebhookDispatcher[] = [];
+
+  afterEach(() => {
+    for (const dispatcher of dispatchers.splice(0)) {
+      dispatcher.stop();
+    }
+  });
+
+  it('should queue runtime events for matching webhooks only', async () => {
+    const { server, deliveries, addWebhook } = createFakeDatabase();
+    const all = addWebhook();
+    addWebhook({ agentIds: [OTHER_AGENT_ID] });
+    const byChannel = addWebhook({ channelIds: [CHANNEL_ID] });
+    addWebhook({ events: [EventType.MESSAGE_SENT] });
+    addWebhook({ enabled: false });
+
+    const dispatcher = createDispatcher(server, { fetch: createFakeFetch().fetch });
+    await dispatcher.refresh();
+
+    await emitRuntimeEvent(dispatcher, EventType.RUN_ENDED, {
+      runtime: createRuntime(),
+      runId: 'run-1',
+      roomId: ROOM_ID,
+      status: 'completed',
+      source: 'test',
+    });
+
+    const queued = Array.from(deliveries.values());
+    expect(queued.map((delivery) => delivery.webhookId).sort()).toEqual(
+      [all.id, byChannel.id].sort()
+    );
+    expect(queued[0].payload).toMatchObject({
+      event: EventType.RUN_ENDED,
+      agentId: AGENT_ID,
+      channelId: CHANNEL_ID,
+      data: { runId: 'run-1', roomId: ROOM_ID, status: 'completed' },
+    });
+    expect(queued[0].payload.data).not.toHaveProperty('runtime');
+  });
+
+  it('should sign deliveries with the webhook secret', async () => {
+    const { server, deliveries, addWebhook } = createFakeDatabase();
+    const webhook = addWebhook();
+    const { fetch, requests } = createFakeFetch();
+
+    const dispatcher = createDispatcher(server, { fetch });
+    await dispatcher.refresh();
+    await emitRuntimeEvent(dispatcher, EventType.RUN_ENDED, { runtime: createRuntime() });
+    await dispatcher.processDue();
+
+    expect(requests).toHaveLength(1);
+    const { url, init } = requests[0];
+    const headers = init.headers as Record<string, string>;
+    const [delivery] = Array.from(deliveries.values());
+    expect(url).toBe(webhook.url);
+    expect(headers['X-Eliza-Event']).toBe(EventType.RUN_ENDED);
+    expect(headers['X-Eliza-Delivery']).toBe(delivery.id);
+
+    const [, timestamp, signature] = headers['X-Eliza-Signature'].match(/^t=(\d+),v1=(\w+)$/)!;
+    const expected = createHmac('sha256', SECRET)
+      .update(`${timestamp}.${init.body as string}`)
+      .digest('hex');
+    expect(signature).toBe(expected);
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.responseStatus).toBe(200);
+  });
+
+  it('should retry failed deliveries with backoff into the dead-letter queue', async () => {
+    const { server, deliveries, addWebhook } = createFakeDatabase();
+    addWebhook();
+    const { fetch, requests, setStatus } = createFakeFetch(500);
+
+    const dispatcher = createDispatcher(server, {
+      fetch,
+      maxAttempts: 2,
+      retryBaseMs: 1000,
+    });
+    await dispatcher.refresh();
+    await emitRuntimeEvent(dispatcher, EventType.RUN_ENDED, { runtime: createRuntime() });
+
+    const before = Date.now();
+    await dispatcher.processDue();
+    let [delivery] = Array.from(deliveries.values());
+    expect(delivery.status).toBe('pending');
+    expect(delivery.attempts).toBe(1);
+    expect(delivery.lastError).toBe('HTTP 500');
+    expect(delivery.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(before + 1000);
+
+    // Not due yet
+    await dispatcher.processDue();
+    expect(requests).toHaveLength(1);
+
+    delivery.nextAttemptAt = new Date();
+    await dispatcher.processDue();
+    [delivery] = Array.from(deliveries.values());
+    expect(requests).toHaveLength(2);
+    expect(delivery.status).toBe('dead_letter');
+    expect(delivery.attempts).toBe(2);
+    expect(delivery.nextAttemptAt).toBeUndefined();
+
+    setStatus(204);
+    const redelivered = await dispatcher.redeliver(delivery.id);
+    expect(redelivered).toMatchObject({
+      requeued: true,
+      delivery: { status: 'pending', attempts: 0 },
+    });
+    await dispatcher.processDue();
+    [delivery] = Array.from(deliveries.values());
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts).toBe(1);
+    expect(delivery.lastError).toBeUndefined();
+  });
+
+  it('should compute exponential retry delays up to the maximum', () => {
+    const options = { retryBaseMs: 1000, retryMaxMs: 5000 };
+    expect(getWebhookRetryDelay(1, options)).toBe(1000);
+    expect(getWebhookRetryDelay(2, options)).toBe(2000);
+    expect(getWebhookRetryDelay(3, options)).toBe(4000);
+    expect(getWebhookRetryDelay(4, options)).toBe(5000);
+  });
+
+  it('should queue a message bus event once across server replicas', async () => {
+    const { server, deliveries, addWebhook } = createFakeDatabase();
+    addWebhook({ events: ['new_message'], channelIds: [CHANNEL_ID] });
+
+    for (let i = 0; i < 2; i++) {
+      const dispatcher = createDispatcher(server, {
+        fetch: createFakeFetch().fetch,
+        pollIntervalMs: 60 * 60 * 1000,
+      });
+      dispatchers.push(dispatcher);
+      await dispatcher.start();
+    }
+
+    internalMessageBus.emit('new_message', {
+      id: crypto.randomUUID() as UUID,
+      channel_id: CHANNEL_ID,
+      message_server_id: crypto.randomUUID() as UUID,
+      author_id: AGENT_ID,
+      content: 'hello',
+      created_at: Date.now(),
+    });
+    internalMessageBus.emit('new_message', {
+      id: crypto.randomUUID() as UUID,
+      channel_id: crypto.randomUUID() as UUID,
+      message_server_id: crypto.randomUUID() as UUID,
+      author_id: AGENT_ID,
+      content: 'elsewhere',
+      created_at: Date.now(),
+    });
+    await flush();
+
+    const queued = Array.from(deliveries.values());
+    expect(queued).toHaveLength(1);
+    expect(queued[0].payload).toMatchObject({
+      event: 'new_message',
+      channelId: CHANNEL_ID,
+      data: { content: 'hello' },
+    });
+  });
+
+  it('should only register handlers for subscribed runtime events', async () => {
+    const { server, addWebhook } = createFakeDatabase();
+    addWebhook();
+    const dispatcher = createDispatcher(server, { fetch: createFakeFetch().fetch });
+    await dispatcher.refresh();
+
+    const runtime = createRuntime();
+    await dispatcher.plugin.init?.({}, runtime as unknown as IAgentRuntime);
+    expect(Array.from(runtime.events.keys())).toEqual([EventType.RUN_ENDED]);
+
+    // Subscriptions created later reach agents that are already running
+    addWebhook({ events: [EventType.MESSAGE_SENT] });
+    await dispatcher.refresh();
+    expect(Array.from(runtime.events.keys()).sort()).toEqual(
+      [EventType.MESSAGE_SENT, EventType.RUN_ENDED].sort()
+    );
+    expect(runtime.events.has(EventType.MODEL_USED)).toBe(false);
+  });
+
+  it('should queue a runtime event emitted twice once and look its room up once', async () => {
+    const { server, deliveries, addWebhook } = createFakeDatabase();
+    addWebhook();
+    const dispatcher = createDispatcher(server, { fetch: createFakeFetch().fetch });
+    await dispatcher.refresh();
+
+    const runtime = createRuntime();
+    const payload = { runtime, runId: 'run-1', roomId: ROOM_ID, status: 'completed' };
+    await emitRuntimeEvent(dispatcher, EventType.RUN_ENDED, payload);
+    await emitRuntimeEvent(dispatcher, EventType.RUN_ENDED, payload);
+    await emitRuntimeEvent(dispatcher, EventType.RUN_ENDED, { ...payload, runId: 'run-2' });
+
+    expect(deliveries.size).toBe(2);
+    expect(runtime.getRoom).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not redeliver a delivery that is still pending', async () => {
+    const { server, deliveries, addWebhook } = createFakeDatabase();
+    addWebhook();
+    const dispatcher = createDispatcher(server, { fetch: createFakeFetch().fetch });
+    await dispatcher.refresh();
+    await emitRuntimeEvent(dispatcher, EventType.RUN_ENDED, { runtime: createRuntime() });
+
+    const [delivery] = Array.from(deliveries.values());
+    // Leased by another replica
+    delivery.nextAttemptAt = new Date(Date.now() + 60000);
+
+    const result = await dispatcher.redeliver(delivery.id);
+    expect(result?.requeued).toBe(false);
+    expect(deliveries.get(delivery.id)?.nextAttemptAt).toEqual(delivery.nextAttemptAt);
+    expect(await dispatcher.redeliver(crypto.randomUUID() as UUID)).toBeNull();
+  });
+
+  it('should send deliveries to the address the URL check resolved', async () => {
+    const { server, addWebhook } = createFakeDatabase();
+    addWebhook();
+    const { fetch, requests } = createFakeFetch();
+    const dispatcher = createDispatcher(server, {
+      fetch,
+      resolveUrl: async () => ({ error: null, address: '93.184.216.34' }),
+    });
+    await dispatcher.refresh();
+    await emitRuntimeEvent(dispatcher, EventType.RUN_ENDED, { runtime: createRuntime() });
+    await dispatcher.processDue();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].address).toBe('93.184.216.34');
+  });
+
+  it('should not send deliveries to URLs that fail the address check', async () => {
+    const { server, deliveries, addWebhook } = createFakeDatabase();
+    addWebhook({ url: 'http://169.254.169.254/latest/meta-data' });
+    const { fetch, requests } = createFakeFetch();
+    const dispatcher = new WebhookDispatcher(server, { fetch });
+    await dispatcher.refresh();
+    await emitRuntimeEvent(dispatcher, EventType.RUN_ENDED, { runtime: createRuntime() });
+    await dispatcher.processDue();
+
+    const [delivery] = Array.from(deliveries.values());
+    expect(requests).toHaveLength(0);
+    expect(delivery.status).toBe('pending');
+    expect(delivery.lastError).toContain('private');
+  });
+});
+
+describe('checkWebhookUrl', () => {
+  function resolveTo(...addresses: string[]) {
+    return async () => addresses;
+  }
+
+  it('should flag loopback, private, link-local and metadata addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      'fd00:ec2::254',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      // IPv4-mapped and IPv4-compatible addresses as the URL parser writes them
+      '::ffff:7f00:1',
+      '::ffff:a9fe:a9fe',
+      '0:0:0:0:0:ffff:a00:5',
+      '::7f00:1',
+      'not-an-address',
+    ]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    expect(isPrivateAddress('93.184.216.34')).toBe(false);
+    expect(isPrivateAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(false);
+    expect(isPrivateAddress('::ffff:5db8:d822')).toBe(false);
+  });
+
+  it('should reject URLs of IPv4-mapped private addresses', async () => {
+    expect(await checkWebhookUrl('http://[::ffff:127.0.0.1]:3000/', resolveTo())).not.toBeNull();
+    expect(await checkWebhookUrl('http://[::ffff:169.254.169.254]/', resolveTo())).not.toBeNull();
+    expect(await checkWebhookUrl('http://[::127.0.0.1]/', resolveTo())).not.toBeNull();
+  });
+
+  it('should reject URLs whose host resolves to a private address', async () => {
+    expect(
+      await checkWebhookUrl('https://hooks.example.com', resolveTo('93.184.216.34'))
+    ).toBeNull();
+    expect(
+      await checkWebhookUrl('https://hooks.example.com', resolveTo('93.184.216.34', '10.0.0.5'))
+    ).not.toBeNull();
+    expect(await checkWebhookUrl('http://[::1]:3000/hook', resolveTo())).not.toBeNull();
+    expect(await checkWebhookUrl('ftp://example.com', resolveTo('93.184.216.34'))).not.toBeNull();
+    expect(
+      await checkWebhookUrl('https://missing.example', async () => {
+        throw new Error('ENOTFOUND');
+      })
+    ).toContain('could not be resolved');
+  });
+
+  it('should allow private addresses when WEBHOOK_ALLOW_PRIVATE_URLS is set', async () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'true';
+    try {
+      expect(
+        await checkWebhookUrl('http://localhost:3000/hook', resolveTo('127.0.0.1'))
+      ).toBeNull();
+    } finally {
+      delete process.env.WEBHOOK_ALLOW_PRIVATE_URLS;
+    }
+  });
+});
+
+describe('sendWebhookRequest', () => {
+  it('should connect to the given address instead of resolving the host again', async () => {
+    let received: { headers: IncomingHttpHeaders; body: string } | undefined;
+    const receiver = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received = { headers: req.headers, body };
+        res.statusCode = 202;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+    const { port } = receiver.address() as AddressInfo;
+
+    try {
+      // The host name does not resolve, so only the given address can be reached
+      const response = await sendWebhookRequest(
+        `http://hooks.example.invalid:${port}/hook`,
+        { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{"ok":true}' },
+        '127.0.0.1'
+      );
+
+      expect(response.status).toBe(202);
+      expect(received?.headers.host).toBe(`hooks.example.invalid:${port}`);
+      expect(received?.body).toBe('{"ok":true}');
+    } finally {
+      receiver.close();
+    }
+  });
+});
@@ -0,0 +1,184 @@
+import type {
+  AgentBundleImportMode,
+  AgentBundleSecretsMode,
+  Character,
+  ElizaOS,
+} from '@elizaos/core';
+import {
+  AgentBundleError,
+  exportAgentBundle,
+  getAgentFromBundle,
+  importAgentBundle,
+  logger,
+  validateAgentBundle,
+  validateUuid,
+} from '@elizaos/core';
+import express from 'express';
+import type { AgentServer } from '../../index';
+import { sendError, sendSuccess } from '../shared/response-utils';
+
+const SECRETS_MODES: AgentBundleSecretsMode[] = ['omit', 'encrypted', 'plaintext'];
+const IMPORT_MODES: AgentBundleImportMode[] = ['merge', 'replace'];
+
+/**
+ * Parse an optional non-negative integer query parameter
+ */
+function parseCountParam(value: unknown): number | null | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  return /^\d+$/.test(String(value)) ? Number(value) : null;
+}
+
+/**
+ * Agent export and import as versioned bundles
+ */
+export function createAgentBundleRouter(
+  elizaOS: ElizaOS,
+  serverInstance: AgentServer
+): express.Router {
+  const router = express.Router();
+  const db = serverInstance?.database;
+
+  // Export an agent with its data. memoryOffset and memoryLimit export a page of each
+  // memory table, so large agents can be exported and imported (in merge mode) in parts.
+  router.get('/:agentId/export', async (req, res) => {
+    const agentId = validateUuid(req.params.agentId);
+    if (!agentId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid agent ID format');
+    }
+
+    const secrets = (req.query.secrets as string | undefined) ?? 'omit';
+    if (!SECRETS_MODES.includes(secrets as AgentBundleSecretsMode)) {
+      return sendError(
+        res,
+        400,
+        'INVALID_REQUEST',
+        `secrets must be one of: ${SECRETS_MODES.join(', ')}`
+      );
+    }
+    const tables =
+      typeof req.query.tables === 'string'
+        ? req.query.tables.split(',').filter(Boolean)
+        : undefined;
+
+    const memoryOffset = parseCountParam(req.query.memoryOffset);
+    const memoryLimit = parseCountParam(req.query.memoryLimit);
+    if (memoryOffset === null || memoryLimit === null || memoryLimit === 0) {
+      return sendError(
+        res,
+        400,
+        'INVALID_REQUEST',
+        'memoryOffset must be a non-negative integer and memoryLimit a positive integer'
+      );
+    }
+
+    const runtime = elizaOS.getAgent(agentId);
+    if (!runtime) {
+      return sendError(res, 404, 'NOT_FOUND', 'Agent not found');
+    }
+
+    try {
+      const bundle = await exportAgentBundle(runtime, {
+        secrets: secrets as AgentBundleSecretsMode,
+        tables,
+        memoryOffset,
+        memoryLimit,
+      });
+      sendSuccess(res, bundle);
+    } catch (error) {
+      logger.error(
+        { src: 'http', agentId, error: error instanceof Error ? error.message : String(error) },
+        'Error exporting agent'
+      );
+      sendError(
+        res,
+        500,
+        'EXPORT_ERROR',
+        'Error exporting agent',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  });
+
+  // Import an agent bundle, creating or updating the agent and starting it
+  router.post('/import', async (req, res) => {
+    if (!db) {
+      return sendError(res, 500, 'DB_ERROR', 'Database not available');
+    }
+
+    const { bundle: body, mode = 'merge', remapIds = false, agentId: requestedId } = req.body ?? {};
+    if (!IMPORT_MODES.includes(mode)) {
+      return sendError(
+        res,
+        400,
+        'INVALID_REQUEST',
+        `mode must be one of: ${IMPORT_MODES.join(', ')}`
+      );
+    }
+    if (requestedId !== undefined && !validateUuid(requestedId)) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid agent ID format');
+    }
+
+    try {
+      const bundle = validateAgentBundle(body);
+      // Remapped bundles get a new agent, unless the caller picks its ID
+      const agentId = validateUuid(
+        remapIds ? (requestedId ?? crypto.randomUUID()) : bundle.agent.id
+      );
+      if (!agentId) {
+        throw new AgentBundleError('Bundle agent has an invalid ID');
+      }
+
+      const existing = await db.getAgent(agentId);
+      const agent = getAgentFromBundle(bundle, agentId, existing);
+      if (!existing) {
+        await db.createAgent(agent);
+      } else if (mode === 'replace') {
+        await db.updateAgent(agentId, agent);
+      }
+
+      let runtime = elizaOS.getAgent(agentId);
+      if (runtime && mode === 'replace') {
+        await serverInstance.unregisterAgent(agentId);
+        runtime = undefined;
+      }
+      if (!runtime) {
+        const stored = await db.getAgent(agentId);
+        const {
+          enabled: _enabled,
+          status: _status,
+          createdAt: _createdAt,
+          updatedAt: _updatedAt,
+          ...character
+        } = stored ?? agent;
+        await serverInstance.startAgents([{ character: character as Character }]);
+        runtime = elizaOS.getAgent(agentId);
+      }
+      if (!runtime) {
+        throw new Error('Failed to start imported agent');
+      }
+
+      const result = await importAgentBundle(runtime, bundle, { mode, remapIds });
+      logger.success({ src: 'http', agentId, mode, remapIds }, 'Agent imported');
+      sendSuccess(res, result, existing ? 200 : 201);
+    } catch (error) {
+      if (error instanceof AgentBundleError) {
+        return sendError(res, 400, error.code, error.message);
+      }
+      logger.error(
+        { src: 'http', error: error instanceof Error ? error.message : String(error) },
+        'Error importing agent'
+      );
+      sendError(
+        res,
+        500,
+        'IMPORT_ERROR',
+        'Error importing agent',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  });
+
+  return router;
+}
@@ -2,6 +2,8 @@ import type { Agent, Character, ElizaOS } from '@elizaos/core';
 import { validateUuid, logger, getSalt, encryptObjectValues } from '@elizaos/core';
 import express from 'express';
 import type { AgentServer } from '../../index';
+import type { ApiKeyAuthRequest } from '../../middleware';
+import { canAccessTarget } from '../../utils/api-keys';
 import { sendError, sendSuccess } from '../shared/response-utils';
 
 /**
@@ -15,7 +17,7 @@ export function createAgentCrudRouter(
   const db = serverInstance?.database;
 
   // List all agents with minimal details
-  router.get('/', async (_, res) => {
+  router.get('/', async (req: ApiKeyAuthRequest, res) => {
     try {
       if (!db) {
         return sendError(res, 500, 'DB_ERROR', 'Database not available');
@@ -32,7 +34,8 @@ export function createAgentCrudRouter(
           bio: agent.bio?.[0] ?? '',
           status: agent.id && runtimes.includes(agent.id) ? 'active' : 'inactive',
         }))
-        .filter((agent) => agent.id) // Filter out agents without IDs
+        // Filter out agents without IDs, and those the API key may not access
+        .filter((agent) => agent.id && canAccessTarget(req.apiKey, { agentId: agent.id }))
         .sort((a: any, b: any) => {
           if (a.status === b.status) {
             return a.name.localeCompare(b.name);
@@ -208,82 +211,48 @@ export function createAgentCrudRouter(
 
       const updatedAgent = await db.getAgent(agentId);
 
-      // Detect if plugins have changed - this requires a full restart
-      let needsRestart = false;
-      if (currentAgent && activeRuntime && updatedAgent) {
-        // Validate plugins array structure
-        if (updatedAgent.plugins && !Array.isArray(updatedAgent.plugins)) {
-          throw new Error('plugins must be an array');
-        }
-
-        interface PluginWithName {
-          name: string;
-          [key: string]: unknown;
-        }
-        const currentPlugins = (currentAgent.plugins || [])
-          .filter((p) => p !== null && p !== undefined)
-          .map((p) => (typeof p === 'string' ? p : (p as PluginWithName).name))
-          .filter((name) => typeof name === 'string')
-          .sort();
-
-        const updatedPlugins = (updatedAgent.plugins || [])
-          .filter((p) => p !== null && p !== undefined)
-          .map((p) => (typeof p === 'string' ? p : (p as PluginWithName).name))
-          .filter((name) => typeof name === 'string')
-          .sort();
-
-        const pluginsChanged =
-          currentPlugins.length !== updatedPlugins.length ||
-          currentPlugins.some((plugin, idx) => plugin !== updatedPlugins[idx]);
-
-        needsRestart = pluginsChanged;
+      if (updatedAgent?.plugins && !Array.isArray(updatedAgent.plugins)) {
+        throw new Error('plugins must be an array');
       }
 
-      // Check if agent is currently active
+      // Apply the changes to the running agent, including plugin changes, without a restart
       if (activeRuntime && updatedAgent) {
-        if (needsRestart) {
-          // Plugins changed - need full restart
-          try {
-            await serverInstance?.unregisterAgent(agentId);
-
-            const {
-              enabled: _enabled,
-              status: _status,
-              createdAt: _createdAt,
-              updatedAt: _updatedAt,
-              ...characterData
-            } = updatedAgent;
-            const runtimes = await serverInstance?.startAgents([
-              { character: characterData as Character },
-            ]);
-            if (!runtimes || runtimes.length === 0) {
-              throw new Error('Failed to restart agent after configuration change');
-            }
-            logger.debug({ src: 'http', agentId }, 'Agent restarted after config change');
-          } catch (restartError) {
-            logger.error({ src: 'http', error: restartError, agentId }, 'Failed to restart agent');
-
-            // Try to restore the agent with the previous configuration
-            try {
-              const { enabled, status, createdAt, updatedAt, ...previousCharacterData } =
-                currentAgent!;
-              await serverInstance?.startAgents([
-                { character: previousCharacterData as Character },
-              ]);
-              logger.warn({ src: 'http', agentId }, 'Restored agent to previous state');
-            } catch (restoreError) {
-              logger.error(
-                { src: 'http', error: restoreError, agentId },
-                'Failed to restore agent - may be in broken state'
-              );
-            }
-
-            throw restartError;
+        const {
+          enabled: _enabled,
+          status: _status,
+          createdAt: _createdAt,
+          updatedAt: _updatedAt,
+          ...characterData
+        } = updatedAgent;
+        try {
+          const { addedPlugins, removedPlugins } = await elizaOS.reloadAgent(
+            agentId,
+            characterData as Character
+          );
+          logger.debug({ src: 'http', agentId, addedPlugins, removedPlugins }, 'Agent reloaded');
+        } catch (reloadError) {
+          // The running agent kept its previous configuration; keep the stored one in sync
+          if (currentAgent && Object.keys(updates).length > 0) {
+            const previousValues = Object.fromEntries(
+              Object.keys(updates).map((key) => [key, currentAgent[key as keyof Agent] ?? null])
+            );
+            await db.updateAgent(agentId, previousValues as Partial<Agent>);
           }
-        } else {
-          // Only character properties changed - can update in-place
-          const { enabled, status, createdAt, updatedAt, ...characterData } = updatedAgent;
-          await elizaOS.updateAgent(agentId, characterData as Character);
+          logger.error(
+            {
+              src: 'http',
+              agentId,
+              error: reloadError instanceof Error ? reloadError.message : String(reloadError),
+            },
+            'Failed to reload agent'
+          );
+          return sendError(
+            res,
+            500,
+            'RELOAD_ERROR',
+            'Error applying changes to the running agent',
+            reloadError instanceof Error ? reloadError.message : String(reloadError)
+          );
         }
       }
 
@@ -2,11 +2,16 @@ import type { ElizaOS } from '@elizaos/core';
 import express from 'express';
 import type { AgentServer } from '../../index';
 import { createAgentCrudRouter } from './crud';
+import { createAgentBundleRouter } from './bundle';
 import { createAgentLifecycleRouter } from './lifecycle';
 import { createAgentWorldsRouter } from './worlds';
 import { createAgentPanelsRouter } from './panels';
 import { createAgentLogsRouter } from './logs';
 import { createAgentRunsRouter } from './runs';
+import { createAgentTasksRouter } from './tasks';
+import { createAgentUsageRouter } from './usage';
+import { createAgentStateCacheRouter } from './state-cache';
+import { createAgentTemplatesRouter } from './templates';
 import { createAgentMemoryRouter } from '../memory/agents';
 import { createRoomManagementRouter } from '../memory/rooms';
 
@@ -19,6 +24,9 @@ export function agentsRouter(elizaOS: ElizaOS, serverInstance: AgentServer): exp
   // Mount CRUD operations at root level
   router.use('/', createAgentCrudRouter(elizaOS, serverInstance));
 
+  // Mount export and import
+  router.use('/', createAgentBundleRouter(elizaOS, serverInstance));
+
   // Mount lifecycle operations
   router.use('/', createAgentLifecycleRouter(elizaOS, serverInstance));
 
@@ -34,6 +42,18 @@ export function agentsRouter(elizaOS: ElizaOS, serverInstance: AgentServer): exp
   // Mount runs operations
   router.use('/', createAgentRunsRouter(elizaOS));
 
+  // Mount task management operations
+  router.use('/', createAgentTasksRouter(elizaOS));
+
+  // Mount token and cost usage
+  router.use('/', createAgentUsageRouter(elizaOS));
+
+  // Mount state cache metrics
+  router.use('/', createAgentStateCacheRouter(elizaOS));
+
+  // Mount prompt template listing and overrides
+  router.use('/', createAgentTemplatesRouter(elizaOS, serverInstance));
+
   // Mount memory operations
   router.use('/', createAgentMemoryRouter(elizaOS));
   // Mount room management (list rooms and room details) under agents
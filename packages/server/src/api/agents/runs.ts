@@ -9,6 +9,8 @@ import type {
   ModelLogBody,
   EvaluatorLogBody,
   EmbeddingLogBody,
+  ProviderLogBody,
+  PromptTemplateUsage,
 } from '@elizaos/core';
 import { validateUuid } from '@elizaos/core';
 import express from 'express';
@@ -499,6 +501,7 @@ export function createAgentRunsRouter(elizaOS: ElizaOS): express.Router {
       const actionEventLogs = related.filter((l) => l.type === 'action_event');
       const evaluatorLogs = related.filter((l) => l.type === 'evaluator');
       const embeddingLogs = related.filter((l) => l.type === 'embedding_event');
+      const providerLogs = related.filter((l) => l.type === 'providers');
       const modelLogs = related.filter(
         (l) => typeof l.type === 'string' && l.type.startsWith('useModel:')
       );
@@ -590,6 +593,8 @@ export function createAgentRunsRouter(elizaOS: ElizaOS): express.Router {
               body.modelType ||
               (typeof e.type === 'string' ? e.type.replace('useModel:', '') : undefined),
             provider: body.provider,
+            fallbacks: body.fallbacks,
+            cached: body.cached,
             executionTime: body.executionTime,
             actionContext: body.actionContext as string | undefined,
             params: body.params as Record<string, unknown> | undefined,
@@ -629,6 +634,19 @@ export function createAgentRunsRouter(elizaOS: ElizaOS): express.Router {
         });
       }
 
+      for (const e of providerLogs) {
+        const body = e.body as ProviderLogBody;
+        events.push({
+          type: 'PROVIDERS_COMPOSED',
+          timestamp: new Date(e.createdAt).getTime(),
+          data: {
+            messageId: body.messageId,
+            durationMs: body.durationMs,
+            providers: body.providers,
+          },
+        });
+      }
+
       events.sort((a, b) => a.timestamp - b.timestamp);
 
       const firstRunEvent = started || runEvents[0] || related[0];
@@ -643,6 +661,8 @@ export function createAgentRunsRouter(elizaOS: ElizaOS): express.Router {
         roomId: firstRunEvent?.body?.roomId || (roomId as UUID | undefined),
         entityId: firstRunEvent?.body?.entityId || agentId,
         counts,
+        // Prompt templates with the versions that produced the run, recorded when it ends
+        templates: (last?.body.templates as PromptTemplateUsage[] | undefined) ?? [],
       } as const;
 
       sendSuccess(res, { summary, events });
@@ -0,0 +1,27 @@
+import type { ElizaOS } from '@elizaos/core';
+import { validateUuid } from '@elizaos/core';
+import express from 'express';
+import { sendError, sendSuccess } from '../shared/response-utils';
+
+/**
+ * Agent state cache metrics
+ */
+export function createAgentStateCacheRouter(elizaOS: ElizaOS): express.Router {
+  const router = express.Router();
+
+  router.get('/:agentId/state-cache', (req, res) => {
+    const agentId = validateUuid(req.params.agentId);
+    if (!agentId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid agent ID format');
+    }
+
+    const runtime = elizaOS.getAgent(agentId);
+    if (!runtime) {
+      return sendError(res, 404, 'NOT_FOUND', 'Agent not found');
+    }
+
+    sendSuccess(res, { agentId, stateCache: runtime.getStateCacheMetrics() });
+  });
+
+  return router;
+}
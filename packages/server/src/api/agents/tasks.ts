@@ -0,0 +1,374 @@
+import type { ElizaOS, IAgentRuntime, Task, TaskMetadata } from '@elizaos/core';
+import { validateUuid, logger, isValidCronExpression } from '@elizaos/core';
+import express from 'express';
+import { sendError, sendSuccess } from '../shared/response-utils';
+
+const DEFAULT_EXECUTIONS_LIMIT = 50;
+const MAX_EXECUTIONS_LIMIT = 500;
+
+/**
+ * Validate the scheduling fields of task metadata
+ * @returns An error message, or null if the metadata is valid
+ */
+function validateTaskMetadata(metadata: unknown): string | null {
+  if (metadata === undefined) {
+    return null;
+  }
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    return 'metadata must be an object';
+  }
+
+  const { cron, runAt, updateInterval, retry } = metadata as TaskMetadata;
+  if (cron !== undefined && (typeof cron !== 'string' || !isValidCronExpression(cron))) {
+    return 'metadata.cron must be a valid five-field cron expression';
+  }
+  if (runAt !== undefined && (typeof runAt !== 'number' || !Number.isFinite(runAt))) {
+    return 'metadata.runAt must be a timestamp in milliseconds';
+  }
+  if (updateInterval !== undefined && (typeof updateInterval !== 'number' || updateInterval < 0)) {
+    return 'metadata.updateInterval must be a non-negative number of milliseconds';
+  }
+  if (retry !== undefined) {
+    if (typeof retry !== 'object' || retry === null) {
+      return 'metadata.retry must be an object';
+    }
+    if (
+      retry.maxAttempts !== undefined &&
+      (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1)
+    ) {
+      return 'metadata.retry.maxAttempts must be a positive integer';
+    }
+  }
+  return null;
+}
+
+function parseTags(tags: unknown): string[] | undefined {
+  if (typeof tags === 'string') {
+    return tags
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+  if (Array.isArray(tags)) {
+    return tags.map(String);
+  }
+  return undefined;
+}
+
+/**
+ * Whether a runtime is executing the task; a `running` status left behind by a runtime
+ * that died no longer counts once its lease has expired
+ */
+function isTaskRunning(task: Task): boolean {
+  return task.status === 'running' && (task.leaseExpiresAt ?? 0) > Date.now();
+}
+
+/**
+ * Agent task management and execution history
+ */
+export function createAgentTasksRouter(elizaOS: ElizaOS): express.Router {
+  const router = express.Router();
+
+  /**
+   * Resolve the runtime and task addressed by the request, sending an error response if either is missing
+   */
+  const resolveTask = async (
+    req: express.Request,
+    res: express.Response
+  ): Promise<{ runtime: IAgentRuntime; task: Task } | null> => {
+    const agentId = validateUuid(req.params.agentId);
+    const taskId = validateUuid(req.params.taskId);
+    if (!agentId || !taskId) {
+      sendError(res, 400, 'INVALID_ID', 'Invalid agent or task ID format');
+      return null;
+    }
+
+    const runtime = elizaOS.getAgent(agentId);
+    if (!runtime) {
+      sendError(res, 404, 'NOT_FOUND', 'Agent not found');
+      return null;
+    }
+
+    const task = await runtime.getTask(taskId);
+    if (!task) {
+      sendError(res, 404, 'NOT_FOUND', 'Task not found');
+      return null;
+    }
+
+    return { runtime, task };
+  };
+
+  const handleError = (
+    req: express.Request,
+    res: express.Response,
+    error: unknown,
+    message: string
+  ) => {
+    logger.error(
+      {
+        src: 'http',
+        path: req.path,
+        agentId: req.params.agentId,
+        taskId: req.params.taskId,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      message
+    );
+    sendError(
+      res,
+      500,
+      'TASK_ERROR',
+      message,
+      error instanceof Error ? error.message : String(error)
+    );
+  };
+
+  // List tasks
+  router.get('/:agentId/tasks', async (req, res) => {
+    const agentId = validateUuid(req.params.agentId);
+    if (!agentId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid agent ID format');
+    }
+
+    const runtime = elizaOS.getAgent(agentId);
+    if (!runtime) {
+      return sendError(res, 404, 'NOT_FOUND', 'Agent not found');
+    }
+
+    const { roomId, status, name } = req.query;
+    const roomIdValidated = roomId ? validateUuid(roomId as string) : undefined;
+    if (roomId && !roomIdValidated) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid room ID format');
+    }
+
+    try {
+      const statuses = parseTags(status);
+      const tasks = (
+        await runtime.getTasks({
+          roomId: roomIdValidated || undefined,
+          tags: parseTags(req.query.tags),
+        })
+      ).filter(
+        (task) =>
+          (!statuses || statuses.includes(task.status ?? 'pending')) &&
+          (!name || task.name === name)
+      );
+
+      sendSuccess(res, { tasks });
+    } catch (error) {
+      handleError(req, res, error, 'Error retrieving tasks');
+    }
+  });
+
+  // Create a task
+  router.post('/:agentId/tasks', async (req, res) => {
+    const agentId = validateUuid(req.params.agentId);
+    if (!agentId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid agent ID format');
+    }
+
+    const runtime = elizaOS.getAgent(agentId);
+    if (!runtime) {
+      return sendError(res, 404, 'NOT_FOUND', 'Agent not found');
+    }
+
+    const { name, description, tags, metadata, roomId, worldId, entityId } = req.body ?? {};
+    if (!name || typeof name !== 'string') {
+      return sendError(res, 400, 'BAD_REQUEST', 'Task name is required');
+    }
+    if (!runtime.getTaskWorker(name)) {
+      return sendError(res, 400, 'BAD_REQUEST', `No task worker registered for "${name}"`);
+    }
+    const metadataError = validateTaskMetadata(metadata);
+    if (metadataError) {
+      return sendError(res, 400, 'BAD_REQUEST', metadataError);
+    }
+
+    try {
+      let resolvedWorldId = worldId ? validateUuid(worldId) : null;
+      const resolvedRoomId = roomId ? validateUuid(roomId) : null;
+      if ((worldId && !resolvedWorldId) || (roomId && !resolvedRoomId)) {
+        return sendError(res, 400, 'INVALID_ID', 'Invalid room or world ID format');
+      }
+      if (!resolvedWorldId && resolvedRoomId) {
+        resolvedWorldId = (await runtime.getRoom(resolvedRoomId))?.worldId ?? null;
+      }
+      if (!resolvedWorldId) {
+        return sendError(res, 400, 'BAD_REQUEST', 'worldId or a roomId in a world is required');
+      }
+
+      const taskId = await runtime.createTask({
+        name,
+        description: typeof description === 'string' ? description : '',
+        tags: parseTags(tags) ?? ['queue'],
+        metadata: metadata ?? {},
+        roomId: resolvedRoomId ?? undefined,
+        worldId: resolvedWorldId,
+        entityId: entityId ? (validateUuid(entityId) ?? undefined) : undefined,
+      });
+
+      const task = await runtime.getTask(taskId);
+      sendSuccess(res, { task }, 201);
+    } catch (error) {
+      handleError(req, res, error, 'Error creating task');
+    }
+  });
+
+  // Get a task
+  router.get('/:agentId/tasks/:taskId', async (req, res) => {
+    try {
+      const resolved = await resolveTask(req, res);
+      if (resolved) {
+        sendSuccess(res, { task: resolved.task });
+      }
+    } catch (error) {
+      handleError(req, res, error, 'Error retrieving task');
+    }
+  });
+
+  // Update a task
+  router.patch('/:agentId/tasks/:taskId', async (req, res) => {
+    const { description, tags, metadata } = req.body ?? {};
+    const metadataError = validateTaskMetadata(metadata);
+    if (metadataError) {
+      return sendError(res, 400, 'BAD_REQUEST', metadataError);
+    }
+
+    try {
+      const resolved = await resolveTask(req, res);
+      if (!resolved) {
+        return;
+      }
+      const { runtime, task } = resolved;
+
+      const scheduleChanged =
+        metadata !== undefined &&
+        (['cron', 'runAt'] as const).some(
+          (key) => key in metadata && metadata[key] !== task.metadata?.[key]
+        );
+
+      await runtime.updateTask(task.id!, {
+        ...(typeof description === 'string' ? { description } : {}),
+        ...(tags !== undefined ? { tags: parseTags(tags) } : {}),
+        ...(metadata !== undefined ? { metadata: { ...task.metadata, ...metadata } } : {}),
+        // Let the task service compute the next run from the new schedule
+        ...(scheduleChanged ? { nextRunAt: null } : {}),
+      });
+
+      sendSuccess(res, { task: await runtime.getTask(task.id!) });
+    } catch (error) {
+      handleError(req, res, error, 'Error updating task');
+    }
+  });
+
+  // Delete a task and its history
+  router.delete('/:agentId/tasks/:taskId', async (req, res) => {
+    try {
+      const resolved = await resolveTask(req, res);
+      if (!resolved) {
+        return;
+      }
+      const { runtime, task } = resolved;
+
+      await runtime.deleteTask(task.id!);
+      await runtime.deleteTaskExecutions?.({ taskId: task.id });
+      res.status(204).send();
+    } catch (error) {
+      handleError(req, res, error, 'Error deleting task');
+    }
+  });
+
+  // Get execution history for a task
+  router.get('/:agentId/tasks/:taskId/executions', async (req, res) => {
+    try {
+      const resolved = await resolveTask(req, res);
+      if (!resolved) {
+        return;
+      }
+      const { runtime, task } = resolved;
+
+      const limit = Math.min(
+        Math.max(Number(req.query.limit) || DEFAULT_EXECUTIONS_LIMIT, 1),
+        MAX_EXECUTIONS_LIMIT
+      );
+      const offset = Math.max(Number(req.query.offset) || 0, 0);
+      const executions =
+        (await runtime.getTaskExecutions?.({ taskId: task.id, limit, offset })) ?? [];
+
+      sendSuccess(res, { executions });
+    } catch (error) {
+      handleError(req, res, error, 'Error retrieving task executions');
+    }
+  });
+
+  // Run a task on the next scheduler tick
+  router.post('/:agentId/tasks/:taskId/run', async (req, res) => {
+    try {
+      const resolved = await resolveTask(req, res);
+      if (!resolved) {
+        return;
+      }
+      const { runtime, task } = resolved;
+
+      if (task.status === 'paused') {
+        return sendError(res, 409, 'CONFLICT', 'Task is paused; resume it before running');
+      }
+      if (isTaskRunning(task)) {
+        return sendError(res, 409, 'CONFLICT', 'Task is already running');
+      }
+
+      await runtime.updateTask(task.id!, {
+        status: 'pending',
+        nextRunAt: Date.now(),
+        // Running a dead-lettered task gives it a fresh set of attempts
+        ...(task.status === 'dead_letter' ? { attempts: 0 } : {}),
+      });
+
+      sendSuccess(res, { task: await runtime.getTask(task.id!) }, 202);
+    } catch (error) {
+      handleError(req, res, error, 'Error triggering task');
+    }
+  });
+
+  // Pause a task
+  router.post('/:agentId/tasks/:taskId/pause', async (req, res) => {
+    try {
+      const resolved = await resolveTask(req, res);
+      if (!resolved) {
+        return;
+      }
+      const { runtime, task } = resolved;
+
+      if (isTaskRunning(task)) {
+        return sendError(res, 409, 'CONFLICT', 'Task is running; pause it once it completes');
+      }
+
+      await runtime.updateTask(task.id!, { status: 'paused' });
+      sendSuccess(res, { task: await runtime.getTask(task.id!) });
+    } catch (error) {
+      handleError(req, res, error, 'Error pausing task');
+    }
+  });
+
+  // Resume a paused or dead-lettered task
+  router.post('/:agentId/tasks/:taskId/resume', async (req, res) => {
+    try {
+      const resolved = await resolveTask(req, res);
+      if (!resolved) {
+        return;
+      }
+      const { runtime, task } = resolved;
+
+      if (task.status !== 'paused' && task.status !== 'dead_letter') {
+        return sendError(res, 409, 'CONFLICT', 'Only paused or dead-lettered tasks can be resumed');
+      }
+
+      await runtime.updateTask(task.id!, { status: 'pending', attempts: 0, nextRunAt: null });
+      sendSuccess(res, { task: await runtime.getTask(task.id!) });
+    } catch (error) {
+      handleError(req, res, error, 'Error resuming task');
+    }
+  });
+
+  return router;
+}
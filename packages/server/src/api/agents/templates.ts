@@ -0,0 +1,173 @@
+import type { ElizaOS, IAgentRuntime, PromptTemplateInfo, TemplateType } from '@elizaos/core';
+import { diffPromptTemplates, logger, validatePromptTemplate, validateUuid } from '@elizaos/core';
+import express from 'express';
+import type { AgentServer } from '../../index';
+import { sendError, sendSuccess } from '../shared/response-utils';
+
+function findTemplate(runtime: IAgentRuntime, name: string): PromptTemplateInfo | undefined {
+  return runtime.getPromptTemplates().find((template) => template.name === name);
+}
+
+function describeWithDiff(template: PromptTemplateInfo) {
+  if (template.override === undefined) {
+    return { ...template, diff: [] };
+  }
+  return { ...template, diff: diffPromptTemplates(template.defaultTemplate, template.override) };
+}
+
+/**
+ * Prompt templates of an agent: the registered defaults, the character's overrides and
+ * editing of those overrides
+ */
+export function createAgentTemplatesRouter(
+  elizaOS: ElizaOS,
+  serverInstance: AgentServer
+): express.Router {
+  const router = express.Router();
+  const db = serverInstance?.database;
+
+  /**
+   * Saves the agent's overrides and applies them to the running agent
+   */
+  async function saveTemplates(
+    runtime: IAgentRuntime,
+    templates: Record<string, TemplateType>
+  ): Promise<void> {
+    if (!(await db.updateAgent(runtime.agentId, { templates }))) {
+      throw new Error('Failed to save templates');
+    }
+    runtime.character.templates = templates;
+  }
+
+  // List the templates used by core and the agent's plugins
+  router.get('/:agentId/templates', async (req, res) => {
+    const agentId = validateUuid(req.params.agentId);
+    if (!agentId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid agent ID format');
+    }
+
+    const runtime = elizaOS.getAgent(agentId);
+    if (!runtime) {
+      return sendError(res, 404, 'NOT_FOUND', 'Agent not found');
+    }
+
+    sendSuccess(res, { templates: runtime.getPromptTemplates() });
+  });
+
+  // Get a template with the diff of its override against the default
+  router.get('/:agentId/templates/:name', async (req, res) => {
+    const agentId = validateUuid(req.params.agentId);
+    if (!agentId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid agent ID format');
+    }
+
+    const runtime = elizaOS.getAgent(agentId);
+    if (!runtime) {
+      return sendError(res, 404, 'NOT_FOUND', 'Agent not found');
+    }
+
+    const template = findTemplate(runtime, req.params.name);
+    if (!template) {
+      return sendError(res, 404, 'NOT_FOUND', 'Template not found');
+    }
+
+    sendSuccess(res, describeWithDiff(template));
+  });
+
+  // Override a template
+  router.put('/:agentId/templates/:name', async (req, res) => {
+    const agentId = validateUuid(req.params.agentId);
+    if (!agentId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid agent ID format');
+    }
+    if (!db) {
+      return sendError(res, 500, 'DB_ERROR', 'Database not available');
+    }
+
+    const runtime = elizaOS.getAgent(agentId);
+    if (!runtime) {
+      return sendError(res, 404, 'NOT_FOUND', 'Agent not found');
+    }
+
+    const { name } = req.params;
+    const existing = findTemplate(runtime, name);
+    if (!existing) {
+      return sendError(res, 404, 'NOT_FOUND', 'Template not found');
+    }
+
+    const { template } = req.body ?? {};
+    const issues = validatePromptTemplate(name, template, {
+      name,
+      template: existing.defaultTemplate,
+    });
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    if (errors.length > 0) {
+      return sendError(
+        res,
+        400,
+        'INVALID_TEMPLATE',
+        errors.map((issue) => issue.message).join('; ')
+      );
+    }
+
+    try {
+      await saveTemplates(runtime, { ...runtime.character.templates, [name]: template });
+      logger.info({ src: 'http', agentId, template: name }, 'Prompt template overridden');
+      sendSuccess(res, { ...describeWithDiff(findTemplate(runtime, name)!), issues });
+    } catch (error) {
+      logger.error(
+        { src: 'http', agentId, error: error instanceof Error ? error.message : String(error) },
+        'Error saving prompt template'
+      );
+      sendError(
+        res,
+        500,
+        'UPDATE_ERROR',
+        'Error saving prompt template',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  });
+
+  // Remove a template override, restoring the default
+  router.delete('/:agentId/templates/:name', async (req, res) => {
+    const agentId = validateUuid(req.params.agentId);
+    if (!agentId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid agent ID format');
+    }
+    if (!db) {
+      return sendError(res, 500, 'DB_ERROR', 'Database not available');
+    }
+
+    const runtime = elizaOS.getAgent(agentId);
+    if (!runtime) {
+      return sendError(res, 404, 'NOT_FOUND', 'Agent not found');
+    }
+
+    const { name } = req.params;
+    if (!findTemplate(runtime, name)) {
+      return sendError(res, 404, 'NOT_FOUND', 'Template not found');
+    }
+
+    try {
+      const { [name]: _removed, ...templates } = runtime.character.templates ?? {};
+      await saveTemplates(runtime, templates);
+      logger.info({ src: 'http', agentId, template: name }, 'Prompt template reset');
+      sendSuccess(res, describeWithDiff(findTemplate(runtime, name)!));
+    } catch (error) {
+      logger.error(
+        { src: 'http', agentId, error: error instanceof Error ? error.message : String(error) },
+        'Error resetting prompt template'
+      );
+      sendError(
+        res,
+        500,
+        'UPDATE_ERROR',
+        'Error resetting prompt template',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,112 @@
+import type { ElizaOS, ModelUsageGroupBy, ModelUsageRollup } from '@elizaos/core';
+import { validateUuid, logger } from '@elizaos/core';
+import express from 'express';
+import { sendError, sendSuccess } from '../shared/response-utils';
+
+const DEFAULT_RUNS_LIMIT = 50;
+const MAX_RUNS_LIMIT = 500;
+
+function parseTimestamp(value: unknown): number | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    return numeric;
+  }
+  const parsed = Date.parse(String(value));
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Agent token and cost usage, rolled up from the model usage ledger
+ */
+export function createAgentUsageRouter(elizaOS: ElizaOS): express.Router {
+  const router = express.Router();
+
+  router.get('/:agentId/usage', async (req, res) => {
+    const agentId = validateUuid(req.params.agentId);
+    if (!agentId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid agent ID format');
+    }
+
+    const runtime = elizaOS.getAgent(agentId);
+    if (!runtime) {
+      return sendError(res, 404, 'NOT_FOUND', 'Agent not found');
+    }
+
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    if (from === null || to === null) {
+      return sendError(
+        res,
+        400,
+        'BAD_REQUEST',
+        'from and to must be timestamps in milliseconds or ISO dates'
+      );
+    }
+
+    const runId = req.query.runId ? validateUuid(req.query.runId as string) : undefined;
+    if (req.query.runId && !runId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid run ID format');
+    }
+
+    const limit = Math.min(
+      Math.max(Number(req.query.limit) || DEFAULT_RUNS_LIMIT, 1),
+      MAX_RUNS_LIMIT
+    );
+
+    try {
+      const filter = { runId: runId ?? undefined, from, to };
+      const rollup = async (groupBy: ModelUsageGroupBy, rollupLimit?: number) =>
+        (await runtime.getModelUsageRollup?.({ ...filter, groupBy, limit: rollupLimit })) ?? [];
+      const [totals, byDay, byProvider, byModel, byRun] = await Promise.all([
+        rollup('agent'),
+        rollup('day'),
+        rollup('provider'),
+        rollup('model'),
+        rollup('run', limit),
+      ]);
+
+      const emptyTotals: ModelUsageRollup = {
+        key: agentId,
+        calls: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        estimatedCost: 0,
+      };
+
+      sendSuccess(res, {
+        agentId,
+        from: from ?? null,
+        to: to ?? null,
+        runId: runId ?? null,
+        totals: totals[0] ?? emptyTotals,
+        byDay,
+        byProvider,
+        byModel,
+        byRun,
+      });
+    } catch (error) {
+      logger.error(
+        {
+          src: 'http',
+          path: req.path,
+          agentId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Error retrieving model usage'
+      );
+      sendError(
+        res,
+        500,
+        'USAGE_ERROR',
+        'Error retrieving model usage',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  });
+
+  return router;
+}
@@ -15,6 +15,8 @@ import { audioRouter } from './audio';
 import { runtimeRouter } from './runtime';
 import { teeRouter } from './tee';
 import { systemRouter } from './system';
+import { webhooksRouter } from './webhooks';
+import { openapiRouter } from './openapi';
 import { SocketIORouter } from '../socketio';
 import {
   securityMiddleware,
@@ -23,6 +25,9 @@ import {
 } from '../middleware';
 import { Server as SocketIOServer, ServerOptions } from 'socket.io';
 
+// OpenAI-compatible routes, mounted by the server at /v1 rather than under /api
+export { openaiRouter } from './openai';
+
 /**
  * Socket.IO server configuration optimized for production
  *
@@ -435,7 +440,13 @@ export function createApiRouter(
   router.use('/tee', teeRouter());
 
   // Mount system router at /system - handles system configuration, health checks, and environment
-  router.use('/system', systemRouter());
+  router.use('/system', systemRouter(serverInstance));
+
+  // Mount webhooks router at /webhooks - handles outbound event subscriptions and their delivery log
+  router.use('/webhooks', webhooksRouter(serverInstance));
+
+  // Mount the OpenAPI document at /openapi.json, generated from the routes above and plugin routes
+  router.use('/', openapiRouter(elizaOS));
 
   // NOTE: Legacy route aliases removed to prevent duplicates
   // Use proper domain routes: /messaging, /system, /tee
@@ -1,6 +1,6 @@
 import type { ElizaOS, UUID, Memory, MemoryMetadata } from '@elizaos/core';
 import { MemoryType, createUniqueUuid } from '@elizaos/core';
-import { validateUuid, logger } from '@elizaos/core';
+import { validateUuid, logger, pruneMemories } from '@elizaos/core';
 import express from 'express';
 import { sendError, sendSuccess } from '../shared/response-utils';
 
@@ -233,6 +233,41 @@ export function createAgentMemoryRouter(elizaOS: ElizaOS): express.Router {
     }
   });
 
+  // Apply the agent's retention rules; a dry run unless the body sets dryRun to false
+  router.post('/:agentId/memories/prune', async (req, res) => {
+    const agentId = validateUuid(req.params.agentId);
+    if (!agentId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid agent ID');
+    }
+
+    const runtime = elizaOS.getAgent(agentId);
+    if (!runtime) {
+      return sendError(res, 404, 'NOT_FOUND', 'Agent not found');
+    }
+
+    try {
+      const report = await pruneMemories(runtime, { dryRun: req.body?.dryRun !== false });
+      sendSuccess(res, report);
+    } catch (error) {
+      logger.error(
+        {
+          src: 'http',
+          path: req.path,
+          agentId: req.params.agentId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Error pruning agent memories'
+      );
+      sendError(
+        res,
+        500,
+        'PRUNE_ERROR',
+        'Error pruning agent memories',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  });
+
   // Delete all memories for an agent
   router.delete('/:agentId/memories', async (req, res) => {
     try {
@@ -16,7 +16,11 @@ import type {
   MessageServiceStructure as MessageService,
   AttachmentInput,
 } from '../../types/server';
-import { createUploadRateLimit, createFileSystemRateLimit } from '../../middleware';
+import {
+  createUploadRateLimit,
+  createFileSystemRateLimit,
+  type ApiKeyAuthRequest,
+} from '../../middleware';
 import { MAX_FILE_SIZE, ALLOWED_MEDIA_MIME_TYPES } from '../shared/constants';
 import { handleTransport } from '../shared/response-handlers';
 import { validateTransport } from '../shared/validation';
@@ -99,7 +103,7 @@ export function createChannelsRouter(
   // Note: 'mode' parameter is deprecated but still supported for backward compatibility
   router.post(
     '/channels/:channelId/messages',
-    async (req: express.Request, res: express.Response) => {
+    async (req: ApiKeyAuthRequest, res: express.Response) => {
       const channelIdParam = validateUuid(req.params.channelId);
       const {
         author_id, // This is the GUI user's central ID
@@ -306,6 +310,8 @@ export function createChannelsRouter(
           agentId: agentId as UUID,
           messageMemory,
           userMessage: messageForBus,
+          channelId: channelIdParam,
+          apiKeyId: req.apiKey?.id,
           onWebSocketTransport: () => {
             // Emit to internal bus for agent processing
             internalMessageBus.emit('new_message', messageForBus);
@@ -175,6 +175,21 @@ export class SessionRenewalError extends SessionError {
   }
 }
 
+/**
+ * Error thrown when a session keeps being updated concurrently, e.g. by other server
+ * replicas, so an update cannot be applied
+ */
+export class SessionConflictError extends SessionError {
+  constructor(sessionId: string, details?: any) {
+    super(
+      'SESSION_CONFLICT',
+      `Session '${sessionId}' was updated concurrently, try again`,
+      409,
+      details
+    );
+  }
+}
+
 /**
  * Error thrown when session deletion fails
  */
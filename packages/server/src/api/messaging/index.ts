@@ -6,6 +6,7 @@ import { createMessageServersRouter } from './messageServers';
 import { createChannelsRouter } from './channels';
 import { createSessionsRouter } from './sessions';
 import { createJobsRouter } from './jobs';
+import { createStreamsRouter } from './streams';
 
 /**
  * Creates the messaging router for all communication functionality
@@ -32,5 +33,8 @@ export function messagingRouter(elizaOS: ElizaOS, serverInstance: AgentServer):
   // Mount jobs API for one-off messaging
   router.use('/', createJobsRouter(elizaOS, serverInstance));
 
+  // Mount stream resumption for the SSE transport
+  router.use('/', createStreamsRouter());
+
   return router;
 }
@@ -15,6 +15,15 @@
  *
  * All state (jobs, metrics, timeouts) is scoped per-router instance to prevent
  * memory leaks and cross-instance contamination.
+ *
+ * Persistence:
+ * - When enabled (default), every job is written through to the database so it
+ *   survives restarts and can be queried by agent, user, status and time range
+ * - Each server instance holds a lease on the jobs it runs and renews it while
+ *   it is alive
+ * - On startup, in-flight jobs of this instance or whose lease has expired are
+ *   resumed once their agent starts if they can still complete, otherwise they
+ *   are marked failed; jobs leased by other live instances are left alone
  */
 import { logger, validateUuid, type UUID, type ElizaOS, ChannelType } from '@elizaos/core';
 import express from 'express';
@@ -27,18 +36,32 @@ import {
   type JobDetailsResponse,
   type JobHealthResponse,
   type JobErrorResponse,
+  type JobListResponse,
+  type JobResult,
+  type JobPersistenceConfig,
+  type JobQuery,
   type Job,
-  // CreateJobRequest and JobPersistenceConfig are available for future enhancements
+  // CreateJobRequest is available for future enhancements
 } from '../../types/jobs';
 import internalMessageBus from '../../services/message-bus';
-import { apiKeyAuthMiddleware } from '../../middleware';
+import { apiKeyAuthMiddleware, type ApiKeyAuthRequest } from '../../middleware';
+import { canAccessTarget } from '../../utils/api-keys';
 
 const DEFAULT_SERVER_ID = '00000000-0000-0000-0000-000000000000' as UUID;
 const JOB_CLEANUP_INTERVAL_MS = 60000; // 1 minute
+// Leases are renewed on every cleanup pass, so an owner has to miss a few before losing its jobs
+const JOB_LEASE_MS = 3 * JOB_CLEANUP_INTERVAL_MS;
 
 // Security: Resource exhaustion fix - absolutely cap max timeout for cleanup of listeners to 5 minutes
 const ABSOLUTE_MAX_LISTENER_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 const MAX_JOBS_IN_MEMORY = 10000; // Prevent memory leaks
+const DEFAULT_JOB_RETENTION_MS = 60 * 60 * 1000; // 1 hour
+const MAX_JOBS_PER_PAGE = 500;
+
+const TERMINAL_JOB_STATUSES = [JobStatus.COMPLETED, JobStatus.FAILED, JobStatus.TIMEOUT];
+const ACTIVE_JOB_STATUSES = [JobStatus.PENDING, JobStatus.PROCESSING];
+const INTERRUPTED_JOB_ERROR = 'Job interrupted by server restart';
+const TIMEOUT_JOB_ERROR = 'Job timed out waiting for agent response';
 
 // Security: All mutable state is scoped per-router instance inside createJobsRouter
 
@@ -59,6 +82,104 @@ function sendErrorResponse(
   res.status(statusCode).json(response);
 }
 
+/**
+ * Resolve job persistence settings from the environment
+ * - JOB_PERSISTENCE_ENABLED: set to 'false' to keep jobs in memory only
+ * - JOB_RETENTION_MINUTES: how long finished jobs are kept in the database
+ * - JOB_INSTANCE_ID: stable id of this server instance, used as the owner of its jobs
+ */
+export function getJobPersistenceConfig(): JobPersistenceConfig {
+  const retentionMinutes = parseInt(process.env.JOB_RETENTION_MINUTES || '', 10);
+  return {
+    enabled: process.env.JOB_PERSISTENCE_ENABLED !== 'false',
+    cleanupAfterMs:
+      Number.isFinite(retentionMinutes) && retentionMinutes > 0
+        ? retentionMinutes * 60 * 1000
+        : DEFAULT_JOB_RETENTION_MS,
+    instanceId: process.env.JOB_INSTANCE_ID || undefined,
+  };
+}
+
+/**
+ * Parse a timestamp query parameter given either as epoch milliseconds or an ISO date
+ */
+function parseTimestampParam(value: unknown): number | null | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const raw = String(value);
+  const timestamp = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+  return Number.isFinite(timestamp) ? timestamp : null;
+}
+
+/**
+ * Parse and validate the GET /jobs query string
+ */
+function parseJobQuery(query: express.Request['query']): { query?: JobQuery; error?: string } {
+  const result: JobQuery = {
+    limit: Math.min(parseInt(query.limit as string) || 50, MAX_JOBS_PER_PAGE),
+    offset: Math.max(parseInt(query.offset as string) || 0, 0),
+  };
+
+  if (query.agentId !== undefined) {
+    const agentId = validateUuid(query.agentId as string);
+    if (!agentId) {
+      return { error: 'Invalid agentId format (must be valid UUID)' };
+    }
+    result.agentId = agentId;
+  }
+
+  if (query.userId !== undefined) {
+    const userId = validateUuid(query.userId as string);
+    if (!userId) {
+      return { error: 'Invalid userId format (must be valid UUID)' };
+    }
+    result.userId = userId;
+  }
+
+  if (query.status !== undefined) {
+    const statuses = String(query.status)
+      .split(',')
+      .map((status) => status.trim())
+      .filter((status): status is JobStatus =>
+        Object.values(JobStatus).includes(status as JobStatus)
+      );
+    if (statuses.length > 0) {
+      result.status = statuses;
+    }
+  }
+
+  const from = parseTimestampParam(query.from);
+  const to = parseTimestampParam(query.to);
+  if (from === null || to === null) {
+    return { error: 'from and to must be timestamps in milliseconds or ISO dates' };
+  }
+  result.from = from;
+  result.to = to;
+
+  return { query: result };
+}
+
+/**
+ * Check whether a job matches the given filters (used for in-memory listing)
+ */
+function jobMatchesQuery(job: Job, query: JobQuery): boolean {
+  const statuses = query.status
+    ? Array.isArray(query.status)
+      ? query.status
+      : [query.status]
+    : undefined;
+  return (
+    (!query.agentId || job.agentId === query.agentId) &&
+    (!query.agentIds || query.agentIds.includes(job.agentId)) &&
+    (!query.channelIds || query.channelIds.includes(job.channelId)) &&
+    (!query.userId || job.userId === query.userId) &&
+    (!statuses || statuses.includes(job.status)) &&
+    (query.from === undefined || job.createdAt >= query.from) &&
+    (query.to === undefined || job.createdAt <= query.to)
+  );
+}
+
 // cleanupExpiredJobs/startCleanupInterval/stopCleanupInterval are defined per-router below
 
 /**
@@ -162,15 +283,26 @@ function validateCreateJobRequest(obj: unknown): {
  */
 export interface JobsRouter extends express.Router {
   cleanup: () => void;
+  /** Resolves once persisted jobs from a previous run have been resumed or failed */
+  recovery: Promise<void>;
 }
 
 /**
  * Creates the jobs router for one-off messaging
  */
-export function createJobsRouter(elizaOS: ElizaOS, serverInstance: AgentServer): JobsRouter {
+export function createJobsRouter(
+  elizaOS: ElizaOS,
+  serverInstance: AgentServer,
+  persistenceConfig: JobPersistenceConfig = getJobPersistenceConfig()
+): JobsRouter {
   const router = express.Router() as JobsRouter;
+  const persistence = {
+    enabled: persistenceConfig.enabled,
+    cleanupAfterMs: persistenceConfig.cleanupAfterMs ?? DEFAULT_JOB_RETENTION_MS,
+  };
 
   // Per-router instance state
+  const ownerId = persistenceConfig.instanceId ?? uuidv4();
   const jobs = new Map<string, Job>();
   let cleanupInterval: NodeJS.Timeout | null = null;
   const listenerCleanupTimeouts = new Map<string, NodeJS.Timeout>();
@@ -182,6 +314,297 @@ export function createJobsRouter(elizaOS: ElizaOS, serverInstance: AgentServer):
   };
 
   // Helpers that close over the instance state
+
+  /**
+   * Write the current state of a job through to the database.
+   * Persistence failures are logged but never fail the in-memory job.
+   */
+  const persistJob = (job: Job): void => {
+    if (!persistence.enabled) {
+      return;
+    }
+    serverInstance.updateJob(job).catch((error) => {
+      logger.error(
+        {
+          src: 'http',
+          jobId: job.id,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to persist job'
+      );
+    });
+  };
+
+  const markJobTimedOut = (job: Job): void => {
+    job.status = JobStatus.TIMEOUT;
+    job.error = TIMEOUT_JOB_ERROR;
+    metrics.timeoutJobs++;
+    persistJob(job);
+  };
+
+  const completeJob = (job: Job, message: JobResult['message'], responseType: string): void => {
+    const processingTime = Date.now() - job.createdAt;
+
+    job.status = JobStatus.COMPLETED;
+    job.agentResponseId = message.id;
+    job.result = {
+      message,
+      processingTimeMs: processingTime,
+    };
+
+    // Update metrics
+    metrics.completedJobs++;
+    metrics.totalProcessingTimeMs += processingTime;
+    persistJob(job);
+
+    logger.info(
+      { src: 'http', jobId: job.id, responseType, processingTimeMs: processingTime },
+      'Job completed'
+    );
+  };
+
+  /**
+   * Listen on the message bus for the agent's reply to a job's user message
+   */
+  const attachResponseListener = (job: Job, userMessageId: UUID): void => {
+    const jobId = job.id;
+
+    // Track if we've seen an action execution message and any agent message
+    let actionMessageReceived = false;
+    let firstAgentMessageReceived = false;
+
+    interface JobMessage {
+      id?: UUID;
+      channel_id?: UUID;
+      author_id?: UUID;
+      content?: string;
+      created_at?: number;
+      metadata?: Record<string, unknown>;
+    }
+
+    const responseHandler = async (data: unknown) => {
+      // Type guard for message structure
+      if (!data || typeof data !== 'object') {
+        return;
+      }
+
+      const message = data as JobMessage;
+
+      // Validate required fields
+      if (
+        !message.id ||
+        !message.channel_id ||
+        !message.author_id ||
+        !message.content ||
+        !message.created_at
+      ) {
+        return;
+      }
+
+      // Check if this message is the agent's response to our job
+      if (
+        message.channel_id === job.channelId &&
+        message.author_id === job.agentId &&
+        message.id !== userMessageId
+      ) {
+        const currentJob = jobs.get(jobId);
+        if (!currentJob || currentJob.status !== JobStatus.PROCESSING) {
+          return;
+        }
+
+        // Check if this is an "Executing action" intermediate message
+        const isActionMessage = message.content.startsWith('Executing action:');
+
+        if (isActionMessage) {
+          // This is an intermediate action message, keep waiting for the actual result
+          actionMessageReceived = true;
+          firstAgentMessageReceived = true;
+          return; // Don't mark as completed yet
+        }
+
+        // Complete the job only if:
+        // 1. This is the first non-action message and we haven't received an action message yet (direct response), OR
+        // 2. We previously received an action message and this is a non-action message (result after action)
+        const shouldComplete = !firstAgentMessageReceived || actionMessageReceived;
+
+        if (shouldComplete) {
+          completeJob(
+            currentJob,
+            {
+              id: message.id,
+              content: message.content,
+              authorId: message.author_id,
+              createdAt: message.created_at,
+              metadata: message.metadata,
+            },
+            actionMessageReceived ? 'action_result' : 'direct'
+          );
+
+          // Remove listener after receiving final response
+          internalMessageBus.off('new_message', responseHandler);
+
+          // Clear the cleanup timeout since we're done
+          const cleanupTimeout = listenerCleanupTimeouts.get(jobId);
+          if (cleanupTimeout) {
+            clearTimeout(cleanupTimeout);
+            listenerCleanupTimeouts.delete(jobId);
+          }
+        } else {
+          // This is an intermediate non-action message, keep waiting
+          firstAgentMessageReceived = true;
+        }
+      }
+    };
+
+    // Listen for agent response
+    internalMessageBus.on('new_message', responseHandler);
+
+    // Set timeout to cleanup listener with better buffer
+    // Use constant max timeout to prevent CodeQL resource exhaustion alert
+    const cleanupTimeout = setTimeout(() => {
+      internalMessageBus.off('new_message', responseHandler);
+      listenerCleanupTimeouts.delete(jobId);
+    }, ABSOLUTE_MAX_LISTENER_TIMEOUT_MS);
+
+    listenerCleanupTimeouts.set(jobId, cleanupTimeout);
+  };
+
+  // Recovered jobs whose agent has not started yet, by agent ID
+  const jobsAwaitingAgent = new Map<UUID, Job[]>();
+
+  /**
+   * Complete a recovered job from a reply the agent stored before the restart,
+   * or wait for the reply to arrive
+   */
+  const resumeJob = async (job: Job & { userMessageId: UUID }): Promise<void> => {
+    const channelMessages = await serverInstance.getMessagesForChannel(job.channelId, 20);
+    const agentReply = channelMessages.find(
+      (message) =>
+        message.authorId === job.agentId &&
+        message.id !== job.userMessageId &&
+        !message.content.startsWith('Executing action:')
+    );
+
+    if (agentReply) {
+      completeJob(
+        job,
+        {
+          id: agentReply.id,
+          content: agentReply.content,
+          authorId: agentReply.authorId,
+          createdAt: new Date(agentReply.createdAt).getTime(),
+          metadata: agentReply.metadata as Record<string, unknown> | undefined,
+        },
+        'recovered'
+      );
+    } else {
+      attachResponseListener(job, job.userMessageId);
+    }
+  };
+
+  /**
+   * Resume or fail jobs that were in flight when the server last stopped.
+   * A processing job that has not expired is resumed once its agent is running;
+   * jobs of agents that start later wait for their agent:started event and time out
+   * like any other job if it never comes.
+   */
+  const recoverJobs = async (): Promise<void> => {
+    if (!persistence.enabled) {
+      return;
+    }
+
+    const interruptedJobs = await serverInstance.getJobs({
+      status: ACTIVE_JOB_STATUSES,
+      limit: MAX_JOBS_IN_MEMORY,
+    });
+
+    let resumedCount = 0;
+    let failedCount = 0;
+    let skippedCount = 0;
+    const now = Date.now();
+
+    for (const job of interruptedJobs) {
+      if (jobs.has(job.id)) {
+        continue;
+      }
+
+      // Another instance that is still alive may be running the job
+      const leaseExpiresAt = now + JOB_LEASE_MS;
+      if (!(await serverInstance.claimJob(job.id, ownerId, leaseExpiresAt))) {
+        skippedCount++;
+        continue;
+      }
+      job.ownerId = ownerId;
+      job.leaseExpiresAt = leaseExpiresAt;
+
+      if (job.status !== JobStatus.PROCESSING || !job.userMessageId || job.expiresAt <= now) {
+        job.status = JobStatus.FAILED;
+        job.error = INTERRUPTED_JOB_ERROR;
+        metrics.failedJobs++;
+        persistJob(job);
+        failedCount++;
+        continue;
+      }
+
+      jobs.set(job.id, job);
+      resumedCount++;
+
+      if (elizaOS.getAgent(job.agentId)) {
+        await resumeJob(job as Job & { userMessageId: UUID });
+      } else {
+        jobsAwaitingAgent.set(job.agentId, [...(jobsAwaitingAgent.get(job.agentId) ?? []), job]);
+      }
+    }
+
+    if (resumedCount > 0 || failedCount > 0) {
+      logger.info(
+        {
+          src: 'http',
+          resumedCount,
+          failedCount,
+          skippedCount,
+          awaitingAgents: jobsAwaitingAgent.size,
+        },
+        'Recovered persisted jobs after restart'
+      );
+    }
+  };
+
+  // Agents start after the API is mounted, so recovered jobs are resumed as their agent comes up
+  const onAgentStarted = (event: Event): void => {
+    const { agentId } = (event as CustomEvent<{ agentId: UUID }>).detail;
+    router.recovery
+      .then(async () => {
+        const waitingJobs = jobsAwaitingAgent.get(agentId);
+        jobsAwaitingAgent.delete(agentId);
+        for (const job of waitingJobs ?? []) {
+          if (job.status === JobStatus.PROCESSING) {
+            await resumeJob(job as Job & { userMessageId: UUID });
+          }
+        }
+      })
+      .catch((error) => {
+        logger.error(
+          { src: 'http', agentId, error: error instanceof Error ? error.message : String(error) },
+          'Failed to resume recovered jobs'
+        );
+      });
+  };
+
+  /**
+   * Keep the lease on the jobs this instance is running so other instances do not take them over
+   */
+  const renewJobLeases = (now: number): void => {
+    serverInstance
+      .renewJobLeases(ownerId, ACTIVE_JOB_STATUSES, now + JOB_LEASE_MS)
+      .catch((error) => {
+        logger.error(
+          { src: 'http', error: error instanceof Error ? error.message : String(error) },
+          'Failed to renew job leases'
+        );
+      });
+  };
+
   const cleanupExpiredJobs = (): void => {
     const now = Date.now();
     let cleanedCount = 0;
@@ -202,9 +625,7 @@ export function createJobsRouter(elizaOS: ElizaOS, serverInstance: AgentServer):
           listenerCleanupTimeouts.delete(jobId);
         }
       } else if (job.expiresAt < now && job.status === JobStatus.PROCESSING) {
-        job.status = JobStatus.TIMEOUT;
-        job.error = 'Job timed out waiting for agent response';
-        metrics.timeoutJobs++;
+        markJobTimedOut(job);
         logger.warn({ src: 'http', jobId }, 'Job timed out');
       }
     }
@@ -231,6 +652,23 @@ export function createJobsRouter(elizaOS: ElizaOS, serverInstance: AgentServer):
         'Emergency cleanup of oldest jobs'
       );
     }
+
+    if (persistence.enabled) {
+      renewJobLeases(now);
+      serverInstance
+        .deleteExpiredJobs(TERMINAL_JOB_STATUSES, now - persistence.cleanupAfterMs)
+        .then((deletedCount) => {
+          if (deletedCount > 0) {
+            logger.info({ src: 'http', deletedCount }, 'Deleted expired persisted jobs');
+          }
+        })
+        .catch((error) => {
+          logger.error(
+            { src: 'http', error: error instanceof Error ? error.message : String(error) },
+            'Failed to delete expired persisted jobs'
+          );
+        });
+    }
   };
 
   const startCleanupInterval = (): void => {
@@ -249,9 +687,20 @@ export function createJobsRouter(elizaOS: ElizaOS, serverInstance: AgentServer):
   // Start cleanup interval when router is created
   startCleanupInterval();
 
+  // Pick up jobs left over from a previous run
+  elizaOS.addEventListener('agent:started', onAgentStarted);
+  router.recovery = recoverJobs().catch((error) => {
+    logger.error(
+      { src: 'http', error: error instanceof Error ? error.message : String(error) },
+      'Failed to recover persisted jobs'
+    );
+  });
+
   // Cleanup function for the router
   router.cleanup = () => {
     stopCleanupInterval();
+    elizaOS.removeEventListener('agent:started', onAgentStarted);
+    jobsAwaitingAgent.clear();
 
     // Clear all listener cleanup timeouts
     for (const timeout of listenerCleanupTimeouts.values()) {
@@ -338,11 +787,25 @@ export function createJobsRouter(elizaOS: ElizaOS, serverInstance: AgentServer):
           createdAt: now,
           expiresAt: now + timeoutMs,
           metadata: body.metadata || {},
+          ...(persistence.enabled && { ownerId, leaseExpiresAt: now + JOB_LEASE_MS }),
         };
 
         // Store job
         jobs.set(jobId, job);
 
+        if (persistence.enabled) {
+          try {
+            await serverInstance.createJob(job);
+          } catch (error) {
+            jobs.delete(jobId);
+            logger.error(
+              { src: 'http', jobId, error: error instanceof Error ? error.message : String(error) },
+              'Failed to persist job'
+            );
+            return sendErrorResponse(res, 500, 'Failed to persist job');
+          }
+        }
+
         logger.info({ src: 'http', jobId, agentId, timeoutMs }, 'Job created');
 
         // Create a temporary channel for this job
@@ -365,6 +828,9 @@ export function createJobsRouter(elizaOS: ElizaOS, serverInstance: AgentServer):
           await serverInstance.addParticipantsToChannel(channelId, [agentId]);
         } catch (error) {
           jobs.delete(jobId);
+          job.status = JobStatus.FAILED;
+          job.error = 'Failed to create job channel';
+          persistJob(job);
           logger.error(
             { src: 'http', jobId, error: error instanceof Error ? error.message : String(error) },
             'Failed to create job channel'
@@ -411,126 +877,14 @@ export function createJobsRouter(elizaOS: ElizaOS, serverInstance: AgentServer):
             },
           });
 
-          // Setup listener for agent response
-          // Track if we've seen an action execution message and any agent message
-          let actionMessageReceived = false;
-          let firstAgentMessageReceived = false;
-
-          interface JobMessage {
-            id?: UUID;
-            channel_id?: UUID;
-            author_id?: UUID;
-            content?: string;
-            created_at?: number;
-            metadata?: Record<string, unknown>;
-          }
-
-          const responseHandler = async (data: unknown) => {
-            // Type guard for message structure
-            if (!data || typeof data !== 'object') {
-              return;
-            }
-
-            const message = data as JobMessage;
-
-            // Validate required fields
-            if (
-              !message.id ||
-              !message.channel_id ||
-              !message.author_id ||
-              !message.content ||
-              !message.created_at
-            ) {
-              return;
-            }
-
-            // Check if this message is the agent's response to our job
-            if (
-              message.channel_id === channelId &&
-              message.author_id === agentId &&
-              message.id !== userMessage.id
-            ) {
-              const currentJob = jobs.get(jobId);
-              if (!currentJob || currentJob.status !== JobStatus.PROCESSING) {
-                return;
-              }
-
-              // Check if this is an "Executing action" intermediate message
-              const isActionMessage = message.content.startsWith('Executing action:');
-
-              if (isActionMessage) {
-                // This is an intermediate action message, keep waiting for the actual result
-                actionMessageReceived = true;
-                firstAgentMessageReceived = true;
-                return; // Don't mark as completed yet
-              }
-
-              // Complete the job only if:
-              // 1. This is the first non-action message and we haven't received an action message yet (direct response), OR
-              // 2. We previously received an action message and this is a non-action message (result after action)
-              const shouldComplete = !firstAgentMessageReceived || actionMessageReceived;
-
-              if (shouldComplete) {
-                const processingTime = Date.now() - currentJob.createdAt;
-
-                currentJob.status = JobStatus.COMPLETED;
-                currentJob.agentResponseId = message.id;
-                currentJob.result = {
-                  message: {
-                    id: message.id,
-                    content: message.content,
-                    authorId: message.author_id,
-                    createdAt: message.created_at,
-                    metadata: message.metadata,
-                  },
-                  processingTimeMs: processingTime,
-                };
-
-                // Update metrics
-                metrics.completedJobs++;
-                metrics.totalProcessingTimeMs += processingTime;
-
-                logger.info(
-                  {
-                    src: 'http',
-                    jobId,
-                    responseType: actionMessageReceived ? 'action_result' : 'direct',
-                    processingTimeMs: processingTime,
-                  },
-                  'Job completed'
-                );
-
-                // Remove listener after receiving final response
-                internalMessageBus.off('new_message', responseHandler);
-
-                // Clear the cleanup timeout since we're done
-                const cleanupTimeout = listenerCleanupTimeouts.get(jobId);
-                if (cleanupTimeout) {
-                  clearTimeout(cleanupTimeout);
-                  listenerCleanupTimeouts.delete(jobId);
-                }
-              } else {
-                // This is an intermediate non-action message, keep waiting
-                firstAgentMessageReceived = true;
-              }
-            }
-          };
-
-          // Listen for agent response
-          internalMessageBus.on('new_message', responseHandler);
-
-          // Set timeout to cleanup listener with better buffer
-          // Use constant max timeout to prevent CodeQL resource exhaustion alert
-          const cleanupTimeout = setTimeout(() => {
-            internalMessageBus.off('new_message', responseHandler);
-            listenerCleanupTimeouts.delete(jobId);
-          }, ABSOLUTE_MAX_LISTENER_TIMEOUT_MS);
-
-          listenerCleanupTimeouts.set(jobId, cleanupTimeout);
+          // Persist the processing state, then wait for the agent's reply
+          persistJob(job);
+          attachResponseListener(job, userMessage.id);
         } catch (error) {
           job.status = JobStatus.FAILED;
           job.error = 'Failed to create user message';
           metrics.failedJobs++;
+          persistJob(job);
           logger.error(
             { src: 'http', jobId, error: error instanceof Error ? error.message : String(error) },
             'Failed to create message for job'
@@ -600,31 +954,46 @@ export function createJobsRouter(elizaOS: ElizaOS, serverInstance: AgentServer):
   });
 
   /**
-   * List all jobs (for debugging/admin)
+   * List jobs, optionally filtered by agentId, userId, status (comma-separated)
+   * and creation time range (from/to as epoch ms or ISO dates)
    * GET /api/messaging/jobs
    * NOTE: Must be defined before /:jobId route to avoid parameter matching
    */
   router.get('/jobs', apiKeyAuthMiddleware, async (req: express.Request, res: express.Response) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 50;
-      const status = req.query.status as JobStatus | undefined;
-
-      let jobList = Array.from(jobs.values());
-
-      // Filter by status if provided
-      if (status && Object.values(JobStatus).includes(status)) {
-        jobList = jobList.filter((job) => job.status === status);
+      const parsed = parseJobQuery(req.query);
+      if (!parsed.query) {
+        return sendErrorResponse(res, 400, parsed.error || 'Invalid query');
       }
+      // Keys restricted to agents or channels only list their jobs
+      const { apiKey } = req as ApiKeyAuthRequest;
+      const query: JobQuery = {
+        ...parsed.query,
+        agentIds: apiKey?.agentIds,
+        channelIds: apiKey?.channelIds,
+      };
 
-      // Sort by creation date (newest first)
-      jobList.sort((a, b) => b.createdAt - a.createdAt);
+      let jobList: Job[];
+      let total: number;
 
-      // Limit results
-      jobList = jobList.slice(0, limit);
+      if (persistence.enabled) {
+        jobList = (await serverInstance.getJobs(query)).map(
+          // In-memory state is authoritative for jobs still being processed here
+          (job) => jobs.get(job.id) ?? job
+        );
+        total = await serverInstance.countJobs(query);
+      } else {
+        const matchingJobs = Array.from(jobs.values())
+          .filter((job) => jobMatchesQuery(job, query))
+          // Sort by creation date (newest first)
+          .sort((a, b) => b.createdAt - a.createdAt);
+        jobList = matchingJobs.slice(query.offset, (query.offset ?? 0) + (query.limit ?? 50));
+        total = matchingJobs.length;
+      }
 
-      const response = {
+      const response: JobListResponse = {
         jobs: jobList.map(jobToResponse),
-        total: jobs.size,
+        total,
         filtered: jobList.length,
       };
 
@@ -649,16 +1018,18 @@ export function createJobsRouter(elizaOS: ElizaOS, serverInstance: AgentServer):
       try {
         const jobId = String(req.params.jobId);
 
-        const job = jobs.get(jobId);
-        if (!job) {
+        // Jobs no longer held in memory may still be in the database
+        let job = jobs.get(jobId);
+        if (!job && persistence.enabled) {
+          job = (await serverInstance.getJob(jobId)) ?? undefined;
+        }
+        if (!job || !canAccessTarget((req as ApiKeyAuthRequest).apiKey, job)) {
           return sendErrorResponse(res, 404, 'Job not found');
         }
 
         // Check if job has timed out
         if (job.expiresAt < Date.now() && job.status === JobStatus.PROCESSING) {
-          job.status = JobStatus.TIMEOUT;
-          job.error = 'Job timed out waiting for agent response';
-          metrics.timeoutJobs++;
+          markJobTimedOut(job);
         }
 
         const response = jobToResponse(job);
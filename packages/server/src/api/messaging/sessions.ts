@@ -13,7 +13,9 @@ import { handleTransport } from '../shared/response-handlers';
 import { validateTransport } from '../shared/validation';
 import type { AgentServer, CentralRootMessage } from '../../index';
 import internalMessageBus from '../../services/message-bus';
+import type { ApiKeyAuthRequest } from '../../middleware';
 import type { MessageServiceStructure } from '../../types/server';
+import { canAccessTarget } from '../../utils/api-keys';
 import { transformMessageAttachments } from '../../utils';
 import type {
   Session,
@@ -26,6 +28,8 @@ import type {
   GetMessagesResponse,
   SessionInfoResponse,
   HealthCheckResponse,
+  SessionPersistenceConfig,
+  SessionQuery,
 } from '../../types/sessions';
 import {
   SessionNotFoundError,
@@ -39,6 +43,7 @@ import {
   InvalidPaginationError,
   InvalidTimeoutConfigError,
   SessionRenewalError,
+  SessionConflictError,
   MessageSendError,
   createErrorHandler,
 } from './errors/SessionErrors';
@@ -123,9 +128,8 @@ const DEFAULT_WARNING_THRESHOLD_MINUTES = safeParseInt(
 );
 const CLEANUP_INTERVAL_MS =
   safeParseInt(process.env.SESSION_CLEANUP_INTERVAL_MINUTES, 5, 1, 60) * 60 * 1000;
-
-// Session storage
-const sessions = new Map<string, Session>();
+// Attempts to apply an update to a session that other requests keep updating
+const MAX_SESSION_UPDATE_ATTEMPTS = 3;
 
 // Agent-specific timeout configurations (cached from agent settings)
 const agentTimeoutConfigs = new Map<UUID, SessionTimeoutConfig>();
@@ -504,6 +508,102 @@ function validateContent(content: unknown): content is string {
   return true;
 }
 
+/**
+ * Resolve session persistence settings from the environment
+ * - SESSION_PERSISTENCE_ENABLED: set to 'false' to keep sessions in memory only
+ */
+export function getSessionPersistenceConfig(): SessionPersistenceConfig {
+  return {
+    enabled: process.env.SESSION_PERSISTENCE_ENABLED !== 'false',
+  };
+}
+
+/**
+ * Storage for the sessions of a router
+ */
+interface SessionStorage {
+  create(session: Session): Promise<void>;
+  get(sessionId: string): Promise<Session | undefined>;
+  /**
+   * Saves the mutable state of a session unless another update was saved since it was
+   * read; returns false then, or if the session no longer exists
+   */
+  update(session: Session): Promise<boolean>;
+  delete(sessionId: string): Promise<boolean>;
+  /** Sessions matching the query, including expired ones not swept yet unless `activeAt` is set */
+  list(query?: SessionQuery): Promise<Session[]>;
+  count(query?: SessionQuery): Promise<number>;
+  /** Deletes sessions expired at the given time and returns how many were deleted */
+  deleteExpired(now: number): Promise<number>;
+}
+
+function matchesSessionQuery(session: Session, query: SessionQuery): boolean {
+  return (
+    (!query.agentIds || query.agentIds.includes(session.agentId)) &&
+    (!query.channelIds || query.channelIds.includes(session.channelId)) &&
+    (query.activeAt === undefined || session.expiresAt.getTime() > query.activeAt) &&
+    (!query.unwarned || !session.warningState?.sent)
+  );
+}
+
+/**
+ * Keeps sessions in memory; sessions are lost on restart and local to this server.
+ * Copies are stored and returned, so concurrent requests update sessions as with the
+ * database.
+ */
+function createMemorySessionStorage(): SessionStorage {
+  const sessions = new Map<string, Session>();
+  const list = async (query: SessionQuery = {}) =>
+    Array.from(sessions.values())
+      .filter((session) => !isValidSession(session) || matchesSessionQuery(session, query))
+      .map((session) => structuredClone(session));
+  return {
+    create: async (session) => {
+      sessions.set(session.id, structuredClone(session));
+    },
+    get: async (sessionId) => {
+      const session = sessions.get(sessionId);
+      return session && structuredClone(session);
+    },
+    update: async (session) => {
+      if (sessions.get(session.id)?.version !== session.version) {
+        return false;
+      }
+      sessions.set(session.id, { ...structuredClone(session), version: session.version + 1 });
+      return true;
+    },
+    delete: async (sessionId) => sessions.delete(sessionId),
+    list,
+    count: async (query) => (await list(query)).length,
+    deleteExpired: async (now) => {
+      let deletedCount = 0;
+      for (const [sessionId, session] of sessions.entries()) {
+        if (!isValidSession(session) || session.expiresAt.getTime() <= now) {
+          sessions.delete(sessionId);
+          deletedCount++;
+        }
+      }
+      return deletedCount;
+    },
+  };
+}
+
+/**
+ * Keeps sessions in the database so they survive restarts and any server replica
+ * sharing the database can look up and renew them
+ */
+function createDatabaseSessionStorage(serverInstance: AgentServer): SessionStorage {
+  return {
+    create: (session) => serverInstance.createSession(session),
+    get: async (sessionId) => (await serverInstance.getSession(sessionId)) ?? undefined,
+    update: (session) => serverInstance.updateSession(session),
+    delete: (sessionId) => serverInstance.deleteSession(sessionId),
+    list: (query) => serverInstance.getSessions(query),
+    count: (query) => serverInstance.countSessions(query),
+    deleteExpired: (now) => serverInstance.deleteExpiredSessions(now),
+  };
+}
+
 /**
  * Express async handler wrapper to catch errors
  */
@@ -525,49 +625,96 @@ function asyncHandler(fn: AsyncRequestHandler): express.RequestHandler {
  *
  * @param agents - Map of agent IDs to runtime instances
  * @param serverInstance - The message server instance for message handling
+ * @param persistenceConfig - Whether sessions are kept in the database or in memory
  * @returns Router with cleanup method to prevent memory leaks
  */
-export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServer): SessionRouter {
+export function createSessionsRouter(
+  elizaOS: ElizaOS,
+  serverInstance: AgentServer,
+  persistenceConfig: SessionPersistenceConfig = getSessionPersistenceConfig()
+): SessionRouter {
   const router = express.Router();
+  const storage = persistenceConfig.enabled
+    ? createDatabaseSessionStorage(serverInstance)
+    : createMemorySessionStorage();
 
   /**
-   * Health check - placed before parameterized routes to avoid conflicts
-   * GET /api/messaging/sessions/health
+   * Loads a session, deleting it and throwing if it has expired. Sessions of agents or
+   * channels the request's API key may not access are reported as not found.
    */
-  router.get('/sessions/health', (_req: express.Request, res: express.Response) => {
-    const now = Date.now();
-    let activeSessions = 0;
-    let expiringSoon = 0;
-    let invalidSessions = 0;
+  const getActiveSession = async (sessionId: string, req: ApiKeyAuthRequest): Promise<Session> => {
+    const session = await storage.get(sessionId);
+    if (!session || !isValidSession(session) || !canAccessTarget(req.apiKey, session)) {
+      throw new SessionNotFoundError(sessionId);
+    }
 
-    for (const session of sessions.values()) {
-      if (!isValidSession(session)) {
-        invalidSessions++;
-        continue;
+    if (session.expiresAt.getTime() <= Date.now()) {
+      await storage.delete(sessionId);
+      throw new SessionExpiredError(sessionId, session.expiresAt);
+    }
+    return session;
+  };
+
+  /**
+   * Applies a change to an active session and saves it. When another request, possibly
+   * on another server replica, saved the session in the meantime, the session is read
+   * again and the change applied to it, so neither update is lost.
+   */
+  const updateActiveSession = async (
+    sessionId: string,
+    req: ApiKeyAuthRequest,
+    change: (session: Session) => void
+  ): Promise<Session> => {
+    for (let attempt = 1; attempt <= MAX_SESSION_UPDATE_ATTEMPTS; attempt++) {
+      const session = await getActiveSession(sessionId, req);
+      change(session);
+      if (await storage.update(session)) {
+        session.version++;
+        return session;
       }
+    }
+    throw new SessionConflictError(sessionId);
+  };
+
+  /**
+   * Health check - placed before parameterized routes to avoid conflicts
+   * GET /api/messaging/sessions/health
+   */
+  router.get(
+    '/sessions/health',
+    asyncHandler(async (_req: express.Request, res: express.Response) => {
+      const now = Date.now();
+      let activeSessions = 0;
+      let expiringSoon = 0;
+      let invalidSessions = 0;
+
+      for (const session of await storage.list({ activeAt: now })) {
+        if (!isValidSession(session)) {
+          invalidSessions++;
+          continue;
+        }
 
-      if (session.expiresAt.getTime() > now) {
         activeSessions++;
         if (shouldWarnAboutExpiration(session)) {
           expiringSoon++;
         }
       }
-    }
 
-    const response: HealthCheckResponse & {
-      expiringSoon?: number;
-      invalidSessions?: number;
-      uptime?: number;
-    } = {
-      status: 'healthy',
-      activeSessions,
-      timestamp: new Date().toISOString(),
-      expiringSoon,
-      ...(invalidSessions > 0 && { invalidSessions }),
-      uptime: process.uptime(),
-    };
-    res.json(response);
-  });
+      const response: HealthCheckResponse & {
+        expiringSoon?: number;
+        invalidSessions?: number;
+        uptime?: number;
+      } = {
+        status: 'healthy',
+        activeSessions,
+        timestamp: new Date().toISOString(),
+        expiringSoon,
+        ...(invalidSessions > 0 && { invalidSessions }),
+        uptime: process.uptime(),
+      };
+      res.json(response);
+    })
+  );
 
   /**
    * Create a new messaging session
@@ -658,9 +805,16 @@ export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServ
         expiresAt: calculateExpirationDate(now, now, finalTimeoutConfig, 0),
         timeoutConfig: finalTimeoutConfig,
         renewalCount: 0,
+        version: 0,
       };
 
-      sessions.set(sessionId, session);
+      try {
+        await storage.create(session);
+      } catch (error) {
+        throw new SessionCreationError('Failed to store session', {
+          originalError: error instanceof Error ? error.message : String(error),
+        });
+      }
 
       const response: CreateSessionResponse = {
         sessionId,
@@ -685,17 +839,7 @@ export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServ
     '/sessions/:sessionId',
     asyncHandler(async (req: express.Request, res: express.Response) => {
       const sessionId = String(req.params.sessionId);
-      const session = sessions.get(sessionId);
-
-      if (!session || !isValidSession(session)) {
-        throw new SessionNotFoundError(sessionId);
-      }
-
-      // Check if session is expired
-      if (session.expiresAt.getTime() <= Date.now()) {
-        sessions.delete(sessionId);
-        throw new SessionExpiredError(sessionId, session.expiresAt);
-      }
+      const session = await getActiveSession(sessionId, req);
 
       const response = createSessionInfoResponse(session);
       res.json(response);
@@ -713,7 +857,7 @@ export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServ
    */
   router.post(
     '/sessions/:sessionId/messages',
-    asyncHandler(async (req: express.Request, res: express.Response) => {
+    asyncHandler(async (req: ApiKeyAuthRequest, res: express.Response) => {
       const sessionId = String(req.params.sessionId);
       const body: SendMessageRequest & { transport?: TransportType; mode?: string } = req.body;
 
@@ -729,17 +873,6 @@ export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServ
         throw new InvalidContentError('Invalid message request format', body);
       }
 
-      const session = sessions.get(sessionId);
-      if (!session) {
-        throw new SessionNotFoundError(sessionId);
-      }
-
-      // Check if session is expired
-      if (session.expiresAt.getTime() <= Date.now()) {
-        sessions.delete(sessionId);
-        throw new SessionExpiredError(sessionId, session.expiresAt);
-      }
-
       // Validate content
       validateContent(body.content);
 
@@ -748,31 +881,36 @@ export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServ
         validateMetadata(body.metadata);
       }
 
-      // Try to renew session on activity
-      const wasRenewed = renewSession(session);
-      if (!wasRenewed && session.timeoutConfig.autoRenew) {
-        // Auto-renew is enabled but renewal failed (max duration reached)
-        const maxDurationMs =
-          (session.timeoutConfig.maxDurationMinutes || DEFAULT_MAX_DURATION_MINUTES) * 60 * 1000;
-        const timeSinceCreation = Date.now() - session.createdAt.getTime();
-
-        if (timeSinceCreation >= maxDurationMs) {
-          logger.warn({ src: 'http', sessionId }, 'Session reached maximum duration');
+      let wasRenewed = false;
+      const session = await updateActiveSession(sessionId, req, (activeSession) => {
+        // Try to renew session on activity
+        wasRenewed = renewSession(activeSession);
+        if (!wasRenewed && activeSession.timeoutConfig.autoRenew) {
+          // Auto-renew is enabled but renewal failed (max duration reached)
+          const maxDurationMs =
+            (activeSession.timeoutConfig.maxDurationMinutes || DEFAULT_MAX_DURATION_MINUTES) *
+            60 *
+            1000;
+          const timeSinceCreation = Date.now() - activeSession.createdAt.getTime();
+
+          if (timeSinceCreation >= maxDurationMs) {
+            logger.warn({ src: 'http', sessionId }, 'Session reached maximum duration');
+          }
+        } else if (!activeSession.timeoutConfig.autoRenew) {
+          // Just update last activity without renewing
+          activeSession.lastActivity = new Date();
         }
-      } else if (!session.timeoutConfig.autoRenew) {
-        // Just update last activity without renewing
-        session.lastActivity = new Date();
-      }
 
-      // Check if we should send a warning
-      if (shouldWarnAboutExpiration(session)) {
-        session.warningState = {
-          sent: true,
-          sentAt: new Date(),
-        };
+        // Check if we should send a warning
+        if (shouldWarnAboutExpiration(activeSession)) {
+          activeSession.warningState = {
+            sent: true,
+            sentAt: new Date(),
+          };
 
-        logger.debug({ src: 'http', sessionId }, 'Session near expiration, warning state set');
-      }
+          logger.debug({ src: 'http', sessionId }, 'Session near expiration, warning state set');
+        }
+      });
 
       // Fetch the channel to get its metadata (which includes session metadata)
       let channelMetadata: Record<string, unknown> = {};
@@ -855,6 +993,9 @@ export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServ
         messageMemory,
         userMessage: messageForBus,
         additionalResponseData: sessionStatus,
+        channelId: session.channelId,
+        sessionId,
+        apiKeyId: req.apiKey?.id,
         onWebSocketTransport: () => {
           // Emit to internal bus for agent processing
           internalMessageBus.emit('new_message', messageForBus);
@@ -882,16 +1023,7 @@ export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServ
         after: req.query.after as string | undefined,
       };
 
-      const session = sessions.get(sessionId);
-      if (!session) {
-        throw new SessionNotFoundError(sessionId);
-      }
-
-      // Check if session is expired
-      if (session.expiresAt.getTime() <= Date.now()) {
-        sessions.delete(sessionId);
-        throw new SessionExpiredError(sessionId, session.expiresAt);
-      }
+      const session = await getActiveSession(sessionId, req);
 
       // Parse and validate query parameters
       let messageLimit = DEFAULT_LIMIT;
@@ -1062,35 +1194,24 @@ export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServ
     '/sessions/:sessionId/renew',
     asyncHandler(async (req: express.Request, res: express.Response) => {
       const sessionId = String(req.params.sessionId);
-      const session = sessions.get(sessionId);
-
-      if (!session) {
-        throw new SessionNotFoundError(sessionId);
-      }
-
-      // Check if session is expired
-      if (session.expiresAt.getTime() <= Date.now()) {
-        sessions.delete(sessionId);
-        throw new SessionExpiredError(sessionId, session.expiresAt);
-      }
-
-      // Check if auto-renew is disabled (manual renewal is always allowed)
-      const previousAutoRenew = session.timeoutConfig.autoRenew;
-      session.timeoutConfig.autoRenew = true; // Temporarily enable for manual renewal
-
-      const renewed = renewSession(session);
-
-      // Restore original auto-renew setting
-      session.timeoutConfig.autoRenew = previousAutoRenew;
-
-      if (!renewed) {
-        throw new SessionRenewalError(sessionId, 'Maximum duration reached', {
-          maxDuration: session.timeoutConfig.maxDurationMinutes,
-          createdAt: session.createdAt,
-          timeSinceCreation: Date.now() - session.createdAt.getTime(),
-        });
-      }
-
+      const session = await updateActiveSession(sessionId, req, (activeSession) => {
+        // Check if auto-renew is disabled (manual renewal is always allowed)
+        const previousAutoRenew = activeSession.timeoutConfig.autoRenew;
+        activeSession.timeoutConfig.autoRenew = true; // Temporarily enable for manual renewal
+
+        const renewed = renewSession(activeSession);
+
+        // Restore original auto-renew setting
+        activeSession.timeoutConfig.autoRenew = previousAutoRenew;
+
+        if (!renewed) {
+          throw new SessionRenewalError(sessionId, 'Maximum duration reached', {
+            maxDuration: activeSession.timeoutConfig.maxDurationMinutes,
+            createdAt: activeSession.createdAt,
+            timeSinceCreation: Date.now() - activeSession.createdAt.getTime(),
+          });
+        }
+      });
       const response = createSessionInfoResponse(session);
       res.json(response);
     })
@@ -1106,17 +1227,6 @@ export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServ
       const sessionId = String(req.params.sessionId);
       const newConfig: SessionTimeoutConfig = req.body;
 
-      const session = sessions.get(sessionId);
-      if (!session) {
-        throw new SessionNotFoundError(sessionId);
-      }
-
-      // Check if session is expired
-      if (session.expiresAt.getTime() <= Date.now()) {
-        sessions.delete(sessionId);
-        throw new SessionExpiredError(sessionId, session.expiresAt);
-      }
-
       // Validate the new config structure
       if (!isValidTimeoutConfig(newConfig)) {
         throw new InvalidTimeoutConfigError('Invalid timeout configuration format', newConfig);
@@ -1136,18 +1246,20 @@ export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServ
         }
       }
 
-      // Merge the new config with existing
-      const agent = elizaOS.getAgent(session.agentId);
-      const agentConfig = agent ? getAgentTimeoutConfig(agent) : undefined;
-      session.timeoutConfig = mergeTimeoutConfigs(newConfig, agentConfig);
-
-      // Recalculate expiration with new config
-      session.expiresAt = calculateExpirationDate(
-        session.createdAt,
-        session.lastActivity,
-        session.timeoutConfig,
-        session.renewalCount
-      );
+      const session = await updateActiveSession(sessionId, req, (activeSession) => {
+        // Merge the new config with existing
+        const agent = elizaOS.getAgent(activeSession.agentId);
+        const agentConfig = agent ? getAgentTimeoutConfig(agent) : undefined;
+        activeSession.timeoutConfig = mergeTimeoutConfigs(newConfig, agentConfig);
+
+        // Recalculate expiration with new config
+        activeSession.expiresAt = calculateExpirationDate(
+          activeSession.createdAt,
+          activeSession.lastActivity,
+          activeSession.timeoutConfig,
+          activeSession.renewalCount
+        );
+      });
 
       logger.debug(
         {
@@ -1173,28 +1285,18 @@ export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServ
     '/sessions/:sessionId/heartbeat',
     asyncHandler(async (req: express.Request, res: express.Response) => {
       const sessionId = String(req.params.sessionId);
-      const session = sessions.get(sessionId);
-
-      if (!session || !isValidSession(session)) {
-        throw new SessionNotFoundError(sessionId);
-      }
-
-      // Check if session is expired
-      if (session.expiresAt.getTime() <= Date.now()) {
-        sessions.delete(sessionId);
-        throw new SessionExpiredError(sessionId, session.expiresAt);
-      }
-
-      // Update last activity
-      session.lastActivity = new Date();
-
-      // Renew session if auto-renew is enabled
-      if (session.timeoutConfig.autoRenew) {
-        const renewed = renewSession(session);
-        if (renewed) {
-          logger.debug({ src: 'http', sessionId }, 'Session renewed via heartbeat');
+      const session = await updateActiveSession(sessionId, req, (activeSession) => {
+        // Update last activity
+        activeSession.lastActivity = new Date();
+
+        // Renew session if auto-renew is enabled
+        if (activeSession.timeoutConfig.autoRenew) {
+          const renewed = renewSession(activeSession);
+          if (renewed) {
+            logger.debug({ src: 'http', sessionId }, 'Session renewed via heartbeat');
+          }
         }
-      }
+      });
 
       // Return updated session info
       const response = createSessionInfoResponse(session);
@@ -1211,14 +1313,14 @@ export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServ
     '/sessions/:sessionId',
     asyncHandler(async (req: express.Request, res: express.Response) => {
       const sessionId = String(req.params.sessionId);
-      const session = sessions.get(sessionId);
 
-      if (!session) {
+      const session = await storage.get(sessionId);
+      if (session && !canAccessTarget((req as ApiKeyAuthRequest).apiKey, session)) {
+        throw new SessionNotFoundError(sessionId);
+      }
+      if (!(await storage.delete(sessionId))) {
         throw new SessionNotFoundError(sessionId);
       }
-
-      // Remove session from memory
-      sessions.delete(sessionId);
 
       logger.info({ src: 'http', sessionId }, 'Session deleted');
 
@@ -1235,61 +1337,64 @@ export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServ
    */
   router.get(
     '/sessions',
-    asyncHandler(async (_req: express.Request, res: express.Response) => {
+    asyncHandler(async (req: ApiKeyAuthRequest, res: express.Response) => {
       const now = Date.now();
-      const activeSessions = Array.from(sessions.values())
-        .filter((session) => isValidSession(session) && session.expiresAt.getTime() > now)
+      // Keys restricted to agents or channels only see their sessions
+      const query: SessionQuery = {
+        agentIds: req.apiKey?.agentIds,
+        channelIds: req.apiKey?.channelIds,
+      };
+      const [sessions, totalSessions] = await Promise.all([
+        storage.list({ ...query, activeAt: now }),
+        storage.count(query),
+      ]);
+      const activeSessions = sessions
+        .filter((session) => isValidSession(session) && canAccessTarget(req.apiKey, session))
         .map((session) => createSessionInfoResponse(session));
 
       res.json({
         sessions: activeSessions,
         total: activeSessions.length,
         stats: {
-          totalSessions: sessions.size,
+          totalSessions,
           activeSessions: activeSessions.length,
-          expiredSessions: sessions.size - activeSessions.length,
+          expiredSessions: Math.max(0, totalSessions - activeSessions.length),
         },
       });
     })
   );
 
-  // Cleanup old sessions periodically
-  const cleanupInterval = setInterval(() => {
-    const now = new Date();
-    let cleanedCount = 0;
-    let expiredCount = 0;
-    let warningCount = 0;
+  // Sweep expired sessions and mark those about to expire periodically. With persistence
+  // every server replica sweeps the shared table, which is safe as deleting expired
+  // sessions is idempotent and a session marked by another replica fails the version check.
+  const sweepExpiredSessions = async (): Promise<void> => {
+    const now = Date.now();
+    const cleanedCount = await storage.deleteExpired(now);
 
-    for (const [sessionId, session] of sessions.entries()) {
-      // Validate session structure before processing
-      if (!isValidSession(session)) {
-        logger.warn({ src: 'http', sessionId }, 'Invalid session structure, removing');
-        sessions.delete(sessionId);
-        cleanedCount++;
+    let warningCount = 0;
+    for (const session of await storage.list({ activeAt: now, unwarned: true })) {
+      if (!isValidSession(session) || !shouldWarnAboutExpiration(session)) {
         continue;
       }
-
-      // Check if session has expired
-      if (session.expiresAt.getTime() <= now.getTime()) {
-        sessions.delete(sessionId);
-        cleanedCount++;
-        expiredCount++;
-        logger.debug({ src: 'http', sessionId }, 'Cleaned up expired session');
-      }
-      // Check if we should warn about upcoming expiration
-      else if (shouldWarnAboutExpiration(session) && !session.warningState?.sent) {
-        session.warningState = {
-          sent: true,
-          sentAt: now,
-        };
+      session.warningState = { sent: true, sentAt: new Date(now) };
+      if (await storage.update(session)) {
         warningCount++;
-        logger.debug({ src: 'http', sessionId }, 'Session will expire soon');
+        logger.debug({ src: 'http', sessionId: session.id }, 'Session will expire soon');
       }
     }
 
-    if (cleanedCount > 0) {
+    if (cleanedCount > 0 || warningCount > 0) {
       logger.info({ src: 'http', cleanedCount, warningCount }, 'Session cleanup completed');
     }
+  };
+
+  const cleanupInterval = setInterval(() => {
+    sweepExpiredSessions().catch((error) => {
+      logger.error(
+        { src: 'http', error: error instanceof Error ? error.message : String(error) },
+        'Failed to clean up expired sessions'
+      );
+    });
   }, CLEANUP_INTERVAL_MS);
 
   // Track this cleanup interval
@@ -1315,9 +1420,8 @@ export function createSessionsRouter(elizaOS: ElizaOS, serverInstance: AgentServ
       }
       activeCleanupIntervals.clear();
 
-      // Optional: Clear session data
+      // Optional: Clear cached agent timeout configurations
       if (process.env.CLEAR_SESSIONS_ON_SHUTDOWN === 'true') {
-        sessions.clear();
         agentTimeoutConfigs.clear();
       }
     };
@@ -0,0 +1,71 @@
+import { validateUuid } from '@elizaos/core';
+import express from 'express';
+import { followSSEStream } from '../shared/response-handlers';
+import {
+  sseReplayBuffer,
+  type SSEReplayBuffer,
+  type SSEStreamOwner,
+} from '../shared/sse-replay-buffer';
+import { sendError } from '../shared/response-utils';
+import type { ApiKeyAuthRequest } from '../../middleware';
+import { canAccessTarget } from '../../utils/api-keys';
+
+/**
+ * Last event id a client received, from the `Last-Event-ID` header or the
+ * `lastEventId` query parameter; 0 replays the whole stream
+ */
+function parseLastEventId(req: express.Request): number | null {
+  const value = req.get('Last-Event-ID') ?? req.query.lastEventId;
+  if (value === undefined || value === '') {
+    return 0;
+  }
+  const lastEventId = Number(value);
+  return Number.isInteger(lastEventId) && lastEventId >= 0 ? lastEventId : null;
+}
+
+/**
+ * Whether a request may resume a stream: it must be made with the API key the stream's
+ * message was sent with, and name the session the message was sent in or, for messages
+ * sent to a channel, their author
+ */
+function isStreamOwner(req: ApiKeyAuthRequest, owner: SSEStreamOwner): boolean {
+  if (!canAccessTarget(req.apiKey, owner) || req.apiKey?.id !== owner.apiKeyId) {
+    return false;
+  }
+  return owner.sessionId !== undefined
+    ? req.query.sessionId === owner.sessionId
+    : req.query.entityId === owner.entityId;
+}
+
+/**
+ * Resuming SSE message streams after a dropped connection
+ */
+export function createStreamsRouter(
+  replayBuffer: SSEReplayBuffer = sseReplayBuffer
+): express.Router {
+  const router = express.Router();
+
+  /**
+   * Replay the events of a stream after `Last-Event-ID`, then follow it until it ends
+   * GET /api/messaging/streams/:streamId
+   */
+  router.get('/streams/:streamId', (req: ApiKeyAuthRequest, res) => {
+    const streamId = validateUuid(req.params.streamId);
+    if (!streamId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid stream ID format');
+    }
+    const lastEventId = parseLastEventId(req);
+    if (lastEventId === null) {
+      return sendError(res, 400, 'INVALID_REQUEST', 'Last-Event-ID must be a non-negative integer');
+    }
+
+    // Streams of other senders are reported as not found
+    const stream = replayBuffer.get(streamId);
+    if (!stream || !isStreamOwner(req, stream.owner)) {
+      return sendError(res, 404, 'STREAM_NOT_FOUND', 'Stream not found or expired');
+    }
+    followSSEStream(res, stream, lastEventId);
+  });
+
+  return router;
+}
@@ -0,0 +1,429 @@
+import {
+  ChannelType,
+  createUniqueUuid,
+  logger,
+  type Content,
+  type ElizaOS,
+  type IAgentRuntime,
+  type UUID,
+} from '@elizaos/core';
+import express from 'express';
+import { createHash } from 'node:crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { AgentServer } from '../../index';
+import type { ApiKeyAuthRequest } from '../../middleware';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionMessage,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionUsage,
+} from '../../types/openai';
+import { findAgentByModel, sendOpenAIError } from './shared';
+
+const SOURCE = 'openai';
+const ANONYMOUS_USER = 'anonymous';
+// Callers authenticated with the server token, or with no auth configured
+const SERVER_CALLER = 'server';
+const MAX_MESSAGES = 200;
+const MAX_CONTENT_LENGTH = 50000;
+
+// Rough characters-per-token ratio, used when no model usage was recorded for the run
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Flattens OpenAI message content, which may be a list of parts, to plain text
+ */
+function getMessageText(message: ChatCompletionMessage): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  return (message.content ?? [])
+    .filter((part) => part.type === 'text' && typeof part.text === 'string')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+/**
+ * Prefixes the text of the new message with the client's system and developer messages,
+ * so the agent follows them on top of its character. Clients resend them with every
+ * request, so they are not part of the seeded history.
+ */
+function withSystemInstructions(messages: ChatCompletionMessage[], text: string): string {
+  const instructions = messages
+    .filter((message) => message.role === 'system' || message.role === 'developer')
+    .map((message) => getMessageText(message).trim())
+    .filter(Boolean);
+  if (instructions.length === 0) {
+    return text;
+  }
+  return `Instructions from the client:\n${instructions.join('\n\n')}\n\n${text}`;
+}
+
+/**
+ * Validates the request body, returning an error message and the offending param if invalid
+ */
+function validateRequest(body: unknown): { message: string; param: string } | undefined {
+  const request = body as Partial<ChatCompletionRequest> | undefined;
+  if (!request || typeof request.model !== 'string' || !request.model.trim()) {
+    return { message: 'model is required and must be an agent name or ID', param: 'model' };
+  }
+  if (!Array.isArray(request.messages) || request.messages.length === 0) {
+    return { message: 'messages must be a non-empty array', param: 'messages' };
+  }
+  if (request.messages.length > MAX_MESSAGES) {
+    return {
+      message: `messages cannot contain more than ${MAX_MESSAGES} items`,
+      param: 'messages',
+    };
+  }
+  for (const message of request.messages) {
+    if (!message || typeof message.role !== 'string') {
+      return { message: 'Each message must have a role', param: 'messages' };
+    }
+    if (getMessageText(message).length > MAX_CONTENT_LENGTH) {
+      return {
+        message: `Message content cannot exceed ${MAX_CONTENT_LENGTH} characters`,
+        param: 'messages',
+      };
+    }
+  }
+  const last = request.messages[request.messages.length - 1];
+  if (last.role !== 'user' || !getMessageText(last).trim()) {
+    return { message: 'The last message must be a non-empty user message', param: 'messages' };
+  }
+  return undefined;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Token usage of the run that handled a message, summed from the model usage ledger.
+ * Falls back to an estimate from text length when the run recorded no usage.
+ */
+async function getCompletionUsage(
+  runtime: IAgentRuntime,
+  roomId: UUID,
+  messageId: UUID,
+  promptText: string,
+  completionText: string
+): Promise<ChatCompletionUsage> {
+  let promptTokens = 0;
+  let completionTokens = 0;
+  try {
+    const runEvents = await runtime.getLogs({ roomId, type: 'run_event', count: 20 });
+    const runId = runEvents.find((log) => log.body?.messageId === messageId)?.body?.runId as
+      | UUID
+      | undefined;
+    if (runId) {
+      for (const record of (await runtime.getModelUsage?.({ runId })) ?? []) {
+        promptTokens += record.promptTokens;
+        completionTokens += record.completionTokens;
+      }
+    }
+  } catch (error) {
+    logger.debug(
+      {
+        src: 'http',
+        agentId: runtime.agentId,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      'Could not read model usage for chat completion'
+    );
+  }
+
+  if (promptTokens + completionTokens === 0) {
+    promptTokens = estimateTokens(promptText);
+    completionTokens = estimateTokens(completionText);
+  }
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Maps an OpenAI conversation onto a DM channel between the caller and the agent.
+ *
+ * OpenAI clients resend the whole conversation on every request and the messages they
+ * send are authoritative, so the channel is keyed by the authenticated caller (API key),
+ * the `user` and a hash of every message before the new one. A new channel is seeded
+ * with the earlier turns as agent memories, so the agent sees exactly the history the
+ * client sent even when it was edited; a request repeating the same history reuses it.
+ */
+async function prepareConversation(
+  runtime: IAgentRuntime,
+  serverInstance: AgentServer,
+  request: ChatCompletionRequest,
+  caller: string
+): Promise<{ channelId: UUID; entityId: UUID }> {
+  const user = request.user?.trim() || ANONYMOUS_USER;
+  const priorMessages = request.messages.slice(0, -1);
+  const historyHash = createHash('sha256')
+    .update(JSON.stringify(priorMessages.map((message) => [message.role, getMessageText(message)])))
+    .digest('hex');
+  const entityId = createUniqueUuid(runtime, `${SOURCE}-user:${caller}:${user}`);
+  const channelId = createUniqueUuid(
+    runtime,
+    `${SOURCE}-conversation:${caller}:${user}:${historyHash}`
+  );
+
+  const existing = await serverInstance.getChannelDetails(channelId);
+  if (existing) {
+    return { channelId, entityId };
+  }
+
+  await serverInstance.createChannel({
+    id: channelId,
+    name: `${SOURCE}-${channelId}`,
+    type: ChannelType.DM,
+    messageServerId: serverInstance.messageServerId,
+    metadata: { source: SOURCE, agentId: runtime.agentId, userId: entityId, user, caller },
+  });
+  await serverInstance.addParticipantsToChannel(channelId, [runtime.agentId]);
+
+  const history = priorMessages.filter(
+    (message) => message.role === 'user' || message.role === 'assistant'
+  );
+  if (history.length > 0) {
+    await runtime.ensureConnection({
+      entityId,
+      roomId: channelId,
+      worldId: channelId,
+      source: SOURCE,
+      channelId,
+      type: ChannelType.DM,
+    });
+    const start = Date.now() - history.length;
+    for (const [index, message] of history.entries()) {
+      await runtime.createMemory(
+        {
+          entityId: message.role === 'assistant' ? runtime.agentId : entityId,
+          agentId: runtime.agentId,
+          roomId: channelId,
+          content: { text: getMessageText(message), source: SOURCE },
+          createdAt: start + index,
+        },
+        'messages'
+      );
+    }
+  }
+
+  return { channelId, entityId };
+}
+
+/**
+ * OpenAI-compatible chat completions backed by agents: `model` names the agent, and
+ * the last user message runs through the agent's full message pipeline.
+ */
+export function createChatCompletionsRouter(
+  elizaOS: ElizaOS,
+  serverInstance: AgentServer
+): express.Router {
+  const router = express.Router();
+
+  router.post('/chat/completions', async (req: ApiKeyAuthRequest, res) => {
+    const invalid = validateRequest(req.body);
+    if (invalid) {
+      return sendOpenAIError(res, 400, invalid.message, { param: invalid.param });
+    }
+
+    const request = req.body as ChatCompletionRequest;
+    const runtime = findAgentByModel(elizaOS, request.model, req.apiKey);
+    if (!runtime) {
+      return sendOpenAIError(res, 404, `The model '${request.model}' does not exist`, {
+        type: 'not_found_error',
+        param: 'model',
+        code: 'model_not_found',
+      });
+    }
+
+    const completionId = `chatcmpl-${uuidv4()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const model = runtime.character.name;
+    const promptText = getMessageText(request.messages[request.messages.length - 1]);
+
+    let channelId: UUID;
+    let entityId: UUID;
+    let messageId: UUID;
+    try {
+      ({ channelId, entityId } = await prepareConversation(
+        runtime,
+        serverInstance,
+        request,
+        req.apiKey?.id ?? SERVER_CALLER
+      ));
+      const message = await serverInstance.createMessage({
+        channelId,
+        authorId: entityId,
+        content: promptText,
+        rawMessage: { content: promptText },
+        sourceType: SOURCE,
+        metadata: { source: SOURCE, user: request.user },
+      });
+      messageId = message.id;
+    } catch (error) {
+      logger.error(
+        {
+          src: 'http',
+          agentId: runtime.agentId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to prepare chat completion conversation'
+      );
+      return sendOpenAIError(res, 500, 'Failed to prepare conversation');
+    }
+
+    // The central message keeps what the user wrote; the agent also gets the instructions
+    const agentPromptText = withSystemInstructions(request.messages, promptText);
+
+    // Agent memories are keyed apart from central messages, as the message bus does
+    const memoryId = createUniqueUuid(runtime, messageId);
+    const messageMemory = {
+      id: memoryId,
+      entityId,
+      roomId: channelId,
+      content: { text: agentPromptText, source: SOURCE, channelType: ChannelType.DM },
+    };
+
+    const saveResponse = async (text: string) => {
+      if (!text) {
+        return;
+      }
+      try {
+        await serverInstance.createMessage({
+          channelId,
+          authorId: runtime.agentId,
+          content: text,
+          rawMessage: { content: text },
+          sourceType: 'agent_response',
+          inReplyToRootMessageId: messageId,
+          metadata: { source: SOURCE },
+        });
+      } catch (error) {
+        logger.warn(
+          {
+            src: 'http',
+            agentId: runtime.agentId,
+            channelId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Failed to store chat completion response'
+        );
+      }
+    };
+
+    if (!request.stream) {
+      try {
+        const result = await elizaOS.handleMessage(runtime.agentId, messageMemory);
+        const text = result.processing?.responseContent?.text ?? '';
+        await saveResponse(text);
+
+        const response: ChatCompletionResponse = {
+          id: completionId,
+          object: 'chat.completion',
+          created,
+          model,
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: text },
+              finish_reason: 'stop',
+            },
+          ],
+          usage: await getCompletionUsage(runtime, channelId, memoryId, agentPromptText, text),
+        };
+        return res.json(response);
+      } catch (error) {
+        logger.error(
+          {
+            src: 'http',
+            agentId: runtime.agentId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Chat completion failed'
+        );
+        return sendOpenAIError(res, 500, 'The agent failed to process the message');
+      }
+    }
+
+    // Streaming: OpenAI-style SSE with data-only events, terminated by [DONE]
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const writeChunk = (
+      delta: ChatCompletionChunk['choices'][number]['delta'],
+      finishReason: ChatCompletionChunk['choices'][number]['finish_reason'] = null,
+      usage?: ChatCompletionUsage
+    ) => {
+      if (res.writableEnded) {
+        return;
+      }
+      const chunk: ChatCompletionChunk = {
+        id: completionId,
+        object: 'chat.completion.chunk',
+        created,
+        model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+        ...(request.stream_options?.include_usage ? { usage: usage ?? null } : {}),
+      };
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    };
+
+    let completionText = '';
+    // Whether text of the current response was already sent as stream chunks
+    let streamedResponse = false;
+    writeChunk({ role: 'assistant', content: '' });
+
+    const finish = async (error?: Error) => {
+      if (res.writableEnded) {
+        return;
+      }
+      if (error) {
+        res.write(
+          `data: ${JSON.stringify({
+            error: { message: error.message, type: 'server_error', param: null, code: null },
+          })}\n\n`
+        );
+      } else {
+        await saveResponse(completionText);
+        const usage = request.stream_options?.include_usage
+          ? await getCompletionUsage(runtime, channelId, memoryId, agentPromptText, completionText)
+          : undefined;
+        writeChunk({}, 'stop', usage);
+      }
+      res.write('data: [DONE]\n\n');
+      res.end();
+    };
+
+    try {
+      await elizaOS.handleMessage(runtime.agentId, messageMemory, {
+        onStreamChunk: async (chunk: string) => {
+          streamedResponse = true;
+          completionText += chunk;
+          writeChunk({ content: chunk });
+        },
+        onResponse: async (content: Content) => {
+          // Responses that were not streamed, e.g. from actions, are sent whole
+          if (!streamedResponse && content.text) {
+            const text = completionText ? `\n\n${content.text}` : content.text;
+            completionText += text;
+            writeChunk({ content: text });
+          }
+          streamedResponse = false;
+        },
+        onComplete: async () => finish(),
+        onError: async (error: Error) => finish(error),
+      });
+    } catch (error) {
+      await finish(error instanceof Error ? error : new Error(String(error)));
+    }
+  });
+
+  return router;
+}
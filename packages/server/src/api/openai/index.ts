@@ -0,0 +1,25 @@
+import type { ElizaOS } from '@elizaos/core';
+import express from 'express';
+import type { AgentServer } from '../../index';
+import { createApiRateLimit, securityMiddleware } from '../../middleware';
+import { createChatCompletionsRouter } from './chat';
+import { createModelsRouter } from './models';
+
+/**
+ * Creates the OpenAI-compatible router, mounted at /v1 so that OpenAI clients can use
+ * the server as their base URL
+ */
+export function openaiRouter(elizaOS: ElizaOS, serverInstance: AgentServer): express.Router {
+  const router = express.Router();
+
+  router.use(createApiRateLimit());
+  router.use(securityMiddleware());
+
+  // Mount chat completions
+  router.use('/', createChatCompletionsRouter(elizaOS, serverInstance));
+
+  // Mount agent listing as models
+  router.use('/', createModelsRouter(elizaOS));
+
+  return router;
+}
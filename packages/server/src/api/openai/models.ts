@@ -0,0 +1,50 @@
+import type { ElizaOS, IAgentRuntime } from '@elizaos/core';
+import express from 'express';
+import type { ApiKeyAuthRequest } from '../../middleware';
+import type { OpenAIModel, OpenAIModelList } from '../../types/openai';
+import { canAccessTarget } from '../../utils/api-keys';
+import { findAgentByModel, sendOpenAIError } from './shared';
+
+const OWNER = 'elizaos';
+
+function toModel(runtime: IAgentRuntime): OpenAIModel {
+  return {
+    id: runtime.character.name,
+    object: 'model',
+    created: 0,
+    owned_by: OWNER,
+    agent_id: runtime.agentId,
+  };
+}
+
+/**
+ * Lists running agents as OpenAI models, so OpenAI clients can discover them
+ */
+export function createModelsRouter(elizaOS: ElizaOS): express.Router {
+  const router = express.Router();
+
+  router.get('/models', (req: ApiKeyAuthRequest, res) => {
+    const response: OpenAIModelList = {
+      object: 'list',
+      data: elizaOS
+        .getAgents()
+        .filter((runtime) => canAccessTarget(req.apiKey, { agentId: runtime.agentId }))
+        .map(toModel),
+    };
+    res.json(response);
+  });
+
+  router.get('/models/:model', (req, res) => {
+    const runtime = findAgentByModel(elizaOS, req.params.model, (req as ApiKeyAuthRequest).apiKey);
+    if (!runtime) {
+      return sendOpenAIError(res, 404, `The model '${req.params.model}' does not exist`, {
+        type: 'not_found_error',
+        param: 'model',
+        code: 'model_not_found',
+      });
+    }
+    res.json(toModel(runtime));
+  });
+
+  return router;
+}
@@ -0,0 +1,47 @@
+import type { ElizaOS, IAgentRuntime } from '@elizaos/core';
+import { validateUuid } from '@elizaos/core';
+import type express from 'express';
+import type { ApiKey } from '../../types/api-keys';
+import type { OpenAIErrorResponse } from '../../types/openai';
+import { canAccessTarget } from '../../utils/api-keys';
+
+/**
+ * Sends an error in the OpenAI error format, which OpenAI client libraries surface to callers
+ */
+export function sendOpenAIError(
+  res: express.Response,
+  status: number,
+  message: string,
+  options: {
+    type?: OpenAIErrorResponse['error']['type'];
+    param?: string;
+    code?: string;
+  } = {}
+): void {
+  const response: OpenAIErrorResponse = {
+    error: {
+      message,
+      type: options.type ?? (status >= 500 ? 'server_error' : 'invalid_request_error'),
+      param: options.param ?? null,
+      code: options.code ?? null,
+    },
+  };
+  res.status(status).json(response);
+}
+
+/**
+ * Resolves the `model` of an OpenAI request to an agent, by ID or by case-insensitive name.
+ * Agents the request's API key may not access are not found.
+ */
+export function findAgentByModel(
+  elizaOS: ElizaOS,
+  model: string,
+  apiKey?: ApiKey
+): IAgentRuntime | undefined {
+  const agentId = validateUuid(model);
+  const name = model.trim().toLowerCase();
+  const runtime = agentId
+    ? elizaOS.getAgent(agentId)
+    : elizaOS.getAgents().find((agent) => agent.character.name.toLowerCase() === name);
+  return runtime && canAccessTarget(apiKey, { agentId: runtime.agentId }) ? runtime : undefined;
+}
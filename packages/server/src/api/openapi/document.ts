@@ -0,0 +1,194 @@
+import type { Route } from '@elizaos/core';
+import type { ApiOperation, HttpMethod, JsonSchema } from './types';
+import { agentOperations } from './operations/agents';
+import { audioOperations } from './operations/audio';
+import { mediaOperations } from './operations/media';
+import { memoryOperations } from './operations/memory';
+import { messagingOperations } from './operations/messaging';
+import { openaiOperations } from './operations/openai';
+import { runtimeOperations } from './operations/runtime';
+import { systemOperations } from './operations/system';
+import { webhookOperations } from './operations/webhooks';
+import { anyObject, binary, componentSchemas, objectOf, ref, uuid } from './schemas';
+
+/**
+ * Every route served by the routers under `server/src/api`, from which the OpenAPI
+ * document is generated. The server tests check it against the mounted routers, their
+ * responses and the requests of `@elizaos/api-client`.
+ */
+export const apiOperations: ApiOperation[] = [
+  ...agentOperations,
+  ...messagingOperations,
+  ...memoryOperations,
+  ...audioOperations,
+  ...mediaOperations,
+  ...runtimeOperations,
+  ...systemOperations,
+  ...webhookOperations,
+  ...openaiOperations,
+];
+
+const PLUGIN_TAG = 'plugins';
+
+const HTTP_METHODS: HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+/** Plugin paths ending in `/*` match any sub-path */
+const WILDCARD_PARAM = 'path';
+
+/**
+ * Converts an Express path to an OpenAPI path: `/agents/:agentId` to `/agents/{agentId}`
+ */
+export function toOpenApiPath(path: string): string {
+  return path
+    .replace(/\/\*$/, `/{${WILDCARD_PARAM}}`)
+    .replace(/:([A-Za-z0-9_]+)/g, (_match, name: string) => `{${name}}`);
+}
+
+function pathParameterNames(path: string): string[] {
+  return Array.from(toOpenApiPath(path).matchAll(/\{([^}]+)\}/g), (match) => match[1]);
+}
+
+/**
+ * Describes the HTTP routes registered by plugins, served under `/api` with an optional
+ * `agentId` query parameter picking the agent whose route handles the request
+ */
+export function pluginRouteOperations(routes: Route[]): ApiOperation[] {
+  const operations = new Map<string, ApiOperation>();
+  for (const route of routes) {
+    const method = route.type.toLowerCase() as HttpMethod;
+    if (!HTTP_METHODS.includes(method)) {
+      continue;
+    }
+    const path = `/api${route.path.startsWith('/') ? route.path : `/${route.path}`}`;
+    const key = `${method} ${path}`;
+    if (operations.has(key)) {
+      continue;
+    }
+    operations.set(key, {
+      method,
+      path,
+      summary: route.name ?? `Plugin route ${route.type} ${route.path}`,
+      tag: PLUGIN_TAG,
+      query: { agentId: uuid },
+      ...(method !== 'get' &&
+        method !== 'delete' &&
+        (route.isMultipart ? { form: anyObject } : { body: anyObject })),
+      response: {},
+      envelope: false,
+    });
+  }
+  return Array.from(operations.values());
+}
+
+function toOpenApiOperation(operation: ApiOperation): Record<string, unknown> {
+  const parameters = [
+    ...pathParameterNames(operation.path).map((name) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: name === 'id' || /[a-z]Id$/.test(name) ? uuid : { type: 'string' },
+    })),
+    ...Object.entries(operation.query ?? {}).map(([name, schema]) => ({
+      name,
+      in: 'query',
+      required: false,
+      schema,
+    })),
+  ];
+
+  const requestContent: Record<string, { schema: JsonSchema }> = {};
+  if (operation.body) {
+    requestContent['application/json'] = { schema: operation.body };
+  }
+  if (operation.form) {
+    requestContent['multipart/form-data'] = { schema: operation.form };
+  }
+
+  const responseContent: Record<string, { schema: JsonSchema }> = {};
+  if (operation.response) {
+    responseContent['application/json'] = {
+      schema:
+        operation.envelope === false
+          ? operation.response
+          : objectOf({ success: { const: true }, data: operation.response }, ['success', 'data']),
+    };
+  }
+  for (const contentType of operation.produces ?? []) {
+    responseContent[contentType] = {
+      schema: contentType === 'text/event-stream' ? { type: 'string' } : binary,
+    };
+  }
+
+  const status = operation.status ?? 200;
+  return {
+    operationId: `${operation.method}${operation.path
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map((part) => part[0].toUpperCase() + part.slice(1))
+      .join('')}`,
+    summary: operation.summary,
+    tags: [operation.tag],
+    ...(operation.deprecated && { deprecated: true }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(Object.keys(requestContent).length > 0 && {
+      requestBody: { required: true, content: requestContent },
+    }),
+    responses: {
+      [status]: {
+        description: status === 204 ? 'No content' : 'Success',
+        ...(Object.keys(responseContent).length > 0 && { content: responseContent }),
+      },
+      default: {
+        description: 'Error',
+        content: { 'application/json': { schema: operation.error ?? ref('ErrorResponse') } },
+      },
+    },
+  };
+}
+
+export interface OpenApiDocumentOptions {
+  /** Server version, the version of the document */
+  version: string;
+  /** Routes registered by the plugins of the running agents */
+  pluginRoutes?: Route[];
+}
+
+/**
+ * Generates the OpenAPI 3.1 document of the REST API, including plugin routes
+ */
+export function createOpenApiDocument({
+  version,
+  pluginRoutes = [],
+}: OpenApiDocumentOptions): Record<string, unknown> {
+  const operations = [...apiOperations, ...pluginRouteOperations(pluginRoutes)];
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of operations) {
+    const path = toOpenApiPath(operation.path);
+    paths[path] ??= {};
+    // Built-in routes take precedence over plugin routes with the same path
+    paths[path][operation.method] ??= toOpenApiOperation(operation);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'elizaOS Server API',
+      version,
+      description:
+        'REST API of the elizaOS server. When ELIZA_SERVER_AUTH_TOKEN is set, requests ' +
+        'need it or a scoped API key in the X-API-KEY header or as a bearer token.',
+    },
+    servers: [{ url: '/' }],
+    tags: Array.from(new Set(operations.map((operation) => operation.tag)), (name) => ({ name })),
+    security: [{}, { apiKey: [] }, { bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-KEY' },
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+      },
+      schemas: componentSchemas,
+    },
+  };
+}
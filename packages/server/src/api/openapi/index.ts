@@ -0,0 +1,31 @@
+import type { ElizaOS } from '@elizaos/core';
+import express from 'express';
+import packageJson from '../../../package.json';
+import { createOpenApiDocument } from './document';
+
+export {
+  apiOperations,
+  createOpenApiDocument,
+  pluginRouteOperations,
+  toOpenApiPath,
+} from './document';
+export type { ApiOperation, HttpMethod, JsonSchema } from './types';
+
+/**
+ * Creates the router serving the OpenAPI document of the REST API
+ */
+export function openapiRouter(elizaOS: ElizaOS): express.Router {
+  const router = express.Router();
+
+  // GET /api/openapi.json - Generated per request to include the routes of plugins
+  // loaded since startup
+  router.get('/openapi.json', (_req, res) => {
+    const document = createOpenApiDocument({
+      version: packageJson.version,
+      pluginRoutes: elizaOS.getAgents().flatMap((runtime) => runtime.routes),
+    });
+    res.json(document);
+  });
+
+  return router;
+}
@@ -0,0 +1,354 @@
+import type { ApiOperation } from '../types';
+import {
+  anyObject,
+  arrayOf,
+  boolean,
+  integer,
+  objectOf,
+  ref,
+  string,
+  timestamp,
+  uuid,
+} from '../schemas';
+
+const tag = 'agents';
+
+const taskResponse = objectOf({ task: ref('Task') }, ['task']);
+
+const templateUpdate = {
+  allOf: [
+    ref('PromptTemplateDetail'),
+    objectOf({ issues: arrayOf(ref('PromptTemplateIssue')) }, ['issues']),
+  ],
+};
+
+export const agentOperations: ApiOperation[] = [
+  // crud.ts
+  {
+    method: 'get',
+    path: '/api/agents',
+    summary: 'List agents',
+    tag,
+    response: objectOf({ agents: arrayOf(ref('AgentSummary')) }, ['agents']),
+  },
+  {
+    method: 'get',
+    path: '/api/agents/:agentId',
+    summary: 'Get an agent',
+    tag,
+    response: ref('Agent'),
+  },
+  {
+    method: 'post',
+    path: '/api/agents',
+    summary: 'Create an agent from a character',
+    tag,
+    body: objectOf({
+      characterPath: { type: 'string', description: 'Path or URL of a character file' },
+      characterJson: ref('Agent'),
+      agent: ref('Agent'),
+    }),
+    status: 201,
+    response: objectOf({ id: uuid, character: ref('Agent') }, ['id', 'character']),
+  },
+  {
+    method: 'patch',
+    path: '/api/agents/:agentId',
+    summary: 'Update an agent, reloading it when running',
+    tag,
+    body: ref('Agent'),
+    response: ref('Agent'),
+  },
+  {
+    method: 'delete',
+    path: '/api/agents/:agentId',
+    summary: 'Delete an agent',
+    tag,
+    status: 204,
+  },
+
+  // bundle.ts
+  {
+    method: 'get',
+    path: '/api/agents/:agentId/export',
+    summary: 'Export an agent with its data as a bundle',
+    tag,
+    query: {
+      secrets: { enum: ['omit', 'encrypted', 'plaintext'] },
+      tables: { type: 'string', description: 'Comma-separated memory tables to include' },
+      memoryOffset: {
+        type: 'integer',
+        description: 'Memories of each table to skip, newest first',
+      },
+      memoryLimit: { type: 'integer', description: 'Memories to include per table' },
+    },
+    response: ref('AgentBundle'),
+  },
+  {
+    method: 'post',
+    path: '/api/agents/import',
+    summary: 'Import an agent bundle',
+    tag,
+    body: objectOf(
+      {
+        bundle: ref('AgentBundle'),
+        mode: { enum: ['merge', 'replace'] },
+        remapIds: boolean,
+        agentId: uuid,
+      },
+      ['bundle']
+    ),
+    response: ref('AgentBundleImportResult'),
+  },
+
+  // lifecycle.ts
+  {
+    method: 'post',
+    path: '/api/agents/:agentId/start',
+    summary: 'Start an agent',
+    tag,
+    response: objectOf({ id: uuid, name: string, status: { const: 'active' } }, [
+      'id',
+      'name',
+      'status',
+    ]),
+  },
+  {
+    method: 'post',
+    path: '/api/agents/:agentId/stop',
+    summary: 'Stop an agent',
+    tag,
+    response: objectOf({ message: string }, ['message']),
+  },
+
+  // worlds.ts
+  {
+    method: 'get',
+    path: '/api/agents/worlds',
+    summary: 'List worlds of all agents',
+    tag,
+    response: objectOf({ worlds: arrayOf(ref('World')) }, ['worlds']),
+  },
+  {
+    method: 'post',
+    path: '/api/agents/:agentId/worlds',
+    summary: 'Create a world',
+    tag,
+    body: objectOf({ name: string, messageServerId: uuid, metadata: anyObject }, ['name']),
+    status: 201,
+    response: objectOf({ world: ref('World') }, ['world']),
+  },
+  {
+    method: 'patch',
+    path: '/api/agents/:agentId/worlds/:worldId',
+    summary: 'Update a world',
+    tag,
+    body: objectOf({ name: string, metadata: anyObject }),
+    response: objectOf({ world: ref('World') }, ['world']),
+  },
+
+  // panels.ts
+  {
+    method: 'get',
+    path: '/api/agents/:agentId/panels',
+    summary: 'List the public UI panels of plugins',
+    tag,
+    response: arrayOf(ref('AgentPanel')),
+  },
+
+  // logs.ts
+  {
+    method: 'get',
+    path: '/api/agents/:agentId/logs',
+    summary: 'List agent logs',
+    tag,
+    query: {
+      roomId: uuid,
+      type: string,
+      count: integer,
+      offset: integer,
+      excludeTypes: { type: 'string', description: 'Comma-separated log types to leave out' },
+    },
+    response: arrayOf(ref('AgentLog')),
+  },
+  {
+    method: 'delete',
+    path: '/api/agents/:agentId/logs/:logId',
+    summary: 'Delete an agent log',
+    tag,
+    status: 204,
+  },
+
+  // runs.ts
+  {
+    method: 'get',
+    path: '/api/agents/:agentId/runs',
+    summary: 'List agent runs',
+    tag,
+    query: {
+      roomId: uuid,
+      status: { enum: ['all', 'completed', 'timeout', 'error', 'started'] },
+      limit: integer,
+      from: timestamp,
+      to: timestamp,
+    },
+    response: objectOf({ runs: arrayOf(ref('RunSummary')), total: integer, hasMore: boolean }, [
+      'runs',
+      'total',
+      'hasMore',
+    ]),
+  },
+  {
+    method: 'get',
+    path: '/api/agents/:agentId/runs/:runId',
+    summary: 'Get a run with its events',
+    tag,
+    query: { roomId: uuid },
+    response: objectOf({ summary: ref('RunSummary'), events: arrayOf(ref('RunEvent')) }, [
+      'summary',
+      'events',
+    ]),
+  },
+
+  // tasks.ts
+  {
+    method: 'get',
+    path: '/api/agents/:agentId/tasks',
+    summary: 'List tasks',
+    tag,
+    query: {
+      roomId: uuid,
+      status: { enum: ['pending', 'running', 'paused', 'dead_letter'] },
+      name: string,
+      tags: { type: 'string', description: 'Comma-separated tags' },
+    },
+    response: objectOf({ tasks: arrayOf(ref('Task')) }, ['tasks']),
+  },
+  {
+    method: 'post',
+    path: '/api/agents/:agentId/tasks',
+    summary: 'Create a task for a registered task worker',
+    tag,
+    body: objectOf(
+      {
+        name: string,
+        description: string,
+        tags: arrayOf(string),
+        metadata: anyObject,
+        roomId: uuid,
+        worldId: uuid,
+        entityId: uuid,
+      },
+      ['name']
+    ),
+    status: 201,
+    response: taskResponse,
+  },
+  {
+    method: 'get',
+    path: '/api/agents/:agentId/tasks/:taskId',
+    summary: 'Get a task',
+    tag,
+    response: taskResponse,
+  },
+  {
+    method: 'patch',
+    path: '/api/agents/:agentId/tasks/:taskId',
+    summary: 'Update a task',
+    tag,
+    body: objectOf({ description: string, tags: arrayOf(string), metadata: anyObject }),
+    response: taskResponse,
+  },
+  {
+    method: 'delete',
+    path: '/api/agents/:agentId/tasks/:taskId',
+    summary: 'Delete a task',
+    tag,
+    status: 204,
+  },
+  {
+    method: 'get',
+    path: '/api/agents/:agentId/tasks/:taskId/executions',
+    summary: 'List executions of a task',
+    tag,
+    query: { limit: integer, offset: integer },
+    response: objectOf({ executions: arrayOf(ref('TaskExecution')) }, ['executions']),
+  },
+  {
+    method: 'post',
+    path: '/api/agents/:agentId/tasks/:taskId/run',
+    summary: 'Run a task now',
+    tag,
+    status: 202,
+    response: taskResponse,
+  },
+  {
+    method: 'post',
+    path: '/api/agents/:agentId/tasks/:taskId/pause',
+    summary: 'Pause a task',
+    tag,
+    response: taskResponse,
+  },
+  {
+    method: 'post',
+    path: '/api/agents/:agentId/tasks/:taskId/resume',
+    summary: 'Resume a paused or dead-lettered task',
+    tag,
+    response: taskResponse,
+  },
+
+  // usage.ts
+  {
+    method: 'get',
+    path: '/api/agents/:agentId/usage',
+    summary: 'Get model usage and cost of an agent',
+    tag,
+    query: {
+      from: { type: 'string', description: 'Epoch milliseconds or ISO date' },
+      to: { type: 'string', description: 'Epoch milliseconds or ISO date' },
+      runId: uuid,
+      limit: integer,
+    },
+    response: ref('AgentUsage'),
+  },
+
+  // state-cache.ts
+  {
+    method: 'get',
+    path: '/api/agents/:agentId/state-cache',
+    summary: 'Get state cache metrics of an agent',
+    tag,
+    response: ref('AgentStateCache'),
+  },
+
+  // templates.ts
+  {
+    method: 'get',
+    path: '/api/agents/:agentId/templates',
+    summary: 'List prompt templates',
+    tag,
+    response: objectOf({ templates: arrayOf(ref('PromptTemplateInfo')) }, ['templates']),
+  },
+  {
+    method: 'get',
+    path: '/api/agents/:agentId/templates/:name',
+    summary: 'Get a prompt template',
+    tag,
+    response: ref('PromptTemplateDetail'),
+  },
+  {
+    method: 'put',
+    path: '/api/agents/:agentId/templates/:name',
+    summary: 'Override a prompt template',
+    tag,
+    body: objectOf({ template: string }, ['template']),
+    response: templateUpdate,
+  },
+  {
+    method: 'delete',
+    path: '/api/agents/:agentId/templates/:name',
+    summary: 'Reset a prompt template to its default',
+    tag,
+    response: ref('PromptTemplateDetail'),
+  },
+];
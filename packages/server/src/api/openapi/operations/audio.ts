@@ -0,0 +1,67 @@
+import type { ApiOperation } from '../types';
+import { binary, objectOf, string, uuid } from '../schemas';
+
+const tag = 'audio';
+
+const audioFile = objectOf({ file: binary }, ['file']);
+
+/** Synthesized speech is returned as is, in the format of the TTS model */
+const audioContent = ['audio/mpeg', 'audio/wav'];
+
+export const audioOperations: ApiOperation[] = [
+  // processing.ts
+  {
+    method: 'post',
+    path: '/api/audio/:agentId/audio-messages',
+    summary: 'Transcribe an audio message',
+    tag,
+    form: audioFile,
+    response: objectOf({ transcription: string, message: string }, ['transcription']),
+  },
+  {
+    method: 'post',
+    path: '/api/audio/:agentId/transcriptions',
+    summary: 'Transcribe audio',
+    tag,
+    form: audioFile,
+    response: objectOf({ text: string }, ['text']),
+  },
+
+  // synthesis.ts
+  {
+    method: 'post',
+    path: '/api/audio/:agentId/audio-messages/synthesize',
+    summary: 'Synthesize speech from text',
+    tag,
+    body: objectOf({ text: string }, ['text']),
+    produces: audioContent,
+  },
+  {
+    method: 'post',
+    path: '/api/audio/:agentId/speech/generate',
+    summary: 'Generate speech from text',
+    tag,
+    body: objectOf({ text: string }, ['text']),
+    produces: audioContent,
+  },
+
+  // conversation.ts
+  {
+    method: 'post',
+    path: '/api/audio/:agentId/speech/conversation',
+    summary: 'Reply to a message with speech',
+    tag,
+    body: objectOf(
+      {
+        text: string,
+        roomId: string,
+        entityId: string,
+        worldId: uuid,
+        userName: string,
+        name: string,
+      },
+      ['text']
+    ),
+    produces: audioContent,
+  },
+];
@@ -0,0 +1,25 @@
+import type { ApiOperation } from '../types';
+import { binary, objectOf, ref } from '../schemas';
+
+const tag = 'media';
+
+const mediaFile = objectOf({ file: binary }, ['file']);
+
+export const mediaOperations: ApiOperation[] = [
+  {
+    method: 'post',
+    path: '/api/media/agents/:agentId/upload-media',
+    summary: 'Upload a media file for an agent',
+    tag,
+    form: mediaFile,
+    response: ref('MediaUpload'),
+  },
+  {
+    method: 'post',
+    path: '/api/media/channels/:channelId/upload-media',
+    summary: 'Upload a media file to a channel',
+    tag,
+    form: mediaFile,
+    response: ref('MediaUpload'),
+  },
+];
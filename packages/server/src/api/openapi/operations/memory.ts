@@ -0,0 +1,142 @@
+import type { ApiOperation } from '../types';
+import { anyObject, arrayOf, boolean, integer, objectOf, ref, string, uuid } from '../schemas';
+
+const tag = 'memory';
+
+const memoriesResponse = objectOf({ memories: arrayOf(ref('Memory')) }, ['memories']);
+
+const memoryQuery = {
+  tableName: { type: 'string', description: 'Memory table, `messages` by default' },
+  includeEmbedding: boolean,
+};
+
+const memoryRouterOperations: ApiOperation[] = [
+  // agents.ts
+  {
+    method: 'get',
+    path: '/api/memory/:agentId/rooms/:roomId/memories',
+    summary: 'List memories of a room',
+    tag,
+    query: { ...memoryQuery, limit: integer, before: { type: 'integer', description: 'Epoch ms' } },
+    response: memoriesResponse,
+  },
+  {
+    method: 'get',
+    path: '/api/memory/:agentId/memories',
+    summary: 'List memories of an agent',
+    tag,
+    query: { ...memoryQuery, channelId: uuid, roomId: uuid },
+    response: memoriesResponse,
+  },
+  {
+    method: 'patch',
+    path: '/api/memory/:agentId/memories/:memoryId',
+    summary: 'Update a memory',
+    tag,
+    body: ref('Memory'),
+    response: objectOf({ id: uuid, message: string }, ['id', 'message']),
+  },
+  {
+    method: 'post',
+    path: '/api/memory/:agentId/memories/prune',
+    summary: 'Apply the memory retention rules of an agent',
+    tag,
+    body: objectOf({ dryRun: { type: 'boolean', default: true } }),
+    response: ref('MemoryPruneReport'),
+  },
+  {
+    method: 'delete',
+    path: '/api/memory/:agentId/memories',
+    summary: 'Delete all memories of an agent',
+    tag,
+    response: objectOf({ deleted: integer, message: string }, ['deleted', 'message']),
+  },
+  {
+    method: 'delete',
+    path: '/api/memory/:agentId/memories/all/:roomId',
+    summary: 'Delete the messages and documents of a room',
+    tag,
+    status: 204,
+  },
+  {
+    method: 'delete',
+    path: '/api/memory/:agentId/memories/:memoryId',
+    summary: 'Delete a memory',
+    tag,
+    response: objectOf({ message: string }, ['message']),
+  },
+
+  // groups.ts
+  {
+    method: 'post',
+    path: '/api/memory/groups/:messageServerId',
+    summary: 'Create a group room for several agents',
+    tag,
+    body: objectOf(
+      { name: string, worldId: uuid, source: string, metadata: anyObject, agentIds: arrayOf(uuid) },
+      ['name']
+    ),
+    status: 201,
+    response: arrayOf(ref('Room')),
+  },
+  {
+    method: 'delete',
+    path: '/api/memory/groups/:messageServerId',
+    summary: 'Delete a group',
+    tag,
+    status: 204,
+  },
+  {
+    method: 'delete',
+    path: '/api/memory/groups/:messageServerId/memories',
+    summary: 'Delete the memories of a group',
+    tag,
+    status: 204,
+  },
+
+  // rooms.ts
+  {
+    method: 'post',
+    path: '/api/memory/:agentId/rooms',
+    summary: 'Create a room',
+    tag,
+    body: objectOf(
+      {
+        name: string,
+        type: string,
+        source: string,
+        worldId: uuid,
+        metadata: anyObject,
+        messageServerId: uuid,
+      },
+      ['name']
+    ),
+    status: 201,
+    response: ref('Room'),
+  },
+  {
+    method: 'get',
+    path: '/api/memory/:agentId/rooms',
+    summary: 'List rooms of an agent',
+    tag,
+    response: objectOf({ rooms: arrayOf(ref('Room')) }, ['rooms']),
+  },
+  {
+    method: 'get',
+    path: '/api/memory/:agentId/rooms/:roomId',
+    summary: 'Get a room',
+    tag,
+    response: { allOf: [ref('Room'), objectOf({ worldName: string })] },
+  },
+];
+
+export const memoryOperations: ApiOperation[] = [
+  ...memoryRouterOperations,
+  // The agent memory and room routes are also mounted on the agents router
+  ...memoryRouterOperations
+    .filter((operation) => operation.path.startsWith('/api/memory/:agentId/'))
+    .map((operation) => ({
+      ...operation,
+      path: operation.path.replace('/api/memory/', '/api/agents/'),
+    })),
+];
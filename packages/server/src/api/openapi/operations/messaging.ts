@@ -0,0 +1,623 @@
+import { ChannelType } from '@elizaos/core';
+import type { ApiOperation, HttpMethod } from '../types';
+import { JobStatus } from '../../../types/jobs';
+import {
+  anyObject,
+  arrayOf,
+  boolean,
+  dateTime,
+  integer,
+  number,
+  objectOf,
+  ref,
+  string,
+  timestamp,
+  uuid,
+} from '../schemas';
+
+const tag = 'messaging';
+
+const SSE = 'text/event-stream';
+
+const transport = {
+  enum: ['http', 'sse', 'websocket'],
+  description:
+    '`http` waits for the agent reply, `sse` streams it, `websocket` returns at once and ' +
+    'delivers the reply over Socket.IO',
+};
+
+const sentMessage = objectOf(
+  {
+    success: { const: true },
+    userMessage: anyObject,
+    agentResponse: ref('Content'),
+  },
+  ['success', 'userMessage']
+);
+
+const agentMembership = (scope: string) =>
+  objectOf({ [scope]: uuid, agentId: uuid, message: string }, [scope, 'agentId', 'message']);
+
+const channelOperations: ApiOperation[] = [
+  {
+    method: 'post',
+    path: '/api/messaging/channels/:channelId/messages',
+    summary: 'Post a message to a channel; streamed with the `sse` transport',
+    tag,
+    body: objectOf(
+      {
+        author_id: uuid,
+        content: string,
+        in_reply_to_message_id: uuid,
+        message_server_id: uuid,
+        raw_message: anyObject,
+        metadata: anyObject,
+        source_type: string,
+        transport,
+        mode: { ...transport, deprecated: true, description: 'Use `transport`' },
+      },
+      ['author_id', 'content', 'message_server_id']
+    ),
+    status: 201,
+    response: sentMessage,
+    envelope: false,
+    produces: [SSE],
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/channels/:channelId/messages',
+    summary: 'List messages of a channel',
+    tag,
+    query: { limit: integer, before: { type: 'integer', description: 'Epoch ms' } },
+    response: objectOf({ messages: arrayOf(ref('Message')) }, ['messages']),
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/message-servers/:messageServerId/channels',
+    summary: 'List channels of a message server',
+    tag,
+    response: objectOf({ channels: arrayOf(ref('MessageChannel')) }, ['channels']),
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/dm-channel',
+    summary: 'Find or create the DM channel between two users',
+    tag,
+    query: { targetUserId: uuid, currentUserId: uuid, dmServerId: uuid },
+    response: ref('MessageChannel'),
+  },
+  {
+    method: 'post',
+    path: '/api/messaging/channels',
+    summary: 'Create a channel',
+    tag,
+    body: objectOf(
+      {
+        name: string,
+        participantCentralUserIds: arrayOf(uuid),
+        type: { enum: Object.values(ChannelType) },
+        message_server_id: uuid,
+        metadata: anyObject,
+      },
+      ['name', 'participantCentralUserIds', 'message_server_id']
+    ),
+    status: 201,
+    response: ref('MessageChannel'),
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/channels/:channelId/details',
+    summary: 'Get a channel',
+    tag,
+    response: ref('MessageChannel'),
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/channels/:channelId/participants',
+    summary: 'List participants of a channel',
+    tag,
+    response: arrayOf(uuid),
+  },
+  {
+    method: 'post',
+    path: '/api/messaging/channels/:channelId/agents',
+    summary: 'Add an agent to a channel',
+    tag,
+    body: objectOf({ agentId: uuid }, ['agentId']),
+    status: 201,
+    response: agentMembership('channelId'),
+  },
+  {
+    method: 'delete',
+    path: '/api/messaging/channels/:channelId/agents/:agentId',
+    summary: 'Remove an agent from a channel',
+    tag,
+    response: agentMembership('channelId'),
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/channels/:channelId/agents',
+    summary: 'List the participants of a channel, agents included',
+    tag,
+    response: objectOf({ channelId: uuid, participants: arrayOf(uuid) }, [
+      'channelId',
+      'participants',
+    ]),
+  },
+  {
+    method: 'delete',
+    path: '/api/messaging/channels/:channelId/messages/:messageId',
+    summary: 'Delete a message',
+    tag,
+    status: 204,
+  },
+  {
+    method: 'delete',
+    path: '/api/messaging/channels/:channelId/messages',
+    summary: 'Delete all messages of a channel',
+    tag,
+    status: 204,
+  },
+  {
+    method: 'patch',
+    path: '/api/messaging/channels/:channelId',
+    summary: 'Update a channel',
+    tag,
+    body: objectOf({
+      name: string,
+      participantCentralUserIds: arrayOf(uuid),
+      metadata: anyObject,
+    }),
+    response: ref('MessageChannel'),
+  },
+  {
+    method: 'delete',
+    path: '/api/messaging/channels/:channelId',
+    summary: 'Delete a channel',
+    tag,
+    status: 204,
+  },
+  {
+    method: 'post',
+    path: '/api/messaging/channels/:channelId/upload-media',
+    summary: 'Upload a media file to a channel',
+    tag,
+    form: objectOf({ file: { type: 'string', contentEncoding: 'binary' } }, ['file']),
+    response: ref('MediaUpload'),
+  },
+  {
+    method: 'post',
+    path: '/api/messaging/channels/:channelId/generate-title',
+    summary: 'Generate a channel title from its messages',
+    tag,
+    body: objectOf({ agentId: uuid }, ['agentId']),
+    response: objectOf({ title: { type: ['string', 'null'] }, channelId: uuid, reason: string }, [
+      'title',
+    ]),
+  },
+];
+
+/**
+ * Routes of the channels and message servers routers that were renamed, still served
+ * under their old paths: `[method, old path, current path]`
+ */
+const deprecatedAliases: [HttpMethod, string, string][] = [
+  ['post', '/central-channels/:channelId/messages', '/channels/:channelId/messages'],
+  ['get', '/central-channels/:channelId/messages', '/channels/:channelId/messages'],
+  ['get', '/central-servers/:serverId/channels', '/message-servers/:messageServerId/channels'],
+  ['post', '/central-channels', '/channels'],
+  ['get', '/central-channels/:channelId/details', '/channels/:channelId/details'],
+  ['get', '/central-channels/:channelId/participants', '/channels/:channelId/participants'],
+  ['post', '/central-channels/:channelId/agents', '/channels/:channelId/agents'],
+  [
+    'delete',
+    '/central-channels/:channelId/agents/:agentId',
+    '/channels/:channelId/agents/:agentId',
+  ],
+  ['get', '/central-channels/:channelId/agents', '/channels/:channelId/agents'],
+  [
+    'delete',
+    '/central-channels/:channelId/messages/:messageId',
+    '/channels/:channelId/messages/:messageId',
+  ],
+  ['delete', '/central-channels/:channelId/messages', '/channels/:channelId/messages'],
+  ['patch', '/central-channels/:channelId', '/channels/:channelId'],
+  ['delete', '/central-channels/:channelId', '/channels/:channelId'],
+  ['post', '/central-channels/:channelId/generate-title', '/channels/:channelId/generate-title'],
+  ['post', '/servers', '/message-servers'],
+  ['get', '/servers/:serverId/agents', '/message-servers/:messageServerId/agents'],
+  ['post', '/servers/:serverId/agents', '/message-servers/:messageServerId/agents'],
+  [
+    'delete',
+    '/servers/:serverId/agents/:agentId',
+    '/message-servers/:messageServerId/agents/:agentId',
+  ],
+];
+
+const messageServerOperations: ApiOperation[] = [
+  {
+    method: 'get',
+    path: '/api/messaging/message-server/current',
+    summary: 'Get the id of the message server of this server',
+    tag,
+    response: objectOf({ messageServerId: uuid }, ['messageServerId']),
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/message-servers',
+    summary: 'List message servers',
+    tag,
+    response: objectOf({ messageServers: arrayOf(ref('MessageServer')) }, ['messageServers']),
+  },
+  {
+    method: 'post',
+    path: '/api/messaging/message-servers',
+    summary: 'Create a message server',
+    tag,
+    body: objectOf({ name: string, sourceType: string, sourceId: string, metadata: anyObject }, [
+      'name',
+      'sourceType',
+    ]),
+    status: 201,
+    response: objectOf({ server: ref('MessageServer') }, ['server']),
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/message-servers/:messageServerId/agents',
+    summary: 'List agents of a message server',
+    tag,
+    response: objectOf({ messageServerId: uuid, agents: arrayOf(uuid) }, [
+      'messageServerId',
+      'agents',
+    ]),
+  },
+  {
+    method: 'post',
+    path: '/api/messaging/message-servers/:messageServerId/agents',
+    summary: 'Add an agent to a message server',
+    tag,
+    body: objectOf({ agentId: uuid }, ['agentId']),
+    status: 201,
+    response: agentMembership('messageServerId'),
+  },
+  {
+    method: 'delete',
+    path: '/api/messaging/message-servers/:messageServerId/agents/:agentId',
+    summary: 'Remove an agent from a message server',
+    tag,
+    response: agentMembership('messageServerId'),
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/agents/:agentId/message-servers',
+    summary: 'List message servers of an agent',
+    tag,
+    response: objectOf({ agentId: uuid, messageServers: arrayOf(uuid) }, [
+      'agentId',
+      'messageServers',
+    ]),
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/central-servers',
+    summary: 'List message servers',
+    tag,
+    response: objectOf({ servers: arrayOf(ref('MessageServer')) }, ['servers']),
+    deprecated: true,
+  },
+];
+
+const coreOperations: ApiOperation[] = [
+  {
+    method: 'post',
+    path: '/api/messaging/submit',
+    summary: 'Submit an agent reply to a channel',
+    tag,
+    body: ref('MessageSubmission'),
+    status: 201,
+    response: ref('Message'),
+  },
+  {
+    method: 'post',
+    path: '/api/messaging/action',
+    summary: 'Record an action message of an agent',
+    tag,
+    body: ref('MessageSubmission'),
+    status: 201,
+    response: ref('Message'),
+  },
+  {
+    method: 'patch',
+    path: '/api/messaging/action/:id',
+    summary: 'Update an action message',
+    tag,
+    body: objectOf({
+      content: string,
+      raw_message: anyObject,
+      source_type: string,
+      in_reply_to_message_id: uuid,
+      metadata: anyObject,
+      author_id: uuid,
+      server_message_id: uuid,
+    }),
+    response: ref('Message'),
+  },
+  {
+    method: 'post',
+    path: '/api/messaging/ingest-external',
+    summary: 'Ingest a message from an external platform',
+    tag,
+    body: {
+      allOf: [
+        ref('MessageSubmission'),
+        objectOf({ source_id: string, author_display_name: string }),
+      ],
+    },
+    status: 202,
+    response: objectOf({ messageId: uuid }, ['messageId']),
+  },
+];
+
+const sessionOperations: ApiOperation[] = [
+  {
+    method: 'get',
+    path: '/api/messaging/sessions/health',
+    summary: 'Health of the sessions service',
+    tag,
+    response: objectOf(
+      {
+        status: { enum: ['healthy', 'unhealthy'] },
+        activeSessions: integer,
+        timestamp: dateTime,
+        expiringSoon: integer,
+        invalidSessions: integer,
+        uptime: number,
+      },
+      ['status', 'activeSessions', 'timestamp']
+    ),
+    envelope: false,
+  },
+  {
+    method: 'post',
+    path: '/api/messaging/sessions',
+    summary: 'Create a session with an agent',
+    tag,
+    body: objectOf(
+      {
+        agentId: uuid,
+        userId: uuid,
+        metadata: anyObject,
+        timeoutConfig: ref('SessionTimeoutConfig'),
+      },
+      ['agentId', 'userId']
+    ),
+    status: 201,
+    response: ref('SessionInfo'),
+    envelope: false,
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/sessions/:sessionId',
+    summary: 'Get a session',
+    tag,
+    response: ref('SessionInfo'),
+    envelope: false,
+  },
+  {
+    method: 'post',
+    path: '/api/messaging/sessions/:sessionId/messages',
+    summary: 'Send a message in a session; streamed with the `sse` transport',
+    tag,
+    body: objectOf(
+      {
+        content: string,
+        attachments: arrayOf(
+          objectOf({ type: string, url: string, name: string }, ['type', 'url'])
+        ),
+        metadata: anyObject,
+        transport,
+        mode: { ...transport, deprecated: true, description: 'Use `transport`' },
+      },
+      ['content']
+    ),
+    status: 201,
+    response: {
+      allOf: [
+        sentMessage,
+        objectOf({
+          sessionStatus: objectOf({
+            expiresAt: dateTime,
+            renewalCount: integer,
+            wasRenewed: boolean,
+            isNearExpiration: boolean,
+          }),
+        }),
+      ],
+    },
+    envelope: false,
+    produces: [SSE],
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/sessions/:sessionId/messages',
+    summary: 'List messages of a session',
+    tag,
+    query: {
+      limit: integer,
+      before: { type: 'integer', description: 'Epoch ms' },
+      after: { type: 'integer', description: 'Epoch ms' },
+    },
+    response: objectOf(
+      {
+        messages: arrayOf(ref('SimplifiedMessage')),
+        hasMore: boolean,
+        cursors: objectOf({ before: timestamp, after: timestamp }),
+      },
+      ['messages', 'hasMore']
+    ),
+    envelope: false,
+  },
+  {
+    method: 'post',
+    path: '/api/messaging/sessions/:sessionId/renew',
+    summary: 'Renew a session',
+    tag,
+    response: ref('SessionInfo'),
+    envelope: false,
+  },
+  {
+    method: 'patch',
+    path: '/api/messaging/sessions/:sessionId/timeout',
+    summary: 'Change the timeout of a session',
+    tag,
+    body: ref('SessionTimeoutConfig'),
+    response: ref('SessionInfo'),
+    envelope: false,
+  },
+  {
+    method: 'post',
+    path: '/api/messaging/sessions/:sessionId/heartbeat',
+    summary: 'Keep a session alive',
+    tag,
+    response: ref('SessionInfo'),
+    envelope: false,
+  },
+  {
+    method: 'delete',
+    path: '/api/messaging/sessions/:sessionId',
+    summary: 'End a session',
+    tag,
+    response: objectOf({ success: { const: true }, message: string }, ['success', 'message']),
+    envelope: false,
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/sessions',
+    summary: 'List active sessions',
+    tag,
+    response: objectOf(
+      {
+        sessions: arrayOf(ref('SessionInfo')),
+        total: integer,
+        stats: objectOf({
+          totalSessions: integer,
+          activeSessions: integer,
+          expiredSessions: integer,
+        }),
+      },
+      ['sessions', 'total', 'stats']
+    ),
+    envelope: false,
+  },
+];
+
+const jobOperations: ApiOperation[] = [
+  {
+    method: 'post',
+    path: '/api/messaging/jobs',
+    summary: 'Create a one-off job asking an agent for a reply',
+    tag,
+    body: objectOf(
+      {
+        agentId: uuid,
+        userId: uuid,
+        content: string,
+        metadata: anyObject,
+        timeoutMs: integer,
+      },
+      ['userId', 'content']
+    ),
+    status: 201,
+    response: objectOf(
+      {
+        jobId: string,
+        status: { enum: Object.values(JobStatus) },
+        createdAt: timestamp,
+        expiresAt: timestamp,
+      },
+      ['jobId', 'status', 'createdAt', 'expiresAt']
+    ),
+    envelope: false,
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/jobs',
+    summary: 'List jobs',
+    tag,
+    query: {
+      agentId: uuid,
+      userId: uuid,
+      status: { type: 'string', description: 'Comma-separated statuses' },
+      from: timestamp,
+      to: timestamp,
+      limit: integer,
+      offset: integer,
+    },
+    response: objectOf({ jobs: arrayOf(ref('Job')), total: integer, filtered: integer }, [
+      'jobs',
+      'total',
+      'filtered',
+    ]),
+    envelope: false,
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/jobs/health',
+    summary: 'Health and metrics of the jobs service',
+    tag,
+    response: objectOf(
+      {
+        healthy: boolean,
+        timestamp,
+        totalJobs: integer,
+        statusCounts: objectOf(
+          Object.fromEntries(Object.values(JobStatus).map((status) => [status, integer]))
+        ),
+        metrics: objectOf({
+          averageProcessingTimeMs: number,
+          successRate: number,
+          failureRate: number,
+          timeoutRate: number,
+        }),
+        maxJobs: integer,
+      },
+      ['healthy', 'timestamp', 'totalJobs', 'statusCounts', 'metrics', 'maxJobs']
+    ),
+    envelope: false,
+  },
+  {
+    method: 'get',
+    path: '/api/messaging/jobs/:jobId',
+    summary: 'Get a job',
+    tag,
+    response: ref('Job'),
+    envelope: false,
+  },
+];
+
+export const messagingOperations: ApiOperation[] = [
+  ...coreOperations,
+  ...messageServerOperations,
+  ...channelOperations,
+  ...deprecatedAliases.map(([method, alias, target]): ApiOperation => {
+    const operation = [...channelOperations, ...messageServerOperations].find(
+      (candidate) => candidate.method === method && candidate.path === `/api/messaging${target}`
+    )!;
+    return { ...operation, path: `/api/messaging${alias}`, deprecated: true };
+  }),
+  ...sessionOperations,
+  ...jobOperations,
+  {
+    method: 'get',
+    path: '/api/messaging/streams/:streamId',
+    summary: 'Resume an SSE message stream after the `Last-Event-ID` event',
+    tag,
+    query: {
+      lastEventId: { type: 'integer', description: 'Alternative to `Last-Event-ID`' },
+      // Only the API key the message was sent with may resume its stream
+      sessionId: { type: 'string', description: 'Session the message was sent in' },
+      entityId: { ...uuid, description: 'Author of a message sent to a channel' },
+    },
+    produces: [SSE],
+  },
+];
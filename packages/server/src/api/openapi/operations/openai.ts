@@ -0,0 +1,36 @@
+import type { ApiOperation } from '../types';
+import { arrayOf, objectOf, ref } from '../schemas';
+
+const tag = 'openai';
+
+/** Responses of the OpenAI-compatible API follow the OpenAI wire format */
+const openai = { tag, envelope: false, error: ref('OpenAIError') } as const;
+
+export const openaiOperations: ApiOperation[] = [
+  {
+    ...openai,
+    method: 'get',
+    path: '/v1/models',
+    summary: 'List agents as models',
+    response: objectOf({ object: { const: 'list' }, data: arrayOf(ref('OpenAIModel')) }, [
+      'object',
+      'data',
+    ]),
+  },
+  {
+    ...openai,
+    method: 'get',
+    path: '/v1/models/:model',
+    summary: 'Get an agent as a model, by name or id',
+    response: ref('OpenAIModel'),
+  },
+  {
+    ...openai,
+    method: 'post',
+    path: '/v1/chat/completions',
+    summary: 'Send a chat to an agent; streamed as chunks when `stream` is set',
+    body: ref('ChatCompletionRequest'),
+    response: ref('ChatCompletionResponse'),
+    produces: ['text/event-stream'],
+  },
+];
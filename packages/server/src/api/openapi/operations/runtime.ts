@@ -0,0 +1,124 @@
+import type { ApiOperation } from '../types';
+import { arrayOf, boolean, dateTime, integer, objectOf, ref, string } from '../schemas';
+
+const tag = 'server';
+
+const logsQuery = {
+  since: { type: 'integer', description: 'Epoch ms, an hour ago by default' },
+  level: { type: 'string', description: 'Minimum level, or `all`' },
+  agentName: string,
+  agentId: string,
+  limit: integer,
+};
+
+const logsResponse = objectOf(
+  {
+    logs: arrayOf(
+      objectOf({ time: integer, level: integer, msg: string }, ['time', 'level', 'msg'])
+    ),
+    count: integer,
+    total: integer,
+    requestedLevel: string,
+    agentName: string,
+    agentId: string,
+    levels: arrayOf(string),
+  },
+  ['logs', 'count', 'total']
+);
+
+export const runtimeOperations: ApiOperation[] = [
+  // health.ts
+  {
+    method: 'get',
+    path: '/api/server/ping',
+    summary: 'Check that the server responds',
+    tag,
+    response: objectOf({ pong: boolean, timestamp: integer }, ['pong', 'timestamp']),
+    envelope: false,
+  },
+  {
+    method: 'get',
+    path: '/api/server/hello',
+    summary: 'Hello world',
+    tag,
+    response: objectOf({ message: string }, ['message']),
+    envelope: false,
+  },
+  {
+    method: 'get',
+    path: '/api/server/status',
+    summary: 'Get the server status',
+    tag,
+    response: objectOf({ status: string, agentCount: integer, timestamp: dateTime }, [
+      'status',
+      'agentCount',
+      'timestamp',
+    ]),
+    envelope: false,
+  },
+  {
+    method: 'get',
+    path: '/api/server/health',
+    summary: 'Health check, 503 when no agent runs',
+    tag,
+    response: objectOf(
+      {
+        status: string,
+        version: string,
+        timestamp: dateTime,
+        dependencies: objectOf({ agents: { enum: ['healthy', 'no_agents'] } }),
+      },
+      ['status', 'version', 'timestamp', 'dependencies']
+    ),
+    envelope: false,
+  },
+  {
+    method: 'post',
+    path: '/api/server/stop',
+    summary: 'Stop the server',
+    tag,
+    response: objectOf({ message: string }, ['message']),
+    envelope: false,
+  },
+
+  // logging.ts
+  {
+    method: 'get',
+    path: '/api/server/logs',
+    summary: 'Get recent server logs',
+    tag,
+    query: logsQuery,
+    response: logsResponse,
+    envelope: false,
+  },
+  {
+    method: 'post',
+    path: '/api/server/logs',
+    summary: 'Get recent server logs',
+    tag,
+    query: logsQuery,
+    response: logsResponse,
+    envelope: false,
+  },
+  {
+    method: 'delete',
+    path: '/api/server/logs',
+    summary: 'Clear the server logs',
+    tag,
+    response: objectOf({ status: string, message: string }, ['status', 'message']),
+    envelope: false,
+  },
+
+  // debug.ts
+  {
+    method: 'get',
+    path: '/api/server/debug/servers',
+    summary: 'List message servers',
+    tag,
+    response: objectOf(
+      { success: boolean, servers: arrayOf(ref('MessageServer')), count: integer },
+      ['success', 'servers', 'count']
+    ),
+    envelope: false,
+  },
+];
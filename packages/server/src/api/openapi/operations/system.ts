@@ -0,0 +1,131 @@
+import type { ApiOperation } from '../types';
+import { API_KEY_SCOPES } from '../../../types/api-keys';
+import {
+  arrayOf,
+  boolean,
+  dateTime,
+  integer,
+  number,
+  objectOf,
+  ref,
+  string,
+  timestamp,
+  uuid,
+} from '../schemas';
+
+const tag = 'system';
+
+const localEnv = { type: 'object', additionalProperties: string };
+
+export const systemOperations: ApiOperation[] = [
+  // config.ts
+  {
+    method: 'get',
+    path: '/api/system/config',
+    summary: 'Get the public server configuration',
+    tag,
+    response: objectOf({ requiresAuth: boolean }, ['requiresAuth']),
+  },
+
+  // environment.ts
+  {
+    method: 'get',
+    path: '/api/system/env/local',
+    summary: 'Get the local environment variables, outside production',
+    tag,
+    response: localEnv,
+  },
+  {
+    method: 'post',
+    path: '/api/system/env/local',
+    summary: 'Replace the local environment variables, outside production',
+    tag,
+    body: objectOf({ content: localEnv }, ['content']),
+    response: objectOf({ success: { const: true }, message: string }, ['success', 'message']),
+    envelope: false,
+  },
+
+  // version.ts
+  {
+    method: 'get',
+    path: '/api/system/version',
+    summary: 'Get the server version',
+    tag,
+    response: objectOf(
+      {
+        version: string,
+        source: string,
+        timestamp: dateTime,
+        environment: string,
+        uptime: number,
+        error: string,
+      },
+      ['version', 'source', 'timestamp', 'environment', 'uptime']
+    ),
+    envelope: false,
+  },
+
+  // openapi
+  {
+    method: 'get',
+    path: '/api/openapi.json',
+    summary: 'Get this OpenAPI document',
+    tag,
+    response: { type: 'object', description: 'OpenAPI 3.1 document' },
+    envelope: false,
+  },
+
+  // api-keys.ts
+  {
+    method: 'get',
+    path: '/api/system/api-keys',
+    summary: 'List API keys',
+    tag,
+    response: objectOf({ keys: arrayOf(ref('ApiKey')) }, ['keys']),
+  },
+  {
+    method: 'post',
+    path: '/api/system/api-keys',
+    summary: 'Create an API key',
+    tag,
+    body: objectOf(
+      {
+        name: string,
+        scopes: arrayOf({ enum: [...API_KEY_SCOPES] }),
+        agentIds: arrayOf(uuid),
+        channelIds: arrayOf(uuid),
+        expiresAt: timestamp,
+      },
+      ['name', 'scopes']
+    ),
+    status: 201,
+    response: {
+      allOf: [
+        ref('ApiKey'),
+        objectOf({ key: { type: 'string', description: 'The key, only returned once' } }, ['key']),
+      ],
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/system/api-keys/:keyId',
+    summary: 'Get an API key',
+    tag,
+    response: ref('ApiKey'),
+  },
+  {
+    method: 'delete',
+    path: '/api/system/api-keys/:keyId',
+    summary: 'Revoke an API key',
+    tag,
+    response: ref('ApiKey'),
+  },
+  {
+    method: 'get',
+    path: '/api/system/api-keys/:keyId/usage',
+    summary: 'List the requests made with an API key',
+    tag,
+    query: { limit: integer, offset: integer },
+    response: objectOf({ usage: arrayOf(ref('ApiKeyUsage')) }, ['usage']),
+  },
+];
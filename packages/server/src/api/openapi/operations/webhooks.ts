@@ -0,0 +1,78 @@
+import type { ApiOperation } from '../types';
+import { WEBHOOK_DELIVERY_STATUSES } from '../../../types/webhooks';
+import { arrayOf, boolean, integer, objectOf, ref, string, uuid } from '../schemas';
+
+const tag = 'webhooks';
+
+export const webhookOperations: ApiOperation[] = [
+  {
+    method: 'get',
+    path: '/api/webhooks/events',
+    summary: 'List the events a webhook can subscribe to',
+    tag,
+    response: objectOf({ events: arrayOf(string), messageBusEvents: arrayOf(string) }, [
+      'events',
+      'messageBusEvents',
+    ]),
+  },
+  {
+    method: 'get',
+    path: '/api/webhooks',
+    summary: 'List webhooks',
+    tag,
+    response: objectOf({ webhooks: arrayOf(ref('Webhook')) }, ['webhooks']),
+  },
+  {
+    method: 'post',
+    path: '/api/webhooks',
+    summary: 'Create a webhook',
+    tag,
+    body: objectOf(
+      {
+        url: { type: 'string', format: 'uri' },
+        events: arrayOf(string),
+        agentIds: arrayOf(uuid),
+        channelIds: arrayOf(uuid),
+        description: string,
+        secret: { type: 'string', description: 'Signing secret, generated when omitted' },
+      },
+      ['url', 'events']
+    ),
+    status: 201,
+    response: {
+      allOf: [
+        ref('Webhook'),
+        objectOf({ secret: { type: 'string', description: 'Only returned once' } }, ['secret']),
+      ],
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/webhooks/:webhookId',
+    summary: 'Get a webhook',
+    tag,
+    response: ref('Webhook'),
+  },
+  {
+    method: 'delete',
+    path: '/api/webhooks/:webhookId',
+    summary: 'Delete a webhook',
+    tag,
+    response: objectOf({ id: uuid, deleted: boolean }, ['id', 'deleted']),
+  },
+  {
+    method: 'get',
+    path: '/api/webhooks/:webhookId/deliveries',
+    summary: 'List deliveries of a webhook',
+    tag,
+    query: { status: { enum: [...WEBHOOK_DELIVERY_STATUSES] }, limit: integer, offset: integer },
+    response: objectOf({ deliveries: arrayOf(ref('WebhookDelivery')) }, ['deliveries']),
+  },
+  {
+    method: 'post',
+    path: '/api/webhooks/:webhookId/deliveries/:deliveryId/redeliver',
+    summary: 'Deliver an event again',
+    tag,
+    response: ref('WebhookDelivery'),
+  },
+];
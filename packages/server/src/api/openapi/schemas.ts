@@ -0,0 +1,652 @@
+import { AgentStatus, ChannelType } from '@elizaos/core';
+import { API_KEY_SCOPES } from '../../types/api-keys';
+import { JobStatus } from '../../types/jobs';
+import { WEBHOOK_DELIVERY_STATUSES } from '../../types/webhooks';
+import type { JsonSchema } from './types';
+
+export const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+export const arrayOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+
+export const objectOf = (
+  properties: Record<string, JsonSchema>,
+  required?: string[]
+): JsonSchema => ({
+  type: 'object',
+  properties,
+  ...(required && { required }),
+});
+
+export const uuid: JsonSchema = { type: 'string', format: 'uuid' };
+export const string: JsonSchema = { type: 'string' };
+export const integer: JsonSchema = { type: 'integer' };
+export const number: JsonSchema = { type: 'number' };
+export const boolean: JsonSchema = { type: 'boolean' };
+/** Epoch milliseconds */
+export const timestamp: JsonSchema = { type: 'integer', description: 'Epoch milliseconds' };
+export const dateTime: JsonSchema = { type: 'string', format: 'date-time' };
+export const anyObject: JsonSchema = { type: 'object', additionalProperties: true };
+export const binary: JsonSchema = { type: 'string', contentEncoding: 'binary' };
+
+const nullable = (schema: JsonSchema): JsonSchema => ({ anyOf: [schema, { type: 'null' }] });
+
+/**
+ * Shared schemas of the REST API, mirroring the types in `server/src/types`,
+ * `api-client/src/types` and `@elizaos/core`
+ */
+export const componentSchemas: Record<string, JsonSchema> = {
+  ErrorResponse: objectOf(
+    {
+      success: { const: false },
+      error: {
+        description:
+          'Error details; a plain message for routes that predate the `{ code, message }` form',
+        anyOf: [
+          string,
+          objectOf(
+            {
+              code: string,
+              message: string,
+              details: {},
+              timestamp: dateTime,
+            },
+            ['code', 'message']
+          ),
+        ],
+      },
+      details: {},
+    },
+    ['error']
+  ),
+
+  Content: {
+    ...objectOf({
+      text: string,
+      thought: string,
+      actions: arrayOf(string),
+      providers: arrayOf(string),
+      source: string,
+      attachments: arrayOf(anyObject),
+    }),
+    additionalProperties: true,
+  },
+
+  Agent: {
+    ...objectOf(
+      {
+        id: uuid,
+        name: string,
+        username: string,
+        bio: { anyOf: [string, arrayOf(string)] },
+        system: string,
+        plugins: arrayOf(string),
+        settings: anyObject,
+        enabled: boolean,
+        status: { enum: Object.values(AgentStatus) },
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      },
+      ['name']
+    ),
+    additionalProperties: true,
+  },
+  AgentSummary: objectOf(
+    {
+      id: uuid,
+      name: string,
+      characterName: string,
+      bio: { anyOf: [string, arrayOf(string)] },
+      status: { enum: Object.values(AgentStatus) },
+    },
+    ['id', 'name']
+  ),
+  AgentBundle: objectOf(
+    {
+      format: string,
+      version: integer,
+      exportedAt: timestamp,
+      secrets: { enum: ['omit', 'encrypted', 'plaintext'] },
+      agent: ref('Agent'),
+      worlds: arrayOf(ref('World')),
+      rooms: arrayOf(ref('Room')),
+      participants: arrayOf(objectOf({ roomId: uuid, entityIds: arrayOf(uuid) })),
+      entities: arrayOf(anyObject),
+      relationships: arrayOf(anyObject),
+      memories: { type: 'object', additionalProperties: arrayOf(ref('Memory')) },
+      tasks: arrayOf(ref('Task')),
+      cache: arrayOf(objectOf({ key: string, value: {} }, ['key', 'value'])),
+    },
+    ['format', 'version', 'agent']
+  ),
+  AgentBundleImportResult: objectOf(
+    {
+      agentId: uuid,
+      mode: { enum: ['merge', 'replace'] },
+      remapped: boolean,
+      worlds: integer,
+      rooms: integer,
+      entities: integer,
+      components: integer,
+      relationships: integer,
+      memories: integer,
+      tasks: integer,
+      cache: integer,
+    },
+    ['agentId', 'mode', 'remapped']
+  ),
+  AgentLog: {
+    ...objectOf({
+      id: uuid,
+      type: string,
+      timestamp,
+      message: string,
+      details: string,
+      roomId: uuid,
+      body: anyObject,
+      createdAt: { anyOf: [dateTime, timestamp] },
+    }),
+    additionalProperties: true,
+  },
+  AgentPanel: objectOf(
+    {
+      name: string,
+      path: string,
+    },
+    ['name', 'path']
+  ),
+
+  World: objectOf(
+    {
+      id: uuid,
+      name: string,
+      agentId: uuid,
+      messageServerId: uuid,
+      metadata: anyObject,
+    },
+    ['id', 'agentId']
+  ),
+  Room: objectOf(
+    {
+      id: uuid,
+      name: string,
+      agentId: uuid,
+      source: string,
+      type: { enum: Object.values(ChannelType) },
+      channelId: string,
+      messageServerId: uuid,
+      worldId: uuid,
+      metadata: anyObject,
+    },
+    ['id', 'source', 'type']
+  ),
+  Memory: objectOf(
+    {
+      id: uuid,
+      entityId: uuid,
+      agentId: uuid,
+      roomId: uuid,
+      worldId: uuid,
+      createdAt: timestamp,
+      content: ref('Content'),
+      embedding: arrayOf(number),
+      unique: boolean,
+      similarity: number,
+      metadata: anyObject,
+    },
+    ['entityId', 'roomId', 'content']
+  ),
+
+  MemoryPruneReport: objectOf(
+    {
+      dryRun: boolean,
+      startedAt: timestamp,
+      durationMs: integer,
+      scanned: integer,
+      keptReferenced: integer,
+      pruned: arrayOf(
+        objectOf(
+          {
+            id: uuid,
+            tableName: string,
+            roomId: uuid,
+            createdAt: timestamp,
+            rule: integer,
+            reason: { enum: ['max_age', 'max_count'] },
+          },
+          ['id', 'tableName', 'roomId', 'rule', 'reason']
+        )
+      ),
+    },
+    ['dryRun', 'startedAt', 'durationMs', 'scanned', 'keptReferenced', 'pruned']
+  ),
+
+  RunSummary: objectOf(
+    {
+      runId: uuid,
+      status: { enum: ['completed', 'timeout', 'error', 'started'] },
+      startedAt: nullable(timestamp),
+      endedAt: nullable(timestamp),
+      durationMs: nullable(integer),
+      messageId: uuid,
+      roomId: uuid,
+      entityId: uuid,
+      counts: objectOf({
+        actions: integer,
+        modelCalls: integer,
+        errors: integer,
+        evaluators: integer,
+      }),
+      templates: arrayOf(ref('PromptTemplateUsage')),
+      metadata: anyObject,
+    },
+    ['runId', 'status', 'startedAt']
+  ),
+  RunEvent: objectOf(
+    {
+      type: string,
+      timestamp,
+      data: anyObject,
+    },
+    ['type', 'timestamp', 'data']
+  ),
+
+  Task: objectOf(
+    {
+      id: uuid,
+      name: string,
+      description: string,
+      tags: arrayOf(string),
+      metadata: anyObject,
+      roomId: uuid,
+      worldId: uuid,
+      entityId: uuid,
+      status: { enum: ['pending', 'running', 'paused', 'dead_letter'] },
+      nextRunAt: nullable(timestamp),
+      attempts: integer,
+      lastError: nullable(
+        objectOf({ message: string, attempt: integer, failedAt: timestamp }, [
+          'message',
+          'attempt',
+          'failedAt',
+        ])
+      ),
+      updatedAt: timestamp,
+    },
+    ['name', 'description', 'tags']
+  ),
+  TaskExecution: objectOf(
+    {
+      id: uuid,
+      taskId: uuid,
+      taskName: string,
+      status: { enum: ['succeeded', 'failed'] },
+      attempt: integer,
+      startedAt: timestamp,
+      endedAt: timestamp,
+      error: string,
+    },
+    ['taskId', 'taskName', 'status', 'attempt', 'startedAt', 'endedAt']
+  ),
+
+  PromptTemplateInfo: objectOf(
+    {
+      name: string,
+      description: string,
+      source: string,
+      variables: arrayOf(string),
+      defaultTemplate: string,
+      defaultVersion: string,
+      override: string,
+      overridden: boolean,
+      version: string,
+    },
+    ['name', 'source', 'variables', 'defaultTemplate', 'defaultVersion', 'overridden', 'version']
+  ),
+  PromptTemplateIssue: objectOf(
+    {
+      template: string,
+      severity: { enum: ['error', 'warning'] },
+      message: string,
+    },
+    ['template', 'severity', 'message']
+  ),
+  PromptTemplateUsage: objectOf(
+    {
+      name: string,
+      version: string,
+      overridden: boolean,
+    },
+    ['name', 'version', 'overridden']
+  ),
+  PromptTemplateDetail: {
+    allOf: [
+      ref('PromptTemplateInfo'),
+      objectOf(
+        {
+          diff: arrayOf(
+            objectOf({ type: { enum: ['unchanged', 'added', 'removed'] }, text: string }, [
+              'type',
+              'text',
+            ])
+          ),
+        },
+        ['diff']
+      ),
+    ],
+  },
+
+  ModelUsageRollup: objectOf(
+    {
+      key: string,
+      calls: integer,
+      promptTokens: integer,
+      completionTokens: integer,
+      totalTokens: integer,
+      estimatedCost: number,
+    },
+    ['key', 'calls', 'promptTokens', 'completionTokens', 'totalTokens', 'estimatedCost']
+  ),
+  AgentUsage: objectOf(
+    {
+      agentId: uuid,
+      from: nullable(timestamp),
+      to: nullable(timestamp),
+      runId: nullable(uuid),
+      totals: ref('ModelUsageRollup'),
+      byDay: arrayOf(ref('ModelUsageRollup')),
+      byProvider: arrayOf(ref('ModelUsageRollup')),
+      byModel: arrayOf(ref('ModelUsageRollup')),
+      byRun: arrayOf(ref('ModelUsageRollup')),
+    },
+    ['agentId', 'totals', 'byDay', 'byProvider', 'byModel', 'byRun']
+  ),
+  StateCacheMetrics: objectOf(
+    {
+      hits: integer,
+      misses: integer,
+      evictions: integer,
+      expirations: integer,
+      backendHits: integer,
+      entries: integer,
+      bytes: integer,
+    },
+    ['hits', 'misses', 'evictions', 'expirations', 'backendHits', 'entries', 'bytes']
+  ),
+  AgentStateCache: objectOf({ agentId: uuid, stateCache: ref('StateCacheMetrics') }, [
+    'agentId',
+    'stateCache',
+  ]),
+
+  MessageServer: objectOf(
+    {
+      id: uuid,
+      name: string,
+      sourceType: string,
+      sourceId: string,
+      metadata: anyObject,
+      createdAt: dateTime,
+      updatedAt: dateTime,
+    },
+    ['id', 'name', 'sourceType']
+  ),
+  MessageChannel: objectOf(
+    {
+      id: uuid,
+      messageServerId: uuid,
+      name: string,
+      type: { enum: Object.values(ChannelType) },
+      sourceType: string,
+      sourceId: string,
+      topic: string,
+      metadata: anyObject,
+      createdAt: dateTime,
+      updatedAt: dateTime,
+    },
+    ['id', 'messageServerId', 'name', 'type']
+  ),
+  Message: objectOf(
+    {
+      id: uuid,
+      channelId: uuid,
+      authorId: uuid,
+      content: string,
+      rawMessage: anyObject,
+      inReplyToRootMessageId: uuid,
+      sourceType: string,
+      sourceId: string,
+      metadata: anyObject,
+      createdAt: { anyOf: [dateTime, timestamp] },
+      updatedAt: { anyOf: [dateTime, timestamp] },
+      created_at: timestamp,
+      updated_at: timestamp,
+    },
+    ['id', 'channelId', 'authorId', 'content']
+  ),
+  MessageSubmission: objectOf(
+    {
+      messageId: uuid,
+      channel_id: uuid,
+      message_server_id: uuid,
+      author_id: uuid,
+      content: string,
+      in_reply_to_message_id: uuid,
+      source_type: string,
+      raw_message: anyObject,
+      metadata: anyObject,
+    },
+    ['channel_id', 'message_server_id', 'author_id', 'content', 'source_type', 'raw_message']
+  ),
+  MediaUpload: objectOf(
+    {
+      url: string,
+      type: string,
+      filename: string,
+      originalName: string,
+      size: integer,
+    },
+    ['url', 'type', 'filename', 'size']
+  ),
+
+  SessionTimeoutConfig: {
+    ...objectOf({
+      timeoutMinutes: number,
+      autoRenew: boolean,
+      maxDurationMinutes: number,
+      warningThresholdMinutes: number,
+    }),
+    additionalProperties: true,
+  },
+  SessionInfo: objectOf(
+    {
+      sessionId: string,
+      channelId: uuid,
+      agentId: uuid,
+      userId: uuid,
+      createdAt: dateTime,
+      lastActivity: dateTime,
+      metadata: anyObject,
+      expiresAt: dateTime,
+      timeoutConfig: ref('SessionTimeoutConfig'),
+      renewalCount: integer,
+      timeRemaining: { type: 'integer', description: 'Milliseconds until the session expires' },
+      isNearExpiration: boolean,
+    },
+    ['sessionId', 'channelId', 'agentId', 'userId', 'expiresAt', 'timeoutConfig']
+  ),
+  SimplifiedMessage: objectOf(
+    {
+      id: string,
+      content: string,
+      authorId: string,
+      isAgent: boolean,
+      createdAt: dateTime,
+      metadata: anyObject,
+    },
+    ['id', 'content', 'authorId', 'isAgent', 'createdAt']
+  ),
+
+  Job: objectOf(
+    {
+      jobId: string,
+      status: { enum: Object.values(JobStatus) },
+      agentId: uuid,
+      userId: uuid,
+      prompt: string,
+      createdAt: timestamp,
+      expiresAt: timestamp,
+      result: objectOf({
+        message: objectOf({
+          id: uuid,
+          content: string,
+          authorId: uuid,
+          createdAt: timestamp,
+          metadata: anyObject,
+        }),
+        processingTimeMs: integer,
+      }),
+      error: string,
+      metadata: anyObject,
+    },
+    ['jobId', 'status', 'agentId', 'userId', 'prompt', 'createdAt', 'expiresAt']
+  ),
+
+  Webhook: objectOf(
+    {
+      id: uuid,
+      url: { type: 'string', format: 'uri' },
+      description: string,
+      events: arrayOf(string),
+      agentIds: arrayOf(uuid),
+      channelIds: arrayOf(uuid),
+      enabled: boolean,
+      createdAt: timestamp,
+    },
+    ['id', 'url', 'events', 'enabled', 'createdAt']
+  ),
+  WebhookDelivery: objectOf(
+    {
+      id: uuid,
+      webhookId: uuid,
+      event: string,
+      payload: objectOf(
+        {
+          id: uuid,
+          event: string,
+          timestamp,
+          agentId: uuid,
+          channelId: uuid,
+          data: anyObject,
+        },
+        ['id', 'event', 'timestamp', 'data']
+      ),
+      status: { enum: [...WEBHOOK_DELIVERY_STATUSES] },
+      attempts: integer,
+      nextAttemptAt: timestamp,
+      responseStatus: integer,
+      lastError: string,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    },
+    ['id', 'webhookId', 'event', 'payload', 'status', 'attempts', 'createdAt', 'updatedAt']
+  ),
+
+  ApiKey: objectOf(
+    {
+      id: uuid,
+      name: string,
+      prefix: { type: 'string', description: 'Start of the key, to tell keys apart' },
+      scopes: arrayOf({ enum: [...API_KEY_SCOPES] }),
+      agentIds: arrayOf(uuid),
+      channelIds: arrayOf(uuid),
+      createdAt: timestamp,
+      expiresAt: timestamp,
+      revokedAt: timestamp,
+      lastUsedAt: timestamp,
+    },
+    ['id', 'name', 'prefix', 'scopes', 'createdAt']
+  ),
+  ApiKeyUsage: objectOf(
+    {
+      id: uuid,
+      keyId: uuid,
+      method: string,
+      path: string,
+      status: integer,
+      ip: string,
+      createdAt: timestamp,
+    },
+    ['id', 'keyId', 'method', 'path', 'status', 'createdAt']
+  ),
+
+  ChatCompletionRequest: objectOf(
+    {
+      model: { type: 'string', description: 'Agent id or name' },
+      messages: arrayOf(
+        objectOf(
+          {
+            role: { enum: ['system', 'developer', 'user', 'assistant', 'tool'] },
+            content: { anyOf: [string, arrayOf(anyObject), { type: 'null' }] },
+            name: string,
+          },
+          ['role']
+        )
+      ),
+      stream: boolean,
+      stream_options: objectOf({ include_usage: boolean }),
+      user: string,
+    },
+    ['model', 'messages']
+  ),
+  ChatCompletionResponse: objectOf(
+    {
+      id: string,
+      object: { const: 'chat.completion' },
+      created: integer,
+      model: string,
+      choices: arrayOf(
+        objectOf({
+          index: integer,
+          message: objectOf({ role: { const: 'assistant' }, content: string }),
+          finish_reason: { enum: ['stop', 'length'] },
+        })
+      ),
+      usage: objectOf({
+        prompt_tokens: integer,
+        completion_tokens: integer,
+        total_tokens: integer,
+      }),
+    },
+    ['id', 'object', 'created', 'model', 'choices']
+  ),
+  OpenAIModel: objectOf(
+    {
+      id: string,
+      object: { const: 'model' },
+      created: integer,
+      owned_by: string,
+      agent_id: uuid,
+    },
+    ['id', 'object', 'created', 'owned_by', 'agent_id']
+  ),
+  OpenAIError: objectOf(
+    {
+      error: objectOf(
+        {
+          message: string,
+          type: {
+            enum: [
+              'invalid_request_error',
+              'authentication_error',
+              'not_found_error',
+              'server_error',
+            ],
+          },
+          param: nullable(string),
+          code: nullable(string),
+        },
+        ['message', 'type', 'param', 'code']
+      ),
+    },
+    ['error']
+  ),
+};
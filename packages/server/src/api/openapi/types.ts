@@ -0,0 +1,37 @@
+/**
+ * A JSON Schema (draft 2020-12, as used by OpenAPI 3.1)
+ */
+export type JsonSchema = Record<string, unknown>;
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/**
+ * Description of one REST endpoint, from which the OpenAPI document is built
+ */
+export interface ApiOperation {
+  method: HttpMethod;
+  /** Path from the server root in Express syntax, e.g. `/api/agents/:agentId` */
+  path: string;
+  summary: string;
+  /** Group of the operation in the document, usually the router it belongs to */
+  tag: string;
+  /** Query parameters by name */
+  query?: Record<string, JsonSchema>;
+  /** JSON request body */
+  body?: JsonSchema;
+  /** `multipart/form-data` request body, for file uploads */
+  form?: JsonSchema;
+  /** Status of a successful response, 200 by default */
+  status?: number;
+  /**
+   * Schema of a successful response. Wrapped in the `{ success: true, data }` envelope
+   * of `sendSuccess` unless `envelope` is false; omitted for responses without a body.
+   */
+  response?: JsonSchema;
+  envelope?: boolean;
+  /** Schema of error responses, `ErrorResponse` by default */
+  error?: JsonSchema;
+  /** Other content types of a successful response, e.g. `text/event-stream` */
+  produces?: string[];
+  deprecated?: boolean;
+}
@@ -8,6 +8,12 @@ import type { ElizaOS, Memory } from '@elizaos/core';
 import type { UUID, Content } from '@elizaos/core';
 import { logger } from '@elizaos/core';
 import { type TransportType } from './constants';
+import {
+  sseReplayBuffer,
+  type SSEBufferedEvent,
+  type SSEStream,
+  type SSEStreamOwner,
+} from './sse-replay-buffer';
 
 /**
  * Message memory type for elizaOS.handleMessage
@@ -29,8 +35,19 @@ export interface HandleTransportOptions {
   additionalResponseData?: Record<string, unknown>;
   /** Callback for websocket transport - called before returning response */
   onWebSocketTransport?: () => void | Promise<void>;
+  /** Channel the message was sent to, checked when an SSE stream is resumed */
+  channelId?: UUID;
+  /** Session the message was sent in, required to resume its SSE stream */
+  sessionId?: string;
+  /** API key the message was sent with, the only one that may resume its SSE stream */
+  apiKeyId?: UUID;
 }
 
+/**
+ * Header carrying the id of an SSE stream, used to resume it after a disconnect
+ */
+export const SSE_STREAM_ID_HEADER = 'X-Stream-Id';
+
 /**
  * @deprecated Use HandleTransportOptions instead
  */
@@ -51,6 +68,8 @@ export interface HandleResponseModeOptions {
 export const SSE_EVENTS = {
   USER_MESSAGE: 'user_message',
   CHUNK: 'chunk',
+  /** Content the agent sent while handling the message, e.g. from an action callback */
+  ACTION: 'action',
   DONE: 'done',
   ERROR: 'error',
 } as const;
@@ -58,58 +77,94 @@ export const SSE_EVENTS = {
 /**
  * Writes an SSE event to the response
  */
-function writeSSEEvent(res: Response, event: string, data: unknown): void {
-  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+function writeSSEEvent(res: Response, { id, event, data }: SSEBufferedEvent): void {
+  res.write(`id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 }
 
 /**
  * Sets up SSE headers on the response
  */
-function setupSSEHeaders(res: Response): void {
+function setupSSEHeaders(res: Response, streamId: UUID): void {
   res.setHeader('Content-Type', 'text/event-stream');
   res.setHeader('Cache-Control', 'no-cache');
   res.setHeader('Connection', 'keep-alive');
+  res.setHeader(SSE_STREAM_ID_HEADER, streamId);
+  res.setHeader('Access-Control-Expose-Headers', SSE_STREAM_ID_HEADER);
   res.flushHeaders();
 }
 
 /**
- * Handles SSE transport - streaming response
+ * Streams the events of an SSE stream to a response: the buffered events after
+ * `lastEventId`, then new events until the stream finishes. A response that closes
+ * early stops following the stream; the stream itself keeps going.
+ */
+export function followSSEStream(res: Response, stream: SSEStream, lastEventId = 0): void {
+  setupSSEHeaders(res, stream.id);
+  for (const event of stream.eventsAfter(lastEventId)) {
+    writeSSEEvent(res, event);
+  }
+  if (stream.finished) {
+    res.end();
+    return;
+  }
+
+  const unsubscribe = stream.subscribe(
+    (event) => writeSSEEvent(res, event),
+    () => res.end()
+  );
+  res.on('close', unsubscribe);
+}
+
+/**
+ * Handles SSE transport - streaming response. Events are buffered so that the client
+ * can resume the stream with `GET /api/messaging/streams/:streamId` after a disconnect.
  */
 async function handleSSETransport(
   res: Response,
   elizaOS: ElizaOS,
   agentId: UUID,
   messageMemory: Partial<Memory> & { entityId: UUID; roomId: UUID; content: Content },
-  userMessage: unknown
+  userMessage: unknown,
+  owner: Omit<SSEStreamOwner, 'agentId' | 'entityId'>
 ): Promise<void> {
-  setupSSEHeaders(res);
-  writeSSEEvent(res, SSE_EVENTS.USER_MESSAGE, userMessage);
+  const stream = sseReplayBuffer.create({ ...owner, agentId, entityId: messageMemory.entityId });
+  followSSEStream(res, stream);
+  stream.append(SSE_EVENTS.USER_MESSAGE, userMessage);
 
   let chunkIndex = 0;
+  let lastResponse: Content | undefined;
+
+  const finish = (event: string, data: unknown) => {
+    if (!stream.finished) {
+      stream.append(event, data);
+      stream.finish();
+    }
+  };
 
   try {
     await elizaOS.handleMessage(agentId, messageMemory, {
       onStreamChunk: async (chunk: string, messageId?: UUID) => {
-        writeSSEEvent(res, SSE_EVENTS.CHUNK, {
+        stream.append(SSE_EVENTS.CHUNK, {
           messageId,
           chunk,
           index: chunkIndex++,
         });
       },
       onResponse: async (responseContent: Content) => {
-        writeSSEEvent(res, SSE_EVENTS.DONE, responseContent);
-        res.end();
+        lastResponse = responseContent;
+        stream.append(SSE_EVENTS.ACTION, responseContent);
+      },
+      onComplete: async () => {
+        finish(SSE_EVENTS.DONE, lastResponse ?? {});
       },
       onError: async (error: Error) => {
-        writeSSEEvent(res, SSE_EVENTS.ERROR, { error: error.message });
-        res.end();
+        finish(SSE_EVENTS.ERROR, { error: error.message });
       },
     });
   } catch (streamError) {
-    writeSSEEvent(res, SSE_EVENTS.ERROR, {
+    finish(SSE_EVENTS.ERROR, {
       error: streamError instanceof Error ? streamError.message : String(streamError),
     });
-    res.end();
   }
 }
 
@@ -179,11 +234,18 @@ export async function handleTransport(options: HandleTransportOptions): Promise<
     userMessage,
     additionalResponseData,
     onWebSocketTransport,
+    channelId,
+    sessionId,
+    apiKeyId,
   } = options;
 
   switch (transport) {
     case 'sse':
-      await handleSSETransport(res, elizaOS, agentId, messageMemory, userMessage);
+      await handleSSETransport(res, elizaOS, agentId, messageMemory, userMessage, {
+        channelId: channelId ?? messageMemory.roomId,
+        sessionId,
+        apiKeyId,
+      });
       break;
 
     case 'http':
@@ -0,0 +1,167 @@
+/**
+ * Replay buffer for SSE message streams
+ *
+ * Every event of a stream gets an increasing id and is kept until the stream expires,
+ * so a client that lost its connection can reconnect with `Last-Event-ID` and receive
+ * the events it missed. Buffers live in the memory of the server that runs the agent;
+ * with several replicas, resuming requires routing the client back to the same one.
+ */
+
+import type { UUID } from '@elizaos/core';
+
+/** How long a finished stream can be resumed */
+const DEFAULT_REPLAY_TTL_MS = 5 * 60 * 1000;
+
+/** How long an unfinished stream is kept without new events */
+const STALE_STREAM_MS = 60 * 60 * 1000;
+
+/**
+ * An event as written to the stream
+ */
+export interface SSEBufferedEvent {
+  /** Increasing id within the stream, starting at 1 */
+  id: number;
+  event: string;
+  data: unknown;
+}
+
+/**
+ * Who sent a stream's message and where, checked when resuming the stream
+ */
+export interface SSEStreamOwner {
+  agentId: UUID;
+  channelId: UUID;
+  /** Author of the message */
+  entityId: UUID;
+  /** Session the message was sent in, for messages sent through the sessions API */
+  sessionId?: string;
+  /** API key the message was sent with */
+  apiKeyId?: UUID;
+}
+
+export type SSEStreamListener = (event: SSEBufferedEvent) => void;
+
+interface SSEStreamSubscriber {
+  onEvent: SSEStreamListener;
+  onFinish: () => void;
+}
+
+/**
+ * The events of one streamed message, and the connections following it
+ */
+export class SSEStream {
+  private readonly events: SSEBufferedEvent[] = [];
+  private readonly subscribers = new Set<SSEStreamSubscriber>();
+  private nextEventId = 1;
+  private finishedAt?: number;
+  private lastEventAt = Date.now();
+
+  constructor(
+    readonly id: UUID,
+    readonly owner: SSEStreamOwner
+  ) {}
+
+  get finished(): boolean {
+    return this.finishedAt !== undefined;
+  }
+
+  /**
+   * Add an event and send it to every connection following the stream
+   */
+  append(event: string, data: unknown): SSEBufferedEvent {
+    const buffered: SSEBufferedEvent = { id: this.nextEventId++, event, data };
+    this.events.push(buffered);
+    this.lastEventAt = Date.now();
+    for (const subscriber of this.subscribers) {
+      subscriber.onEvent(buffered);
+    }
+    return buffered;
+  }
+
+  /**
+   * Mark the stream as complete and notify the connections following it
+   */
+  finish(): void {
+    if (this.finishedAt !== undefined) {
+      return;
+    }
+    this.finishedAt = Date.now();
+    for (const subscriber of Array.from(this.subscribers)) {
+      subscriber.onFinish();
+    }
+    this.subscribers.clear();
+  }
+
+  /**
+   * Events after the given id, i.e. those a client that received `lastEventId` missed
+   */
+  eventsAfter(lastEventId = 0): SSEBufferedEvent[] {
+    return this.events.filter((event) => event.id > lastEventId);
+  }
+
+  /**
+   * Follow new events until the stream finishes
+   * @returns A function that stops following
+   */
+  subscribe(onEvent: SSEStreamListener, onFinish: () => void): () => void {
+    const subscriber = { onEvent, onFinish };
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  isExpired(now: number, ttlMs: number): boolean {
+    return this.finishedAt !== undefined
+      ? now - this.finishedAt > ttlMs
+      : now - this.lastEventAt > STALE_STREAM_MS;
+  }
+}
+
+/**
+ * The resumable streams of the server, pruned as streams are created and looked up
+ */
+export class SSEReplayBuffer {
+  private readonly streams = new Map<UUID, SSEStream>();
+
+  constructor(private readonly ttlMs: number = DEFAULT_REPLAY_TTL_MS) {}
+
+  create(owner: SSEStreamOwner, id: UUID = crypto.randomUUID() as UUID): SSEStream {
+    this.prune();
+    const stream = new SSEStream(id, owner);
+    this.streams.set(id, stream);
+    return stream;
+  }
+
+  /**
+   * @returns The stream, or undefined when it does not exist or has expired
+   */
+  get(id: UUID): SSEStream | undefined {
+    this.prune();
+    return this.streams.get(id);
+  }
+
+  get size(): number {
+    return this.streams.size;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [id, stream] of this.streams) {
+      if (stream.isExpired(now, this.ttlMs)) {
+        this.streams.delete(id);
+      }
+    }
+  }
+}
+
+function getReplayTtlMs(): number {
+  const ttlSeconds = parseInt(process.env.SSE_REPLAY_TTL_SECONDS || '', 10);
+  return Number.isFinite(ttlSeconds) && ttlSeconds > 0 ? ttlSeconds * 1000 : DEFAULT_REPLAY_TTL_MS;
+}
+
+/**
+ * Replay buffer shared by the SSE transport and the stream resume endpoint.
+ * Finished streams can be resumed for SSE_REPLAY_TTL_SECONDS (5 minutes by default).
+ */
+export const sseReplayBuffer = new SSEReplayBuffer(getReplayTtlMs());
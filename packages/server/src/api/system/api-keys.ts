@@ -0,0 +1,176 @@
+import { logger, validateUuid, type UUID } from '@elizaos/core';
+import express from 'express';
+import type { AgentServer } from '../../index';
+import { API_KEY_SCOPES, type ApiKeyScope, type CreateApiKeyRequest } from '../../types/api-keys';
+import { sendError, sendSuccess } from '../shared/response-utils';
+
+const MAX_USAGE_LIMIT = 500;
+
+function parseIds(value: unknown, field: string): UUID[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`${field} must be a non-empty array of UUIDs`);
+  }
+  return value.map((id) => {
+    const uuid = validateUuid(id);
+    if (!uuid) {
+      throw new Error(`${field} contains an invalid UUID: ${String(id)}`);
+    }
+    return uuid;
+  });
+}
+
+/**
+ * Validates the body of a key creation request
+ *
+ * @throws Error describing the first invalid field
+ */
+function parseCreateApiKeyRequest(body: Record<string, unknown>): CreateApiKeyRequest {
+  const { name, scopes, expiresAt } = body;
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new Error('name is required');
+  }
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    scopes.some((scope) => !API_KEY_SCOPES.includes(scope))
+  ) {
+    throw new Error(`scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}`);
+  }
+  if (expiresAt !== undefined && (typeof expiresAt !== 'number' || expiresAt <= Date.now())) {
+    throw new Error('expiresAt must be a future timestamp in milliseconds');
+  }
+  return {
+    name: name.trim(),
+    scopes: [...new Set(scopes as ApiKeyScope[])],
+    agentIds: parseIds(body.agentIds, 'agentIds'),
+    channelIds: parseIds(body.channelIds, 'channelIds'),
+    expiresAt,
+  };
+}
+
+/**
+ * API key management: creating, listing and revoking the server's scoped keys, and
+ * reading their audit log
+ */
+export function createApiKeysRouter(serverInstance: AgentServer): express.Router {
+  const router = express.Router();
+
+  // List keys, including revoked and expired ones
+  router.get('/', async (_req, res) => {
+    try {
+      sendSuccess(res, { keys: await serverInstance.listApiKeys() });
+    } catch (error) {
+      logger.error(
+        { src: 'http', error: error instanceof Error ? error.message : String(error) },
+        'Error listing API keys'
+      );
+      sendError(res, 500, 'API_KEY_ERROR', 'Error listing API keys');
+    }
+  });
+
+  // Create a key; the response is the only time the key is shown
+  router.post('/', async (req, res) => {
+    let request: CreateApiKeyRequest;
+    try {
+      request = parseCreateApiKeyRequest(req.body ?? {});
+    } catch (error) {
+      return sendError(
+        res,
+        400,
+        'INVALID_REQUEST',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    try {
+      const created = await serverInstance.createApiKey(request);
+      logger.info(
+        { src: 'http', keyId: created.id, name: created.name, scopes: created.scopes },
+        'API key created'
+      );
+      sendSuccess(res, created, 201);
+    } catch (error) {
+      logger.error(
+        { src: 'http', error: error instanceof Error ? error.message : String(error) },
+        'Error creating API key'
+      );
+      sendError(res, 500, 'API_KEY_ERROR', 'Error creating API key');
+    }
+  });
+
+  router.get('/:keyId', async (req, res) => {
+    const keyId = validateUuid(req.params.keyId);
+    if (!keyId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid API key ID format');
+    }
+
+    try {
+      const key = await serverInstance.getApiKey(keyId);
+      if (!key) {
+        return sendError(res, 404, 'NOT_FOUND', 'API key not found');
+      }
+      sendSuccess(res, key);
+    } catch (error) {
+      logger.error(
+        { src: 'http', keyId, error: error instanceof Error ? error.message : String(error) },
+        'Error getting API key'
+      );
+      sendError(res, 500, 'API_KEY_ERROR', 'Error getting API key');
+    }
+  });
+
+  // Revoke a key; it stays listed with its audit log
+  router.delete('/:keyId', async (req, res) => {
+    const keyId = validateUuid(req.params.keyId);
+    if (!keyId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid API key ID format');
+    }
+
+    try {
+      const key = await serverInstance.getApiKey(keyId);
+      if (!key) {
+        return sendError(res, 404, 'NOT_FOUND', 'API key not found');
+      }
+      if (!(await serverInstance.revokeApiKey(keyId))) {
+        return sendError(res, 409, 'ALREADY_REVOKED', 'API key is already revoked');
+      }
+      logger.info({ src: 'http', keyId, name: key.name }, 'API key revoked');
+      sendSuccess(res, await serverInstance.getApiKey(keyId));
+    } catch (error) {
+      logger.error(
+        { src: 'http', keyId, error: error instanceof Error ? error.message : String(error) },
+        'Error revoking API key'
+      );
+      sendError(res, 500, 'API_KEY_ERROR', 'Error revoking API key');
+    }
+  });
+
+  // Requests made with a key, newest first
+  router.get('/:keyId/usage', async (req, res) => {
+    const keyId = validateUuid(req.params.keyId);
+    if (!keyId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid API key ID format');
+    }
+    const limit = Math.min(Number(req.query.limit) || 100, MAX_USAGE_LIMIT);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+    try {
+      if (!(await serverInstance.getApiKey(keyId))) {
+        return sendError(res, 404, 'NOT_FOUND', 'API key not found');
+      }
+      const usage = await serverInstance.getApiKeyUsage(keyId, { limit, offset });
+      sendSuccess(res, { usage });
+    } catch (error) {
+      logger.error(
+        { src: 'http', keyId, error: error instanceof Error ? error.message : String(error) },
+        'Error getting API key usage'
+      );
+      sendError(res, 500, 'API_KEY_ERROR', 'Error getting API key usage');
+    }
+  });
+
+  return router;
+}
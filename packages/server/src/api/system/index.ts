@@ -1,4 +1,6 @@
 import express from 'express';
+import type { AgentServer } from '../../index';
+import { createApiKeysRouter } from './api-keys';
 import { createEnvironmentRouter } from './environment';
 import { createVersionRouter } from './version.js';
 import { createConfigRouter } from './config';
@@ -6,7 +8,7 @@ import { createConfigRouter } from './config';
 /**
  * Creates the system router for configuration and environment management
  */
-export function systemRouter(): express.Router {
+export function systemRouter(serverInstance: AgentServer): express.Router {
   const router = express.Router();
 
   // Mount public configuration under /config
@@ -18,5 +20,8 @@ export function systemRouter(): express.Router {
   // Mount version information under /version
   router.use('/version', createVersionRouter());
 
+  // Mount API key management under /api-keys
+  router.use('/api-keys', createApiKeysRouter(serverInstance));
+
   return router;
 }
@@ -0,0 +1,14 @@
+import express from 'express';
+import type { AgentServer } from '../../index';
+import { createWebhooksRouter } from './webhooks';
+
+/**
+ * Creates the webhooks router for outbound event subscriptions
+ */
+export function webhooksRouter(serverInstance: AgentServer): express.Router {
+  const router = express.Router();
+
+  router.use('/', createWebhooksRouter(serverInstance));
+
+  return router;
+}
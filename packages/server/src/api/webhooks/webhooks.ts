@@ -0,0 +1,267 @@
+import { logger, validateUuid, type UUID } from '@elizaos/core';
+import express from 'express';
+import type { AgentServer } from '../../index';
+import {
+  MESSAGE_BUS_WEBHOOK_EVENTS,
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENTS,
+  type CreateWebhookRequest,
+  type WebhookDeliveryStatus,
+} from '../../types/webhooks';
+import { checkWebhookUrl } from '../../utils/webhooks';
+import { sendError, sendSuccess } from '../shared/response-utils';
+
+const MAX_DELIVERIES_LIMIT = 200;
+const MIN_SECRET_LENGTH = 16;
+
+function parseIds(value: unknown, field: string): UUID[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`${field} must be a non-empty array of UUIDs`);
+  }
+  return value.map((id) => {
+    const uuid = validateUuid(id);
+    if (!uuid) {
+      throw new Error(`${field} contains an invalid UUID: ${String(id)}`);
+    }
+    return uuid;
+  });
+}
+
+function parseOptionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`${field} must be a string`);
+  }
+  return value.trim() || undefined;
+}
+
+/**
+ * Validates the body of a webhook creation request
+ *
+ * @throws Error describing the first invalid field
+ */
+function parseCreateWebhookRequest(body: Record<string, unknown>): CreateWebhookRequest {
+  const { url, events } = body;
+  let parsedUrl: URL | undefined;
+  try {
+    parsedUrl = typeof url === 'string' ? new URL(url) : undefined;
+  } catch {
+    parsedUrl = undefined;
+  }
+  if (!parsedUrl || (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:')) {
+    throw new Error('url must be an http or https URL');
+  }
+  if (
+    !Array.isArray(events) ||
+    events.length === 0 ||
+    events.some((event) => !WEBHOOK_EVENTS.includes(event))
+  ) {
+    throw new Error('events must be a non-empty array of event types, see GET /webhooks/events');
+  }
+  const secret = parseOptionalString(body.secret, 'secret');
+  if (secret !== undefined && secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(`secret must be at least ${MIN_SECRET_LENGTH} characters`);
+  }
+  return {
+    url: parsedUrl.toString(),
+    events: [...new Set(events as string[])],
+    agentIds: parseIds(body.agentIds, 'agentIds'),
+    channelIds: parseIds(body.channelIds, 'channelIds'),
+    description: parseOptionalString(body.description, 'description'),
+    secret,
+  };
+}
+
+/**
+ * Webhook management: subscriptions to runtime and message bus events, and their
+ * delivery log
+ */
+export function createWebhooksRouter(serverInstance: AgentServer): express.Router {
+  const router = express.Router();
+
+  // Events a webhook can subscribe to
+  router.get('/events', (_req, res) => {
+    sendSuccess(res, {
+      events: WEBHOOK_EVENTS,
+      messageBusEvents: MESSAGE_BUS_WEBHOOK_EVENTS,
+    });
+  });
+
+  router.get('/', async (_req, res) => {
+    try {
+      sendSuccess(res, { webhooks: await serverInstance.listWebhooks() });
+    } catch (error) {
+      logger.error(
+        { src: 'http', error: error instanceof Error ? error.message : String(error) },
+        'Error listing webhooks'
+      );
+      sendError(res, 500, 'WEBHOOK_ERROR', 'Error listing webhooks');
+    }
+  });
+
+  // Create a webhook; the response is the only time the signing secret is shown
+  router.post('/', async (req, res) => {
+    let request: CreateWebhookRequest;
+    try {
+      request = parseCreateWebhookRequest(req.body ?? {});
+    } catch (error) {
+      return sendError(
+        res,
+        400,
+        'INVALID_REQUEST',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    const urlError = await checkWebhookUrl(request.url);
+    if (urlError) {
+      return sendError(res, 400, 'INVALID_REQUEST', urlError);
+    }
+
+    try {
+      const created = await serverInstance.createWebhook(request);
+      logger.info(
+        { src: 'http', webhookId: created.id, url: created.url, events: created.events },
+        'Webhook created'
+      );
+      sendSuccess(res, created, 201);
+    } catch (error) {
+      logger.error(
+        { src: 'http', error: error instanceof Error ? error.message : String(error) },
+        'Error creating webhook'
+      );
+      sendError(res, 500, 'WEBHOOK_ERROR', 'Error creating webhook');
+    }
+  });
+
+  router.get('/:webhookId', async (req, res) => {
+    const webhookId = validateUuid(req.params.webhookId);
+    if (!webhookId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid webhook ID format');
+    }
+
+    try {
+      const webhook = await serverInstance.getWebhook(webhookId);
+      if (!webhook) {
+        return sendError(res, 404, 'NOT_FOUND', 'Webhook not found');
+      }
+      sendSuccess(res, webhook);
+    } catch (error) {
+      logger.error(
+        { src: 'http', webhookId, error: error instanceof Error ? error.message : String(error) },
+        'Error getting webhook'
+      );
+      sendError(res, 500, 'WEBHOOK_ERROR', 'Error getting webhook');
+    }
+  });
+
+  // Delete a webhook along with its delivery log
+  router.delete('/:webhookId', async (req, res) => {
+    const webhookId = validateUuid(req.params.webhookId);
+    if (!webhookId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid webhook ID format');
+    }
+
+    try {
+      if (!(await serverInstance.deleteWebhook(webhookId))) {
+        return sendError(res, 404, 'NOT_FOUND', 'Webhook not found');
+      }
+      logger.info({ src: 'http', webhookId }, 'Webhook deleted');
+      sendSuccess(res, { id: webhookId, deleted: true });
+    } catch (error) {
+      logger.error(
+        { src: 'http', webhookId, error: error instanceof Error ? error.message : String(error) },
+        'Error deleting webhook'
+      );
+      sendError(res, 500, 'WEBHOOK_ERROR', 'Error deleting webhook');
+    }
+  });
+
+  // Delivery log of a webhook, newest first
+  router.get('/:webhookId/deliveries', async (req, res) => {
+    const webhookId = validateUuid(req.params.webhookId);
+    if (!webhookId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid webhook ID format');
+    }
+    const status = req.query.status as string | undefined;
+    if (
+      status !== undefined &&
+      !(WEBHOOK_DELIVERY_STATUSES as readonly string[]).includes(status)
+    ) {
+      return sendError(
+        res,
+        400,
+        'INVALID_REQUEST',
+        `status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`
+      );
+    }
+    const limit = Math.min(Number(req.query.limit) || 50, MAX_DELIVERIES_LIMIT);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+    try {
+      if (!(await serverInstance.getWebhook(webhookId))) {
+        return sendError(res, 404, 'NOT_FOUND', 'Webhook not found');
+      }
+      const deliveries = await serverInstance.getWebhookDeliveries(webhookId, {
+        status: status as WebhookDeliveryStatus | undefined,
+        limit,
+        offset,
+      });
+      sendSuccess(res, { deliveries });
+    } catch (error) {
+      logger.error(
+        { src: 'http', webhookId, error: error instanceof Error ? error.message : String(error) },
+        'Error getting webhook deliveries'
+      );
+      sendError(res, 500, 'WEBHOOK_ERROR', 'Error getting webhook deliveries');
+    }
+  });
+
+  // Send a delivery again from its first attempt, e.g. out of the dead-letter queue
+  router.post('/:webhookId/deliveries/:deliveryId/redeliver', async (req, res) => {
+    const webhookId = validateUuid(req.params.webhookId);
+    const deliveryId = validateUuid(req.params.deliveryId);
+    if (!webhookId || !deliveryId) {
+      return sendError(res, 400, 'INVALID_ID', 'Invalid webhook or delivery ID format');
+    }
+
+    try {
+      const delivery = await serverInstance.getWebhookDelivery(deliveryId);
+      if (!delivery || delivery.webhookId !== webhookId) {
+        return sendError(res, 404, 'NOT_FOUND', 'Webhook delivery not found');
+      }
+      const redelivered = await serverInstance.redeliverWebhookDelivery(deliveryId);
+      if (!redelivered) {
+        return sendError(res, 404, 'NOT_FOUND', 'Webhook delivery not found');
+      }
+      if (!redelivered.requeued) {
+        // Pending deliveries may be in flight on another server replica
+        return sendError(
+          res,
+          409,
+          'CONFLICT',
+          'Webhook delivery is still pending; it can be redelivered once delivered or dead-lettered'
+        );
+      }
+      logger.info({ src: 'http', webhookId, deliveryId }, 'Webhook delivery requeued');
+      sendSuccess(res, redelivered.delivery);
+    } catch (error) {
+      logger.error(
+        {
+          src: 'http',
+          webhookId,
+          deliveryId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Error redelivering webhook delivery'
+      );
+      sendError(res, 500, 'WEBHOOK_ERROR', 'Error redelivering webhook delivery');
+    }
+  });
+
+  return router;
+}
@@ -20,14 +20,26 @@ import net from 'node:net';
 import path, { basename, dirname, extname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { Server as SocketIOServer } from 'socket.io';
-import { createApiRouter, createPluginRouteHandler, setupSocketIO } from './api/index';
-import { apiKeyAuthMiddleware } from './middleware/index';
+import {
+  createApiRouter,
+  createPluginRouteHandler,
+  openaiRouter,
+  setupSocketIO,
+} from './api/index';
+import { createApiKeyAuthMiddleware } from './middleware/index';
 import {
   messageBusConnectorPlugin,
   setGlobalElizaOS,
   setGlobalAgentServer,
 } from './services/message';
 import { loadCharacterTryPath, jsonToCharacter } from './services/loader';
+import { WebhookDispatcher } from './services/webhooks';
+import internalMessageBus from './services/message-bus';
+import type { MessageBusTransport } from './services/message-bus-transport';
+import {
+  PostgresMessageBusTransport,
+  type NotificationClient,
+} from './services/postgres-message-bus-transport';
 import * as Sentry from '@sentry/node';
 import sqlPlugin, {
   createDatabaseAdapter,
@@ -37,11 +49,38 @@ import sqlPlugin, {
   setServerContext,
   assignAgentToServer,
   uninstallRLS,
+  type JobQueryParams,
+  type JobRecord,
+  type JobUpdate,
 } from '@elizaos/plugin-sql';
 import { stringToUuid, type Plugin } from '@elizaos/core';
 import { sql } from 'drizzle-orm';
 
 import type { CentralRootMessage, MessageChannel, MessageServer } from './types/server';
+import type { Job, JobQuery, JobStatus } from './types/jobs';
+import type { Session, SessionMetadata, SessionQuery, SessionRecord } from './types/sessions';
+import type {
+  ApiKey,
+  ApiKeyRecord,
+  ApiKeyScope,
+  ApiKeyUsage,
+  ApiKeyUsageRecord,
+  CreateApiKeyRequest,
+  CreateApiKeyResponse,
+} from './types/api-keys';
+import type {
+  CreateWebhookRequest,
+  CreateWebhookResponse,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookDeliveryRecord,
+  WebhookDeliveryStatus,
+  WebhookPayload,
+  WebhookRecord,
+} from './types/webhooks';
+import { generateApiKey, hashApiKey, normalizeRequestPath } from './utils/api-keys';
+import { generateWebhookSecret } from './utils/webhooks';
 
 // Re-export config utilities for backward compatibility
 export {
@@ -64,6 +103,91 @@ import {
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
+/**
+ * How long a looked-up API key is reused; a key revoked on another replica stays
+ * usable here for at most this long
+ */
+const API_KEY_CACHE_TTL_MS = 30 * 1000;
+const API_KEY_CACHE_MAX_ENTRIES = 1000;
+
+/**
+ * Convert a stored job row into the in-memory Job shape used by the jobs API
+ */
+function jobFromRecord(record: JobRecord): Job {
+  return {
+    ...record,
+    status: record.status as JobStatus,
+    result: record.result as Job['result'],
+    createdAt: record.createdAt.getTime(),
+    expiresAt: record.expiresAt.getTime(),
+    leaseExpiresAt: record.leaseExpiresAt?.getTime(),
+  };
+}
+
+function toJobRecordQuery(query: JobQuery = {}): JobQueryParams {
+  return {
+    ...query,
+    from: query.from !== undefined ? new Date(query.from) : undefined,
+    to: query.to !== undefined ? new Date(query.to) : undefined,
+  };
+}
+
+type SessionRecordQuery = Omit<SessionQuery, 'activeAt'> & { activeAt?: Date };
+
+function toSessionRecordQuery(query: SessionQuery = {}): SessionRecordQuery {
+  return {
+    ...query,
+    activeAt: query.activeAt !== undefined ? new Date(query.activeAt) : undefined,
+  };
+}
+
+/**
+ * Convert a stored session row into the Session shape used by the sessions API
+ */
+function sessionFromRecord({ warningSentAt, ...record }: SessionRecord): Session {
+  return {
+    ...record,
+    metadata: record.metadata as SessionMetadata,
+    timeoutConfig: { ...record.timeoutConfig },
+    warningState: warningSentAt ? { sent: true, sentAt: warningSentAt } : undefined,
+  };
+}
+
+/**
+ * Convert a stored API key row into the shape returned by the API, without its hash
+ */
+function apiKeyFromRecord({ keyHash: _keyHash, ...record }: ApiKeyRecord): ApiKey {
+  return {
+    ...record,
+    scopes: record.scopes as ApiKeyScope[],
+    createdAt: record.createdAt.getTime(),
+    expiresAt: record.expiresAt?.getTime(),
+    revokedAt: record.revokedAt?.getTime(),
+    lastUsedAt: record.lastUsedAt?.getTime(),
+  };
+}
+
+/**
+ * Convert a stored webhook row into the shape returned by the API, without its secret
+ */
+function webhookFromRecord({ secret: _secret, ...record }: WebhookRecord): Webhook {
+  return { ...record, createdAt: record.createdAt.getTime() };
+}
+
+/**
+ * Convert a stored delivery row into the shape shown in the delivery log
+ */
+function webhookDeliveryFromRecord(record: WebhookDeliveryRecord): WebhookDelivery {
+  return {
+    ...record,
+    payload: record.payload as unknown as WebhookPayload,
+    status: record.status as WebhookDeliveryStatus,
+    nextAttemptAt: record.nextAttemptAt?.getTime(),
+    createdAt: record.createdAt.getTime(),
+    updatedAt: record.updatedAt.getTime(),
+  };
+}
+
 /**
  * Type for database adapter with messaging methods
  * These methods are provided by BaseDrizzleAdapter implementations
@@ -143,6 +267,75 @@ type DatabaseAdapterWithMessaging = DatabaseAdapter & {
   addAgentToMessageServer(messageServerId: UUID, agentId: UUID): Promise<void>;
   removeAgentFromMessageServer(messageServerId: UUID, agentId: UUID): Promise<void>;
   getAgentsForMessageServer(messageServerId: UUID): Promise<UUID[]>;
+  createJob(data: Omit<JobRecord, 'updatedAt'>): Promise<JobRecord>;
+  getJob(id: string): Promise<JobRecord | null>;
+  updateJob(id: string, patch: JobUpdate): Promise<void>;
+  claimJob(id: string, ownerId: string, leaseExpiresAt: Date): Promise<boolean>;
+  renewJobLeases(ownerId: string, statuses: string[], leaseExpiresAt: Date): Promise<number>;
+  getJobs(params?: JobQueryParams): Promise<JobRecord[]>;
+  countJobs(params?: JobQueryParams): Promise<number>;
+  deleteExpiredJobs(statuses: string[], before: Date): Promise<number>;
+  createSession(data: SessionRecord): Promise<SessionRecord>;
+  getSession(id: string): Promise<SessionRecord | null>;
+  updateSession(
+    id: string,
+    patch: Partial<
+      Pick<
+        SessionRecord,
+        | 'metadata'
+        | 'timeoutConfig'
+        | 'renewalCount'
+        | 'warningSentAt'
+        | 'lastActivity'
+        | 'expiresAt'
+      >
+    >,
+    expectedVersion?: number
+  ): Promise<boolean>;
+  deleteSession(id: string): Promise<boolean>;
+  getSessions(params?: SessionRecordQuery): Promise<SessionRecord[]>;
+  countSessions(params?: SessionRecordQuery): Promise<number>;
+  deleteExpiredSessions(before: Date): Promise<number>;
+  createApiKey(data: ApiKeyRecord): Promise<ApiKeyRecord>;
+  getApiKey(id: UUID): Promise<ApiKeyRecord | null>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+  getApiKeys(): Promise<ApiKeyRecord[]>;
+  revokeApiKey(id: UUID): Promise<boolean>;
+  logApiKeyUsage(usage: Omit<ApiKeyUsageRecord, 'id'>): Promise<void>;
+  getApiKeyUsage(params?: {
+    keyId?: UUID;
+    limit?: number;
+    offset?: number;
+  }): Promise<ApiKeyUsageRecord[]>;
+  createWebhook(data: WebhookRecord): Promise<WebhookRecord>;
+  getWebhook(id: UUID): Promise<WebhookRecord | null>;
+  getWebhooks(): Promise<WebhookRecord[]>;
+  deleteWebhook(id: UUID): Promise<boolean>;
+  createWebhookDelivery(data: Omit<WebhookDeliveryRecord, 'updatedAt'>): Promise<boolean>;
+  getWebhookDelivery(id: UUID): Promise<WebhookDeliveryRecord | null>;
+  updateWebhookDelivery(
+    id: UUID,
+    patch: Partial<
+      Pick<
+        WebhookDeliveryRecord,
+        'status' | 'attempts' | 'nextAttemptAt' | 'responseStatus' | 'lastError'
+      >
+    >
+  ): Promise<void>;
+  getWebhookDeliveries(params?: {
+    webhookId?: UUID;
+    status?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<WebhookDeliveryRecord[]>;
+  claimWebhookDeliveries(
+    now: Date,
+    leaseUntil: Date,
+    limit: number
+  ): Promise<WebhookDeliveryRecord[]>;
+  requeueWebhookDelivery(id: UUID, now: Date): Promise<WebhookDeliveryRecord | null>;
+  deleteWebhookDeliveries(statuses: string[], before: Date): Promise<number>;
+  getNotificationClient?(): NotificationClient | null;
   getDatabase?(): unknown;
   db: { execute: (query: unknown) => Promise<unknown> };
 };
@@ -160,7 +353,10 @@ export class AgentServer {
   public elizaOS?: ElizaOS; // Core ElizaOS instance (public for direct access)
 
   public database!: DatabaseAdapterWithMessaging;
+  public webhookDispatcher?: WebhookDispatcher;
   private rlsServerId?: UUID;
+  /** Looked-up API keys by hash, including misses, so each request does not hit the database */
+  private apiKeyCache = new Map<string, { key: ApiKey | null; cachedAt: number }>();
   public messageServerId: UUID = DEFAULT_SERVER_ID;
 
   public loadCharacterTryPath!: (characterPath: string) => Promise<Character>;
@@ -445,6 +641,11 @@ export class AgentServer {
       // Ensure default server exists
       await this.ensureDefaultServer();
 
+      await this.initializeMessageBusTransport(config);
+
+      this.webhookDispatcher = new WebhookDispatcher(this);
+      await this.webhookDispatcher.start();
+
       logger.info({ src: 'http' }, 'Initializing ElizaOS');
       this.elizaOS = new ElizaOS();
       this.elizaOS.enableEditableMode();
@@ -462,6 +663,44 @@ export class AgentServer {
     }
   }
 
+  /**
+   * Connects the internal message bus to other server processes.
+   * Uses config.messageBusTransport when given, otherwise MESSAGE_BUS_TRANSPORT
+   * ('memory' by default, or 'postgres' for LISTEN/NOTIFY over the server database).
+   */
+  private async initializeMessageBusTransport(config?: ServerConfig): Promise<void> {
+    let transport: MessageBusTransport | undefined = config?.messageBusTransport;
+
+    if (!transport) {
+      const transportName = (process.env.MESSAGE_BUS_TRANSPORT || 'memory').toLowerCase();
+      if (transportName === 'memory') {
+        return;
+      }
+      if (transportName !== 'postgres') {
+        logger.warn(
+          { src: 'bus', transport: transportName },
+          'Unknown MESSAGE_BUS_TRANSPORT, using in-memory message bus'
+        );
+        return;
+      }
+
+      const notificationClient = this.database.getNotificationClient?.();
+      if (!notificationClient) {
+        logger.warn(
+          { src: 'bus' },
+          'Database adapter does not support LISTEN/NOTIFY, using in-memory message bus'
+        );
+        return;
+      }
+      transport = new PostgresMessageBusTransport(notificationClient, {
+        channel: process.env.MESSAGE_BUS_CHANNEL,
+      });
+    }
+
+    await internalMessageBus.setTransport(transport);
+    logger.info({ src: 'bus', transport: transport.name }, 'Message bus transport configured');
+  }
+
   private async ensureDefaultServer(): Promise<void> {
     try {
       // When data isolation is enabled, create a server per server instance instead of a shared default server
@@ -694,11 +933,18 @@ export class AgentServer {
           allowedHeaders: ['Content-Type', 'Authorization', 'X-API-KEY'],
         })
       ); // Enable CORS
-      this.app.use(
-        express.json({
-          limit: process.env.EXPRESS_MAX_PAYLOAD || '2mb',
-        })
-      ); // Parse JSON bodies with 2MB limit to support large character files
+      const jsonParser = express.json({
+        limit: process.env.EXPRESS_MAX_PAYLOAD || '2mb',
+      }); // Parse JSON bodies with 2MB limit to support large character files
+      // Agent bundles carry every memory with its embedding, so imports get their own limit
+      const agentImportJsonParser = express.json({
+        limit: process.env.AGENT_IMPORT_MAX_PAYLOAD || '100mb',
+      });
+      this.app.use((req, res, next) =>
+        req.method === 'POST' && normalizeRequestPath(req.path) === '/api/agents/import'
+          ? agentImportJsonParser(req, res, next)
+          : jsonParser(req, res, next)
+      );
 
       // File uploads are now handled by individual routes using multer
       // No global file upload middleware needed
@@ -771,8 +1017,11 @@ export class AgentServer {
       // Optional Authentication Middleware
       logger.info({ src: 'http' }, 'Configuring authentication middleware...');
 
-      // Active if ELIZA_SERVER_AUTH_TOKEN is configured
-      this.app.use('/api', apiKeyAuthMiddleware);
+      // Active if ELIZA_SERVER_AUTH_TOKEN is configured; also accepts the scoped keys
+      // created through /api/system/api-keys
+      const apiKeyAuth = createApiKeyAuthMiddleware(this);
+      this.app.use('/api', apiKeyAuth);
+      this.app.use('/v1', apiKeyAuth);
 
       if (serverAuthToken) {
         logger.info({ src: 'http' }, 'Authentication middleware configured - API Key: ENABLED');
@@ -1167,10 +1416,13 @@ export class AgentServer {
         });
       }
 
+      // Mount the OpenAI-compatible API under /v1 (chat completions and models)
+      this.app.use('/v1', openaiRouter(this.elizaOS!, this));
+
       // Add a catch-all route for API 404s
       this.app.use((_req, res, next) => {
         // Check if this is an API route that wasn't handled
-        if (_req.path.startsWith('/api/')) {
+        if (_req.path.startsWith('/api/') || _req.path.startsWith('/v1/')) {
           // worms are going to hitting it all the time, use a reverse proxy if you need this type of logging
           //logger.warn(`API 404: ${_req.method} ${_req.path}`);
           res.status(404).json({
@@ -1294,6 +1546,18 @@ export class AgentServer {
         );
       }
 
+      // Forward the agent's runtime events to webhook subscriptions
+      if (this.webhookDispatcher) {
+        try {
+          await runtime.registerPlugin(this.webhookDispatcher.plugin);
+        } catch (e) {
+          logger.error(
+            { src: 'agent', error: e, agentId: runtime.agentId },
+            'Failed to register webhook dispatcher'
+          );
+        }
+      }
+
       // Register TEE plugin if present
       const teePlugin = runtime.plugins.find((p) => p.name === 'phala-tee-plugin');
       if (teePlugin) {
@@ -1571,6 +1835,9 @@ export class AgentServer {
    * stops the database connection, and logs a success message.
    */
   public async stop(): Promise<void> {
+    this.webhookDispatcher?.stop();
+    await internalMessageBus.setTransport(null);
+
     if (this.server) {
       this.server.close(() => {
         logger.success({ src: 'http' }, 'Server stopped');
@@ -1703,6 +1970,295 @@ export class AgentServer {
     logger.warn({ src: 'db' }, 'Remove participant operation not supported');
   }
 
+  // ===============================
+  // Job Persistence Methods
+  // ===============================
+
+  /**
+   * Persist a newly created job
+   */
+  async createJob(job: Job): Promise<void> {
+    await this.database.createJob({
+      id: job.id,
+      agentId: job.agentId,
+      userId: job.userId,
+      channelId: job.channelId,
+      content: job.content,
+      status: job.status,
+      userMessageId: job.userMessageId,
+      agentResponseId: job.agentResponseId,
+      result: job.result as Record<string, unknown> | undefined,
+      error: job.error,
+      metadata: job.metadata,
+      createdAt: new Date(job.createdAt),
+      expiresAt: new Date(job.expiresAt),
+      ownerId: job.ownerId,
+      leaseExpiresAt: job.leaseExpiresAt !== undefined ? new Date(job.leaseExpiresAt) : undefined,
+    });
+  }
+
+  async getJob(jobId: string): Promise<Job | null> {
+    const record = await this.database.getJob(jobId);
+    return record ? jobFromRecord(record) : null;
+  }
+
+  /**
+   * Persist the mutable state of a job (status, message ids, result and error)
+   */
+  async updateJob(job: Job): Promise<void> {
+    await this.database.updateJob(job.id, {
+      status: job.status,
+      userMessageId: job.userMessageId,
+      agentResponseId: job.agentResponseId,
+      result: job.result as Record<string, unknown> | undefined,
+      error: job.error,
+    });
+  }
+
+  /**
+   * Make the given server instance the owner of a job until the lease expires (ms).
+   * Fails while another instance holds a live lease on the job.
+   */
+  async claimJob(jobId: string, ownerId: string, leaseExpiresAt: number): Promise<boolean> {
+    return this.database.claimJob(jobId, ownerId, new Date(leaseExpiresAt));
+  }
+
+  /**
+   * Extend the lease (ms) of the jobs in the given statuses owned by a server instance
+   */
+  async renewJobLeases(
+    ownerId: string,
+    statuses: JobStatus[],
+    leaseExpiresAt: number
+  ): Promise<number> {
+    return this.database.renewJobLeases(ownerId, statuses, new Date(leaseExpiresAt));
+  }
+
+  async getJobs(query?: JobQuery): Promise<Job[]> {
+    const records = await this.database.getJobs(toJobRecordQuery(query));
+    return records.map(jobFromRecord);
+  }
+
+  async countJobs(query?: JobQuery): Promise<number> {
+    return this.database.countJobs(toJobRecordQuery(query));
+  }
+
+  /**
+   * Delete jobs in the given statuses that expired before the given timestamp (ms)
+   */
+  async deleteExpiredJobs(statuses: JobStatus[], before: number): Promise<number> {
+    return this.database.deleteExpiredJobs(statuses, new Date(before));
+  }
+
+  // ===============================
+  // Messaging Session Methods
+  // ===============================
+
+  /**
+   * Persist a newly created messaging session
+   */
+  async createSession(session: Session): Promise<void> {
+    const { warningState, ...record } = session;
+    await this.database.createSession({
+      ...record,
+      warningSentAt: warningState?.sentAt,
+    });
+  }
+
+  async getSession(sessionId: string): Promise<Session | null> {
+    const record = await this.database.getSession(sessionId);
+    return record ? sessionFromRecord(record) : null;
+  }
+
+  /**
+   * Persist the mutable state of a session (activity, expiry, renewals, timeout
+   * configuration and warning state), unless it was updated since it was read
+   * @returns Whether the session was saved, false when it was deleted or its version changed
+   */
+  async updateSession(session: Session): Promise<boolean> {
+    return this.database.updateSession(
+      session.id,
+      {
+        timeoutConfig: session.timeoutConfig,
+        renewalCount: session.renewalCount,
+        warningSentAt: session.warningState?.sent ? session.warningState.sentAt : undefined,
+        lastActivity: session.lastActivity,
+        expiresAt: session.expiresAt,
+      },
+      session.version
+    );
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    return this.database.deleteSession(sessionId);
+  }
+
+  async getSessions(query?: SessionQuery): Promise<Session[]> {
+    const records = await this.database.getSessions(toSessionRecordQuery(query));
+    return records.map(sessionFromRecord);
+  }
+
+  async countSessions(query?: SessionQuery): Promise<number> {
+    return this.database.countSessions(toSessionRecordQuery(query));
+  }
+
+  /**
+   * Delete sessions that expired at or before the given timestamp (ms)
+   */
+  async deleteExpiredSessions(before: number): Promise<number> {
+    return this.database.deleteExpiredSessions(new Date(before));
+  }
+
+  // ===============================
+  // API Key Methods
+  // ===============================
+
+  /**
+   * Create an API key. Only its hash is stored, so the returned key cannot be read again.
+   */
+  async createApiKey(request: CreateApiKeyRequest): Promise<CreateApiKeyResponse> {
+    const { key, keyHash, prefix } = generateApiKey();
+    const record = await this.database.createApiKey({
+      id: crypto.randomUUID() as UUID,
+      name: request.name,
+      prefix,
+      keyHash,
+      scopes: request.scopes,
+      agentIds: request.agentIds,
+      channelIds: request.channelIds,
+      createdAt: new Date(),
+      expiresAt: request.expiresAt !== undefined ? new Date(request.expiresAt) : undefined,
+    });
+    return { ...apiKeyFromRecord(record), key };
+  }
+
+  async getApiKey(id: UUID): Promise<ApiKey | null> {
+    const record = await this.database.getApiKey(id);
+    return record ? apiKeyFromRecord(record) : null;
+  }
+
+  async listApiKeys(): Promise<ApiKey[]> {
+    const records = await this.database.getApiKeys();
+    return records.map(apiKeyFromRecord);
+  }
+
+  /**
+   * @returns false when the key does not exist or was already revoked
+   */
+  async revokeApiKey(id: UUID): Promise<boolean> {
+    const revoked = await this.database.revokeApiKey(id);
+    this.apiKeyCache.clear();
+    return revoked;
+  }
+
+  /**
+   * Find the stored key matching the given key text. Lookups are cached for
+   * API_KEY_CACHE_TTL_MS; expiry and revocation are still checked by the caller.
+   */
+  async findApiKey(key: string): Promise<ApiKey | null> {
+    const keyHash = hashApiKey(key);
+    const cached = this.apiKeyCache.get(keyHash);
+    if (cached && Date.now() - cached.cachedAt < API_KEY_CACHE_TTL_MS) {
+      return cached.key;
+    }
+
+    const record = await this.database.getApiKeyByHash(keyHash);
+    const found = record ? apiKeyFromRecord(record) : null;
+
+    this.apiKeyCache.delete(keyHash);
+    if (this.apiKeyCache.size >= API_KEY_CACHE_MAX_ENTRIES) {
+      // Maps iterate in insertion order, so the first entry is the oldest
+      this.apiKeyCache.delete(this.apiKeyCache.keys().next().value!);
+    }
+    this.apiKeyCache.set(keyHash, { key: found, cachedAt: Date.now() });
+    return found;
+  }
+
+  async recordApiKeyUsage(usage: Omit<ApiKeyUsage, 'id'>): Promise<void> {
+    await this.database.logApiKeyUsage({ ...usage, createdAt: new Date(usage.createdAt) });
+  }
+
+  async getApiKeyUsage(
+    keyId?: UUID,
+    options?: { limit?: number; offset?: number }
+  ): Promise<ApiKeyUsage[]> {
+    const records = await this.database.getApiKeyUsage({ keyId, ...options });
+    return records.map((record) => ({ ...record, createdAt: record.createdAt.getTime() }));
+  }
+
+  // ===============================
+  // Webhook Methods
+  // ===============================
+
+  /**
+   * Create a webhook subscription; the secret is only returned here
+   */
+  async createWebhook(request: CreateWebhookRequest): Promise<CreateWebhookResponse> {
+    const record = await this.database.createWebhook({
+      id: crypto.randomUUID() as UUID,
+      url: request.url,
+      description: request.description,
+      secret: request.secret ?? generateWebhookSecret(),
+      events: request.events,
+      agentIds: request.agentIds,
+      channelIds: request.channelIds,
+      enabled: true,
+      createdAt: new Date(),
+    });
+    await this.webhookDispatcher?.refresh();
+    return { ...webhookFromRecord(record), secret: record.secret };
+  }
+
+  async getWebhook(id: UUID): Promise<Webhook | null> {
+    const record = await this.database.getWebhook(id);
+    return record ? webhookFromRecord(record) : null;
+  }
+
+  async listWebhooks(): Promise<Webhook[]> {
+    const records = await this.database.getWebhooks();
+    return records.map(webhookFromRecord);
+  }
+
+  /**
+   * Delete a webhook and its delivery log
+   * @returns Whether the webhook existed
+   */
+  async deleteWebhook(id: UUID): Promise<boolean> {
+    const deleted = await this.database.deleteWebhook(id);
+    await this.webhookDispatcher?.refresh();
+    return deleted;
+  }
+
+  async getWebhookDeliveries(
+    webhookId: UUID,
+    query: WebhookDeliveryQuery = {}
+  ): Promise<WebhookDelivery[]> {
+    const records = await this.database.getWebhookDeliveries({ webhookId, ...query });
+    return records.map(webhookDeliveryFromRecord);
+  }
+
+  async getWebhookDelivery(id: UUID): Promise<WebhookDelivery | null> {
+    const record = await this.database.getWebhookDelivery(id);
+    return record ? webhookDeliveryFromRecord(record) : null;
+  }
+
+  /**
+   * Queue a delivery again from its first attempt, e.g. out of the dead-letter queue.
+   * Pending deliveries are left alone (`requeued` is false) as another replica may be sending them.
+   * @returns The delivery, or null when it does not exist
+   */
+  async redeliverWebhookDelivery(
+    id: UUID
+  ): Promise<{ delivery: WebhookDelivery; requeued: boolean } | null> {
+    if (!this.webhookDispatcher) {
+      throw new Error('Webhook dispatcher is not running');
+    }
+    const result = await this.webhookDispatcher.redeliver(id);
+    return result
+      ? { delivery: webhookDeliveryFromRecord(result.delivery), requeued: result.requeued }
+      : null;
+  }
+
   // ===============================
   // MessageServer-Agent Association Methods
   // ===============================
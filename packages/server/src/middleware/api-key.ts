@@ -1,8 +1,74 @@
 import { type Request, type Response, type NextFunction } from 'express';
-import { logger } from '@elizaos/core';
+import { logger, type UUID } from '@elizaos/core';
+import type { ApiKey, ApiKeyUsage } from '../types/api-keys';
+import {
+  canAccessTarget,
+  getRequestTargets,
+  getRequiredScope,
+  isRouteCheckedPath,
+  isUntargetedRoute,
+  normalizeRequestPath,
+  type RequestTargets,
+} from '../utils/api-keys';
 
 export interface ApiKeyAuthRequest extends Request {
   isServerAuthenticated?: boolean;
+  /** The managed key the request was made with; undefined for the server token */
+  apiKey?: ApiKey;
+}
+
+/**
+ * Looks up the server's managed API keys and records their use
+ */
+export interface ApiKeyProvider {
+  /** The key matching the given key text, including revoked and expired keys */
+  findApiKey(key: string): Promise<ApiKey | null>;
+  recordApiKeyUsage(usage: Omit<ApiKeyUsage, 'id'>): Promise<void>;
+  /** Entities taking part in a channel, including its agents */
+  getChannelParticipants(channelId: UUID): Promise<UUID[]>;
+}
+
+function readApiKey(req: Request): string | undefined {
+  // Also accepted as a bearer token for OpenAI-compatible clients
+  const bearer = req.headers?.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const apiKey = req.headers?.['x-api-key'] ?? bearer;
+  return typeof apiKey === 'string' ? apiKey : undefined;
+}
+
+function rejectUnauthorized(req: Request, res: Response): Response {
+  logger.warn(`[API Key] Unauthorized access attempt from ${req.ip}`);
+  return res.status(401).json({
+    error: 'API key required',
+    message: 'Missing or invalid X-API-KEY header',
+  });
+}
+
+/**
+ * The agent and channel of a request made with a restricted key. When the request names a
+ * channel and the key is restricted to agents, the agent must take part in the channel;
+ * without a named agent, the first allowed agent taking part in it is the target.
+ */
+async function resolveRequestTargets(
+  provider: ApiKeyProvider,
+  key: ApiKey,
+  req: Request,
+  path: string
+): Promise<RequestTargets> {
+  const targets = getRequestTargets({ path, body: req.body, query: req.query });
+  if (!key.agentIds || !targets.channelId) {
+    return targets;
+  }
+
+  const participants = await provider.getChannelParticipants(targets.channelId as UUID);
+  if (targets.agentId) {
+    return participants.includes(targets.agentId as UUID)
+      ? targets
+      : { channelId: targets.channelId };
+  }
+  return {
+    ...targets,
+    agentId: participants.find((participantId) => key.agentIds!.includes(participantId)),
+  };
 }
 
 /**
@@ -10,6 +76,7 @@ export interface ApiKeyAuthRequest extends Request {
  *
  * Authenticates frontend→server connection (Layer 1).
  * Only active if ELIZA_SERVER_AUTH_TOKEN is configured.
+ * The key is read from the X-API-KEY header or an `Authorization: Bearer` header.
  *
  * Use case: Prevent unauthorized clients from accessing the API.
  */
@@ -26,19 +93,15 @@ export function apiKeyAuthMiddleware(
     return next();
   }
 
-  // Allow OPTIONS requests for CORS preflight
-  if (req.method === 'OPTIONS') {
+  // Allow OPTIONS requests for CORS preflight, and requests already checked by
+  // the scoped middleware
+  if (req.method === 'OPTIONS' || req.isServerAuthenticated) {
     return next();
   }
 
-  // Verify API key
-  const apiKey = req.headers?.['x-api-key'];
+  const apiKey = readApiKey(req);
   if (!apiKey || apiKey !== process.env.ELIZA_SERVER_AUTH_TOKEN) {
-    logger.warn(`[API Key] Unauthorized access attempt from ${req.ip}`);
-    return res.status(401).json({
-      error: 'API key required',
-      message: 'Missing or invalid X-API-KEY header',
-    });
+    return rejectUnauthorized(req, res);
   }
 
   // Valid API key
@@ -46,3 +109,114 @@ export function apiKeyAuthMiddleware(
   logger.debug('[API Key] Valid - frontend authenticated');
   next();
 }
+
+/**
+ * Scoped API key authentication middleware.
+ *
+ * Accepts the ELIZA_SERVER_AUTH_TOKEN with full access, and managed keys limited to
+ * their scopes and, when set, to their agents and channels. Requests made with managed
+ * keys are recorded in the key's audit log. Like `apiKeyAuthMiddleware`, it is only
+ * active if ELIZA_SERVER_AUTH_TOKEN is configured, as that token manages the keys.
+ *
+ * A key restricted to agents or channels is denied requests whose agent or channel
+ * cannot be resolved, except listings, which their routes filter to what the key may
+ * access. Session, stream, job and OpenAI routes check the key against what they load.
+ */
+export function createApiKeyAuthMiddleware(provider: ApiKeyProvider) {
+  return async (req: ApiKeyAuthRequest, res: Response, next: NextFunction) => {
+    if (!process.env.ELIZA_SERVER_AUTH_TOKEN || req.method === 'OPTIONS') {
+      return next();
+    }
+
+    const apiKey = readApiKey(req);
+    if (apiKey && apiKey === process.env.ELIZA_SERVER_AUTH_TOKEN) {
+      req.isServerAuthenticated = true;
+      return next();
+    }
+
+    let key: ApiKey | null = null;
+    if (apiKey) {
+      try {
+        key = await provider.findApiKey(apiKey);
+      } catch (error) {
+        logger.error(
+          { src: 'http', error: error instanceof Error ? error.message : String(error) },
+          '[API Key] Failed to look up API key'
+        );
+        return res.status(500).json({
+          error: 'Authentication unavailable',
+          message: 'Failed to verify the API key',
+        });
+      }
+    }
+    const now = Date.now();
+    if (!key || key.revokedAt || (key.expiresAt !== undefined && key.expiresAt <= now)) {
+      return rejectUnauthorized(req, res);
+    }
+    const activeKey = key;
+
+    const path = req.baseUrl + req.path;
+    res.on('finish', () => {
+      provider
+        .recordApiKeyUsage({
+          keyId: activeKey.id,
+          method: req.method,
+          path,
+          status: res.statusCode,
+          ip: req.ip,
+          createdAt: Date.now(),
+        })
+        .catch((error) => {
+          logger.warn(
+            {
+              src: 'http',
+              keyId: activeKey.id,
+              error: error instanceof Error ? error.message : String(error),
+            },
+            '[API Key] Failed to record API key usage'
+          );
+        });
+    });
+
+    // Routes match regardless of case and trailing slashes, so must the checks below
+    const routePath = normalizeRequestPath(path);
+    const scope = getRequiredScope(req.method, routePath, req.query);
+    if (!activeKey.scopes.includes(scope)) {
+      return res.status(403).json({
+        error: 'Insufficient scope',
+        message: `This API key does not have the ${scope} scope`,
+      });
+    }
+
+    if (
+      (activeKey.agentIds || activeKey.channelIds) &&
+      !isRouteCheckedPath(routePath) &&
+      !isUntargetedRoute(req.method, routePath)
+    ) {
+      let targets: RequestTargets;
+      try {
+        targets = await resolveRequestTargets(provider, activeKey, req, routePath);
+      } catch (error) {
+        logger.error(
+          { src: 'http', error: error instanceof Error ? error.message : String(error) },
+          '[API Key] Failed to resolve the request target'
+        );
+        return res.status(500).json({
+          error: 'Authentication unavailable',
+          message: 'Failed to verify the API key',
+        });
+      }
+      if (!canAccessTarget(activeKey, targets)) {
+        const agentDenied = !canAccessTarget({ agentIds: activeKey.agentIds }, targets);
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: `This API key cannot access this ${agentDenied ? 'agent' : 'channel'}`,
+        });
+      }
+    }
+
+    req.apiKey = activeKey;
+    req.isServerAuthenticated = true;
+    next();
+  };
+}
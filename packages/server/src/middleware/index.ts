@@ -4,7 +4,12 @@
  */
 
 // Authentication middleware
-export { apiKeyAuthMiddleware, type ApiKeyAuthRequest } from './api-key';
+export {
+  apiKeyAuthMiddleware,
+  createApiKeyAuthMiddleware,
+  type ApiKeyAuthRequest,
+  type ApiKeyProvider,
+} from './api-key';
 
 // Security middleware
 export { securityMiddleware } from './security';
@@ -3,7 +3,19 @@
  */
 
 // Message bus (internal event system)
-export { default as internalMessageBus } from './message-bus';
+export { default as internalMessageBus, InternalMessageBus } from './message-bus';
+export {
+  InMemoryMessageBusTransport,
+  type MessageBusEnvelope,
+  type MessageBusEnvelopeHandler,
+  type MessageBusTransport,
+} from './message-bus-transport';
+export {
+  PostgresMessageBusTransport,
+  DEFAULT_MESSAGE_BUS_CHANNEL,
+  type NotificationClient,
+  type PostgresMessageBusTransportOptions,
+} from './postgres-message-bus-transport';
 
 // Message service and plugin
 export {
@@ -14,6 +26,14 @@ export {
   type MessageServiceMessage,
 } from './message';
 
+// Webhook delivery
+export {
+  WebhookDispatcher,
+  getWebhookDispatcherOptions,
+  getWebhookRetryDelay,
+  type WebhookDispatcherOptions,
+} from './webhooks';
+
 // Character loader
 export {
   tryLoadFile,
@@ -0,0 +1,60 @@
+import type { MessageBusEventMap } from '../types/server';
+
+/**
+ * A single bus event as it travels between InternalMessageBus instances.
+ * `origin` is the id of the bus that emitted it, so a bus can ignore its own events.
+ */
+export interface MessageBusEnvelope {
+  origin: string;
+  event: keyof MessageBusEventMap | string;
+  data: unknown;
+}
+
+export type MessageBusEnvelopeHandler = (envelope: MessageBusEnvelope) => void;
+
+/**
+ * Carries bus events between processes so that a message emitted on one server node
+ * reaches agents and sockets hosted on the others.
+ *
+ * Local delivery is always done by the bus itself; a transport only needs to fan
+ * envelopes out to the other buses listening on it.
+ */
+export interface MessageBusTransport {
+  readonly name: string;
+  /** Begin receiving envelopes published by other buses */
+  start(onEnvelope: MessageBusEnvelopeHandler): Promise<void>;
+  /** Publish an envelope to every bus listening on this transport */
+  publish(envelope: MessageBusEnvelope): Promise<void>;
+  /** Stop receiving envelopes and release any underlying resources */
+  stop(): Promise<void>;
+}
+
+/**
+ * Default transport: delivers envelopes to buses in the same process that share
+ * the same peer set. A transport created without peers only talks to itself,
+ * which keeps the bus process-local.
+ */
+export class InMemoryMessageBusTransport implements MessageBusTransport {
+  readonly name = 'memory';
+  private handler: MessageBusEnvelopeHandler | null = null;
+
+  constructor(private readonly peers: Set<MessageBusEnvelopeHandler> = new Set()) {}
+
+  async start(onEnvelope: MessageBusEnvelopeHandler): Promise<void> {
+    this.handler = onEnvelope;
+    this.peers.add(onEnvelope);
+  }
+
+  async publish(envelope: MessageBusEnvelope): Promise<void> {
+    for (const peer of this.peers) {
+      peer(envelope);
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.handler) {
+      this.peers.delete(this.handler);
+      this.handler = null;
+    }
+  }
+}
@@ -1,13 +1,21 @@
+import { logger } from '@elizaos/core';
 import type { MessageBusEventMap } from '../types/server';
+import {
+  InMemoryMessageBusTransport,
+  type MessageBusEnvelope,
+  type MessageBusTransport,
+} from './message-bus-transport';
 
 type MessageBusHandler<T> = (data: T) => void | Promise<void>;
 
 /**
- * A simple in-memory message bus for distributing messages from the server
- * to subscribed MessageBusService instances within the same process.
+ * A message bus for distributing messages from the server to subscribed
+ * MessageBusService instances.
  *
- * For multi-process or multi-server deployments, this would need to be replaced
- * with a more robust solution like Redis Pub/Sub, Kafka, RabbitMQ, etc.
+ * Events are always dispatched to local listeners first and then published to the
+ * configured MessageBusTransport, which relays them to the buses of other server
+ * processes. The default transport is in-memory, which keeps the bus process-local;
+ * multi-server deployments can switch to PostgresMessageBusTransport via setTransport().
  *
  * Uses Bun-native EventTarget internally but maintains EventEmitter-like API.
  *
@@ -20,12 +28,86 @@ type MessageBusHandler<T> = (data: T) => void | Promise<void>;
  * registration. This is an intentional design choice to prevent memory leaks and
  * unintended multiple executions of the same handler.
  */
-class InternalMessageBus extends EventTarget {
+export class InternalMessageBus extends EventTarget {
   private _maxListeners: number = 50; // Kept for API compatibility, see setMaxListeners()
   private handlers = new Map<string, Map<MessageBusHandler<unknown>, EventListener>>();
+  private transport: MessageBusTransport;
+  private readonly handleEnvelope = (envelope: MessageBusEnvelope) => {
+    // Our own events were already dispatched locally by emit()
+    if (envelope.origin !== this.instanceId) {
+      this.dispatchEvent(new CustomEvent(envelope.event, { detail: envelope.data }));
+    }
+  };
+
+  /** Unique id of this bus, used to recognise its own events coming back over the transport */
+  readonly instanceId: string = crypto.randomUUID();
+
+  constructor(transport: MessageBusTransport = new InMemoryMessageBusTransport()) {
+    super();
+    this.transport = transport;
+    this.startTransport(transport);
+  }
 
   emit<K extends keyof MessageBusEventMap>(event: K, data: MessageBusEventMap[K]): boolean {
-    return this.dispatchEvent(new CustomEvent(event, { detail: data }));
+    const dispatched = this.dispatchEvent(new CustomEvent(event, { detail: data }));
+
+    const transport = this.transport;
+    transport.publish({ origin: this.instanceId, event, data }).catch((error) => {
+      logger.error(
+        {
+          src: 'bus',
+          transport: transport.name,
+          event,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to publish event to message bus transport'
+      );
+    });
+
+    return dispatched;
+  }
+
+  getTransport(): MessageBusTransport {
+    return this.transport;
+  }
+
+  /**
+   * Replace the transport used to relay events to other processes.
+   * Passing null restores the default process-local transport.
+   */
+  async setTransport(transport: MessageBusTransport | null): Promise<void> {
+    const previous = this.transport;
+    const next = transport ?? new InMemoryMessageBusTransport();
+    this.transport = next;
+
+    try {
+      await previous.stop();
+    } catch (error) {
+      logger.warn(
+        {
+          src: 'bus',
+          transport: previous.name,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to stop message bus transport'
+      );
+    }
+
+    await next.start(this.handleEnvelope);
+    logger.debug({ src: 'bus', transport: next.name }, 'Message bus transport started');
+  }
+
+  private startTransport(transport: MessageBusTransport): void {
+    transport.start(this.handleEnvelope).catch((error) => {
+      logger.error(
+        {
+          src: 'bus',
+          transport: transport.name,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to start message bus transport'
+      );
+    });
   }
 
   on<K extends keyof MessageBusEventMap>(
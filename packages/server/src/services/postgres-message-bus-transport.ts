@@ -0,0 +1,167 @@
+import { logger } from '@elizaos/core';
+import type {
+  MessageBusEnvelope,
+  MessageBusEnvelopeHandler,
+  MessageBusTransport,
+} from './message-bus-transport';
+
+/**
+ * LISTEN/NOTIFY access as exposed by the plugin-sql adapters.
+ * Signature matches NotificationClient in @elizaos/plugin-sql.
+ */
+export interface NotificationClient {
+  listen(channel: string, onNotification: (payload: string) => void): Promise<() => Promise<void>>;
+  notify(channel: string, payload: string): Promise<void>;
+}
+
+export interface PostgresMessageBusTransportOptions {
+  /** Postgres channel name, shared by every server node */
+  channel?: string;
+  /** Maximum characters of serialized envelope per notification */
+  chunkSize?: number;
+  /** How long to wait for the remaining chunks of a split envelope */
+  reassemblyTimeoutMs?: number;
+}
+
+export const DEFAULT_MESSAGE_BUS_CHANNEL = 'eliza_message_bus';
+
+// NOTIFY payloads must be shorter than 8000 bytes. 2000 UTF-16 code units encode to
+// at most 6000 bytes of UTF-8, which leaves room for the chunk header.
+const DEFAULT_CHUNK_SIZE = 2000;
+const DEFAULT_REASSEMBLY_TIMEOUT_MS = 30000;
+
+interface PendingEnvelope {
+  parts: string[];
+  received: number;
+  startedAt: number;
+}
+
+/**
+ * Message bus transport over Postgres LISTEN/NOTIFY, reusing the plugin-sql connection.
+ *
+ * Envelopes are serialized to JSON and split into chunks framed as
+ * `<id>:<seq>:<total>:<part>` so large messages fit within the NOTIFY payload limit.
+ */
+export class PostgresMessageBusTransport implements MessageBusTransport {
+  readonly name = 'postgres';
+  private readonly channel: string;
+  private readonly chunkSize: number;
+  private readonly reassemblyTimeoutMs: number;
+  private unsubscribe: (() => Promise<void>) | null = null;
+  private pending = new Map<string, PendingEnvelope>();
+
+  constructor(
+    private readonly client: NotificationClient,
+    options: PostgresMessageBusTransportOptions = {}
+  ) {
+    this.channel = options.channel ?? DEFAULT_MESSAGE_BUS_CHANNEL;
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.reassemblyTimeoutMs = options.reassemblyTimeoutMs ?? DEFAULT_REASSEMBLY_TIMEOUT_MS;
+  }
+
+  async start(onEnvelope: MessageBusEnvelopeHandler): Promise<void> {
+    if (this.unsubscribe) {
+      await this.stop();
+    }
+    this.unsubscribe = await this.client.listen(this.channel, (payload) => {
+      this.handleNotification(payload, onEnvelope);
+    });
+    logger.info({ src: 'bus', channel: this.channel }, 'Listening for message bus notifications');
+  }
+
+  async publish(envelope: MessageBusEnvelope): Promise<void> {
+    const id = crypto.randomUUID();
+    const parts = splitPayload(JSON.stringify(envelope), this.chunkSize);
+    for (let seq = 0; seq < parts.length; seq++) {
+      await this.client.notify(this.channel, `${id}:${seq}:${parts.length}:${parts[seq]}`);
+    }
+  }
+
+  async stop(): Promise<void> {
+    const unsubscribe = this.unsubscribe;
+    this.unsubscribe = null;
+    this.pending.clear();
+    if (unsubscribe) {
+      await unsubscribe();
+    }
+  }
+
+  private handleNotification(payload: string, onEnvelope: MessageBusEnvelopeHandler): void {
+    const match = /^([^:]+):(\d+):(\d+):/.exec(payload);
+    if (!match) {
+      logger.warn({ src: 'bus', channel: this.channel }, 'Ignoring malformed bus notification');
+      return;
+    }
+
+    const [header, id, seqText, totalText] = match;
+    const seq = Number(seqText);
+    const total = Number(totalText);
+    const part = payload.slice(header.length);
+
+    if (total === 1) {
+      this.deliver(part, onEnvelope);
+      return;
+    }
+
+    this.dropStalePending();
+    let entry = this.pending.get(id);
+    if (!entry) {
+      entry = { parts: new Array(total), received: 0, startedAt: Date.now() };
+      this.pending.set(id, entry);
+    }
+    if (entry.parts[seq] === undefined) {
+      entry.parts[seq] = part;
+      entry.received++;
+    }
+    if (entry.received === total) {
+      this.pending.delete(id);
+      this.deliver(entry.parts.join(''), onEnvelope);
+    }
+  }
+
+  private deliver(serialized: string, onEnvelope: MessageBusEnvelopeHandler): void {
+    let envelope: MessageBusEnvelope;
+    try {
+      envelope = JSON.parse(serialized);
+    } catch (error) {
+      logger.warn(
+        {
+          src: 'bus',
+          channel: this.channel,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to parse bus notification'
+      );
+      return;
+    }
+    onEnvelope(envelope);
+  }
+
+  private dropStalePending(): void {
+    const cutoff = Date.now() - this.reassemblyTimeoutMs;
+    for (const [id, entry] of this.pending) {
+      if (entry.startedAt < cutoff) {
+        this.pending.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Split a string into chunks of at most `size` code units without separating
+ * a UTF-16 surrogate pair, which could not be encoded on its own.
+ */
+function splitPayload(serialized: string, size: number): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  while (start < serialized.length) {
+    let end = Math.min(start + size, serialized.length);
+    const lastCode = serialized.charCodeAt(end - 1);
+    if (end < serialized.length && end - start > 1 && lastCode >= 0xd800 && lastCode <= 0xdbff) {
+      end--;
+    }
+    parts.push(serialized.slice(start, end));
+    start = end;
+  }
+  return parts.length > 0 ? parts : [''];
+}
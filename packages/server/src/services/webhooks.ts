@@ -0,0 +1,521 @@
+import { createHash } from 'node:crypto';
+import {
+  EventType,
+  logger,
+  stringToUuid,
+  type IAgentRuntime,
+  type Plugin,
+  type UUID,
+} from '@elizaos/core';
+import type { AgentServer } from '../index';
+import type {
+  ChannelClearedPayload,
+  MessageDeletedPayload,
+  MessageServiceStructure,
+} from '../types/server';
+import type { WebhookDeliveryRecord, WebhookPayload, WebhookRecord } from '../types/webhooks';
+import {
+  resolveWebhookUrl,
+  sendWebhookRequest,
+  signWebhookPayload,
+  toWebhookData,
+  type ResolvedWebhookUrl,
+} from '../utils/webhooks';
+import internalMessageBus from './message-bus';
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_RETRY_BASE_MS = 30 * 1000;
+const DEFAULT_RETRY_MAX_MS = 60 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 5 * 1000;
+const DEFAULT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const CLAIM_BATCH_SIZE = 25;
+// Extra time a claimed delivery stays leased beyond the request timeout
+const CLAIM_LEASE_MARGIN_MS = 60 * 1000;
+const ROOM_CHANNEL_CACHE_SIZE = 1000;
+const RUNTIME_EVENTS = new Set<string>(Object.values(EventType));
+
+/**
+ * Delivery settings of the webhook dispatcher
+ */
+export interface WebhookDispatcherOptions {
+  /** Attempts before a delivery is moved to the dead-letter queue */
+  maxAttempts: number;
+  /** Timeout of each request */
+  timeoutMs: number;
+  /** Delay before the first retry; it doubles with each failed attempt */
+  retryBaseMs: number;
+  /** Longest delay between retries */
+  retryMaxMs: number;
+  /** How often due deliveries and subscription changes are picked up */
+  pollIntervalMs: number;
+  /** How long delivered deliveries are kept in the delivery log */
+  retentionMs: number;
+  /** Sends a request, connecting to the resolved address of the URL when given one */
+  fetch: (url: string, init: RequestInit, address?: string) => Promise<Response>;
+  /** Rejects URLs that resolve to private addresses, or resolves them */
+  resolveUrl: (url: string) => Promise<ResolvedWebhookUrl>;
+}
+
+function readPositiveInt(name: string): number | undefined {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Dispatcher settings from WEBHOOK_MAX_ATTEMPTS, WEBHOOK_TIMEOUT_MS and
+ * WEBHOOK_RETENTION_DAYS, with defaults for the rest
+ */
+export function getWebhookDispatcherOptions(): WebhookDispatcherOptions {
+  const retentionDays = readPositiveInt('WEBHOOK_RETENTION_DAYS');
+  return {
+    maxAttempts: readPositiveInt('WEBHOOK_MAX_ATTEMPTS') ?? DEFAULT_MAX_ATTEMPTS,
+    timeoutMs: readPositiveInt('WEBHOOK_TIMEOUT_MS') ?? DEFAULT_TIMEOUT_MS,
+    retryBaseMs: DEFAULT_RETRY_BASE_MS,
+    retryMaxMs: DEFAULT_RETRY_MAX_MS,
+    pollIntervalMs: DEFAULT_POLL_INTERVAL_MS,
+    retentionMs: retentionDays ? retentionDays * 24 * 60 * 60 * 1000 : DEFAULT_RETENTION_MS,
+    fetch: sendWebhookRequest,
+    resolveUrl: (url) => resolveWebhookUrl(url),
+  };
+}
+
+/**
+ * Delay before the next attempt of a delivery that failed `attempts` times
+ */
+export function getWebhookRetryDelay(
+  attempts: number,
+  options: Pick<WebhookDispatcherOptions, 'retryBaseMs' | 'retryMaxMs'>
+): number {
+  return Math.min(options.retryBaseMs * 2 ** Math.max(attempts - 1, 0), options.retryMaxMs);
+}
+
+interface WebhookEvent {
+  event: string;
+  timestamp: number;
+  agentId?: UUID;
+  channelId?: UUID;
+  data: Record<string, unknown>;
+  /**
+   * Identifies the event, so that its deliveries get ids derived from this key and are
+   * queued once: every replica receives message bus events, and a runtime event may be
+   * emitted again. The delivery id doubles as the receiver's idempotency key.
+   */
+  key?: string;
+}
+
+/**
+ * Delivers runtime and message bus events to webhook subscriptions.
+ *
+ * Events are queued as deliveries in the database, which doubles as the delivery log.
+ * Due deliveries are claimed with a lease, POSTed with an HMAC signature and retried
+ * with exponential backoff; deliveries that fail every attempt stay in the
+ * `dead_letter` status until redelivered. Several server replicas can share the queue.
+ */
+export class WebhookDispatcher {
+  /** Plugin registered on every agent to forward its runtime events */
+  readonly plugin: Plugin;
+
+  private webhooks: WebhookRecord[] = [];
+  /** Runtime events that an enabled webhook subscribes to */
+  private subscribedEvents = new Set<string>();
+  /** Runtimes the plugin was registered on, by agent */
+  private readonly runtimes = new Map<UUID, IAgentRuntime>();
+  /** Events each runtime has a handler for; handlers cannot be removed once registered */
+  private readonly registeredEvents = new WeakMap<IAgentRuntime, Set<string>>();
+  /** Central channel of each room, which does not change once the room exists */
+  private readonly roomChannels = new Map<UUID, UUID | null>();
+  private pollTimer?: ReturnType<typeof setInterval>;
+  private processing?: Promise<void>;
+  private processAgain = false;
+  private lastPrunedAt = 0;
+  private running = false;
+  private readonly options: WebhookDispatcherOptions;
+
+  private readonly handleNewMessage = (message: MessageServiceStructure) => {
+    this.dispatch({
+      event: 'new_message',
+      timestamp: message.created_at,
+      channelId: message.channel_id,
+      data: toWebhookData(message),
+      key: message.id,
+    });
+  };
+
+  private readonly handleMessageDeleted = (payload: MessageDeletedPayload) => {
+    this.dispatch({
+      event: 'message_deleted',
+      timestamp: Date.now(),
+      data: { messageId: payload.messageId },
+      key: payload.messageId,
+    });
+  };
+
+  private readonly handleChannelCleared = (payload: ChannelClearedPayload) => {
+    this.dispatch({
+      event: 'channel_cleared',
+      timestamp: Date.now(),
+      channelId: payload.channelId,
+      data: { channelId: payload.channelId },
+    });
+  };
+
+  constructor(
+    private readonly server: Pick<AgentServer, 'database'>,
+    options: Partial<WebhookDispatcherOptions> = {}
+  ) {
+    this.options = { ...getWebhookDispatcherOptions(), ...options };
+    this.plugin = {
+      name: 'webhook-dispatcher',
+      description: 'Forwards agent events to webhook subscriptions.',
+      init: async (_config, runtime) => {
+        this.runtimes.set(runtime.agentId, runtime);
+        this.registerRuntimeEvents(runtime);
+      },
+    };
+  }
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    await this.refresh();
+
+    internalMessageBus.on('new_message', this.handleNewMessage);
+    internalMessageBus.on('message_deleted', this.handleMessageDeleted);
+    internalMessageBus.on('channel_cleared', this.handleChannelCleared);
+
+    this.pollTimer = setInterval(() => void this.poll(), this.options.pollIntervalMs);
+    void this.processDue();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    internalMessageBus.off('new_message', this.handleNewMessage);
+    internalMessageBus.off('message_deleted', this.handleMessageDeleted);
+    internalMessageBus.off('channel_cleared', this.handleChannelCleared);
+  }
+
+  /**
+   * Reload the enabled subscriptions; also runs on every poll to pick up
+   * webhooks created or deleted through other server replicas
+   */
+  async refresh(): Promise<void> {
+    const webhooks = await this.server.database.getWebhooks();
+    this.webhooks = webhooks.filter((webhook) => webhook.enabled);
+    this.subscribedEvents = new Set(
+      this.webhooks
+        .flatMap((webhook) => webhook.events)
+        .filter((event) => RUNTIME_EVENTS.has(event))
+    );
+    for (const runtime of this.runtimes.values()) {
+      this.registerRuntimeEvents(runtime);
+    }
+  }
+
+  /**
+   * Send a delivered or dead-lettered delivery again from its first attempt. Pending
+   * deliveries are not requeued (`requeued` is false): their lease may be held by a
+   * replica that is sending them.
+   * @returns The delivery, or null when it does not exist
+   */
+  async redeliver(
+    deliveryId: UUID
+  ): Promise<{ delivery: WebhookDeliveryRecord; requeued: boolean } | null> {
+    const requeued = await this.server.database.requeueWebhookDelivery(deliveryId, new Date());
+    if (requeued) {
+      void this.processDue();
+      return { delivery: requeued, requeued: true };
+    }
+    const delivery = await this.server.database.getWebhookDelivery(deliveryId);
+    return delivery ? { delivery, requeued: false } : null;
+  }
+
+  /**
+   * Attempt the deliveries that are due, until none are left
+   */
+  processDue(): Promise<void> {
+    if (this.processing) {
+      this.processAgain = true;
+      return this.processing;
+    }
+    this.processing = (async () => {
+      try {
+        let claimed: number;
+        do {
+          this.processAgain = false;
+          claimed = await this.processBatch();
+        } while (this.running && (this.processAgain || claimed === CLAIM_BATCH_SIZE));
+      } catch (error) {
+        logger.error(
+          {
+            src: 'service:webhooks',
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Failed to process webhook deliveries'
+        );
+      } finally {
+        this.processing = undefined;
+      }
+    })();
+    return this.processing;
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.refresh();
+      await this.processDue();
+
+      const now = Date.now();
+      if (now - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+        this.lastPrunedAt = now;
+        const pruned = await this.server.database.deleteWebhookDeliveries(
+          ['delivered'],
+          new Date(now - this.options.retentionMs)
+        );
+        if (pruned > 0) {
+          logger.debug({ src: 'service:webhooks', pruned }, 'Pruned webhook delivery log');
+        }
+      }
+    } catch (error) {
+      logger.error(
+        {
+          src: 'service:webhooks',
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Webhook poll failed'
+      );
+    }
+  }
+
+  /**
+   * Add handlers for the subscribed events the runtime has no handler for yet, so that
+   * agents only pay for the events a webhook wants
+   */
+  private registerRuntimeEvents(runtime: IAgentRuntime): void {
+    let registered = this.registeredEvents.get(runtime);
+    if (!registered) {
+      registered = new Set();
+      this.registeredEvents.set(runtime, registered);
+    }
+    for (const event of this.subscribedEvents) {
+      if (!registered.has(event)) {
+        registered.add(event);
+        runtime.registerEvent(event, (payload) =>
+          this.handleRuntimeEvent(event, payload as unknown as Record<string, unknown>)
+        );
+      }
+    }
+  }
+
+  /**
+   * Queue an agent event. The agent waits for the deliveries to be queued, not sent, so
+   * that events are not lost or reordered; failures are logged and never reach the agent.
+   */
+  private async handleRuntimeEvent(event: string, payload: Record<string, unknown>): Promise<void> {
+    // Handlers outlive the webhooks they were registered for
+    const runtime = payload.runtime as IAgentRuntime | undefined;
+    if (!this.subscribedEvents.has(event) || !runtime?.agentId) {
+      return;
+    }
+
+    try {
+      // Runtime events name rooms; webhooks filter on the central channels they belong to
+      const message = payload.message as { roomId?: UUID } | undefined;
+      const roomId = (payload.roomId as UUID | undefined) ?? message?.roomId;
+      const data = toWebhookData(payload);
+
+      await this.enqueue({
+        event,
+        timestamp: Date.now(),
+        agentId: runtime.agentId,
+        channelId: roomId ? await this.getRoomChannel(runtime, roomId) : undefined,
+        data,
+        // The same event emitted twice is queued once; payloads carry ids and timestamps
+        key: `${runtime.agentId}:${createHash('sha256').update(JSON.stringify(data)).digest('hex')}`,
+      });
+    } catch (error) {
+      logger.error(
+        {
+          src: 'service:webhooks',
+          event,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to queue webhook deliveries'
+      );
+    }
+  }
+
+  private async getRoomChannel(runtime: IAgentRuntime, roomId: UUID): Promise<UUID | undefined> {
+    if (!this.roomChannels.has(roomId)) {
+      const room = await runtime.getRoom(roomId);
+      if (this.roomChannels.size >= ROOM_CHANNEL_CACHE_SIZE) {
+        this.roomChannels.delete(this.roomChannels.keys().next().value!);
+      }
+      this.roomChannels.set(roomId, (room?.channelId as UUID | undefined) ?? null);
+    }
+    return this.roomChannels.get(roomId) ?? undefined;
+  }
+
+  private dispatch(event: WebhookEvent): void {
+    this.enqueue(event).catch((error) => {
+      logger.error(
+        {
+          src: 'service:webhooks',
+          event: event.event,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to queue webhook deliveries'
+      );
+    });
+  }
+
+  private matches(webhook: WebhookRecord, event: WebhookEvent): boolean {
+    if (!webhook.events.includes(event.event)) {
+      return false;
+    }
+    // Message bus events are not tied to an agent
+    if (event.agentId && webhook.agentIds && !webhook.agentIds.includes(event.agentId)) {
+      return false;
+    }
+    if (webhook.channelIds && (!event.channelId || !webhook.channelIds.includes(event.channelId))) {
+      return false;
+    }
+    return true;
+  }
+
+  private async enqueue(event: WebhookEvent): Promise<void> {
+    const webhooks = this.webhooks.filter((webhook) => this.matches(webhook, event));
+    if (webhooks.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    let queued = false;
+    for (const webhook of webhooks) {
+      const id = event.key
+        ? stringToUuid(`${webhook.id}:${event.event}:${event.key}`)
+        : (crypto.randomUUID() as UUID);
+      const payload: WebhookPayload = {
+        id,
+        event: event.event,
+        timestamp: event.timestamp,
+        agentId: event.agentId,
+        channelId: event.channelId,
+        data: event.data,
+      };
+      const created = await this.server.database.createWebhookDelivery({
+        id,
+        webhookId: webhook.id,
+        event: event.event,
+        payload: { ...payload },
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+      });
+      queued = queued || created;
+    }
+
+    if (queued && this.running) {
+      void this.processDue();
+    }
+  }
+
+  private async processBatch(): Promise<number> {
+    const now = Date.now();
+    const deliveries = await this.server.database.claimWebhookDeliveries(
+      new Date(now),
+      new Date(now + this.options.timeoutMs + CLAIM_LEASE_MARGIN_MS),
+      CLAIM_BATCH_SIZE
+    );
+    await Promise.all(deliveries.map((delivery) => this.attempt(delivery)));
+    return deliveries.length;
+  }
+
+  private async attempt(delivery: WebhookDeliveryRecord): Promise<void> {
+    const webhook =
+      this.webhooks.find((candidate) => candidate.id === delivery.webhookId) ??
+      (await this.server.database.getWebhook(delivery.webhookId));
+    if (!webhook) {
+      // Deleted while the delivery was claimed; its deliveries went with it
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+    try {
+      // Checked on every attempt, as the host may resolve elsewhere than when it was
+      // created, and the request goes to the address that was checked
+      const { error: urlError, address } = await this.options.resolveUrl(webhook.url);
+      if (urlError) {
+        throw new Error(urlError);
+      }
+      const response = await this.options.fetch(
+        webhook.url,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'elizaOS-Webhooks',
+            'X-Eliza-Event': delivery.event,
+            'X-Eliza-Delivery': delivery.id,
+            'X-Eliza-Signature': signWebhookPayload(webhook.secret, Date.now(), body),
+          },
+          body,
+          // A redirect could lead to an address the URL check would have rejected
+          redirect: 'manual',
+          signal: AbortSignal.timeout(this.options.timeoutMs),
+        },
+        address
+      );
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    }
+
+    const attempts = delivery.attempts + 1;
+    if (!error) {
+      await this.server.database.updateWebhookDelivery(delivery.id, {
+        status: 'delivered',
+        attempts,
+        nextAttemptAt: undefined,
+        responseStatus,
+        lastError: undefined,
+      });
+      return;
+    }
+
+    const deadLetter = attempts >= this.options.maxAttempts;
+    await this.server.database.updateWebhookDelivery(delivery.id, {
+      status: deadLetter ? 'dead_letter' : 'pending',
+      attempts,
+      nextAttemptAt: deadLetter
+        ? undefined
+        : new Date(Date.now() + getWebhookRetryDelay(attempts, this.options)),
+      responseStatus,
+      lastError: error,
+    });
+
+    logger.warn(
+      {
+        src: 'service:webhooks',
+        webhookId: webhook.id,
+        deliveryId: delivery.id,
+        attempts,
+        error,
+      },
+      deadLetter ? 'Webhook delivery moved to dead-letter queue' : 'Webhook delivery failed'
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import type { UUID } from '@elizaos/core';
+
+/**
+ * Permissions an API key can carry
+ *
+ * - `agents:read`: read agents, their runs, logs and memories
+ * - `agents:write`: create, update, start and stop agents
+ * - `messaging`: send and read messages, sessions and jobs, and the OpenAI-compatible API
+ * - `memory:delete`: delete and prune memories
+ * - `system`: server configuration, environment, runtime endpoints, API keys and webhooks
+ */
+export const API_KEY_SCOPES = [
+  'agents:read',
+  'agents:write',
+  'messaging',
+  'memory:delete',
+  'system',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * An API key as returned by the API; the key itself is only returned on creation
+ */
+export interface ApiKey {
+  id: UUID;
+  name: string;
+  /** First characters of the key */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  /** Agents the key may act on; all agents when undefined */
+  agentIds?: UUID[];
+  /** Channels the key may act on; all channels when undefined */
+  channelIds?: UUID[];
+  createdAt: number;
+  expiresAt?: number;
+  revokedAt?: number;
+  lastUsedAt?: number;
+}
+
+/**
+ * API key row as stored by the database adapter
+ */
+export interface ApiKeyRecord extends Omit<
+  ApiKey,
+  'scopes' | 'createdAt' | 'expiresAt' | 'revokedAt' | 'lastUsedAt'
+> {
+  keyHash: string;
+  scopes: string[];
+  createdAt: Date;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  lastUsedAt?: Date;
+}
+
+/**
+ * Request to create an API key
+ */
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  agentIds?: UUID[];
+  channelIds?: UUID[];
+  /** Expiry timestamp (ms); the key does not expire when undefined */
+  expiresAt?: number;
+}
+
+/**
+ * Response when creating an API key
+ */
+export interface CreateApiKeyResponse extends ApiKey {
+  /** The key, shown only once */
+  key: string;
+}
+
+/**
+ * A request made with an API key
+ */
+export interface ApiKeyUsage {
+  id: UUID;
+  keyId: UUID;
+  method: string;
+  path: string;
+  status: number;
+  ip?: string;
+  createdAt: number;
+}
+
+/**
+ * Audit log row as stored by the database adapter
+ */
+export interface ApiKeyUsageRecord extends Omit<ApiKeyUsage, 'createdAt'> {
+  createdAt: Date;
+}
@@ -2,3 +2,6 @@
 
 export * from './sessions';
 export * from './jobs';
+export * from './openai';
+export * from './api-keys';
+export * from './webhooks';
@@ -120,6 +120,10 @@ export interface Job {
   result?: JobResult;
   error?: string;
   metadata?: Record<string, unknown>;
+  /** Server instance running the job (persisted jobs only) */
+  ownerId?: string;
+  /** Until when the owner's claim on the job holds, renewed while it runs */
+  leaseExpiresAt?: number;
 }
 
 /**
@@ -153,4 +157,45 @@ export interface JobPersistenceConfig {
   enabled: boolean;
   /** Cleanup completed jobs after this many milliseconds (default: 1 hour) */
   cleanupAfterMs?: number;
+  /**
+   * Identifies this server instance as the owner of the jobs it runs. Keep it stable
+   * across restarts so a restarted instance resumes its own jobs without waiting for
+   * their lease to expire (default: a random id per run)
+   */
+  instanceId?: string;
+}
+
+/**
+ * Filters for querying jobs
+ */
+export interface JobQuery {
+  /** Only jobs sent to this agent */
+  agentId?: UUID;
+  /** Only jobs sent to one of these agents */
+  agentIds?: UUID[];
+  /** Only jobs in one of these channels */
+  channelIds?: UUID[];
+  /** Only jobs created by this user */
+  userId?: UUID;
+  /** Only jobs in these statuses */
+  status?: JobStatus | JobStatus[];
+  /** Only jobs created at or after this timestamp (ms) */
+  from?: number;
+  /** Only jobs created at or before this timestamp (ms) */
+  to?: number;
+  /** Maximum number of jobs to return (default: 50) */
+  limit?: number;
+  /** Number of jobs to skip */
+  offset?: number;
+}
+
+/**
+ * Response when listing jobs
+ */
+export interface JobListResponse {
+  jobs: JobDetailsResponse[];
+  /** Number of jobs matching the filters, before limit and offset */
+  total: number;
+  /** Number of jobs returned after filtering */
+  filtered: number;
 }
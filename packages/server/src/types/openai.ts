@@ -0,0 +1,113 @@
+/**
+ * Types for the OpenAI-compatible API served under /v1.
+ * Field names follow the OpenAI wire format, hence snake_case.
+ */
+
+/**
+ * A content part of a multi-part chat message; only text parts are forwarded to agents
+ */
+export interface ChatCompletionContentPart {
+  type: string;
+  text?: string;
+}
+
+/**
+ * A chat message in OpenAI format
+ */
+export interface ChatCompletionMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+  content: string | ChatCompletionContentPart[] | null;
+  name?: string;
+}
+
+/**
+ * Request body for POST /v1/chat/completions.
+ * Sampling options such as temperature are accepted but not applied: the agent's
+ * own model settings are used.
+ */
+export interface ChatCompletionRequest {
+  /** Agent name or ID */
+  model: string;
+  messages: ChatCompletionMessage[];
+  stream?: boolean;
+  stream_options?: {
+    include_usage?: boolean;
+  };
+  /** Caller's end-user ID; conversations of different users never share a channel */
+  user?: string;
+  [key: string]: unknown;
+}
+
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export type ChatCompletionFinishReason = 'stop' | 'length';
+
+export interface ChatCompletionResponse {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: 'assistant';
+      content: string;
+    };
+    finish_reason: ChatCompletionFinishReason;
+  }>;
+  usage: ChatCompletionUsage;
+}
+
+/**
+ * A server-sent event of a streamed chat completion
+ */
+export interface ChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: 'assistant';
+      content?: string;
+    };
+    finish_reason: ChatCompletionFinishReason | null;
+  }>;
+  /** Only set on the final chunk, when `stream_options.include_usage` is requested */
+  usage?: ChatCompletionUsage | null;
+}
+
+/**
+ * An agent listed by GET /v1/models
+ */
+export interface OpenAIModel {
+  /** Agent name */
+  id: string;
+  object: 'model';
+  created: number;
+  owned_by: string;
+  /** Agent ID, usable in place of the name as `model` */
+  agent_id: string;
+}
+
+export interface OpenAIModelList {
+  object: 'list';
+  data: OpenAIModel[];
+}
+
+/**
+ * Error response in OpenAI format
+ */
+export interface OpenAIErrorResponse {
+  error: {
+    message: string;
+    type: 'invalid_request_error' | 'authentication_error' | 'not_found_error' | 'server_error';
+    param: string | null;
+    code: string | null;
+  };
+}
@@ -9,6 +9,7 @@ import type {
 } from '@elizaos/core';
 import type { MessageServerMetadata, ChannelMetadata, MessageMetadata } from '@elizaos/api-client';
 import type express from 'express';
+import type { MessageBusTransport } from '../services/message-bus-transport';
 
 // ============================================================================
 // Server Configuration Types
@@ -42,6 +43,9 @@ export interface ServerConfig {
     init?: (runtime: IAgentRuntime) => Promise<void>;
   }>;
   isTestMode?: boolean;
+
+  // Relays message bus events between server processes (defaults to in-memory)
+  messageBusTransport?: MessageBusTransport;
 }
 
 // ============================================================================
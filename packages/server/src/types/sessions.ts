@@ -45,6 +45,8 @@ export interface Session {
   timeoutConfig: SessionTimeoutConfig;
   /** Number of times the session has been renewed */
   renewalCount: number;
+  /** Incremented by every update, so updates made concurrently by replicas are detected */
+  version: number;
   /** Whether a warning has been sent about upcoming expiration */
   warningState?: {
     sent: boolean;
@@ -52,6 +54,41 @@ export interface Session {
   };
 }
 
+/**
+ * Session row as stored by the database adapter
+ */
+export interface SessionRecord extends Omit<
+  Session,
+  'metadata' | 'timeoutConfig' | 'warningState'
+> {
+  metadata: Record<string, unknown>;
+  timeoutConfig: Record<string, unknown>;
+  /** When the expiration warning was sent, undefined when not yet sent */
+  warningSentAt?: Date;
+}
+
+/**
+ * Filters for listing sessions
+ */
+export interface SessionQuery {
+  /** Only sessions with one of these agents */
+  agentIds?: UUID[];
+  /** Only sessions in one of these channels */
+  channelIds?: UUID[];
+  /** Only sessions still active at this timestamp (ms) */
+  activeAt?: number;
+  /** Only sessions whose expiration warning has not been sent */
+  unwarned?: boolean;
+}
+
+/**
+ * Session persistence settings
+ */
+export interface SessionPersistenceConfig {
+  /** Store sessions in the database, shared by all server replicas, instead of in memory */
+  enabled: boolean;
+}
+
 /**
  * Request body for creating a session
  */
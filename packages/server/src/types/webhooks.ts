@@ -0,0 +1,132 @@
+import { EventType, type UUID } from '@elizaos/core';
+
+/**
+ * Message bus events a webhook can subscribe to, next to the runtime `EventType` values.
+ * Bus events are server-level: they are not tied to an agent, so a webhook's agent
+ * filter does not apply to them.
+ */
+export const MESSAGE_BUS_WEBHOOK_EVENTS = [
+  'new_message',
+  'message_deleted',
+  'channel_cleared',
+] as const;
+
+export type MessageBusWebhookEvent = (typeof MESSAGE_BUS_WEBHOOK_EVENTS)[number];
+
+/**
+ * Every event a webhook can subscribe to
+ */
+export const WEBHOOK_EVENTS: readonly string[] = [
+  ...Object.values(EventType),
+  ...MESSAGE_BUS_WEBHOOK_EVENTS,
+];
+
+/**
+ * - `pending`: waiting for its first attempt or a retry
+ * - `delivered`: the endpoint answered with a 2xx status
+ * - `dead_letter`: every attempt failed; it is only sent again when redelivered
+ */
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'delivered', 'dead_letter'] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+/**
+ * A webhook subscription as returned by the API; the secret is only returned on creation
+ */
+export interface Webhook {
+  id: UUID;
+  url: string;
+  description?: string;
+  events: string[];
+  /** Agents whose events are delivered; all agents when undefined */
+  agentIds?: UUID[];
+  /** Channels whose events are delivered; all channels when undefined */
+  channelIds?: UUID[];
+  enabled: boolean;
+  createdAt: number;
+}
+
+/**
+ * Webhook row as stored by the database adapter
+ */
+export interface WebhookRecord extends Omit<Webhook, 'createdAt'> {
+  secret: string;
+  createdAt: Date;
+}
+
+/**
+ * Request to create a webhook
+ */
+export interface CreateWebhookRequest {
+  url: string;
+  events: string[];
+  agentIds?: UUID[];
+  channelIds?: UUID[];
+  description?: string;
+  /** Signing secret; one is generated when undefined */
+  secret?: string;
+}
+
+/**
+ * Response when creating a webhook
+ */
+export interface CreateWebhookResponse extends Webhook {
+  /** Secret used to sign deliveries, shown only once */
+  secret: string;
+}
+
+/**
+ * Body POSTed to a webhook endpoint
+ */
+export interface WebhookPayload {
+  /** Delivery id, the same for every attempt of a delivery */
+  id: UUID;
+  event: string;
+  /** When the event happened (ms) */
+  timestamp: number;
+  agentId?: UUID;
+  channelId?: UUID;
+  data: Record<string, unknown>;
+}
+
+/**
+ * A delivery of an event to a webhook, as shown in the delivery log
+ */
+export interface WebhookDelivery {
+  id: UUID;
+  webhookId: UUID;
+  event: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** When the next attempt is due (ms), for pending deliveries */
+  nextAttemptAt?: number;
+  /** HTTP status of the last response */
+  responseStatus?: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Delivery row as stored by the database adapter
+ */
+export interface WebhookDeliveryRecord extends Omit<
+  WebhookDelivery,
+  'payload' | 'status' | 'nextAttemptAt' | 'createdAt' | 'updatedAt'
+> {
+  payload: Record<string, unknown>;
+  status: string;
+  nextAttemptAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Filters for the delivery log
+ */
+export interface WebhookDeliveryQuery {
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+  offset?: number;
+}
@@ -0,0 +1,181 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { UUID } from '@elizaos/core';
+import type { ApiKey, ApiKeyScope } from '../types/api-keys';
+
+const API_KEY_PREFIX = 'eliza_';
+// Characters of a key kept to tell keys apart, including the prefix
+const API_KEY_DISPLAY_LENGTH = 12;
+
+const UUID_PATTERN = '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}';
+const AGENT_PATH = new RegExp(`/(?:agents|memory|audio)/(${UUID_PATTERN})(?:/|$)`, 'i');
+const CHANNEL_PATH = new RegExp(`/(?:channels|central-channels)/(${UUID_PATTERN})(?:/|$)`, 'i');
+
+// Routes that load the session, stream or job they act on, or resolve the agent from the
+// OpenAI `model`, and check the key against its agent and channel themselves
+const ROUTE_CHECKED_PATHS = [
+  /^\/api\/messaging\/sessions\/(?!health$)[^/]+(?:\/.*)?$/,
+  /^\/api\/messaging\/streams\/[^/]+$/,
+  /^\/api\/messaging\/jobs\/(?!health$)[^/]+$/,
+  /^\/v1\//,
+];
+
+// Routes acting on no agent or channel that restricted keys may use; the listings among
+// them only return what the key may access
+const UNTARGETED_ROUTES: [string, RegExp][] = [
+  ['GET', /^\/api\/agents$/],
+  ['GET', /^\/api\/messaging\/jobs$/],
+  ['GET', /^\/api\/messaging\/sessions$/],
+  ['GET', /^\/api\/system\/(?:version|config)$/],
+  ['GET', /^\/api\/openapi\.json$/],
+];
+
+/**
+ * Hash of a key as stored in the database
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generates a new key with the hash and display prefix to store
+ */
+export function generateApiKey(): { key: string; keyHash: string; prefix: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { key, keyHash: hashApiKey(key), prefix: key.slice(0, API_KEY_DISPLAY_LENGTH) };
+}
+
+/**
+ * Full path of a request as Express routes it: case-insensitive and with or without a
+ * trailing slash. Paths are normalized before they are classified, so that `/api/SYSTEM/`
+ * needs the same scope as `/api/system`.
+ */
+export function normalizeRequestPath(path: string): string {
+  return path.toLowerCase().replace(/(.)\/+$/, '$1');
+}
+
+/**
+ * Scope a request needs, from its method, full path (e.g. `/api/agents/...`) and query
+ */
+export function getRequiredScope(
+  method: string,
+  requestPath: string,
+  query: Record<string, unknown> = {}
+): ApiKeyScope {
+  const path = normalizeRequestPath(requestPath);
+  const isRead = method === 'GET' || method === 'HEAD';
+
+  if (path.startsWith('/api/webhooks')) {
+    return 'system';
+  }
+
+  // An export with encrypted or plaintext secrets hands out the agent's credentials
+  if (/^\/api\/agents\/[^/]+\/export\/?$/.test(path) && (query.secrets ?? 'omit') !== 'omit') {
+    return 'system';
+  }
+
+  if (path.startsWith('/api/system/') || path.startsWith('/api/server/')) {
+    // The version and public configuration are read by every client
+    if (isRead && /^\/api\/system\/(version|config)(\/|$)/.test(path)) {
+      return 'agents:read';
+    }
+    return 'system';
+  }
+
+  if (path.startsWith('/api/memory/') || /\/memories(\/|$)/.test(path)) {
+    if (method === 'DELETE' || /\/memories\/prune$/.test(path)) {
+      return 'memory:delete';
+    }
+    return isRead ? 'agents:read' : 'agents:write';
+  }
+
+  if (
+    path.startsWith('/api/messaging/') ||
+    path.startsWith('/api/audio/') ||
+    path.startsWith('/api/media/') ||
+    path.startsWith('/v1/')
+  ) {
+    return 'messaging';
+  }
+
+  return isRead ? 'agents:read' : 'agents:write';
+}
+
+function readField(source: unknown, ...names: string[]): string | undefined {
+  if (!source || typeof source !== 'object') {
+    return undefined;
+  }
+  for (const name of names) {
+    const value = (source as Record<string, unknown>)[name];
+    if (typeof value === 'string') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The agent and channel a request acts on
+ */
+export interface RequestTargets {
+  agentId?: string;
+  channelId?: string;
+}
+
+/**
+ * The agent and channel a request acts on, read from its path, then its body and query.
+ * Either is undefined when the request does not name one.
+ */
+export function getRequestTargets(request: {
+  path: string;
+  body?: unknown;
+  query?: unknown;
+}): RequestTargets {
+  return {
+    agentId:
+      request.path.match(AGENT_PATH)?.[1] ??
+      readField(request.body, 'agentId', 'agent_id') ??
+      readField(request.query, 'agentId', 'agent_id'),
+    channelId:
+      request.path.match(CHANNEL_PATH)?.[1] ??
+      readField(request.body, 'channelId', 'channel_id') ??
+      readField(request.query, 'channelId', 'channel_id'),
+  };
+}
+
+/**
+ * Whether the route checks the key against the agent and channel of what it loads,
+ * from the full path of the request
+ */
+export function isRouteCheckedPath(path: string): boolean {
+  return ROUTE_CHECKED_PATHS.some((pattern) => pattern.test(path));
+}
+
+/**
+ * Whether the route acts on no agent or channel, from the method and full path
+ */
+export function isUntargetedRoute(method: string, path: string): boolean {
+  return UNTARGETED_ROUTES.some(
+    ([routeMethod, pattern]) => routeMethod === method && pattern.test(path)
+  );
+}
+
+/**
+ * Whether a key may act on a target. A key restricted to agents or channels is denied
+ * any target whose agent or channel is unknown. Requests made without a managed key
+ * (the server token, or no authentication) may act on any target.
+ */
+export function canAccessTarget(
+  key: Pick<ApiKey, 'agentIds' | 'channelIds'> | undefined,
+  target: RequestTargets
+): boolean {
+  if (!key) {
+    return true;
+  }
+  if (key.agentIds && !(target.agentId && key.agentIds.includes(target.agentId as UUID))) {
+    return false;
+  }
+  if (key.channelIds && !(target.channelId && key.channelIds.includes(target.channelId as UUID))) {
+    return false;
+  }
+  return true;
+}
@@ -8,6 +8,29 @@ export { attachmentsToApiUrls, transformMessageAttachments } from './media-trans
 // RLS validation
 export { validateServerIdForRls } from './rls-validation';
 
+// API key utilities
+export {
+  generateApiKey,
+  hashApiKey,
+  getRequiredScope,
+  getRequestTargets,
+  canAccessTarget,
+  isRouteCheckedPath,
+  isUntargetedRoute,
+  normalizeRequestPath,
+} from './api-keys';
+
+// Webhook utilities
+export {
+  checkWebhookUrl,
+  generateWebhookSecret,
+  isPrivateAddress,
+  resolveWebhookUrl,
+  sendWebhookRequest,
+  signWebhookPayload,
+  toWebhookData,
+} from './webhooks';
+
 // Upload utilities
 export {
   generateSecureFilename,
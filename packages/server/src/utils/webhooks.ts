@@ -0,0 +1,196 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+// Keys left out of event payloads: runtime handles, callbacks and bulky vectors
+const OMITTED_PAYLOAD_KEYS = new Set(['runtime', 'callback', 'onComplete', 'embedding']);
+
+// Loopback, private, link-local (which includes cloud metadata endpoints such as
+// 169.254.169.254), carrier-grade NAT, benchmarking, multicast and reserved networks.
+// IPv4-mapped IPv6 addresses, in dotted or hex form, are checked against the IPv4 networks.
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  // Unspecified, loopback and the deprecated IPv4-compatible addresses
+  ['::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Generates a secret for signing webhook deliveries
+ */
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Signature header value for a delivery body sent at `timestamp` (ms):
+ * `t=<timestamp>,v1=<hex HMAC-SHA256 of "<timestamp>.<body>">`.
+ * Receivers recompute the HMAC with their secret and reject old timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local (which includes cloud metadata
+ * endpoints such as 169.254.169.254), carrier-grade NAT, multicast or otherwise not a
+ * public internet address. Anything that is not an IP address counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return PRIVATE_NETWORKS.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * A webhook URL checked by `resolveWebhookUrl`
+ */
+export interface ResolvedWebhookUrl {
+  /** Why the URL may not be used, or null */
+  error: string | null;
+  /** Public address the host resolved to; undefined when private URLs are allowed */
+  address?: string;
+}
+
+/**
+ * Checks that a webhook URL points at a public address, resolving its host name.
+ * Set WEBHOOK_ALLOW_PRIVATE_URLS=true to deliver to local or private networks.
+ */
+export async function resolveWebhookUrl(
+  url: string,
+  resolve: (hostname: string) => Promise<string[]> = async (hostname) =>
+    (await lookup(hostname, { all: true })).map((entry) => entry.address)
+): Promise<ResolvedWebhookUrl> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { error: 'url must be an http or https URL' };
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { error: 'url must be an http or https URL' };
+  }
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true') {
+    return { error: null };
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : await resolve(hostname);
+  } catch {
+    return { error: `url host ${hostname} could not be resolved` };
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    return { error: 'url must not point at a loopback, private or link-local address' };
+  }
+  return { error: null, address: addresses[0] };
+}
+
+/**
+ * Checks that a webhook URL points at a public address, resolving its host name
+ * @returns An error message, or null when the URL may be used
+ */
+export async function checkWebhookUrl(
+  url: string,
+  resolve?: (hostname: string) => Promise<string[]>
+): Promise<string | null> {
+  return (await resolveWebhookUrl(url, resolve)).error;
+}
+
+/**
+ * Sends a webhook request. With an address, the request connects to it instead of
+ * resolving the host name again, so that the host cannot be rebound to a private address
+ * between the URL check and the request; TLS still verifies the certificate of the host,
+ * and redirects are not followed.
+ */
+export function sendWebhookRequest(
+  url: string,
+  init: RequestInit,
+  address?: string
+): Promise<Response> {
+  if (!address) {
+    return fetch(url, init);
+  }
+
+  const family = isIP(address);
+  const pinnedLookup = ((_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [{ address, family }]);
+    } else {
+      callback(null, address, family);
+    }
+  }) as LookupFunction;
+
+  const parsed = new URL(url);
+  const request = parsed.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      parsed,
+      {
+        method: init.method,
+        headers: init.headers as Record<string, string>,
+        signal: init.signal ?? undefined,
+        lookup: pinnedLookup,
+      },
+      (res) => {
+        // Only the status is used
+        res.resume();
+        res.on('end', () =>
+          resolve(new Response(null, { status: res.statusCode, statusText: res.statusMessage }))
+        );
+        res.on('error', reject);
+      }
+    );
+    req.on('error', reject);
+    req.end(typeof init.body === 'string' ? init.body : undefined);
+  });
+}
+
+/**
+ * Converts an event payload into plain JSON data, dropping functions, runtime handles,
+ * embeddings and repeated object references (which also breaks cycles)
+ */
+export function toWebhookData(payload: object): Record<string, unknown> {
+  const seen = new WeakSet<object>();
+  const json = JSON.stringify(payload, (key, value: unknown) => {
+    if (OMITTED_PAYLOAD_KEYS.has(key) || typeof value === 'function') {
+      return undefined;
+    }
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (value && typeof value === 'object') {
+      if (seen.has(value)) {
+        return undefined;
+      }
+      seen.add(value);
+    }
+    return value;
+  });
+  return json ? JSON.parse(json) : {};
+}
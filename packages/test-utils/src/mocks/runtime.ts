@@ -15,6 +15,7 @@ import type {
   UUID,
   Logger,
 } from '@elizaos/core';
+import { CORE_PROMPT_TEMPLATES } from '@elizaos/core';
 import { mock } from './mockUtils';
 
 /**
@@ -129,6 +130,9 @@ export function createMockRuntime(overrides: MockRuntimeOverrides = {}): IAgentR
 
     // Core Runtime Methods
     registerPlugin: mock().mockResolvedValue(undefined),
+    unregisterPlugin: mock().mockResolvedValue(undefined),
+    reload: mock().mockResolvedValue({ addedPlugins: [], removedPlugins: [] }),
+    trackMessage: mock((handler: () => Promise<unknown>) => handler()),
     initialize: mock().mockResolvedValue(undefined),
     getConnection: mock().mockResolvedValue(mockDb),
     getService: mock().mockReturnValue(null),
@@ -151,6 +155,15 @@ export function createMockRuntime(overrides: MockRuntimeOverrides = {}): IAgentR
       return defaultSettings[key];
     }),
     getConversationLength: mock().mockReturnValue(10),
+    getStateCacheMetrics: mock().mockReturnValue({
+      hits: 0,
+      misses: 0,
+      evictions: 0,
+      expirations: 0,
+      backendHits: 0,
+      entries: stateCache.size,
+      bytes: 0,
+    }),
     getActionResults: (messageId: UUID): ActionResult[] => {
       const cachedState = stateCache?.get(`${messageId}_action_results`);
       return (cachedState?.data?.actionResults as ActionResult[]) || [];
@@ -160,6 +173,15 @@ export function createMockRuntime(overrides: MockRuntimeOverrides = {}): IAgentR
     registerProvider: mock(),
     registerAction: mock(),
     registerEvaluator: mock(),
+    registerPromptTemplate: mock(),
+    getPromptTemplates: mock().mockReturnValue([]),
+    getPromptTemplate: mock().mockImplementation(
+      (name: string) =>
+        baseRuntime.character.templates?.[name] ??
+        CORE_PROMPT_TEMPLATES.find((definition) => definition.name === name)?.template ??
+        ''
+    ),
+    getRunPromptTemplates: mock().mockReturnValue([]),
     ensureConnection: mock().mockResolvedValue(undefined),
     ensureConnections: mock().mockResolvedValue(undefined),
     ensureParticipantInRoom: mock().mockResolvedValue(undefined),
@@ -284,6 +306,7 @@ export function createMockRuntime(overrides: MockRuntimeOverrides = {}): IAgentR
 
     // Text Generation (required by IAgentRuntime)
     generateText: mock().mockResolvedValue('Mock generated text'),
+    generateObject: mock().mockResolvedValue({ success: true, object: {}, attempts: 1 }),
 
     // Room Participant Checks
     isRoomParticipant: mock().mockResolvedValue(false),
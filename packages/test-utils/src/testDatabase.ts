@@ -552,7 +552,7 @@ export class TestDatabaseManager {
         return null;
       },
 
-      async countMemories(roomId: UUID, unique?: boolean, tableName = 'messages') {
+      async countMemories(roomId: UUID, unique?: boolean, tableName = 'messages', start?: number) {
         const tableData = storage.memories.get(tableName);
         if (!tableData) {
           return 0;
@@ -566,6 +566,9 @@ export class TestDatabaseManager {
         if (unique) {
           memories = memories.filter((m: any) => m.unique === true);
         }
+        if (start) {
+          memories = memories.filter((m: any) => (m.createdAt ?? 0) >= start);
+        }
         return memories.length;
       },
 